@@ -0,0 +1,24 @@
+-- Spaced repetition scheduler state on user_card_progress
+-- Replaces the fixed 0.5/1/3/7 day intervals with growing SM-2/FSRS-style intervals
+ALTER TABLE "user_card_progress" ADD COLUMN IF NOT EXISTS "ease_factor" numeric(4, 2) DEFAULT '2.50' NOT NULL;
+ALTER TABLE "user_card_progress" ADD COLUMN IF NOT EXISTS "stability" numeric(8, 2) DEFAULT '0' NOT NULL;
+ALTER TABLE "user_card_progress" ADD COLUMN IF NOT EXISTS "interval_days" numeric(8, 2) DEFAULT '0' NOT NULL;
+ALTER TABLE "user_card_progress" ADD COLUMN IF NOT EXISTS "last_interval_days" numeric(8, 2) DEFAULT '0' NOT NULL;
+ALTER TABLE "user_card_progress" ADD COLUMN IF NOT EXISTS "lapses" integer DEFAULT 0 NOT NULL;
+
+-- Seed existing progress from the legacy fixed interval so reviewed cards keep growing from where they are
+UPDATE "user_card_progress"
+SET
+	"interval_days" = CASE
+		WHEN "confidence_level" = 5 THEN 7
+		WHEN "confidence_level" = 4 THEN 3
+		WHEN "confidence_level" = 3 THEN 1
+		ELSE 0.5
+	END,
+	"stability" = CASE
+		WHEN "confidence_level" = 5 THEN 7
+		WHEN "confidence_level" = 4 THEN 3
+		WHEN "confidence_level" = 3 THEN 1
+		ELSE 0.5
+	END
+WHERE "times_seen" > 0 AND "interval_days" = 0;
@@ -0,0 +1,2 @@
+-- Index for the cross-class due review queue (/api/review/due) and its 7/30 day forecast
+CREATE INDEX IF NOT EXISTS "idx_user_card_progress_user_next_review" ON "user_card_progress" USING btree ("clerk_user_id","next_review_date");
@@ -0,0 +1,34 @@
+-- Persistent quiz option ids
+-- Every option in quiz_questions.options / deck_quiz_questions.options gets an "id" so recorded
+-- answers stay interpretable when options are shuffled, reordered or edited.
+
+-- Backfill ids for options created before ids existed, keeping option order
+UPDATE "quiz_questions" q
+SET "options" = (
+  SELECT json_agg(
+    CASE WHEN opt ? 'id' THEN opt ELSE opt || jsonb_build_object('id', gen_random_uuid()::text) END
+    ORDER BY ord
+  )
+  FROM jsonb_array_elements(q."options"::jsonb) WITH ORDINALITY AS t(opt, ord)
+)
+WHERE EXISTS (
+  SELECT 1 FROM jsonb_array_elements(q."options"::jsonb) AS e(opt) WHERE NOT (opt ? 'id')
+);
+
+UPDATE "deck_quiz_questions" q
+SET "options" = (
+  SELECT json_agg(
+    CASE WHEN opt ? 'id' THEN opt ELSE opt || jsonb_build_object('id', gen_random_uuid()::text) END
+    ORDER BY ord
+  )
+  FROM jsonb_array_elements(q."options"::jsonb) WITH ORDINALITY AS t(opt, ord)
+)
+WHERE EXISTS (
+  SELECT 1 FROM jsonb_array_elements(q."options"::jsonb) AS e(opt) WHERE NOT (opt ? 'id')
+);
+
+-- Record answers by option id together with the option order that was shown.
+-- selected_option_index now means the position within option_order; older rows keep
+-- an index into a shuffle that was never recorded and have no option id.
+ALTER TABLE "quiz_session_answers" ADD COLUMN IF NOT EXISTS "selected_option_id" varchar(64);
+ALTER TABLE "quiz_session_answers" ADD COLUMN IF NOT EXISTS "option_order" json;
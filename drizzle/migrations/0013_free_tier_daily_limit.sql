@@ -0,0 +1,15 @@
+-- Free tier daily card limit: timezone the counter resets in
+ALTER TABLE "user_stats" ADD COLUMN IF NOT EXISTS "timezone" varchar(64);
+
+-- Cards counted against the daily limit, one row per card per local day
+CREATE TABLE IF NOT EXISTS "user_daily_card_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerk_user_id" varchar(255) NOT NULL,
+	"flashcard_id" uuid NOT NULL,
+	"usage_date" varchar(10) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_daily_card_usage_clerk_user_id_users_clerk_user_id_fk" FOREIGN KEY ("clerk_user_id") REFERENCES "public"."users"("clerk_user_id") ON DELETE cascade ON UPDATE no action,
+	CONSTRAINT "user_daily_card_usage_flashcard_id_flashcards_id_fk" FOREIGN KEY ("flashcard_id") REFERENCES "public"."flashcards"("id") ON DELETE cascade ON UPDATE no action
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_daily_card_usage_user_card_date" ON "user_daily_card_usage" USING btree ("clerk_user_id","flashcard_id","usage_date");
@@ -0,0 +1,22 @@
+-- Every deck studied in a multi-deck session, with per-deck results
+CREATE TABLE IF NOT EXISTS "study_session_decks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"deck_id" uuid NOT NULL,
+	"cards_studied" integer DEFAULT 0,
+	"average_confidence" numeric(3, 2),
+	"study_duration" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "study_session_decks_session_id_study_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."study_sessions"("id") ON DELETE cascade ON UPDATE no action,
+	CONSTRAINT "study_session_decks_deck_id_decks_id_fk" FOREIGN KEY ("deck_id") REFERENCES "public"."decks"("id") ON DELETE cascade ON UPDATE no action
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_study_session_decks_session_deck" ON "study_session_decks" USING btree ("session_id","deck_id");
+CREATE INDEX IF NOT EXISTS "idx_study_session_decks_deck" ON "study_session_decks" USING btree ("deck_id");
+
+-- Existing sessions only recorded their first deck; carry it over with the session totals
+INSERT INTO "study_session_decks" ("session_id", "deck_id", "cards_studied", "average_confidence", "study_duration", "created_at")
+SELECT "id", "deck_id", "cards_studied", "average_confidence", "study_duration", "created_at"
+FROM "study_sessions"
+WHERE "deck_id" IS NOT NULL
+ON CONFLICT DO NOTHING;
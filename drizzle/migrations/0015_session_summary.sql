@@ -0,0 +1,5 @@
+-- Session summary: confidence before each rating, to find newly mastered and regressed cards
+ALTER TABLE "session_cards" ADD COLUMN IF NOT EXISTS "previous_confidence" integer;
+
+-- Sessions that only study a subset of their decks' cards (e.g. retrying weak cards)
+ALTER TABLE "study_sessions" ADD COLUMN IF NOT EXISTS "focus_flashcard_ids" json;
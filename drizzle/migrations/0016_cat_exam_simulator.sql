@@ -0,0 +1,15 @@
+-- CAT exam simulator: exam attempts are stored as quiz sessions of type 'exam'
+ALTER TABLE "quiz_sessions" DROP CONSTRAINT IF EXISTS "quiz_sessions_quiz_type_check";
+ALTER TABLE "quiz_sessions" ADD CONSTRAINT "quiz_sessions_quiz_type_check" CHECK ("quiz_type" IN ('flashcard', 'deck', 'exam'));
+
+-- The item the candidate must answer next (no going back to earlier items)
+ALTER TABLE "quiz_sessions" ADD COLUMN IF NOT EXISTS "current_question_id" uuid;
+
+-- Pass/fail estimate and per-domain proficiency report, set when the exam ends
+ALTER TABLE "quiz_sessions" ADD COLUMN IF NOT EXISTS "exam_result" json;
+
+DO $$ BEGIN
+ ALTER TABLE "quiz_sessions" ADD CONSTRAINT "quiz_sessions_current_question_id_deck_quiz_questions_id_fk" FOREIGN KEY ("current_question_id") REFERENCES "public"."deck_quiz_questions"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
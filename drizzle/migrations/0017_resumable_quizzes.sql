@@ -0,0 +1,6 @@
+-- Resumable quizzes: the layout an attempt was shown with and the time spent so far
+ALTER TABLE "quiz_sessions" ADD COLUMN IF NOT EXISTS "question_order" json;
+ALTER TABLE "quiz_sessions" ADD COLUMN IF NOT EXISTS "option_orders" json;
+ALTER TABLE "quiz_sessions" ADD COLUMN IF NOT EXISTS "elapsed_seconds" integer DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS "idx_quiz_sessions_user_open" ON "quiz_sessions" USING btree ("clerk_user_id","ended_at");
@@ -0,0 +1,14 @@
+-- Quiz question types: multiple choice, select all that apply, ordering, matching and hotspot
+ALTER TABLE "quiz_questions" ADD COLUMN IF NOT EXISTS "question_type" varchar(20) DEFAULT 'single_choice' NOT NULL;
+ALTER TABLE "quiz_questions" ADD COLUMN IF NOT EXISTS "image_url" text;
+ALTER TABLE "deck_quiz_questions" ADD COLUMN IF NOT EXISTS "question_type" varchar(20) DEFAULT 'single_choice' NOT NULL;
+ALTER TABLE "deck_quiz_questions" ADD COLUMN IF NOT EXISTS "image_url" text;
+
+ALTER TABLE "quiz_questions" DROP CONSTRAINT IF EXISTS "quiz_questions_question_type_check";
+ALTER TABLE "quiz_questions" ADD CONSTRAINT "quiz_questions_question_type_check" CHECK ("question_type" IN ('single_choice', 'multi_select', 'ordering', 'matching', 'hotspot'));
+ALTER TABLE "deck_quiz_questions" DROP CONSTRAINT IF EXISTS "deck_quiz_questions_question_type_check";
+ALTER TABLE "deck_quiz_questions" ADD CONSTRAINT "deck_quiz_questions_question_type_check" CHECK ("question_type" IN ('single_choice', 'multi_select', 'ordering', 'matching', 'hotspot'));
+
+-- Answers to questions other than single choice have no single selected option; the full response is stored instead
+ALTER TABLE "quiz_session_answers" ALTER COLUMN "selected_option_index" DROP NOT NULL;
+ALTER TABLE "quiz_session_answers" ADD COLUMN IF NOT EXISTS "response" json;
@@ -0,0 +1,25 @@
+-- XP and achievements persisted across quiz sessions, awarded by the server at quiz completion
+CREATE TABLE IF NOT EXISTS "user_xp" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerk_user_id" varchar(255) NOT NULL,
+	"total_xp" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_xp_clerk_user_id_unique" UNIQUE("clerk_user_id"),
+	CONSTRAINT "user_xp_clerk_user_id_users_clerk_user_id_fk" FOREIGN KEY ("clerk_user_id") REFERENCES "public"."users"("clerk_user_id") ON DELETE cascade ON UPDATE no action
+);
+
+CREATE TABLE IF NOT EXISTS "user_achievements" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerk_user_id" varchar(255) NOT NULL,
+	"achievement_id" varchar(50) NOT NULL,
+	"quiz_session_id" uuid,
+	"unlocked_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_achievements_clerk_user_id_users_clerk_user_id_fk" FOREIGN KEY ("clerk_user_id") REFERENCES "public"."users"("clerk_user_id") ON DELETE cascade ON UPDATE no action,
+	CONSTRAINT "user_achievements_quiz_session_id_quiz_sessions_id_fk" FOREIGN KEY ("quiz_session_id") REFERENCES "public"."quiz_sessions"("id") ON DELETE set null ON UPDATE no action
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_user_achievements_user_achievement" ON "user_achievements" USING btree ("clerk_user_id","achievement_id");
+
+-- XP awarded for each completed quiz
+ALTER TABLE "quiz_sessions" ADD COLUMN IF NOT EXISTS "xp_earned" integer;
@@ -0,0 +1,3 @@
+-- Sub-topic drills from the insights page are stored as quiz sessions of type 'drill'
+ALTER TABLE "quiz_sessions" DROP CONSTRAINT IF EXISTS "quiz_sessions_quiz_type_check";
+ALTER TABLE "quiz_sessions" ADD CONSTRAINT "quiz_sessions_quiz_type_check" CHECK ("quiz_type" IN ('flashcard', 'deck', 'exam', 'drill'));
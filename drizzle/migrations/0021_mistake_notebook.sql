@@ -0,0 +1,59 @@
+-- Mistake notebook: every quiz question a user answered wrong, re-quizzed with spaced repetition
+CREATE TABLE IF NOT EXISTS "mistake_notebook_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerk_user_id" varchar(255) NOT NULL,
+	"quiz_question_id" uuid,
+	"deck_quiz_question_id" uuid,
+	"last_wrong_response" json,
+	"last_wrong_at" timestamp NOT NULL,
+	"times_wrong" integer DEFAULT 1 NOT NULL,
+	"consecutive_correct" integer DEFAULT 0 NOT NULL,
+	"ease_factor" numeric(4, 2) DEFAULT '2.50' NOT NULL,
+	"stability" numeric(8, 2) DEFAULT '0' NOT NULL,
+	"interval_days" numeric(8, 2) DEFAULT '0' NOT NULL,
+	"last_interval_days" numeric(8, 2) DEFAULT '0' NOT NULL,
+	"lapses" integer DEFAULT 0 NOT NULL,
+	"last_reviewed_at" timestamp NOT NULL,
+	"next_review_date" timestamp NOT NULL,
+	"retired_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "mistake_notebook_entries_clerk_user_id_users_clerk_user_id_fk" FOREIGN KEY ("clerk_user_id") REFERENCES "public"."users"("clerk_user_id") ON DELETE cascade ON UPDATE no action,
+	CONSTRAINT "mistake_notebook_entries_quiz_question_id_quiz_questions_id_fk" FOREIGN KEY ("quiz_question_id") REFERENCES "public"."quiz_questions"("id") ON DELETE cascade ON UPDATE no action,
+	CONSTRAINT "mistake_notebook_entries_deck_quiz_question_id_deck_quiz_questions_id_fk" FOREIGN KEY ("deck_quiz_question_id") REFERENCES "public"."deck_quiz_questions"("id") ON DELETE cascade ON UPDATE no action,
+	CONSTRAINT "mistake_notebook_entries_question_check" CHECK (("quiz_question_id" IS NULL) <> ("deck_quiz_question_id" IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_mistake_notebook_user_quiz_question" ON "mistake_notebook_entries" USING btree ("clerk_user_id","quiz_question_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_mistake_notebook_user_deck_quiz_question" ON "mistake_notebook_entries" USING btree ("clerk_user_id","deck_quiz_question_id");
+CREATE INDEX IF NOT EXISTS "idx_mistake_notebook_user_next_review" ON "mistake_notebook_entries" USING btree ("clerk_user_id","next_review_date");
+
+-- Collect the wrong answers already recorded, leaving out exams still in progress.
+-- Each entry is due half a day after its last wrong answer, like a forgotten review card.
+INSERT INTO "mistake_notebook_entries" (
+	"clerk_user_id", "quiz_question_id", "deck_quiz_question_id", "last_wrong_response", "last_wrong_at",
+	"times_wrong", "stability", "interval_days", "last_reviewed_at", "next_review_date"
+)
+SELECT DISTINCT ON (s."clerk_user_id", a."quiz_question_id", a."deck_quiz_question_id")
+	s."clerk_user_id",
+	a."quiz_question_id",
+	a."deck_quiz_question_id",
+	COALESCE(
+		a."response",
+		CASE WHEN a."selected_option_id" IS NOT NULL
+			THEN json_build_object('type', 'single_choice', 'optionId', a."selected_option_id")
+		END
+	),
+	a."created_at",
+	count(*) OVER (PARTITION BY s."clerk_user_id", a."quiz_question_id", a."deck_quiz_question_id"),
+	0.5,
+	0.5,
+	a."created_at",
+	a."created_at" + interval '12 hours'
+FROM "quiz_session_answers" a
+INNER JOIN "quiz_sessions" s ON s."id" = a."session_id"
+WHERE a."is_correct" = false
+	AND (a."quiz_question_id" IS NULL) <> (a."deck_quiz_question_id" IS NULL)
+	AND (s."quiz_type" <> 'exam' OR s."ended_at" IS NOT NULL)
+ORDER BY s."clerk_user_id", a."quiz_question_id", a."deck_quiz_question_id", a."created_at" DESC
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,16 @@
+-- Daily exam readiness estimates, shown as a trend on the dashboard
+CREATE TABLE IF NOT EXISTS "readiness_snapshots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerk_user_id" varchar(255) NOT NULL,
+	"snapshot_date" varchar(10) NOT NULL,
+	"score" numeric(5, 2) NOT NULL,
+	"score_low" numeric(5, 2) NOT NULL,
+	"score_high" numeric(5, 2) NOT NULL,
+	"pass_probability" numeric(5, 2) NOT NULL,
+	"domain_scores" json NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "readiness_snapshots_clerk_user_id_users_clerk_user_id_fk" FOREIGN KEY ("clerk_user_id") REFERENCES "public"."users"("clerk_user_id") ON DELETE cascade ON UPDATE no action
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_readiness_snapshots_user_date" ON "readiness_snapshots" USING btree ("clerk_user_id","snapshot_date");
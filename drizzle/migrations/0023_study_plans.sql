@@ -0,0 +1,14 @@
+-- Exam date, weekly time budget and study days for the personal study planner
+CREATE TABLE IF NOT EXISTS "study_plans" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerk_user_id" varchar(255) NOT NULL,
+	"exam_date" varchar(10) NOT NULL,
+	"weekly_minutes" integer NOT NULL,
+	"study_days" json NOT NULL,
+	"baseline_date" varchar(10) NOT NULL,
+	"baseline_new_cards" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "study_plans_clerk_user_id_unique" UNIQUE("clerk_user_id"),
+	CONSTRAINT "study_plans_clerk_user_id_users_clerk_user_id_fk" FOREIGN KEY ("clerk_user_id") REFERENCES "public"."users"("clerk_user_id") ON DELETE cascade ON UPDATE no action
+);
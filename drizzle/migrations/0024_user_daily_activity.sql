@@ -0,0 +1,75 @@
+-- Daily study and quiz activity per local day, the single source for streaks
+CREATE TABLE IF NOT EXISTS "user_daily_activity" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerk_user_id" varchar(255) NOT NULL,
+	"activity_date" varchar(10) NOT NULL,
+	"cards_studied" integer DEFAULT 0 NOT NULL,
+	"questions_answered" integer DEFAULT 0 NOT NULL,
+	"study_sessions" integer DEFAULT 0 NOT NULL,
+	"quiz_sessions" integer DEFAULT 0 NOT NULL,
+	"study_seconds" integer DEFAULT 0 NOT NULL,
+	"frozen" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_daily_activity_clerk_user_id_users_clerk_user_id_fk" FOREIGN KEY ("clerk_user_id") REFERENCES "public"."users"("clerk_user_id") ON DELETE cascade ON UPDATE no action
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_user_daily_activity_user_date" ON "user_daily_activity" USING btree ("clerk_user_id","activity_date");
+
+-- Longest streak, freeze tokens and the last day counted in the current streak
+ALTER TABLE "user_stats" ADD COLUMN IF NOT EXISTS "longest_streak_days" integer DEFAULT 0;
+ALTER TABLE "user_stats" ADD COLUMN IF NOT EXISTS "streak_freeze_tokens" integer DEFAULT 0;
+ALTER TABLE "user_stats" ADD COLUMN IF NOT EXISTS "last_streak_date" varchar(10);
+
+-- Rebuild past activity from sessions, ratings and quiz answers, in each user's stored timezone
+WITH "zones" AS (
+	SELECT "clerk_user_id",
+		CASE WHEN "timezone" IN (SELECT "name" FROM pg_timezone_names) THEN "timezone" ELSE 'UTC' END AS "zone"
+	FROM "user_stats"
+), "events" AS (
+	SELECT s."clerk_user_id", s."ended_at" AS "at", 0 AS "cards", 0 AS "questions", 1 AS "study", 0 AS "quiz", COALESCE(s."study_duration", 0) AS "seconds"
+	FROM "study_sessions" s
+	WHERE s."ended_at" IS NOT NULL
+	UNION ALL
+	SELECT s."clerk_user_id", c."created_at", 1, 0, 0, 0, 0
+	FROM "session_cards" c
+	INNER JOIN "study_sessions" s ON s."id" = c."session_id"
+	UNION ALL
+	SELECT q."clerk_user_id", a."created_at", 0, 1, 0, 0, 0
+	FROM "quiz_session_answers" a
+	INNER JOIN "quiz_sessions" q ON q."id" = a."session_id"
+	UNION ALL
+	SELECT q."clerk_user_id", q."ended_at", 0, 0, 0, 1, COALESCE(q."quiz_duration", 0)
+	FROM "quiz_sessions" q
+	WHERE q."ended_at" IS NOT NULL
+)
+INSERT INTO "user_daily_activity" ("clerk_user_id", "activity_date", "cards_studied", "questions_answered", "study_sessions", "quiz_sessions", "study_seconds")
+SELECT e."clerk_user_id",
+	to_char((e."at" AT TIME ZONE 'UTC') AT TIME ZONE COALESCE(z."zone", 'UTC'), 'YYYY-MM-DD') AS "activity_date",
+	SUM(e."cards"), SUM(e."questions"), SUM(e."study"), SUM(e."quiz"), SUM(e."seconds")
+FROM "events" e
+LEFT JOIN "zones" z ON z."clerk_user_id" = e."clerk_user_id"
+GROUP BY e."clerk_user_id", "activity_date"
+ON CONFLICT DO NOTHING;
+
+-- Recompute current and longest streaks from the rebuilt activity: consecutive days share a run
+WITH "runs" AS (
+	SELECT "clerk_user_id", COUNT(*) AS "length", MAX("activity_date") AS "last_date"
+	FROM (
+		SELECT "clerk_user_id", "activity_date",
+			"activity_date"::date - (ROW_NUMBER() OVER (PARTITION BY "clerk_user_id" ORDER BY "activity_date"))::int AS "run_start"
+		FROM "user_daily_activity"
+	) "days"
+	GROUP BY "clerk_user_id", "run_start"
+), "streaks" AS (
+	SELECT DISTINCT ON ("clerk_user_id") "clerk_user_id", "length", "last_date",
+		MAX("length") OVER (PARTITION BY "clerk_user_id") AS "longest"
+	FROM "runs"
+	ORDER BY "clerk_user_id", "last_date" DESC
+)
+UPDATE "user_stats" us
+SET "study_streak_days" = s."length",
+	"longest_streak_days" = s."longest",
+	"last_streak_date" = s."last_date"
+FROM "streaks" s
+WHERE us."clerk_user_id" = s."clerk_user_id";
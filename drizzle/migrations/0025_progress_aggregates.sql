@@ -0,0 +1,15 @@
+-- Cards studied per class, so pages can read class progress without counting card progress
+ALTER TABLE "class_progress" ADD COLUMN IF NOT EXISTS "cards_studied" integer DEFAULT 0;
+
+-- One aggregate row per user and deck or class; nothing has written these tables before
+DELETE FROM "deck_progress" a USING "deck_progress" b
+WHERE a."clerk_user_id" = b."clerk_user_id" AND a."deck_id" = b."deck_id" AND a."id" < b."id";
+
+DELETE FROM "class_progress" a USING "class_progress" b
+WHERE a."clerk_user_id" = b."clerk_user_id" AND a."class_id" = b."class_id" AND a."id" < b."id";
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_deck_progress_user_deck" ON "deck_progress" USING btree ("clerk_user_id","deck_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_class_progress_user_class" ON "class_progress" USING btree ("clerk_user_id","class_id");
+CREATE INDEX IF NOT EXISTS "idx_deck_progress_deck" ON "deck_progress" USING btree ("deck_id");
+
+-- Fill both tables from existing card progress with: bun run db:rebuild-progress
@@ -0,0 +1,29 @@
+-- Append-only history of flashcard, flashcard quiz question and deck quiz question edits
+CREATE TABLE IF NOT EXISTS "content_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"entity_type" varchar(30) NOT NULL,
+	"entity_id" uuid NOT NULL,
+	"deck_id" uuid NOT NULL,
+	"revision_number" integer NOT NULL,
+	"action" varchar(20) NOT NULL,
+	"snapshot" json NOT NULL,
+	"changes" json NOT NULL,
+	"restored_from_id" uuid,
+	"author_id" varchar(255) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_content_revisions_entity_revision" ON "content_revisions" USING btree ("entity_type","entity_id","revision_number");
+CREATE INDEX IF NOT EXISTS "idx_content_revisions_deck_created" ON "content_revisions" USING btree ("deck_id","created_at");
+
+-- Revisions are never changed or removed once written
+CREATE OR REPLACE FUNCTION "content_revisions_append_only"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'content_revisions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "content_revisions_append_only" ON "content_revisions";
+CREATE TRIGGER "content_revisions_append_only"
+	BEFORE UPDATE OR DELETE ON "content_revisions"
+	FOR EACH ROW EXECUTE FUNCTION "content_revisions_append_only"();
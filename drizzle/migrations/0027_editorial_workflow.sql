@@ -0,0 +1,47 @@
+-- Editorial workflow: flashcards and deck quiz questions go draft → in review → approved → published
+-- Existing content keeps its visibility: published cards and every deck quiz question start out published
+ALTER TABLE "flashcards" ADD COLUMN IF NOT EXISTS "status" varchar(20) DEFAULT 'published' NOT NULL;
+ALTER TABLE "flashcards" ADD COLUMN IF NOT EXISTS "reviewer_id" varchar(255);
+ALTER TABLE "flashcards" ADD COLUMN IF NOT EXISTS "submitted_by" varchar(255);
+ALTER TABLE "flashcards" ADD COLUMN IF NOT EXISTS "submitted_at" timestamp;
+UPDATE "flashcards" SET "status" = 'draft' WHERE "is_published" = false;
+
+ALTER TABLE "deck_quiz_questions" ADD COLUMN IF NOT EXISTS "status" varchar(20) DEFAULT 'published' NOT NULL;
+ALTER TABLE "deck_quiz_questions" ADD COLUMN IF NOT EXISTS "reviewer_id" varchar(255);
+ALTER TABLE "deck_quiz_questions" ADD COLUMN IF NOT EXISTS "submitted_by" varchar(255);
+ALTER TABLE "deck_quiz_questions" ADD COLUMN IF NOT EXISTS "submitted_at" timestamp;
+
+ALTER TABLE "flashcards" DROP CONSTRAINT IF EXISTS "flashcards_status_check";
+ALTER TABLE "flashcards" ADD CONSTRAINT "flashcards_status_check" CHECK ("status" IN ('draft', 'in_review', 'approved', 'published'));
+ALTER TABLE "deck_quiz_questions" DROP CONSTRAINT IF EXISTS "deck_quiz_questions_status_check";
+ALTER TABLE "deck_quiz_questions" ADD CONSTRAINT "deck_quiz_questions_status_check" CHECK ("status" IN ('draft', 'in_review', 'approved', 'published'));
+
+ALTER TABLE "flashcards" DROP CONSTRAINT IF EXISTS "flashcards_reviewer_id_users_clerk_user_id_fk";
+ALTER TABLE "flashcards" ADD CONSTRAINT "flashcards_reviewer_id_users_clerk_user_id_fk" FOREIGN KEY ("reviewer_id") REFERENCES "public"."users"("clerk_user_id") ON DELETE set null ON UPDATE no action;
+ALTER TABLE "deck_quiz_questions" DROP CONSTRAINT IF EXISTS "deck_quiz_questions_reviewer_id_users_clerk_user_id_fk";
+ALTER TABLE "deck_quiz_questions" ADD CONSTRAINT "deck_quiz_questions_reviewer_id_users_clerk_user_id_fk" FOREIGN KEY ("reviewer_id") REFERENCES "public"."users"("clerk_user_id") ON DELETE set null ON UPDATE no action;
+
+CREATE INDEX IF NOT EXISTS "idx_flashcards_reviewer_status" ON "flashcards" USING btree ("reviewer_id","status");
+CREATE INDEX IF NOT EXISTS "idx_deck_quiz_questions_reviewer_status" ON "deck_quiz_questions" USING btree ("reviewer_id","status");
+
+-- Reviewer discussion, optionally pointing at one field of the item
+CREATE TABLE IF NOT EXISTS "review_comments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"flashcard_id" uuid,
+	"deck_quiz_question_id" uuid,
+	"author_id" varchar(255) NOT NULL,
+	"kind" varchar(20) DEFAULT 'comment' NOT NULL,
+	"field" varchar(50),
+	"quote" text,
+	"body" text NOT NULL,
+	"resolved_at" timestamp,
+	"resolved_by" varchar(255),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "review_comments_flashcard_id_flashcards_id_fk" FOREIGN KEY ("flashcard_id") REFERENCES "public"."flashcards"("id") ON DELETE cascade ON UPDATE no action,
+	CONSTRAINT "review_comments_deck_quiz_question_id_deck_quiz_questions_id_fk" FOREIGN KEY ("deck_quiz_question_id") REFERENCES "public"."deck_quiz_questions"("id") ON DELETE cascade ON UPDATE no action,
+	CONSTRAINT "review_comments_author_id_users_clerk_user_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("clerk_user_id") ON DELETE cascade ON UPDATE no action,
+	CONSTRAINT "review_comments_item_check" CHECK (("flashcard_id" IS NULL) <> ("deck_quiz_question_id" IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS "idx_review_comments_flashcard" ON "review_comments" USING btree ("flashcard_id","created_at");
+CREATE INDEX IF NOT EXISTS "idx_review_comments_deck_quiz_question" ON "review_comments" USING btree ("deck_quiz_question_id","created_at");
@@ -0,0 +1,10 @@
+-- One answer per question per quiz session, so concurrent submits cannot both be scored
+-- Keep the first answer of any question answered twice
+DELETE FROM "quiz_session_answers" AS "duplicate"
+USING "quiz_session_answers" AS "first"
+WHERE "duplicate"."session_id" = "first"."session_id"
+  AND ("duplicate"."quiz_question_id" = "first"."quiz_question_id" OR "duplicate"."deck_quiz_question_id" = "first"."deck_quiz_question_id")
+  AND ("duplicate"."created_at", "duplicate"."id") > ("first"."created_at", "first"."id");
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_quiz_answers_session_question" ON "quiz_session_answers" USING btree ("session_id","quiz_question_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_quiz_answers_session_deck_question" ON "quiz_session_answers" USING btree ("session_id","deck_quiz_question_id");
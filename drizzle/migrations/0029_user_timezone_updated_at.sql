@@ -0,0 +1,2 @@
+-- When the stored timezone last changed, so the client cannot switch zones to reset the daily limit
+ALTER TABLE "user_stats" ADD COLUMN IF NOT EXISTS "timezone_updated_at" timestamp;
@@ -2,6 +2,8 @@ import { withSentryConfig } from '@sentry/nextjs';
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // sql.js loads its WebAssembly build from its own directory (Anki deck import/export)
+  serverExternalPackages: ['sql.js'],
   images: {
     remotePatterns: [
       {
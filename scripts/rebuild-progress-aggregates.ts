@@ -0,0 +1,44 @@
+import 'dotenv/config';
+import { rebuildProgressAggregates, type RebuildScope } from '../src/lib/progress/aggregate-store';
+
+/**
+ * Backfill or rebuild the deck_progress and class_progress aggregates from card progress
+ * Run with: bun run scripts/rebuild-progress-aggregates.ts [--user <clerkUserId>] [--deck <deckId>] [--class <classId>]
+ */
+
+function parseScope(args: string[]): RebuildScope {
+  const scope: RebuildScope = {};
+  for (let i = 0; i < args.length; i += 2) {
+    const value = args[i + 1];
+    if (!value) {
+      throw new Error(`Missing value for ${args[i]}`);
+    }
+    if (args[i] === '--user') scope.userId = value;
+    else if (args[i] === '--deck') scope.deckId = value;
+    else if (args[i] === '--class') scope.classId = value;
+    else throw new Error(`Unknown option ${args[i]}`);
+  }
+  return scope;
+}
+
+async function rebuild() {
+  const scope = parseScope(process.argv.slice(2));
+  console.log('📊 Rebuilding progress aggregates...', Object.keys(scope).length > 0 ? scope : '(all users and decks)');
+
+  const result = await rebuildProgressAggregates(scope);
+
+  console.log('✅ Rebuild completed successfully!');
+  console.log(`   📚 Decks: ${result.decks}`);
+  console.log(`   📊 Deck progress rows: ${result.deckRows}`);
+  console.log(`   📊 Class progress rows: ${result.classRows}`);
+}
+
+rebuild()
+  .then(() => {
+    console.log('\n🎉 Done!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Rebuild failed:', error);
+    process.exit(1);
+  });
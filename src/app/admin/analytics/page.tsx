@@ -13,7 +13,9 @@ interface UserAnalytics {
   role: string;
   createdAt: Date;
   totalCardsStudied: number | null;
-  studyStreakDays: number | null;
+  studyStreakDays: number;
+  longestStreakDays: number;
+  streakFreezeTokens: number;
   totalStudyTime: number | null;
   lastActiveDate: Date | null;
   masteryBreakdown: {
@@ -43,6 +45,8 @@ interface UserDetails {
   stats: {
     totalCardsStudied: number;
     studyStreakDays: number;
+    longestStreakDays: number;
+    streakFreezeTokens: number;
     totalStudyTime: number;
   };
   domainProgress: DomainProgress[];
@@ -188,10 +192,11 @@ export default function AdminAnalyticsPage() {
                       </div>
                     </div>
 
-                    {user.studyStreakDays && user.studyStreakDays > 0 && (
+                    {(user.studyStreakDays > 0 || user.longestStreakDays > 0) && (
                       <div className="mt-2 text-xs text-gray-400 flex items-center gap-1">
                         <TrendingUp className="w-3 h-3" />
-                        {user.studyStreakDays} day streak
+                        {user.studyStreakDays} day streak &middot; longest {user.longestStreakDays}
+                        {user.streakFreezeTokens > 0 && ` · ${user.streakFreezeTokens} freeze${user.streakFreezeTokens === 1 ? '' : 's'}`}
                       </div>
                     )}
                   </div>
@@ -234,6 +239,9 @@ export default function AdminAnalyticsPage() {
                         <p className="text-2xl font-bold text-white">
                           {userDetails.stats?.studyStreakDays || 0} days
                         </p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          Longest {userDetails.stats?.longestStreakDays || 0} &middot; {userDetails.stats?.streakFreezeTokens || 0} freezes
+                        </p>
                       </div>
 
                       <div className="p-4 bg-slate-900/50 rounded-lg col-span-2">
@@ -3,6 +3,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { type QuizFile } from "@/lib/validations/quiz";
+import { type QuizUploadError } from "@/lib/quiz/formats";
 import { QuizFileUpload } from "./QuizFileUpload";
 import RichTextEditor from "@/components/admin/RichTextEditor";
 
@@ -28,6 +29,7 @@ interface Deck {
 interface QuizFileProps {
   data: QuizFile | null;
   fileName: string;
+  errors: QuizUploadError[];
   onFileSelect: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onRemove: () => void;
 }
@@ -142,6 +144,7 @@ export function DeckFormDialog({
         <QuizFileUpload
           quizData={quizFile.data}
           fileName={quizFile.fileName}
+          errors={quizFile.errors}
           onFileSelect={quizFile.onFileSelect}
           onRemove={quizFile.onRemove}
           isRequired
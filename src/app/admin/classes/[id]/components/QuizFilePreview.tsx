@@ -1,20 +1,28 @@
 import { Button } from "@/components/ui/button";
 import { Trash2 } from "lucide-react";
 import { type QuizFile } from "@/lib/validations/quiz";
+import { type QuizUploadError } from "@/lib/quiz/formats";
+
+// Errors listed before the rest are summarised
+const MAX_LISTED_ERRORS = 10;
 
 interface QuizFilePreviewProps {
   quizData: QuizFile;
   fileName: string;
+  errors?: QuizUploadError[];
   onRemove: () => void;
 }
 
-export function QuizFilePreview({ quizData, fileName, onRemove }: QuizFilePreviewProps) {
+export function QuizFilePreview({ quizData, fileName, errors = [], onRemove }: QuizFilePreviewProps) {
   return (
     <div className="p-3 bg-blue-900/30 border border-blue-700 rounded-lg">
       <div className="flex items-center justify-between">
         <div>
           <p className="text-sm font-medium text-blue-300">
             ✓ {quizData.questions.length} questions loaded
+            {errors.length > 0 && (
+              <span className="text-red-300"> · {errors.length} skipped</span>
+            )}
           </p>
           <p className="text-xs text-blue-400 mt-1">{fileName}</p>
         </div>
@@ -28,24 +36,45 @@ export function QuizFilePreview({ quizData, fileName, onRemove }: QuizFilePrevie
           <Trash2 className="w-4 h-4" />
         </Button>
       </div>
-      <div className="mt-2 pt-2 border-t border-blue-700">
-        <p className="text-xs text-blue-300 font-medium mb-1">Preview:</p>
-        <div className="space-y-1">
-          {quizData.questions.slice(0, 2).map((q, idx) => (
-            <div key={idx} className="text-xs text-blue-200">
-              <p className="font-medium">Q{idx + 1}: {q.question}</p>
-              <p className="text-blue-400 ml-2 mt-0.5">
-                {q.options.length} options, {q.options.filter(o => o.isCorrect).length} correct
-              </p>
-            </div>
-          ))}
-          {quizData.questions.length > 2 && (
-            <p className="text-xs text-blue-400 italic">
-              +{quizData.questions.length - 2} more questions...
+      {errors.length > 0 && (
+        <div className="mt-2 pt-2 border-t border-blue-700">
+          <p className="text-xs text-red-300 font-medium mb-1">
+            These questions could not be read and will not be uploaded:
+          </p>
+          <ul className="space-y-0.5">
+            {errors.slice(0, MAX_LISTED_ERRORS).map((error, idx) => (
+              <li key={idx} className="text-xs text-red-200">
+                <span className="font-medium">{error.location}:</span> {error.message}
+              </li>
+            ))}
+          </ul>
+          {errors.length > MAX_LISTED_ERRORS && (
+            <p className="text-xs text-red-300 italic mt-1">
+              +{errors.length - MAX_LISTED_ERRORS} more errors...
             </p>
           )}
         </div>
-      </div>
+      )}
+      {quizData.questions.length > 0 && (
+        <div className="mt-2 pt-2 border-t border-blue-700">
+          <p className="text-xs text-blue-300 font-medium mb-1">Preview:</p>
+          <div className="space-y-1">
+            {quizData.questions.slice(0, 2).map((q, idx) => (
+              <div key={idx} className="text-xs text-blue-200">
+                <p className="font-medium">Q{idx + 1}: {q.question}</p>
+                <p className="text-blue-400 ml-2 mt-0.5">
+                  {q.options.length} options, {q.options.filter(o => o.isCorrect).length} correct
+                </p>
+              </div>
+            ))}
+            {quizData.questions.length > 2 && (
+              <p className="text-xs text-blue-400 italic">
+                +{quizData.questions.length - 2} more questions...
+              </p>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,11 +1,13 @@
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { type QuizFile } from "@/lib/validations/quiz";
+import { QUIZ_UPLOAD_ACCEPT, type QuizUploadError } from "@/lib/quiz/formats";
 import { QuizFilePreview } from "./QuizFilePreview";
 
 interface QuizFileUploadProps {
   quizData: QuizFile | null;
   fileName: string;
+  errors?: QuizUploadError[];
   onFileSelect: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onRemove: () => void;
   isRequired?: boolean;
@@ -14,6 +16,7 @@ interface QuizFileUploadProps {
 export function QuizFileUpload({
   quizData,
   fileName,
+  errors = [],
   onFileSelect,
   onRemove,
   isRequired = false
@@ -24,21 +27,22 @@ export function QuizFileUpload({
         Quiz Questions File {isRequired && '*'}
       </Label>
       <p className="text-xs text-gray-400">
-        Upload a JSON file with multiple-choice questions for this quiz deck
+        Upload quiz questions as JSON, CSV, Markdown, GIFT or QTI (XML or zip package)
       </p>
 
       <Input
         id="deckQuiz"
         type="file"
-        accept=".json"
+        accept={QUIZ_UPLOAD_ACCEPT}
         onChange={onFileSelect}
         className="bg-slate-900 border-slate-700 text-white cursor-pointer"
       />
 
-      {quizData && (
+      {(quizData || errors.length > 0) && (
         <QuizFilePreview
-          quizData={quizData}
+          quizData={quizData ?? { questions: [] }}
           fileName={fileName}
+          errors={errors}
           onRemove={onRemove}
         />
       )}
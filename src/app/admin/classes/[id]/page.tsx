@@ -7,7 +7,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Loader2, Plus, ArrowLeft, BookOpen } from "lucide-react";
 import { toast } from "sonner";
-import { validateQuizFile, type QuizFile } from "@/lib/validations/quiz";
+import { chunkQuizFile, type QuizFile } from "@/lib/validations/quiz";
+import { readQuizUpload, type QuizUploadError } from "@/lib/quiz/formats";
 import { ClassStatsCards } from "./components/ClassStatsCards";
 import { DeckListItem } from "./components/DeckListItem";
 import { DeckFormDialog } from "./components/DeckFormDialog";
@@ -66,6 +67,7 @@ export default function AdminClassDetailPage({ params }: { params: Promise<{ id:
   // Deck quiz state
   const [deckQuizData, setDeckQuizData] = useState<QuizFile | null>(null);
   const [deckQuizFileName, setDeckQuizFileName] = useState<string>("");
+  const [deckQuizErrors, setDeckQuizErrors] = useState<QuizUploadError[]>([]);
 
   // Unwrap params
   useEffect(() => {
@@ -112,6 +114,7 @@ export default function AdminClassDetailPage({ params }: { params: Promise<{ id:
     });
     setDeckQuizData(null);
     setDeckQuizFileName("");
+    setDeckQuizErrors([]);
     setIsDialogOpen(true);
   };
 
@@ -135,37 +138,41 @@ export default function AdminClassDetailPage({ params }: { params: Promise<{ id:
 
   const handleDeckQuizFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    setDeckQuizData(null);
+    setDeckQuizFileName("");
+    setDeckQuizErrors([]);
     if (!file) {
-      setDeckQuizData(null);
-      setDeckQuizFileName("");
       return;
     }
 
     try {
-      const text = await file.text();
-      const json = JSON.parse(text);
-      const result = validateQuizFile(json);
+      const result = await readQuizUpload(file);
 
       if (!result.success) {
         toast.error(`Invalid quiz file: ${result.error}`);
-        setDeckQuizData(null);
-        setDeckQuizFileName("");
         return;
       }
 
-      setDeckQuizData(result.data);
       setDeckQuizFileName(file.name);
-      toast.success(`${result.data.questions.length} question(s) loaded`);
+      setDeckQuizErrors(result.errors);
+      if (result.quiz.questions.length > 0) {
+        setDeckQuizData(result.quiz);
+      }
+
+      if (result.errors.length > 0) {
+        toast.warning(`${result.quiz.questions.length} of ${result.total} question(s) loaded from ${result.label}; ${result.errors.length} skipped`);
+      } else {
+        toast.success(`${result.quiz.questions.length} question(s) loaded from ${result.label}`);
+      }
     } catch {
-      toast.error('Failed to parse JSON file');
-      setDeckQuizData(null);
-      setDeckQuizFileName("");
+      toast.error('Failed to read quiz file');
     }
   };
 
   const handleRemoveDeckQuiz = () => {
     setDeckQuizData(null);
     setDeckQuizFileName("");
+    setDeckQuizErrors([]);
   };
 
   const handleSaveDeck = async () => {
@@ -203,24 +210,29 @@ export default function AdminClassDetailPage({ params }: { params: Promise<{ id:
       // Upload deck quiz if present
       if (deckQuizData && savedDeckId) {
         try {
-          const quizRes = await fetch(`/api/admin/decks/${savedDeckId}/quiz`, {
-            method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              quizData: deckQuizData,
-              classId: classId,
-            }),
-          });
-
-          if (!quizRes.ok) {
-            throw new Error('Failed to upload deck quiz');
+          // Large files are uploaded in chunks, one request each
+          let added = 0;
+          for (const chunk of chunkQuizFile(deckQuizData)) {
+            const quizRes = await fetch(`/api/admin/decks/${savedDeckId}/quiz`, {
+              method: 'PUT',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                quizData: chunk,
+                classId: classId,
+              }),
+            });
+
+            if (!quizRes.ok) {
+              throw new Error(added > 0 ? `Quiz upload stopped after ${added} question(s)` : 'Failed to upload deck quiz');
+            }
+
+            const quizResult = await quizRes.json();
+            added += quizResult.added;
           }
-
-          const quizResult = await quizRes.json();
-          toast.success(quizResult.message);
+          toast.success(`Added ${added} quiz question(s)`);
         } catch (quizError) {
           console.error("Error uploading quiz:", quizError);
-          toast.error('Deck saved but quiz upload failed');
+          toast.error(`Deck saved but quiz upload failed${quizError instanceof Error ? `: ${quizError.message}` : ''}`);
         }
       }
 
@@ -228,6 +240,7 @@ export default function AdminClassDetailPage({ params }: { params: Promise<{ id:
       setIsDialogOpen(false);
       setDeckQuizData(null);
       setDeckQuizFileName("");
+      setDeckQuizErrors([]);
       loadClassData();
     } catch (error) {
       console.error("Error saving deck:", error);
@@ -397,6 +410,7 @@ export default function AdminClassDetailPage({ params }: { params: Promise<{ id:
         quizFile={{
           data: deckQuizData,
           fileName: deckQuizFileName,
+          errors: deckQuizErrors,
           onFileSelect: handleDeckQuizFileSelect,
           onRemove: handleRemoveDeckQuiz,
         }}
@@ -0,0 +1,278 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import type { BundleConflictMode } from "@/lib/validations/class-bundle";
+import type { BundleAction, BundleEntityKind, BundlePlanSummary } from "@/lib/class-bundle/plan";
+
+interface BundlePreview {
+  className: string;
+  exportedAt: string;
+  summary: BundlePlanSummary;
+  topics: { topicsCreated: number; subTopicsCreated: number };
+}
+
+interface ClassBundleImportDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const MODE_OPTIONS: Array<{ value: BundleConflictMode; label: string; description: string }> = [
+  {
+    value: "skip",
+    label: "Skip existing",
+    description: "Items already imported are left as they are; only new items are added",
+  },
+  {
+    value: "overwrite",
+    label: "Overwrite existing",
+    description: "Items already imported are updated to match the bundle",
+  },
+  {
+    value: "duplicate",
+    label: "Duplicate",
+    description: "Everything is imported again as a new copy, next to what is already there",
+  },
+];
+
+const KIND_LABELS: Record<BundleEntityKind, string> = {
+  classes: "Class",
+  decks: "Decks",
+  flashcards: "Flashcards",
+  media: "Images",
+  quizQuestions: "Flashcard quiz questions",
+  deckQuizQuestions: "Deck quiz questions",
+};
+
+const ACTIONS: BundleAction[] = ["create", "update", "skip"];
+
+export function ClassBundleImportDialog({
+  isOpen,
+  onOpenChange,
+  onImported,
+}: ClassBundleImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<BundleConflictMode>("skip");
+  const [preview, setPreview] = useState<BundlePreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setMode("skip");
+    setPreview(null);
+  };
+
+  const sendBundle = async (bundle: File, conflictMode: BundleConflictMode, dryRun: boolean) => {
+    const formData = new FormData();
+    formData.append("file", bundle);
+    formData.append("mode", conflictMode);
+    formData.append("dryRun", String(dryRun));
+
+    const res = await fetch("/api/admin/classes/import", { method: "POST", body: formData });
+    const data = await res.json();
+    if (!res.ok) {
+      throw new Error(data.error || "Failed to import bundle");
+    }
+    return data;
+  };
+
+  const runPreview = async (bundle: File, conflictMode: BundleConflictMode) => {
+    setIsPreviewing(true);
+    try {
+      setPreview(await sendBundle(bundle, conflictMode, true));
+    } catch (error) {
+      console.error("Error previewing bundle:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to read bundle");
+      setPreview(null);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    setFile(selected);
+    setPreview(null);
+    if (selected) {
+      runPreview(selected, mode);
+    }
+  };
+
+  const handleModeChange = (value: string) => {
+    const conflictMode = value as BundleConflictMode;
+    setMode(conflictMode);
+    if (file) {
+      runPreview(file, conflictMode);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const data = await sendBundle(file, mode, false);
+      toast.success(`Imported "${data.className}"`);
+      if (data.warnings?.length > 0) {
+        toast.warning(`${data.warnings.length} image${data.warnings.length === 1 ? " was" : "s were"} skipped`);
+      }
+      reset();
+      onOpenChange(false);
+      onImported();
+    } catch (error) {
+      console.error("Error importing bundle:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import bundle");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (!open) reset();
+        onOpenChange(open);
+      }}
+    >
+      <DialogContent className="bg-slate-800 border-slate-700 text-white max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Class Bundle</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Import a class with its decks, flashcards, images and quizzes from a bundle exported
+            from this or another environment
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="bundle-file">Bundle (.zip)</Label>
+            <Input
+              id="bundle-file"
+              type="file"
+              accept=".zip"
+              onChange={handleFileChange}
+              className="bg-slate-900 border-slate-700 text-white"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bundle-mode">Items that already exist</Label>
+            <Select value={mode} onValueChange={handleModeChange}>
+              <SelectTrigger id="bundle-mode" className="bg-slate-900 border-slate-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                {MODE_OPTIONS.map((option) => (
+                  <SelectItem
+                    key={option.value}
+                    value={option.value}
+                    className="text-white hover:bg-slate-700"
+                  >
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-400">
+              {MODE_OPTIONS.find((option) => option.value === mode)?.description}
+            </p>
+          </div>
+
+          {isPreviewing && (
+            <div className="flex items-center gap-2 text-sm text-gray-300">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Reading bundle...
+            </div>
+          )}
+
+          {preview && !isPreviewing && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-300">
+                <span className="font-semibold text-white">{preview.className}</span>
+                {" · exported "}
+                {new Date(preview.exportedAt).toLocaleString()}
+              </p>
+              <table className="w-full text-sm">
+                <thead className="text-gray-400">
+                  <tr>
+                    <th className="text-left py-1 font-medium"></th>
+                    <th className="text-right py-1 font-medium">New</th>
+                    <th className="text-right py-1 font-medium">Updated</th>
+                    <th className="text-right py-1 font-medium">Skipped</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(Object.keys(KIND_LABELS) as BundleEntityKind[]).map((kind) => (
+                    <tr key={kind} className="border-t border-slate-700">
+                      <td className="py-1.5 text-gray-300">{KIND_LABELS[kind]}</td>
+                      {ACTIONS.map((action) => (
+                        <td key={action} className="py-1.5 text-right text-white">
+                          {preview.summary[kind][action]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {(preview.topics.topicsCreated > 0 || preview.topics.subTopicsCreated > 0) && (
+                <p className="text-xs text-gray-400">
+                  {preview.topics.topicsCreated} topic{preview.topics.topicsCreated === 1 ? "" : "s"} and{" "}
+                  {preview.topics.subTopicsCreated} sub-topic{preview.topics.subTopicsCreated === 1 ? "" : "s"} used by
+                  the deck quizzes will be created
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              reset();
+              onOpenChange(false);
+            }}
+            disabled={isImporting}
+            className="border-slate-700 text-gray-300 hover:bg-slate-700"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!preview || isPreviewing || isImporting}
+            className="bg-purple-600 hover:bg-purple-700 text-white"
+          >
+            {isImporting ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              "Import Bundle"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
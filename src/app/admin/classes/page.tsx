@@ -11,10 +11,11 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Loader2, Plus, Edit2, Trash2, BookOpen, GripVertical, ChevronRight } from "lucide-react";
+import { Loader2, Plus, Edit2, Trash2, BookOpen, GripVertical, ChevronRight, Download, Upload } from "lucide-react";
 import { toast } from "sonner";
 import Link from "next/link";
 import { ClassFormDialog } from "./components/ClassFormDialog";
+import { ClassBundleImportDialog } from "./components/ClassBundleImportDialog";
 import { FormattedContent } from "@/components/admin/FormattedContent";
 
 interface Class {
@@ -60,6 +61,7 @@ export default function AdminClassesPage() {
   const [loading, setLoading] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [editingClass, setEditingClass] = useState<Class | null>(null);
   const [deletingClass, setDeletingClass] = useState<Class | null>(null);
   const [formData, setFormData] = useState<ClassFormData>({
@@ -212,13 +214,23 @@ export default function AdminClassesPage() {
             Create and organize CISSP study classes
           </p>
         </div>
-        <Button
-          onClick={openCreateDialog}
-          className="bg-purple-600 hover:bg-purple-700 text-white"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          New Class
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setIsImportDialogOpen(true)}
+            className="border-slate-700 text-gray-300 hover:bg-slate-700"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import Bundle
+          </Button>
+          <Button
+            onClick={openCreateDialog}
+            className="bg-purple-600 hover:bg-purple-700 text-white"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Class
+          </Button>
+        </div>
       </div>
 
       {/* Stats */}
@@ -338,6 +350,17 @@ export default function AdminClassesPage() {
                           <ChevronRight className="w-4 h-4 ml-2" />
                         </Button>
                       </Link>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          window.location.href = `/api/admin/classes/${cls.id}/export`;
+                        }}
+                        title="Export bundle"
+                        className="text-gray-300 hover:text-white hover:bg-slate-700"
+                      >
+                        <Download className="w-4 h-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -374,6 +397,13 @@ export default function AdminClassesPage() {
         isSaving={isSaving}
       />
 
+      {/* Bundle Import Dialog */}
+      <ClassBundleImportDialog
+        isOpen={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        onImported={loadClasses}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent className="bg-slate-800 border-slate-700 text-white">
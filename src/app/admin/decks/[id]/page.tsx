@@ -21,13 +21,25 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import RichTextEditor from "@/components/admin/RichTextEditor";
-import { Loader2, Plus, Edit2, Trash2, ArrowLeft, Image as ImageIcon, ClipboardList, FileCheck2, Upload, X, ChevronDown, Sparkles } from "lucide-react";
+import { Loader2, Plus, Edit2, Trash2, ArrowLeft, Image as ImageIcon, ClipboardList, FileCheck2, Upload, X, ChevronDown, Sparkles, History, ClipboardCheck, Download, FileUp } from "lucide-react";
 import { toast } from "sonner";
-import { validateQuizFile, type QuizFile, type QuizQuestionUpdate, type DeckQuizQuestionUpdate } from "@/lib/validations/quiz";
+import { chunkQuizFile, QUIZ_UPLOAD_CHUNK_SIZE, type QuizFile, type QuizQuestionUpdate, type DeckQuizQuestionUpdate } from "@/lib/validations/quiz";
 import { AiQuizGenerationModal } from "@/components/admin/AiQuizGenerationModal";
 import { FormattedContent } from "@/components/admin/FormattedContent";
 import { QuizQuestionList } from "@/components/admin/QuizQuestionList";
 import { QuizQuestionEditDialog } from "@/components/admin/QuizQuestionEditDialog";
+import { ItemAnalysisReport } from "@/components/admin/ItemAnalysisReport";
+import { RevisionHistoryDialog, type RevisionTarget } from "@/components/admin/RevisionHistoryDialog";
+import { RevisionHistoryPanel } from "@/components/admin/RevisionHistoryPanel";
+import { ReviewItemDialog, type ReviewTarget } from "@/components/admin/ReviewItemDialog";
+import { DeckWorkflowPanel } from "@/components/admin/DeckWorkflowPanel";
+import { DeckImportDialog } from "@/components/admin/DeckImportDialog";
+import { ContentStatusBadge } from "@/components/admin/ContentStatusBadge";
+import { QuizUploadErrors } from "@/components/admin/QuizUploadErrors";
+import type { ContentStatus } from "@/lib/editorial/workflow";
+import { QUIZ_QUESTION_TYPE_LABELS, type HotspotRegion } from "@/lib/quiz/question-types";
+import type { DeckItemAnalysis } from "@/lib/quiz/item-analysis";
+import { QUIZ_UPLOAD_ACCEPT, readQuizUpload, type QuizUploadError } from "@/lib/quiz/formats";
 
 interface DeckData {
   id: string;
@@ -44,7 +56,9 @@ interface DeckData {
 interface QuizQuestion {
   id: string;
   questionText: string;
-  options: Array<{ text: string; isCorrect: boolean }>;
+  questionType?: string;
+  imageUrl?: string | null;
+  options: Array<{ id?: string; text: string; isCorrect: boolean; match?: string; region?: HotspotRegion }>;
   explanation: string | null;
   eliminationTactics: Record<string, string> | null;
   correctAnswerWithJustification: Record<string, string> | null;
@@ -55,6 +69,8 @@ interface QuizQuestion {
   createdBy: string;
   difficulty?: number | null;
   subTopicId?: string | null;
+  status?: ContentStatus; // Deck quiz questions only
+  reviewerId?: string | null;
   subTopic?: {
     id: string;
     subTopicName: string;
@@ -74,6 +90,8 @@ interface Flashcard {
   explanation: string | null;
   order: number;
   isPublished: boolean;
+  status: ContentStatus;
+  reviewerId: string | null;
   media?: FlashcardMedia[];
   quizQuestions?: QuizQuestion[];
 }
@@ -94,7 +112,6 @@ interface FlashcardFormData {
   answer: string;
   explanation: string;
   order: number;
-  isPublished: boolean;
 }
 
 interface ImageUpload {
@@ -129,6 +146,17 @@ const DECK_QUIZ_JSON_EXAMPLE = {
       ],
       explanation: "CIA Triad is fundamental to information security",
     },
+    {
+      question_type: "ordering",
+      question: "Put the phases of incident response in order.",
+      options: [
+        { text: "Detection" },
+        { text: "Response" },
+        { text: "Mitigation" },
+        { text: "Reporting" },
+      ],
+      explanation: "Items are listed in the correct order; learners see them shuffled",
+    },
   ],
 } as const;
 
@@ -161,7 +189,6 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
     answer: "",
     explanation: "",
     order: 0,
-    isPublished: true,
   });
   const [isSaving, setIsSaving] = useState(false);
   const [questionImages, setQuestionImages] = useState<ImageUpload[]>([]);
@@ -169,11 +196,14 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
   const [uploadingImages, setUploadingImages] = useState(false);
   const [quizData, setQuizData] = useState<QuizFile | null>(null);
   const [quizFileName, setQuizFileName] = useState<string>("");
+  const [quizErrors, setQuizErrors] = useState<QuizUploadError[]>([]);
   const [isAiModalOpen, setIsAiModalOpen] = useState(false);
 
   // Deck-level quiz state
   const [deckQuizData, setDeckQuizData] = useState<QuizFile | null>(null);
   const [deckQuizFileName, setDeckQuizFileName] = useState<string>("");
+  const [deckQuizSavedCount, setDeckQuizSavedCount] = useState(0); // Leading questions of the file already uploaded
+  const [deckQuizErrors, setDeckQuizErrors] = useState<QuizUploadError[]>([]);
   const [deckQuizLoading, setDeckQuizLoading] = useState(false);
   const [deckHasQuiz, setDeckHasQuiz] = useState(false);
   const [deckQuizCount, setDeckQuizCount] = useState(0);
@@ -184,6 +214,20 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
   const [deckQuizQuestions, setDeckQuizQuestions] = useState<QuizQuestion[]>([]);
   const [loadingDeckQuiz, setLoadingDeckQuiz] = useState(false);
 
+  // Item analysis from learners' recorded answers
+  const [itemAnalysis, setItemAnalysis] = useState<DeckItemAnalysis | null>(null);
+  const [loadingItemAnalysis, setLoadingItemAnalysis] = useState(false);
+
+  // Revision history state
+  const [historyTarget, setHistoryTarget] = useState<RevisionTarget | null>(null);
+  const [revisionRefreshKey, setRevisionRefreshKey] = useState(0);
+
+  // Editorial review state
+  const [reviewTarget, setReviewTarget] = useState<ReviewTarget | null>(null);
+
+  // Import state
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+
   // Quiz question edit state
   const [editingFlashcardQuestion, setEditingFlashcardQuestion] = useState<QuizQuestion | null>(null);
   const [isFlashcardQuizEditDialogOpen, setIsFlashcardQuizEditDialogOpen] = useState(false);
@@ -237,10 +281,12 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
     const checkDeckQuiz = async () => {
       if (!deckId) return;
       try {
-        const res = await fetch(`/api/decks/${deckId}/has-quiz`);
+        // The admin list includes questions learners cannot see yet
+        const res = await fetch(`/api/admin/decks/${deckId}/quiz/list`);
         const data = await res.json();
-        setDeckHasQuiz(data.hasQuiz);
-        setDeckQuizCount(data.count);
+        const count = data.questions?.length ?? 0;
+        setDeckHasQuiz(count > 0);
+        setDeckQuizCount(count);
       } catch (error) {
         console.error('Error checking deck quiz:', error);
       }
@@ -271,6 +317,51 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
     loadDeckQuizQuestions();
   }, [deckId, deckHasQuiz]);
 
+  // Load item statistics for the deck's quiz questions
+  useEffect(() => {
+    const loadItemAnalysis = async () => {
+      if (!deckId) return;
+
+      setLoadingItemAnalysis(true);
+      try {
+        const res = await fetch(`/api/admin/decks/${deckId}/item-analysis`);
+        if (res.ok) {
+          const data = await res.json();
+          setItemAnalysis(data.analysis);
+        }
+      } catch (error) {
+        console.error('Error loading item analysis:', error);
+        setItemAnalysis(null);
+      } finally {
+        setLoadingItemAnalysis(false);
+      }
+    };
+
+    loadItemAnalysis();
+  }, [deckId]);
+
+  // Reload everything a restore or workflow change can touch: cards, deck quiz questions and the history list
+  const handleRevisionRestored = async () => {
+    await loadDeckData();
+    try {
+      const quizRes = await fetch(`/api/admin/decks/${deckId}/quiz/list`);
+      if (quizRes.ok) {
+        const quizData = await quizRes.json();
+        const questions = quizData.questions || [];
+        setDeckQuizQuestions(questions);
+        setDeckHasQuiz(questions.length > 0);
+        setDeckQuizCount(questions.length);
+      }
+    } catch (error) {
+      console.error('Error reloading deck quiz questions:', error);
+    }
+    setRevisionRefreshKey((key) => key + 1);
+  };
+
+  const itemStats = itemAnalysis
+    ? Object.fromEntries(itemAnalysis.items.map((item) => [item.questionId, item]))
+    : undefined;
+
   const openCreateDialog = () => {
     setEditingCard(null);
     setFormData({
@@ -278,12 +369,12 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
       answer: "",
       explanation: "",
       order: flashcards.length,
-      isPublished: true,
     });
     setQuestionImages([]);
     setAnswerImages([]);
     setQuizData(null);
     setQuizFileName("");
+    setQuizErrors([]);
     setFlashcardQuizQuestions([]);
     setActiveTab("edit");
     setIsDialogOpen(true);
@@ -296,13 +387,13 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
       answer: card.answer,
       explanation: card.explanation || "",
       order: card.order,
-      isPublished: card.isPublished,
     });
 
     // Clear quiz state first
     setFlashcardQuizQuestions([]);
     setQuizData(null);
     setQuizFileName("");
+    setQuizErrors([]);
 
     console.log('Opening edit dialog for card:', card);
     console.log('Card media:', card.media);
@@ -422,25 +513,36 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
     const file = e.target.files?.[0];
     if (!file) return;
 
+    setQuizData(null);
+    setQuizFileName("");
+    setQuizErrors([]);
     try {
-      const text = await file.text();
-      const json = JSON.parse(text);
-      const result = validateQuizFile(json);
+      const result = await readQuizUpload(file);
 
       if (!result.success) {
         toast.error(`Invalid quiz file: ${result.error}`);
-        setQuizData(null);
-        setQuizFileName("");
         return;
       }
 
-      setQuizData(result.data);
-      setQuizFileName(file.name);
-      toast.success(`${result.data.questions.length} question(s) loaded from ${file.name}`);
+      // A card's quiz is saved with the card in one request
+      if (result.quiz.questions.length > QUIZ_UPLOAD_CHUNK_SIZE) {
+        toast.error(`A flashcard quiz can have at most ${QUIZ_UPLOAD_CHUNK_SIZE} questions; upload larger files as a deck quiz`);
+        return;
+      }
+
+      setQuizErrors(result.errors);
+      if (result.quiz.questions.length > 0) {
+        setQuizData(result.quiz);
+        setQuizFileName(file.name);
+      }
+
+      if (result.errors.length > 0) {
+        toast.warning(`${result.quiz.questions.length} of ${result.total} question(s) loaded from ${file.name}; ${result.errors.length} skipped`);
+      } else {
+        toast.success(`${result.quiz.questions.length} question(s) loaded from ${file.name}`);
+      }
     } catch (error) {
-      toast.error('Failed to parse JSON file. Please check the file format.');
-      setQuizData(null);
-      setQuizFileName("");
+      toast.error('Failed to read quiz file. Please check the file format.');
       console.error('Quiz file parsing error:', error);
     }
   };
@@ -448,6 +550,7 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
   const handleRemoveQuiz = () => {
     setQuizData(null);
     setQuizFileName("");
+    setQuizErrors([]);
     toast.success('Quiz removed');
   };
 
@@ -588,25 +691,31 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
     const file = e.target.files?.[0];
     if (!file) return;
 
+    setDeckQuizData(null);
+    setDeckQuizFileName("");
+    setDeckQuizErrors([]);
+    setDeckQuizSavedCount(0);
     try {
-      const text = await file.text();
-      const json = JSON.parse(text);
-      const result = validateQuizFile(json);
+      const result = await readQuizUpload(file);
 
       if (!result.success) {
         toast.error(`Invalid quiz file: ${result.error}`);
-        setDeckQuizData(null);
-        setDeckQuizFileName("");
         return;
       }
 
-      setDeckQuizData(result.data);
-      setDeckQuizFileName(file.name);
-      toast.success(`${result.data.questions.length} question(s) loaded`);
+      setDeckQuizErrors(result.errors);
+      if (result.quiz.questions.length > 0) {
+        setDeckQuizData(result.quiz);
+        setDeckQuizFileName(file.name);
+      }
+
+      if (result.errors.length > 0) {
+        toast.warning(`${result.quiz.questions.length} of ${result.total} question(s) loaded from ${result.label}; ${result.errors.length} skipped`);
+      } else {
+        toast.success(`${result.quiz.questions.length} question(s) loaded from ${result.label}`);
+      }
     } catch {
-      toast.error('Failed to parse JSON file');
-      setDeckQuizData(null);
-      setDeckQuizFileName("");
+      toast.error('Failed to read quiz file');
     }
   };
 
@@ -617,35 +726,57 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
     }
 
     setDeckQuizLoading(true);
+    let added = 0;
+    let remaining = deckQuizData;
+    let savedCount = deckQuizSavedCount;
     try {
-      const res = await fetch(`/api/admin/decks/${deckId}/quiz`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          quizData: deckQuizData,
-          classId: deckData?.classId,
-        }),
-      });
+      // Large files are uploaded in chunks, one request each
+      for (const chunk of chunkQuizFile(deckQuizData)) {
+        const res = await fetch(`/api/admin/decks/${deckId}/quiz`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            quizData: chunk,
+            classId: deckData?.classId,
+          }),
+        });
+
+        if (!res.ok) throw new Error('Failed to upload deck quiz');
 
-      if (!res.ok) throw new Error('Failed to upload deck quiz');
+        const data = await res.json();
+        added += data.added;
+        setDeckQuizCount(data.count);
 
-      const data = await res.json();
-      toast.success(data.message);
+        // Saved questions leave the selection, so uploading again carries on after them
+        remaining = { ...remaining, questions: remaining.questions.slice(chunk.questions.length) };
+        savedCount += chunk.questions.length;
+        setDeckQuizData(remaining);
+        setDeckQuizSavedCount(savedCount);
+      }
+
+      toast.success(`${added} quiz question(s) added`);
       setDeckHasQuiz(true);
-      setDeckQuizCount(data.count || deckQuizData.questions.length);
       setDeckQuizData(null);
       setDeckQuizFileName("");
-
-      // Refresh questions list
-      const listRes = await fetch(`/api/admin/decks/${deckId}/quiz/list`);
-      if (listRes.ok) {
-        const listData = await listRes.json();
-        setDeckQuizQuestions(listData.questions || []);
-      }
+      setDeckQuizErrors([]);
+      setDeckQuizSavedCount(0);
     } catch (error) {
-      toast.error('Failed to upload deck quiz');
+      toast.error(
+        savedCount > 0
+          ? `Upload stopped. Questions 1-${savedCount} of the file are saved; upload again to add the other ${remaining.questions.length}.`
+          : 'Failed to upload deck quiz'
+      );
+      if (added > 0) setDeckHasQuiz(true);
       console.error(error);
     } finally {
+      // Refresh questions list
+      if (added > 0) {
+        const listRes = await fetch(`/api/admin/decks/${deckId}/quiz/list`);
+        if (listRes.ok) {
+          const listData = await listRes.json();
+          setDeckQuizQuestions(listData.questions || []);
+        }
+      }
       setDeckQuizLoading(false);
     }
   };
@@ -668,6 +799,8 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
       setDeckQuizCount(0);
       setDeckQuizData(null);
       setDeckQuizFileName("");
+      setDeckQuizErrors([]);
+      setDeckQuizSavedCount(0);
       setDeckQuizQuestions([]);
     } catch (error) {
       toast.error('Failed to delete deck quiz');
@@ -992,18 +1125,18 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
                   {/* File Upload */}
                   <div className="space-y-2">
                     <Label htmlFor="deck-quiz-upload" className="text-slate-700">
-                      Upload Quiz JSON File
+                      Upload Quiz File
                     </Label>
                     <Input
                       id="deck-quiz-upload"
                       type="file"
-                      accept=".json"
+                      accept={QUIZ_UPLOAD_ACCEPT}
                       onChange={handleDeckQuizFileSelect}
                       className="bg-white border-slate-300 cursor-pointer"
                       disabled={deckQuizLoading}
                     />
                     <p className="text-xs text-slate-500">
-                      Expected format: Same as flashcard quiz JSON (see example below)
+                      JSON (see example below), CSV, Markdown, GIFT or QTI (XML or zip package). Large files are uploaded in batches of {QUIZ_UPLOAD_CHUNK_SIZE}.
                     </p>
                   </div>
 
@@ -1016,6 +1149,11 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
                             ✓ {deckQuizData.questions.length} question(s) loaded
                           </p>
                           <p className="text-sm text-blue-700">{deckQuizFileName}</p>
+                          {deckQuizSavedCount > 0 && (
+                            <p className="text-sm text-blue-700">
+                              Questions 1-{deckQuizSavedCount} of this file are already saved; uploading adds the rest
+                            </p>
+                          )}
                         </div>
                         <Button
                           variant="ghost"
@@ -1023,6 +1161,8 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
                           onClick={() => {
                             setDeckQuizData(null);
                             setDeckQuizFileName("");
+                            setDeckQuizErrors([]);
+                            setDeckQuizSavedCount(0);
                           }}
                           className="text-blue-700 hover:bg-blue-100"
                         >
@@ -1035,8 +1175,9 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
                         <p className="text-xs font-semibold text-blue-800">Preview:</p>
                         {deckQuizData.questions.slice(0, 2).map((q, idx) => (
                           <div key={idx} className="text-xs bg-white p-2 rounded border border-blue-200">
-                            <p className="font-medium text-slate-800">{idx + 1}. {q.question}</p>
+                            <p className="font-medium text-slate-800">{deckQuizSavedCount + idx + 1}. {q.question}</p>
                             <p className="text-slate-600 mt-1">
+                              {q.question_type !== "single_choice" && `${QUIZ_QUESTION_TYPE_LABELS[q.question_type]} • `}
                               {q.options.length} options •
                               {q.options.filter(o => o.isCorrect).length} correct answer(s)
                             </p>
@@ -1051,6 +1192,8 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
                     </div>
                   )}
 
+                  <QuizUploadErrors errors={deckQuizErrors} />
+
                   {/* Action Buttons */}
                   <div className="flex gap-3">
                     <Button
@@ -1093,6 +1236,13 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
                       <pre className="text-xs bg-slate-100 p-3 rounded border overflow-x-auto">
                         {JSON.stringify(DECK_QUIZ_JSON_EXAMPLE, null, 2)}
                       </pre>
+                      <p className="text-xs text-slate-600 mt-2">
+                        <code>question_type</code> defaults to <code>single_choice</code>. Other types:{" "}
+                        <code>multi_select</code> (mark every correct option), <code>ordering</code> (list items in
+                        the correct order), <code>matching</code> (give each option a <code>match</code>) and{" "}
+                        <code>hotspot</code> (an <code>image_url</code> plus options with a <code>region</code> of{" "}
+                        <code>{"{ x, y, width, height }"}</code> in percent).
+                      </p>
                     </CollapsibleContent>
                   </Collapsible>
 
@@ -1108,6 +1258,13 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
                         onDelete={handleDeleteDeckQuizQuestion}
                         isLoading={loadingDeckQuiz}
                         emptyMessage="No quiz questions found."
+                        itemStats={itemStats}
+                        onHistory={(question) =>
+                          setHistoryTarget({ entityType: 'deck_quiz_question', entityId: question.id, title: question.questionText })
+                        }
+                        onReview={(question) =>
+                          setReviewTarget({ entityType: 'deck_quiz_question', entityId: question.id, title: question.questionText })
+                        }
                       />
                     </div>
                   )}
@@ -1116,6 +1273,26 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
             </Card>
             )}
 
+            {/* Item Analysis Report - Only once learners have answered quiz questions */}
+            {(loadingItemAnalysis || (itemAnalysis && itemAnalysis.totalAnswers > 0)) && (
+              <ItemAnalysisReport analysis={itemAnalysis} isLoading={loadingItemAnalysis} />
+            )}
+
+            {/* Editorial Workflow - Submit drafts for review and publish approved content */}
+            <DeckWorkflowPanel
+              deckId={deckData.id}
+              flashcards={flashcards}
+              deckQuizQuestions={deckQuizQuestions.flatMap((question) => (question.status ? [{ status: question.status }] : []))}
+              onChanged={handleRevisionRestored}
+            />
+
+            {/* Revision History - Changes to the deck's cards and questions, including deleted ones */}
+            <RevisionHistoryPanel
+              deckId={deckData.id}
+              onOpenHistory={setHistoryTarget}
+              refreshKey={revisionRefreshKey}
+            />
+
             {/* Flashcards List */}
             {flashcards.length === 0 ? (
               <Card>
@@ -1152,6 +1329,9 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
                               </div>
                             </div>
                           )}
+                          <div className="mt-2 flex justify-center">
+                            <ContentStatusBadge status={card.status} />
+                          </div>
                         </div>
 
                         {/* Question Column */}
@@ -1214,6 +1394,24 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
                           >
                             <Edit2 className="w-4 h-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setReviewTarget({ entityType: 'flashcard', entityId: card.id, title: card.question.replace(/<[^>]*>/g, ' ').trim() })}
+                            className="text-slate-600 hover:text-slate-800"
+                            title="Review"
+                          >
+                            <ClipboardCheck className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHistoryTarget({ entityType: 'flashcard', entityId: card.id, title: card.question.replace(/<[^>]*>/g, ' ').trim() })}
+                            className="text-slate-600 hover:text-slate-800"
+                            title="Revision history"
+                          >
+                            <History className="w-4 h-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="icon"
@@ -1230,8 +1428,8 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
               </div>
             )}
 
-            {/* Add Card Button */}
-            <div className="mt-6 flex justify-center">
+            {/* Add, Import and Export Buttons */}
+            <div className="mt-6 flex flex-wrap justify-center gap-3">
               <Button
                 onClick={openCreateDialog}
                 className="bg-slate-700 hover:bg-slate-800 text-white px-8"
@@ -1239,6 +1437,34 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
                 <Plus className="w-5 h-5 mr-2" />
                 Add New Card
               </Button>
+              <Button
+                variant="outline"
+                onClick={() => setIsImportDialogOpen(true)}
+                className="border-slate-300"
+              >
+                <FileUp className="w-5 h-5 mr-2" />
+                Import Cards
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  window.location.href = `/api/admin/decks/${deckData.id}/export?format=csv`;
+                }}
+                className="border-slate-300"
+              >
+                <Download className="w-5 h-5 mr-2" />
+                Export CSV
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  window.location.href = `/api/admin/decks/${deckData.id}/export?format=apkg`;
+                }}
+                className="border-slate-300"
+              >
+                <Download className="w-5 h-5 mr-2" />
+                Export Anki
+              </Button>
             </div>
           </div>
         )}
@@ -1392,12 +1618,12 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
                 </Button>
               </div>
               <p className="text-sm text-slate-600">
-                Upload a JSON file with multiple-choice questions or use AI to generate them
+                Upload a JSON, CSV, Markdown, GIFT or QTI file with up to {QUIZ_UPLOAD_CHUNK_SIZE} questions or use AI to generate them
               </p>
 
               <Input
                 type="file"
-                accept=".json"
+                accept={QUIZ_UPLOAD_ACCEPT}
                 onChange={handleQuizFileSelect}
                 className="bg-white border-slate-300 cursor-pointer"
               />
@@ -1428,6 +1654,7 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
                         <div key={idx} className="text-xs text-blue-800">
                           <p className="font-medium">Q{idx + 1}: {q.question}</p>
                           <p className="text-blue-600 ml-2 mt-1">
+                            {q.question_type !== "single_choice" && `${QUIZ_QUESTION_TYPE_LABELS[q.question_type]}, `}
                             {q.options.length} options, {q.options.filter(o => o.isCorrect).length} correct
                           </p>
                         </div>
@@ -1442,6 +1669,8 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
                 </div>
               )}
 
+              <QuizUploadErrors errors={quizErrors} />
+
               <details className="text-xs text-slate-600">
                 <summary className="cursor-pointer font-medium text-slate-700 hover:text-slate-900">
                   Expected JSON Format
@@ -1465,6 +1694,7 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
                     onDelete={handleDeleteFlashcardQuizQuestion}
                     isLoading={loadingFlashcardQuiz}
                     emptyMessage="No quiz questions yet. Upload a JSON file or use AI to generate questions."
+                    itemStats={itemStats}
                   />
                 </div>
               </div>
@@ -1519,6 +1749,7 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
         onGenerate={(topic, questions) => {
           setQuizData(questions);
           setQuizFileName(`AI: ${topic}`);
+          setQuizErrors([]);
           setIsAiModalOpen(false);
           toast.success(`Loaded ${questions.questions.length} AI-generated questions`);
         }}
@@ -1594,6 +1825,27 @@ export default function AdminDeckDetailPage({ params }: { params: Promise<{ id:
         isDeckQuiz={true}
       />
 
+      {/* Revision History Dialog */}
+      <RevisionHistoryDialog
+        deckId={deckData.id}
+        target={historyTarget}
+        onClose={() => setHistoryTarget(null)}
+        onRestored={handleRevisionRestored}
+      />
+
+      <ReviewItemDialog
+        target={reviewTarget}
+        onClose={() => setReviewTarget(null)}
+        onChanged={handleRevisionRestored}
+      />
+
+      <DeckImportDialog
+        deckId={deckData.id}
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        onImported={handleRevisionRestored}
+      />
+
       {/* Global Styles for Formatted Content */}
       <style jsx global>{`
         /* Rich text content styling for admin flashcard display */
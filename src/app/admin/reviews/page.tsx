@@ -0,0 +1,206 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardCheck, Loader2, MessageSquare } from "lucide-react";
+import { toast } from "sonner";
+import { ReviewItemDialog, type ReviewTarget } from "@/components/admin/ReviewItemDialog";
+import type { ReviewableEntityType } from "@/lib/editorial/workflow";
+
+interface ReviewQueueItem {
+  entityType: ReviewableEntityType;
+  entityId: string;
+  deckId: string;
+  deckName: string;
+  classId: string;
+  className: string;
+  title: string;
+  reviewerId: string | null;
+  reviewerName: string | null;
+  submittedBy: string | null;
+  submitterName: string | null;
+  submittedAt: string | null;
+  openComments: number;
+}
+
+type ReviewScope = "mine" | "all";
+
+const ENTITY_LABELS: Record<ReviewableEntityType, string> = {
+  flashcard: "Flashcard",
+  deck_quiz_question: "Deck quiz question",
+};
+
+/**
+ * Admin Review Queue Page
+ * Content submitted for review, oldest first
+ *
+ * Features:
+ * - Items assigned to the current admin, or to every reviewer
+ * - Open the item to read it, comment on it and approve or send it back
+ */
+export default function AdminReviewQueuePage() {
+  const [items, setItems] = useState<ReviewQueueItem[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [scope, setScope] = useState<ReviewScope>("mine");
+  const [loading, setLoading] = useState(true);
+  const [reviewTarget, setReviewTarget] = useState<ReviewTarget | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/reviews?scope=${scope}`);
+      if (!res.ok) throw new Error("Failed to load review queue");
+
+      const data = await res.json();
+      setItems(data.items || []);
+      setCurrentUserId(data.currentUserId ?? null);
+    } catch (error) {
+      toast.error("Failed to load review queue");
+      console.error("Error loading review queue:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadQueue();
+  }, [loadQueue]);
+
+  const assignedToMe = items.filter((item) => item.reviewerId === currentUserId).length;
+  const submittedByMe = items.filter((item) => item.submittedBy === currentUserId).length;
+  const openComments = items.reduce((sum, item) => sum + item.openComments, 0);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      {/* Page Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-white mb-2 flex items-center gap-3">
+          <ClipboardCheck className="w-8 h-8 text-blue-400" />
+          Review Queue
+        </h1>
+        <p className="text-slate-400">
+          Flashcards and deck quiz questions waiting for a reviewer&apos;s sign-off
+        </p>
+      </div>
+
+      {/* Statistics Cards */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+        <Card className="bg-slate-900 border-slate-700">
+          <CardHeader className="pb-3">
+            <CardDescription className="text-slate-400">In Review</CardDescription>
+            <CardTitle className="text-3xl text-white">{items.length}</CardTitle>
+          </CardHeader>
+        </Card>
+
+        <Card className="bg-slate-900 border-slate-700">
+          <CardHeader className="pb-3">
+            <CardDescription className="text-slate-400">Assigned to Me</CardDescription>
+            <CardTitle className="text-3xl text-yellow-400">{assignedToMe}</CardTitle>
+          </CardHeader>
+        </Card>
+
+        <Card className="bg-slate-900 border-slate-700">
+          <CardHeader className="pb-3">
+            <CardDescription className="text-slate-400">Submitted by Me</CardDescription>
+            <CardTitle className="text-3xl text-blue-400">{submittedByMe}</CardTitle>
+          </CardHeader>
+        </Card>
+
+        <Card className="bg-slate-900 border-slate-700">
+          <CardHeader className="pb-3">
+            <CardDescription className="text-slate-400">Open Comments</CardDescription>
+            <CardTitle className="text-3xl text-green-400">{openComments}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      {/* Queue */}
+      <Card className="bg-slate-900 border-slate-700">
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-white">Waiting for Review</CardTitle>
+            <CardDescription className="text-slate-400">
+              Click on any item to review it
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant={scope === "mine" ? "default" : "outline"}
+              onClick={() => setScope("mine")}
+              className={scope === "mine" ? "bg-blue-500 hover:bg-blue-600 text-white" : "border-slate-600 text-slate-300"}
+            >
+              Assigned to me
+            </Button>
+            <Button
+              size="sm"
+              variant={scope === "all" ? "default" : "outline"}
+              onClick={() => setScope("all")}
+              className={scope === "all" ? "bg-blue-500 hover:bg-blue-600 text-white" : "border-slate-600 text-slate-300"}
+            >
+              All reviewers
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-400" />
+            </div>
+          ) : items.length === 0 ? (
+            <p className="text-center text-slate-400 py-12">
+              {scope === "mine" ? "Nothing is waiting for your review." : "Nothing is waiting for review."}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {items.map((item) => (
+                <li key={`${item.entityType}:${item.entityId}`}>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setReviewTarget({ entityType: item.entityType, entityId: item.entityId, title: item.title })
+                    }
+                    className="w-full text-left p-4 rounded-lg border border-slate-700 bg-slate-800/50 hover:bg-slate-800 transition-colors"
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="text-white font-medium truncate">{item.title}</p>
+                        <p className="text-sm text-slate-400 mt-1 truncate">
+                          {item.className} › {item.deckName}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {item.openComments > 0 && (
+                          <span className="flex items-center gap-1 text-xs text-slate-300">
+                            <MessageSquare className="w-3.5 h-3.5" />
+                            {item.openComments}
+                          </span>
+                        )}
+                        <Badge variant="outline" className="text-xs border-slate-600 text-slate-300">
+                          {ENTITY_LABELS[item.entityType]}
+                        </Badge>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-slate-500">
+                      <span>Submitted by {item.submitterName ?? "unknown"}</span>
+                      <span>Reviewer: {item.reviewerName ?? "unassigned"}</span>
+                      {item.submittedAt && <span>{new Date(item.submittedAt).toLocaleString()}</span>}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <ReviewItemDialog
+        target={reviewTarget}
+        onClose={() => setReviewTarget(null)}
+        onChanged={loadQueue}
+      />
+    </div>
+  );
+}
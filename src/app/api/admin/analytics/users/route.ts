@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/auth/admin';
 import { db } from '@/lib/db';
-import { users, userStats, userCardProgress, flashcards } from '@/lib/db/schema';
-import { eq, sql, desc, and, inArray, count } from 'drizzle-orm';
+import { users, userStats, userCardProgress, flashcards, deckProgress } from '@/lib/db/schema';
+import { eq, sql, desc, and, inArray } from 'drizzle-orm';
 import { withErrorHandling } from '@/lib/api/error-handler';
 import { withTracing } from '@/lib/middleware/with-tracing';
+import { getUserStreak, getUserStreaks } from '@/lib/activity/daily-activity';
+import { getDeckAggregates } from '@/lib/progress/aggregate-store';
+import type { DeckAggregate } from '@/lib/progress/aggregates';
 
 /**
  * GET /api/admin/analytics/users
@@ -22,7 +25,18 @@ async function getUsersAnalytics(request: NextRequest) {
     return getUserAnalytics(userId, domainId);
   }
 
-  // OPTIMIZED: Single aggregated query instead of N+1 queries
+  // OPTIMIZED: Mastery counts come from the deck progress aggregates, summed per user
+  const masteryTotals = db
+    .select({
+      clerkUserId: deckProgress.clerkUserId,
+      newCount: sql<number>`COALESCE(SUM(${deckProgress.cardsNew}), 0)::int`.as('new_count'),
+      learningCount: sql<number>`COALESCE(SUM(${deckProgress.cardsLearning}), 0)::int`.as('learning_count'),
+      masteredCount: sql<number>`COALESCE(SUM(${deckProgress.cardsMastered}), 0)::int`.as('mastered_count'),
+    })
+    .from(deckProgress)
+    .groupBy(deckProgress.clerkUserId)
+    .as('mastery_totals');
+
   // Get all users with their stats AND mastery breakdown in one query
   const usersWithProgress = await db
     .select({
@@ -32,52 +46,46 @@ async function getUsersAnalytics(request: NextRequest) {
       role: users.role,
       createdAt: users.createdAt,
       totalCardsStudied: userStats.totalCardsStudied,
-      studyStreakDays: userStats.studyStreakDays,
       totalStudyTime: userStats.totalStudyTime,
       lastActiveDate: userStats.lastActiveDate,
-      // Aggregate mastery counts in single query using safe SQL functions
-      newCount: count(sql`CASE WHEN ${userCardProgress.masteryStatus} = 'new' THEN 1 END`).as('new_count'),
-      learningCount: count(sql`CASE WHEN ${userCardProgress.masteryStatus} = 'learning' THEN 1 END`).as('learning_count'),
-      masteredCount: count(sql`CASE WHEN ${userCardProgress.masteryStatus} = 'mastered' THEN 1 END`).as('mastered_count'),
+      newCount: masteryTotals.newCount,
+      learningCount: masteryTotals.learningCount,
+      masteredCount: masteryTotals.masteredCount,
     })
     .from(users)
     .leftJoin(userStats, eq(users.clerkUserId, userStats.clerkUserId))
-    .leftJoin(userCardProgress, eq(users.clerkUserId, userCardProgress.clerkUserId))
-    .groupBy(
-      users.clerkUserId,
-      users.email,
-      users.name,
-      users.role,
-      users.createdAt,
-      userStats.totalCardsStudied,
-      userStats.studyStreakDays,
-      userStats.totalStudyTime,
-      userStats.lastActiveDate
-    )
-    .orderBy(desc(userStats.totalCardsStudied))
-    .then((results) =>
-      results.map((user) => ({
-        clerkUserId: user.clerkUserId,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        createdAt: user.createdAt,
-        totalCardsStudied: user.totalCardsStudied,
-        studyStreakDays: user.studyStreakDays,
-        totalStudyTime: user.totalStudyTime,
-        lastActiveDate: user.lastActiveDate,
-        masteryBreakdown: {
-          new: user.newCount || 0,
-          learning: user.learningCount || 0,
-          mastered: user.masteredCount || 0,
-        },
-        totalCardsInProgress: (user.newCount || 0) + (user.learningCount || 0) + (user.masteredCount || 0),
-      }))
-    );
+    .leftJoin(masteryTotals, eq(users.clerkUserId, masteryTotals.clerkUserId))
+    .orderBy(desc(userStats.totalCardsStudied));
+
+  // Streaks are evaluated as of today in each user's timezone, so a lapsed streak shows as zero
+  const streaks = await getUserStreaks(usersWithProgress.map((user) => user.clerkUserId));
+
+  const usersWithStreaks = usersWithProgress.map((user) => {
+    const streak = streaks.get(user.clerkUserId);
+    return {
+      clerkUserId: user.clerkUserId,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      createdAt: user.createdAt,
+      totalCardsStudied: user.totalCardsStudied,
+      studyStreakDays: streak?.currentStreak ?? 0,
+      longestStreakDays: streak?.longestStreak ?? 0,
+      streakFreezeTokens: streak?.freezeTokens ?? 0,
+      totalStudyTime: user.totalStudyTime,
+      lastActiveDate: user.lastActiveDate,
+      masteryBreakdown: {
+        new: user.newCount || 0,
+        learning: user.learningCount || 0,
+        mastered: user.masteredCount || 0,
+      },
+      totalCardsInProgress: (user.newCount || 0) + (user.learningCount || 0) + (user.masteredCount || 0),
+    };
+  });
 
   return NextResponse.json({
-    users: usersWithProgress,
-    total: usersWithProgress.length,
+    users: usersWithStreaks,
+    total: usersWithStreaks.length,
   });
 }
 
@@ -90,59 +98,35 @@ function extractFlashcardIds(classItem: { decks: { flashcards: { id: string }[]
   return classItem.decks.flatMap((deck) => deck.flashcards.map((card) => card.id));
 }
 
-function createEmptyProgress(classId: string, className: string) {
-  return {
-    domainId: classId,
-    domainName: className,
-    totalCards: 0,
-    studiedCards: 0,
-    masteredCards: 0,
-    learningCards: 0,
-    newCards: 0,
-    progress: 0,
-  };
-}
-
-function calculateMasteryBreakdown(progressRecords: { masteryStatus: string }[]) {
-  return {
-    studied: progressRecords.length,
-    mastered: progressRecords.filter((p) => p.masteryStatus === 'mastered').length,
-    learning: progressRecords.filter((p) => p.masteryStatus === 'learning').length,
-    new: progressRecords.filter((p) => p.masteryStatus === 'new').length,
-  };
-}
-
-async function calculateClassProgress(
-  userId: string,
-  classItem: { id: string; name: string; decks: { flashcards: { id: string }[] }[] }
+/**
+ * A class's progress summed from the learner's deck aggregates
+ */
+function calculateClassProgress(
+  classItem: { id: string; name: string; decks: { id: string; flashcards: { id: string }[] }[] },
+  deckAggregates: Map<string, DeckAggregate>
 ) {
-  const flashcardIds = extractFlashcardIds(classItem);
-
-  if (flashcardIds.length === 0) {
-    return createEmptyProgress(classItem.id, classItem.name);
+  const totalCards = extractFlashcardIds(classItem).length;
+  const breakdown = { mastered: 0, learning: 0, new: 0 };
+
+  for (const deck of classItem.decks) {
+    const aggregate = deckAggregates.get(deck.id);
+    if (!aggregate) continue;
+    breakdown.mastered += aggregate.cardsMastered;
+    breakdown.learning += aggregate.cardsLearning;
+    breakdown.new += aggregate.cardsNew;
   }
 
-  const progressRecords = await db
-    .select()
-    .from(userCardProgress)
-    .where(
-      and(
-        eq(userCardProgress.clerkUserId, userId),
-        inArray(userCardProgress.flashcardId, flashcardIds)
-      )
-    );
-
-  const breakdown = calculateMasteryBreakdown(progressRecords);
+  const studied = Math.min(totalCards, breakdown.mastered + breakdown.learning + breakdown.new);
 
   return {
     domainId: classItem.id,
     domainName: classItem.name,
-    totalCards: flashcardIds.length,
-    studiedCards: breakdown.studied,
+    totalCards,
+    studiedCards: studied,
     masteredCards: breakdown.mastered,
     learningCards: breakdown.learning,
     newCards: breakdown.new,
-    progress: Math.round((breakdown.studied / flashcardIds.length) * 100),
+    progress: totalCards > 0 ? Math.round((studied / totalCards) * 100) : 0,
   };
 }
 
@@ -194,9 +178,11 @@ async function getUserAnalytics(userId: string, domainId: string | null) {
     },
   });
 
-  const classProgress = await Promise.all(
-    allClasses.map((classItem) => calculateClassProgress(userId, classItem))
-  );
+  const [deckAggregates, streak] = await Promise.all([
+    getDeckAggregates(userId, allClasses.flatMap((classItem) => classItem.decks.map((deck) => deck.id))),
+    getUserStreak(userId),
+  ]);
+  const classProgress = allClasses.map((classItem) => calculateClassProgress(classItem, deckAggregates));
 
   let cardDetails = null;
   if (domainId) {
@@ -214,7 +200,12 @@ async function getUserAnalytics(userId: string, domainId: string | null) {
       name: user.name,
       createdAt: user.createdAt,
     },
-    stats: user.stats,
+    stats: user.stats && {
+      ...user.stats,
+      studyStreakDays: streak.currentStreak,
+      longestStreakDays: streak.longestStreak,
+      streakFreezeTokens: streak.freezeTokens,
+    },
     domainProgress: classProgress,
     cardDetails,
   });
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { classBundleManifestSchema } from '@/lib/validations/class-bundle';
+import { readClassBundle } from '@/lib/class-bundle/archive';
+
+vi.mock('@/lib/auth/admin', () => ({
+  requireAdmin: vi.fn(),
+}));
+
+vi.mock('@/lib/class-bundle/store', () => ({
+  loadClassBundle: vi.fn(),
+}));
+
+const { requireAdmin } = await import('@/lib/auth/admin');
+const { loadClassBundle } = await import('@/lib/class-bundle/store');
+const { GET } = await import('./route');
+
+const CLASS_ID = '00000000-0000-4000-8000-000000000001';
+const MEDIA_FILE = 'media/00000000-0000-4000-8000-000000000009.png';
+
+const manifest = classBundleManifestSchema.parse({
+  format: 'cissp-mastery-class-bundle',
+  version: 1,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  class: { id: CLASS_ID, name: 'Security and Risk Management' },
+  decks: [
+    {
+      id: '00000000-0000-4000-8000-000000000002',
+      name: 'Risk',
+      flashcards: [
+        {
+          id: '00000000-0000-4000-8000-000000000003',
+          question: '<p>What is risk?</p>',
+          answer: '<p>Threat times vulnerability</p>',
+          status: 'approved',
+          media: [
+            {
+              id: '00000000-0000-4000-8000-000000000009',
+              file: MEDIA_FILE,
+              fileName: 'diagram.png',
+              mimeType: 'image/png',
+              placement: 'question',
+              order: 0,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
+
+function exportClass(id: string) {
+  return GET(new Request(`http://localhost/api/admin/classes/${id}/export`), { params: Promise.resolve({ id }) });
+}
+
+describe('GET /api/admin/classes/[id]/export', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(requireAdmin).mockResolvedValue({ clerkUserId: 'admin_1' } as never);
+  });
+
+  it('returns 403 for users who are not admins', async () => {
+    vi.mocked(requireAdmin).mockRejectedValue(new Error('Unauthorized: Admin access required'));
+
+    const res = await exportClass(CLASS_ID);
+
+    expect(res.status).toBe(403);
+    expect(loadClassBundle).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for an id that is not a uuid', async () => {
+    const res = await exportClass('not-a-uuid');
+
+    expect(res.status).toBe(400);
+    expect(loadClassBundle).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the class does not exist', async () => {
+    vi.mocked(loadClassBundle).mockResolvedValue(null);
+
+    const res = await exportClass(CLASS_ID);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('downloads the class as a bundle zip that reads back', async () => {
+    const image = new Uint8Array([137, 80, 78, 71]);
+    vi.mocked(loadClassBundle).mockResolvedValue({ manifest, files: new Map([[MEDIA_FILE, image]]), missingMedia: 0 });
+
+    const res = await exportClass(CLASS_ID);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('application/zip');
+    expect(res.headers.get('Content-Disposition')).toBe(
+      'attachment; filename="security-and-risk-management-bundle.zip"'
+    );
+
+    const read = readClassBundle(new Uint8Array(await res.arrayBuffer()));
+    expect(read.success).toBe(true);
+    if (!read.success) return;
+    expect(read.manifest).toEqual(manifest);
+    expect(read.files.get(MEDIA_FILE)).toEqual(image);
+  });
+});
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/admin';
+import { handleApiError, assertExists } from '@/lib/api/error-handler';
+import { log } from '@/lib/logger';
+import { validatePathParams } from '@/lib/api/validate';
+import { classIdSchema } from '@/lib/validations/class';
+import { loadClassBundle } from '@/lib/class-bundle/store';
+import { writeClassBundle } from '@/lib/class-bundle/archive';
+import { exportFileName } from '@/lib/deck-transfer/records';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/classes/:id/export - Download a class with its decks, cards, images,
+// quiz questions and topic mappings as a bundle zip
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin();
+    const resolvedParams = await params;
+
+    // Validate path parameters
+    const { id } = validatePathParams(resolvedParams, classIdSchema);
+
+    log.info('Exporting class bundle', {
+      userId: admin.clerkUserId,
+      classId: id,
+    });
+
+    const bundle = await loadClassBundle(id);
+    assertExists(bundle, 'Class not found', 404);
+
+    if (bundle.missingMedia > 0) {
+      log.warn('Class bundle exported without some images', {
+        userId: admin.clerkUserId,
+        classId: id,
+        missingMedia: bundle.missingMedia,
+      });
+    }
+
+    const archive = writeClassBundle(bundle.manifest, bundle.files);
+
+    log.info('Class bundle exported successfully', {
+      userId: admin.clerkUserId,
+      classId: id,
+      deckCount: bundle.manifest.decks.length,
+      mediaCount: bundle.files.size,
+      size: archive.byteLength,
+    });
+
+    return new NextResponse(Buffer.from(archive), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${exportFileName(`${bundle.manifest.class.name} bundle`, 'zip')}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, 'export class bundle', {
+      endpoint: '/api/admin/classes/[id]/export',
+      method: 'GET',
+    });
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { classBundleManifestSchema } from '@/lib/validations/class-bundle';
+import { writeClassBundle } from '@/lib/class-bundle/archive';
+
+vi.mock('@/lib/auth/admin', () => ({
+  requireAdmin: vi.fn(),
+}));
+
+vi.mock('@/lib/class-bundle/store', () => ({
+  importClassBundle: vi.fn(),
+  previewClassBundle: vi.fn(),
+}));
+
+vi.mock('@/lib/redis/invalidation', () => ({
+  CacheInvalidation: {
+    class: vi.fn(),
+    deck: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/progress/aggregate-store', () => ({
+  rebuildProgressAggregates: vi.fn(),
+}));
+
+const { requireAdmin } = await import('@/lib/auth/admin');
+const { importClassBundle, previewClassBundle } = await import('@/lib/class-bundle/store');
+const { CacheInvalidation } = await import('@/lib/redis/invalidation');
+const { rebuildProgressAggregates } = await import('@/lib/progress/aggregate-store');
+const { POST } = await import('./route');
+
+const CLASS_ID = '00000000-0000-4000-8000-000000000001';
+const DECK_ID = '00000000-0000-4000-8000-000000000002';
+
+const manifest = classBundleManifestSchema.parse({
+  format: 'cissp-mastery-class-bundle',
+  version: 1,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  class: { id: CLASS_ID, name: 'Security and Risk Management' },
+  decks: [
+    {
+      id: DECK_ID,
+      name: 'Risk',
+      flashcards: [
+        {
+          id: '00000000-0000-4000-8000-000000000003',
+          question: '<p>What is risk?</p>',
+          answer: '<p>Threat times vulnerability</p>',
+        },
+      ],
+    },
+  ],
+});
+
+const plan = { class: { id: CLASS_ID, action: 'update' }, decks: [{ id: DECK_ID, action: 'update' }] };
+const summary = { flashcards: { create: 0, update: 1, skip: 0 } };
+const topics = { topicsCreated: 0, subTopicsCreated: 0 };
+
+function createRequest(fields: Record<string, string>, bundle: Uint8Array | null = writeClassBundle(manifest, new Map())) {
+  const formData = new FormData();
+  if (bundle) {
+    formData.append('file', new File([new Uint8Array(bundle)], 'bundle.zip', { type: 'application/zip' }));
+  }
+  Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
+  return new Request('http://localhost/api/admin/classes/import', { method: 'POST', body: formData });
+}
+
+describe('POST /api/admin/classes/import', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(requireAdmin).mockResolvedValue({ clerkUserId: 'admin_1' } as never);
+    vi.mocked(previewClassBundle).mockResolvedValue({ classId: CLASS_ID, plan, summary, topics } as never);
+    vi.mocked(importClassBundle).mockResolvedValue({ classId: CLASS_ID, plan, summary, topics, warnings: [] } as never);
+  });
+
+  it('returns 403 for users who are not admins', async () => {
+    vi.mocked(requireAdmin).mockRejectedValue(new Error('Unauthorized: Admin access required'));
+
+    const res = await POST(createRequest({ dryRun: 'false' }));
+
+    expect(res.status).toBe(403);
+    expect(importClassBundle).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 without a bundle file', async () => {
+    const res = await POST(createRequest({}, null));
+    const body = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('No file provided');
+  });
+
+  it('returns 400 for a file that is not a class bundle', async () => {
+    const res = await POST(createRequest({ dryRun: 'false' }, new Uint8Array([1, 2, 3])));
+
+    expect(res.status).toBe(400);
+    expect(importClassBundle).not.toHaveBeenCalled();
+  });
+
+  it('previews the import without writing by default', async () => {
+    const res = await POST(createRequest({ mode: 'overwrite' }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ dryRun: true, mode: 'overwrite', classId: CLASS_ID, summary, topics });
+    expect(previewClassBundle).toHaveBeenCalledWith(manifest, 'overwrite');
+    expect(importClassBundle).not.toHaveBeenCalled();
+    expect(rebuildProgressAggregates).not.toHaveBeenCalled();
+  });
+
+  it('imports the bundle, then clears caches and rebuilds the class progress aggregates', async () => {
+    const res = await POST(createRequest({ mode: 'overwrite', dryRun: 'false' }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ dryRun: false, classId: CLASS_ID, summary, warnings: [] });
+    expect(importClassBundle).toHaveBeenCalledWith(manifest, expect.any(Map), 'overwrite', 'admin_1');
+    expect(CacheInvalidation.class).toHaveBeenCalledWith(CLASS_ID);
+    expect(CacheInvalidation.deck).toHaveBeenCalledWith(DECK_ID, CLASS_ID);
+    expect(rebuildProgressAggregates).toHaveBeenCalledWith({ classId: CLASS_ID });
+    expect(vi.mocked(rebuildProgressAggregates).mock.invocationCallOrder[0]).toBeGreaterThan(
+      vi.mocked(importClassBundle).mock.invocationCallOrder[0]
+    );
+  });
+
+  it('leaves the progress aggregates alone when the import fails', async () => {
+    vi.mocked(importClassBundle).mockRejectedValue(new Error('connection reset'));
+
+    const res = await POST(createRequest({ mode: 'overwrite', dryRun: 'false' }));
+
+    expect(res.status).toBe(500);
+    expect(rebuildProgressAggregates).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/admin';
+import { handleApiError, createApiError } from '@/lib/api/error-handler';
+import { log } from '@/lib/logger';
+import { formatValidationErrors } from '@/lib/api/validate';
+import { classBundleImportOptionsSchema } from '@/lib/validations/class-bundle';
+import { readClassBundle } from '@/lib/class-bundle/archive';
+import { importClassBundle, previewClassBundle } from '@/lib/class-bundle/store';
+import { CacheInvalidation } from '@/lib/redis/invalidation';
+import { rebuildProgressAggregates } from '@/lib/progress/aggregate-store';
+
+const MAX_BUNDLE_SIZE = 200 * 1024 * 1024; // 200MB
+
+// POST /api/admin/classes/import - Import a class bundle zip
+// Expects multipart/form-data with:
+// - file: The bundle .zip
+// - mode: 'skip' (default), 'overwrite' or 'duplicate' - what to do with items that already exist
+// - dryRun: 'true' (default) to report what would be created, updated and skipped without writing anything
+export async function POST(request: Request) {
+  try {
+    const admin = await requireAdmin();
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      throw createApiError('No file provided', 400, 'NO_FILE');
+    }
+    if (file.size > MAX_BUNDLE_SIZE) {
+      throw createApiError('Bundles must be 200MB or smaller', 400, 'FILE_TOO_LARGE');
+    }
+
+    const options = classBundleImportOptionsSchema.safeParse({
+      mode: formData.get('mode') ?? undefined,
+      dryRun: formData.get('dryRun') ?? undefined,
+    });
+    if (!options.success) {
+      const details = formatValidationErrors(options.error);
+      throw createApiError(
+        `Validation failed: ${details[0].field} - ${details[0].message}`,
+        400,
+        'VALIDATION_ERROR',
+        details
+      );
+    }
+    const { mode, dryRun } = options.data;
+
+    const bundle = readClassBundle(new Uint8Array(await file.arrayBuffer()));
+    if (!bundle.success) {
+      throw createApiError(bundle.error, 400, 'INVALID_BUNDLE');
+    }
+    const { manifest, files } = bundle;
+
+    if (dryRun) {
+      const preview = await previewClassBundle(manifest, mode);
+      return NextResponse.json({
+        dryRun: true,
+        mode,
+        className: manifest.class.name,
+        exportedAt: manifest.exportedAt,
+        classId: preview.classId,
+        summary: preview.summary,
+        topics: preview.topics,
+      });
+    }
+
+    log.info('Importing class bundle', {
+      userId: admin.clerkUserId,
+      className: manifest.class.name,
+      deckCount: manifest.decks.length,
+      mode,
+    });
+
+    const result = await importClassBundle(manifest, files, mode, admin.clerkUserId);
+
+    await CacheInvalidation.class(result.classId);
+    for (const deck of result.plan.decks) {
+      await CacheInvalidation.deck(deck.id, result.classId);
+    }
+
+    // Overwritten decks can change what learners' progress counts, once the import has committed
+    await rebuildProgressAggregates({ classId: result.classId });
+
+    log.info('Class bundle imported successfully', {
+      userId: admin.clerkUserId,
+      classId: result.classId,
+      summary: result.summary,
+      warnings: result.warnings.length,
+    });
+
+    return NextResponse.json({
+      dryRun: false,
+      mode,
+      className: manifest.class.name,
+      classId: result.classId,
+      summary: result.summary,
+      topics: result.topics,
+      warnings: result.warnings,
+      message: 'Class bundle imported successfully',
+    });
+  } catch (error) {
+    return handleApiError(error, 'import class bundle', {
+      endpoint: '/api/admin/classes/import',
+      method: 'POST',
+    });
+  }
+}
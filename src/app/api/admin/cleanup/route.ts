@@ -6,6 +6,7 @@ import { findOrphanedImages, deleteMultipleImagesFromBlob } from '@/lib/blob';
 import { requireAdmin } from '@/lib/auth/admin';
 import { withErrorHandling } from '@/lib/api/error-handler';
 import { withTracing } from '@/lib/middleware/with-tracing';
+import { getRevisionMediaUrls } from '@/lib/revisions/store';
 
 /**
  * GET /api/admin/cleanup
@@ -16,9 +17,10 @@ async function getCleanupReport(_request: NextRequest) {
   try {
     await requireAdmin();
 
-    // Get all file URLs from database
+    // Get all file URLs from database, including images only earlier card revisions still use
     const dbMedia = await db.select({ fileUrl: flashcardMedia.fileUrl }).from(flashcardMedia);
-    const dbFileUrls = dbMedia.map((m) => m.fileUrl);
+    const revisionMediaUrls = await getRevisionMediaUrls();
+    const dbFileUrls = Array.from(new Set([...dbMedia.map((m) => m.fileUrl), ...revisionMediaUrls]));
 
     // Get all files from blob storage
     const { blobs } = await list({
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/admin';
+import { deckExportQuerySchema } from '@/lib/validations/deck-transfer';
+import { fetchExportMedia, loadDeckExport } from '@/lib/deck-transfer/store';
+import { writeApkg } from '@/lib/deck-transfer/anki';
+import { toDelimited } from '@/lib/deck-transfer/delimited';
+import { buildExportRows, exportFileName } from '@/lib/deck-transfer/records';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/decks/[id]/export?format=csv|apkg
+ * Download a deck's cards, images and quiz questions as a CSV file or an Anki package
+ * The CSV lists images by URL; the Anki package contains the image files.
+ */
+async function exportDeck(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin();
+    const { id: deckId } = await params;
+
+    const validation = deckExportQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const deck = await loadDeckExport(deckId);
+    if (!deck) {
+      return NextResponse.json({ error: 'Deck not found' }, { status: 404 });
+    }
+
+    if (validation.data.format === 'csv') {
+      return new NextResponse(toDelimited(buildExportRows(deck)), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${exportFileName(deck.name, 'csv')}"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    const media = await fetchExportMedia(deck);
+    const packaged = await writeApkg(deck, media);
+
+    return new NextResponse(Buffer.from(packaged), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${exportFileName(deck.name, 'apkg')}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting deck:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(exportDeck as (req: NextRequest, ...args: unknown[]) => Promise<NextResponse>, 'export admin deck'),
+  { logRequest: true, logResponse: false }
+) as typeof exportDeck;
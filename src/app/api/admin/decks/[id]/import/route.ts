@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/admin';
+import { db } from '@/lib/db';
+import { decks } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { deckImportOptionsSchema } from '@/lib/validations/deck-transfer';
+import { readApkg } from '@/lib/deck-transfer/anki';
+import {
+  guessFieldMapping,
+  mapRecords,
+  previewText,
+  sourceFromDelimited,
+  type ImportSource,
+} from '@/lib/deck-transfer/records';
+import { importDeckContent } from '@/lib/deck-transfer/store';
+import { invalidateFlashcardCache } from '@/lib/flashcard/cache';
+import { CacheInvalidation } from '@/lib/redis/invalidation';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+
+const MAX_IMPORT_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+const MAX_IMPORT_ROWS = 2000;
+const PREVIEW_CARDS = 20;
+const MAX_REPORTED_ISSUES = 200;
+
+/**
+ * POST /api/admin/decks/[id]/import
+ * Import cards from a CSV/TSV file or an Anki package (.apkg) into a deck
+ * Admin only
+ *
+ * Expected multipart/form-data with:
+ * - file: The .csv, .tsv, .txt or .apkg file
+ * - dryRun: 'true' (default) to preview what would be imported without writing anything
+ * - hasHeader: 'true' (default) when the first CSV row names the columns
+ * - mapping: JSON field mapping ({ question, answer, explanation?, questionImages?, answerImages?, quiz?, rowType? });
+ *   guessed from the column names when omitted
+ */
+async function importDeck(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin();
+    const { id: deckId } = await params;
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json({ error: 'Import files must be 50MB or smaller' }, { status: 400 });
+    }
+
+    const validation = deckImportOptionsSchema.safeParse({
+      dryRun: formData.get('dryRun') ?? undefined,
+      hasHeader: formData.get('hasHeader') ?? undefined,
+      mapping: formData.get('mapping') ?? undefined,
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    const { dryRun, hasHeader } = validation.data;
+
+    const deck = await db.query.decks.findFirst({
+      where: eq(decks.id, deckId),
+      columns: { id: true, classId: true },
+    });
+    if (!deck) {
+      return NextResponse.json({ error: 'Deck not found' }, { status: 404 });
+    }
+
+    let source: ImportSource;
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension === 'apkg') {
+      const read = await readApkg(new Uint8Array(await file.arrayBuffer()));
+      if (!read.success) {
+        return NextResponse.json({ error: read.error }, { status: 400 });
+      }
+      source = read.source;
+    } else if (extension === 'csv' || extension === 'tsv' || extension === 'txt') {
+      source = sourceFromDelimited(await file.text(), file.name, hasHeader);
+    } else {
+      return NextResponse.json({ error: 'Import a .csv, .tsv, .txt or .apkg file' }, { status: 400 });
+    }
+
+    if (source.records.length === 0) {
+      return NextResponse.json({ error: 'The file has no cards' }, { status: 400 });
+    }
+    if (source.records.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `Import at most ${MAX_IMPORT_ROWS} rows at a time; this file has ${source.records.length}` },
+        { status: 400 }
+      );
+    }
+
+    const mapping = validation.data.mapping ?? guessFieldMapping(source.columns);
+    const unknownColumn = Object.values(mapping).find((column) => column && !source.columns.includes(column));
+    if (unknownColumn) {
+      return NextResponse.json({ error: `Column "${unknownColumn}" is not in the file` }, { status: 400 });
+    }
+
+    const mapped = mapRecords(source, mapping);
+
+    if (dryRun) {
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        format: source.format,
+        deckName: source.deckName,
+        columns: source.columns,
+        mapping,
+        summary: {
+          rows: source.records.length,
+          cards: mapped.cards.length,
+          quizQuestions: mapped.cards.reduce((sum, card) => sum + (card.quiz?.questions.length ?? 0), 0),
+          deckQuizQuestions: mapped.deckQuestions.length,
+          images: mapped.cards.reduce((sum, card) => sum + card.images.length, 0),
+          errors: mapped.errors.length,
+          warnings: mapped.warnings.length,
+        },
+        preview: mapped.cards.slice(0, PREVIEW_CARDS).map((card) => ({
+          row: card.row,
+          question: previewText(card.question),
+          answer: previewText(card.answer),
+          images: card.images.length,
+          quizQuestions: card.quiz?.questions.length ?? 0,
+        })),
+        errors: mapped.errors.slice(0, MAX_REPORTED_ISSUES),
+        warnings: mapped.warnings.slice(0, MAX_REPORTED_ISSUES),
+      });
+    }
+
+    if (mapped.cards.length === 0 && mapped.deckQuestions.length === 0) {
+      return NextResponse.json(
+        { error: 'No rows can be imported', errors: mapped.errors.slice(0, MAX_REPORTED_ISSUES) },
+        { status: 400 }
+      );
+    }
+
+    const result = await importDeckContent(deckId, mapped, source.media, admin.clerkUserId);
+
+    await invalidateFlashcardCache(deckId);
+    if (result.deckQuizQuestions > 0) {
+      await CacheInvalidation.deck(deckId, deck.classId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      dryRun: false,
+      imported: {
+        cards: result.cards,
+        quizQuestions: result.quizQuestions,
+        deckQuizQuestions: result.deckQuizQuestions,
+        images: result.images,
+      },
+      errors: mapped.errors.slice(0, MAX_REPORTED_ISSUES),
+      warnings: [...mapped.warnings, ...result.warnings].slice(0, MAX_REPORTED_ISSUES),
+    });
+  } catch (error) {
+    console.error('Error importing deck:', error);
+    throw error;
+  }
+}
+
+export const POST = withTracing(
+  withErrorHandling(importDeck as (req: NextRequest, ...args: unknown[]) => Promise<NextResponse>, 'import admin deck'),
+  { logRequest: true, logResponse: false }
+) as typeof importDeck;
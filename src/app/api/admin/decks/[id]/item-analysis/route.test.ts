@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    query: {
+      users: {
+        findFirst: vi.fn(),
+      },
+    },
+    select: vi.fn(),
+  },
+  withRetry: (query: () => Promise<unknown>) => query(),
+}));
+
+const { db } = await import('@/lib/db');
+const { auth } = await import('@clerk/nextjs/server');
+const { GET } = await import('./route');
+
+const DECK_ID = 'deck_1';
+
+/**
+ * Chainable select mock; awaiting it resolves to rows
+ */
+function selectReturning(rows: unknown[]) {
+  const chain = {
+    from: vi.fn(() => chain),
+    where: vi.fn(() => chain),
+    innerJoin: vi.fn(() => chain),
+    then: (resolve: (value: unknown[]) => unknown) => Promise.resolve(rows).then(resolve),
+  };
+  return chain;
+}
+
+function getAnalysis() {
+  return GET(new NextRequest(new URL(`http://localhost/api/admin/decks/${DECK_ID}/item-analysis`)), {
+    params: Promise.resolve({ id: DECK_ID }),
+  });
+}
+
+describe('GET /api/admin/decks/[id]/item-analysis', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'admin_1' });
+    (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      clerkUserId: 'admin_1',
+      email: 'admin@example.com',
+      role: 'admin',
+    });
+    (db.select as ReturnType<typeof vi.fn>).mockReturnValue(selectReturning([]));
+  });
+
+  it('rejects signed-out users without reading answers', async () => {
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: null });
+
+    const res = await getAnalysis();
+
+    expect(res.status).toBe(403);
+    expect(db.select).not.toHaveBeenCalled();
+  });
+
+  it('rejects users who are not admins', async () => {
+    (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      clerkUserId: 'user_1',
+      email: 'learner@example.com',
+      role: 'user',
+    });
+
+    const res = await getAnalysis();
+
+    expect(res.status).toBe(403);
+    expect(db.select).not.toHaveBeenCalled();
+  });
+
+  it('returns an empty analysis for a deck without quiz questions', async () => {
+    const res = await getAnalysis();
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toEqual({
+      success: true,
+      analysis: {
+        deckId: DECK_ID,
+        totalAnswers: 0,
+        learners: 0,
+        items: [],
+        flagCounts: { too_easy: 0, too_hard: 0, likely_miskeyed: 0, dead_distractor: 0 },
+      },
+    });
+    // No answers are looked up when there are no questions
+    expect(db.select).toHaveBeenCalledTimes(2);
+  });
+
+  it('lists questions nobody has answered yet without statistics or flags', async () => {
+    (db.select as ReturnType<typeof vi.fn>)
+      .mockReturnValueOnce(selectReturning([
+        {
+          id: 'q1',
+          questionText: 'Which control is preventive?',
+          questionType: 'single_choice',
+          options: [
+            { id: 'a', text: 'Firewall rule', isCorrect: true },
+            { id: 'b', text: 'Audit log', isCorrect: false },
+          ],
+        },
+      ]))
+      .mockReturnValueOnce(selectReturning([]))
+      .mockReturnValueOnce(selectReturning([]));
+
+    const res = await getAnalysis();
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.analysis).toMatchObject({ totalAnswers: 0, learners: 0 });
+    expect(body.analysis.items).toHaveLength(1);
+    expect(body.analysis.items[0]).toMatchObject({ questionId: 'q1', source: 'deck', responses: 0, flags: [] });
+  });
+});
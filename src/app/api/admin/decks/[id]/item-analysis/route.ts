@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/admin';
+import { getDeckItemAnalysis } from '@/lib/quiz/deck-item-analysis';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/decks/[id]/item-analysis
+ * Item statistics and review flags for a deck's quiz questions (admin only)
+ */
+async function getItemAnalysis(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin();
+    const { id: deckId } = await params;
+
+    const analysis = await getDeckItemAnalysis(deckId);
+
+    return NextResponse.json({
+      success: true,
+      analysis,
+    });
+  } catch (error) {
+    console.error('Error fetching deck item analysis:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(
+    getItemAnalysis as (req: NextRequest, ...args: unknown[]) => Promise<NextResponse>,
+    'get deck item analysis'
+  ),
+  { logRequest: true, logResponse: false }
+) as typeof getItemAnalysis;
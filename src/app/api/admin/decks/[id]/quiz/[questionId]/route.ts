@@ -7,6 +7,9 @@ import { withErrorHandling } from '@/lib/api/error-handler';
 import { withTracing } from '@/lib/middleware/with-tracing';
 import { CacheInvalidation } from '@/lib/redis/invalidation';
 import { validateQuizQuestionUpdate } from '@/lib/validations/quiz';
+import { recordRevision, toDeckQuizQuestionSnapshot } from '@/lib/revisions/store';
+import { markContentEdited } from '@/lib/editorial/edits';
+import { isEditableStatus, PUBLISHED_CONTENT_EDIT_ERROR } from '@/lib/editorial/workflow';
 
 export const dynamic = 'force-dynamic';
 
@@ -19,7 +22,7 @@ async function updateDeckQuizQuestion(
   { params }: { params: Promise<{ id: string; questionId: string }> }
 ) {
   try {
-    await requireAdmin();
+    const admin = await requireAdmin();
     const { id: deckId, questionId } = await params;
     const body = await request.json();
 
@@ -38,6 +41,13 @@ async function updateDeckQuizQuestion(
       );
     }
 
+    if (!isEditableStatus(existingQuestion.status)) {
+      return NextResponse.json(
+        { error: PUBLISHED_CONTENT_EDIT_ERROR },
+        { status: 409 }
+      );
+    }
+
     // Validate the update data (deck quiz = true for difficulty field)
     const validation = validateQuizQuestionUpdate(body, true);
     if (!validation.success) {
@@ -52,6 +62,8 @@ async function updateDeckQuizQuestion(
     // Prepare update data with JSON stringified metadata
     const updateData: Record<string, unknown> = {
       questionText: validatedData.questionText,
+      questionType: validatedData.questionType,
+      imageUrl: validatedData.imageUrl || null,
       options: validatedData.options,
       explanation: validatedData.explanation || null,
       eliminationTactics: validatedData.eliminationTactics
@@ -78,16 +90,30 @@ async function updateDeckQuizQuestion(
     await db.update(deckQuizQuestions)
       .set(updateData)
       .where(eq(deckQuizQuestions.id, questionId));
+    await markContentEdited('deck_quiz_question', questionId);
 
     // Fetch the updated question
     const updated = await db.query.deckQuizQuestions.findFirst({
       where: eq(deckQuizQuestions.id, questionId),
     });
 
+    await recordRevision({
+      entityType: 'deck_quiz_question',
+      entityId: questionId,
+      deckId,
+      action: 'update',
+      before: toDeckQuizQuestionSnapshot(existingQuestion),
+      after: toDeckQuizQuestionSnapshot(updated!),
+      authorId: admin.clerkUserId,
+      baselineAuthorId: existingQuestion.createdBy,
+    });
+
     // Parse JSON fields for response
     const formattedQuestion = {
       id: updated!.id,
       questionText: updated!.questionText,
+      questionType: updated!.questionType,
+      imageUrl: updated!.imageUrl,
       options: updated!.options,
       explanation: updated!.explanation,
       eliminationTactics: updated!.eliminationTactics ? JSON.parse(updated!.eliminationTactics) : null,
@@ -102,6 +128,8 @@ async function updateDeckQuizQuestion(
         : null,
       order: updated!.order,
       difficulty: updated!.difficulty,
+      status: updated!.status,
+      reviewerId: updated!.reviewerId,
       createdAt: updated!.createdAt,
       createdBy: updated!.createdBy,
     };
@@ -144,7 +172,7 @@ async function deleteDeckQuizQuestion(
   { params }: { params: Promise<{ id: string; questionId: string }> }
 ) {
   try {
-    await requireAdmin();
+    const admin = await requireAdmin();
     const { id: deckId, questionId } = await params;
 
     // Verify the question exists and belongs to this deck
@@ -171,6 +199,17 @@ async function deleteDeckQuizQuestion(
     // Delete the question
     await db.delete(deckQuizQuestions).where(eq(deckQuizQuestions.id, questionId));
 
+    await recordRevision({
+      entityType: 'deck_quiz_question',
+      entityId: questionId,
+      deckId,
+      action: 'delete',
+      before: toDeckQuizQuestionSnapshot(existingQuestion),
+      after: null,
+      authorId: admin.clerkUserId,
+      baselineAuthorId: existingQuestion.createdBy,
+    });
+
     // Invalidate cache
     if (deck?.classId) {
       await CacheInvalidation.deck(deckId, deck.classId);
@@ -38,6 +38,8 @@ async function listDeckQuizQuestions(
     const formattedQuestions = questions.map((q) => ({
       id: q.id,
       questionText: q.questionText,
+      questionType: q.questionType,
+      imageUrl: q.imageUrl,
       options: q.options,
       explanation: q.explanation,
       eliminationTactics: q.eliminationTactics ? JSON.parse(q.eliminationTactics) : null,
@@ -63,6 +65,8 @@ async function listDeckQuizQuestions(
           domainNumber: q.subTopic.topic.domainNumber,
         } : null,
       } : null,
+      status: q.status,
+      reviewerId: q.reviewerId,
       createdAt: q.createdAt,
       createdBy: q.createdBy,
     }));
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { parseQuizUpload } from '@/lib/quiz/formats';
+import { chunkQuizFile } from '@/lib/validations/quiz';
+
+interface StoredQuestion {
+  id: string;
+  deckId: string;
+  questionText: string;
+  order: number;
+}
+
+// The deck's quiz questions, as the mocked database holds them
+const stored: StoredQuestion[] = [];
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    query: {
+      deckQuizQuestions: {
+        findMany: vi.fn(async (args?: { limit?: number }) => {
+          const byOrder = [...stored].sort((a, b) => b.order - a.order);
+          return args?.limit ? byOrder.slice(0, args.limit) : byOrder;
+        }),
+      },
+    },
+    insert: vi.fn(() => ({
+      values: (rows: Omit<StoredQuestion, 'id'>[]) => ({
+        returning: async () => {
+          const inserted = rows.map((row, index) => ({ ...row, id: `q${stored.length + index + 1}` }));
+          stored.push(...inserted);
+          return inserted;
+        },
+      }),
+    })),
+  },
+}));
+
+vi.mock('@/lib/auth/admin', () => ({
+  requireAdmin: vi.fn().mockResolvedValue({ clerkUserId: 'admin_1' }),
+}));
+
+vi.mock('@/lib/revisions/store', () => ({
+  getDeckQuizQuestionSnapshots: vi.fn(),
+  recordRevisions: vi.fn(),
+  toDeckQuizQuestionSnapshot: vi.fn((question: StoredQuestion) => ({ questionText: question.questionText })),
+}));
+
+vi.mock('@/lib/redis/invalidation', () => ({
+  CacheInvalidation: {
+    deck: vi.fn(),
+  },
+}));
+
+const { db } = await import('@/lib/db');
+const { recordRevisions } = await import('@/lib/revisions/store');
+const { PUT } = await import('./route');
+
+const DECK_ID = 'deck_1';
+
+function uploadChunk(quizData: unknown) {
+  const request = new NextRequest(new URL(`http://localhost/api/admin/decks/${DECK_ID}/quiz`), {
+    method: 'PUT',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ quizData, classId: 'class_1' }),
+  });
+  return PUT(request, { params: Promise.resolve({ id: DECK_ID }) });
+}
+
+const csv = [
+  'Question,Option A,Option B,Correct',
+  'Which control is preventive?,Firewall rule,Audit log,A',
+  'Which control is detective?,Firewall rule,Audit log,Z',
+  'Which cipher is symmetric?,AES,RSA,A',
+  'Which cipher is asymmetric?,AES,RSA,B',
+].join('\n');
+
+describe('PUT /api/admin/decks/[id]/quiz', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stored.length = 0;
+  });
+
+  it('uploads the readable rows of a file and reports the others by row', async () => {
+    const upload = parseQuizUpload('quiz.csv', csv);
+    expect(upload.success).toBe(true);
+    if (!upload.success) return;
+
+    expect(upload.errors).toEqual([{ location: 'Row 3', message: expect.any(String) }]);
+    expect(upload.total).toBe(4);
+
+    const res = await uploadChunk(upload.quiz);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ success: true, added: 3, count: 3 });
+    expect(stored.map((question) => question.questionText)).toEqual([
+      'Which control is preventive?',
+      'Which cipher is symmetric?',
+      'Which cipher is asymmetric?',
+    ]);
+  });
+
+  it('rejects a chunk with an invalid question, naming it, without adding any of the chunk', async () => {
+    const res = await uploadChunk({
+      questions: [
+        { question: 'Which control is preventive?', options: [{ text: 'Firewall rule', isCorrect: true }, { text: 'Audit log', isCorrect: false }] },
+        { question: 'Which control is detective?', options: [{ text: 'Audit log', isCorrect: false }] },
+      ],
+    });
+    const body = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(body.error).toMatch(/^Invalid quiz data: questions\.1\./);
+    expect(db.insert).not.toHaveBeenCalled();
+    expect(stored).toHaveLength(0);
+  });
+
+  it('appends each chunk after the questions of the chunks before it', async () => {
+    const upload = parseQuizUpload('quiz.csv', csv);
+    if (!upload.success) throw new Error(upload.error);
+    const [first, second] = chunkQuizFile(upload.quiz, 2);
+
+    const firstRes = await uploadChunk(first);
+    expect(await firstRes.json()).toMatchObject({ added: 2, count: 2 });
+
+    const secondRes = await uploadChunk(second);
+    const body = await secondRes.json();
+
+    expect(secondRes.status).toBe(200);
+    expect(body).toMatchObject({ added: 1, count: 3 });
+    expect(stored.map((question) => [question.questionText, question.order])).toEqual([
+      ['Which control is preventive?', 0],
+      ['Which cipher is symmetric?', 1],
+      ['Which cipher is asymmetric?', 2],
+    ]);
+    expect(recordRevisions).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the chunks already added when a later chunk is rejected', async () => {
+    const upload = parseQuizUpload('quiz.csv', csv);
+    if (!upload.success) throw new Error(upload.error);
+    const [first] = chunkQuizFile(upload.quiz, 2);
+
+    await uploadChunk(first);
+    const res = await uploadChunk({ questions: [{ question: '', options: [] }] });
+
+    expect(res.status).toBe(400);
+    expect(stored).toHaveLength(2);
+  });
+});
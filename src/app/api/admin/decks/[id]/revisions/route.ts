@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/admin';
+import { getDeckRevisionedItems, getEntityRevisions } from '@/lib/revisions/store';
+import { isRevisionEntityType } from '@/lib/revisions/diff';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/decks/[id]/revisions
+ * Revision history of a deck's flashcards and quiz questions (admin only)
+ * Query params:
+ * - entityType, entityId: Every revision of one item; without them, the deck's items with history
+ */
+async function listDeckRevisions(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin();
+    const { id: deckId } = await params;
+    const { searchParams } = new URL(request.url);
+    const entityType = searchParams.get('entityType');
+    const entityId = searchParams.get('entityId');
+
+    if (entityType === null && entityId === null) {
+      const items = await getDeckRevisionedItems(deckId);
+      return NextResponse.json({ success: true, items });
+    }
+
+    if (!isRevisionEntityType(entityType) || !entityId) {
+      return NextResponse.json(
+        { error: 'entityType must be flashcard, quiz_question or deck_quiz_question, with an entityId' },
+        { status: 400 }
+      );
+    }
+
+    const revisions = await getEntityRevisions(deckId, entityType, entityId);
+
+    return NextResponse.json({
+      success: true,
+      revisions,
+    });
+  } catch (error) {
+    console.error('Error fetching deck revisions:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(
+    listDeckRevisions as (req: NextRequest, ...args: unknown[]) => Promise<NextResponse>,
+    'list admin deck revisions'
+  ),
+  { logRequest: true, logResponse: false }
+) as typeof listDeckRevisions;
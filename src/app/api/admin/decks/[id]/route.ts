@@ -6,6 +6,7 @@ import { eq, asc } from 'drizzle-orm';
 import { deleteMultipleImagesFromBlob } from '@/lib/blob';
 import { withErrorHandling } from '@/lib/api/error-handler';
 import { withTracing } from '@/lib/middleware/with-tracing';
+import { rebuildClassAggregates } from '@/lib/progress/aggregate-store';
 
 // GET /api/admin/decks/:id - Get a specific deck
 async function getDeck(
@@ -80,6 +81,11 @@ async function updateDeck(
       return NextResponse.json({ error: 'Deck not found' }, { status: 404 });
     }
 
+    // Class progress only counts published decks
+    if (isPublished !== undefined) {
+      await rebuildClassAggregates(updatedDeck[0].classId);
+    }
+
     return NextResponse.json({
       deck: updatedDeck[0],
       message: 'Deck updated successfully',
@@ -143,6 +149,9 @@ async function deleteDeck(
     // Delete deck (cascades to flashcards, media records, and quiz questions)
     await db.delete(decks).where(eq(decks.id, id));
 
+    // The deck's progress rows went with it; its class rows still count it
+    await rebuildClassAggregates(deck.classId);
+
     return NextResponse.json({
       message: 'Deck deleted successfully',
       deletedImages: allImageUrls.length,
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/admin';
+import { transitionDeckItems } from '@/lib/editorial/review-store';
+import { deckWorkflowSchema } from '@/lib/validations/review';
+import { invalidateFlashcardCache } from '@/lib/flashcard/cache';
+import { CacheInvalidation } from '@/lib/redis/invalidation';
+import { rebuildProgressAggregates } from '@/lib/progress/aggregate-store';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+
+/**
+ * POST /api/admin/decks/[id]/workflow
+ * Submit every draft in a deck to one reviewer, or publish everything its reviewers approved
+ * Body: { action: 'submit' | 'publish', reviewerId? (to submit) }
+ */
+async function updateDeckWorkflow(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin();
+    const { id: deckId } = await params;
+
+    const body = await request.json();
+    const validation = deckWorkflowSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { action, reviewerId } = validation.data;
+    const result = await transitionDeckItems(deckId, action, admin.clerkUserId, reviewerId);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.reason === 'not_found' ? 404 : 409 }
+      );
+    }
+
+    // Newly published content changes what learners see
+    if (result.publishedFlashcards > 0) {
+      await invalidateFlashcardCache(deckId);
+      await rebuildProgressAggregates({ deckId });
+    }
+    if (action === 'publish' && result.deckQuizQuestions > 0) {
+      await CacheInvalidation.deck(deckId, result.classId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      flashcards: result.flashcards,
+      deckQuizQuestions: result.deckQuizQuestions,
+    });
+  } catch (error) {
+    console.error('Error updating deck workflow:', error);
+    throw error;
+  }
+}
+
+export const POST = withTracing(
+  withErrorHandling(updateDeckWorkflow as (req: NextRequest, ...args: unknown[]) => Promise<NextResponse>, 'update admin deck workflow'),
+  { logRequest: true, logResponse: false }
+) as typeof updateDeckWorkflow;
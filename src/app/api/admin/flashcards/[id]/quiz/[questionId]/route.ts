@@ -1,11 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/auth/admin';
 import { db } from '@/lib/db';
-import { quizQuestions } from '@/lib/db/schema';
+import { flashcards, quizQuestions } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { withErrorHandling } from '@/lib/api/error-handler';
 import { withTracing } from '@/lib/middleware/with-tracing';
 import { validateQuizQuestionUpdate } from '@/lib/validations/quiz';
+import { recordRevision, toQuizQuestionSnapshot } from '@/lib/revisions/store';
+import { canEditContent, markContentEdited } from '@/lib/editorial/edits';
+import { PUBLISHED_CONTENT_EDIT_ERROR } from '@/lib/editorial/workflow';
+
+/**
+ * Deck of the flashcard a question belongs to, for its revision history
+ */
+async function getFlashcardDeckId(flashcardId: string): Promise<string> {
+  const flashcard = await db.query.flashcards.findFirst({
+    where: eq(flashcards.id, flashcardId),
+    columns: { deckId: true },
+  });
+  return flashcard!.deckId;
+}
 
 export const dynamic = 'force-dynamic';
 
@@ -18,7 +32,7 @@ async function updateFlashcardQuizQuestion(
   { params }: { params: Promise<{ id: string; questionId: string }> }
 ) {
   try {
-    await requireAdmin();
+    const admin = await requireAdmin();
     const { id: flashcardId, questionId } = await params;
     const body = await request.json();
 
@@ -37,6 +51,14 @@ async function updateFlashcardQuizQuestion(
       );
     }
 
+    // The question is reviewed with its flashcard
+    if (!(await canEditContent('flashcard', flashcardId))) {
+      return NextResponse.json(
+        { error: PUBLISHED_CONTENT_EDIT_ERROR },
+        { status: 409 }
+      );
+    }
+
     // Validate the update data
     const validation = validateQuizQuestionUpdate(body, false);
     if (!validation.success) {
@@ -51,6 +73,8 @@ async function updateFlashcardQuizQuestion(
     // Prepare update data with JSON stringified metadata
     const updateData = {
       questionText: validatedData.questionText,
+      questionType: validatedData.questionType,
+      imageUrl: validatedData.imageUrl || null,
       options: validatedData.options,
       explanation: validatedData.explanation || null,
       eliminationTactics: validatedData.eliminationTactics
@@ -78,10 +102,26 @@ async function updateFlashcardQuizQuestion(
       where: eq(quizQuestions.id, questionId),
     });
 
+    await recordRevision({
+      entityType: 'quiz_question',
+      entityId: questionId,
+      deckId: await getFlashcardDeckId(flashcardId),
+      action: 'update',
+      before: toQuizQuestionSnapshot(existingQuestion),
+      after: toQuizQuestionSnapshot(updated!),
+      authorId: admin.clerkUserId,
+      baselineAuthorId: existingQuestion.createdBy,
+    });
+
+    // The question is reviewed with its flashcard
+    await markContentEdited('flashcard', flashcardId);
+
     // Parse JSON fields for response
     const formattedQuestion = {
       id: updated!.id,
       questionText: updated!.questionText,
+      questionType: updated!.questionType,
+      imageUrl: updated!.imageUrl,
       options: updated!.options,
       explanation: updated!.explanation,
       eliminationTactics: updated!.eliminationTactics ? JSON.parse(updated!.eliminationTactics) : null,
@@ -126,7 +166,7 @@ async function deleteFlashcardQuizQuestion(
   { params }: { params: Promise<{ id: string; questionId: string }> }
 ) {
   try {
-    await requireAdmin();
+    const admin = await requireAdmin();
     const { id: flashcardId, questionId } = await params;
 
     // Verify the question exists and belongs to this flashcard
@@ -144,9 +184,30 @@ async function deleteFlashcardQuizQuestion(
       );
     }
 
+    // The question is reviewed with its flashcard
+    if (!(await canEditContent('flashcard', flashcardId))) {
+      return NextResponse.json(
+        { error: PUBLISHED_CONTENT_EDIT_ERROR },
+        { status: 409 }
+      );
+    }
+
     // Delete the question
     await db.delete(quizQuestions).where(eq(quizQuestions.id, questionId));
 
+    await recordRevision({
+      entityType: 'quiz_question',
+      entityId: questionId,
+      deckId: await getFlashcardDeckId(flashcardId),
+      action: 'delete',
+      before: toQuizQuestionSnapshot(existingQuestion),
+      after: null,
+      authorId: admin.clerkUserId,
+      baselineAuthorId: existingQuestion.createdBy,
+    });
+
+    await markContentEdited('flashcard', flashcardId);
+
     return NextResponse.json({
       success: true,
       message: 'Quiz question deleted successfully',
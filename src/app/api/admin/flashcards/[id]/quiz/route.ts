@@ -30,6 +30,8 @@ async function listFlashcardQuizQuestions(
     const formattedQuestions = questions.map((q) => ({
       id: q.id,
       questionText: q.questionText,
+      questionType: q.questionType,
+      imageUrl: q.imageUrl,
       options: q.options,
       explanation: q.explanation,
       eliminationTactics: q.eliminationTactics ? JSON.parse(q.eliminationTactics) : null,
@@ -4,18 +4,27 @@ import { db } from '@/lib/db';
 import { flashcards, flashcardMedia, quizQuestions } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { updateFlashcardSchema } from '@/lib/validations/flashcard';
-import { deleteMultipleImagesFromBlob } from '@/lib/blob';
 import { withErrorHandling } from '@/lib/api/error-handler';
 import { withTracing } from '@/lib/middleware/with-tracing';
 import { invalidateFlashcardCache } from '@/lib/flashcard/cache';
 import { insertQuizQuestions } from '@/lib/flashcard/quiz';
+import { rebuildProgressAggregates } from '@/lib/progress/aggregate-store';
+import {
+  getFlashcardSnapshot,
+  getQuizQuestionSnapshots,
+  recordRevisions,
+  toQuizQuestionSnapshot,
+  type RevisionChange,
+} from '@/lib/revisions/store';
+import { isSameValue } from '@/lib/revisions/diff';
+import { markContentEdited } from '@/lib/editorial/edits';
+import { isEditableStatus, PUBLISHED_CONTENT_EDIT_ERROR } from '@/lib/editorial/workflow';
 
 interface FlashcardUpdateData {
   question?: string;
   answer?: string;
   explanation?: string | null;
   order?: number;
-  isPublished?: boolean;
   updatedAt: Date;
 }
 
@@ -24,7 +33,6 @@ interface ValidatedFlashcardData {
   answer?: string;
   explanation?: string | null;
   order?: number;
-  isPublished?: boolean;
   media?: Array<{
     url: string;
     key: string;
@@ -57,46 +65,9 @@ function buildFlashcardUpdateData(validatedData: ValidatedFlashcardData): Flashc
   if (validatedData.order !== undefined) {
     updateData.order = validatedData.order;
   }
-  if (validatedData.isPublished !== undefined) {
-    updateData.isPublished = validatedData.isPublished;
-  }
-
   return updateData;
 }
 
-/**
- * Get URLs that need to be deleted from blob storage
- */
-function getUrlsToDelete(
-  oldMedia: Array<{ fileUrl: string }>,
-  newMediaUrls: string[]
-): string[] {
-  return oldMedia
-    .map((m) => m.fileUrl)
-    .filter((url) => !newMediaUrls.includes(url));
-}
-
-/**
- * Delete old media files from blob storage
- */
-async function deleteOldMediaFiles(
-  oldMedia: Array<{ fileUrl: string }>,
-  newMediaUrls: string[]
-): Promise<void> {
-  if (oldMedia.length === 0) return;
-
-  const urlsToDelete = getUrlsToDelete(oldMedia, newMediaUrls);
-
-  if (urlsToDelete.length === 0) return;
-
-  try {
-    await deleteMultipleImagesFromBlob(urlsToDelete);
-  } catch (error) {
-    console.error('Error deleting old images from blob storage:', error);
-    // Continue even if blob deletion fails
-  }
-}
-
 /**
  * Insert new media for a flashcard
  */
@@ -122,25 +93,14 @@ async function insertFlashcardMedia(
 }
 
 /**
- * Update flashcard media (delete old, insert new)
+ * Replace flashcard media
+ * Old files stay in blob storage: earlier revisions of the card still show them
  */
 async function updateFlashcardMedia(
   flashcardId: string,
   newMedia: ValidatedFlashcardData['media']
 ): Promise<void> {
-  // Get existing media before deleting
-  const oldMedia = await db.query.flashcardMedia.findMany({
-    where: eq(flashcardMedia.flashcardId, flashcardId),
-  });
-
-  // Delete existing media from database
   await db.delete(flashcardMedia).where(eq(flashcardMedia.flashcardId, flashcardId));
-
-  // Delete old images from blob storage that are no longer used
-  const newMediaUrls = newMedia?.map((m) => m.url) || [];
-  await deleteOldMediaFiles(oldMedia, newMediaUrls);
-
-  // Insert new media
   await insertFlashcardMedia(flashcardId, newMedia);
 }
 
@@ -151,28 +111,33 @@ async function updateQuizQuestions(
   flashcardId: string,
   quizData: unknown,
   userId: string
-): Promise<NextResponse | null> {
+): Promise<{ errorResponse: NextResponse | null; questions: Array<typeof quizQuestions.$inferSelect> }> {
   // Delete existing quiz questions
   await db.delete(quizQuestions).where(eq(quizQuestions.flashcardId, flashcardId));
 
   if (!quizData) {
-    return null;
+    return { errorResponse: null, questions: [] };
   }
 
   const result = await insertQuizQuestions(flashcardId, quizData, userId);
   if (!result.success) {
-    return NextResponse.json(
-      { error: result.error },
-      { status: 400 }
-    );
+    return {
+      errorResponse: NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      ),
+      questions: [],
+    };
   }
 
-  return null;
+  return { errorResponse: null, questions: result.questions ?? [] };
 }
 
 /**
  * PATCH /api/admin/flashcards/[id]
  * Update an existing flashcard with optional media and quiz questions
+ * Publishing goes through the review workflow; editing an approved card sends it back to review,
+ * and a published card has to be unpublished before it is edited
  * Admin only
  */
 async function updateFlashcard(
@@ -196,6 +161,13 @@ async function updateFlashcard(
       );
     }
 
+    if (!isEditableStatus(existingFlashcard.status)) {
+      return NextResponse.json(
+        { error: PUBLISHED_CONTENT_EDIT_ERROR },
+        { status: 409 }
+      );
+    }
+
     // Extract quiz data and media if present
     const { quizData, media, ...flashcardData } = body;
 
@@ -210,6 +182,10 @@ async function updateFlashcard(
 
     const validatedData = validation.data;
 
+    // Content before the edit, for the revision history
+    const before = await getFlashcardSnapshot(id);
+    const previousQuestions = quizData !== undefined ? await getQuizQuestionSnapshots(id) : [];
+
     // Build and apply the flashcard update
     const updateData = buildFlashcardUpdateData(validatedData);
     await db.update(flashcards)
@@ -222,11 +198,52 @@ async function updateFlashcard(
     }
 
     // Handle quiz questions if provided
+    let quizUpdate: Awaited<ReturnType<typeof updateQuizQuestions>> = { errorResponse: null, questions: [] };
     if (quizData !== undefined) {
-      const errorResponse = await updateQuizQuestions(id, quizData, admin.clerkUserId);
-      if (errorResponse) {
-        return errorResponse;
-      }
+      quizUpdate = await updateQuizQuestions(id, quizData, admin.clerkUserId);
+    }
+
+    // Replaced quiz questions are removed and new ones created
+    const after = await getFlashcardSnapshot(id);
+    const revisions: RevisionChange[] = [
+      {
+        entityType: 'flashcard',
+        entityId: id,
+        deckId: existingFlashcard.deckId,
+        action: 'update',
+        before: before!.snapshot,
+        after: after!.snapshot,
+        authorId: admin.clerkUserId,
+        baselineAuthorId: existingFlashcard.createdBy,
+      },
+      ...previousQuestions.map((question): RevisionChange => ({
+        entityType: 'quiz_question',
+        entityId: question.id,
+        deckId: existingFlashcard.deckId,
+        action: 'delete',
+        before: question.snapshot,
+        after: null,
+        authorId: admin.clerkUserId,
+        baselineAuthorId: question.createdBy,
+      })),
+      ...quizUpdate.questions.map((question): RevisionChange => ({
+        entityType: 'quiz_question',
+        entityId: question.id,
+        deckId: existingFlashcard.deckId,
+        action: 'create',
+        before: null,
+        after: toQuizQuestionSnapshot(question),
+        authorId: admin.clerkUserId,
+      })),
+    ];
+    await recordRevisions(revisions);
+
+    if (quizData !== undefined || !isSameValue(before!.snapshot, after!.snapshot)) {
+      await markContentEdited('flashcard', id);
+    }
+
+    if (quizUpdate.errorResponse) {
+      return quizUpdate.errorResponse;
     }
 
     // Invalidate cache after successful update
@@ -249,7 +266,7 @@ export const PATCH = withTracing(
 
 /**
  * DELETE /api/admin/flashcards/[id]
- * Delete a flashcard and all associated media and quiz questions
+ * Delete a flashcard and all associated media and quiz questions, keeping their revision history
  * Admin only
  */
 async function deleteFlashcard(
@@ -257,42 +274,57 @@ async function deleteFlashcard(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    await requireAdmin();
+    const admin = await requireAdmin();
     const { id } = await params;
 
-    // Check if flashcard exists and get its media
-    const existingFlashcard = await db.query.flashcards.findFirst({
-      where: eq(flashcards.id, id),
-      with: {
-        media: true,
-      },
-    });
+    // Check if flashcard exists
+    const existing = await getFlashcardSnapshot(id);
 
-    if (!existingFlashcard) {
+    if (!existing) {
       return NextResponse.json(
         { error: 'Flashcard not found' },
         { status: 404 }
       );
     }
 
-    // Delete images from blob storage first
-    if (existingFlashcard.media && existingFlashcard.media.length > 0) {
-      const imageUrls = existingFlashcard.media.map((m) => m.fileUrl);
-      try {
-        await deleteMultipleImagesFromBlob(imageUrls);
-      } catch (error) {
-        console.error('Error deleting images from blob storage:', error);
-        // Continue with database deletion even if blob deletion fails
-        // This prevents orphaned database records
-      }
-    }
+    const existingFlashcard = { deckId: existing.deckId, isPublished: existing.snapshot.isPublished === true };
+    const questions = await getQuizQuestionSnapshots(id);
 
     // Delete the flashcard (cascades to media and quiz questions in database)
+    // Its images stay in blob storage so the deleted card can be restored from its history
     await db.delete(flashcards).where(eq(flashcards.id, id));
 
+    await recordRevisions([
+      {
+        entityType: 'flashcard',
+        entityId: id,
+        deckId: existing.deckId,
+        action: 'delete',
+        before: existing.snapshot,
+        after: null,
+        authorId: admin.clerkUserId,
+        baselineAuthorId: existing.createdBy,
+      },
+      ...questions.map((question): RevisionChange => ({
+        entityType: 'quiz_question',
+        entityId: question.id,
+        deckId: existing.deckId,
+        action: 'delete',
+        before: question.snapshot,
+        after: null,
+        authorId: admin.clerkUserId,
+        baselineAuthorId: question.createdBy,
+      })),
+    ]);
+
     // Invalidate cache after successful deletion
     await invalidateFlashcardCache(existingFlashcard.deckId);
 
+    // The card's progress went with it
+    if (existingFlashcard.isPublished) {
+      await rebuildProgressAggregates({ deckId: existingFlashcard.deckId });
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Flashcard deleted successfully',
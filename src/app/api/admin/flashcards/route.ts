@@ -1,17 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/auth/admin';
 import { db } from '@/lib/db';
-import { flashcards, flashcardMedia } from '@/lib/db/schema';
+import { flashcards, flashcardMedia, quizQuestions } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { createFlashcardSchema } from '@/lib/validations/flashcard';
 import { withErrorHandling } from '@/lib/api/error-handler';
 import { withTracing } from '@/lib/middleware/with-tracing';
 import { invalidateFlashcardCache } from '@/lib/flashcard/cache';
 import { insertQuizQuestions } from '@/lib/flashcard/quiz';
+import { getFlashcardSnapshot, recordRevisions, toQuizQuestionSnapshot } from '@/lib/revisions/store';
 
 /**
  * POST /api/admin/flashcards
  * Create a new flashcard with optional media and quiz questions
+ * New cards are drafts; they reach learners once a reviewer approves them and they are published
  * Admin only
  */
 async function createFlashcard(request: NextRequest) {
@@ -40,7 +42,8 @@ async function createFlashcard(request: NextRequest) {
       answer: validatedData.answer,
       explanation: validatedData.explanation || null,
       order: validatedData.order,
-      isPublished: validatedData.isPublished,
+      isPublished: false,
+      status: 'draft',
       createdBy: admin.clerkUserId,
     }).returning();
 
@@ -62,6 +65,7 @@ async function createFlashcard(request: NextRequest) {
     }
 
     // Insert quiz questions if provided
+    let newQuestions: Array<typeof quizQuestions.$inferSelect> = [];
     if (quizData) {
       const result = await insertQuizQuestions(newFlashcard.id, quizData, admin.clerkUserId);
       if (!result.success) {
@@ -72,8 +76,32 @@ async function createFlashcard(request: NextRequest) {
           { status: 400 }
         );
       }
+      newQuestions = result.questions ?? [];
     }
 
+    // Start the revision history of the card and its questions
+    const created = await getFlashcardSnapshot(newFlashcard.id);
+    await recordRevisions([
+      {
+        entityType: 'flashcard',
+        entityId: newFlashcard.id,
+        deckId: validatedData.deckId,
+        action: 'create',
+        before: null,
+        after: created!.snapshot,
+        authorId: admin.clerkUserId,
+      },
+      ...newQuestions.map((question) => ({
+        entityType: 'quiz_question' as const,
+        entityId: question.id,
+        deckId: validatedData.deckId,
+        action: 'create' as const,
+        before: null,
+        after: toQuizQuestionSnapshot(question),
+        authorId: admin.clerkUserId,
+      })),
+    ]);
+
     // Invalidate cache after successful creation
     await invalidateFlashcardCache(validatedData.deckId);
 
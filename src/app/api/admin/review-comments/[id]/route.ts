@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/admin';
+import { setReviewCommentResolved } from '@/lib/editorial/review-store';
+import { resolveReviewCommentSchema } from '@/lib/validations/review';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+
+/**
+ * PATCH /api/admin/review-comments/[id]
+ * Resolve or reopen a review comment
+ * Body: { resolved: boolean }
+ */
+async function updateReviewComment(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = resolveReviewCommentSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const updated = await setReviewCommentResolved(id, admin.clerkUserId, validation.data.resolved);
+    if (!updated) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: validation.data.resolved ? 'Comment resolved' : 'Comment reopened',
+    });
+  } catch (error) {
+    console.error('Error updating review comment:', error);
+    throw error;
+  }
+}
+
+export const PATCH = withTracing(
+  withErrorHandling(updateReviewComment as (req: NextRequest, ...args: unknown[]) => Promise<NextResponse>, 'update admin review comment'),
+  { logRequest: true, logResponse: false }
+) as typeof updateReviewComment;
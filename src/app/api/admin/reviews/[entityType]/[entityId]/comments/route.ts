@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/admin';
+import { addReviewComment } from '@/lib/editorial/review-store';
+import { isReviewableEntityType } from '@/lib/editorial/workflow';
+import { reviewCommentSchema } from '@/lib/validations/review';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+
+/**
+ * POST /api/admin/reviews/[entityType]/[entityId]/comments
+ * Comment on a flashcard or deck quiz question, optionally on a passage of one of its fields
+ * Body: { body, field?, quote? }
+ */
+async function createReviewComment(
+  request: NextRequest,
+  { params }: { params: Promise<{ entityType: string; entityId: string }> }
+) {
+  try {
+    const admin = await requireAdmin();
+    const { entityType, entityId } = await params;
+
+    if (!isReviewableEntityType(entityType)) {
+      return NextResponse.json({ error: 'Content not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validation = reviewCommentSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const comment = await addReviewComment(entityType, entityId, admin.clerkUserId, validation.data);
+    if (!comment) {
+      return NextResponse.json({ error: 'Content not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      comment,
+    });
+  } catch (error) {
+    console.error('Error creating review comment:', error);
+    throw error;
+  }
+}
+
+export const POST = withTracing(
+  withErrorHandling(createReviewComment as (req: NextRequest, ...args: unknown[]) => Promise<NextResponse>, 'create admin review comment'),
+  { logRequest: true, logResponse: false }
+) as typeof createReviewComment;
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/admin';
+import { getReviewItem, transitionWorkflow } from '@/lib/editorial/review-store';
+import { getAvailableActions, isReviewableEntityType } from '@/lib/editorial/workflow';
+import { workflowActionSchema } from '@/lib/validations/review';
+import { invalidateFlashcardCache } from '@/lib/flashcard/cache';
+import { CacheInvalidation } from '@/lib/redis/invalidation';
+import { rebuildProgressAggregates } from '@/lib/progress/aggregate-store';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+
+export const dynamic = 'force-dynamic';
+
+type ReviewItemParams = { params: Promise<{ entityType: string; entityId: string }> };
+
+/**
+ * GET /api/admin/reviews/[entityType]/[entityId]
+ * A flashcard or deck quiz question with its workflow state, review comments and the
+ * actions the current admin can take on it
+ */
+async function getReviewDetails(_request: NextRequest, { params }: ReviewItemParams) {
+  try {
+    const admin = await requireAdmin();
+    const { entityType, entityId } = await params;
+
+    if (!isReviewableEntityType(entityType)) {
+      return NextResponse.json({ error: 'Content not found' }, { status: 404 });
+    }
+
+    const item = await getReviewItem(entityType, entityId);
+    if (!item) {
+      return NextResponse.json({ error: 'Content not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      item,
+      availableActions: getAvailableActions(item.state, admin.clerkUserId),
+      currentUserId: admin.clerkUserId,
+    });
+  } catch (error) {
+    console.error('Error fetching review item:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(getReviewDetails as (req: NextRequest, ...args: unknown[]) => Promise<NextResponse>, 'get admin review item'),
+  { logRequest: true, logResponse: false }
+) as typeof getReviewDetails;
+
+/**
+ * PATCH /api/admin/reviews/[entityType]/[entityId]
+ * Move an item through the workflow: submit, withdraw, approve, request_changes, publish or unpublish
+ * Body: { action, reviewerId? (to submit), note? (with a decision) }
+ */
+async function updateWorkflowStatus(request: NextRequest, { params }: ReviewItemParams) {
+  try {
+    const admin = await requireAdmin();
+    const { entityType, entityId } = await params;
+
+    if (!isReviewableEntityType(entityType)) {
+      return NextResponse.json({ error: 'Content not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validation = workflowActionSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { action, reviewerId, note } = validation.data;
+    const result = await transitionWorkflow(entityType, entityId, action, admin.clerkUserId, { reviewerId, note });
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.reason === 'not_found' ? 404 : 409 }
+      );
+    }
+
+    // Publishing and unpublishing change what learners see
+    if (result.visibilityChanged) {
+      if (entityType === 'flashcard') {
+        await invalidateFlashcardCache(result.deckId);
+        await rebuildProgressAggregates({ deckId: result.deckId });
+      } else {
+        await CacheInvalidation.deck(result.deckId, result.classId);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      state: result.state,
+      availableActions: getAvailableActions(result.state, admin.clerkUserId),
+    });
+  } catch (error) {
+    console.error('Error updating workflow status:', error);
+    throw error;
+  }
+}
+
+export const PATCH = withTracing(
+  withErrorHandling(updateWorkflowStatus as (req: NextRequest, ...args: unknown[]) => Promise<NextResponse>, 'update admin workflow status'),
+  { logRequest: true, logResponse: false }
+) as typeof updateWorkflowStatus;
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/admin';
+import { getReviewers } from '@/lib/editorial/review-store';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/reviews/reviewers
+ * Admins content can be submitted to for review, other than the current admin
+ */
+async function listReviewers() {
+  try {
+    const admin = await requireAdmin();
+    const reviewers = await getReviewers();
+
+    return NextResponse.json({
+      success: true,
+      reviewers: reviewers.filter((reviewer) => reviewer.clerkUserId !== admin.clerkUserId),
+    });
+  } catch (error) {
+    console.error('Error fetching reviewers:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(listReviewers, 'list admin reviewers'),
+  { logRequest: true, logResponse: false }
+);
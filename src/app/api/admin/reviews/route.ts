@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/admin';
+import { getReviewQueue } from '@/lib/editorial/review-store';
+import { reviewQueueQuerySchema } from '@/lib/validations/review';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/reviews
+ * Flashcards and deck quiz questions waiting for a reviewer's decision (admin only)
+ * Query params:
+ * - scope: 'mine' (default) for items assigned to the current admin, 'all' for every reviewer's
+ */
+async function listReviewQueue(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    const { searchParams } = new URL(request.url);
+
+    const validation = reviewQueueQuerySchema.safeParse({
+      scope: searchParams.get('scope') ?? undefined,
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const items = await getReviewQueue(validation.data.scope === 'mine' ? admin.clerkUserId : undefined);
+
+    return NextResponse.json({
+      success: true,
+      items,
+      currentUserId: admin.clerkUserId,
+    });
+  } catch (error) {
+    console.error('Error fetching review queue:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(listReviewQueue, 'list admin review queue'),
+  { logRequest: true, logResponse: false }
+);
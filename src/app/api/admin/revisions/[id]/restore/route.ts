@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth/admin';
+import { db } from '@/lib/db';
+import { decks } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { restoreRevision } from '@/lib/revisions/store';
+import { invalidateFlashcardCache } from '@/lib/flashcard/cache';
+import { CacheInvalidation } from '@/lib/redis/invalidation';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+
+/**
+ * POST /api/admin/revisions/[id]/restore
+ * Restore a flashcard or quiz question to a revision, re-creating it if it was deleted
+ * Admin only
+ */
+async function restoreContentRevision(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin();
+    const { id } = await params;
+
+    const result = await restoreRevision(id, admin.clerkUserId);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.reason === 'not_found' ? 404 : 409 }
+      );
+    }
+
+    // Invalidate cache for the restored content
+    if (result.entityType === 'deck_quiz_question') {
+      const deck = await db.query.decks.findFirst({
+        where: eq(decks.id, result.deckId),
+        columns: { classId: true },
+      });
+      if (deck?.classId) {
+        await CacheInvalidation.deck(result.deckId, deck.classId);
+      }
+    } else {
+      await invalidateFlashcardCache(result.deckId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      entityType: result.entityType,
+      entityId: result.entityId,
+      message: 'Revision restored successfully',
+    });
+  } catch (error) {
+    console.error('Error restoring revision:', error);
+    throw error;
+  }
+}
+
+export const POST = withTracing(
+  withErrorHandling(
+    restoreContentRevision as (req: NextRequest, ...args: unknown[]) => Promise<NextResponse>,
+    'restore admin content revision'
+  ),
+  { logRequest: true, logResponse: false }
+) as typeof restoreContentRevision;
@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
-import { classes, decks, flashcards, userCardProgress } from '@/lib/db/schema';
-import { eq, and, inArray, asc } from 'drizzle-orm';
+import { classes, decks, flashcards } from '@/lib/db/schema';
+import { eq, asc } from 'drizzle-orm';
 import { cache } from '@/lib/redis';
 import { CacheKeys, CacheTTL } from '@/lib/redis/cache-keys';
 import { createApiTimer, addTimingHeaders, formatTimingLog, timeAsync } from '@/lib/api-timing';
 import { withErrorHandling } from '@/lib/api/error-handler';
 import { withTracing } from '@/lib/middleware/with-tracing';
+import { getDeckAggregates } from '@/lib/progress/aggregate-store';
+import { getCardsStudied } from '@/lib/progress/aggregates';
 
 // GET /api/classes/:id - Get a specific class with its decks (public for logged-in users)
 async function getClass(
@@ -78,39 +80,20 @@ async function getClass(
       return NextResponse.json({ error: 'Class not found' }, { status: 404 });
     }
 
-    // Calculate progress for each deck
-    // OPTIMIZATION: Fetch all user progress in a single query instead of N queries
-    const allFlashcardIds = classData.decks.flatMap((deck) =>
-      deck.flashcards.map((card) => card.id)
+    // Cards studied per deck come from the deck progress aggregates
+    const deckAggregates = await timeAsync(
+      timer,
+      () => getDeckAggregates(userId, classData.decks.map((deck) => deck.id)),
+      'db'
     );
 
-    // Single batch query for all progress records
-    const allProgressRecords = allFlashcardIds.length > 0
-      ? await timeAsync(
-          timer,
-          async () => db
-            .select()
-            .from(userCardProgress)
-            .where(
-              and(
-                eq(userCardProgress.clerkUserId, userId),
-                inArray(userCardProgress.flashcardId, allFlashcardIds)
-              )
-            ),
-          'db'
-        )
-      : [];
-
-    // Create a Set for O(1) lookup
-    const studiedCardIds = new Set(allProgressRecords.map((record) => record.flashcardId));
-
     // Calculate progress for each deck (now in-memory, no DB queries)
     const decksWithProgress = classData.decks.map((deck) => {
-      const flashcardIds = deck.flashcards.map((card) => card.id);
-      const totalCards = flashcardIds.length;
+      const totalCards = deck.flashcards.length;
 
       // Count how many cards in this deck are studied
-      const studiedCount = flashcardIds.filter((id) => studiedCardIds.has(id)).length;
+      const aggregate = deckAggregates.get(deck.id);
+      const studiedCount = aggregate ? Math.min(totalCards, getCardsStudied(aggregate)) : 0;
       const progress = totalCards > 0 ? Math.round((studiedCount / totalCards) * 100) : 0;
 
       return {
@@ -2,10 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
 import { classes, decks, flashcards, userCardProgress } from '@/lib/db/schema';
-import { eq, and, inArray } from 'drizzle-orm';
+import { eq, and, asc, inArray } from 'drizzle-orm';
 import { withErrorHandling } from '@/lib/api/error-handler';
 import { withTracing } from '@/lib/middleware/with-tracing';
 import { randomBytes } from 'crypto';
+import { getSchedulingState, getCurrentRetrievability } from '@/lib/spaced-repetition/scheduler';
+import {
+  getDeckEntitlement,
+  isDeckLocked,
+  takeTeaser,
+  buildUpgradeRequired,
+  upgradeRequiredResponse,
+  type UpgradeRequired,
+} from '@/lib/entitlements';
 
 type FlashcardWithMeta = {
   id: string;
@@ -17,21 +26,19 @@ type ProgressRecord = {
   confidenceLevel: number | null;
   nextReviewDate: Date | null;
   lastSeen: Date | null;
+  easeFactor: string | null;
+  stability: string | null;
+  intervalDays: string | null;
+  lastIntervalDays: string | null;
+  lapses: number | null;
   [key: string]: unknown;
 };
 
 /**
- * Check if card has low confidence level
- */
-function hasLowConfidence(progress: ProgressRecord): boolean {
-  return progress.confidenceLevel !== null && progress.confidenceLevel < 4;
-}
-
-/**
- * Check if card is due for review
+ * Check if card is due for review (cards never scheduled are always due)
  */
 function isDueForReview(progress: ProgressRecord, now: Date): boolean {
-  return progress.nextReviewDate !== null && new Date(progress.nextReviewDate) <= now;
+  return progress.nextReviewDate === null || new Date(progress.nextReviewDate) <= now;
 }
 
 /**
@@ -46,8 +53,16 @@ function shouldIncludeInProgressiveMode(
     return true;
   }
 
-  // Cards with low confidence or due for review
-  return hasLowConfidence(progress) || isDueForReview(progress, now);
+  // Cards the scheduler has marked as due
+  return isDueForReview(progress, now);
+}
+
+/**
+ * Estimated probability the user still remembers a studied card
+ */
+function getRecallProbability(progress: ProgressRecord, now: Date): number {
+  const { stability } = getSchedulingState(progress);
+  return getCurrentRetrievability(stability, progress.lastSeen, now);
 }
 
 /**
@@ -72,7 +87,8 @@ function shuffleArray<T>(array: T[]): T[] {
 function sortCardsForProgressiveMode(
   a: FlashcardWithMeta,
   b: FlashcardWithMeta,
-  progressMap: Map<string, ProgressRecord>
+  progressMap: Map<string, ProgressRecord>,
+  now: Date
 ): number {
   const progressA = progressMap.get(a.id);
   const progressB = progressMap.get(b.id);
@@ -80,19 +96,10 @@ function sortCardsForProgressiveMode(
   // Cards not studied come first
   if (!progressA && progressB) return -1;
   if (progressA && !progressB) return 1;
-  if (!progressA && !progressB) return 0;
-
-  // Then by confidence level (lowest first)
-  const confidenceA = progressA?.confidenceLevel ?? 0;
-  const confidenceB = progressB?.confidenceLevel ?? 0;
-  if (confidenceA !== confidenceB) {
-    return confidenceA - confidenceB;
-  }
+  if (!progressA || !progressB) return 0;
 
-  // Then by last seen (oldest first)
-  const dateA = progressA?.lastSeen ? new Date(progressA.lastSeen).getTime() : 0;
-  const dateB = progressB?.lastSeen ? new Date(progressB.lastSeen).getTime() : 0;
-  return dateA - dateB;
+  // Then by recall probability (most likely forgotten first)
+  return getRecallProbability(progressA, now) - getRecallProbability(progressB, now);
 }
 
 /**
@@ -110,7 +117,7 @@ function applyStudyMode(
         shouldIncludeInProgressiveMode(progressMap.get(card.id), now)
       );
 
-      studyCards.sort((a, b) => sortCardsForProgressiveMode(a, b, progressMap));
+      studyCards.sort((a, b) => sortCardsForProgressiveMode(a, b, progressMap, now));
 
       // If no cards need review, show all cards (user has mastered everything)
       return studyCards.length === 0 ? allFlashcards : studyCards;
@@ -199,6 +206,7 @@ async function fetchClassWithDecks(classId: string, selectedDeckIds: string[] |
     with: {
       flashcards: {
         where: eq(flashcards.isPublished, true),
+        orderBy: [asc(flashcards.order)],
         with: {
           media: true,
         },
@@ -209,6 +217,31 @@ async function fetchClassWithDecks(classId: string, selectedDeckIds: string[] |
   return { classData, classDecks };
 }
 
+/**
+ * Cut premium decks the user cannot open down to their teaser cards
+ */
+async function applyPremiumGating<T extends { id: string; name: string; isPremium: boolean | null; flashcards: unknown[] }>(
+  classDecks: T[]
+): Promise<{ studyDecks: T[]; upgradeRequired: UpgradeRequired | null; allLocked: boolean }> {
+  const entitlement = await getDeckEntitlement(classDecks);
+  const lockedDecks = classDecks.filter(deck => isDeckLocked(entitlement, deck.id));
+
+  if (lockedDecks.length === 0) {
+    return { studyDecks: classDecks, upgradeRequired: null, allLocked: false };
+  }
+
+  return {
+    studyDecks: classDecks.map(deck =>
+      isDeckLocked(entitlement, deck.id) ? { ...deck, flashcards: takeTeaser(deck.flashcards) } : deck
+    ),
+    upgradeRequired: buildUpgradeRequired(
+      entitlement,
+      lockedDecks.map(deck => ({ id: deck.id, name: deck.name, totalCards: deck.flashcards.length }))
+    ),
+    allLocked: lockedDecks.length === classDecks.length,
+  };
+}
+
 /**
  * Fetch user progress for flashcards
  */
@@ -242,6 +275,7 @@ function createEmptyResponse(mode: string, classData: { name: string; id: string
  * GET /api/classes/[id]/study?mode=progressive|random|all&decks=deck1,deck2
  * Get flashcards for studying a class based on the selected mode
  * Optional: Filter by specific deck IDs (comma-separated)
+ * Premium decks contribute only teaser cards for free users, flagged with upgrade_required
  */
 async function getClassStudyCards(
   request: NextRequest,
@@ -268,8 +302,10 @@ async function getClassStudyCards(
       return createEmptyResponse(mode, classData);
     }
 
+    const { studyDecks, upgradeRequired, allLocked } = await applyPremiumGating(classDecks);
+
     // Flatten all flashcards from all decks
-    const allFlashcards = flattenDeckFlashcards(classDecks, classData.name);
+    const allFlashcards = flattenDeckFlashcards(studyDecks, classData.name);
 
     if (allFlashcards.length === 0) {
       return createEmptyResponse(mode, classData);
@@ -282,14 +318,21 @@ async function getClassStudyCards(
     // Apply study mode logic
     const studyCards = applyStudyMode(mode, allFlashcards, progressMap);
 
-    return NextResponse.json({
+    const responseData = {
       flashcards: studyCards,
       mode,
       className: classData.name,
       classId: classData.id,
       totalCards: allFlashcards.length,
       studyCardsCount: studyCards.length,
-    });
+    };
+
+    // Every selected deck is locked: the teaser comes back with the upgrade_required error
+    if (upgradeRequired && allLocked) {
+      return upgradeRequiredResponse(upgradeRequired, responseData);
+    }
+
+    return NextResponse.json({ ...responseData, upgradeRequired });
 
   } catch (error) {
     console.error('Error fetching study cards:', error);
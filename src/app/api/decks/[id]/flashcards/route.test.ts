@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    query: {
+      decks: {
+        findFirst: vi.fn(),
+      },
+      flashcards: {
+        findMany: vi.fn(),
+      },
+    },
+  },
+}));
+
+vi.mock('@/lib/redis', () => ({
+  cache: {
+    get: vi.fn(),
+    set: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock('@/lib/subscription', () => ({
+  hasPaidAccess: vi.fn(),
+  getUserPlan: vi.fn(),
+}));
+
+const { db } = await import('@/lib/db');
+const { auth } = await import('@clerk/nextjs/server');
+const { cache } = await import('@/lib/redis');
+const { hasPaidAccess, getUserPlan } = await import('@/lib/subscription');
+
+function createRequest() {
+  return new NextRequest(new URL('http://localhost/api/decks/deck-1/flashcards'));
+}
+
+function makeCards(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `card-${i + 1}`,
+    question: `Question ${i + 1}`,
+    answer: `Answer ${i + 1}`,
+    explanation: null,
+    media: [],
+  }));
+}
+
+function mockDeck(isPremium: boolean) {
+  (db.query.decks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+    id: 'deck-1',
+    name: 'Security Models',
+    description: null,
+    classId: 'class-1',
+    isPremium,
+    class: { name: 'CISSP' },
+  });
+  (db.query.flashcards.findMany as ReturnType<typeof vi.fn>).mockResolvedValue(makeCards(5));
+}
+
+async function callRoute() {
+  const { GET } = await import('./route');
+  return GET(createRequest(), { params: Promise.resolve({ id: 'deck-1' }) });
+}
+
+describe('/api/decks/[id]/flashcards', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (cache.get as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+    (cache.set as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+  });
+
+  it('returns every card of a free deck without checking the plan', async () => {
+    mockDeck(false);
+
+    const res = await callRoute();
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.flashcards).toHaveLength(5);
+    expect(hasPaidAccess).not.toHaveBeenCalled();
+  });
+
+  it('returns only teaser cards and upgrade_required for a free user on a premium deck', async () => {
+    mockDeck(true);
+    (hasPaidAccess as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+    (getUserPlan as ReturnType<typeof vi.fn>).mockResolvedValue('free');
+
+    const res = await callRoute();
+    const body = await res.json();
+
+    expect(res.status).toBe(403);
+    expect(body.code).toBe('upgrade_required');
+    expect(body.plan).toBe('free');
+    expect(body.flashcards).toHaveLength(3);
+    expect(body.lockedDecks).toEqual([{ id: 'deck-1', name: 'Security Models', totalCards: 5 }]);
+    expect(res.headers.get('Cache-Control')).toContain('private');
+  });
+
+  it('tells users with an expired plan to renew', async () => {
+    mockDeck(true);
+    (hasPaidAccess as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+    (getUserPlan as ReturnType<typeof vi.fn>).mockResolvedValue('expired');
+
+    const res = await callRoute();
+    const body = await res.json();
+
+    expect(res.status).toBe(403);
+    expect(body.plan).toBe('expired');
+    expect(body.error).toMatch(/expired/);
+  });
+
+  it('returns the full premium deck to paid users', async () => {
+    mockDeck(true);
+    (hasPaidAccess as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+    (getUserPlan as ReturnType<typeof vi.fn>).mockResolvedValue('pro_yearly');
+
+    const res = await callRoute();
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.flashcards).toHaveLength(5);
+  });
+
+  it('gates cached premium decks too', async () => {
+    (cache.get as ReturnType<typeof vi.fn>).mockResolvedValue({
+      deck: {
+        id: 'deck-1',
+        name: 'Security Models',
+        description: null,
+        classId: 'class-1',
+        className: 'CISSP',
+        isPremium: true,
+      },
+      flashcards: makeCards(5),
+      total: 5,
+    });
+    (hasPaidAccess as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+    (getUserPlan as ReturnType<typeof vi.fn>).mockResolvedValue('free');
+
+    const res = await callRoute();
+    const body = await res.json();
+
+    expect(res.status).toBe(403);
+    expect(res.headers.get('X-Cache')).toBe('HIT');
+    expect(body.flashcards).toHaveLength(3);
+    expect(db.query.decks.findFirst).not.toHaveBeenCalled();
+  });
+});
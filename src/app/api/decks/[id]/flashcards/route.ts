@@ -5,10 +5,52 @@ import { decks, flashcards, flashcardMedia } from '@/lib/db/schema';
 import { eq, and, asc } from 'drizzle-orm';
 import { cache } from '@/lib/redis';
 import { CacheKeys, CacheTTL } from '@/lib/redis/cache-keys';
+import {
+  getDeckEntitlement,
+  isDeckLocked,
+  takeTeaser,
+  buildUpgradeRequired,
+  upgradeRequiredResponse,
+} from '@/lib/entitlements';
+
+interface DeckFlashcardsData {
+  deck: {
+    id: string;
+    name: string;
+    description: string | null;
+    classId: string;
+    className: string;
+    isPremium: boolean;
+  };
+  flashcards: unknown[];
+  total: number;
+}
+
+/**
+ * Respond with the deck's cards, or only the teaser plus upgrade_required when the deck is locked
+ */
+async function respondWithEntitlement(data: DeckFlashcardsData, cacheStatus: 'HIT' | 'MISS') {
+  const entitlement = await getDeckEntitlement([data.deck]);
+
+  const response = isDeckLocked(entitlement, data.deck.id)
+    ? upgradeRequiredResponse(
+        buildUpgradeRequired(entitlement, [
+          { id: data.deck.id, name: data.deck.name, totalCards: data.total },
+        ]),
+        { ...data, flashcards: takeTeaser(data.flashcards) }
+      )
+    : NextResponse.json(data);
+
+  response.headers.set('X-Cache', cacheStatus);
+  // Short cache to show updates faster; private because the body depends on the user's plan
+  response.headers.set('Cache-Control', 'private, max-age=10, must-revalidate');
+  return response;
+}
 
 /**
  * GET /api/decks/[id]/flashcards
  * Get all flashcards for a specific deck
+ * Premium decks return only a teaser with an upgrade_required error for free users
  */
 export async function GET(
   _request: NextRequest,
@@ -25,25 +67,11 @@ export async function GET(
 
     // Try to get from cache first
     const cacheKey = CacheKeys.deck.flashcards(id);
-    const cachedData = await cache.get<{
-      deck: {
-        id: string;
-        name: string;
-        description: string | null;
-        classId: string;
-        className: string;
-      };
-      flashcards: unknown[];
-      total: number;
-    }>(cacheKey);
-
-    if (cachedData) {
-      const response = NextResponse.json(cachedData);
-      response.headers.set('X-Cache', 'HIT');
-      // Reduce cache duration to 10 seconds to show updates faster
-      // Use must-revalidate to ensure fresh data after cache expires
-      response.headers.set('Cache-Control', 'public, s-maxage=10, must-revalidate');
-      return response;
+    const cachedData = await cache.get<DeckFlashcardsData>(cacheKey);
+
+    // Entries cached before premium gating lack isPremium and are refetched
+    if (cachedData && typeof cachedData.deck.isPremium === 'boolean') {
+      return respondWithEntitlement(cachedData, 'HIT');
     }
 
     // Cache miss - fetch from database
@@ -92,13 +120,14 @@ export async function GET(
       })),
     }));
 
-    const responseData = {
+    const responseData: DeckFlashcardsData = {
       deck: {
         id: deck.id,
         name: deck.name,
         description: deck.description,
         classId: deck.classId,
         className: deck.class.name,
+        isPremium: deck.isPremium === true,
       },
       flashcards: formattedFlashcards,
       total: formattedFlashcards.length,
@@ -109,12 +138,7 @@ export async function GET(
       console.error('Failed to cache deck flashcards:', error);
     });
 
-    const response = NextResponse.json(responseData);
-    response.headers.set('X-Cache', 'MISS');
-    // Reduce cache duration to 10 seconds to show updates faster
-    // Use must-revalidate to ensure fresh data after cache expires
-    response.headers.set('Cache-Control', 'public, s-maxage=10, must-revalidate');
-    return response;
+    return respondWithEntitlement(responseData, 'MISS');
 
   } catch (error) {
     console.error('Error fetching deck flashcards:', error);
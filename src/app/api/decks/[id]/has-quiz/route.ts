@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { deckQuizQuestions } from '@/lib/db/schema';
-import { eq, count } from 'drizzle-orm';
+import { and, eq, count } from 'drizzle-orm';
 
 export const dynamic = 'force-dynamic';
 
 /**
  * GET /api/decks/[id]/has-quiz
- * Check if a deck has quiz questions
+ * Check if a deck has published quiz questions
  * Used to show/hide the "Take Deck Test" button
  *
  * Public endpoint (no auth required) for performance
@@ -19,11 +19,11 @@ export async function GET(
   try {
     const { id: deckId } = await params;
 
-    // Count quiz questions for this deck
+    // Count published quiz questions for this deck
     const result = await db
       .select({ count: count() })
       .from(deckQuizQuestions)
-      .where(eq(deckQuizQuestions.deckId, deckId));
+      .where(and(eq(deckQuizQuestions.deckId, deckId), eq(deckQuizQuestions.status, 'published')));
 
     const questionCount = result[0]?.count || 0;
     const hasQuiz = questionCount > 0;
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    query: {
+      decks: {
+        findFirst: vi.fn(),
+      },
+      deckQuizQuestions: {
+        findMany: vi.fn(),
+      },
+    },
+  },
+}));
+
+vi.mock('@/lib/subscription', () => ({
+  hasPaidAccess: vi.fn(),
+  getUserPlan: vi.fn(),
+}));
+
+const { db } = await import('@/lib/db');
+const { auth } = await import('@clerk/nextjs/server');
+const { hasPaidAccess, getUserPlan } = await import('@/lib/subscription');
+const { GET } = await import('./route');
+
+// Stored in the correct order, which is the answer key
+const ORDERING_OPTIONS = [
+  { id: 'identify', text: 'Identify assets', isCorrect: false },
+  { id: 'assess', text: 'Assess risk', isCorrect: false },
+  { id: 'treat', text: 'Treat risk', isCorrect: false },
+  { id: 'monitor', text: 'Monitor', isCorrect: false },
+];
+
+function getQuiz() {
+  return GET(new NextRequest(new URL('http://localhost/api/decks/deck-1/quiz')), {
+    params: Promise.resolve({ id: 'deck-1' }),
+  });
+}
+
+describe('GET /api/decks/[id]/quiz', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (hasPaidAccess as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+    (getUserPlan as ReturnType<typeof vi.fn>).mockResolvedValue('free');
+    (db.query.decks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: 'deck-1',
+      name: 'Risk',
+      isPremium: false,
+    });
+    (db.query.deckQuizQuestions.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      {
+        id: 'q1',
+        questionText: 'Put the risk management steps in order',
+        questionType: 'ordering',
+        imageUrl: null,
+        options: ORDERING_OPTIONS,
+        order: 0,
+        difficulty: 2,
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns 401 when unauthenticated', async () => {
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: null });
+
+    const res = await getQuiz();
+
+    expect(res.status).toBe(401);
+  });
+
+  it('never sends ordering options in their stored, correct order', async () => {
+    // A shuffle that happens to leave every option in place
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+
+    const res = await getQuiz();
+    const body = await res.json();
+    const [question] = body.questions;
+
+    expect(res.status).toBe(200);
+    expect(question.options.map((option: { id: string }) => option.id)).not.toEqual(
+      ORDERING_OPTIONS.map((option) => option.id)
+    );
+    expect(question.options.map((option: { id: string }) => option.id).sort()).toEqual(
+      ORDERING_OPTIONS.map((option) => option.id).sort()
+    );
+    expect(question.options[0]).not.toHaveProperty('isCorrect');
+  });
+});
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
-import { deckQuizQuestions } from '@/lib/db/schema';
-import { eq, asc } from 'drizzle-orm';
+import { decks, deckQuizQuestions } from '@/lib/db/schema';
+import { and, eq, asc } from 'drizzle-orm';
+import { toPublicQuestionFields } from '@/lib/quiz/grading';
+import { getDeckEntitlement, isDeckLocked, buildUpgradeRequired, upgradeRequiredResponse } from '@/lib/entitlements';
 
 export const dynamic = 'force-dynamic';
 
@@ -10,6 +12,7 @@ export const dynamic = 'force-dynamic';
  * GET /api/decks/[id]/quiz
  * Fetch all quiz questions for a deck
  * Used by users when taking a deck test
+ * The answer key and explanations are only revealed by POST /api/quiz-sessions/answer
  */
 export async function GET(
   request: NextRequest,
@@ -24,9 +27,25 @@ export async function GET(
 
     const { id: deckId } = await params;
 
-    // Fetch quiz questions for the deck ordered by order field
+    // Premium deck tests are not previewed for free users
+    const deck = await db.query.decks.findFirst({
+      where: eq(decks.id, deckId),
+      columns: { id: true, name: true, isPremium: true },
+    });
+
+    if (deck) {
+      const entitlement = await getDeckEntitlement([deck]);
+      if (isDeckLocked(entitlement, deck.id)) {
+        return upgradeRequiredResponse(
+          buildUpgradeRequired(entitlement, [{ id: deck.id, name: deck.name }]),
+          { success: false, questions: [] }
+        );
+      }
+    }
+
+    // Fetch published quiz questions for the deck ordered by order field
     const questions = await db.query.deckQuizQuestions.findMany({
-      where: eq(deckQuizQuestions.deckId, deckId),
+      where: and(eq(deckQuizQuestions.deckId, deckId), eq(deckQuizQuestions.status, 'published')),
       orderBy: [asc(deckQuizQuestions.order)],
     });
 
@@ -38,29 +57,13 @@ export async function GET(
       });
     }
 
-    // Helper function to safely parse JSON strings
-    const safeJsonParse = (str: string | null): Record<string, string> | null => {
-      if (!str) return null;
-      try {
-        const parsed = JSON.parse(str);
-        return typeof parsed === 'object' ? parsed : null;
-      } catch {
-        return null;
-      }
-    };
-
-    // Return questions without exposing sensitive fields like createdBy
+    // Return questions without the answer key or sensitive fields like createdBy
     return NextResponse.json({
       success: true,
       questions: questions.map((q) => ({
         id: q.id,
         questionText: q.questionText,
-        options: q.options, // Already in JSON format: [{text, isCorrect}]
-        explanation: q.explanation,
-        eliminationTactics: safeJsonParse(q.eliminationTactics),
-        correctAnswerWithJustification: safeJsonParse(q.correctAnswerWithJustification),
-        compareRemainingOptionsWithJustification: safeJsonParse(q.compareRemainingOptionsWithJustification),
-        correctOptionsJustification: safeJsonParse(q.correctOptionsJustification),
+        ...toPublicQuestionFields(q),
         order: q.order,
         difficulty: q.difficulty,
       })),
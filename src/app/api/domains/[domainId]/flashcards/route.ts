@@ -5,11 +5,61 @@ import { classes, decks, flashcards, flashcardMedia } from '@/lib/db/schema';
 import { eq, asc } from 'drizzle-orm';
 import { cache } from '@/lib/redis';
 import { CacheKeys, CacheTTL } from '@/lib/redis/cache-keys';
+import {
+  getDeckEntitlement,
+  isDeckLocked,
+  takeTeaser,
+  buildUpgradeRequired,
+  upgradeRequiredResponse,
+} from '@/lib/entitlements';
+
+interface DomainFlashcardsData {
+  domain: { id: string; name: string; description: string | null };
+  decks: Array<{ id: string; name: string; isPremium: boolean }>;
+  flashcards: Array<{ deckId: string; [key: string]: unknown }>;
+  totalCards: number;
+}
+
+/**
+ * Respond with the class's cards, cutting premium decks the user cannot open down to a teaser
+ */
+async function respondWithEntitlement(data: DomainFlashcardsData, cacheStatus: 'HIT' | 'MISS') {
+  const entitlement = await getDeckEntitlement(data.decks);
+  const lockedDecks = data.decks.filter((deck) => isDeckLocked(entitlement, deck.id));
+
+  let response: NextResponse;
+
+  if (lockedDecks.length === 0) {
+    response = NextResponse.json({ ...data, upgradeRequired: null });
+  } else {
+    const visibleFlashcards = data.decks.flatMap((deck) => {
+      const deckCards = data.flashcards.filter((card) => card.deckId === deck.id);
+      return isDeckLocked(entitlement, deck.id) ? takeTeaser(deckCards) : deckCards;
+    });
+    const upgradeRequired = buildUpgradeRequired(
+      entitlement,
+      lockedDecks.map((deck) => ({
+        id: deck.id,
+        name: deck.name,
+        totalCards: data.flashcards.filter((card) => card.deckId === deck.id).length,
+      }))
+    );
+    const gatedData = { ...data, flashcards: visibleFlashcards, totalCards: visibleFlashcards.length };
+
+    response = lockedDecks.length === data.decks.length
+      ? upgradeRequiredResponse(upgradeRequired, gatedData)
+      : NextResponse.json({ ...gatedData, upgradeRequired });
+  }
+
+  response.headers.set('X-Cache', cacheStatus);
+  return response;
+}
 
 /**
  * GET /api/domains/[domainId]/flashcards
  * Fetch all flashcards for a specific class (formerly domain)
  * Note: This endpoint maintains backward compatibility by using the old "domains" naming
+ * Premium decks contribute only teaser cards for free users, flagged with upgrade_required
  */
 export async function GET(
   _request: NextRequest,
@@ -25,16 +75,11 @@ export async function GET(
 
     // Try to get from cache first
     const cacheKey = CacheKeys.domainFlashcards.all(domainId);
-    const cachedData = await cache.get<{
-      domain: { id: string; name: string; description: string | null };
-      flashcards: unknown[];
-      totalCards: number;
-    }>(cacheKey);
-
-    if (cachedData) {
-      const response = NextResponse.json(cachedData);
-      response.headers.set('X-Cache', 'HIT');
-      return response;
+    const cachedData = await cache.get<DomainFlashcardsData>(cacheKey);
+
+    // Entries cached before premium gating have no deck list and are refetched
+    if (cachedData && Array.isArray(cachedData.decks)) {
+      return respondWithEntitlement(cachedData, 'HIT');
     }
 
     // Cache miss - fetch from database
@@ -43,7 +88,6 @@ export async function GET(
       with: {
         decks: {
           orderBy: [asc(decks.order)],
-          where: eq(decks.isPremium, false), // TODO: Check user subscription for premium access
           with: {
             flashcards: {
               orderBy: [asc(flashcards.order)],
@@ -82,12 +126,17 @@ export async function GET(
       }))
     );
 
-    const responseData = {
+    const responseData: DomainFlashcardsData = {
       domain: {
         id: classItem.id,
         name: classItem.name,
         description: classItem.description,
       },
+      decks: classItem.decks.map((deck) => ({
+        id: deck.id,
+        name: deck.name,
+        isPremium: deck.isPremium === true,
+      })),
       flashcards: allFlashcards,
       totalCards: allFlashcards.length,
     };
@@ -97,9 +146,7 @@ export async function GET(
       console.error('Failed to cache domain flashcards:', error);
     });
 
-    const response = NextResponse.json(responseData);
-    response.headers.set('X-Cache', 'MISS');
-    return response;
+    return respondWithEntitlement(responseData, 'MISS');
 
   } catch (error) {
     console.error('Error fetching flashcards:', error);
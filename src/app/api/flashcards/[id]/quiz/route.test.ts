@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    query: {
+      flashcards: {
+        findFirst: vi.fn(),
+      },
+      quizQuestions: {
+        findMany: vi.fn(),
+      },
+    },
+  },
+}));
+
+vi.mock('@/lib/subscription', () => ({
+  hasPaidAccess: vi.fn(),
+  getUserPlan: vi.fn(),
+}));
+
+const { db } = await import('@/lib/db');
+const { auth } = await import('@clerk/nextjs/server');
+const { hasPaidAccess, getUserPlan } = await import('@/lib/subscription');
+const { GET } = await import('./route');
+
+function getQuiz() {
+  return GET(new NextRequest(new URL('http://localhost/api/flashcards/f1/quiz')), {
+    params: Promise.resolve({ id: 'f1' }),
+  });
+}
+
+describe('GET /api/flashcards/[id]/quiz', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (hasPaidAccess as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+    (getUserPlan as ReturnType<typeof vi.fn>).mockResolvedValue('free');
+    (db.query.quizQuestions.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      {
+        id: 'q1',
+        questionText: 'Which control is preventive?',
+        questionType: 'single_choice',
+        imageUrl: null,
+        options: [
+          { id: 'opt-a', text: 'Firewall', isCorrect: true },
+          { id: 'opt-b', text: 'Audit log', isCorrect: false },
+        ],
+        order: 0,
+      },
+    ]);
+  });
+
+  it('returns the questions of a published flashcard without the answer key', async () => {
+    (db.query.flashcards.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: 'f1',
+      deck: { id: 'deck-1', name: 'Controls', isPremium: false },
+    });
+
+    const res = await getQuiz();
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.questions).toHaveLength(1);
+    expect(body.questions[0].options[0]).not.toHaveProperty('isCorrect');
+  });
+
+  it('returns 404 without questions for a flashcard that is not published', async () => {
+    (db.query.flashcards.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+    const res = await getQuiz();
+    const body = await res.json();
+
+    expect(res.status).toBe(404);
+    expect(body.questions).toEqual([]);
+    expect(db.query.quizQuestions.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -1,47 +1,63 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
-import { quizQuestions } from '@/lib/db/schema';
-import { eq, asc } from 'drizzle-orm';
+import { flashcards, quizQuestions } from '@/lib/db/schema';
+import { and, eq, asc } from 'drizzle-orm';
+import { toPublicQuestionFields } from '@/lib/quiz/grading';
+import { getDeckEntitlement, isDeckLocked, buildUpgradeRequired, upgradeRequiredResponse } from '@/lib/entitlements';
 
 /**
  * GET /api/flashcards/[id]/quiz
- * Get quiz questions for a flashcard (public endpoint for users)
+ * Get quiz questions for a flashcard
+ * The answer key and explanations are only revealed by POST /api/quiz-sessions/answer
  */
 export async function GET(
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { id } = await params;
 
+    // Flashcard quizzes inherit their deck's premium gating, and only published flashcards are quizzed
+    const flashcard = await db.query.flashcards.findFirst({
+      where: and(eq(flashcards.id, id), eq(flashcards.status, 'published')),
+      columns: { id: true },
+      with: {
+        deck: { columns: { id: true, name: true, isPremium: true } },
+      },
+    });
+
+    if (!flashcard) {
+      return NextResponse.json({ success: false, error: 'Flashcard not found', questions: [] }, { status: 404 });
+    }
+
+    if (flashcard.deck) {
+      const entitlement = await getDeckEntitlement([flashcard.deck]);
+      if (isDeckLocked(entitlement, flashcard.deck.id)) {
+        return upgradeRequiredResponse(
+          buildUpgradeRequired(entitlement, [{ id: flashcard.deck.id, name: flashcard.deck.name }]),
+          { success: false, questions: [] }
+        );
+      }
+    }
+
     // Fetch quiz questions for this flashcard, ordered by order field
     const questions = await db.query.quizQuestions.findMany({
       where: eq(quizQuestions.flashcardId, id),
       orderBy: [asc(quizQuestions.order)],
     });
 
-    // Helper function to safely parse JSON strings
-    const safeJsonParse = (str: string | null): Record<string, string> | null => {
-      if (!str) return null;
-      try {
-        const parsed = JSON.parse(str);
-        return typeof parsed === 'object' ? parsed : null;
-      } catch {
-        return null;
-      }
-    };
-
     return NextResponse.json({
       success: true,
       questions: questions.map((q) => ({
         id: q.id,
         questionText: q.questionText,
-        options: q.options, // Already a JSON array
-        explanation: q.explanation,
-        eliminationTactics: safeJsonParse(q.eliminationTactics),
-        correctAnswerWithJustification: safeJsonParse(q.correctAnswerWithJustification),
-        compareRemainingOptionsWithJustification: safeJsonParse(q.compareRemainingOptionsWithJustification),
-        correctOptionsJustification: safeJsonParse(q.correctOptionsJustification),
+        ...toPublicQuestionFields(q),
         order: q.order,
       })),
     });
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { DAILY_CARD_LIMIT_CONFIG, getLocalDateString, getUserTimeZone } from '@/lib/daily-card-limit';
+import { buildActivityHeatmap } from '@/lib/history/activity-heatmap';
+import { getDailyActivity } from '@/lib/history/session-history';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/history/activity
+ * Calendar heatmap of the user's daily study and quiz activity over the last year,
+ * with days in the user's timezone
+ */
+async function getActivity(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const timeZone = await getUserTimeZone(userId, request.headers.get(DAILY_CARD_LIMIT_CONFIG.TIMEZONE_HEADER));
+    const today = getLocalDateString(new Date(), timeZone);
+    const activity = await getDailyActivity(userId, today);
+
+    return NextResponse.json(buildActivityHeatmap(activity, today));
+  } catch (error) {
+    console.error('Error fetching activity heatmap:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(getActivity, 'get activity heatmap'),
+  { logRequest: true, logResponse: false }
+);
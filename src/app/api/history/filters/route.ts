@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { getHistoryFilterOptions } from '@/lib/history/session-history';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/history/filters
+ * Published classes and their decks, for the history filters
+ */
+async function getFilters() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const classes = await getHistoryFilterOptions();
+
+    return NextResponse.json({ classes });
+  } catch (error) {
+    console.error('Error fetching history filters:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(getFilters, 'get history filters'),
+  { logRequest: true, logResponse: false }
+);
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({
+  db: {},
+}));
+
+vi.mock('@/lib/daily-card-limit', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/daily-card-limit')>()),
+  getUserTimeZone: vi.fn().mockResolvedValue('Europe/Paris'),
+}));
+
+vi.mock('@/lib/history/session-history', () => ({
+  getSessionHistory: vi.fn(),
+}));
+
+const { auth } = await import('@clerk/nextjs/server');
+const { getSessionHistory } = await import('@/lib/history/session-history');
+
+const CLASS_ID = '11111111-1111-4111-8111-111111111111';
+
+function createRequest(query = '') {
+  return new NextRequest(new URL(`http://localhost/api/history${query}`));
+}
+
+describe('/api/history', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (getSessionHistory as ReturnType<typeof vi.fn>).mockResolvedValue({ items: [], page: 0, hasMore: false });
+  });
+
+  it('returns 401 when unauthenticated', async () => {
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: null });
+    const { GET } = await import('./route');
+
+    const res = await GET(createRequest());
+
+    expect(res.status).toBe(401);
+  });
+
+  it('passes the filters and the user timezone to the timeline', async () => {
+    const { GET } = await import('./route');
+
+    const res = await GET(createRequest(`?type=exam&classId=${CLASS_ID}&from=2026-01-01&to=2026-01-31&page=2`));
+
+    expect(res.status).toBe(200);
+    expect(getSessionHistory).toHaveBeenCalledWith(
+      'user_1',
+      { type: 'exam', classId: CLASS_ID, from: '2026-01-01', to: '2026-01-31', page: 2 },
+      'Europe/Paris'
+    );
+  });
+
+  it('rejects an unknown session type', async () => {
+    const { GET } = await import('./route');
+
+    const res = await GET(createRequest('?type=lecture'));
+
+    expect(res.status).toBe(400);
+    expect(getSessionHistory).not.toHaveBeenCalled();
+  });
+
+  it('rejects a date range that ends before it starts', async () => {
+    const { GET } = await import('./route');
+
+    const res = await GET(createRequest('?from=2026-02-01&to=2026-01-01'));
+
+    expect(res.status).toBe(400);
+  });
+});
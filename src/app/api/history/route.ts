@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { validateQueryParams } from '@/lib/api/validate';
+import { DAILY_CARD_LIMIT_CONFIG, getUserTimeZone } from '@/lib/daily-card-limit';
+import { historyQuerySchema } from '@/lib/validations/history';
+import { getSessionHistory } from '@/lib/history/session-history';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/history?type=exam&classId=...&deckId=...&from=2026-01-01&to=2026-01-31&page=0
+ * The user's study and quiz sessions, newest first, filtered by session type, deck, class
+ * and the local dates they started on
+ */
+async function getHistory(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const filters = validateQueryParams(request, historyQuerySchema);
+    const timeZone = await getUserTimeZone(userId, request.headers.get(DAILY_CARD_LIMIT_CONFIG.TIMEZONE_HEADER));
+    const history = await getSessionHistory(userId, filters, timeZone);
+
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error('Error fetching session history:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(getHistory, 'get session history'),
+  { logRequest: true, logResponse: false }
+);
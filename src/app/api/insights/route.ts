@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { getTopicInsights } from '@/lib/quiz/topic-insights';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/insights
+ * Quiz accuracy by CISSP domain, topic and sub-topic, with trend, confidence and the weakest sub-topics
+ */
+async function getInsights() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const insights = await getTopicInsights(userId);
+
+    return NextResponse.json(insights);
+  } catch (error) {
+    console.error('Error fetching topic insights:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(getInsights, 'get topic insights'),
+  { logRequest: true, logResponse: false }
+);
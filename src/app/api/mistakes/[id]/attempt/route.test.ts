@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/daily-card-limit', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/daily-card-limit')>()),
+  getUserTimeZone: vi.fn().mockResolvedValue('UTC'),
+}));
+
+vi.mock('@/lib/activity/daily-activity', () => ({
+  recordDailyActivity: vi.fn(),
+}));
+
+const updateSet = vi.fn();
+const updateReturning = vi.fn();
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    update: vi.fn(() => ({
+      set: (values: unknown) => {
+        updateSet(values);
+        return { where: () => ({ returning: updateReturning }) };
+      },
+    })),
+  },
+}));
+
+vi.mock('@/lib/quiz/mistake-notebook', () => ({
+  getMistakeEntry: vi.fn(),
+}));
+
+const { auth } = await import('@clerk/nextjs/server');
+const { getMistakeEntry } = await import('@/lib/quiz/mistake-notebook');
+
+const ENTRY_ID = '11111111-1111-4111-8111-111111111111';
+
+function createRequest(body: unknown, id: string = ENTRY_ID) {
+  return [
+    new NextRequest(new URL(`http://localhost/api/mistakes/${id}/attempt`), {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id }) },
+  ] as const;
+}
+
+const question = {
+  id: 'q1',
+  questionText: 'Which control detects intrusions?',
+  questionType: 'single_choice',
+  imageUrl: null,
+  options: [
+    { id: 'opt-a', text: 'Firewall', isCorrect: false },
+    { id: 'opt-b', text: 'IDS', isCorrect: true },
+  ],
+  explanation: 'An IDS detects',
+  eliminationTactics: JSON.stringify({ Firewall: 'Prevents rather than detects' }),
+  correctAnswerWithJustification: JSON.stringify({ IDS: 'Detective control' }),
+  compareRemainingOptionsWithJustification: null,
+  correctOptionsJustification: null,
+  deck: { name: 'Domain 7' },
+};
+
+function dueEntry(overrides: Record<string, unknown> = {}) {
+  return {
+    id: ENTRY_ID,
+    clerkUserId: 'user_1',
+    easeFactor: '2.50',
+    stability: '3.00',
+    intervalDays: '3.00',
+    lastIntervalDays: '0.50',
+    lapses: 0,
+    consecutiveCorrect: 0,
+    lastReviewedAt: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000),
+    nextReviewDate: new Date(Date.now() - 24 * 60 * 60 * 1000),
+    retiredAt: null,
+    timesWrong: 1,
+    quizQuestion: null,
+    deckQuizQuestion: question,
+    ...overrides,
+  };
+}
+
+describe('/api/mistakes/[id]/attempt', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (getMistakeEntry as ReturnType<typeof vi.fn>).mockResolvedValue(dueEntry());
+    updateReturning.mockResolvedValue([{ id: ENTRY_ID }]);
+  });
+
+  it('returns 401 when unauthenticated', async () => {
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: null });
+    const { POST } = await import('./route');
+
+    const res = await POST(...createRequest({ response: { type: 'single_choice', optionId: 'opt-b' } }));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('returns 404 for an entry that belongs to someone else', async () => {
+    (getMistakeEntry as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+    const { POST } = await import('./route');
+
+    const res = await POST(...createRequest({ response: { type: 'single_choice', optionId: 'opt-b' } }));
+
+    expect(res.status).toBe(404);
+    expect(getMistakeEntry).toHaveBeenCalledWith('user_1', ENTRY_ID);
+  });
+
+  it('grades a correct re-attempt, extends the interval and reveals the explanation', async () => {
+    const { POST } = await import('./route');
+
+    const res = await POST(...createRequest({ response: { type: 'single_choice', optionId: 'opt-b' } }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({
+      isCorrect: true,
+      consecutiveCorrect: 1,
+      retired: false,
+      correctOptionIds: ['opt-b'],
+      eliminationTactics: { Firewall: 'Prevents rather than detects' },
+    });
+    const values = updateSet.mock.calls[0][0];
+    expect(Number(values.intervalDays)).toBeGreaterThan(3);
+    expect(values.retiredAt).toBeNull();
+    expect(values).not.toHaveProperty('lastWrongResponse');
+  });
+
+  it('retires the question after enough correct re-attempts in a row', async () => {
+    (getMistakeEntry as ReturnType<typeof vi.fn>).mockResolvedValue(dueEntry({ consecutiveCorrect: 2 }));
+    const { POST } = await import('./route');
+
+    const res = await POST(...createRequest({ response: { type: 'single_choice', optionId: 'opt-b' } }));
+    const body = await res.json();
+
+    expect(body.retired).toBe(true);
+    expect(updateSet.mock.calls[0][0].retiredAt).toBeInstanceOf(Date);
+  });
+
+  it('resets the streak and records the new wrong answer', async () => {
+    (getMistakeEntry as ReturnType<typeof vi.fn>).mockResolvedValue(dueEntry({ consecutiveCorrect: 2 }));
+    const { POST } = await import('./route');
+
+    const res = await POST(...createRequest({ response: { type: 'single_choice', optionId: 'opt-a' } }));
+    const body = await res.json();
+
+    expect(body.isCorrect).toBe(false);
+    expect(body.consecutiveCorrect).toBe(0);
+    expect(updateSet.mock.calls[0][0]).toMatchObject({
+      consecutiveCorrect: 0,
+      lastWrongResponse: { type: 'single_choice', optionId: 'opt-a' },
+    });
+  });
+
+  it('rejects re-attempts before the entry is due', async () => {
+    (getMistakeEntry as ReturnType<typeof vi.fn>).mockResolvedValue(
+      dueEntry({ nextReviewDate: new Date(Date.now() + 60_000) })
+    );
+    const { POST } = await import('./route');
+
+    const res = await POST(...createRequest({ response: { type: 'single_choice', optionId: 'opt-b' } }));
+
+    expect(res.status).toBe(409);
+    expect(updateSet).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for a response that does not fit the question', async () => {
+    const { POST } = await import('./route');
+
+    const res = await POST(...createRequest({ response: { type: 'single_choice', optionId: 'opt-z' } }));
+
+    expect(res.status).toBe(400);
+    expect(updateSet).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when a concurrent request already re-attempted the entry', async () => {
+    updateReturning.mockResolvedValue([]);
+    const { POST } = await import('./route');
+
+    const res = await POST(...createRequest({ response: { type: 'single_choice', optionId: 'opt-b' } }));
+
+    expect(res.status).toBe(409);
+  });
+});
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { mistakeNotebookEntries } from '@/lib/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { commonValidators } from '@/lib/api/validate';
+import { toProgressColumns } from '@/lib/spaced-repetition/scheduler';
+import { getAnswerReveal, gradeQuizResponse } from '@/lib/quiz/grading';
+import type { QuizResponse } from '@/lib/quiz/question-types';
+import { getMistakeEntry } from '@/lib/quiz/mistake-notebook';
+import { MISTAKE_NOTEBOOK_CONFIG, getMistakeStatus, scheduleMistakeAttempt } from '@/lib/quiz/mistake-review';
+import { DAILY_CARD_LIMIT_CONFIG, getUserTimeZone } from '@/lib/daily-card-limit';
+import { recordDailyActivity } from '@/lib/activity/daily-activity';
+
+interface MistakeAttemptRequest {
+  response: QuizResponse;
+}
+
+/**
+ * POST /api/mistakes/[id]/attempt
+ * Re-attempt a due question from the mistake notebook: grade it, reschedule it and
+ * retire it after enough correct answers in a row
+ */
+async function attemptMistake(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!commonValidators.uuid.safeParse(id).success) {
+      return NextResponse.json({ error: 'Notebook entry not found' }, { status: 404 });
+    }
+
+    const body: MistakeAttemptRequest = await request.json();
+    if (!body.response) {
+      return NextResponse.json({ error: 'response is required' }, { status: 400 });
+    }
+
+    const entry = await getMistakeEntry(userId, id);
+    const question = entry?.deckQuizQuestion ?? entry?.quizQuestion;
+    if (!entry || !question) {
+      return NextResponse.json({ error: 'Notebook entry not found' }, { status: 404 });
+    }
+
+    const now = new Date();
+    const status = getMistakeStatus(entry, now);
+    if (status === 'retired') {
+      return NextResponse.json({ error: 'This question has been retired' }, { status: 409 });
+    }
+    if (status !== 'due') {
+      return NextResponse.json({ error: 'This question is not due for a re-attempt yet' }, { status: 409 });
+    }
+
+    const isCorrect = gradeQuizResponse(question, body.response);
+    if (isCorrect === null) {
+      return NextResponse.json({ error: 'Invalid response for this question' }, { status: 400 });
+    }
+
+    const { schedule, consecutiveCorrect, retired } = scheduleMistakeAttempt(entry, isCorrect, now);
+
+    // The lastReviewedAt guard stops a double submit from counting twice
+    const [updated] = await db
+      .update(mistakeNotebookEntries)
+      .set({
+        ...toProgressColumns(schedule),
+        consecutiveCorrect,
+        lastReviewedAt: now,
+        retiredAt: retired ? now : null,
+        updatedAt: now,
+        ...(isCorrect
+          ? {}
+          : {
+              lastWrongResponse: body.response,
+              lastWrongAt: now,
+              timesWrong: sql`${mistakeNotebookEntries.timesWrong} + 1`,
+            }),
+      })
+      .where(and(eq(mistakeNotebookEntries.id, entry.id), eq(mistakeNotebookEntries.lastReviewedAt, entry.lastReviewedAt)))
+      .returning({ id: mistakeNotebookEntries.id });
+
+    if (!updated) {
+      return NextResponse.json({ error: 'This question was already re-attempted' }, { status: 409 });
+    }
+
+    const timeZone = await getUserTimeZone(userId, request.headers.get(DAILY_CARD_LIMIT_CONFIG.TIMEZONE_HEADER));
+    await recordDailyActivity(userId, { questionsAnswered: 1 }, timeZone, now);
+
+    return NextResponse.json({
+      isCorrect,
+      ...getAnswerReveal(question),
+      consecutiveCorrect,
+      retireAfter: MISTAKE_NOTEBOOK_CONFIG.RETIRE_AFTER_CORRECT,
+      retired,
+      nextReviewDate: schedule.nextReviewDate,
+    });
+  } catch (error) {
+    console.error('Error submitting mistake re-attempt:', error);
+    throw error;
+  }
+}
+
+export const POST = withTracing(
+  withErrorHandling(attemptMistake as (req: NextRequest, ...args: unknown[]) => Promise<NextResponse>, 'submit mistake re-attempt'),
+  { logRequest: true, logResponse: false }
+) as typeof attemptMistake;
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { getMistakeNotebook } from '@/lib/quiz/mistake-notebook';
+import { MISTAKE_STATUSES, type MistakeStatus } from '@/lib/quiz/mistake-review';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/mistakes?status=due&page=0
+ * The user's mistake notebook: questions answered wrong in any quiz with the previous answer,
+ * filtered to those due for a re-attempt, waiting for their next review, or retired
+ */
+async function getMistakes(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const status = request.nextUrl.searchParams.get('status') ?? 'due';
+    if (!MISTAKE_STATUSES.includes(status as MistakeStatus)) {
+      return NextResponse.json({ error: `status must be one of ${MISTAKE_STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const page = Math.max(0, parseInt(request.nextUrl.searchParams.get('page') ?? '0', 10) || 0);
+    const notebook = await getMistakeNotebook(userId, status as MistakeStatus, page);
+
+    return NextResponse.json(notebook);
+  } catch (error) {
+    console.error('Error fetching mistake notebook:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(getMistakes, 'get mistake notebook'),
+  { logRequest: true, logResponse: false }
+);
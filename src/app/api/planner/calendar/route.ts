@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { getUserTimeZone } from '@/lib/daily-card-limit';
+import { getStudyPlan } from '@/lib/planner/study-planner';
+import { buildPlanCalendar } from '@/lib/planner/plan-calendar';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/planner/calendar?tz=Europe/Berlin
+ * Download the study plan as an .ics file; tz is passed as a query parameter because
+ * this is opened as a plain link rather than fetched
+ */
+async function getPlannerCalendar(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const timeZone = await getUserTimeZone(userId, request.nextUrl.searchParams.get('tz'));
+    const result = await getStudyPlan(userId, timeZone);
+    if (!result) {
+      return NextResponse.json({ error: 'Set an exam date to create a study plan first' }, { status: 404 });
+    }
+
+    return new NextResponse(buildPlanCalendar(result.plan, userId), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="cissp-study-plan.ics"',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting study plan calendar:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(getPlannerCalendar, 'export study plan calendar'),
+  { logRequest: true, logResponse: false }
+);
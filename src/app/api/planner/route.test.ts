@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({
+  db: {},
+}));
+
+vi.mock('@/lib/daily-card-limit', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/daily-card-limit')>()),
+  getUserTimeZone: vi.fn().mockResolvedValue('UTC'),
+}));
+
+vi.mock('@/lib/planner/study-planner', () => ({
+  getStudyPlan: vi.fn(),
+  saveStudyPlanSettings: vi.fn(),
+  deleteStudyPlan: vi.fn(),
+}));
+
+const { auth } = await import('@clerk/nextjs/server');
+const { getStudyPlan, saveStudyPlanSettings } = await import('@/lib/planner/study-planner');
+
+function daysFromNow(days: number): string {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function createPutRequest(body: unknown) {
+  return new NextRequest(new URL('http://localhost/api/planner'), {
+    method: 'PUT',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/planner', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (getStudyPlan as ReturnType<typeof vi.fn>).mockResolvedValue({ settings: {}, plan: {} });
+  });
+
+  it('returns 401 when unauthenticated', async () => {
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: null });
+    const { GET } = await import('./route');
+
+    const res = await GET(new NextRequest(new URL('http://localhost/api/planner')));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('returns null settings and plan before an exam date is set', async () => {
+    (getStudyPlan as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+    const { GET } = await import('./route');
+
+    const res = await GET(new NextRequest(new URL('http://localhost/api/planner')));
+
+    expect(await res.json()).toEqual({ settings: null, plan: null });
+  });
+
+  it('saves the settings with de-duplicated, sorted study days', async () => {
+    const { PUT } = await import('./route');
+    const examDate = daysFromNow(60);
+
+    const res = await PUT(createPutRequest({ examDate, weeklyMinutes: 420, studyDays: [5, 1, 3, 1] }));
+
+    expect(res.status).toBe(200);
+    expect(saveStudyPlanSettings).toHaveBeenCalledWith(
+      'user_1',
+      { examDate, weeklyMinutes: 420, studyDays: [1, 3, 5] },
+      'UTC',
+      expect.any(Date)
+    );
+  });
+
+  it('rejects an exam date that is not in the future', async () => {
+    const { PUT } = await import('./route');
+
+    const res = await PUT(createPutRequest({ examDate: daysFromNow(0), weeklyMinutes: 420, studyDays: [1] }));
+
+    expect(res.status).toBe(400);
+    expect(saveStudyPlanSettings).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid settings', async () => {
+    const { PUT } = await import('./route');
+
+    const res = await PUT(createPutRequest({ examDate: '2026-02-30', weeklyMinutes: 420, studyDays: [] }));
+
+    expect(res.status).toBe(400);
+    expect(saveStudyPlanSettings).not.toHaveBeenCalled();
+  });
+});
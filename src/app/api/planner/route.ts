@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { validateRequest } from '@/lib/api/validate';
+import { DAILY_CARD_LIMIT_CONFIG, getLocalDateString, getUserTimeZone } from '@/lib/daily-card-limit';
+import { studyPlanSettingsSchema } from '@/lib/validations/study-plan';
+import { STUDY_PLAN_CONFIG, daysBetween } from '@/lib/planner/study-plan';
+import { deleteStudyPlan, getStudyPlan, saveStudyPlanSettings } from '@/lib/planner/study-planner';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/planner
+ * The user's planner settings and day-by-day study plan from today; both null before an exam date is set
+ */
+async function getPlanner(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const timeZone = await getUserTimeZone(userId, request.headers.get(DAILY_CARD_LIMIT_CONFIG.TIMEZONE_HEADER));
+    const result = await getStudyPlan(userId, timeZone);
+
+    return NextResponse.json(result ?? { settings: null, plan: null });
+  } catch (error) {
+    console.error('Error fetching study plan:', error);
+    throw error;
+  }
+}
+
+/**
+ * PUT /api/planner
+ * Save the exam date, weekly time budget and study days, and return the new plan
+ */
+async function savePlanner(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const settings = await validateRequest(request, studyPlanSettingsSchema);
+    const timeZone = await getUserTimeZone(userId, request.headers.get(DAILY_CARD_LIMIT_CONFIG.TIMEZONE_HEADER));
+    const now = new Date();
+
+    const daysAhead = daysBetween(getLocalDateString(now, timeZone), settings.examDate);
+    if (daysAhead < 1) {
+      return NextResponse.json({ error: 'Exam date must be in the future' }, { status: 400 });
+    }
+    if (daysAhead > STUDY_PLAN_CONFIG.MAX_PLAN_DAYS) {
+      return NextResponse.json(
+        { error: `Exam date must be within ${STUDY_PLAN_CONFIG.MAX_PLAN_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    await saveStudyPlanSettings(userId, settings, timeZone, now);
+    const result = await getStudyPlan(userId, timeZone, now);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error saving study plan:', error);
+    throw error;
+  }
+}
+
+/**
+ * DELETE /api/planner
+ * Clear the planner settings
+ */
+async function clearPlanner() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await deleteStudyPlan(userId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting study plan:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(getPlanner, 'get study plan'),
+  { logRequest: true, logResponse: false }
+);
+
+export const PUT = withTracing(
+  withErrorHandling(savePlanner, 'save study plan'),
+  { logRequest: true, logResponse: false }
+);
+
+export const DELETE = withTracing(
+  withErrorHandling(clearPlanner, 'delete study plan'),
+  { logRequest: true, logResponse: false }
+);
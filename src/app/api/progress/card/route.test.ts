@@ -6,12 +6,27 @@ vi.mock('@clerk/nextjs/server', () => ({
   auth: vi.fn(),
 }));
 
+vi.mock('@/lib/activity/daily-activity', () => ({
+  recordDailyActivity: vi.fn(),
+}));
+
 vi.mock('@/lib/db/ensure-user', () => ({
   ensureUserExists: vi.fn().mockResolvedValue(undefined),
 }));
 
-vi.mock('@/lib/db', () => ({
-  db: {
+vi.mock('@/lib/progress/aggregate-store', () => ({
+  recordCardProgressChange: vi.fn(),
+}));
+
+vi.mock('@/lib/db', async () => {
+  const db = {
+    select: vi.fn().mockReturnValue({
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      limit: vi.fn().mockReturnThis(),
+      for: vi.fn().mockResolvedValue([]),
+    }),
+    transaction: vi.fn(),
     query: {
       flashcards: {
         findFirst: vi.fn(),
@@ -19,11 +34,17 @@ vi.mock('@/lib/db', () => ({
       userCardProgress: {
         findFirst: vi.fn(),
       },
+      studySessions: {
+        findFirst: vi.fn(),
+      },
     },
     insert: vi.fn().mockReturnValue({ values: vi.fn().mockReturnThis(), returning: vi.fn().mockResolvedValue([{ id: 'p1' }]) }),
     update: vi.fn().mockReturnValue({ set: vi.fn().mockReturnThis(), where: vi.fn().mockReturnThis(), returning: vi.fn().mockResolvedValue([{ id: 'p1' }]) }),
-  },
-}));
+  };
+  // The transaction runs against the same mocks
+  db.transaction.mockImplementation((callback: (tx: typeof db) => unknown) => callback(db));
+  return { db };
+});
 
 vi.mock('@/lib/redis/invalidation', () => ({
   CacheInvalidation: {
@@ -32,8 +53,18 @@ vi.mock('@/lib/redis/invalidation', () => ({
   safeInvalidate: vi.fn().mockResolvedValue(undefined),
 }));
 
+vi.mock('@/lib/daily-card-limit', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/daily-card-limit')>()),
+  getUserTimeZone: vi.fn().mockResolvedValue('UTC'),
+  consumeDailyCard: vi.fn(),
+}));
+
 const { db } = await import('@/lib/db');
 const { auth } = await import('@clerk/nextjs/server');
+const { consumeDailyCard } = await import('@/lib/daily-card-limit');
+const { recordCardProgressChange } = await import('@/lib/progress/aggregate-store');
+
+const RESETS_AT = new Date('2030-01-02T00:00:00Z');
 
 function createRequest(body?: unknown, method: 'GET' | 'POST' = 'POST', params?: Record<string, string>) {
   let url = 'http://localhost/api/progress/card';
@@ -55,6 +86,13 @@ describe('/api/progress/card', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (consumeDailyCard as ReturnType<typeof vi.fn>).mockResolvedValue({
+      allowed: true,
+      limit: 30,
+      used: 4,
+      remaining: 26,
+      resetsAt: RESETS_AT,
+    });
   });
 
   describe('POST', () => {
@@ -112,7 +150,6 @@ describe('/api/progress/card', () => {
 
     it('creates new progress and returns it', async () => {
       (db.query.flashcards.findFirst as vi.Mock).mockResolvedValue({ id: 'f1', deck: { classId: 'c1' } });
-      (db.query.userCardProgress.findFirst as vi.Mock).mockResolvedValue(null);
       const { POST } = await import('./route');
 
       const req = createRequest({ flashcardId: 'f1', confidenceLevel: 3 }, 'POST');
@@ -122,6 +159,67 @@ describe('/api/progress/card', () => {
       expect(res.status).toBe(200);
       expect(body.success).toBe(true);
       expect(body.progress).toBeDefined();
+      expect(recordCardProgressChange).toHaveBeenCalledWith(db, expect.objectContaining({
+        userId: 'user_1',
+        flashcardId: 'f1',
+        previousStatus: null,
+        nextStatus: 'learning',
+      }));
+      expect(res.headers.get('X-DailyCards-Remaining')).toBe('26');
+      expect(res.headers.get('X-DailyCards-Reset')).toBe(RESETS_AT.toISOString());
+    });
+
+    it('records the card in a session the caller owns', async () => {
+      (db.query.flashcards.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'f1', deck: { classId: 'c1' } });
+      (db.query.studySessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 's1' });
+      const { POST } = await import('./route');
+
+      const req = createRequest({ flashcardId: 'f1', confidenceLevel: 3, sessionId: 's1' }, 'POST');
+      const res = await POST(req);
+
+      expect(res.status).toBe(200);
+      expect(db.query.studySessions.findFirst).toHaveBeenCalledTimes(1);
+      expect(db.insert).toHaveBeenCalled();
+    });
+
+    it('returns 404 without saving when the session belongs to someone else', async () => {
+      (db.query.flashcards.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'f1', deck: { classId: 'c1' } });
+      (db.query.studySessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+      const { POST } = await import('./route');
+
+      const req = createRequest({ flashcardId: 'f1', confidenceLevel: 3, sessionId: 'other-session' }, 'POST');
+      const res = await POST(req);
+      const body = await res.json();
+
+      expect(res.status).toBe(404);
+      expect(body).toEqual({ error: 'Session not found' });
+      expect(consumeDailyCard).not.toHaveBeenCalled();
+      expect(db.insert).not.toHaveBeenCalled();
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it('returns 429 without saving once the free daily limit is used up', async () => {
+      (db.query.flashcards.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'f1', deck: { classId: 'c1' } });
+      (consumeDailyCard as ReturnType<typeof vi.fn>).mockResolvedValue({
+        allowed: false,
+        limit: 30,
+        used: 30,
+        remaining: 0,
+        resetsAt: RESETS_AT,
+      });
+      const { POST } = await import('./route');
+
+      const req = createRequest({ flashcardId: 'f1', confidenceLevel: 3 }, 'POST');
+      const res = await POST(req);
+      const body = await res.json();
+
+      expect(res.status).toBe(429);
+      expect(body.code).toBe('daily_limit_reached');
+      expect(res.headers.get('X-DailyCards-Remaining')).toBe('0');
+      expect(res.headers.get('Retry-After')).not.toBeNull();
+      expect(db.insert).not.toHaveBeenCalled();
+      expect(db.update).not.toHaveBeenCalled();
+      expect(recordCardProgressChange).not.toHaveBeenCalled();
     });
   });
 
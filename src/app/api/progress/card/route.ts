@@ -1,45 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
-import { userCardProgress, flashcards, sessionCards } from '@/lib/db/schema';
+import { userCardProgress, flashcards, sessionCards, studySessions } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { CacheInvalidation, safeInvalidate } from '@/lib/redis/invalidation';
 import { withErrorHandling } from '@/lib/api/error-handler';
 import { withTracing } from '@/lib/middleware/with-tracing';
 import { ensureUserExists } from '@/lib/db/ensure-user';
-
-/**
- * Calculate mastery status based on confidence level
- */
-function calculateMasteryStatus(confidenceLevel: number): 'new' | 'learning' | 'mastered' {
-  if (confidenceLevel >= 4) return 'mastered';
-  if (confidenceLevel >= 3) return 'learning';
-  return 'new';
-}
-
-/**
- * Calculate next review date based on confidence level (spaced repetition)
- */
-function calculateNextReviewDate(confidenceLevel: number): Date {
-  const now = new Date();
-  let daysUntilReview: number;
-
-  if (confidenceLevel === 5) {
-    daysUntilReview = 7;
-  } else if (confidenceLevel === 4) {
-    daysUntilReview = 3;
-  } else if (confidenceLevel === 3) {
-    daysUntilReview = 1;
-  } else {
-    daysUntilReview = 0.5;
-  }
-
-  return new Date(now.getTime() + daysUntilReview * 24 * 60 * 60 * 1000);
-}
+import {
+  DAILY_CARD_LIMIT_CONFIG,
+  getUserTimeZone,
+  consumeDailyCard,
+  dailyLimitReachedResponse,
+  withDailyCardHeaders,
+} from '@/lib/daily-card-limit';
+import { recordDailyActivity } from '@/lib/activity/daily-activity';
+import { saveCardRating } from '@/lib/progress/card-rating';
 
 /**
  * POST /api/progress/card
  * Save or update user's progress on a specific flashcard
+ * Free users are limited to a number of cards per day (429 once used up)
  */
 async function saveCardProgress(request: NextRequest) {
   try {
@@ -81,71 +62,54 @@ async function saveCardProgress(request: NextRequest) {
       return NextResponse.json({ error: 'Flashcard not found' }, { status: 404 });
     }
 
-    // Check if user already has progress for this card
-    const existingProgress = await db.query.userCardProgress.findFirst({
-      where: and(
-        eq(userCardProgress.clerkUserId, userId),
-        eq(userCardProgress.flashcardId, flashcardId)
-      ),
-    });
+    // Only the owner of a session may record cards in it
+    if (sessionId) {
+      const session = await db.query.studySessions.findFirst({
+        where: and(eq(studySessions.id, sessionId), eq(studySessions.clerkUserId, userId)),
+        columns: { id: true },
+      });
 
-    let progress;
+      if (!session) {
+        return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+      }
+    }
 
-    const now = new Date();
-    const masteryStatus = calculateMasteryStatus(confidenceLevel);
-    const nextReviewDate = calculateNextReviewDate(confidenceLevel);
-
-    if (existingProgress) {
-      // Update existing progress
-      const newTimesSeen = (existingProgress.timesSeen || 0) + 1;
-
-      [progress] = await db
-        .update(userCardProgress)
-        .set({
-          confidenceLevel,
-          timesSeen: newTimesSeen,
-          lastSeen: now,
-          nextReviewDate,
-          masteryStatus,
-          updatedAt: now,
-        })
-        .where(eq(userCardProgress.id, existingProgress.id))
-        .returning();
-
-    } else {
-      // Create new progress record
-      [progress] = await db
-        .insert(userCardProgress)
-        .values({
-          clerkUserId: userId,
-          flashcardId,
-          confidenceLevel,
-          timesSeen: 1,
-          lastSeen: now,
-          nextReviewDate,
-          masteryStatus,
-        })
-        .returning();
+    // Count the card against the free tier daily limit before saving anything
+    const timeZone = await getUserTimeZone(userId, request.headers.get(DAILY_CARD_LIMIT_CONFIG.TIMEZONE_HEADER));
+    const allowance = await consumeDailyCard(userId, flashcardId, timeZone);
+
+    if (!allowance.allowed) {
+      return dailyLimitReachedResponse(allowance);
     }
 
+    const now = new Date();
+    const { progress, existingProgress } = await saveCardRating(userId, flashcardId, confidenceLevel, now);
+
     // If sessionId provided, also record in session_cards
     if (sessionId) {
       await db.insert(sessionCards).values({
         sessionId,
         flashcardId,
         confidenceRating: confidenceLevel,
+        previousConfidence: existingProgress?.confidenceLevel || null, // 0 means never rated
       });
     }
 
+    // Every rating counts towards the day's activity and the study streak
+    await recordDailyActivity(userId, { cardsStudied: 1 }, timeZone, now);
+
     // Invalidate related cache entries
     await safeInvalidate(() =>
       CacheInvalidation.userProgress(userId, flashcardId, flashcard.deck.classId)
     );
 
-    return NextResponse.json({
-      success: true,
-      progress,
-    });
+    return withDailyCardHeaders(
+      NextResponse.json({
+        success: true,
+        progress,
+      }),
+      allowance
+    );
 
   } catch (error) {
     console.error('Error saving card progress:', error);
@@ -6,20 +6,56 @@ vi.mock('@clerk/nextjs/server', () => ({
   auth: vi.fn(),
 }));
 
-vi.mock('@/lib/db', () => ({
-  db: {
+vi.mock('@/lib/daily-card-limit', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/daily-card-limit')>()),
+  getUserTimeZone: vi.fn().mockResolvedValue('UTC'),
+  consumeDailyCard: vi.fn(),
+}));
+
+vi.mock('@/lib/activity/daily-activity', () => ({
+  recordDailyActivity: vi.fn(),
+}));
+
+vi.mock('@/lib/progress/aggregate-store', () => ({
+  recordCardProgressChange: vi.fn(),
+}));
+
+vi.mock('@/lib/subscription', () => ({
+  hasPaidAccess: vi.fn(),
+  getUserPlan: vi.fn(),
+}));
+
+vi.mock('@/lib/db', async () => {
+  const db = {
     select: vi.fn().mockReturnValue({
       from: vi.fn().mockReturnThis(),
       where: vi.fn().mockReturnThis(),
-      limit: vi.fn().mockResolvedValue([]),
+      limit: vi.fn().mockReturnThis(),
+      for: vi.fn().mockResolvedValue([]),
     }),
-    update: vi.fn().mockReturnValue({ set: vi.fn().mockReturnThis(), where: vi.fn().mockReturnThis() }),
-    insert: vi.fn().mockReturnValue({ values: vi.fn().mockReturnThis() }),
-  },
-}));
+    update: vi.fn().mockReturnValue({ set: vi.fn().mockReturnThis(), where: vi.fn().mockReturnThis(), returning: vi.fn().mockResolvedValue([{ id: 'p1' }]) }),
+    insert: vi.fn().mockReturnValue({ values: vi.fn().mockReturnThis(), returning: vi.fn().mockResolvedValue([{ id: 'p1' }]) }),
+    transaction: vi.fn(),
+    query: {
+      flashcards: {
+        findFirst: vi.fn(),
+      },
+    },
+  };
+  // The transaction runs against the same mocks
+  db.transaction.mockImplementation((callback: (tx: typeof db) => unknown) => callback(db));
+  return { db };
+});
 
 
+const { db } = await import('@/lib/db');
 const { auth } = await import('@clerk/nextjs/server');
+const { consumeDailyCard } = await import('@/lib/daily-card-limit');
+const { hasPaidAccess, getUserPlan } = await import('@/lib/subscription');
+
+const FLASHCARD_ID = '00000000-0000-4000-8000-000000000001';
+
+const RESETS_AT = new Date('2030-01-02T00:00:00Z');
 
 function createRequest(body?: unknown) {
   const init: RequestInit = {
@@ -36,13 +72,26 @@ describe('/api/progress/update', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (consumeDailyCard as ReturnType<typeof vi.fn>).mockResolvedValue({
+      allowed: true,
+      limit: 30,
+      used: 4,
+      remaining: 26,
+      resetsAt: RESETS_AT,
+    });
+    (hasPaidAccess as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+    (getUserPlan as ReturnType<typeof vi.fn>).mockResolvedValue('free');
+    (db.query.flashcards.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: FLASHCARD_ID,
+      deck: { id: 'deck-1', name: 'Risk', isPremium: false },
+    });
   });
 
   it('returns 401 when unauthenticated', async () => {
     (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: null });
     const { POST } = await import('./route');
 
-    const req = createRequest({ flashcardId: 'f1', confidenceLevel: 3 });
+    const req = createRequest({ flashcardId: FLASHCARD_ID, confidenceLevel: 3 });
     const res = await POST(req);
     const body = await res.json();
 
@@ -57,16 +106,86 @@ describe('/api/progress/update', () => {
     const body = await res.json();
 
     expect(res.status).toBe(400);
-    expect(body).toEqual({ error: 'Missing required fields' });
+    expect(body.error).toContain('flashcardId');
+    expect(consumeDailyCard).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 without using up a daily card when confidenceLevel is out of range', async () => {
+    const { POST } = await import('./route');
+    const res = await POST(createRequest({ flashcardId: FLASHCARD_ID, confidenceLevel: 6 }));
+    const body = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(body.error).toContain('Confidence level must be between 1 and 5');
+    expect(consumeDailyCard).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 without using up a daily card for a flashcard that is missing or not published', async () => {
+    (db.query.flashcards.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+    const { POST } = await import('./route');
+    const res = await POST(createRequest({ flashcardId: FLASHCARD_ID, confidenceLevel: 3 }));
+    const body = await res.json();
+
+    expect(res.status).toBe(404);
+    expect(body).toEqual({ error: 'Flashcard not found' });
+    expect(consumeDailyCard).not.toHaveBeenCalled();
+    expect(db.transaction).not.toHaveBeenCalled();
+  });
+
+  it('asks to upgrade without using up a daily card for a premium deck on the free plan', async () => {
+    (db.query.flashcards.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: FLASHCARD_ID,
+      deck: { id: 'deck-1', name: 'Risk', isPremium: true },
+    });
+    const { POST } = await import('./route');
+    const res = await POST(createRequest({ flashcardId: FLASHCARD_ID, confidenceLevel: 3 }));
+    const body = await res.json();
+
+    expect(res.status).toBe(403);
+    expect(body.code).toBe('upgrade_required');
+    expect(consumeDailyCard).not.toHaveBeenCalled();
   });
 
   it('creates new progress when no existing record', async () => {
     const { POST } = await import('./route');
-    const req = createRequest({ flashcardId: 'f1', confidenceLevel: 3 });
+    const req = createRequest({ flashcardId: FLASHCARD_ID, confidenceLevel: 3 });
     const res = await POST(req);
     const body = await res.json();
 
     expect(res.status).toBe(200);
     expect(body).toEqual({ success: true });
+    expect(consumeDailyCard).toHaveBeenCalledWith('user_1', FLASHCARD_ID, 'UTC');
+    expect(res.headers.get('X-DailyCards-Remaining')).toBe('26');
+  });
+
+  it('schedules the next review like the current rating endpoint', async () => {
+    const { POST } = await import('./route');
+    await POST(createRequest({ flashcardId: FLASHCARD_ID, confidenceLevel: 3 }));
+
+    const values = (db.insert as ReturnType<typeof vi.fn>).mock.results[0].value.values;
+    expect(values).toHaveBeenCalledWith(expect.objectContaining({
+      masteryStatus: 'learning',
+      nextReviewDate: expect.any(Date),
+      easeFactor: expect.any(String),
+      stability: expect.any(String),
+    }));
+  });
+
+  it('returns 429 without saving once the free daily limit is used up', async () => {
+    (consumeDailyCard as ReturnType<typeof vi.fn>).mockResolvedValue({
+      allowed: false,
+      limit: 30,
+      used: 30,
+      remaining: 0,
+      resetsAt: RESETS_AT,
+    });
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ flashcardId: FLASHCARD_ID, confidenceLevel: 3 }));
+    const body = await res.json();
+
+    expect(res.status).toBe(429);
+    expect(body.code).toBe('daily_limit_reached');
+    expect(db.transaction).not.toHaveBeenCalled();
   });
 });
\ No newline at end of file
@@ -1,11 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
-import { userCardProgress } from '@/lib/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { flashcards } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
 import { withErrorHandling } from '@/lib/api/error-handler';
+import { validateRequest } from '@/lib/api/validate';
+import { updateProgressSchema } from '@/lib/validations/flashcard';
 import { withTracing } from '@/lib/middleware/with-tracing';
+import {
+  DAILY_CARD_LIMIT_CONFIG,
+  getUserTimeZone,
+  consumeDailyCard,
+  dailyLimitReachedResponse,
+  withDailyCardHeaders,
+} from '@/lib/daily-card-limit';
+import { recordDailyActivity } from '@/lib/activity/daily-activity';
+import { saveCardRating } from '@/lib/progress/card-rating';
+import { getDeckEntitlement, isDeckLocked, buildUpgradeRequired, upgradeRequiredResponse } from '@/lib/entitlements';
 
+/**
+ * POST /api/progress/update
+ * Legacy rating endpoint; saves through the same scheduler and daily card limit as /api/progress/card
+ */
 async function updateProgress(request: NextRequest) {
   try {
     const { userId } = await auth();
@@ -17,56 +33,41 @@ async function updateProgress(request: NextRequest) {
       );
     }
 
-    const body = await request.json();
-    const { flashcardId, confidenceLevel } = body;
+    const { flashcardId, confidenceLevel } = await validateRequest(request, updateProgressSchema);
 
-    if (!flashcardId || confidenceLevel === undefined) {
-      return NextResponse.json(
-        { error: 'Missing required fields' },
-        { status: 400 }
+    // Only published cards the user can open are rated, checked before a daily card is used up
+    const flashcard = await db.query.flashcards.findFirst({
+      where: and(eq(flashcards.id, flashcardId), eq(flashcards.status, 'published')),
+      columns: { id: true },
+      with: { deck: { columns: { id: true, name: true, isPremium: true } } },
+    });
+
+    if (!flashcard) {
+      return NextResponse.json({ error: 'Flashcard not found' }, { status: 404 });
+    }
+
+    const entitlement = await getDeckEntitlement([flashcard.deck]);
+    if (isDeckLocked(entitlement, flashcard.deck.id)) {
+      return upgradeRequiredResponse(
+        buildUpgradeRequired(entitlement, [{ id: flashcard.deck.id, name: flashcard.deck.name }])
       );
     }
 
-    // Check if progress record exists
-    const [existing] = await db
-      .select()
-      .from(userCardProgress)
-      .where(
-        and(
-          eq(userCardProgress.clerkUserId, userId),
-          eq(userCardProgress.flashcardId, flashcardId)
-        )
-      )
-      .limit(1);
+    // Count the card against the free tier daily limit before saving anything
+    const timeZone = await getUserTimeZone(userId, request.headers.get(DAILY_CARD_LIMIT_CONFIG.TIMEZONE_HEADER));
+    const allowance = await consumeDailyCard(userId, flashcardId, timeZone);
+
+    if (!allowance.allowed) {
+      return dailyLimitReachedResponse(allowance);
+    }
 
     const now = new Date();
-    const masteryStatus = confidenceLevel >= 4 ? 'mastered' : confidenceLevel >= 2 ? 'learning' : 'new';
+    await saveCardRating(userId, flashcardId, confidenceLevel, now);
 
-    if (existing) {
-      // Update existing record
-      await db
-        .update(userCardProgress)
-        .set({
-          confidenceLevel,
-          timesSeen: (existing.timesSeen || 0) + 1,
-          lastSeen: now,
-          masteryStatus: masteryStatus as 'new' | 'learning' | 'mastered',
-          updatedAt: now,
-        })
-        .where(eq(userCardProgress.id, existing.id));
-    } else {
-      // Create new record
-      await db.insert(userCardProgress).values({
-        clerkUserId: userId,
-        flashcardId,
-        confidenceLevel,
-        timesSeen: 1,
-        lastSeen: now,
-        masteryStatus: masteryStatus as 'new' | 'learning' | 'mastered',
-      });
-    }
+    // Every rating counts towards the day's activity and the study streak
+    await recordDailyActivity(userId, { cardsStudied: 1 }, timeZone, now);
 
-    return NextResponse.json({ success: true });
+    return withDailyCardHeaders(NextResponse.json({ success: true }), allowance);
   } catch (error) {
     console.error('Error updating progress:', error);
     throw error;
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+const answersOrderBy = vi.fn();
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    query: {
+      quizSessions: {
+        findFirst: vi.fn(),
+      },
+      decks: {
+        findFirst: vi.fn(),
+      },
+      deckQuizQuestions: {
+        findMany: vi.fn(),
+      },
+    },
+    select: vi.fn(() => ({ from: () => ({ where: () => ({ orderBy: answersOrderBy }) }) })),
+  },
+}));
+
+const { db } = await import('@/lib/db');
+const { auth } = await import('@clerk/nextjs/server');
+
+const SESSION_ID = '44444444-4444-4444-8444-444444444444';
+
+function createRequest() {
+  return new NextRequest(new URL(`http://localhost/api/quiz-sessions/${SESSION_ID}/resume`));
+}
+
+function params(id = SESSION_ID) {
+  return { params: Promise.resolve({ id }) };
+}
+
+const openSession = {
+  id: SESSION_ID,
+  clerkUserId: 'user_1',
+  quizType: 'deck',
+  deckId: 'd1',
+  flashcardId: null,
+  startedAt: new Date('2024-01-01T00:00:00Z'),
+  endedAt: null,
+  elapsedSeconds: 95,
+  questionOrder: ['q2', 'q1'],
+  optionOrders: { q1: ['b', 'a'], q2: ['d', 'c'] },
+};
+
+function question(id: string, options: Array<{ id: string; isCorrect: boolean }>) {
+  return {
+    id,
+    questionText: `Question ${id}`,
+    options: options.map((option) => ({ ...option, text: `Option ${option.id}` })),
+    order: Number(id.slice(1)),
+    difficulty: null,
+    explanation: `Explanation ${id}`,
+    eliminationTactics: null,
+    correctAnswerWithJustification: null,
+    compareRemainingOptionsWithJustification: null,
+    correctOptionsJustification: null,
+  };
+}
+
+describe('/api/quiz-sessions/[id]/resume', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(openSession);
+    (db.query.decks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'd1', name: 'Deck 1', isPremium: false });
+    (db.query.deckQuizQuestions.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      question('q1', [{ id: 'a', isCorrect: true }, { id: 'b', isCorrect: false }]),
+      question('q2', [{ id: 'c', isCorrect: false }, { id: 'd', isCorrect: true }]),
+    ]);
+    answersOrderBy.mockResolvedValue([
+      { deckQuizQuestionId: 'q2', quizQuestionId: null, selectedOptionId: 'c', isCorrect: false, questionOrder: 0 },
+    ]);
+  });
+
+  it('restores the question order, option order, answers and elapsed time', async () => {
+    const { GET } = await import('./route');
+
+    const res = await GET(createRequest(), params());
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.elapsedSeconds).toBe(95);
+    expect(body.questions.map((q: { id: string }) => q.id)).toEqual(['q2', 'q1']);
+    expect(body.questions[0].options).toEqual([
+      { id: 'd', text: 'Option d' },
+      { id: 'c', text: 'Option c' },
+    ]);
+    expect(body.answers).toEqual([
+      expect.objectContaining({
+        questionId: 'q2',
+        selectedOptionId: 'c',
+        isCorrect: false,
+        correctOptionIds: ['d'],
+        explanation: 'Explanation q2',
+      }),
+    ]);
+  });
+
+  it('does not resume a finished quiz', async () => {
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ...openSession,
+      endedAt: new Date(),
+    });
+    const { GET } = await import('./route');
+
+    const res = await GET(createRequest(), params());
+
+    expect(res.status).toBe(409);
+  });
+
+  it('returns 404 for another user\'s session or an exam', async () => {
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ ...openSession, quizType: 'exam' });
+    const { GET } = await import('./route');
+
+    expect((await GET(createRequest(), params())).status).toBe(404);
+    expect((await GET(createRequest(), params('not-a-uuid'))).status).toBe(404);
+  });
+});
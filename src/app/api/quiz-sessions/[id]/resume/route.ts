@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { quizSessions, quizSessionAnswers, quizQuestions, deckQuizQuestions, flashcards, decks } from '@/lib/db/schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { commonValidators } from '@/lib/api/validate';
+import { getAnswerReveal, getRecordedResponse, toPublicQuestionFields } from '@/lib/quiz/grading';
+import { arrangeQuestions } from '@/lib/quiz/quiz-layout';
+import { getDeckEntitlement, isDeckLocked, buildUpgradeRequired, upgradeRequiredResponse } from '@/lib/entitlements';
+
+type QuizSession = typeof quizSessions.$inferSelect;
+
+/**
+ * Load the questions of a flashcard, deck or drill quiz with their grading fields
+ */
+async function loadSessionQuestions(session: QuizSession) {
+  if (session.quizType === 'flashcard' && session.flashcardId) {
+    return db.query.quizQuestions.findMany({
+      where: eq(quizQuestions.flashcardId, session.flashcardId),
+      orderBy: [asc(quizQuestions.order)],
+    });
+  }
+
+  if (session.quizType === 'deck' && session.deckId) {
+    return db.query.deckQuizQuestions.findMany({
+      where: eq(deckQuizQuestions.deckId, session.deckId),
+      orderBy: [asc(deckQuizQuestions.order)],
+    });
+  }
+
+  if (session.quizType === 'drill' && session.questionOrder?.length) {
+    return db.query.deckQuizQuestions.findMany({
+      where: inArray(deckQuizQuestions.id, session.questionOrder),
+    });
+  }
+
+  return [];
+}
+
+/**
+ * Load the deck a quiz belongs to, for the premium check
+ */
+async function findSessionDeck(session: QuizSession) {
+  if (session.quizType === 'flashcard' && session.flashcardId) {
+    const flashcard = await db.query.flashcards.findFirst({
+      where: eq(flashcards.id, session.flashcardId),
+      columns: { id: true },
+      with: { deck: { columns: { id: true, name: true, isPremium: true } } },
+    });
+    return flashcard?.deck;
+  }
+
+  if (session.deckId) {
+    return db.query.decks.findFirst({
+      where: eq(decks.id, session.deckId),
+      columns: { id: true, name: true, isPremium: true },
+    });
+  }
+
+  return undefined;
+}
+
+/**
+ * GET /api/quiz-sessions/[id]/resume
+ * Restore an unfinished quiz: the same question and option order, the answers
+ * already given (with their explanations) and the time spent so far
+ */
+async function resumeQuizSession(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!commonValidators.uuid.safeParse(id).success) {
+      return NextResponse.json({ error: 'Quiz session not found' }, { status: 404 });
+    }
+
+    const session = await db.query.quizSessions.findFirst({
+      where: and(
+        eq(quizSessions.id, id),
+        eq(quizSessions.clerkUserId, userId)
+      ),
+    });
+
+    // Exams are resumed through the exam simulator, which never reveals answers
+    if (!session || session.quizType === 'exam') {
+      return NextResponse.json({ error: 'Quiz session not found' }, { status: 404 });
+    }
+
+    if (session.endedAt) {
+      return NextResponse.json({ error: 'Quiz session already completed' }, { status: 409 });
+    }
+
+    const deck = await findSessionDeck(session);
+    if (deck) {
+      const entitlement = await getDeckEntitlement([deck]);
+      if (isDeckLocked(entitlement, deck.id)) {
+        return upgradeRequiredResponse(
+          buildUpgradeRequired(entitlement, [{ id: deck.id, name: deck.name }])
+        );
+      }
+    }
+
+    const [questionRows, answers] = await Promise.all([
+      loadSessionQuestions(session),
+      db
+        .select()
+        .from(quizSessionAnswers)
+        .where(eq(quizSessionAnswers.sessionId, session.id))
+        .orderBy(asc(quizSessionAnswers.questionOrder)),
+    ]);
+
+    const publicQuestions = questionRows.map((question) => ({
+      id: question.id,
+      questionText: question.questionText,
+      ...toPublicQuestionFields(question),
+      order: question.order,
+      difficulty: 'difficulty' in question ? question.difficulty : null,
+    }));
+
+    // Sessions started before layouts were stored fall back to the question order field
+    const questions = session.questionOrder
+      ? arrangeQuestions(publicQuestions, {
+          questionOrder: session.questionOrder,
+          optionOrders: session.optionOrders ?? {},
+        })
+      : publicQuestions;
+
+    const questionsById = new Map(questionRows.map((question) => [question.id, question]));
+
+    return NextResponse.json({
+      sessionId: session.id,
+      quizType: session.quizType,
+      deckId: session.deckId,
+      flashcardId: session.flashcardId,
+      startedAt: session.startedAt,
+      elapsedSeconds: session.elapsedSeconds ?? 0,
+      questions,
+      answers: answers.flatMap((answer) => {
+        const questionId = answer.deckQuizQuestionId ?? answer.quizQuestionId;
+        const question = questionId ? questionsById.get(questionId) : undefined;
+        if (!question) return [];
+
+        return [{
+          questionId: question.id,
+          selectedOptionId: answer.selectedOptionId,
+          response: getRecordedResponse(answer),
+          isCorrect: answer.isCorrect,
+          ...getAnswerReveal(question),
+        }];
+      }),
+    });
+  } catch (error) {
+    console.error('Error resuming quiz session:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(resumeQuizSession as (req: NextRequest, ...args: unknown[]) => Promise<NextResponse>, 'resume quiz session'),
+  { logRequest: true, logResponse: false }
+) as typeof resumeQuizSession;
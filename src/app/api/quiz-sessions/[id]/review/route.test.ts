@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    query: {
+      quizSessions: {
+        findFirst: vi.fn(),
+      },
+    },
+  },
+}));
+
+const { db } = await import('@/lib/db');
+const { auth } = await import('@clerk/nextjs/server');
+
+const SESSION_ID = '44444444-4444-4444-8444-444444444444';
+
+function createRequest() {
+  return new NextRequest(new URL(`http://localhost/api/quiz-sessions/${SESSION_ID}/review`));
+}
+
+function params(id = SESSION_ID) {
+  return { params: Promise.resolve({ id }) };
+}
+
+function question(id: string) {
+  return {
+    questionText: `Question ${id}`,
+    questionType: 'single_choice',
+    imageUrl: null,
+    options: [
+      { id: 'a', text: 'Option a', isCorrect: true },
+      { id: 'b', text: 'Option b', isCorrect: false },
+    ],
+    explanation: `Explanation ${id}`,
+    eliminationTactics: null,
+    correctAnswerWithJustification: null,
+    compareRemainingOptionsWithJustification: null,
+    correctOptionsJustification: null,
+  };
+}
+
+const completedSession = {
+  id: SESSION_ID,
+  clerkUserId: 'user_1',
+  quizType: 'deck',
+  startedAt: new Date('2026-01-01T10:00:00Z'),
+  endedAt: new Date('2026-01-01T10:05:00Z'),
+  totalQuestions: 2,
+  correctAnswers: 1,
+  scorePercentage: '50.00',
+  quizDuration: 300,
+  examResult: null,
+  deck: { id: 'd1', name: 'Deck 1' },
+  flashcard: null,
+  answers: [
+    {
+      id: 'ans1',
+      selectedOptionId: 'b',
+      optionOrder: ['b', 'a'],
+      response: null,
+      isCorrect: false,
+      timeSpent: 42,
+      quizQuestion: null,
+      deckQuizQuestion: question('q1'),
+    },
+    {
+      id: 'ans2',
+      selectedOptionId: 'a',
+      optionOrder: null,
+      response: null,
+      isCorrect: true,
+      timeSpent: 10,
+      quizQuestion: null,
+      deckQuizQuestion: null,
+    },
+  ],
+};
+
+describe('/api/quiz-sessions/[id]/review', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(completedSession);
+  });
+
+  it('returns 401 when unauthenticated', async () => {
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: null });
+    const { GET } = await import('./route');
+
+    const res = await GET(createRequest(), params());
+
+    expect(res.status).toBe(401);
+  });
+
+  it('returns 404 for an invalid id or another user’s quiz', async () => {
+    const { GET } = await import('./route');
+
+    expect((await GET(createRequest(), params('not-a-uuid'))).status).toBe(404);
+
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+    expect((await GET(createRequest(), params())).status).toBe(404);
+  });
+
+  it('does not reveal the answers of an exam in progress', async () => {
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ...completedSession,
+      quizType: 'exam',
+      endedAt: null,
+    });
+    const { GET } = await import('./route');
+
+    const res = await GET(createRequest(), params());
+
+    expect(res.status).toBe(409);
+  });
+
+  it('returns each answer with the response, the correct answer and the time spent', async () => {
+    const { GET } = await import('./route');
+
+    const res = await GET(createRequest(), params());
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data).toMatchObject({ deckName: 'Deck 1', scorePercentage: 50, durationSeconds: 300 });
+    expect(data.answers[0]).toMatchObject({
+      questionNumber: 1,
+      questionText: 'Question q1',
+      isCorrect: false,
+      timeSpent: 42,
+      response: { type: 'single_choice', optionId: 'b' },
+      reveal: { correctOptionIds: ['a'], explanation: 'Explanation q1' },
+    });
+    // Options in the order the learner saw them
+    expect(data.answers[0].options.map((option: { id: string }) => option.id)).toEqual(['b', 'a']);
+    // The second question has since been deleted
+    expect(data.answers[1]).toMatchObject({ questionText: null, reveal: null, isCorrect: true });
+  });
+});
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { commonValidators } from '@/lib/api/validate';
+import { getQuizSessionDetail, isExamInProgress } from '@/lib/history/session-history';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/quiz-sessions/[id]/review
+ * Question-by-question review of a past quiz: every question with the answer given,
+ * the correct answer, its explanation and the time spent on it
+ */
+async function reviewQuizSession(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!commonValidators.uuid.safeParse(id).success) {
+      return NextResponse.json({ error: 'Quiz session not found' }, { status: 404 });
+    }
+
+    const detail = await getQuizSessionDetail(userId, id);
+    if (!detail) {
+      return NextResponse.json({ error: 'Quiz session not found' }, { status: 404 });
+    }
+
+    // Exam answers stay hidden until the exam ends
+    if (isExamInProgress(detail)) {
+      return NextResponse.json({ error: 'Exam is still in progress' }, { status: 409 });
+    }
+
+    return NextResponse.json(detail);
+  } catch (error) {
+    console.error('Error fetching quiz review:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(reviewQuizSession as (req: NextRequest, ...args: unknown[]) => Promise<NextResponse>, 'review quiz session'),
+  { logRequest: true, logResponse: false }
+) as typeof reviewQuizSession;
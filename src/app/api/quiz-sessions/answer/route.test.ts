@@ -0,0 +1,410 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/daily-card-limit', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/daily-card-limit')>()),
+  getUserTimeZone: vi.fn().mockResolvedValue('UTC'),
+}));
+
+vi.mock('@/lib/activity/daily-activity', () => ({
+  recordDailyActivity: vi.fn(),
+}));
+
+const insertReturning = vi.fn();
+const insertValues = vi.fn(() => ({ onConflictDoNothing: () => ({ returning: insertReturning }) }));
+const updateSet = vi.fn();
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    query: {
+      quizSessions: {
+        findFirst: vi.fn(),
+      },
+      deckQuizQuestions: {
+        findFirst: vi.fn(),
+      },
+      quizQuestions: {
+        findFirst: vi.fn(),
+      },
+      flashcards: {
+        findFirst: vi.fn(),
+      },
+      quizSessionAnswers: {
+        findFirst: vi.fn(),
+      },
+    },
+    insert: vi.fn(() => ({ values: insertValues })),
+    update: vi.fn(() => ({
+      set: (values: unknown) => {
+        updateSet(values);
+        return { where: vi.fn() };
+      },
+    })),
+  },
+}));
+
+vi.mock('@/lib/quiz/mistake-notebook', () => ({
+  recordQuizMistake: vi.fn(),
+}));
+
+const { db } = await import('@/lib/db');
+const { auth } = await import('@clerk/nextjs/server');
+const { recordQuizMistake } = await import('@/lib/quiz/mistake-notebook');
+
+function createRequest(body?: unknown) {
+  return new NextRequest(new URL('http://localhost/api/quiz-sessions/answer'), {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+}
+
+const deckSession = {
+  id: 's1',
+  clerkUserId: 'user_1',
+  quizType: 'deck',
+  deckId: 'd1',
+  flashcardId: null,
+  startedAt: new Date(Date.now() - 120_000),
+  endedAt: null,
+  elapsedSeconds: 30,
+  questionOrder: ['q1'],
+};
+
+const deckQuestion = {
+  id: 'q1',
+  deckId: 'd1',
+  options: [
+    { id: 'opt-a', text: 'Wrong', isCorrect: false },
+    { id: 'opt-b', text: 'Right', isCorrect: true },
+  ],
+  explanation: 'Because it is right',
+  eliminationTactics: JSON.stringify({ Wrong: 'Not this one' }),
+  correctAnswerWithJustification: null,
+  compareRemainingOptionsWithJustification: null,
+  correctOptionsJustification: null,
+};
+
+describe('/api/quiz-sessions/answer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(deckSession);
+    (db.query.deckQuizQuestions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(deckQuestion);
+    (db.query.quizSessionAnswers.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+    insertReturning.mockResolvedValue([{ id: 'a1' }]);
+  });
+
+  it('returns 401 when unauthenticated', async () => {
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: null });
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1', questionId: 'q1', selectedOptionId: 'opt-b', optionOrder: ['opt-b', 'opt-a'], questionOrder: 0 }));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('returns 404 when the session belongs to someone else', async () => {
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1', questionId: 'q1', selectedOptionId: 'opt-b', optionOrder: ['opt-b', 'opt-a'], questionOrder: 0 }));
+
+    expect(res.status).toBe(404);
+    expect(insertValues).not.toHaveBeenCalled();
+  });
+
+  it('grades by option id, records the order shown and reveals the answer key afterwards', async () => {
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({
+      sessionId: 's1',
+      questionId: 'q1',
+      selectedOptionId: 'opt-a',
+      optionOrder: ['opt-b', 'opt-a'],
+      timeSpent: 12,
+      questionOrder: 3,
+    }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.isCorrect).toBe(false);
+    expect(body.correctOptionIds).toEqual(['opt-b']);
+    expect(body.explanation).toBe('Because it is right');
+    expect(body.eliminationTactics).toEqual({ Wrong: 'Not this one' });
+    expect(insertValues).toHaveBeenCalledWith({
+      sessionId: 's1',
+      quizQuestionId: null,
+      deckQuizQuestionId: 'q1',
+      selectedOptionId: 'opt-a',
+      selectedOptionIndex: 1,
+      optionOrder: ['opt-b', 'opt-a'],
+      response: { type: 'single_choice', optionId: 'opt-a' },
+      isCorrect: false,
+      timeSpent: 12,
+      questionOrder: 3,
+    });
+  });
+
+  it('adds wrong answers to the mistake notebook with the response given', async () => {
+    const { POST } = await import('./route');
+
+    await POST(createRequest({ sessionId: 's1', questionId: 'q1', selectedOptionId: 'opt-a', optionOrder: ['opt-b', 'opt-a'], questionOrder: 0 }));
+
+    expect(recordQuizMistake).toHaveBeenCalledWith('user_1', { deckQuizQuestionId: 'q1' }, { type: 'single_choice', optionId: 'opt-a' });
+  });
+
+  it('leaves correct answers out of the mistake notebook', async () => {
+    const { POST } = await import('./route');
+
+    await POST(createRequest({ sessionId: 's1', questionId: 'q1', selectedOptionId: 'opt-b', optionOrder: ['opt-b', 'opt-a'], questionOrder: 0 }));
+
+    expect(recordQuizMistake).not.toHaveBeenCalled();
+  });
+
+  it('rejects a second answer to the same question', async () => {
+    (db.query.quizSessionAnswers.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'a1' });
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1', questionId: 'q1', selectedOptionId: 'opt-b', optionOrder: ['opt-b', 'opt-a'], questionOrder: 0 }));
+
+    expect(res.status).toBe(409);
+    expect(insertValues).not.toHaveBeenCalled();
+  });
+
+  it('rejects a concurrent second answer that loses the insert race', async () => {
+    insertReturning.mockResolvedValue([]);
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1', questionId: 'q1', selectedOptionId: 'opt-a', optionOrder: ['opt-b', 'opt-a'], questionOrder: 0 }));
+
+    expect(res.status).toBe(409);
+    expect(recordQuizMistake).not.toHaveBeenCalled();
+  });
+
+  it('rejects answers to a completed session', async () => {
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ ...deckSession, endedAt: new Date() });
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1', questionId: 'q1', selectedOptionId: 'opt-b', optionOrder: ['opt-b', 'opt-a'], questionOrder: 0 }));
+
+    expect(res.status).toBe(409);
+  });
+
+  it('accepts drill answers only for the questions the drill was started with', async () => {
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ...deckSession,
+      quizType: 'drill',
+      deckId: null,
+      questionOrder: ['q1'],
+    });
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1', questionId: 'q1', selectedOptionId: 'opt-b', optionOrder: ['opt-b', 'opt-a'], questionOrder: 0 }));
+
+    expect(res.status).toBe(200);
+    expect(insertValues).toHaveBeenCalledWith(expect.objectContaining({ deckQuizQuestionId: 'q1', isCorrect: true }));
+
+    insertValues.mockClear();
+    const outside = await POST(createRequest({ sessionId: 's1', questionId: 'q2', selectedOptionId: 'opt-b', optionOrder: ['opt-b', 'opt-a'], questionOrder: 1 }));
+
+    expect(outside.status).toBe(404);
+    expect(insertValues).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for a deck question the session was not started with', async () => {
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1', questionId: 'q-draft', selectedOptionId: 'opt-b', optionOrder: ['opt-b', 'opt-a'], questionOrder: 0 }));
+
+    expect(res.status).toBe(404);
+    expect(db.query.deckQuizQuestions.findFirst).not.toHaveBeenCalled();
+    expect(insertValues).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 without revealing the answer for a question that is no longer published', async () => {
+    (db.query.deckQuizQuestions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1', questionId: 'q1', selectedOptionId: 'opt-b', optionOrder: ['opt-b', 'opt-a'], questionOrder: 0 }));
+    const body = await res.json();
+
+    expect(res.status).toBe(404);
+    expect(body.correctOptionIds).toBeUndefined();
+  });
+
+  it('grades flashcard quiz answers only for the questions the session was started with', async () => {
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ...deckSession,
+      quizType: 'flashcard',
+      deckId: null,
+      flashcardId: 'f1',
+      questionOrder: ['q1'],
+    });
+    (db.query.flashcards.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'f1' });
+    (db.query.quizQuestions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(deckQuestion);
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1', questionId: 'q1', selectedOptionId: 'opt-b', optionOrder: ['opt-b', 'opt-a'], questionOrder: 0 }));
+
+    expect(res.status).toBe(200);
+    expect(insertValues).toHaveBeenCalledWith(expect.objectContaining({ quizQuestionId: 'q1', isCorrect: true }));
+
+    insertValues.mockClear();
+    const outside = await POST(createRequest({ sessionId: 's1', questionId: 'q2', selectedOptionId: 'opt-b', optionOrder: ['opt-b', 'opt-a'], questionOrder: 1 }));
+
+    expect(outside.status).toBe(404);
+    expect(insertValues).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 without revealing the answer once the flashcard is no longer published', async () => {
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ...deckSession,
+      quizType: 'flashcard',
+      deckId: null,
+      flashcardId: 'f1',
+      questionOrder: ['q1'],
+    });
+    (db.query.flashcards.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+    (db.query.quizQuestions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(deckQuestion);
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1', questionId: 'q1', selectedOptionId: 'opt-b', optionOrder: ['opt-b', 'opt-a'], questionOrder: 0 }));
+    const body = await res.json();
+
+    expect(res.status).toBe(404);
+    expect(body.correctOptionIds).toBeUndefined();
+    expect(db.query.quizQuestions.findFirst).not.toHaveBeenCalled();
+    expect(insertValues).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for an option id that is not part of the question', async () => {
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1', questionId: 'q1', selectedOptionId: 'opt-z', optionOrder: ['opt-b', 'opt-a'], questionOrder: 0 }));
+
+    expect(res.status).toBe(400);
+    expect(insertValues).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 when the option order does not match the stored options', async () => {
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1', questionId: 'q1', selectedOptionId: 'opt-b', optionOrder: ['opt-b', 'opt-b'], questionOrder: 0 }));
+
+    expect(res.status).toBe(400);
+    expect(insertValues).not.toHaveBeenCalled();
+  });
+
+  it('grades a select-all-that-apply response only when exactly the correct options are chosen', async () => {
+    (db.query.deckQuizQuestions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ...deckQuestion,
+      questionType: 'multi_select',
+      options: [
+        { id: 'opt-a', text: 'Firewall', isCorrect: true },
+        { id: 'opt-b', text: 'Audit log', isCorrect: false },
+        { id: 'opt-c', text: 'Badge reader', isCorrect: true },
+      ],
+    });
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({
+      sessionId: 's1',
+      questionId: 'q1',
+      response: { type: 'multi_select', optionIds: ['opt-c', 'opt-a'] },
+      optionOrder: ['opt-b', 'opt-c', 'opt-a'],
+      questionOrder: 0,
+    }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.isCorrect).toBe(true);
+    expect(body.questionType).toBe('multi_select');
+    expect(body.correctOptionIds).toEqual(['opt-a', 'opt-c']);
+    expect(insertValues).toHaveBeenCalledWith(expect.objectContaining({
+      selectedOptionId: null,
+      selectedOptionIndex: null,
+      response: { type: 'multi_select', optionIds: ['opt-c', 'opt-a'] },
+      isCorrect: true,
+    }));
+  });
+
+  it('grades a hotspot click without an option order and reveals the regions', async () => {
+    (db.query.deckQuizQuestions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ...deckQuestion,
+      questionType: 'hotspot',
+      imageUrl: 'https://example.com/network.png',
+      options: [
+        { id: 'dmz', text: 'DMZ', isCorrect: true, region: { x: 10, y: 10, width: 20, height: 20 } },
+        { id: 'lan', text: 'LAN', isCorrect: false, region: { x: 50, y: 50, width: 20, height: 20 } },
+      ],
+    });
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({
+      sessionId: 's1',
+      questionId: 'q1',
+      response: { type: 'hotspot', point: { x: 55, y: 60 } },
+      questionOrder: 0,
+    }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.isCorrect).toBe(false);
+    expect(body.hotspotRegions.map((region: { id: string }) => region.id)).toEqual(['dmz', 'lan']);
+    expect(insertValues).toHaveBeenCalledWith(expect.objectContaining({ optionOrder: null }));
+  });
+
+  it('returns 400 when the response is for a different question type', async () => {
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({
+      sessionId: 's1',
+      questionId: 'q1',
+      response: { type: 'multi_select', optionIds: ['opt-b'] },
+      optionOrder: ['opt-b', 'opt-a'],
+      questionOrder: 0,
+    }));
+
+    expect(res.status).toBe(400);
+    expect(insertValues).not.toHaveBeenCalled();
+  });
+
+  it('saves the elapsed time for resuming, capped at the time since the quiz started', async () => {
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ...deckSession,
+      startedAt: new Date(Date.now() - 120_000),
+    });
+    const { POST } = await import('./route');
+
+    await POST(createRequest({
+      sessionId: 's1',
+      questionId: 'q1',
+      selectedOptionId: 'opt-b',
+      optionOrder: ['opt-b', 'opt-a'],
+      questionOrder: 0,
+      elapsedSeconds: 9999,
+    }));
+
+    expect(updateSet).toHaveBeenCalledWith({ elapsedSeconds: 120 });
+  });
+
+  it('never moves the elapsed time backwards', async () => {
+    const { POST } = await import('./route');
+
+    await POST(createRequest({
+      sessionId: 's1',
+      questionId: 'q1',
+      selectedOptionId: 'opt-b',
+      optionOrder: ['opt-b', 'opt-a'],
+      questionOrder: 0,
+      elapsedSeconds: 10,
+    }));
+
+    expect(updateSet).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import {
+  quizSessions,
+  quizSessionAnswers,
+  quizQuestions,
+  deckQuizQuestions,
+  flashcards,
+} from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { gradeQuizResponse, getAnswerReveal, isValidOptionOrder } from '@/lib/quiz/grading';
+import { getQuestionType, type QuizResponse } from '@/lib/quiz/question-types';
+import { recordQuizMistake } from '@/lib/quiz/mistake-notebook';
+import { DAILY_CARD_LIMIT_CONFIG, getUserTimeZone } from '@/lib/daily-card-limit';
+import { recordDailyActivity } from '@/lib/activity/daily-activity';
+
+interface SubmitAnswerRequest {
+  sessionId: string;
+  questionId: string;
+  response?: QuizResponse; // Typed response for any question type
+  selectedOptionId?: string; // Shorthand for a single choice response
+  optionOrder?: string[]; // Option ids in the order they were shown (not sent for hotspot questions)
+  timeSpent?: number;
+  questionOrder: number;
+  elapsedSeconds?: number; // Time spent on the quiz so far, restored on resume
+}
+
+/**
+ * Load a quiz question only if it is one the session was started with, and it still belongs
+ * to the session's published flashcard or, for deck quizzes and drills, is still published
+ */
+async function findSessionQuestion(
+  session: typeof quizSessions.$inferSelect,
+  questionId: string
+) {
+  if (!session.questionOrder?.includes(questionId)) {
+    return undefined;
+  }
+
+  if (session.quizType === 'flashcard' && session.flashcardId) {
+    const flashcard = await db.query.flashcards.findFirst({
+      where: and(eq(flashcards.id, session.flashcardId), eq(flashcards.status, 'published')),
+      columns: { id: true },
+    });
+
+    if (!flashcard) {
+      return undefined;
+    }
+
+    return db.query.quizQuestions.findFirst({
+      where: and(
+        eq(quizQuestions.id, questionId),
+        eq(quizQuestions.flashcardId, session.flashcardId)
+      ),
+    });
+  }
+
+  if (session.quizType === 'deck' && session.deckId) {
+    return db.query.deckQuizQuestions.findFirst({
+      where: and(
+        eq(deckQuizQuestions.id, questionId),
+        eq(deckQuizQuestions.deckId, session.deckId),
+        eq(deckQuizQuestions.status, 'published')
+      ),
+    });
+  }
+
+  if (session.quizType === 'drill') {
+    return db.query.deckQuizQuestions.findFirst({
+      where: and(
+        eq(deckQuizQuestions.id, questionId),
+        eq(deckQuizQuestions.status, 'published')
+      ),
+    });
+  }
+
+  return undefined;
+}
+
+/**
+ * POST /api/quiz-sessions/answer
+ * Grade one answer on the server, store it, and reveal the correct option and explanation
+ */
+async function submitQuizAnswer(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: SubmitAnswerRequest = await request.json();
+    const { sessionId, questionId, selectedOptionId, optionOrder, timeSpent, questionOrder, elapsedSeconds } = body;
+    const response: QuizResponse | undefined = body.response
+      ?? (selectedOptionId ? { type: 'single_choice', optionId: selectedOptionId } : undefined);
+
+    if (!sessionId || !questionId || !response || typeof questionOrder !== 'number') {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const session = await db.query.quizSessions.findFirst({
+      where: and(
+        eq(quizSessions.id, sessionId),
+        eq(quizSessions.clerkUserId, userId)
+      ),
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Quiz session not found' }, { status: 404 });
+    }
+
+    if (session.endedAt) {
+      return NextResponse.json({ error: 'Quiz session already completed' }, { status: 409 });
+    }
+
+    const question = await findSessionQuestion(session, questionId);
+    if (!question) {
+      return NextResponse.json({ error: 'Question not found in this quiz' }, { status: 404 });
+    }
+
+    const questionColumn = session.quizType === 'flashcard'
+      ? quizSessionAnswers.quizQuestionId
+      : quizSessionAnswers.deckQuizQuestionId;
+
+    const existingAnswer = await db.query.quizSessionAnswers.findFirst({
+      where: and(
+        eq(quizSessionAnswers.sessionId, session.id),
+        eq(questionColumn, questionId)
+      ),
+    });
+
+    if (existingAnswer) {
+      return NextResponse.json({ error: 'Question already answered' }, { status: 409 });
+    }
+
+    const isCorrect = gradeQuizResponse(question, response);
+    if (isCorrect === null) {
+      return NextResponse.json({ error: 'Invalid response for this question' }, { status: 400 });
+    }
+
+    // Hotspot regions are never shown, so there is no option order to record
+    const isHotspot = getQuestionType(question.questionType) === 'hotspot';
+    if (!isHotspot && !isValidOptionOrder(question.options, optionOrder)) {
+      return NextResponse.json({ error: 'Invalid option order' }, { status: 400 });
+    }
+
+    const selectedId = response.type === 'single_choice' ? response.optionId : null;
+
+    // The unique index on (session, question) turns a concurrent second submit into a no-op
+    const [inserted] = await db
+      .insert(quizSessionAnswers)
+      .values({
+        sessionId: session.id,
+        quizQuestionId: session.quizType === 'flashcard' ? questionId : null,
+        deckQuizQuestionId: session.quizType === 'flashcard' ? null : questionId,
+        selectedOptionId: selectedId,
+        selectedOptionIndex: selectedId && optionOrder ? optionOrder.indexOf(selectedId) : null,
+        optionOrder: isHotspot ? null : optionOrder,
+        response,
+        isCorrect,
+        timeSpent: timeSpent || 0,
+        questionOrder,
+      })
+      .onConflictDoNothing()
+      .returning({ id: quizSessionAnswers.id });
+
+    if (!inserted) {
+      return NextResponse.json({ error: 'Question already answered' }, { status: 409 });
+    }
+
+    if (!isCorrect) {
+      await recordQuizMistake(
+        userId,
+        session.quizType === 'flashcard' ? { quizQuestionId: questionId } : { deckQuizQuestionId: questionId },
+        response
+      );
+    }
+
+    const timeZone = await getUserTimeZone(userId, request.headers.get(DAILY_CARD_LIMIT_CONFIG.TIMEZONE_HEADER));
+    await recordDailyActivity(userId, { questionsAnswered: 1 }, timeZone);
+
+    // Elapsed time can only grow, and never past the time since the quiz started
+    if (typeof elapsedSeconds === 'number' && elapsedSeconds > (session.elapsedSeconds ?? 0)) {
+      const sinceStart = Math.floor((Date.now() - session.startedAt.getTime()) / 1000);
+      await db
+        .update(quizSessions)
+        .set({ elapsedSeconds: Math.min(Math.floor(elapsedSeconds), sinceStart) })
+        .where(eq(quizSessions.id, session.id));
+    }
+
+    return NextResponse.json({
+      isCorrect,
+      ...getAnswerReveal(question),
+    });
+  } catch (error) {
+    console.error('Error submitting quiz answer:', error);
+    throw error;
+  }
+}
+
+export const POST = withTracing(
+  withErrorHandling(submitQuizAnswer, 'submit quiz answer'),
+  { logRequest: true, logResponse: false }
+);
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/daily-card-limit', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/daily-card-limit')>()),
+  getUserTimeZone: vi.fn().mockResolvedValue('UTC'),
+}));
+
+vi.mock('@/lib/activity/daily-activity', () => ({
+  recordDailyActivity: vi.fn(),
+}));
+
+vi.mock('@/lib/redis/invalidation', () => ({
+  CacheInvalidation: { quizProgress: vi.fn() },
+  safeInvalidate: vi.fn(),
+}));
+
+vi.mock('@/lib/gamification/quiz-rewards', () => ({
+  awardQuizRewards: vi.fn(),
+}));
+
+const answersOrderBy = vi.fn();
+const updateSet = vi.fn();
+const updateReturning = vi.fn();
+const insertValues = vi.fn();
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    query: {
+      quizSessions: {
+        findFirst: vi.fn(),
+      },
+      deckQuizProgress: {
+        findFirst: vi.fn(),
+      },
+      decks: {
+        findFirst: vi.fn(),
+      },
+    },
+    select: vi.fn(() => ({ from: () => ({ where: () => ({ orderBy: answersOrderBy }) }) })),
+    update: vi.fn(() => ({
+      set: (values: unknown) => {
+        updateSet(values);
+        return { where: () => ({ returning: updateReturning }) };
+      },
+    })),
+    insert: vi.fn(() => ({ values: insertValues })),
+  },
+}));
+
+const { db } = await import('@/lib/db');
+const { auth } = await import('@clerk/nextjs/server');
+const { awardQuizRewards } = await import('@/lib/gamification/quiz-rewards');
+
+function createRequest(body?: unknown) {
+  return new NextRequest(new URL('http://localhost/api/quiz-sessions/complete'), {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+}
+
+const openSession = {
+  id: 's1',
+  clerkUserId: 'user_1',
+  quizType: 'deck',
+  deckId: 'd1',
+  flashcardId: null,
+  startedAt: new Date(Date.now() - 60_000),
+  endedAt: null,
+  totalQuestions: 4,
+};
+
+describe('/api/quiz-sessions/complete', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(openSession);
+    (db.query.deckQuizProgress.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+    (db.query.decks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+    updateReturning.mockResolvedValue([{ id: 's1' }]);
+    (awardQuizRewards as ReturnType<typeof vi.fn>).mockResolvedValue({ xpEarned: 25, totalXp: 125, newAchievements: [] });
+  });
+
+  it('returns 401 when unauthenticated', async () => {
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: null });
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1' }));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('scores from stored answers and ignores client-reported totals', async () => {
+    answersOrderBy.mockResolvedValue([{ isCorrect: true }, { isCorrect: false }, { isCorrect: false }]);
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1', correctAnswers: 4, totalQuestions: 4 }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.correctAnswers).toBe(1);
+    expect(body.totalQuestions).toBe(4);
+    expect(body.scorePercentage).toBe(25);
+    expect(updateSet).toHaveBeenCalledWith(expect.objectContaining({
+      correctAnswers: 1,
+      totalQuestions: 4,
+      scorePercentage: '25.00',
+    }));
+    expect(insertValues).toHaveBeenCalledWith(expect.objectContaining({
+      deckId: 'd1',
+      totalQuestionsAnswered: 4,
+      totalCorrectAnswers: 1,
+    }));
+  });
+
+  it('awards XP and achievements from the graded answers', async () => {
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ ...openSession, elapsedSeconds: 90 });
+    answersOrderBy.mockResolvedValue([{ isCorrect: false }, { isCorrect: false }, { isCorrect: false }, { isCorrect: true }]);
+    (awardQuizRewards as ReturnType<typeof vi.fn>).mockResolvedValue({
+      xpEarned: 25,
+      totalXp: 125,
+      newAchievements: ['first_blood', 'speed_demon'],
+    });
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1', totalXP: 9999 }));
+    const body = await res.json();
+
+    expect(awardQuizRewards).toHaveBeenCalledWith('user_1', 's1', {
+      correctAnswers: 1,
+      totalQuestions: 4,
+      maxStreak: 1,
+      completionTimeSeconds: 90,
+      firstThreeWrong: true,
+    });
+    expect(body.rewards).toEqual({ xpEarned: 25, totalXp: 125, newAchievements: ['first_blood', 'speed_demon'] });
+  });
+
+  it('does not count a session twice', async () => {
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ ...openSession, endedAt: new Date() });
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1' }));
+
+    expect(res.status).toBe(409);
+    expect(updateSet).not.toHaveBeenCalled();
+    expect(insertValues).not.toHaveBeenCalled();
+    expect(awardQuizRewards).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 when no answers were graded', async () => {
+    answersOrderBy.mockResolvedValue([]);
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ sessionId: 's1' }));
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -9,29 +9,18 @@ import {
   flashcards,
   decks,
 } from '@/lib/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, asc, isNull } from 'drizzle-orm';
 import { withErrorHandling } from '@/lib/api/error-handler';
 import { withTracing } from '@/lib/middleware/with-tracing';
-import { ensureUserExists } from '@/lib/db/ensure-user';
 import { CacheInvalidation, safeInvalidate } from '@/lib/redis/invalidation';
-
-interface QuizAnswer {
-  questionId: string;
-  questionType: 'flashcard' | 'deck';
-  selectedOptionIndex: number;
-  isCorrect: boolean;
-  timeSpent?: number;
-  questionOrder: number;
-}
+import { scoreQuizAnswers } from '@/lib/quiz/grading';
+import { getQuizStatsFromAnswers } from '@/lib/gamification/achievements';
+import { awardQuizRewards } from '@/lib/gamification/quiz-rewards';
+import { DAILY_CARD_LIMIT_CONFIG, getUserTimeZone } from '@/lib/daily-card-limit';
+import { recordDailyActivity } from '@/lib/activity/daily-activity';
 
 interface CompleteQuizRequest {
-  flashcardId?: string;
-  deckId?: string;
-  quizType: 'flashcard' | 'deck';
-  answers: QuizAnswer[];
-  totalQuestions: number;
-  correctAnswers: number;
-  startTime: number; // timestamp when quiz started
+  sessionId: string;
 }
 
 /**
@@ -176,7 +165,7 @@ async function updateDeckQuizProgress(
 
 /**
  * POST /api/quiz-sessions/complete
- * Save completed quiz session with all answers and update aggregate stats
+ * Close a quiz session, score it from its server-graded answers and update aggregate stats
  */
 async function completeQuizSession(request: NextRequest) {
   // 1. Validate authentication
@@ -185,90 +174,77 @@ async function completeQuizSession(request: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  await ensureUserExists(userId);
-
   // 2. Parse and validate request body
   const body: CompleteQuizRequest = await request.json();
-  const {
-    flashcardId,
-    deckId,
-    quizType,
-    answers,
-    totalQuestions,
-    correctAnswers,
-    startTime,
-  } = body;
+  const { sessionId } = body;
 
-  // Validate quiz type
-  if (!quizType || (quizType !== 'flashcard' && quizType !== 'deck')) {
-    return NextResponse.json({ error: 'Invalid quiz type' }, { status: 400 });
+  if (!sessionId) {
+    return NextResponse.json({ error: 'sessionId required' }, { status: 400 });
   }
 
-  // Validate required fields based on quiz type
-  if (quizType === 'flashcard' && !flashcardId) {
-    return NextResponse.json(
-      { error: 'flashcardId required for flashcard quiz' },
-      { status: 400 }
-    );
+  const session = await db.query.quizSessions.findFirst({
+    where: and(
+      eq(quizSessions.id, sessionId),
+      eq(quizSessions.clerkUserId, userId)
+    ),
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: 'Quiz session not found' }, { status: 404 });
   }
 
-  if (quizType === 'deck' && !deckId) {
-    return NextResponse.json(
-      { error: 'deckId required for deck quiz' },
-      { status: 400 }
-    );
+  // Exams end when the adaptive engine's stopping rule is met, not on request
+  if (session.quizType === 'exam') {
+    return NextResponse.json({ error: 'Exam sessions are completed by the exam simulator' }, { status: 400 });
   }
 
-  if (!answers || !Array.isArray(answers) || answers.length === 0) {
-    return NextResponse.json({ error: 'Answers array required' }, { status: 400 });
+  if (session.endedAt) {
+    return NextResponse.json({ error: 'Quiz session already completed' }, { status: 409 });
   }
 
-  if (totalQuestions === undefined || correctAnswers === undefined) {
-    return NextResponse.json(
-      { error: 'totalQuestions and correctAnswers required' },
-      { status: 400 }
-    );
+  // 3. Recompute the score from the answers graded by /api/quiz-sessions/answer
+  const answers = await db
+    .select({ isCorrect: quizSessionAnswers.isCorrect })
+    .from(quizSessionAnswers)
+    .where(eq(quizSessionAnswers.sessionId, session.id))
+    .orderBy(asc(quizSessionAnswers.questionOrder));
+
+  if (answers.length === 0) {
+    return NextResponse.json({ error: 'No answers recorded for this quiz' }, { status: 400 });
   }
 
-  // 3. Calculate quiz metrics
+  const { correctAnswers, totalQuestions, scorePercentage } = scoreQuizAnswers(
+    answers,
+    session.totalQuestions ?? 0
+  );
+
   const now = new Date();
-  const startDate = new Date(startTime);
-  const quizDuration = Math.floor((now.getTime() - startDate.getTime()) / 1000); // in seconds
-  const scorePercentage = totalQuestions > 0 ? (correctAnswers / totalQuestions) * 100 : 0;
-
-  // 4. Insert quiz session record
-  const [session] = await db
-    .insert(quizSessions)
-    .values({
-      clerkUserId: userId,
-      flashcardId: quizType === 'flashcard' ? flashcardId : null,
-      deckId: quizType === 'deck' ? deckId : null,
-      quizType,
-      startedAt: startDate,
+  // Resumed quizzes count the time spent answering, not the time between visits
+  const quizDuration = session.elapsedSeconds || Math.floor((now.getTime() - session.startedAt.getTime()) / 1000); // in seconds
+
+  // 4. Close the session; the endedAt guard stops a double submit from counting twice
+  const [closed] = await db
+    .update(quizSessions)
+    .set({
       endedAt: now,
       totalQuestions,
       correctAnswers,
       scorePercentage: scorePercentage.toFixed(2),
       quizDuration,
     })
+    .where(and(eq(quizSessions.id, session.id), isNull(quizSessions.endedAt)))
     .returning();
 
-  // 5. Bulk insert all quiz answers
-  if (answers.length > 0) {
-    const answersToInsert = answers.map((answer) => ({
-      sessionId: session.id,
-      quizQuestionId: answer.questionType === 'flashcard' ? answer.questionId : null,
-      deckQuizQuestionId: answer.questionType === 'deck' ? answer.questionId : null,
-      selectedOptionIndex: answer.selectedOptionIndex,
-      isCorrect: answer.isCorrect,
-      timeSpent: answer.timeSpent || 0,
-      questionOrder: answer.questionOrder,
-    }));
-
-    await db.insert(quizSessionAnswers).values(answersToInsert);
+  if (!closed) {
+    return NextResponse.json({ error: 'Quiz session already completed' }, { status: 409 });
   }
 
-  // 6. Update aggregate progress tables
+  const { flashcardId, deckId, quizType } = session;
+
+  const timeZone = await getUserTimeZone(userId, request.headers.get(DAILY_CARD_LIMIT_CONFIG.TIMEZONE_HEADER));
+  await recordDailyActivity(userId, { quizSessions: 1, studySeconds: quizDuration }, timeZone, now);
+
+  // 5. Update aggregate progress tables
   let masteryStatus: string | undefined;
 
   if (quizType === 'flashcard' && flashcardId) {
@@ -289,6 +265,13 @@ async function completeQuizSession(request: NextRequest) {
     );
   }
 
+  // 6. Award XP and achievements from the graded answers; history-based ones see the updated progress
+  const rewards = await awardQuizRewards(
+    userId,
+    session.id,
+    getQuizStatsFromAnswers(answers, totalQuestions, quizDuration)
+  );
+
   // 7. Invalidate cache for class progress
   try {
     if (flashcardId) {
@@ -320,8 +303,11 @@ async function completeQuizSession(request: NextRequest) {
   return NextResponse.json({
     success: true,
     sessionId: session.id,
+    correctAnswers,
+    totalQuestions,
     scorePercentage: parseFloat(scorePercentage.toFixed(2)),
     masteryStatus,
+    rewards,
   });
 }
 
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { quizSessions } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { commonValidators } from '@/lib/api/validate';
+import { advanceExamSession } from '@/lib/quiz/exam-session';
+
+/**
+ * GET /api/quiz-sessions/exam/[id]
+ * Current item of an exam in progress, or the score report of a finished one
+ */
+async function getExamSession(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!commonValidators.uuid.safeParse(id).success) {
+      return NextResponse.json({ error: 'Exam session not found' }, { status: 404 });
+    }
+
+    const session = await db.query.quizSessions.findFirst({
+      where: and(
+        eq(quizSessions.id, id),
+        eq(quizSessions.clerkUserId, userId),
+        eq(quizSessions.quizType, 'exam')
+      ),
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Exam session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await advanceExamSession(session));
+  } catch (error) {
+    console.error('Error fetching exam session:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(getExamSession as (req: NextRequest, ...args: unknown[]) => Promise<NextResponse>, 'get exam session'),
+  { logRequest: true, logResponse: false }
+) as typeof getExamSession;
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/daily-card-limit', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/daily-card-limit')>()),
+  getUserTimeZone: vi.fn().mockResolvedValue('UTC'),
+}));
+
+vi.mock('@/lib/activity/daily-activity', () => ({
+  recordDailyActivity: vi.fn(),
+}));
+
+const insertValues = vi.fn();
+const updateReturning = vi.fn();
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    query: {
+      quizSessions: {
+        findFirst: vi.fn(),
+      },
+      deckQuizQuestions: {
+        findFirst: vi.fn(),
+      },
+    },
+    select: vi.fn(() => ({ from: () => ({ where: vi.fn().mockResolvedValue([{ answered: 4 }]) }) })),
+    update: vi.fn(() => ({ set: () => ({ where: () => ({ returning: updateReturning }) }) })),
+    insert: vi.fn(() => ({ values: insertValues })),
+  },
+}));
+
+vi.mock('@/lib/quiz/exam-session', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/quiz/exam-session')>()),
+  advanceExamSession: vi.fn(),
+}));
+
+const { db } = await import('@/lib/db');
+const { auth } = await import('@clerk/nextjs/server');
+const { advanceExamSession } = await import('@/lib/quiz/exam-session');
+
+function createRequest(body?: unknown) {
+  return new NextRequest(new URL('http://localhost/api/quiz-sessions/exam/answer'), {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+}
+
+const examSession = {
+  id: 's1',
+  clerkUserId: 'user_1',
+  quizType: 'exam',
+  startedAt: new Date(Date.now() - 60_000),
+  endedAt: null,
+  currentQuestionId: 'q5',
+};
+
+const answer = {
+  sessionId: 's1',
+  questionId: 'q5',
+  selectedOptionId: 'opt-b',
+  optionOrder: ['opt-b', 'opt-a'],
+  timeSpent: 40,
+};
+
+describe('/api/quiz-sessions/exam/answer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(examSession);
+    (db.query.deckQuizQuestions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      options: [
+        { id: 'opt-a', text: 'Wrong', isCorrect: false },
+        { id: 'opt-b', text: 'Right', isCorrect: true },
+      ],
+    });
+    updateReturning.mockResolvedValue([{ ...examSession, currentQuestionId: null }]);
+    (advanceExamSession as ReturnType<typeof vi.fn>).mockResolvedValue({ status: 'in_progress', itemNumber: 6 });
+  });
+
+  it('rejects an answer to any item other than the current one', async () => {
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest({ ...answer, questionId: 'q4' }));
+
+    expect(res.status).toBe(409);
+    expect(insertValues).not.toHaveBeenCalled();
+  });
+
+  it('records the answer and delivers the next item without revealing the result', async () => {
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest(answer));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(insertValues).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sessionId: 's1',
+        deckQuizQuestionId: 'q5',
+        selectedOptionId: 'opt-b',
+        selectedOptionIndex: 0,
+        isCorrect: true,
+        questionOrder: 4,
+      })
+    );
+    expect(body).toEqual({ status: 'in_progress', itemNumber: 6 });
+  });
+
+  it('does not record a second answer when the item was already claimed', async () => {
+    updateReturning.mockResolvedValue([]);
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest(answer));
+
+    expect(res.status).toBe(409);
+    expect(insertValues).not.toHaveBeenCalled();
+  });
+
+  it('ends the exam instead of recording answers after the clock runs out', async () => {
+    (db.query.quizSessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ...examSession,
+      startedAt: new Date(Date.now() - 4 * 60 * 60 * 1000),
+    });
+    (advanceExamSession as ReturnType<typeof vi.fn>).mockResolvedValue({ status: 'completed' });
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest(answer));
+    const body = await res.json();
+
+    expect(body.status).toBe('completed');
+    expect(insertValues).not.toHaveBeenCalled();
+  });
+});
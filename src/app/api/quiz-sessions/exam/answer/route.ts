@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { quizSessions, quizSessionAnswers, deckQuizQuestions } from '@/lib/db/schema';
+import { and, count, eq } from 'drizzle-orm';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { gradeQuizResponse, isValidOptionOrder } from '@/lib/quiz/grading';
+import { getQuestionType, type QuizResponse } from '@/lib/quiz/question-types';
+import { CAT_EXAM_CONFIG } from '@/lib/quiz/cat-exam';
+import { advanceExamSession, getExamElapsedSeconds } from '@/lib/quiz/exam-session';
+import { DAILY_CARD_LIMIT_CONFIG, getUserTimeZone } from '@/lib/daily-card-limit';
+import { recordDailyActivity } from '@/lib/activity/daily-activity';
+
+interface SubmitExamAnswerRequest {
+  sessionId: string;
+  questionId: string;
+  response?: QuizResponse; // Typed response for any question type
+  selectedOptionId?: string; // Shorthand for a single choice response
+  optionOrder?: string[]; // Option ids in the order they were shown (not sent for hotspot questions)
+  timeSpent?: number;
+}
+
+/**
+ * POST /api/quiz-sessions/exam/answer
+ * Grade the current exam item and deliver the next one, or the result once the exam ends
+ * Correctness is not revealed during the exam, as on the real CAT
+ */
+async function submitExamAnswer(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: SubmitExamAnswerRequest = await request.json();
+    const { sessionId, questionId, selectedOptionId, optionOrder, timeSpent } = body;
+    const response: QuizResponse | undefined = body.response
+      ?? (selectedOptionId ? { type: 'single_choice', optionId: selectedOptionId } : undefined);
+
+    if (!sessionId || !questionId || !response) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const session = await db.query.quizSessions.findFirst({
+      where: and(
+        eq(quizSessions.id, sessionId),
+        eq(quizSessions.clerkUserId, userId),
+        eq(quizSessions.quizType, 'exam')
+      ),
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Exam session not found' }, { status: 404 });
+    }
+
+    if (session.endedAt) {
+      return NextResponse.json({ error: 'Exam already completed' }, { status: 409 });
+    }
+
+    // Answers that arrive after the clock runs out are not counted
+    if (getExamElapsedSeconds(session) >= CAT_EXAM_CONFIG.TIME_LIMIT_SECONDS) {
+      return NextResponse.json(await advanceExamSession(session));
+    }
+
+    // Only the item being shown can be answered: no going back and no skipping ahead
+    if (session.currentQuestionId !== questionId) {
+      return NextResponse.json({ error: 'This is not the current exam question' }, { status: 409 });
+    }
+
+    const question = await db.query.deckQuizQuestions.findFirst({
+      where: eq(deckQuizQuestions.id, questionId),
+      columns: { questionType: true, options: true },
+    });
+
+    if (!question) {
+      return NextResponse.json({ error: 'Question not found in this exam' }, { status: 404 });
+    }
+
+    const isCorrect = gradeQuizResponse(question, response);
+    if (isCorrect === null) {
+      return NextResponse.json({ error: 'Invalid response for this question' }, { status: 400 });
+    }
+
+    const isHotspot = getQuestionType(question.questionType) === 'hotspot';
+    if (!isHotspot && !isValidOptionOrder(question.options, optionOrder)) {
+      return NextResponse.json({ error: 'Invalid option order' }, { status: 400 });
+    }
+
+    const selectedId = response.type === 'single_choice' ? response.optionId : null;
+
+    // Clearing the current item claims it, so a double submit cannot record two answers
+    const [updated] = await db
+      .update(quizSessions)
+      .set({ currentQuestionId: null })
+      .where(and(eq(quizSessions.id, session.id), eq(quizSessions.currentQuestionId, questionId)))
+      .returning();
+
+    if (!updated) {
+      return NextResponse.json({ error: 'This is not the current exam question' }, { status: 409 });
+    }
+
+    const [{ answered }] = await db
+      .select({ answered: count() })
+      .from(quizSessionAnswers)
+      .where(eq(quizSessionAnswers.sessionId, session.id));
+
+    await db.insert(quizSessionAnswers).values({
+      sessionId: session.id,
+      deckQuizQuestionId: questionId,
+      selectedOptionId: selectedId,
+      selectedOptionIndex: selectedId && optionOrder ? optionOrder.indexOf(selectedId) : null,
+      optionOrder: isHotspot ? null : optionOrder,
+      response,
+      isCorrect,
+      timeSpent: timeSpent || 0,
+      questionOrder: answered,
+    });
+
+    const timeZone = await getUserTimeZone(userId, request.headers.get(DAILY_CARD_LIMIT_CONFIG.TIMEZONE_HEADER));
+    await recordDailyActivity(userId, { questionsAnswered: 1 }, timeZone);
+
+    return NextResponse.json(await advanceExamSession(updated));
+  } catch (error) {
+    console.error('Error submitting exam answer:', error);
+    throw error;
+  }
+}
+
+export const POST = withTracing(
+  withErrorHandling(submitExamAnswer, 'submit exam answer'),
+  { logRequest: true, logResponse: false }
+);
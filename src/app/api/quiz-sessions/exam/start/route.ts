@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { quizSessions } from '@/lib/db/schema';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { ensureUserExists } from '@/lib/db/ensure-user';
+import { advanceExamSession, loadExamPool } from '@/lib/quiz/exam-session';
+
+/**
+ * POST /api/quiz-sessions/exam/start
+ * Start a CAT exam simulation, or pick up the one already in progress
+ */
+async function startExamSession() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await ensureUserExists(userId);
+
+    // An open exam keeps running on the clock, so resume it instead of starting over
+    const openExam = await db.query.quizSessions.findFirst({
+      where: and(
+        eq(quizSessions.clerkUserId, userId),
+        eq(quizSessions.quizType, 'exam'),
+        isNull(quizSessions.endedAt)
+      ),
+      orderBy: [desc(quizSessions.startedAt)],
+    });
+
+    if (openExam) {
+      const progress = await advanceExamSession(openExam);
+      if (progress.status === 'in_progress') {
+        return NextResponse.json({ ...progress, resumed: true });
+      }
+    }
+
+    const pool = await loadExamPool();
+    if (pool.length === 0) {
+      return NextResponse.json({ error: 'No quiz questions available' }, { status: 404 });
+    }
+
+    const [session] = await db
+      .insert(quizSessions)
+      .values({
+        clerkUserId: userId,
+        quizType: 'exam',
+        startedAt: new Date(),
+        totalQuestions: 0,
+        correctAnswers: 0,
+      })
+      .returning();
+
+    const progress = await advanceExamSession(session);
+
+    return NextResponse.json({ ...progress, resumed: false });
+  } catch (error) {
+    console.error('Error starting exam session:', error);
+    throw error;
+  }
+}
+
+export const POST = withTracing(
+  withErrorHandling(startExamSession, 'start exam session'),
+  { logRequest: true, logResponse: false }
+);
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { commonValidators } from '@/lib/api/validate';
+import { getResumableQuizzes } from '@/lib/quiz/resumable-quizzes';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/quiz-sessions/in-progress?deckId=
+ * Unfinished deck quizzes the user can pick up again, optionally for one deck
+ */
+async function getInProgressQuizzes(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deckId = request.nextUrl.searchParams.get('deckId') ?? undefined;
+
+    if (deckId && !commonValidators.uuid.safeParse(deckId).success) {
+      return NextResponse.json({ error: 'Invalid deck id' }, { status: 400 });
+    }
+
+    const quizzes = await getResumableQuizzes(userId, { deckId });
+
+    return NextResponse.json({ quizzes });
+  } catch (error) {
+    console.error('Error fetching in-progress quizzes:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(getInProgressQuizzes, 'get in-progress quizzes'),
+  { logRequest: true, logResponse: false }
+);
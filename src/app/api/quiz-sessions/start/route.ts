@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { quizSessions, quizQuestions, deckQuizQuestions, flashcards, decks } from '@/lib/db/schema';
+import { and, eq, asc, inArray } from 'drizzle-orm';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { ensureUserExists } from '@/lib/db/ensure-user';
+import { getStoredOptions } from '@/lib/quiz/grading';
+import { buildQuizLayout } from '@/lib/quiz/quiz-layout';
+import { getDeckEntitlement, isDeckLocked, buildUpgradeRequired, upgradeRequiredResponse } from '@/lib/entitlements';
+import { commonValidators } from '@/lib/api/validate';
+import { TOPIC_INSIGHTS_CONFIG } from '@/lib/quiz/topic-accuracy';
+import { buildDrillQuestionIds } from '@/lib/quiz/topic-insights';
+
+interface StartQuizRequest {
+  flashcardId?: string;
+  deckId?: string;
+  subTopicIds?: string[]; // Sub-topics to drill (drill quizzes only)
+  quizType: 'flashcard' | 'deck' | 'drill';
+}
+
+/**
+ * Snapshot the deck quiz questions for a sub-topic drill, in the order they are drilled
+ * Premium decks the user cannot open are left out of the pool
+ */
+async function loadDrillQuestions(userId: string, subTopicIds: string[]) {
+  const questionIds = await buildDrillQuestionIds(userId, subTopicIds);
+  if (questionIds.length === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .select({ id: deckQuizQuestions.id, options: deckQuizQuestions.options })
+    .from(deckQuizQuestions)
+    .where(inArray(deckQuizQuestions.id, questionIds));
+
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  return questionIds.flatMap((id) => byId.get(id) ?? []);
+}
+
+/**
+ * POST /api/quiz-sessions/start
+ * Open a quiz session that answers are graded into as the learner submits them
+ * The response carries the question and option order to show, which resume restores
+ */
+async function startQuizSession(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await ensureUserExists(userId);
+
+    const body: StartQuizRequest = await request.json();
+    const { flashcardId, deckId, subTopicIds, quizType } = body;
+
+    if (quizType !== 'flashcard' && quizType !== 'deck' && quizType !== 'drill') {
+      return NextResponse.json({ error: 'Invalid quiz type' }, { status: 400 });
+    }
+
+    if (
+      quizType === 'drill' &&
+      (!Array.isArray(subTopicIds) ||
+        subTopicIds.length === 0 ||
+        subTopicIds.length > TOPIC_INSIGHTS_CONFIG.DRILL_SUB_TOPICS ||
+        !subTopicIds.every((id) => commonValidators.uuid.safeParse(id).success))
+    ) {
+      return NextResponse.json(
+        { error: `subTopicIds must list 1-${TOPIC_INSIGHTS_CONFIG.DRILL_SUB_TOPICS} sub-topics for a drill` },
+        { status: 400 }
+      );
+    }
+
+    if (quizType === 'flashcard' && !flashcardId) {
+      return NextResponse.json(
+        { error: 'flashcardId required for flashcard quiz' },
+        { status: 400 }
+      );
+    }
+
+    if (quizType === 'deck' && !deckId) {
+      return NextResponse.json(
+        { error: 'deckId required for deck quiz' },
+        { status: 400 }
+      );
+    }
+
+    // Learners only quiz on published flashcards
+    const flashcard = quizType === 'flashcard'
+      ? await db.query.flashcards.findFirst({
+          where: and(eq(flashcards.id, flashcardId!), eq(flashcards.status, 'published')),
+          columns: { id: true },
+          with: { deck: { columns: { id: true, name: true, isPremium: true } } },
+        })
+      : undefined;
+
+    if (quizType === 'flashcard' && !flashcard) {
+      return NextResponse.json({ error: 'Flashcard not found' }, { status: 404 });
+    }
+
+    // Quizzes on premium decks need a paid plan; drills leave locked decks out of their pool instead
+    const deck = quizType === 'drill'
+      ? undefined
+      : quizType === 'flashcard'
+      ? flashcard?.deck
+      : await db.query.decks.findFirst({
+          where: eq(decks.id, deckId!),
+          columns: { id: true, name: true, isPremium: true },
+        });
+
+    if (deck) {
+      const entitlement = await getDeckEntitlement([deck]);
+      if (isDeckLocked(entitlement, deck.id)) {
+        return upgradeRequiredResponse(
+          buildUpgradeRequired(entitlement, [{ id: deck.id, name: deck.name }])
+        );
+      }
+    }
+
+    // Snapshot the questions so unanswered ones count against the score
+    // and a resumed attempt shows the same question and option order
+    const questions = quizType === 'drill'
+      ? await loadDrillQuestions(userId, subTopicIds!)
+      : quizType === 'flashcard'
+      ? await db
+          .select({ id: quizQuestions.id, options: quizQuestions.options })
+          .from(quizQuestions)
+          .where(eq(quizQuestions.flashcardId, flashcardId!))
+          .orderBy(asc(quizQuestions.order))
+      : await db
+          .select({ id: deckQuizQuestions.id, options: deckQuizQuestions.options })
+          .from(deckQuizQuestions)
+          .where(and(eq(deckQuizQuestions.deckId, deckId!), eq(deckQuizQuestions.status, 'published')))
+          .orderBy(asc(deckQuizQuestions.order));
+
+    const total = questions.length;
+
+    if (total === 0) {
+      return NextResponse.json({ error: 'No quiz questions available' }, { status: 404 });
+    }
+
+    const layout = buildQuizLayout(
+      questions.map((question) => ({ id: question.id, options: getStoredOptions(question.options) }))
+    );
+
+    const [session] = await db
+      .insert(quizSessions)
+      .values({
+        clerkUserId: userId,
+        flashcardId: quizType === 'flashcard' ? flashcardId : null,
+        deckId: quizType === 'deck' ? deckId : null,
+        quizType,
+        startedAt: new Date(),
+        totalQuestions: total,
+        correctAnswers: 0,
+        questionOrder: layout.questionOrder,
+        optionOrders: layout.optionOrders,
+        elapsedSeconds: 0,
+      })
+      .returning();
+
+    return NextResponse.json({
+      sessionId: session.id,
+      startedAt: session.startedAt,
+      totalQuestions: total,
+      layout,
+    });
+  } catch (error) {
+    console.error('Error starting quiz session:', error);
+    throw error;
+  }
+}
+
+export const POST = withTracing(
+  withErrorHandling(startQuizSession, 'start quiz session'),
+  { logRequest: true, logResponse: false }
+);
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { getReadinessReport } from '@/lib/readiness/readiness-history';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/readiness
+ * The user's exam readiness: an overall score with a confidence band and pass probability,
+ * the same per domain, the domains to focus on next, and the daily history of the score
+ */
+async function getReadiness() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const report = await getReadinessReport(userId);
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error fetching exam readiness:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(getReadiness, 'get exam readiness'),
+  { logRequest: true, logResponse: false }
+);
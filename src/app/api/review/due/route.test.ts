@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+const selectWhere = vi.fn();
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    query: {
+      userCardProgress: {
+        findMany: vi.fn(),
+      },
+      bookmarkedFlashcards: {
+        findMany: vi.fn(),
+      },
+    },
+    select: vi.fn(() => ({ from: () => ({ where: selectWhere }) })),
+  },
+}));
+
+vi.mock('@/lib/daily-card-limit', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/daily-card-limit')>()),
+  getUserTimeZone: vi.fn().mockResolvedValue('UTC'),
+}));
+
+vi.mock('@/lib/subscription', () => ({
+  hasPaidAccess: vi.fn(),
+  getUserPlan: vi.fn(),
+}));
+
+const { db } = await import('@/lib/db');
+const { hasPaidAccess, getUserPlan } = await import('@/lib/subscription');
+const { auth } = await import('@clerk/nextjs/server');
+const { getUserTimeZone, getLocalDateString } = await import('@/lib/daily-card-limit');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Shared by every fixture so cards built a few milliseconds apart get identical timestamps
+const FIXTURE_NOW = Date.now();
+
+function createRequest(params?: Record<string, string>) {
+  let url = 'http://localhost/api/review/due';
+  if (params) {
+    url += `?${new URLSearchParams(params).toString()}`;
+  }
+  return new NextRequest(new URL(url), { method: 'GET' });
+}
+
+function makeFlashcard(id: string, domainNumber: number, isPublished = true, isPremium = false) {
+  return {
+    id,
+    question: `Question ${id}`,
+    answer: `Answer ${id}`,
+    explanation: null,
+    isPublished,
+    media: [],
+    deck: {
+      id: `deck-${domainNumber}`,
+      name: `Domain ${domainNumber} deck`,
+      domainNumber,
+      isPublished: true,
+      isPremium,
+      class: { id: 'c1', name: 'CISSP', isPublished: true },
+    },
+  };
+}
+
+function makeProgress(id: string, domainNumber: number, options: { dueInDays: number; lastSeenDaysAgo: number; stability: string }) {
+  const now = FIXTURE_NOW;
+  return {
+    flashcardId: id,
+    nextReviewDate: new Date(now + options.dueInDays * DAY_MS),
+    lastSeen: new Date(now - options.lastSeenDaysAgo * DAY_MS),
+    easeFactor: '2.50',
+    stability: options.stability,
+    intervalDays: options.stability,
+    lastIntervalDays: '0',
+    lapses: 0,
+    flashcard: makeFlashcard(id, domainNumber),
+  };
+}
+
+describe('/api/review/due', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (db.query.bookmarkedFlashcards.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    (db.query.userCardProgress.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    selectWhere.mockResolvedValue([{ count: 0 }]);
+    (getUserTimeZone as ReturnType<typeof vi.fn>).mockResolvedValue('UTC');
+    (hasPaidAccess as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+    (getUserPlan as ReturnType<typeof vi.fn>).mockResolvedValue('free');
+  });
+
+  it('returns 401 when unauthenticated', async () => {
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: null });
+    const { GET } = await import('./route');
+
+    const res = await GET(createRequest());
+
+    expect(res.status).toBe(401);
+  });
+
+  it('orders due cards by overdue-ness then domain and leaves future cards out of the queue', async () => {
+    (db.query.userCardProgress.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      makeProgress('slightly-due', 1, { dueInDays: -0.1, lastSeenDaysAgo: 3, stability: '3' }),
+      makeProgress('very-overdue', 5, { dueInDays: -10, lastSeenDaysAgo: 13, stability: '3' }),
+      makeProgress('same-recall-d2', 2, { dueInDays: -1, lastSeenDaysAgo: 8, stability: '7' }),
+      makeProgress('same-recall-d1', 1, { dueInDays: -1, lastSeenDaysAgo: 8, stability: '7' }),
+      makeProgress('future', 3, { dueInDays: 2, lastSeenDaysAgo: 1, stability: '3' }),
+    ]);
+    const { GET } = await import('./route');
+
+    const res = await GET(createRequest());
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.cards.map((c: { id: string }) => c.id)).toEqual([
+      'very-overdue',
+      'same-recall-d1',
+      'same-recall-d2',
+      'slightly-due',
+    ]);
+    expect(body.totalDue).toBe(4);
+    expect(body.forecast.dueNow).toBe(4);
+    expect(body.forecast.next7Days).toBe(1);
+  });
+
+  it('adds never-rated bookmarks after scheduled reviews and skips unpublished cards', async () => {
+    (db.query.userCardProgress.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      makeProgress('review', 4, { dueInDays: -1, lastSeenDaysAgo: 4, stability: '3' }),
+    ]);
+    (db.query.bookmarkedFlashcards.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      { flashcardId: 'bookmark-new', flashcard: makeFlashcard('bookmark-new', 2) },
+      { flashcardId: 'bookmark-rated', flashcard: makeFlashcard('bookmark-rated', 2) },
+      { flashcardId: 'bookmark-draft', flashcard: makeFlashcard('bookmark-draft', 2, false) },
+      { flashcardId: 'review', flashcard: makeFlashcard('review', 4) },
+    ]);
+    selectWhere
+      .mockResolvedValueOnce([{ count: 0 }])
+      .mockResolvedValueOnce([{ flashcardId: 'bookmark-rated' }]);
+    const { GET } = await import('./route');
+
+    const res = await GET(createRequest());
+    const body = await res.json();
+
+    expect(body.cards.map((c: { id: string }) => c.id)).toEqual(['review', 'bookmark-new']);
+    expect(body.cards[0].isBookmarked).toBe(true);
+    expect(body.cards[1].isNew).toBe(true);
+  });
+
+  it('applies the daily cap minus cards already reviewed today', async () => {
+    (db.query.userCardProgress.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      makeProgress('a', 1, { dueInDays: -1, lastSeenDaysAgo: 4, stability: '3' }),
+      makeProgress('b', 2, { dueInDays: -1, lastSeenDaysAgo: 4, stability: '3' }),
+      makeProgress('c', 3, { dueInDays: -1, lastSeenDaysAgo: 4, stability: '3' }),
+    ]);
+    selectWhere.mockResolvedValue([{ count: 3 }]);
+    const { GET } = await import('./route');
+
+    const res = await GET(createRequest({ limit: '5' }));
+    const body = await res.json();
+
+    expect(body.dailyCap).toBe(5);
+    expect(body.reviewedToday).toBe(3);
+    expect(body.remainingToday).toBe(2);
+    expect(body.cards).toHaveLength(2);
+    expect(body.totalDue).toBe(3);
+  });
+
+  it('counts days in the user\'s timezone', async () => {
+    // UTC+14, so its calendar day differs from UTC for most of the day
+    (getUserTimeZone as ReturnType<typeof vi.fn>).mockResolvedValue('Pacific/Kiritimati');
+    (db.query.userCardProgress.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      makeProgress('tomorrow', 1, { dueInDays: 1, lastSeenDaysAgo: 1, stability: '3' }),
+    ]);
+    const { GET } = await import('./route');
+
+    const res = await GET(createRequest());
+    const body = await res.json();
+
+    const today = getLocalDateString(new Date(), 'Pacific/Kiritimati');
+    const tomorrow = getLocalDateString(new Date(FIXTURE_NOW + DAY_MS), 'Pacific/Kiritimati');
+    expect(body.forecast.daily[0].date).toBe(today);
+    expect(body.forecast.daily.find((day: { date: string }) => day.date === tomorrow).count).toBe(1);
+  });
+
+  it('withholds cards from premium decks the user cannot open', async () => {
+    const premium = { ...makeProgress('premium', 7, { dueInDays: -1, lastSeenDaysAgo: 4, stability: '3' }), flashcard: makeFlashcard('premium', 7, true, true) };
+    (db.query.userCardProgress.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      makeProgress('free', 1, { dueInDays: -1, lastSeenDaysAgo: 4, stability: '3' }),
+      premium,
+    ]);
+    (db.query.bookmarkedFlashcards.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      { flashcardId: 'premium', flashcard: makeFlashcard('premium', 7, true, true) },
+    ]);
+    (getUserPlan as ReturnType<typeof vi.fn>).mockResolvedValue('expired');
+    const { GET } = await import('./route');
+
+    const res = await GET(createRequest());
+    const body = await res.json();
+
+    expect(body.cards.map((c: { id: string }) => c.id)).toEqual(['free']);
+    expect(JSON.stringify(body)).not.toContain('Answer premium');
+    expect(body.upgradeRequired).toMatchObject({
+      code: 'upgrade_required',
+      plan: 'expired',
+      lockedDecks: [{ id: 'deck-7', name: 'Domain 7 deck' }],
+    });
+  });
+
+  it('includes premium cards for paid users', async () => {
+    (hasPaidAccess as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+    (db.query.userCardProgress.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      { ...makeProgress('premium', 7, { dueInDays: -1, lastSeenDaysAgo: 4, stability: '3' }), flashcard: makeFlashcard('premium', 7, true, true) },
+    ]);
+    const { GET } = await import('./route');
+
+    const body = await (await GET(createRequest())).json();
+
+    expect(body.cards.map((c: { id: string }) => c.id)).toEqual(['premium']);
+    expect(body.upgradeRequired).toBeNull();
+  });
+});
@@ -0,0 +1,293 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { userCardProgress, bookmarkedFlashcards } from '@/lib/db/schema';
+import { eq, and, or, gte, lte, isNull, inArray, count } from 'drizzle-orm';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { getSchedulingState } from '@/lib/spaced-repetition/scheduler';
+import {
+  buildReviewQueue,
+  buildReviewForecast,
+  parseDailyCap,
+  getForecastHorizon,
+  type ReviewCandidate,
+} from '@/lib/spaced-repetition/review-queue';
+import { DAILY_CARD_LIMIT_CONFIG, getStartOfLocalDay, getUserTimeZone } from '@/lib/daily-card-limit';
+import { getDeckEntitlement, isDeckLocked, buildUpgradeRequired } from '@/lib/entitlements';
+
+type FlashcardWithDeck = {
+  id: string;
+  question: string;
+  answer: string;
+  explanation: string | null;
+  isPublished: boolean | null;
+  media: Array<{ id: string; fileUrl: string; altText: string | null; placement: string; order: number }>;
+  deck: {
+    id: string;
+    name: string;
+    domainNumber: number | null;
+    isPublished: boolean | null;
+    isPremium: boolean | null;
+    class: { id: string; name: string; isPublished: boolean | null };
+  };
+};
+
+type DueCard = ReviewCandidate & {
+  id: string;
+  question: string;
+  answer: string;
+  explanation: string | null;
+  deckId: string;
+  deckName: string;
+  classId: string;
+  className: string;
+  isBookmarked: boolean;
+  media: FlashcardWithDeck['media'];
+};
+
+const flashcardWith = {
+  columns: {
+    id: true,
+    question: true,
+    answer: true,
+    explanation: true,
+    isPublished: true,
+  },
+  with: {
+    media: {
+      columns: {
+        id: true,
+        fileUrl: true,
+        altText: true,
+        placement: true,
+        order: true,
+      },
+    },
+    deck: {
+      columns: {
+        id: true,
+        name: true,
+        domainNumber: true,
+        isPublished: true,
+        isPremium: true,
+      },
+      with: {
+        class: {
+          columns: {
+            id: true,
+            name: true,
+            isPublished: true,
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+/**
+ * Only cards that are published all the way up to their class can be reviewed
+ */
+function isVisible(flashcard: FlashcardWithDeck | null | undefined): flashcard is FlashcardWithDeck {
+  return !!flashcard &&
+    flashcard.isPublished !== false &&
+    flashcard.deck.isPublished !== false &&
+    flashcard.deck.class.isPublished !== false;
+}
+
+/**
+ * Drop cards from premium decks the user cannot open, listing those decks
+ */
+async function withholdLockedCards(flashcardList: FlashcardWithDeck[]) {
+  const deckList = [...new Map(flashcardList.map(flashcard => [flashcard.deck.id, flashcard.deck])).values()];
+  const entitlement = await getDeckEntitlement(deckList);
+
+  const lockedDecks = deckList
+    .filter(deck => isDeckLocked(entitlement, deck.id))
+    .map(deck => ({ id: deck.id, name: deck.name }));
+
+  return {
+    isLocked: (flashcard: FlashcardWithDeck) => isDeckLocked(entitlement, flashcard.deck.id),
+    upgradeRequired: lockedDecks.length > 0 ? buildUpgradeRequired(entitlement, lockedDecks) : null,
+  };
+}
+
+/**
+ * Flatten a flashcard and its deck/class into a due card
+ */
+function toDueCard(
+  flashcard: FlashcardWithDeck,
+  schedule: Pick<ReviewCandidate, 'nextReviewDate' | 'lastSeen' | 'stability' | 'isNew'>,
+  isBookmarked: boolean
+): DueCard {
+  return {
+    id: flashcard.id,
+    flashcardId: flashcard.id,
+    question: flashcard.question,
+    answer: flashcard.answer,
+    explanation: flashcard.explanation,
+    deckId: flashcard.deck.id,
+    deckName: flashcard.deck.name,
+    classId: flashcard.deck.class.id,
+    className: flashcard.deck.class.name,
+    domainNumber: flashcard.deck.domainNumber,
+    isBookmarked,
+    media: flashcard.media,
+    ...schedule,
+  };
+}
+
+/**
+ * Fetch studied cards that are due now or within the forecast window
+ */
+async function fetchScheduledCards(userId: string, horizon: Date) {
+  return db.query.userCardProgress.findMany({
+    where: and(
+      eq(userCardProgress.clerkUserId, userId),
+      or(
+        isNull(userCardProgress.nextReviewDate),
+        lte(userCardProgress.nextReviewDate, horizon)
+      )
+    ),
+    columns: {
+      flashcardId: true,
+      nextReviewDate: true,
+      lastSeen: true,
+      easeFactor: true,
+      stability: true,
+      intervalDays: true,
+      lastIntervalDays: true,
+      lapses: true,
+    },
+    with: {
+      flashcard: flashcardWith,
+    },
+  });
+}
+
+/**
+ * Of the given cards, find those the user has rated before
+ * (scheduled beyond the forecast window, so not returned by fetchScheduledCards)
+ */
+async function fetchRatedFlashcardIds(userId: string, flashcardIds: string[]): Promise<Set<string>> {
+  if (flashcardIds.length === 0) {
+    return new Set();
+  }
+
+  const rows = await db
+    .select({ flashcardId: userCardProgress.flashcardId })
+    .from(userCardProgress)
+    .where(
+      and(
+        eq(userCardProgress.clerkUserId, userId),
+        inArray(userCardProgress.flashcardId, flashcardIds)
+      )
+    );
+
+  return new Set(rows.map(row => row.flashcardId));
+}
+
+/**
+ * Count cards the user has already rated today in their timezone (counts against the daily cap)
+ */
+async function countReviewedToday(userId: string, now: Date, timeZone: string): Promise<number> {
+  const [result] = await db
+    .select({ count: count() })
+    .from(userCardProgress)
+    .where(
+      and(
+        eq(userCardProgress.clerkUserId, userId),
+        gte(userCardProgress.lastSeen, getStartOfLocalDay(now, timeZone))
+      )
+    );
+
+  return result?.count ?? 0;
+}
+
+/**
+ * GET /api/review/due?limit=200
+ * Get every card due for review across all classes, decks and bookmarks,
+ * ordered by overdue-ness and domain and capped per day.
+ * Also returns a forecast of cards coming due over the next 7/30 days.
+ */
+async function getDueReviews(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const dailyCap = parseDailyCap(request.nextUrl.searchParams.get('limit'));
+    const now = new Date();
+    // Days start at local midnight, as for the daily card limit and streaks
+    const timeZone = await getUserTimeZone(userId, request.headers.get(DAILY_CARD_LIMIT_CONFIG.TIMEZONE_HEADER));
+    const horizon = getForecastHorizon(now, timeZone);
+
+    const [scheduled, bookmarks, reviewedToday] = await Promise.all([
+      fetchScheduledCards(userId, horizon),
+      db.query.bookmarkedFlashcards.findMany({
+        where: eq(bookmarkedFlashcards.clerkUserId, userId),
+        columns: { flashcardId: true },
+        with: { flashcard: flashcardWith },
+      }),
+      countReviewedToday(userId, now, timeZone),
+    ]);
+
+    // Premium cards stay out of the queue for users without access to their deck
+    const { isLocked, upgradeRequired } = await withholdLockedCards(
+      [...scheduled.map(p => p.flashcard), ...bookmarks.map(b => b.flashcard)].filter(isVisible)
+    );
+
+    const bookmarkedIds = new Set(bookmarks.map(b => b.flashcardId));
+    const cards: DueCard[] = [];
+    const scheduledIds = new Set<string>();
+
+    for (const progress of scheduled) {
+      if (!isVisible(progress.flashcard) || isLocked(progress.flashcard)) continue;
+      scheduledIds.add(progress.flashcardId);
+      cards.push(toDueCard(progress.flashcard, {
+        nextReviewDate: progress.nextReviewDate,
+        lastSeen: progress.lastSeen,
+        stability: getSchedulingState(progress).stability,
+        isNew: false,
+      }, bookmarkedIds.has(progress.flashcardId)));
+    }
+
+    // Bookmarked cards the user has never rated are due straight away
+    const unscheduledBookmarks = bookmarks.filter(b => !scheduledIds.has(b.flashcardId));
+    const ratedIds = await fetchRatedFlashcardIds(userId, unscheduledBookmarks.map(b => b.flashcardId));
+
+    for (const bookmark of unscheduledBookmarks) {
+      if (ratedIds.has(bookmark.flashcardId) || !isVisible(bookmark.flashcard) || isLocked(bookmark.flashcard)) continue;
+      cards.push(toDueCard(bookmark.flashcard, {
+        nextReviewDate: null,
+        lastSeen: null,
+        stability: 0,
+        isNew: true,
+      }, true));
+    }
+
+    const remainingToday = Math.max(0, dailyCap - reviewedToday);
+    const { queue, totalDue } = buildReviewQueue(cards, now, remainingToday);
+
+    return NextResponse.json({
+      cards: queue,
+      totalDue,
+      dailyCap,
+      reviewedToday,
+      remainingToday,
+      forecast: buildReviewForecast(cards, now, timeZone),
+      upgradeRequired,
+    });
+
+  } catch (error) {
+    console.error('Error fetching due reviews:', error);
+    throw error;
+  }
+}
+
+export const GET = withTracing(
+  withErrorHandling(getDueReviews, 'get due reviews'),
+  { logRequest: true, logResponse: false }
+);
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    select: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/subscription', () => ({
+  hasPaidAccess: vi.fn(),
+  getUserPlan: vi.fn(),
+}));
+
+const { db } = await import('@/lib/db');
+const { auth } = await import('@clerk/nextjs/server');
+const { getUserPlan } = await import('@/lib/subscription');
+
+const SESSION_ID = '33333333-3333-4333-8333-333333333333';
+const DECK_1 = '11111111-1111-4111-8111-111111111111';
+const STARTED_AT = new Date('2024-01-01T00:00:00Z');
+
+const sessionValues = vi.fn();
+
+function createRequest() {
+  return new NextRequest(new URL(`http://localhost/api/sessions/${SESSION_ID}/retry-weak`), { method: 'POST' });
+}
+
+function params(id = SESSION_ID) {
+  return { params: Promise.resolve({ id }) };
+}
+
+function rating(flashcardId: string, confidenceRating: number, seconds: number) {
+  return {
+    flashcardId,
+    deckId: DECK_1,
+    question: `Question ${flashcardId}`,
+    confidenceRating,
+    previousConfidence: null,
+    createdAt: new Date(STARTED_AT.getTime() + seconds * 1000),
+  };
+}
+
+/**
+ * Queue results for the route's selects: the session, its ratings, then the decks access check
+ */
+function mockSelects(session: unknown[], ratings: unknown[]) {
+  (db.select as ReturnType<typeof vi.fn>)
+    .mockReturnValueOnce({
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      limit: vi.fn().mockResolvedValue(session),
+    })
+    .mockReturnValueOnce({
+      from: vi.fn().mockReturnThis(),
+      innerJoin: vi.fn().mockReturnThis(),
+      where: vi.fn().mockResolvedValue(ratings),
+    })
+    .mockReturnValueOnce({
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockResolvedValue([{ id: DECK_1, name: 'Deck 1', isPremium: false }]),
+    });
+}
+
+describe('/api/sessions/[id]/retry-weak', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (db.select as ReturnType<typeof vi.fn>).mockReset();
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (getUserPlan as ReturnType<typeof vi.fn>).mockResolvedValue('free');
+
+    const tx = {
+      insert: vi.fn()
+        .mockReturnValueOnce({
+          values: sessionValues.mockReturnValue({
+            returning: vi.fn().mockResolvedValue([{ id: 'session_2', startedAt: STARTED_AT }]),
+          }),
+        })
+        .mockReturnValueOnce({ values: vi.fn().mockResolvedValue(undefined) }),
+    };
+    (db.transaction as ReturnType<typeof vi.fn>).mockImplementation((fn: (t: typeof tx) => unknown) => fn(tx));
+  });
+
+  it('returns 404 for a session the user does not own', async () => {
+    mockSelects([], []);
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest(), params());
+
+    expect(res.status).toBe(404);
+    expect(db.transaction).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 when no cards were rated weak', async () => {
+    mockSelects(
+      [{ id: SESSION_ID, startedAt: STARTED_AT, endedAt: null }],
+      [rating('c1', 4, 10), rating('c2', 5, 20)]
+    );
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest(), params());
+    const body = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('No weak cards to study again');
+  });
+
+  it('starts a new session focused on the weak cards', async () => {
+    mockSelects(
+      [{ id: SESSION_ID, startedAt: STARTED_AT, endedAt: null }],
+      [rating('c1', 1, 10), rating('c2', 5, 20), rating('c3', 2, 30)]
+    );
+    const { POST } = await import('./route');
+
+    const res = await POST(createRequest(), params());
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ sessionId: 'session_2', cardCount: 2 });
+    expect(sessionValues).toHaveBeenCalledWith(
+      expect.objectContaining({
+        clerkUserId: 'user_1',
+        focusFlashcardIds: ['c1', 'c3'],
+      })
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { studySessions, sessionCards, flashcards } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { withErrorHandling } from '@/lib/api/error-handler';
+import { withTracing } from '@/lib/middleware/with-tracing';
+import { commonValidators } from '@/lib/api/validate';
+import { buildSessionSummary } from '@/lib/study-sessions/summary';
+import { getSessionDeckAccessError, insertStudySession } from '@/lib/study-sessions/create-session';
+
+/**
+ * POST /api/sessions/[id]/retry-weak
+ * Start a new session with only the cards rated weak in the given session
+ */
+async function retryWeakCards(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await params;
+
+    if (!commonValidators.uuid.safeParse(sessionId).success) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const [session] = await db
+      .select()
+      .from(studySessions)
+      .where(
+        and(
+          eq(studySessions.id, sessionId),
+          eq(studySessions.clerkUserId, userId)
+        )
+      )
+      .limit(1);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const ratings = await db
+      .select({
+        flashcardId: sessionCards.flashcardId,
+        deckId: flashcards.deckId,
+        question: flashcards.question,
+        confidenceRating: sessionCards.confidenceRating,
+        previousConfidence: sessionCards.previousConfidence,
+        createdAt: sessionCards.createdAt,
+      })
+      .from(sessionCards)
+      .innerJoin(flashcards, eq(sessionCards.flashcardId, flashcards.id))
+      .where(
+        and(
+          eq(sessionCards.sessionId, sessionId),
+          eq(flashcards.isPublished, true)
+        )
+      );
+
+    const { weakCards } = buildSessionSummary(ratings, session.startedAt, session.endedAt);
+
+    if (weakCards.length === 0) {
+      return NextResponse.json({ error: 'No weak cards to study again' }, { status: 400 });
+    }
+
+    const deckIds = Array.from(new Set(weakCards.map((card) => card.deckId)));
+
+    const accessError = await getSessionDeckAccessError(deckIds);
+    if (accessError) {
+      return accessError;
+    }
+
+    const newSession = await insertStudySession(
+      userId,
+      deckIds,
+      weakCards.map((card) => card.flashcardId)
+    );
+
+    return NextResponse.json({
+      sessionId: newSession.id,
+      startedAt: newSession.startedAt,
+      cardCount: weakCards.length,
+    });
+  } catch (error) {
+    console.error('Error retrying weak cards:', error);
+    throw error;
+  }
+}
+
+export const POST = withTracing(
+  withErrorHandling(retryWeakCards as (req: NextRequest, ...args: unknown[]) => Promise<NextResponse>, 'retry weak cards'),
+  { logRequest: true, logResponse: false }
+) as typeof retryWeakCards;
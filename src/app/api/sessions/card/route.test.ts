@@ -8,12 +8,28 @@ vi.mock('@clerk/nextjs/server', () => ({
 
 vi.mock('@/lib/db', () => ({
   db: {
+    query: {
+      studySessions: {
+        findFirst: vi.fn(),
+      },
+      userCardProgress: {
+        findFirst: vi.fn().mockResolvedValue(undefined),
+      },
+    },
     insert: vi.fn().mockReturnValue({ values: vi.fn().mockReturnThis() }),
   },
 }));
 
 
+vi.mock('@/lib/daily-card-limit', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/daily-card-limit')>()),
+  getUserTimeZone: vi.fn().mockResolvedValue('UTC'),
+  consumeDailyCard: vi.fn(),
+}));
+
+const { db } = await import('@/lib/db');
 const { auth } = await import('@clerk/nextjs/server');
+const { consumeDailyCard } = await import('@/lib/daily-card-limit');
 
 function createRequest(body?: unknown) {
   const init: RequestInit = {
@@ -30,6 +46,14 @@ describe('/api/sessions/card', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (db.query.studySessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 's1' });
+    (consumeDailyCard as ReturnType<typeof vi.fn>).mockResolvedValue({
+      allowed: true,
+      limit: null,
+      used: 0,
+      remaining: null,
+      resetsAt: null,
+    });
   });
 
   it('returns 401 when unauthenticated', async () => {
@@ -62,5 +86,38 @@ describe('/api/sessions/card', () => {
 
     expect(res.status).toBe(200);
     expect(body).toEqual({ success: true });
+    expect(res.headers.get('X-DailyCards-Limit')).toBeNull();
+  });
+
+  it('returns 404 without counting or recording the card for another user\'s session', async () => {
+    (db.query.studySessions.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+    const { POST } = await import('./route');
+    const req = createRequest({ sessionId: 'other-users-session', flashcardId: 'f1', confidenceRating: 3 });
+    const res = await POST(req);
+    const body = await res.json();
+
+    expect(res.status).toBe(404);
+    expect(body).toEqual({ error: 'Session not found' });
+    expect(consumeDailyCard).not.toHaveBeenCalled();
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it('returns 429 without recording the card once the free daily limit is used up', async () => {
+    (consumeDailyCard as ReturnType<typeof vi.fn>).mockResolvedValue({
+      allowed: false,
+      limit: 30,
+      used: 30,
+      remaining: 0,
+      resetsAt: new Date('2030-01-02T00:00:00Z'),
+    });
+    const { POST } = await import('./route');
+    const req = createRequest({ sessionId: 's1', flashcardId: 'f1', confidenceRating: 3 });
+    const res = await POST(req);
+    const body = await res.json();
+
+    expect(res.status).toBe(429);
+    expect(body.code).toBe('daily_limit_reached');
+    expect(res.headers.get('X-DailyCards-Limit')).toBe('30');
+    expect(db.insert).not.toHaveBeenCalled();
   });
 });
\ No newline at end of file
@@ -1,9 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
-import { sessionCards } from '@/lib/db/schema';
+import { sessionCards, studySessions, userCardProgress } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
 import { withErrorHandling } from '@/lib/api/error-handler';
 import { withTracing } from '@/lib/middleware/with-tracing';
+import {
+  DAILY_CARD_LIMIT_CONFIG,
+  getUserTimeZone,
+  consumeDailyCard,
+  dailyLimitReachedResponse,
+  withDailyCardHeaders,
+} from '@/lib/daily-card-limit';
 
 async function saveSessionCard(request: NextRequest) {
   try {
@@ -26,15 +34,49 @@ async function saveSessionCard(request: NextRequest) {
       );
     }
 
+    // Only record cards in the user's own sessions
+    const session = await db.query.studySessions.findFirst({
+      where: and(
+        eq(studySessions.id, sessionId),
+        eq(studySessions.clerkUserId, userId)
+      ),
+      columns: { id: true },
+    });
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    // Count the card against the free tier daily limit before recording it
+    const timeZone = await getUserTimeZone(userId, request.headers.get(DAILY_CARD_LIMIT_CONFIG.TIMEZONE_HEADER));
+    const allowance = await consumeDailyCard(userId, flashcardId, timeZone);
+
+    if (!allowance.allowed) {
+      return dailyLimitReachedResponse(allowance);
+    }
+
+    // Snapshot the card's confidence before this rating for the session summary
+    const existingProgress = await db.query.userCardProgress.findFirst({
+      where: and(
+        eq(userCardProgress.clerkUserId, userId),
+        eq(userCardProgress.flashcardId, flashcardId)
+      ),
+      columns: { confidenceLevel: true },
+    });
+
     // Insert session card record
     await db.insert(sessionCards).values({
       sessionId,
       flashcardId,
       confidenceRating,
+      previousConfidence: existingProgress?.confidenceLevel || null, // 0 means never rated
       responseTime: responseTime || 0,
     });
 
-    return NextResponse.json({ success: true });
+    return withDailyCardHeaders(NextResponse.json({ success: true }), allowance);
   } catch (error) {
     console.error('Error saving session card:', error);
     throw error;
@@ -6,19 +6,27 @@ vi.mock('@clerk/nextjs/server', () => ({
   auth: vi.fn(),
 }));
 
+const sessionValues = vi.fn();
+const sessionDeckValues = vi.fn();
+
 vi.mock('@/lib/db', () => ({
   db: {
-    insert: vi.fn().mockReturnValue({
-      values: vi.fn().mockReturnThis(),
-      returning: vi.fn().mockResolvedValue([
-        { id: 'session_1', startedAt: new Date('2024-01-01T00:00:00Z') },
-      ]),
-    }),
+    select: vi.fn(),
+    transaction: vi.fn(),
   },
 }));
 
+vi.mock('@/lib/subscription', () => ({
+  hasPaidAccess: vi.fn(),
+  getUserPlan: vi.fn(),
+}));
 
+const { db } = await import('@/lib/db');
 const { auth } = await import('@clerk/nextjs/server');
+const { hasPaidAccess, getUserPlan } = await import('@/lib/subscription');
+
+const DECK_1 = '11111111-1111-4111-8111-111111111111';
+const DECK_2 = '22222222-2222-4222-8222-222222222222';
 
 function createRequest(body?: unknown) {
   const init: RequestInit = {
@@ -31,17 +39,41 @@ function createRequest(body?: unknown) {
   return new NextRequest(new URL('http://localhost/api/sessions/create'), init);
 }
 
+function mockDecks(rows: Array<{ id: string; name: string; isPremium: boolean }>) {
+  (db.select as ReturnType<typeof vi.fn>).mockReturnValue({
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockResolvedValue(rows),
+  });
+}
+
 describe('/api/sessions/create', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    mockDecks([
+      { id: DECK_1, name: 'Deck 1', isPremium: false },
+      { id: DECK_2, name: 'Deck 2', isPremium: false },
+    ]);
+
+    const tx = {
+      insert: vi.fn()
+        .mockReturnValueOnce({
+          values: sessionValues.mockReturnValue({
+            returning: vi.fn().mockResolvedValue([
+              { id: 'session_1', startedAt: new Date('2024-01-01T00:00:00Z') },
+            ]),
+          }),
+        })
+        .mockReturnValueOnce({ values: sessionDeckValues.mockResolvedValue(undefined) }),
+    };
+    (db.transaction as ReturnType<typeof vi.fn>).mockImplementation((fn: (t: typeof tx) => unknown) => fn(tx));
   });
 
   it('returns 401 when unauthenticated', async () => {
     (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: null });
     const { POST } = await import('./route');
 
-    const req = createRequest({ deckIds: ['d1'] });
+    const req = createRequest({ deckIds: [DECK_1] });
     const res = await POST(req);
     const body = await res.json();
 
@@ -59,13 +91,58 @@ describe('/api/sessions/create', () => {
     expect(body).toEqual({ error: 'At least one deck must be selected' });
   });
 
-  it('creates a study session and returns session data', async () => {
+  it('returns 400 when a deck id is not a UUID', async () => {
+    const { POST } = await import('./route');
+    const req = createRequest({ deckIds: [DECK_1, 'd2'] });
+    const res = await POST(req);
+
+    expect(res.status).toBe(400);
+    expect(db.select).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 listing decks that do not exist or are unpublished', async () => {
+    mockDecks([{ id: DECK_1, name: 'Deck 1', isPremium: false }]);
+    const { POST } = await import('./route');
+    const req = createRequest({ deckIds: [DECK_1, DECK_2] });
+    const res = await POST(req);
+    const body = await res.json();
+
+    expect(res.status).toBe(404);
+    expect(body.deckIds).toEqual([DECK_2]);
+    expect(db.transaction).not.toHaveBeenCalled();
+  });
+
+  it('returns upgrade_required when a free user selects a premium deck', async () => {
+    mockDecks([
+      { id: DECK_1, name: 'Deck 1', isPremium: false },
+      { id: DECK_2, name: 'Deck 2', isPremium: true },
+    ]);
+    (hasPaidAccess as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+    (getUserPlan as ReturnType<typeof vi.fn>).mockResolvedValue('free');
+    const { POST } = await import('./route');
+    const req = createRequest({ deckIds: [DECK_1, DECK_2] });
+    const res = await POST(req);
+    const body = await res.json();
+
+    expect(res.status).toBe(403);
+    expect(body.code).toBe('upgrade_required');
+    expect(body.lockedDecks).toEqual([{ id: DECK_2, name: 'Deck 2' }]);
+    expect(db.transaction).not.toHaveBeenCalled();
+  });
+
+  it('creates a study session with a row for every selected deck', async () => {
     const { POST } = await import('./route');
-    const req = createRequest({ deckIds: ['d1'] });
+    const req = createRequest({ deckIds: [DECK_2, DECK_1, DECK_2] });
     const res = await POST(req);
     const body = await res.json();
 
     expect(res.status).toBe(200);
     expect(body.sessionId).toBe('session_1');
+    expect(body.deckIds).toEqual([DECK_2, DECK_1]);
+    expect(sessionValues).toHaveBeenCalledWith(expect.objectContaining({ deckId: DECK_2, focusFlashcardIds: null }));
+    expect(sessionDeckValues).toHaveBeenCalledWith([
+      { sessionId: 'session_1', deckId: DECK_2 },
+      { sessionId: 'session_1', deckId: DECK_1 },
+    ]);
   });
-});
\ No newline at end of file
+});
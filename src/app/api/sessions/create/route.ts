@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { db } from '@/lib/db';
-import { studySessions } from '@/lib/db/schema';
 import { withErrorHandling } from '@/lib/api/error-handler';
 import { withTracing } from '@/lib/middleware/with-tracing';
+import { commonValidators } from '@/lib/api/validate';
+import { getSessionDeckAccessError, insertStudySession } from '@/lib/study-sessions/create-session';
+
+const MAX_SESSION_DECKS = 50;
 
 async function createSession(request: NextRequest) {
   try {
@@ -26,22 +28,35 @@ async function createSession(request: NextRequest) {
       );
     }
 
-    // Create a new study session
-    // Note: We'll store the first deckId, but in a real implementation
-    // you might want to create a separate table for session-deck relationships
-    const [session] = await db
-      .insert(studySessions)
-      .values({
-        clerkUserId: userId,
-        deckId: deckIds[0], // Store first deck ID
-        startedAt: new Date(),
-        cardsStudied: 0,
-      })
-      .returning();
+    if (!deckIds.every((deckId: unknown) => commonValidators.uuid.safeParse(deckId).success)) {
+      return NextResponse.json(
+        { error: 'deckIds must be deck UUIDs' },
+        { status: 400 }
+      );
+    }
+
+    // Keep the selection order, ignoring repeated decks
+    const uniqueDeckIds: string[] = Array.from(new Set(deckIds));
+
+    if (uniqueDeckIds.length > MAX_SESSION_DECKS) {
+      return NextResponse.json(
+        { error: `A session can include at most ${MAX_SESSION_DECKS} decks` },
+        { status: 400 }
+      );
+    }
+
+    // Every deck must exist, be published and be open to the user
+    const accessError = await getSessionDeckAccessError(uniqueDeckIds);
+    if (accessError) {
+      return accessError;
+    }
+
+    const session = await insertStudySession(userId, uniqueDeckIds);
 
     return NextResponse.json({
       sessionId: session.id,
       startedAt: session.startedAt,
+      deckIds: uniqueDeckIds,
     });
   } catch (error) {
     console.error('Error creating session:', error);
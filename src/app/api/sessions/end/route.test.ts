@@ -6,22 +6,50 @@ vi.mock('@clerk/nextjs/server', () => ({
   auth: vi.fn(),
 }));
 
+const updateReturning = vi.fn();
+const updateSet = vi.fn(() => ({ where: vi.fn(() => ({ returning: updateReturning })) }));
+const insertOnConflict = vi.fn();
+
 vi.mock('@/lib/db', () => ({
   db: {
-    select: vi.fn().mockReturnValue({
-      from: vi.fn().mockReturnThis(),
-      where: vi.fn().mockReturnThis(),
-      limit: vi.fn().mockResolvedValue([
-        { id: 'session_1', startedAt: new Date('2024-01-01T00:00:00Z') },
-      ]),
-    }),
-    update: vi.fn().mockReturnValue({ set: vi.fn().mockReturnThis(), where: vi.fn().mockReturnThis() }),
-    insert: vi.fn().mockReturnValue({ values: vi.fn().mockReturnThis() }),
+    select: vi.fn(),
+    update: vi.fn(() => ({ set: updateSet })),
+    insert: vi.fn().mockReturnValue({ values: vi.fn().mockReturnValue({ onConflictDoUpdate: insertOnConflict }) }),
   },
 }));
 
+vi.mock('@/lib/daily-card-limit', () => ({
+  DAILY_CARD_LIMIT_CONFIG: { TIMEZONE_HEADER: 'x-timezone' },
+  getUserTimeZone: vi.fn().mockResolvedValue('UTC'),
+}));
+
+const STREAK = { currentStreak: 3, longestStreak: 5, freezeTokens: 0, activeToday: true, freezesNeeded: 0 };
+
+vi.mock('@/lib/activity/daily-activity', () => ({
+  recordDailyActivity: vi.fn(),
+  getUserStreak: vi.fn(),
+}));
+
+const SESSION_START = new Date('2024-01-01T00:00:00Z');
+
+/**
+ * Chainable select mock; awaiting it (or calling limit) resolves to rows
+ */
+function selectReturning(rows: unknown[]) {
+  const chain = {
+    from: vi.fn(() => chain),
+    where: vi.fn(() => chain),
+    innerJoin: vi.fn(() => chain),
+    limit: vi.fn().mockResolvedValue(rows),
+    then: (resolve: (value: unknown[]) => unknown) => Promise.resolve(rows).then(resolve),
+  };
+  return chain;
+}
 
+
+const { db } = await import('@/lib/db');
 const { auth } = await import('@clerk/nextjs/server');
+const { recordDailyActivity, getUserStreak } = await import('@/lib/activity/daily-activity');
 
 function createRequest(body?: unknown) {
   const init: RequestInit = {
@@ -38,6 +66,18 @@ describe('/api/sessions/end', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user_1' });
+    (recordDailyActivity as ReturnType<typeof vi.fn>).mockResolvedValue(STREAK);
+    (getUserStreak as ReturnType<typeof vi.fn>).mockResolvedValue(STREAK);
+    updateReturning.mockResolvedValue([{ id: 'session_1' }]);
+    (db.select as ReturnType<typeof vi.fn>)
+      .mockReturnValueOnce(selectReturning([{ id: 'session_1', startedAt: SESSION_START, endedAt: null }]))
+      .mockReturnValueOnce(selectReturning([{ avgConfidence: '4.00', cardsStudied: 2 }]))
+      .mockReturnValueOnce(selectReturning([{ deckId: 'd1' }, { deckId: 'd2' }]))
+      .mockReturnValueOnce(selectReturning([
+        { flashcardId: 'f1', deckId: 'd1', confidenceRating: 5, createdAt: new Date(SESSION_START.getTime() + 10_000) },
+        { flashcardId: 'f2', deckId: 'd2', confidenceRating: 3, createdAt: new Date(SESSION_START.getTime() + 30_000) },
+      ]))
+      .mockReturnValue(selectReturning([]));
   });
 
   it('returns 401 when unauthenticated', async () => {
@@ -63,12 +103,7 @@ describe('/api/sessions/end', () => {
   });
 
   it('returns 404 when session is not found', async () => {
-    const { db } = await import('@/lib/db');
-    (db.select as vi.Mock).mockReturnValueOnce({
-      from: vi.fn().mockReturnThis(),
-      where: vi.fn().mockReturnThis(),
-      limit: vi.fn().mockResolvedValue([]),
-    });
+    (db.select as ReturnType<typeof vi.fn>).mockReset().mockReturnValue(selectReturning([]));
     const { POST } = await import('./route');
 
     const req = createRequest({ sessionId: 'missing', cardsStudied: 10 });
@@ -89,4 +124,87 @@ describe('/api/sessions/end', () => {
     expect(body.success).toBe(true);
     expect(body.session.id).toBe('session_1');
   });
-});
\ No newline at end of file
+
+  it('attributes cards, time and confidence to each deck in the session', async () => {
+    const { POST } = await import('./route');
+    const req = createRequest({ sessionId: 'session_1', cardsStudied: 2 });
+    const res = await POST(req);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.session.decks).toEqual([
+      expect.objectContaining({ deckId: 'd1', cardsStudied: 1, studyDuration: 10, averageConfidence: '5.00' }),
+      expect.objectContaining({ deckId: 'd2', cardsStudied: 1, averageConfidence: '3.00' }),
+    ]);
+    expect(updateSet).toHaveBeenCalledWith(expect.objectContaining({ cardsStudied: 1, averageConfidence: '5.00' }));
+  });
+
+  it('records the session in the daily activity and returns the streak', async () => {
+    const { POST } = await import('./route');
+    const req = createRequest({ sessionId: 'session_1', cardsStudied: 2 });
+    const res = await POST(req);
+    const body = await res.json();
+
+    expect(recordDailyActivity).toHaveBeenCalledWith(
+      'user_1',
+      expect.objectContaining({ studySessions: 1 }),
+      'UTC',
+      expect.any(Date)
+    );
+    expect(body.streak).toEqual(STREAK);
+  });
+
+  it('counts the cards rated in the session, not the count sent by the client', async () => {
+    const { POST } = await import('./route');
+    const res = await POST(createRequest({ sessionId: 'session_1', cardsStudied: 500 }));
+    const body = await res.json();
+
+    expect(body.session.cardsStudied).toBe(2);
+    expect(updateSet).toHaveBeenCalledWith(expect.objectContaining({ cardsStudied: 2 }));
+    expect(insertOnConflict).toHaveBeenCalledWith(
+      expect.objectContaining({ set: expect.objectContaining({ totalCardsStudied: expect.anything() }) })
+    );
+  });
+
+  it('returns the saved totals without updating a session that was already ended', async () => {
+    (db.select as ReturnType<typeof vi.fn>)
+      .mockReset()
+      .mockReturnValueOnce(selectReturning([{
+        id: 'session_1',
+        startedAt: SESSION_START,
+        endedAt: new Date(),
+        cardsStudied: 2,
+        studyDuration: 40,
+        averageConfidence: '4.00',
+      }]))
+      .mockReturnValueOnce(selectReturning([{ deckId: 'd1', cardsStudied: 2, studyDuration: 40, averageConfidence: '4.00' }]))
+      .mockReturnValue(selectReturning([]));
+    const { POST } = await import('./route');
+    const res = await POST(createRequest({ sessionId: 'session_1', cardsStudied: 2 }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.session).toEqual({
+      id: 'session_1',
+      cardsStudied: 2,
+      studyDuration: 40,
+      averageConfidence: '4.00',
+      decks: [{ deckId: 'd1', cardsStudied: 2, studyDuration: 40, averageConfidence: '4.00' }],
+    });
+    expect(db.update).not.toHaveBeenCalled();
+    expect(db.insert).not.toHaveBeenCalled();
+    expect(recordDailyActivity).not.toHaveBeenCalled();
+    expect(getUserStreak).toHaveBeenCalledWith('user_1', expect.any(Date));
+  });
+
+  it('does not count a session a concurrent request ended first', async () => {
+    updateReturning.mockResolvedValue([]);
+    const { POST } = await import('./route');
+    const res = await POST(createRequest({ sessionId: 'session_1', cardsStudied: 2 }));
+
+    expect(res.status).toBe(200);
+    expect(db.update).toHaveBeenCalledTimes(1);
+    expect(db.insert).not.toHaveBeenCalled();
+    expect(recordDailyActivity).not.toHaveBeenCalled();
+  });
+});
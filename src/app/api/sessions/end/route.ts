@@ -1,10 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
-import { studySessions, userStats, sessionCards } from '@/lib/db/schema';
-import { eq, and, avg } from 'drizzle-orm';
+import { studySessions, studySessionDecks, userStats, sessionCards, flashcards } from '@/lib/db/schema';
+import { eq, and, avg, countDistinct, isNull, sql } from 'drizzle-orm';
 import { withErrorHandling } from '@/lib/api/error-handler';
 import { withTracing } from '@/lib/middleware/with-tracing';
+import { buildDeckBreakdown } from '@/lib/study-sessions/deck-breakdown';
+import { DAILY_CARD_LIMIT_CONFIG, getUserTimeZone } from '@/lib/daily-card-limit';
+import { getUserStreak, recordDailyActivity } from '@/lib/activity/daily-activity';
+
+type StudySession = typeof studySessions.$inferSelect;
+
+/**
+ * Response for a session that has already ended, from the totals saved when it ended
+ */
+async function endedSessionResponse(userId: string, session: StudySession) {
+  const deckRows = await db
+    .select({
+      deckId: studySessionDecks.deckId,
+      cardsStudied: studySessionDecks.cardsStudied,
+      studyDuration: studySessionDecks.studyDuration,
+      averageConfidence: studySessionDecks.averageConfidence,
+    })
+    .from(studySessionDecks)
+    .where(eq(studySessionDecks.sessionId, session.id));
+
+  return NextResponse.json({
+    success: true,
+    session: {
+      id: session.id,
+      cardsStudied: session.cardsStudied ?? 0,
+      studyDuration: session.studyDuration ?? 0,
+      averageConfidence: session.averageConfidence ?? '0.00',
+      decks: deckRows.map((deck) => ({
+        deckId: deck.deckId,
+        cardsStudied: deck.cardsStudied ?? 0,
+        studyDuration: deck.studyDuration ?? 0,
+        averageConfidence: deck.averageConfidence ?? '0.00',
+      })),
+    },
+    streak: await getUserStreak(userId, new Date()),
+  });
+}
 
 async function endSession(request: NextRequest) {
   try {
@@ -18,7 +55,7 @@ async function endSession(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { sessionId, cardsStudied } = body;
+    const { sessionId } = body;
 
     if (!sessionId) {
       return NextResponse.json(
@@ -46,13 +83,19 @@ async function endSession(request: NextRequest) {
       );
     }
 
+    // Ending a session twice (e.g. on page unload) changes nothing
+    if (session.endedAt) {
+      return endedSessionResponse(userId, session);
+    }
+
     const endedAt = new Date();
     const studyDuration = Math.floor((endedAt.getTime() - new Date(session.startedAt).getTime()) / 1000); // in seconds
 
-    // Get average confidence from session cards using safe aggregate function
+    // Count the cards rated in the session and average their confidence
     const sessionCardRecords = await db
       .select({
         avgConfidence: avg(sessionCards.confidenceRating).as('avg_confidence'),
+        cardsStudied: countDistinct(sessionCards.flashcardId).as('cards_studied'),
       })
       .from(sessionCards)
       .where(eq(sessionCards.sessionId, sessionId));
@@ -60,100 +103,108 @@ async function endSession(request: NextRequest) {
     const averageConfidence = sessionCardRecords[0]?.avgConfidence
       ? parseFloat(sessionCardRecords[0].avgConfidence.toString()).toFixed(2)
       : "0.00";
+    const cardsStudied = Number(sessionCardRecords[0]?.cardsStudied ?? 0);
 
-    // Update the session
-    await db
+    // End the session, unless a concurrent request already has
+    const [ended] = await db
       .update(studySessions)
       .set({
         endedAt,
-        cardsStudied: cardsStudied || 0,
+        cardsStudied,
         studyDuration,
         averageConfidence,
       })
-      .where(eq(studySessions.id, sessionId));
-
-    // Update user stats
-    const [userStatsRecord] = await db
-      .select()
-      .from(userStats)
-      .where(eq(userStats.clerkUserId, userId))
-      .limit(1);
+      .where(and(eq(studySessions.id, sessionId), isNull(studySessions.endedAt)))
+      .returning({ id: studySessions.id });
+
+    if (!ended) {
+      const [endedSession] = await db
+        .select()
+        .from(studySessions)
+        .where(eq(studySessions.id, sessionId))
+        .limit(1);
+      return endedSessionResponse(userId, endedSession ?? session);
+    }
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    if (userStatsRecord) {
-      const lastActiveDate = userStatsRecord.lastActiveDate ? new Date(userStatsRecord.lastActiveDate) : null;
-      const lastActiveDateOnly = lastActiveDate ? new Date(lastActiveDate) : null;
-      if (lastActiveDateOnly) {
-        lastActiveDateOnly.setHours(0, 0, 0, 0);
-      }
-
-      let newStreakDays = userStatsRecord.studyStreakDays || 0;
-
-      // Check if this is a new day
-      if (!lastActiveDateOnly || lastActiveDateOnly.getTime() < today.getTime()) {
-        // Check if the streak should continue (studied yesterday)
-        const yesterday = new Date(today);
-        yesterday.setDate(yesterday.getDate() - 1);
-
-        if (lastActiveDateOnly && lastActiveDateOnly.getTime() === yesterday.getTime()) {
-          newStreakDays += 1; // Continue streak
-        } else if (!lastActiveDateOnly || lastActiveDateOnly.getTime() < yesterday.getTime()) {
-          newStreakDays = 1; // Start new streak
-        }
-      }
-
-      // Handle daily cards counter with reset logic
-      const lastResetDate = userStatsRecord.lastResetDate ? new Date(userStatsRecord.lastResetDate) : null;
-      const lastResetDateOnly = lastResetDate ? new Date(lastResetDate) : null;
-      if (lastResetDateOnly) {
-        lastResetDateOnly.setHours(0, 0, 0, 0);
-      }
-
-      let dailyCards = userStatsRecord.dailyCardsStudiedToday || 0;
-      let resetDate = userStatsRecord.lastResetDate;
-
-      // Reset daily counter if it's a new day
-      if (!lastResetDateOnly || lastResetDateOnly.getTime() < today.getTime()) {
-        dailyCards = cardsStudied || 0;
-        resetDate = today;
-      } else {
-        dailyCards += (cardsStudied || 0);
-      }
-
-      await db
-        .update(userStats)
-        .set({
-          totalCardsStudied: (userStatsRecord.totalCardsStudied || 0) + (cardsStudied || 0),
-          totalStudyTime: (userStatsRecord.totalStudyTime || 0) + studyDuration,
-          studyStreakDays: newStreakDays,
-          dailyCardsStudiedToday: dailyCards,
-          lastResetDate: resetDate,
-          lastActiveDate: endedAt,
+    // Attribute cards, time and confidence to each deck in the session
+    const [sessionDeckRows, ratings] = await Promise.all([
+      db
+        .select({ deckId: studySessionDecks.deckId })
+        .from(studySessionDecks)
+        .where(eq(studySessionDecks.sessionId, sessionId)),
+      db
+        .select({
+          flashcardId: sessionCards.flashcardId,
+          deckId: flashcards.deckId,
+          confidenceRating: sessionCards.confidenceRating,
+          createdAt: sessionCards.createdAt,
         })
-        .where(eq(userStats.clerkUserId, userId));
-    } else {
-      // Create new user stats record
-      await db.insert(userStats).values({
+        .from(sessionCards)
+        .innerJoin(flashcards, eq(sessionCards.flashcardId, flashcards.id))
+        .where(eq(sessionCards.sessionId, sessionId)),
+    ]);
+
+    const deckBreakdown = buildDeckBreakdown(
+      sessionDeckRows.map((row) => row.deckId),
+      ratings,
+      session.startedAt,
+      endedAt
+    );
+
+    await Promise.all(
+      deckBreakdown.map((deck) =>
+        db
+          .update(studySessionDecks)
+          .set({
+            cardsStudied: deck.cardsStudied,
+            studyDuration: deck.studyDuration,
+            averageConfidence: deck.averageConfidence,
+          })
+          .where(
+            and(
+              eq(studySessionDecks.sessionId, sessionId),
+              eq(studySessionDecks.deckId, deck.deckId)
+            )
+          )
+      )
+    );
+
+    // Update lifetime totals; the streak is kept by the daily activity below
+    await db
+      .insert(userStats)
+      .values({
         clerkUserId: userId,
-        totalCardsStudied: cardsStudied || 0,
+        totalCardsStudied: cardsStudied,
         totalStudyTime: studyDuration,
-        studyStreakDays: 1,
-        dailyCardsStudiedToday: cardsStudied || 0,
-        lastResetDate: today,
-        lastActiveDate: endedAt,
+      })
+      .onConflictDoUpdate({
+        target: userStats.clerkUserId,
+        set: {
+          totalCardsStudied: sql`COALESCE(${userStats.totalCardsStudied}, 0) + ${cardsStudied}`,
+          totalStudyTime: sql`COALESCE(${userStats.totalStudyTime}, 0) + ${studyDuration}`,
+          updatedAt: endedAt,
+        },
       });
-    }
+
+    // The cards were counted as they were rated
+    const timeZone = await getUserTimeZone(userId, request.headers.get(DAILY_CARD_LIMIT_CONFIG.TIMEZONE_HEADER));
+    const streak = await recordDailyActivity(
+      userId,
+      { studySessions: 1, studySeconds: studyDuration },
+      timeZone,
+      endedAt
+    );
 
     return NextResponse.json({
       success: true,
       session: {
         id: sessionId,
-        cardsStudied: cardsStudied || 0,
+        cardsStudied,
         studyDuration,
         averageConfidence,
+        decks: deckBreakdown,
       },
+      streak,
     });
   } catch (error) {
     console.error('Error ending session:', error);
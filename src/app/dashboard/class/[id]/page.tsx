@@ -12,6 +12,9 @@ import { subscriptions, userStats, studySessions } from "@/lib/db/schema";
 import { eq, and, desc, gte } from "drizzle-orm";
 import { ensureUserExists } from "@/lib/db/ensure-user";
 import { ACCESS_DURATION_DAYS, calculateDaysRemaining } from "@/lib/subscription";
+import { DAILY_CARD_LIMIT_CONFIG, resolveTimeZone, getStartOfLocalDay } from "@/lib/daily-card-limit";
+import { getRecentActivity, getStoredLocalDate, toStreakState } from "@/lib/activity/daily-activity";
+import { getStreakSummary } from "@/lib/activity/streaks";
 
 // Force dynamic rendering - never cache this page
 export const dynamic = 'force-dynamic';
@@ -25,11 +28,6 @@ const DEFAULT_STATS = {
   accuracy: 85,
 };
 
-// Helper: Calculate total seconds from study sessions
-function calculateTotalSeconds(sessions: Array<{ studyDuration: number | null }>) {
-  return sessions.reduce((sum, session) => sum + (session.studyDuration || 0), 0);
-}
-
 // Helper: Calculate accuracy from sessions with confidence data
 function calculateAccuracy(sessions: Array<{ averageConfidence: string | null }>) {
   const sessionsWithConfidence = sessions.filter(s => s.averageConfidence);
@@ -43,73 +41,6 @@ function calculateAccuracy(sessions: Array<{ averageConfidence: string | null }>
   return Math.round((avgConfidence / 5) * 100);
 }
 
-// Helper: Get start of today timestamp
-function getStartOfToday() {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  return today;
-}
-
-// Helper: Get start of day N days ago
-function getDaysAgo(daysAgo: number) {
-  const date = new Date();
-  date.setDate(date.getDate() - daysAgo);
-  date.setHours(0, 0, 0, 0);
-  return date;
-}
-
-// Helper: Fetch last 7 days activity (minutes studied per day)
-async function getLast7DaysActivity(userId: string): Promise<number[]> {
-  try {
-    const sevenDaysAgo = getDaysAgo(6); // Include today, so 6 days ago
-
-    const sessions = await withRetry(
-      () => db.query.studySessions.findMany({
-        where: and(
-          eq(studySessions.clerkUserId, userId),
-          gte(studySessions.startedAt, sevenDaysAgo)
-        ),
-      }),
-      { queryName: 'fetch-7-days-sessions' }
-    );
-
-    // Group sessions by day and calculate total minutes per day
-    const activityByDay = new Map<string, number>();
-
-    // Initialize all 7 days with 0
-    for (let i = 6; i >= 0; i--) {
-      const date = getDaysAgo(i);
-      const dateKey = date.toISOString().split('T')[0];
-      activityByDay.set(dateKey, 0);
-    }
-
-    // Sum up study duration for each day
-    sessions.forEach(session => {
-      const sessionDate = new Date(session.startedAt);
-      sessionDate.setHours(0, 0, 0, 0);
-      const dateKey = sessionDate.toISOString().split('T')[0];
-
-      const currentMinutes = activityByDay.get(dateKey) || 0;
-      const sessionMinutes = Math.round((session.studyDuration || 0) / 60);
-      activityByDay.set(dateKey, currentMinutes + sessionMinutes);
-    });
-
-    // Convert to array in chronological order (oldest to newest)
-    const result: number[] = [];
-    for (let i = 6; i >= 0; i--) {
-      const date = getDaysAgo(i);
-      const dateKey = date.toISOString().split('T')[0];
-      result.push(activityByDay.get(dateKey) || 0);
-    }
-
-    return result;
-  } catch (error) {
-    console.error('[7-Day Activity Error] Failed to fetch activity:', error);
-    // Return default array of zeros on error
-    return [0, 0, 0, 0, 0, 0, 0];
-  }
-}
-
 // Fetch user statistics for the stats card
 async function getUserStats(userId: string) {
   try {
@@ -122,25 +53,32 @@ async function getUserStats(userId: string) {
 
     if (!stats) return { ...DEFAULT_STATS, last7DaysActivity: [0, 0, 0, 0, 0, 0, 0] };
 
-    const streak = stats.studyStreakDays || 0;
-    const cardsToday = stats.dailyCardsStudiedToday || 0;
+    // Streak and activity come from the daily activity, counted in the user's own timezone
+    const timeZone = resolveTimeZone(stats.timezone) ?? DAILY_CARD_LIMIT_CONFIG.DEFAULT_TIMEZONE;
+    const now = new Date();
+    const today = getStoredLocalDate(stats, now);
 
     // PERFORMANCE: Fetch today's sessions and 7-day activity in parallel (async-parallel rule)
-    const [todaySessions, last7DaysActivity] = await Promise.all([
+    const [todaySessions, recentActivity] = await Promise.all([
       withRetry(
         () => db.query.studySessions.findMany({
           where: and(
             eq(studySessions.clerkUserId, userId),
-            gte(studySessions.startedAt, getStartOfToday())
+            gte(studySessions.startedAt, getStartOfLocalDay(now, timeZone))
           ),
         }),
         { queryName: 'fetch-today-sessions' }
       ),
-      getLast7DaysActivity(userId),
+      withRetry(
+        () => getRecentActivity(userId, today, 7),
+        { queryName: 'fetch-7-days-activity' }
+      ),
     ]);
 
-    const totalSecondsToday = calculateTotalSeconds(todaySessions);
-    const minutesToday = Math.round(totalSecondsToday / 60);
+    const streak = getStreakSummary(toStreakState(stats), today).currentStreak;
+    const last7DaysActivity = recentActivity.map((day) => Math.round(day.studySeconds / 60));
+    const minutesToday = last7DaysActivity[last7DaysActivity.length - 1];
+    const cardsToday = recentActivity[recentActivity.length - 1].cardsStudied;
     const accuracy = calculateAccuracy(todaySessions);
 
     return { streak, minutesToday, cardsToday, accuracy, last7DaysActivity };
@@ -10,6 +10,9 @@ import { QuizModal } from "@/components/QuizModal";
 import { FlashcardDynamic as Flashcard } from "@/components/FlashcardDynamic";
 import { StudyPageHeader } from "@/components/study/StudyPageHeader";
 import { toast } from "sonner";
+import UpgradeRequiredNotice, { getUpgradeRequired } from "@/components/UpgradeRequiredNotice";
+import type { UpgradeRequired } from "@/lib/entitlements";
+import { getRatingHeaders } from "@/lib/utils/daily-allowance";
 
 // PERFORMANCE: Hoist static data outside component (rendering-hoist-jsx rule)
 const CONFIDENCE_OPTIONS = [
@@ -54,6 +57,7 @@ export default function ClassStudyPage() {
   const [flashcards, setFlashcards] = useState<FlashcardData[]>([]);
   const [className, setClassName] = useState<string>("");
   const [loading, setLoading] = useState(true);
+  const [upgradeRequired, setUpgradeRequired] = useState<UpgradeRequired | null>(null);
 
   const [currentIndex, setCurrentIndex] = useState(0);
   const [showRating, setShowRating] = useState(false);
@@ -76,13 +80,17 @@ export default function ClassStudyPage() {
         ? `/api/classes/${classId}/study?mode=${mode}&decks=${selectedDecks}`
         : `/api/classes/${classId}/study?mode=${mode}`;
       const res = await fetch(url);
-      if (!res.ok) throw new Error("Failed to load flashcards");
-
       const data = await res.json();
+
+      // Premium decks come back as teaser cards plus an upgrade_required error
+      const upgrade = getUpgradeRequired(data);
+      if (!res.ok && !upgrade) throw new Error("Failed to load flashcards");
+
+      setUpgradeRequired(upgrade);
       setClassName(data.className || "Unknown Class");
       setFlashcards(data.flashcards || []);
 
-      if (data.flashcards.length === 0) {
+      if (!data.flashcards?.length && !upgrade) {
         toast.info("No cards available for this study mode");
       }
     } catch {
@@ -99,13 +107,20 @@ export default function ClassStudyPage() {
       // Save confidence rating to database
       const res = await fetch("/api/progress/card", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: getRatingHeaders(),
         body: JSON.stringify({
           flashcardId: currentCard.id,
           confidenceLevel: confidence,
         }),
       });
 
+      // Free tier daily limit reached
+      if (res.status === 429) {
+        const data = await res.json();
+        toast.error(data.error);
+        return;
+      }
+
       if (!res.ok) throw new Error("Failed to save progress");
 
       const newStudied = new Set(studiedCards);
@@ -175,14 +190,18 @@ export default function ClassStudyPage() {
               Back to {className}
             </Button>
           </Link>
-          <div className="text-center text-white">
-            <h1 className="text-2xl font-bold mb-4">No flashcards available</h1>
-            <p className="text-gray-400">
-              {mode === 'progressive'
-                ? "Great job! You've mastered all cards. Try 'All' or 'Random' mode to review."
-                : "This class doesn't have any flashcards yet."}
-            </p>
-          </div>
+          {upgradeRequired ? (
+            <UpgradeRequiredNotice upgrade={upgradeRequired} className="max-w-2xl mx-auto" />
+          ) : (
+            <div className="text-center text-white">
+              <h1 className="text-2xl font-bold mb-4">No flashcards available</h1>
+              <p className="text-gray-400">
+                {mode === 'progressive'
+                  ? "Great job! You've mastered all cards. Try 'All' or 'Random' mode to review."
+                  : "This class doesn't have any flashcards yet."}
+              </p>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -266,6 +285,11 @@ export default function ClassStudyPage() {
           </div>
         )}
 
+        {/* Locked premium decks: only their teaser cards are in this session */}
+        {upgradeRequired && (
+          <UpgradeRequiredNotice upgrade={upgradeRequired} className="max-w-2xl mx-auto mt-12" />
+        )}
+
         {/* Study Tips */}
         {!allCardsStudied && (
           <div className="mt-12 max-w-2xl mx-auto">
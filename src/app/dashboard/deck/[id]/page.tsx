@@ -3,7 +3,7 @@
 import { useState, useEffect, useMemo, useRef } from "react";
 import { useParams, useSearchParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
-import { ChevronLeft, ChevronRight, FileCheck2, Search } from "lucide-react";
+import { ChevronLeft, ChevronRight, FileCheck2, History, Search } from "lucide-react";
 import ConfidenceRating from "@/components/ConfidenceRating";
 import PerformanceMonitor from "@/components/PerformanceMonitor";
 import { QuizModal } from "@/components/QuizModal";
@@ -15,6 +15,9 @@ import { EmptyDeckState } from "@/components/study/EmptyDeckState";
 import { DeckCompletionState } from "@/components/study/DeckCompletionState";
 import { toast } from "sonner";
 import { useDeckData } from "@/components/study/hooks/useDeckData";
+import UpgradeRequiredNotice from "@/components/UpgradeRequiredNotice";
+import { getRatingHeaders } from "@/lib/utils/daily-allowance";
+import { useResumableQuiz } from "@/hooks/useResumableQuiz";
 
 
 
@@ -26,7 +29,7 @@ export default function DeckStudyPage() {
   const deckId = params.id as string;
   const mode = searchParams.get('mode') || 'all';
 
-  const { deck, flashcards, loading } = useDeckData(deckId, mode);
+  const { deck, flashcards, loading, upgradeRequired } = useDeckData(deckId, mode);
   const [bookmarkedCards, setBookmarkedCards] = useState<Set<string>>(new Set());
 
   const [currentIndex, setCurrentIndex] = useState(0);
@@ -54,6 +57,10 @@ export default function DeckStudyPage() {
   const [showDeckQuizModal, setShowDeckQuizModal] = useState(false);
   const [deckHasQuiz, setDeckHasQuiz] = useState(false);
 
+  // Unfinished deck test to continue; ?resumeQuiz= comes from the dashboard's continue entries
+  const { resumableQuiz, refresh: refreshResumableQuiz } = useResumableQuiz(deckId, deckHasQuiz);
+  const [resumeSessionId, setResumeSessionId] = useState<string | null>(searchParams.get('resumeQuiz'));
+
   // Filter flashcards based on search query
   const filteredFlashcards = useMemo(() => {
     if (!searchQuery.trim()) {
@@ -92,6 +99,13 @@ export default function DeckStudyPage() {
     checkDeckQuiz();
   }, [deckId]);
 
+  // Open the quiz to resume once the modal is mounted, so it sees the open transition
+  useEffect(() => {
+    if (deckHasQuiz && searchParams.get('resumeQuiz')) {
+      setShowDeckQuizModal(true);
+    }
+  }, [deckHasQuiz, searchParams]);
+
   // Create study session when flashcards are loaded
   useEffect(() => {
     const createSession = async () => {
@@ -172,7 +186,7 @@ export default function DeckStudyPage() {
       if (sessionId) {
         await fetch('/api/sessions/card', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: getRatingHeaders(),
           body: JSON.stringify({
             sessionId,
             flashcardId: currentCard.id,
@@ -185,13 +199,20 @@ export default function DeckStudyPage() {
       // Save confidence rating to user card progress (for mastery tracking)
       const res = await fetch("/api/progress/card", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: getRatingHeaders(),
         body: JSON.stringify({
           flashcardId: currentCard.id,
           confidenceLevel: confidence,
         }),
       });
 
+      // Free tier daily limit reached
+      if (res.status === 429) {
+        const data = await res.json();
+        toast.error(data.error);
+        return;
+      }
+
       if (!res.ok) throw new Error("Failed to save progress");
 
       const newStudied = new Set(studiedCards);
@@ -233,9 +254,22 @@ export default function DeckStudyPage() {
   };
 
   const handleDeckTest = () => {
+    setResumeSessionId(null);
+    setShowDeckQuizModal(true);
+  };
+
+  const handleContinueDeckTest = () => {
+    if (!resumableQuiz) return;
+    setResumeSessionId(resumableQuiz.sessionId);
     setShowDeckQuizModal(true);
   };
 
+  const handleCloseDeckQuiz = () => {
+    setShowDeckQuizModal(false);
+    setResumeSessionId(null);
+    refreshResumableQuiz();
+  };
+
   const handlePrevious = () => {
     if (currentIndex > 0) {
       setCurrentIndex(currentIndex - 1);
@@ -340,14 +374,27 @@ export default function DeckStudyPage() {
     );
   }
 
+  if (flashcards.length === 0 && upgradeRequired) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-[#0f1729] via-[#1a2235] to-[#0f1729]">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <UpgradeRequiredNotice upgrade={upgradeRequired} className="max-w-2xl mx-auto mt-12" />
+        </div>
+      </div>
+    );
+  }
+
   if (flashcards.length === 0) {
     return (
       <EmptyDeckState
         deck={deck}
         deckHasQuiz={deckHasQuiz}
         showDeckQuizModal={showDeckQuizModal}
-        setShowDeckQuizModal={setShowDeckQuizModal}
+        onCloseDeckQuiz={handleCloseDeckQuiz}
         onDeckTest={handleDeckTest}
+        resumableQuiz={resumableQuiz}
+        resumeSessionId={resumeSessionId}
+        onContinueDeckTest={handleContinueDeckTest}
       />
     );
   }
@@ -418,17 +465,29 @@ export default function DeckStudyPage() {
             filteredCount: filteredFlashcards.length,
           }}
           extraActions={
-            deckHasQuiz && (
-              <Button
-                onClick={handleDeckTest}
-                variant="outline"
-                className="border-emerald-500/50 text-emerald-300 hover:bg-emerald-500/10
-                  hover:border-emerald-400 transition-all duration-200"
-                aria-label="Take deck test"
-              >
-                <FileCheck2 className="h-4 w-4 mr-2" />
-                Take Deck Test
-              </Button>
+            deckHasQuiz && !upgradeRequired && (
+              <>
+                {resumableQuiz && (
+                  <Button
+                    onClick={handleContinueDeckTest}
+                    className="bg-emerald-600 hover:bg-emerald-700 text-white"
+                    aria-label="Continue deck test"
+                  >
+                    <History className="h-4 w-4 mr-2" />
+                    Continue Deck Test ({resumableQuiz.answeredCount}/{resumableQuiz.totalQuestions})
+                  </Button>
+                )}
+                <Button
+                  onClick={handleDeckTest}
+                  variant="outline"
+                  className="border-emerald-500/50 text-emerald-300 hover:bg-emerald-500/10
+                    hover:border-emerald-400 transition-all duration-200"
+                  aria-label="Take deck test"
+                >
+                  <FileCheck2 className="h-4 w-4 mr-2" />
+                  Take Deck Test
+                </Button>
+              </>
             )
           }
         />
@@ -521,6 +580,11 @@ export default function DeckStudyPage() {
           />
         ) : null}
 
+        {/* Locked premium deck: only the teaser cards above are available */}
+        {upgradeRequired && (
+          <UpgradeRequiredNotice upgrade={upgradeRequired} className="max-w-2xl mx-auto mt-12" />
+        )}
+
         {/* Study Tips - Removed backdrop-blur for better performance */}
         {!allCardsStudied && (
           <div className="mt-12 max-w-2xl mx-auto">
@@ -546,12 +610,13 @@ export default function DeckStudyPage() {
       )}
 
       {/* Deck Quiz Modal */}
-      {deckHasQuiz && (
+      {deckHasQuiz && !upgradeRequired && (
         <DeckQuizModal
           isOpen={showDeckQuizModal}
-          onClose={() => setShowDeckQuizModal(false)}
+          onClose={handleCloseDeckQuiz}
           deckId={deckId}
           deckName={deckName}
+          resumeSessionId={resumeSessionId}
         />
       )}
 
@@ -9,6 +9,9 @@ import { ArrowLeft, RotateCcw, Loader2 } from "lucide-react";
 import ConfidenceRating from "@/components/ConfidenceRating";
 import { FlashcardDynamic as Flashcard } from "@/components/FlashcardDynamic";
 import { toast } from "sonner";
+import UpgradeRequiredNotice, { getUpgradeRequired } from "@/components/UpgradeRequiredNotice";
+import type { UpgradeRequired } from "@/lib/entitlements";
+import { getRatingHeaders } from "@/lib/utils/daily-allowance";
 
 interface FlashcardMedia {
   id: string;
@@ -42,6 +45,7 @@ export default function DomainStudyPage() {
   const [flashcards, setFlashcards] = useState<FlashcardData[]>([]);
   const [domain, setDomain] = useState<DomainData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [upgradeRequired, setUpgradeRequired] = useState<UpgradeRequired | null>(null);
 
   const [currentIndex, setCurrentIndex] = useState(0);
   const [showRating, setShowRating] = useState(false);
@@ -55,9 +59,13 @@ export default function DomainStudyPage() {
     setLoading(true);
     try {
       const res = await fetch(`/api/domains/${domainId}/flashcards`);
-      if (!res.ok) throw new Error("Failed to load flashcards");
-
       const data = await res.json();
+
+      // Premium decks come back as teaser cards plus an upgrade_required error
+      const upgrade = getUpgradeRequired(data);
+      if (!res.ok && !upgrade) throw new Error("Failed to load flashcards");
+
+      setUpgradeRequired(upgrade);
       setDomain(data.domain);
       setFlashcards(data.flashcards || []);
     } catch {
@@ -79,13 +87,20 @@ export default function DomainStudyPage() {
       // Save confidence rating to database
       const res = await fetch("/api/progress/card", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: getRatingHeaders(),
         body: JSON.stringify({
           flashcardId: currentCard.id,
           confidenceLevel: confidence,
         }),
       });
 
+      // Free tier daily limit reached
+      if (res.status === 429) {
+        const data = await res.json();
+        toast.error(data.error);
+        return;
+      }
+
       if (!res.ok) throw new Error("Failed to save progress");
 
       const newStudied = new Set(studiedCards);
@@ -140,10 +155,14 @@ export default function DomainStudyPage() {
               Back to Dashboard
             </Button>
           </Link>
-          <div className="text-center text-white">
-            <h1 className="text-2xl font-bold mb-4">No flashcards available</h1>
-            <p className="text-gray-400">This domain doesn&apos;t have any flashcards yet.</p>
-          </div>
+          {upgradeRequired ? (
+            <UpgradeRequiredNotice upgrade={upgradeRequired} className="max-w-2xl mx-auto" />
+          ) : (
+            <div className="text-center text-white">
+              <h1 className="text-2xl font-bold mb-4">No flashcards available</h1>
+              <p className="text-gray-400">This domain doesn&apos;t have any flashcards yet.</p>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -238,6 +257,11 @@ export default function DomainStudyPage() {
           </div>
         )}
 
+        {/* Locked premium decks: only their teaser cards are included */}
+        {upgradeRequired && (
+          <UpgradeRequiredNotice upgrade={upgradeRequired} className="max-w-2xl mx-auto mt-12" />
+        )}
+
         {/* Study Tips */}
         {!allCardsStudied && (
           <div className="mt-12 max-w-2xl mx-auto">
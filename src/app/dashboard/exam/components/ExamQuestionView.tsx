@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Clock, Loader2, ArrowRight } from "lucide-react";
+import { QuizQuestionHeader } from "@/components/quiz/QuizQuestionHeader";
+import { QuizResponseInput } from "@/components/quiz/QuizResponseInput";
+import { getInitialResponse, isResponseComplete, type QuizResponse } from "@/lib/quiz/question-types";
+import { formatCountdown } from "@/lib/utils/daily-allowance";
+import type { ExamInProgress } from "../hooks/useExamSimulator";
+
+interface ExamQuestionViewProps {
+  exam: ExamInProgress;
+  submitting: boolean;
+  onSubmit: (response: QuizResponse) => void;
+  onExpire: () => void;
+}
+
+// Warn when less than this much time is left
+const LOW_TIME_MS = 10 * 60 * 1000;
+
+export function ExamQuestionView({ exam, submitting, onSubmit, onExpire }: ExamQuestionViewProps) {
+  const [response, setResponse] = useState<QuizResponse | null>(null);
+  const [remainingMs, setRemainingMs] = useState(() => new Date(exam.deadline).getTime() - Date.now());
+
+  // Each new item starts unanswered
+  useEffect(() => {
+    setResponse(null);
+  }, [exam.question.id]);
+
+  // An untouched ordering item is answered in the order it was shown
+  const currentResponse = response ?? getInitialResponse(exam.question);
+  const canSubmit = isResponseComplete(exam.question, currentResponse);
+
+  useEffect(() => {
+    const deadline = new Date(exam.deadline).getTime();
+    const timer = setInterval(() => {
+      const remaining = deadline - Date.now();
+      setRemainingMs(remaining);
+      if (remaining <= 0) {
+        clearInterval(timer);
+        onExpire();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [exam.deadline, onExpire]);
+
+  const answeredProgress = ((exam.itemNumber - 1) / exam.maxItems) * 100;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex-1">
+          <Progress value={answeredProgress} className="h-2" aria-label="Exam progress" />
+          <p className="text-sm text-gray-400 mt-2">
+            Item {exam.itemNumber} &middot; the exam ends between {exam.minItems} and {exam.maxItems} items
+          </p>
+        </div>
+        <div
+          className={`flex items-center gap-2 font-mono text-lg ${remainingMs < LOW_TIME_MS ? "text-red-400" : "text-white"}`}
+          aria-label="Time remaining"
+        >
+          <Clock className="w-5 h-5" />
+          {formatCountdown(remainingMs)}
+        </div>
+      </div>
+
+      <div className="glass p-6 md:p-8 rounded-xl space-y-6">
+        <QuizQuestionHeader questionText={exam.question.questionText} questionNumber={exam.itemNumber} />
+
+        <QuizResponseInput
+          question={exam.question}
+          response={currentResponse}
+          onChange={setResponse}
+          showAnswer={false}
+          isDisabled={submitting}
+          accentColor="blue"
+        />
+
+        <div className="flex items-center justify-between gap-4 pt-2">
+          <p className="text-xs text-gray-400">
+            Answers are final. You cannot return to earlier items.
+          </p>
+          <Button
+            onClick={() => canSubmit && currentResponse && onSubmit(currentResponse)}
+            disabled={!canSubmit || submitting}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-6"
+          >
+            {submitting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <ArrowRight className="w-4 h-4 mr-2" />
+            )}
+            Confirm and Next
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2, XCircle } from "lucide-react";
+import type { DomainProficiency, ExamResult, ExamStopReason } from "@/lib/quiz/cat-exam";
+
+const STOP_REASON_LABELS: Record<ExamStopReason, string> = {
+  confidence: "The exam ended once your result was clear of the passing standard.",
+  max_items: "You reached the maximum number of items.",
+  pool_exhausted: "You answered every available question in the bank.",
+  time: "The 3-hour time limit ran out.",
+};
+
+const PROFICIENCY_STYLES: Record<DomainProficiency, { label: string; className: string }> = {
+  above: { label: "Above passing standard", className: "bg-green-500/20 text-green-300" },
+  near: { label: "Near passing standard", className: "bg-yellow-500/20 text-yellow-300" },
+  below: { label: "Below passing standard", className: "bg-red-500/20 text-red-300" },
+};
+
+export function ExamResultReport({ result }: { result: ExamResult }) {
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="text-center">
+        {result.passed ? (
+          <CheckCircle2 className="w-16 h-16 text-green-400 mx-auto mb-4" />
+        ) : (
+          <XCircle className="w-16 h-16 text-red-400 mx-auto mb-4" />
+        )}
+        <h2 className="text-3xl font-bold text-white mb-2">
+          {result.passed ? "Likely Pass" : "Likely Fail"}
+        </h2>
+        <p className="text-gray-300">
+          Estimated score {result.scaledScore}/1000 (passing is 700) &middot;{" "}
+          {Math.round(result.passProbability * 100)}% chance of passing
+        </p>
+        <p className="text-sm text-gray-400 mt-2">
+          {result.correctAnswers} of {result.totalAnswered} items correct. {STOP_REASON_LABELS[result.stopReason]}
+        </p>
+      </div>
+
+      <Card className="bg-slate-800/50 border-slate-700">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-medium text-gray-400">Domain Proficiency</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ul className="divide-y divide-slate-700">
+            {result.domains.map((domain) => (
+              <li key={domain.domain} className="flex items-center justify-between py-3 gap-4">
+                <div className="min-w-0">
+                  <p className="text-white font-medium truncate">
+                    Domain {domain.domain}: {domain.name}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {domain.correct}/{domain.answered} correct &middot; {domain.weight}% of the exam
+                  </p>
+                </div>
+                {domain.proficiency ? (
+                  <span
+                    className={`text-xs font-medium px-2 py-1 rounded-full whitespace-nowrap ${PROFICIENCY_STYLES[domain.proficiency].className}`}
+                  >
+                    {PROFICIENCY_STYLES[domain.proficiency].label}
+                  </span>
+                ) : (
+                  <span className="text-xs text-gray-500 whitespace-nowrap">Not tested</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import type { ExamResult } from '@/lib/quiz/cat-exam';
+import type { QuizQuestionType, QuizResponse } from '@/lib/quiz/question-types';
+
+export interface ExamQuestion {
+    id: string;
+    questionText: string;
+    questionType: QuizQuestionType;
+    imageUrl: string | null;
+    options: Array<{ id: string; text: string }>;
+    matchChoices?: string[];
+}
+
+export interface ExamInProgress {
+    sessionId: string;
+    deadline: string; // ISO timestamp when the 3-hour clock runs out
+    itemNumber: number;
+    minItems: number;
+    maxItems: number;
+    question: ExamQuestion;
+}
+
+type ExamProgressResponse =
+    | ({ status: 'in_progress'; resumed?: boolean } & ExamInProgress)
+    | { status: 'completed'; sessionId: string; result: ExamResult };
+
+export function useExamSimulator() {
+    const [exam, setExam] = useState<ExamInProgress | null>(null);
+    const [result, setResult] = useState<ExamResult | null>(null);
+    const [starting, setStarting] = useState(false);
+    const [submitting, setSubmitting] = useState(false);
+    const [questionShownAt, setQuestionShownAt] = useState(Date.now());
+
+    const applyProgress = useCallback((progress: ExamProgressResponse) => {
+        if (progress.status === 'completed') {
+            setExam(null);
+            setResult(progress.result);
+            return;
+        }
+
+        setExam({
+            sessionId: progress.sessionId,
+            deadline: progress.deadline,
+            itemNumber: progress.itemNumber,
+            minItems: progress.minItems,
+            maxItems: progress.maxItems,
+            question: progress.question,
+        });
+        setQuestionShownAt(Date.now());
+    }, []);
+
+    const startExam = useCallback(async () => {
+        setStarting(true);
+        try {
+            const response = await fetch('/api/quiz-sessions/exam/start', { method: 'POST' });
+            const data = await response.json();
+
+            if (!response.ok) {
+                toast.error(data.error || 'Failed to start the exam');
+                return;
+            }
+
+            setResult(null);
+            applyProgress(data);
+            if (data.resumed) {
+                toast.info('Resuming your exam in progress');
+            }
+        } catch (error) {
+            console.error('Error starting exam:', error);
+            toast.error('Failed to start the exam');
+        } finally {
+            setStarting(false);
+        }
+    }, [applyProgress]);
+
+    const submitAnswer = useCallback(async (answer: QuizResponse) => {
+        if (!exam || submitting) return;
+
+        setSubmitting(true);
+        try {
+            const response = await fetch('/api/quiz-sessions/exam/answer', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    sessionId: exam.sessionId,
+                    questionId: exam.question.id,
+                    response: answer,
+                    optionOrder: exam.question.options.map((option) => option.id),
+                    timeSpent: Math.floor((Date.now() - questionShownAt) / 1000),
+                }),
+            });
+            const data = await response.json();
+
+            if (response.status === 409) {
+                // The server has moved on (e.g. answered in another tab); reload where it stands
+                const current = await fetch(`/api/quiz-sessions/exam/${exam.sessionId}`);
+                if (current.ok) {
+                    applyProgress(await current.json());
+                }
+                return;
+            }
+
+            if (!response.ok) {
+                toast.error(data.error || 'Failed to submit answer');
+                return;
+            }
+
+            applyProgress(data);
+        } catch (error) {
+            console.error('Error submitting exam answer:', error);
+            toast.error('Failed to submit answer. Please try again.');
+        } finally {
+            setSubmitting(false);
+        }
+    }, [exam, submitting, questionShownAt, applyProgress]);
+
+    /**
+     * Ask the server to close the exam once the clock has run out
+     */
+    const expireExam = useCallback(async () => {
+        if (!exam) return;
+
+        try {
+            const response = await fetch(`/api/quiz-sessions/exam/${exam.sessionId}`);
+            if (response.ok) {
+                applyProgress(await response.json());
+            }
+        } catch (error) {
+            console.error('Error ending timed out exam:', error);
+        }
+    }, [exam, applyProgress]);
+
+    return {
+        exam,
+        result,
+        starting,
+        submitting,
+        startExam,
+        submitAnswer,
+        expireExam,
+    };
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Loader2, Timer, ListChecks, Lock } from "lucide-react";
+import { CAT_EXAM_CONFIG } from "@/lib/quiz/cat-exam";
+import { useExamSimulator } from "./hooks/useExamSimulator";
+import { ExamQuestionView } from "./components/ExamQuestionView";
+import { ExamResultReport } from "./components/ExamResultReport";
+
+export default function ExamSimulatorPage() {
+  const { exam, result, starting, submitting, startExam, submitAnswer, expireExam } = useExamSimulator();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#0f1729] via-[#1a2235] to-[#0f1729]">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!exam && (
+          <Link href="/dashboard">
+            <Button variant="ghost" className="text-white mb-4">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </Link>
+        )}
+
+        <div className="mb-8">
+          <h1 className="text-2xl sm:text-3xl font-bold text-white mb-2">
+            CISSP Exam Simulator
+          </h1>
+          <p className="text-gray-400">
+            Adaptive delivery across all 8 domains, weighted like the real exam
+          </p>
+        </div>
+
+        {exam ? (
+          <ExamQuestionView
+            exam={exam}
+            submitting={submitting}
+            onSubmit={submitAnswer}
+            onExpire={expireExam}
+          />
+        ) : result ? (
+          <div className="space-y-6">
+            <ExamResultReport result={result} />
+            <div className="max-w-3xl mx-auto">
+              <Button
+                onClick={startExam}
+                disabled={starting}
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-6 text-lg"
+              >
+                {starting && <Loader2 className="w-5 h-5 mr-2 animate-spin" />}
+                Take Another Exam
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="max-w-2xl mx-auto glass p-6 md:p-8 rounded-xl space-y-6">
+            <ul className="space-y-4 text-gray-300">
+              <li className="flex items-start gap-3">
+                <ListChecks className="w-5 h-5 text-blue-400 mt-0.5 flex-shrink-0" />
+                Between {CAT_EXAM_CONFIG.MIN_ITEMS} and {CAT_EXAM_CONFIG.MAX_ITEMS} items. Each item is
+                chosen from your answers so far, and the exam ends as soon as your result is clear.
+              </li>
+              <li className="flex items-start gap-3">
+                <Timer className="w-5 h-5 text-blue-400 mt-0.5 flex-shrink-0" />
+                {CAT_EXAM_CONFIG.TIME_LIMIT_SECONDS / 3600} hours on the clock. The clock keeps running if you leave the page.
+              </li>
+              <li className="flex items-start gap-3">
+                <Lock className="w-5 h-5 text-blue-400 mt-0.5 flex-shrink-0" />
+                No going back: answers are final and are not marked until the end.
+              </li>
+            </ul>
+            <Button
+              onClick={startExam}
+              disabled={starting}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-6 text-lg"
+            >
+              {starting && <Loader2 className="w-5 h-5 mr-2 animate-spin" />}
+              Start Exam
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
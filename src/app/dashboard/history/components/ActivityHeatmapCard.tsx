@@ -0,0 +1,75 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Flame } from "lucide-react";
+import type { ActivityHeatmap, HeatmapCell } from "@/lib/history/activity-heatmap";
+
+interface ActivityHeatmapCardProps {
+  heatmap: ActivityHeatmap;
+  selectedDate?: string;
+  onSelectDate: (date: string) => void;
+}
+
+const LEVEL_CLASSES = ["bg-slate-700/50", "bg-green-900", "bg-green-700", "bg-green-500", "bg-green-300"];
+
+function describeCell(cell: HeatmapCell): string {
+  const date = new Date(`${cell.date}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+  if (cell.count === 0) {
+    return `${date}: no activity`;
+  }
+  return `${date}: ${cell.cardsStudied} cards studied, ${cell.questionsAnswered} questions answered, ${Math.round(cell.studySeconds / 60)} min`;
+}
+
+export function ActivityHeatmapCard({ heatmap, selectedDate, onSelectDate }: ActivityHeatmapCardProps) {
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Flame className="w-5 h-5 text-orange-400" />
+          Activity
+        </CardTitle>
+        <p className="text-sm text-slate-400">
+          {heatmap.activeDays} active days &middot; {heatmap.totalCount} cards and questions in the last year
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto pb-2">
+          <div className="flex gap-1 w-max">
+            {heatmap.weeks.map((week, weekIndex) => (
+              <div key={weekIndex} className="flex flex-col gap-1">
+                {week.map((cell, dayIndex) =>
+                  cell ? (
+                    <button
+                      key={cell.date}
+                      type="button"
+                      title={describeCell(cell)}
+                      aria-label={describeCell(cell)}
+                      onClick={() => onSelectDate(cell.date)}
+                      className={`w-3 h-3 rounded-sm ${LEVEL_CLASSES[cell.level]} ${
+                        cell.date === selectedDate ? "ring-2 ring-blue-400" : ""
+                      }`}
+                    />
+                  ) : (
+                    <div key={dayIndex} className="w-3 h-3" />
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center justify-end gap-1 mt-2 text-xs text-slate-400">
+          Less
+          {LEVEL_CLASSES.map((levelClass) => (
+            <span key={levelClass} className={`w-3 h-3 rounded-sm ${levelClass}`} />
+          ))}
+          More
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { BookOpen, ChevronRight, ClipboardCheck, Clock, GraduationCap, Target } from "lucide-react";
+import { HISTORY_SESSION_TYPE_LABELS, type HistorySessionType } from "@/lib/validations/history";
+import type { HistoryEntry } from "../hooks/useSessionHistory";
+
+interface HistoryEntryCardProps {
+  entry: HistoryEntry;
+}
+
+const TYPE_ICONS = {
+  study: BookOpen,
+  deck: ClipboardCheck,
+  flashcard: ClipboardCheck,
+  exam: GraduationCap,
+  drill: Target,
+};
+
+function formatDuration(seconds: number | null): string | null {
+  if (!seconds) return null;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 1 ? `${seconds}s` : `${minutes} min`;
+}
+
+function getEntryType(entry: HistoryEntry): HistorySessionType {
+  return entry.kind === "study" ? "study" : ((entry.quizType ?? "deck") as HistorySessionType);
+}
+
+export function HistoryEntryCard({ entry }: HistoryEntryCardProps) {
+  const type = getEntryType(entry);
+  const Icon = TYPE_ICONS[type] ?? ClipboardCheck;
+  const inProgress = entry.endedAt === null;
+  // Answers of an exam still being taken stay hidden
+  const href =
+    entry.kind === "study"
+      ? `/dashboard/session/${entry.id}/summary`
+      : type === "exam" && inProgress
+        ? null
+        : `/dashboard/history/quiz/${entry.id}`;
+  const duration = formatDuration(entry.durationSeconds);
+  const deckLabel =
+    entry.deckCount > 1 ? `${entry.deckName ?? "Deck"} + ${entry.deckCount - 1} more` : entry.deckName;
+
+  const content = (
+    <Card className="bg-slate-800/50 border-slate-700 hover:border-slate-500 transition-colors">
+      <CardContent className="py-4 flex items-center gap-4">
+        <div className="p-2 rounded-lg bg-slate-700/50">
+          <Icon className="w-5 h-5 text-blue-400" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-semibold text-white">{HISTORY_SESSION_TYPE_LABELS[type]}</span>
+            {inProgress && (
+              <Badge variant="outline" className="border-yellow-500/50 text-yellow-300">
+                In progress
+              </Badge>
+            )}
+          </div>
+          <p className="text-sm text-slate-400 truncate">
+            {[entry.className, deckLabel].filter(Boolean).join(" · ") || "Mixed decks"}
+          </p>
+          <p className="text-xs text-slate-500 flex items-center gap-1 mt-1">
+            <Clock className="w-3 h-3" />
+            {new Date(entry.startedAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}
+            {duration && <> &middot; {duration}</>}
+          </p>
+        </div>
+        <div className="text-right">
+          {entry.kind === "study" ? (
+            <>
+              <p className="text-lg font-bold text-white">{entry.itemCount}</p>
+              <p className="text-xs text-slate-400">
+                cards{entry.averageConfidence !== null && <> &middot; {entry.averageConfidence.toFixed(1)} avg</>}
+              </p>
+            </>
+          ) : (
+            <>
+              <p className="text-lg font-bold text-white">
+                {entry.scorePercentage !== null ? `${Math.round(entry.scorePercentage)}%` : "—"}
+              </p>
+              <p className="text-xs text-slate-400">
+                {entry.correctCount ?? 0}/{entry.itemCount} correct
+              </p>
+            </>
+          )}
+        </div>
+        {href && <ChevronRight className="w-5 h-5 text-slate-500" />}
+      </CardContent>
+    </Card>
+  );
+
+  return href ? <Link href={href}>{content}</Link> : content;
+}
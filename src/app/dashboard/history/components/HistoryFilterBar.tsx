@@ -0,0 +1,134 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X } from "lucide-react";
+import type { HistoryFilterClass } from "@/lib/history/session-history";
+import { HISTORY_SESSION_TYPES, HISTORY_SESSION_TYPE_LABELS, type HistorySessionType } from "@/lib/validations/history";
+import type { HistoryFilters } from "../hooks/useSessionHistory";
+
+interface HistoryFilterBarProps {
+  filters: HistoryFilters;
+  classes: HistoryFilterClass[];
+  onChange: (filters: HistoryFilters) => void;
+}
+
+// Radix selects cannot have an empty value
+const ALL = "all";
+
+export function HistoryFilterBar({ filters, classes, onChange }: HistoryFilterBarProps) {
+  const selectedClass = classes.find((option) => option.id === filters.classId);
+  const deckOptions = selectedClass ? selectedClass.decks : classes.flatMap((option) => option.decks);
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4 items-end">
+      <div className="space-y-2">
+        <Label className="text-slate-300">Type</Label>
+        <Select
+          value={filters.type ?? ALL}
+          onValueChange={(value) =>
+            onChange({ ...filters, type: value === ALL ? undefined : (value as HistorySessionType) })
+          }
+        >
+          <SelectTrigger className="bg-slate-900 border-slate-700 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            <SelectItem value={ALL} className="text-white hover:bg-slate-700">
+              All Sessions
+            </SelectItem>
+            {HISTORY_SESSION_TYPES.map((type) => (
+              <SelectItem key={type} value={type} className="text-white hover:bg-slate-700">
+                {HISTORY_SESSION_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-slate-300">Class</Label>
+        <Select
+          value={filters.classId ?? ALL}
+          // A new class clears a deck from another class
+          onValueChange={(value) =>
+            onChange({ ...filters, classId: value === ALL ? undefined : value, deckId: undefined })
+          }
+        >
+          <SelectTrigger className="bg-slate-900 border-slate-700 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            <SelectItem value={ALL} className="text-white hover:bg-slate-700">
+              All Classes
+            </SelectItem>
+            {classes.map((option) => (
+              <SelectItem key={option.id} value={option.id} className="text-white hover:bg-slate-700">
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-slate-300">Deck</Label>
+        <Select
+          value={filters.deckId ?? ALL}
+          onValueChange={(value) => onChange({ ...filters, deckId: value === ALL ? undefined : value })}
+        >
+          <SelectTrigger className="bg-slate-900 border-slate-700 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            <SelectItem value={ALL} className="text-white hover:bg-slate-700">
+              All Decks
+            </SelectItem>
+            {deckOptions.map((deck) => (
+              <SelectItem key={deck.id} value={deck.id} className="text-white hover:bg-slate-700">
+                {deck.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="history-from" className="text-slate-300">From</Label>
+        <Input
+          id="history-from"
+          type="date"
+          value={filters.from ?? ""}
+          max={filters.to}
+          onChange={(event) => onChange({ ...filters, from: event.target.value || undefined })}
+          className="bg-slate-900/50 border-slate-600 text-white"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="history-to" className="text-slate-300">To</Label>
+        <Input
+          id="history-to"
+          type="date"
+          value={filters.to ?? ""}
+          min={filters.from}
+          onChange={(event) => onChange({ ...filters, to: event.target.value || undefined })}
+          className="bg-slate-900/50 border-slate-600 text-white"
+        />
+      </div>
+
+      <Button
+        variant="ghost"
+        onClick={() => onChange({})}
+        disabled={!hasFilters}
+        className="text-slate-400 hover:text-white"
+      >
+        <X className="w-4 h-4 mr-2" />
+        Clear Filters
+      </Button>
+    </div>
+  );
+}
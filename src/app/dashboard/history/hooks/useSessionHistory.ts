@@ -0,0 +1,107 @@
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import type { ActivityHeatmap } from '@/lib/history/activity-heatmap';
+import type { HistoryFilterClass, HistoryItemKind } from '@/lib/history/session-history';
+import type { HistorySessionType } from '@/lib/validations/history';
+
+export interface HistoryFilters {
+    type?: HistorySessionType;
+    classId?: string;
+    deckId?: string;
+    from?: string; // YYYY-MM-DD
+    to?: string;
+}
+
+export interface HistoryEntry {
+    id: string;
+    kind: HistoryItemKind;
+    quizType: string | null;
+    deckId: string | null;
+    deckName: string | null;
+    deckCount: number;
+    classId: string | null;
+    className: string | null;
+    startedAt: string;
+    endedAt: string | null;
+    itemCount: number;
+    correctCount: number | null;
+    scorePercentage: number | null;
+    averageConfidence: number | null;
+    durationSeconds: number | null;
+}
+
+function getTimeZoneHeaders(): Record<string, string> {
+    return { 'X-Timezone': Intl.DateTimeFormat().resolvedOptions().timeZone };
+}
+
+function toQueryString(filters: HistoryFilters, page: number): string {
+    const params = new URLSearchParams({ page: String(page) });
+    for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+    }
+    return params.toString();
+}
+
+export function useSessionHistory() {
+    const [filters, setFilters] = useState<HistoryFilters>({});
+    const [entries, setEntries] = useState<HistoryEntry[]>([]);
+    const [page, setPage] = useState(0);
+    const [hasMore, setHasMore] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [heatmap, setHeatmap] = useState<ActivityHeatmap | null>(null);
+    const [filterClasses, setFilterClasses] = useState<HistoryFilterClass[]>([]);
+
+    // Page 0 replaces the timeline; later pages are appended
+    const loadHistory = useCallback(async (nextFilters: HistoryFilters, nextPage: number = 0) => {
+        setLoading(true);
+        setFilters(nextFilters);
+        try {
+            const res = await fetch(`/api/history?${toQueryString(nextFilters, nextPage)}`, {
+                headers: getTimeZoneHeaders(),
+            });
+            if (!res.ok) throw new Error('Failed to load history');
+
+            const data = await res.json();
+            setPage(nextPage);
+            setEntries((prev) => (nextPage === 0 ? data.items : [...prev, ...data.items]));
+            setHasMore(data.hasMore);
+        } catch (error) {
+            console.error('Error loading history:', error);
+            toast.error("Failed to load your study history");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    const loadMore = useCallback(() => loadHistory(filters, page + 1), [loadHistory, filters, page]);
+
+    // The heatmap and filter options do not change with the filters, so they load once
+    const loadOverview = useCallback(async () => {
+        try {
+            const [activityRes, filtersRes] = await Promise.all([
+                fetch('/api/history/activity', { headers: getTimeZoneHeaders() }),
+                fetch('/api/history/filters'),
+            ]);
+            if (!activityRes.ok || !filtersRes.ok) throw new Error('Failed to load activity');
+
+            const [activity, options] = await Promise.all([activityRes.json(), filtersRes.json()]);
+            setHeatmap(activity);
+            setFilterClasses(options.classes);
+        } catch (error) {
+            console.error('Error loading activity:', error);
+            toast.error("Failed to load your activity calendar");
+        }
+    }, []);
+
+    return {
+        filters,
+        entries,
+        hasMore,
+        loading,
+        heatmap,
+        filterClasses,
+        loadHistory,
+        loadMore,
+        loadOverview,
+    };
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, History, Loader2 } from "lucide-react";
+import { useSessionHistory, type HistoryFilters } from "./hooks/useSessionHistory";
+import { ActivityHeatmapCard } from "./components/ActivityHeatmapCard";
+import { HistoryFilterBar } from "./components/HistoryFilterBar";
+import { HistoryEntryCard } from "./components/HistoryEntryCard";
+
+export default function StudyHistoryPage() {
+  const { filters, entries, hasMore, loading, heatmap, filterClasses, loadHistory, loadMore, loadOverview } =
+    useSessionHistory();
+
+  useEffect(() => {
+    loadOverview();
+    loadHistory({});
+  }, [loadOverview, loadHistory]);
+
+  // Clicking a day narrows the timeline to that day; clicking it again clears the dates
+  const selectDate = (date: string) => {
+    const selected = filters.from === date && filters.to === date;
+    loadHistory({ ...filters, from: selected ? undefined : date, to: selected ? undefined : date });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#0f1729] via-[#1a2235] to-[#0f1729]">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard">
+          <Button variant="ghost" className="text-white mb-4">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </Link>
+
+        <div className="mb-8">
+          <h1 className="text-2xl sm:text-3xl font-bold text-white mb-2 flex items-center gap-3">
+            <History className="w-7 h-7 text-blue-400" />
+            Study History
+          </h1>
+          <p className="text-gray-400">Every study session and quiz you have taken, with a day-by-day activity calendar</p>
+        </div>
+
+        <div className="space-y-6">
+          {heatmap && (
+            <ActivityHeatmapCard
+              heatmap={heatmap}
+              selectedDate={filters.from === filters.to ? filters.from : undefined}
+              onSelectDate={selectDate}
+            />
+          )}
+
+          <HistoryFilterBar filters={filters} classes={filterClasses} onChange={(nextFilters: HistoryFilters) => loadHistory(nextFilters)} />
+
+          <div className="max-w-3xl space-y-3">
+            {entries.map((entry) => (
+              <HistoryEntryCard key={`${entry.kind}-${entry.id}`} entry={entry} />
+            ))}
+
+            {loading && (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+              </div>
+            )}
+
+            {!loading && entries.length === 0 && (
+              <p className="text-gray-400 text-center py-12">No sessions match these filters.</p>
+            )}
+
+            {!loading && hasMore && (
+              <Button variant="outline" onClick={loadMore} className="w-full border-slate-600 text-slate-200">
+                Load More
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
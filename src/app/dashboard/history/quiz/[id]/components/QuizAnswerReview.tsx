@@ -0,0 +1,90 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { CheckCircle2, Clock, XCircle } from "lucide-react";
+import { QuizResponseInput } from "@/components/quiz/QuizResponseInput";
+import { QuizExplanationPanel } from "@/components/quiz/QuizExplanationPanel";
+import { describeCorrectAnswer, describeQuizResponse, toRevealedQuestionContent } from "@/lib/quiz/answer-display";
+import type { QuizAnswerDetail } from "@/lib/history/session-history";
+
+interface QuizAnswerReviewProps {
+  answer: QuizAnswerDetail;
+}
+
+export function QuizAnswerReview({ answer }: QuizAnswerReviewProps) {
+  const question = toRevealedQuestionContent(answer, answer.reveal);
+  const correctAnswer = answer.reveal ? describeCorrectAnswer(answer.options, answer.reveal) : null;
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardContent className="py-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-slate-400">Question {answer.questionNumber}</span>
+          {answer.isCorrect ? (
+            <Badge variant="outline" className="border-green-500/50 text-green-300">
+              <CheckCircle2 className="w-3 h-3 mr-1" />
+              Correct
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="border-red-500/50 text-red-300">
+              <XCircle className="w-3 h-3 mr-1" />
+              Incorrect
+            </Badge>
+          )}
+          {answer.timeSpent !== null && (
+            <span className="text-slate-400 flex items-center gap-1">
+              <Clock className="w-3 h-3" />
+              {answer.timeSpent}s
+            </span>
+          )}
+        </div>
+
+        {answer.questionText === null ? (
+          <p className="text-sm text-slate-400">This question has since been removed.</p>
+        ) : (
+          <>
+            <h3 className="text-lg font-semibold text-white">{answer.questionText}</h3>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div
+                className={`rounded-lg border p-3 ${
+                  answer.isCorrect ? "bg-green-500/10 border-green-500/30" : "bg-red-500/10 border-red-500/30"
+                }`}
+              >
+                <p className={`text-xs mb-1 ${answer.isCorrect ? "text-green-300" : "text-red-300"}`}>Your answer</p>
+                <p className="text-sm text-gray-200">{describeQuizResponse(answer.options, answer.response)}</p>
+              </div>
+              {correctAnswer && (
+                <div className="rounded-lg border bg-green-500/10 border-green-500/30 p-3">
+                  <p className="text-xs text-green-300 mb-1">Correct answer</p>
+                  <p className="text-sm text-gray-200">{correctAnswer}</p>
+                </div>
+              )}
+            </div>
+
+            <QuizResponseInput
+              question={question}
+              response={answer.response}
+              onChange={() => {}}
+              showAnswer
+              isDisabled
+              accentColor="blue"
+            />
+
+            {answer.reveal && (
+              <QuizExplanationPanel
+                explanation={answer.reveal.explanation}
+                eliminationTactics={answer.reveal.eliminationTactics}
+                correctJustification={
+                  answer.reveal.correctAnswerWithJustification || answer.reveal.correctOptionsJustification
+                }
+                compareOptions={answer.reveal.compareRemainingOptionsWithJustification}
+              />
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,127 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, CheckCircle, Clock, Target } from "lucide-react";
+import { commonValidators } from "@/lib/api/validate";
+import { getQuizSessionDetail, isExamInProgress } from "@/lib/history/session-history";
+import { QuizAnswerReview } from "./components/QuizAnswerReview";
+
+const QUIZ_TITLES: Record<string, string> = {
+  flashcard: "Flashcard Quiz",
+  deck: "Deck Quiz",
+  exam: "Exam Simulation",
+  drill: "Topic Drill",
+};
+
+function formatDuration(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+export default async function QuizReviewPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/sign-in");
+  }
+
+  const { id } = await params;
+  const quiz = commonValidators.uuid.safeParse(id).success ? await getQuizSessionDetail(userId, id) : undefined;
+
+  // Answers of an exam still being taken stay hidden
+  if (!quiz || isExamInProgress(quiz)) {
+    redirect("/dashboard/history");
+  }
+
+  const title = QUIZ_TITLES[quiz.quizType] ?? "Quiz";
+  const answerTimes = quiz.answers.flatMap((answer) => (answer.timeSpent !== null ? [answer.timeSpent] : []));
+  const averageSeconds = answerTimes.length
+    ? Math.round(answerTimes.reduce((sum, seconds) => sum + seconds, 0) / answerTimes.length)
+    : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#0f1729] via-[#1a2235] to-[#0f1729]">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard/history">
+          <Button variant="ghost" className="text-white mb-4">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to History
+          </Button>
+        </Link>
+
+        <div className="max-w-3xl">
+          <div className="mb-8">
+            <h1 className="text-2xl sm:text-3xl font-bold text-white mb-2">{title}</h1>
+            <p className="text-gray-400">
+              {quiz.deckName && <>{quiz.deckName} &middot; </>}
+              {quiz.startedAt.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium text-gray-400 flex items-center gap-2">
+                  <Target className="w-4 h-4" />
+                  Score
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold text-white">
+                  {quiz.scorePercentage !== null ? `${Math.round(quiz.scorePercentage)}%` : "—"}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium text-gray-400 flex items-center gap-2">
+                  <CheckCircle className="w-4 h-4" />
+                  Correct
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold text-white">
+                  {quiz.correctAnswers}/{quiz.totalQuestions}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium text-gray-400 flex items-center gap-2">
+                  <Clock className="w-4 h-4" />
+                  Time
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold text-white">
+                  {quiz.durationSeconds !== null ? formatDuration(quiz.durationSeconds) : "—"}
+                </div>
+                {averageSeconds !== null && (
+                  <p className="text-xs text-gray-400 mt-1">{averageSeconds}s per question</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            {quiz.answers.map((answer) => (
+              <QuizAnswerReview key={answer.id} answer={answer} />
+            ))}
+            {quiz.answers.length === 0 && (
+              <p className="text-gray-400 text-center py-12">No answers were recorded for this quiz.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { Badge } from "@/components/ui/badge";
+import { TrendingUp, TrendingDown, Minus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AccuracyStats } from "@/lib/quiz/topic-accuracy";
+
+const CONFIDENCE_STYLES = {
+  high: "border-green-500/50 text-green-300",
+  medium: "border-yellow-500/50 text-yellow-300",
+  low: "border-slate-500/50 text-slate-400",
+};
+
+/**
+ * Accuracy with its interval, confidence and recent trend
+ */
+export function AccuracyBadges({ stats }: { stats: AccuracyStats }) {
+  if (stats.accuracy === null) {
+    return <span className="text-xs text-slate-500">Not attempted</span>;
+  }
+
+  const TrendIcon =
+    stats.trend?.direction === "improving" ? TrendingUp : stats.trend?.direction === "declining" ? TrendingDown : Minus;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <span
+        className="text-white font-semibold text-sm"
+        title={`95% interval: ${stats.accuracyLow}%–${stats.accuracyHigh}%`}
+      >
+        {stats.accuracy}%
+      </span>
+      <span className="text-slate-400">
+        {stats.correct}/{stats.attempts}
+      </span>
+      {stats.confidence && (
+        <Badge variant="outline" className={CONFIDENCE_STYLES[stats.confidence]}>
+          {stats.confidence} confidence
+        </Badge>
+      )}
+      {stats.trend && (
+        <span
+          className={cn(
+            "flex items-center gap-1",
+            stats.trend.direction === "improving" && "text-green-400",
+            stats.trend.direction === "declining" && "text-red-400",
+            stats.trend.direction === "steady" && "text-slate-400"
+          )}
+          title="Last 30 days compared with the 30 days before"
+        >
+          <TrendIcon className="w-3 h-3" />
+          {stats.trend.change > 0 ? "+" : ""}
+          {stats.trend.change} pts
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import type { DomainInsight } from "@/lib/quiz/topic-accuracy";
+import { AccuracyBadges } from "./AccuracyBadges";
+
+interface DomainInsightsListProps {
+  domains: DomainInsight[];
+  onDrill: (subTopicIds: string[], name: string) => void;
+}
+
+/**
+ * Accuracy by domain, expanding into topics and sub-topics
+ */
+export function DomainInsightsList({ domains, onDrill }: DomainInsightsListProps) {
+  const [openDomains, setOpenDomains] = useState<Set<number>>(new Set());
+
+  const toggleDomain = (domain: number) => {
+    setOpenDomains((prev) => {
+      const next = new Set(prev);
+      if (next.has(domain)) {
+        next.delete(domain);
+      } else {
+        next.add(domain);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {domains.map((domain) => (
+        <Collapsible
+          key={domain.domain}
+          open={openDomains.has(domain.domain)}
+          onOpenChange={() => toggleDomain(domain.domain)}
+          className="rounded-xl bg-slate-800/50 border border-slate-700"
+        >
+          <CollapsibleTrigger asChild disabled={domain.topics.length === 0}>
+            <button className="w-full flex items-center gap-3 p-4 text-left disabled:cursor-default">
+              {domain.topics.length > 0 ? (
+                openDomains.has(domain.domain) ? (
+                  <ChevronDown className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                ) : (
+                  <ChevronRight className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                )
+              ) : (
+                <span className="w-4 flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0 space-y-2">
+                <p className="text-white font-semibold truncate">
+                  Domain {domain.domain}: {domain.name}
+                </p>
+                <AccuracyBadges stats={domain} />
+              </div>
+              {domain.accuracy !== null && (
+                <Progress value={domain.accuracy} className="h-2 w-24 sm:w-40 flex-shrink-0" />
+              )}
+            </button>
+          </CollapsibleTrigger>
+
+          <CollapsibleContent className="px-4 pb-4 space-y-4">
+            {domain.topics.map((topic) => (
+              <div key={topic.id} className="pl-7 space-y-2">
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-blue-200">
+                    {topic.code} {topic.name}
+                  </p>
+                  <AccuracyBadges stats={topic} />
+                </div>
+                <ul className="space-y-2 border-l border-slate-700 pl-4">
+                  {topic.subTopics.map((subTopic) => (
+                    <li key={subTopic.id} className="flex items-center justify-between gap-4">
+                      <div className="min-w-0 space-y-1">
+                        <p className="text-sm text-gray-200 truncate">{subTopic.name}</p>
+                        <AccuracyBadges stats={subTopic} />
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={subTopic.questionCount === 0}
+                        onClick={() => onDrill([subTopic.id], subTopic.name)}
+                        className="text-blue-300 hover:bg-blue-500/10 flex-shrink-0"
+                      >
+                        Drill
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </CollapsibleContent>
+        </Collapsible>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Target, Crosshair } from "lucide-react";
+import { TOPIC_INSIGHTS_CONFIG, type WeakArea } from "@/lib/quiz/topic-accuracy";
+
+interface WeakAreasCardProps {
+  weakest: WeakArea[];
+  onDrill: (subTopicIds: string[], name: string) => void;
+}
+
+export function WeakAreasCard({ weakest, onDrill }: WeakAreasCardProps) {
+  const drillTargets = weakest.slice(0, TOPIC_INSIGHTS_CONFIG.DRILL_SUB_TOPICS);
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Target className="w-5 h-5 text-red-400" />
+          Weakest Sub-topics
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {weakest.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            Answer at least {TOPIC_INSIGHTS_CONFIG.MIN_WEAK_AREA_ATTEMPTS} questions on a sub-topic to see where you are
+            weakest.
+          </p>
+        ) : (
+          <>
+            <ul className="space-y-3">
+              {weakest.map((area) => (
+                <li key={area.subTopicId} className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-white font-medium truncate">{area.subTopicName}</p>
+                    <p className="text-xs text-gray-400 truncate">
+                      {area.topicCode} {area.topicName} &middot; {area.accuracy}% of {area.attempts}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onDrill([area.subTopicId], area.subTopicName)}
+                    className="border-blue-500/50 text-blue-300 hover:bg-blue-500/10 flex-shrink-0"
+                  >
+                    Drill
+                  </Button>
+                </li>
+              ))}
+            </ul>
+            <Button
+              onClick={() =>
+                onDrill(
+                  drillTargets.map((area) => area.subTopicId),
+                  drillTargets.length === 1 ? drillTargets[0].subTopicName : "Your weakest sub-topics"
+                )
+              }
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              <Crosshair className="w-4 h-4 mr-2" />
+              Drill My {drillTargets.length === 1 ? "Weakest Sub-topic" : `${drillTargets.length} Weakest Sub-topics`}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { LineChart } from "lucide-react";
+import { TOPIC_INSIGHTS_CONFIG, type WeeklyAccuracy } from "@/lib/quiz/topic-accuracy";
+
+interface WeeklyAccuracyCardProps {
+  weekly: WeeklyAccuracy[];
+}
+
+export function WeeklyAccuracyCard({ weekly }: WeeklyAccuracyCardProps) {
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <LineChart className="w-5 h-5 text-blue-400" />
+          Accuracy by Week
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {weekly.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            No topic-tagged answers in the last {TOPIC_INSIGHTS_CONFIG.WEEKLY_TREND_WEEKS} weeks.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-end gap-2 h-32" aria-label="Quiz accuracy per week">
+              {weekly.map((week) => (
+                <div key={week.weekStart} className="flex-1 flex flex-col items-center justify-end h-full">
+                  <span className="text-[10px] text-gray-400 mb-1">{Math.round(week.accuracy)}%</span>
+                  <div
+                    title={`Week of ${week.weekStart}: ${week.correct}/${week.attempts} correct`}
+                    className={`w-full rounded-t ${week.accuracy >= 70 ? "bg-green-500/80" : "bg-orange-500/80"}`}
+                    style={{ height: `${Math.max(4, week.accuracy)}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-2">
+              <span>{weekly[0].weekStart}</span>
+              <span>{weekly[weekly.length - 1].weekStart}</span>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
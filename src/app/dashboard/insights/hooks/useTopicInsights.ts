@@ -0,0 +1,29 @@
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import type { TopicInsights } from '@/lib/quiz/topic-accuracy';
+
+export function useTopicInsights() {
+    const [insights, setInsights] = useState<TopicInsights | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    const loadInsights = useCallback(async () => {
+        setLoading(true);
+        try {
+            const res = await fetch('/api/insights');
+            if (!res.ok) throw new Error('Failed to load insights');
+
+            setInsights(await res.json());
+        } catch (error) {
+            console.error('Error loading insights:', error);
+            toast.error("Failed to load your insights");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    return {
+        insights,
+        loading,
+        loadInsights,
+    };
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { DeckQuizModal } from "@/components/DeckQuizModal";
+import { useTopicInsights } from "./hooks/useTopicInsights";
+import { AccuracyBadges } from "./components/AccuracyBadges";
+import { WeakAreasCard } from "./components/WeakAreasCard";
+import { WeeklyAccuracyCard } from "./components/WeeklyAccuracyCard";
+import { DomainInsightsList } from "./components/DomainInsightsList";
+
+interface DrillTarget {
+  subTopicIds: string[];
+  name: string;
+}
+
+export default function InsightsPage() {
+  const { insights, loading, loadInsights } = useTopicInsights();
+  const [drill, setDrill] = useState<DrillTarget | null>(null);
+
+  useEffect(() => {
+    loadInsights();
+  }, [loadInsights]);
+
+  const handleDrill = (subTopicIds: string[], name: string) => {
+    setDrill({ subTopicIds, name });
+  };
+
+  const handleDrillClose = () => {
+    setDrill(null);
+    loadInsights();
+  };
+
+  if (loading && !insights) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-[#0f1729] via-[#1a2235] to-[#0f1729]">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex justify-center items-center min-h-[400px]">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#0f1729] via-[#1a2235] to-[#0f1729]">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard">
+          <Button variant="ghost" className="text-white mb-4">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </Link>
+
+        <div className="mb-8">
+          <h1 className="text-2xl sm:text-3xl font-bold text-white mb-2">
+            Topic Insights
+          </h1>
+          <p className="text-gray-400">
+            Your quiz accuracy by domain, topic and sub-topic, and where to focus next
+          </p>
+        </div>
+
+        {insights && (
+          <div className="space-y-6">
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardContent className="py-6">
+                <p className="text-sm text-gray-400 mb-2">Overall accuracy</p>
+                <AccuracyBadges stats={insights.overall} />
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <WeakAreasCard weakest={insights.weakest} onDrill={handleDrill} />
+              <WeeklyAccuracyCard weekly={insights.weekly} />
+            </div>
+
+            <div>
+              <h2 className="text-xl font-semibold text-white mb-4">By Domain</h2>
+              <DomainInsightsList domains={insights.domains} onDrill={handleDrill} />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {drill && (
+        <DeckQuizModal
+          isOpen
+          onClose={handleDrillClose}
+          deckName={drill.name}
+          drillSubTopicIds={drill.subTopicIds}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { CheckCircle2, XCircle, RotateCcw, Archive, Loader2 } from "lucide-react";
+import { QuizResponseInput } from "@/components/quiz/QuizResponseInput";
+import { QuizExplanationPanel } from "@/components/quiz/QuizExplanationPanel";
+import { describeQuizResponse, toRevealedQuestionContent } from "@/lib/quiz/answer-display";
+import { getInitialResponse, isResponseComplete, type QuizResponse } from "@/lib/quiz/question-types";
+import type { MistakeAttemptResult, NotebookEntry } from "../hooks/useMistakeNotebook";
+
+interface MistakeCardProps {
+  entry: NotebookEntry;
+  retireAfter: number;
+  onAttempt: (entryId: string, response: QuizResponse) => Promise<MistakeAttemptResult | null>;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+export function MistakeCard({ entry, retireAfter, onAttempt }: MistakeCardProps) {
+  const [response, setResponse] = useState<QuizResponse | null>(() =>
+    entry.status === "due" ? getInitialResponse(toRevealedQuestionContent(entry, null)) : entry.lastWrongResponse
+  );
+  const [result, setResult] = useState<MistakeAttemptResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const reveal = result ?? entry.reveal;
+  const question = toRevealedQuestionContent(entry, reveal);
+  const isAttempting = entry.status === "due" && !result;
+  const streak = result?.consecutiveCorrect ?? entry.consecutiveCorrect;
+
+  const handleSubmit = async () => {
+    if (!response) return;
+
+    setSubmitting(true);
+    const attempt = await onAttempt(entry.id, response);
+    setSubmitting(false);
+    if (attempt) {
+      setResult(attempt);
+    }
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardContent className="py-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {entry.source && <span className="text-slate-400">{entry.source}</span>}
+          <Badge variant="outline" className="border-red-500/50 text-red-300">
+            Wrong {entry.timesWrong}×
+          </Badge>
+          {entry.status !== "retired" && (
+            <Badge variant="outline" className="border-blue-500/50 text-blue-300">
+              {streak}/{retireAfter} correct in a row
+            </Badge>
+          )}
+        </div>
+
+        <h3 className="text-lg font-semibold text-white">{entry.questionText}</h3>
+
+        <div className="rounded-lg bg-red-500/10 border border-red-500/30 p-3">
+          <p className="text-xs text-red-300 mb-1">
+            Your previous answer ({formatDate(entry.lastWrongAt)})
+          </p>
+          <p className="text-sm text-gray-200">{describeQuizResponse(entry.options, entry.lastWrongResponse)}</p>
+        </div>
+
+        <QuizResponseInput
+          question={question}
+          response={response}
+          onChange={setResponse}
+          showAnswer={!isAttempting}
+          isDisabled={submitting}
+          accentColor="blue"
+        />
+
+        {isAttempting && (
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || !isResponseComplete(question, response)}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+            Check Answer
+          </Button>
+        )}
+
+        {result && (
+          <div
+            className={`flex items-start gap-3 rounded-xl border-2 p-4 ${
+              result.isCorrect ? "bg-green-500/10 border-green-500/50" : "bg-orange-500/10 border-orange-500/50"
+            }`}
+            role="alert"
+            aria-live="polite"
+          >
+            {result.retired ? (
+              <Archive className="h-5 w-5 text-green-400 flex-shrink-0 mt-0.5" />
+            ) : result.isCorrect ? (
+              <CheckCircle2 className="h-5 w-5 text-green-400 flex-shrink-0 mt-0.5" />
+            ) : (
+              <XCircle className="h-5 w-5 text-orange-400 flex-shrink-0 mt-0.5" />
+            )}
+            <p className="text-sm text-gray-200">
+              {result.retired
+                ? `Correct ${result.retireAfter} times in a row, so this question is retired from your notebook.`
+                : result.isCorrect
+                  ? `Correct! ${result.consecutiveCorrect} of ${result.retireAfter} in a row. Next re-attempt on ${formatDate(result.nextReviewDate)}.`
+                  : `Not quite. Your streak starts over and this question comes back on ${formatDate(result.nextReviewDate)}.`}
+            </p>
+          </div>
+        )}
+
+        {reveal && (
+          <QuizExplanationPanel
+            explanation={reveal.explanation}
+            eliminationTactics={reveal.eliminationTactics}
+            correctJustification={reveal.correctAnswerWithJustification || reveal.correctOptionsJustification}
+            compareOptions={reveal.compareRemainingOptionsWithJustification}
+          />
+        )}
+
+        {!isAttempting && !result && entry.status === "upcoming" && (
+          <p className="text-xs text-slate-400">Next re-attempt on {formatDate(entry.nextReviewDate)}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
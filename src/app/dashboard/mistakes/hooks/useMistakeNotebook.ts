@@ -0,0 +1,106 @@
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import type { QuizAnswerReveal, PublicQuizOption } from '@/lib/quiz/grading';
+import type { QuizQuestionType, QuizResponse } from '@/lib/quiz/question-types';
+import type { MistakeStatus } from '@/lib/quiz/mistake-review';
+
+export interface NotebookEntry {
+    id: string;
+    status: MistakeStatus;
+    questionText: string;
+    source: string | null;
+    questionType: QuizQuestionType;
+    imageUrl: string | null;
+    options: PublicQuizOption[];
+    matchChoices?: string[];
+    lastWrongResponse: QuizResponse | null;
+    lastWrongAt: string;
+    timesWrong: number;
+    consecutiveCorrect: number;
+    nextReviewDate: string;
+    retiredAt: string | null;
+    reveal: QuizAnswerReveal | null; // Null while the entry is due for a re-attempt
+}
+
+export interface MistakeAttemptResult extends QuizAnswerReveal {
+    isCorrect: boolean;
+    consecutiveCorrect: number;
+    retireAfter: number;
+    retired: boolean;
+    nextReviewDate: string;
+}
+
+type StatusCounts = Record<MistakeStatus, number>;
+
+const EMPTY_COUNTS: StatusCounts = { due: 0, upcoming: 0, retired: 0 };
+
+export function useMistakeNotebook() {
+    const [status, setStatus] = useState<MistakeStatus>('due');
+    const [entries, setEntries] = useState<NotebookEntry[]>([]);
+    const [counts, setCounts] = useState<StatusCounts>(EMPTY_COUNTS);
+    const [page, setPage] = useState(0);
+    const [hasMore, setHasMore] = useState(false);
+    const [retireAfter, setRetireAfter] = useState(0);
+    const [loading, setLoading] = useState(true);
+
+    // Page 0 replaces the list; later pages are appended
+    const loadEntries = useCallback(async (nextStatus: MistakeStatus, nextPage: number = 0) => {
+        setLoading(true);
+        try {
+            const res = await fetch(`/api/mistakes?status=${nextStatus}&page=${nextPage}`);
+            if (!res.ok) throw new Error('Failed to load mistake notebook');
+
+            const data = await res.json();
+            setStatus(nextStatus);
+            setPage(nextPage);
+            setEntries((prev) => (nextPage === 0 ? data.entries : [...prev, ...data.entries]));
+            setCounts(data.counts);
+            setHasMore(data.hasMore);
+            setRetireAfter(data.retireAfter);
+        } catch (error) {
+            console.error('Error loading mistake notebook:', error);
+            toast.error("Failed to load your mistake notebook");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    const loadMore = useCallback(() => loadEntries(status, page + 1), [loadEntries, status, page]);
+
+    // Returns null when the re-attempt could not be saved
+    const attemptEntry = useCallback(async (entryId: string, response: QuizResponse): Promise<MistakeAttemptResult | null> => {
+        try {
+            const res = await fetch(`/api/mistakes/${entryId}/attempt`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ response }),
+            });
+
+            if (!res.ok) {
+                const data = await res.json().catch(() => ({}));
+                throw new Error(data.error || 'Failed to submit your answer');
+            }
+
+            const result: MistakeAttemptResult = await res.json();
+            const nextStatus: MistakeStatus = result.retired ? 'retired' : 'upcoming';
+            setCounts((prev) => ({ ...prev, due: Math.max(0, prev.due - 1), [nextStatus]: prev[nextStatus] + 1 }));
+            return result;
+        } catch (error) {
+            console.error('Error submitting mistake re-attempt:', error);
+            toast.error(error instanceof Error ? error.message : "Failed to submit your answer");
+            return null;
+        }
+    }, []);
+
+    return {
+        status,
+        entries,
+        counts,
+        hasMore,
+        retireAfter,
+        loading,
+        loadEntries,
+        loadMore,
+        attemptEntry,
+    };
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, Loader2, NotebookPen } from "lucide-react";
+import type { MistakeStatus } from "@/lib/quiz/mistake-review";
+import { useMistakeNotebook } from "./hooks/useMistakeNotebook";
+import { MistakeCard } from "./components/MistakeCard";
+
+const TAB_LABELS: Record<MistakeStatus, string> = {
+  due: "Due Now",
+  upcoming: "Upcoming",
+  retired: "Retired",
+};
+
+const EMPTY_MESSAGES: Record<MistakeStatus, string> = {
+  due: "Nothing to re-attempt right now. Questions you miss in any quiz show up here when they are due.",
+  upcoming: "No mistakes waiting for a later re-attempt.",
+  retired: "No retired questions yet.",
+};
+
+export default function MistakeNotebookPage() {
+  const { status, entries, counts, hasMore, retireAfter, loading, loadEntries, loadMore, attemptEntry } =
+    useMistakeNotebook();
+
+  useEffect(() => {
+    loadEntries("due");
+  }, [loadEntries]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#0f1729] via-[#1a2235] to-[#0f1729]">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard">
+          <Button variant="ghost" className="text-white mb-4">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </Link>
+
+        <div className="mb-8">
+          <h1 className="text-2xl sm:text-3xl font-bold text-white mb-2 flex items-center gap-3">
+            <NotebookPen className="w-7 h-7 text-red-400" />
+            Mistake Notebook
+          </h1>
+          <p className="text-gray-400">
+            Every question you answered wrong, brought back with spaced repetition
+            {retireAfter > 0 && <> and retired after {retireAfter} correct answers in a row</>}
+          </p>
+        </div>
+
+        <Tabs value={status} onValueChange={(value) => loadEntries(value as MistakeStatus)} className="mb-6">
+          <TabsList className="bg-slate-800/50">
+            {(Object.keys(TAB_LABELS) as MistakeStatus[]).map((tab) => (
+              <TabsTrigger key={tab} value={tab}>
+                {TAB_LABELS[tab]} ({counts[tab]})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="max-w-3xl space-y-6">
+          {entries.map((entry) => (
+            <MistakeCard key={`${status}-${entry.id}`} entry={entry} retireAfter={retireAfter} onAttempt={attemptEntry} />
+          ))}
+
+          {loading && (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+            </div>
+          )}
+
+          {!loading && entries.length === 0 && (
+            <p className="text-gray-400 text-center py-12">{EMPTY_MESSAGES[status]}</p>
+          )}
+
+          {!loading && hasMore && (
+            <Button variant="outline" onClick={loadMore} className="w-full border-slate-600 text-slate-200">
+              Load More
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
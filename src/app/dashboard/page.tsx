@@ -5,13 +5,19 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { db, withRetry } from "@/lib/db";
-import { classes, userCardProgress, flashcards, decks } from "@/lib/db/schema";
+import { classes, flashcards, decks } from "@/lib/db/schema";
 import { eq, asc } from "drizzle-orm";
-import { Bookmark, ClipboardCheck } from "lucide-react";
+import { Bookmark, ClipboardCheck, CalendarClock, CalendarDays, Timer, History, Trophy, Target, NotebookPen } from "lucide-react";
 import { cache } from "react";
 import { ensureUserExists } from "@/lib/db/ensure-user";
 import { Suspense } from "react";
 import DashboardMessage from "@/components/DashboardMessage";
+import { getResumableQuizzes } from "@/lib/quiz/resumable-quizzes";
+import { getReadinessReport } from "@/lib/readiness/readiness-history";
+import { ExamReadinessCard } from "@/components/ExamReadinessCard";
+import { getStreakOverview } from "@/lib/activity/daily-activity";
+import { getClassAggregates } from "@/lib/progress/aggregate-store";
+import { StudyStreakCard } from "@/components/StudyStreakCard";
 
 // PERFORMANCE: Cache the classes query (changes rarely, no user-specific data)
 // This reduces database load significantly for concurrent users
@@ -54,44 +60,46 @@ export default async function DashboardPage() {
 
   // PERFORMANCE: Fetch user in parallel with database queries (not blocking)
   // This reduces total wait time significantly
-  const [user, allClasses, allProgressRecords] = await Promise.all([
+  const [user, allClasses, classAggregates, resumableQuizzes, readinessReport, streakOverview] = await Promise.all([
     // Fetch user info (for firstName)
     currentUser(),
     // Query 1: Fetch all classes with their decks and flashcard IDs (CACHED)
     getCachedClasses(),
-    // Query 2: Batch fetch ALL user progress in a single query
+    // Query 2: Cards studied per class from the class progress aggregates
     withRetry(
-      () =>
-        db
-          .select()
-          .from(userCardProgress)
-          .where(eq(userCardProgress.clerkUserId, userId)),
-      { queryName: 'dashboard-all-user-progress' }
+      () => getClassAggregates(userId),
+      { queryName: 'dashboard-class-progress' }
+    ),
+    // Query 3: Unfinished deck tests for "continue where you left off"
+    withRetry(
+      () => getResumableQuizzes(userId, { limit: 3 }),
+      { queryName: 'dashboard-resumable-quizzes' }
+    ),
+    // Query 4: Exam readiness estimate and its daily trend
+    withRetry(
+      () => getReadinessReport(userId),
+      { queryName: 'dashboard-exam-readiness' }
+    ),
+    // Query 5: Study streak and the last week of activity
+    withRetry(
+      () => getStreakOverview(userId, 7),
+      { queryName: 'dashboard-study-streak' }
     ),
   ]);
 
   const userName = user?.firstName || "there";
 
-  // Create a Set for O(1) lookup of studied flashcard IDs
-  const studiedFlashcardIds = new Set(
-    allProgressRecords.map((record) => record.flashcardId)
-  );
-
   // Calculate total flashcard count and progress for each class
   // Process in-memory without additional database queries
   const classesWithProgress = allClasses.map((cls) => {
-    const flashcardIds = cls.decks.flatMap((deck) =>
-      deck.flashcards.map((card) => card.id)
-    );
-
-    const totalCards = flashcardIds.length;
+    const totalCards = cls.decks.reduce((sum, deck) => sum + deck.flashcards.length, 0);
     const deckCount = cls.decks.length;
 
-    // Calculate progress using the in-memory Set (O(1) lookups)
+    // Calculate progress from the class aggregate (O(1) lookup)
     let progress = 0;
     let studiedCount = 0;
     if (totalCards > 0) {
-      studiedCount = flashcardIds.filter((id) => studiedFlashcardIds.has(id)).length;
+      studiedCount = Math.min(totalCards, classAggregates.get(cls.id)?.cardsStudied ?? 0);
       progress = Math.round((studiedCount / totalCards) * 100);
     }
 
@@ -111,8 +119,8 @@ export default async function DashboardPage() {
 
   const totalCards = classesWithProgress.reduce((sum, cls) => sum + cls.cardCount, 0);
 
-  // OPTIMIZATION: Use already-fetched progress data instead of another query
-  const studiedCards = allProgressRecords.length;
+  // OPTIMIZATION: Sum the per-class counts instead of another query
+  const studiedCards = classesWithProgress.reduce((sum, cls) => sum + cls.studiedCount, 0);
 
   // Calculate overall progress based on all flashcards
   const overallProgress = totalCards > 0 ? Math.round((studiedCards / totalCards) * 100) : 0;
@@ -164,22 +172,99 @@ export default async function DashboardPage() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Exam Readiness */}
+            <ExamReadinessCard readiness={readinessReport.readiness} history={readinessReport.history} />
+
+            {/* Continue Where You Left Off */}
+            {resumableQuizzes.length > 0 && (
+              <Card className="bg-white border-gray-200 shadow-sm">
+                <CardHeader>
+                  <CardTitle className="text-gray-900 flex items-center gap-2">
+                    <History className="h-5 w-5 text-blue-600" />
+                    Continue Where You Left Off
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {resumableQuizzes.map((quiz) => (
+                    <div key={quiz.sessionId} className="flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate">{quiz.deckName}</p>
+                        <p className="text-sm text-gray-500">
+                          Deck test &middot; {quiz.answeredCount}/{quiz.totalQuestions} answered
+                        </p>
+                      </div>
+                      <Link href={`/dashboard/deck/${quiz.deckId}?resumeQuiz=${quiz.sessionId}`}>
+                        <Button variant="outline" className="border-gray-300 text-gray-700 hover:bg-gray-50">
+                          Continue
+                        </Button>
+                      </Link>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
+            {/* Study Streak */}
+            <StudyStreakCard overview={streakOverview} />
+
             {/* Quick Actions */}
             <Card className="bg-white border-gray-200 shadow-sm">
               <CardHeader>
                 <CardTitle className="text-gray-900">Quick Actions</CardTitle>
               </CardHeader>
               <CardContent className="space-y-3">
+                <Link href="/dashboard/review" className="block">
+                  <Button className="w-full bg-blue-600 hover:bg-blue-700 text-white justify-start">
+                    <CalendarClock className="mr-2 h-4 w-4" />
+                    Review Due Cards
+                  </Button>
+                </Link>
+                <Link href="/dashboard/exam" className="block">
+                  <Button className="w-full bg-blue-600 hover:bg-blue-700 text-white justify-start">
+                    <Timer className="mr-2 h-4 w-4" />
+                    CISSP Exam Simulator
+                  </Button>
+                </Link>
+                <Link href="/dashboard/planner" className="block">
+                  <Button className="w-full bg-blue-600 hover:bg-blue-700 text-white justify-start">
+                    <CalendarDays className="mr-2 h-4 w-4" />
+                    Study Planner
+                  </Button>
+                </Link>
+                <Link href="/dashboard/insights" className="block">
+                  <Button className="w-full bg-blue-600 hover:bg-blue-700 text-white justify-start">
+                    <Target className="mr-2 h-4 w-4" />
+                    Topic Insights
+                  </Button>
+                </Link>
+                <Link href="/dashboard/mistakes" className="block">
+                  <Button className="w-full bg-blue-600 hover:bg-blue-700 text-white justify-start">
+                    <NotebookPen className="mr-2 h-4 w-4" />
+                    Mistake Notebook
+                  </Button>
+                </Link>
+                <Link href="/dashboard/history" className="block">
+                  <Button className="w-full bg-blue-600 hover:bg-blue-700 text-white justify-start">
+                    <History className="mr-2 h-4 w-4" />
+                    Study History
+                  </Button>
+                </Link>
                 <Link href="/dashboard/bookmarks" className="block">
                   <Button className="w-full bg-blue-600 hover:bg-blue-700 text-white justify-start">
                     <Bookmark className="mr-2 h-4 w-4" />
                     My Bookmarks
                   </Button>
                 </Link>
+                <Link href="/dashboard/profile" className="block">
+                  <Button className="w-full bg-blue-600 hover:bg-blue-700 text-white justify-start">
+                    <Trophy className="mr-2 h-4 w-4" />
+                    My Profile &amp; Badges
+                  </Button>
+                </Link>
                 <Link href="/dashboard/practice" className="block">
                   <Button variant="outline" className="w-full border-gray-300 text-gray-700 hover:bg-gray-50 justify-start">
                     <ClipboardCheck className="mr-2 h-4 w-4" />
@@ -0,0 +1,98 @@
+"use client";
+
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { BookOpen, CalendarClock, ClipboardCheck, Timer } from "lucide-react";
+import { describePlanTask, type PlanDay, type PlanTask, type PlanTaskType } from "@/lib/planner/study-plan";
+
+interface PlanDayListProps {
+  days: PlanDay[];
+  today: string;
+}
+
+const TASK_ICONS: Record<PlanTaskType, typeof BookOpen> = {
+  review: CalendarClock,
+  new_cards: BookOpen,
+  deck_quiz: ClipboardCheck,
+  exam_simulation: Timer,
+};
+
+function getTaskHref(task: PlanTask): string {
+  switch (task.type) {
+    case "review":
+      return "/dashboard/review";
+    case "new_cards":
+    case "deck_quiz":
+      return `/dashboard/deck/${task.deckId}`;
+    case "exam_simulation":
+      return "/dashboard/exam";
+  }
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    weekday: "long",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export function PlanDayList({ days, today }: PlanDayListProps) {
+  return (
+    <div className="space-y-4">
+      {days.map((day) => {
+        const isOverBudget = day.plannedMinutes > day.budgetMinutes;
+
+        return (
+          <Card
+            key={day.date}
+            className={`bg-slate-800/50 ${day.date === today ? "border-blue-500/60" : "border-slate-700"}`}
+          >
+            <CardContent className="py-4 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-semibold text-white">{day.date === today ? "Today" : formatDay(day.date)}</h3>
+                  {day.phase === "final_review" && (
+                    <Badge variant="outline" className="border-purple-500/50 text-purple-300">
+                      Final review
+                    </Badge>
+                  )}
+                </div>
+                <span className={`text-sm ${isOverBudget ? "text-orange-300" : "text-slate-400"}`}>
+                  ~{day.plannedMinutes} of {day.budgetMinutes} min
+                </span>
+              </div>
+
+              {day.tasks.length === 0 ? (
+                <p className="text-sm text-slate-400">Nothing planned. Enjoy the break.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {day.tasks.map((task, index) => {
+                    const Icon = TASK_ICONS[task.type];
+                    return (
+                      <li key={`${task.type}-${task.deckId ?? index}`}>
+                        <Link
+                          href={getTaskHref(task)}
+                          className="flex items-center justify-between gap-3 rounded-lg px-3 py-2 bg-slate-900/40 hover:bg-slate-700/50 transition-colors"
+                        >
+                          <span className="flex items-center gap-2 text-sm text-gray-200 min-w-0">
+                            <Icon className="w-4 h-4 text-blue-400 flex-shrink-0" />
+                            <span className="truncate">{describePlanTask(task)}</span>
+                            {task.domain && <span className="text-xs text-slate-500 flex-shrink-0">Domain {task.domain}</span>}
+                          </span>
+                          <span className="text-xs text-slate-400 flex-shrink-0">{task.minutes} min</span>
+                        </Link>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Save } from "lucide-react";
+import type { StudyPlanSettings } from "@/lib/planner/study-plan";
+
+interface PlannerSettingsFormProps {
+  settings: StudyPlanSettings | null;
+  saving: boolean;
+  onSave: (settings: StudyPlanSettings) => Promise<boolean>;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DEFAULT_STUDY_DAYS = [1, 2, 3, 4, 5];
+const DEFAULT_WEEKLY_HOURS = 7;
+
+export function PlannerSettingsForm({ settings, saving, onSave }: PlannerSettingsFormProps) {
+  const [examDate, setExamDate] = useState(settings?.examDate ?? "");
+  const [weeklyHours, setWeeklyHours] = useState(String(settings ? settings.weeklyMinutes / 60 : DEFAULT_WEEKLY_HOURS));
+  const [studyDays, setStudyDays] = useState<number[]>(settings?.studyDays ?? DEFAULT_STUDY_DAYS);
+
+  const weeklyMinutes = Math.round(Number(weeklyHours) * 60);
+  const canSave = !!examDate && weeklyMinutes > 0 && studyDays.length > 0 && !saving;
+
+  const toggleDay = (day: number) => {
+    setStudyDays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSave) return;
+    await onSave({ examDate, weeklyMinutes, studyDays });
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white">{settings ? "Plan Settings" : "Set Up Your Plan"}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="exam-date" className="text-slate-200">
+                Exam date
+              </Label>
+              <Input
+                id="exam-date"
+                type="date"
+                value={examDate}
+                onChange={(event) => setExamDate(event.target.value)}
+                className="bg-slate-900/50 border-slate-600 text-white"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="weekly-hours" className="text-slate-200">
+                Hours per week
+              </Label>
+              <Input
+                id="weekly-hours"
+                type="number"
+                min={0.5}
+                max={70}
+                step={0.5}
+                value={weeklyHours}
+                onChange={(event) => setWeeklyHours(event.target.value)}
+                className="bg-slate-900/50 border-slate-600 text-white"
+                required
+              />
+            </div>
+          </div>
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-slate-200 mb-2">Study days</legend>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAYS.map((label, day) => {
+                const selected = studyDays.includes(day);
+                return (
+                  <Button
+                    key={label}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    aria-pressed={selected}
+                    onClick={() => toggleDay(day)}
+                    className={
+                      selected
+                        ? "bg-blue-600 border-blue-500 text-white hover:bg-blue-700 hover:text-white"
+                        : "bg-transparent border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                    }
+                  >
+                    {label}
+                  </Button>
+                );
+              })}
+            </div>
+          </fieldset>
+
+          <Button type="submit" disabled={!canSave} className="bg-blue-600 hover:bg-blue-700 text-white">
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            {settings ? "Update Plan" : "Create Plan"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import type { StudyPlan, StudyPlanSettings } from '@/lib/planner/study-plan';
+
+function getTimeZoneHeaders(): Record<string, string> {
+    return {
+        'Content-Type': 'application/json',
+        'X-Timezone': Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+}
+
+export function useStudyPlanner() {
+    const [settings, setSettings] = useState<StudyPlanSettings | null>(null);
+    const [plan, setPlan] = useState<StudyPlan | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+
+    const loadPlan = useCallback(async () => {
+        setLoading(true);
+        try {
+            const res = await fetch('/api/planner', { headers: getTimeZoneHeaders() });
+            if (!res.ok) throw new Error('Failed to load study plan');
+
+            const data = await res.json();
+            setSettings(data.settings);
+            setPlan(data.plan);
+        } catch (error) {
+            console.error('Error loading study plan:', error);
+            toast.error("Failed to load your study plan");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    // Returns whether the settings were saved
+    const savePlan = useCallback(async (nextSettings: StudyPlanSettings): Promise<boolean> => {
+        setSaving(true);
+        try {
+            const res = await fetch('/api/planner', {
+                method: 'PUT',
+                headers: getTimeZoneHeaders(),
+                body: JSON.stringify(nextSettings),
+            });
+
+            if (!res.ok) {
+                const data = await res.json().catch(() => ({}));
+                throw new Error(data.error || 'Failed to save your study plan');
+            }
+
+            const data = await res.json();
+            setSettings(data.settings);
+            setPlan(data.plan);
+            toast.success("Study plan updated");
+            return true;
+        } catch (error) {
+            console.error('Error saving study plan:', error);
+            toast.error(error instanceof Error ? error.message : "Failed to save your study plan");
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    }, []);
+
+    const clearPlan = useCallback(async () => {
+        try {
+            const res = await fetch('/api/planner', { method: 'DELETE' });
+            if (!res.ok) throw new Error('Failed to clear study plan');
+
+            setSettings(null);
+            setPlan(null);
+        } catch (error) {
+            console.error('Error clearing study plan:', error);
+            toast.error("Failed to clear your study plan");
+        }
+    }, []);
+
+    return {
+        settings,
+        plan,
+        loading,
+        saving,
+        loadPlan,
+        savePlan,
+        clearPlan,
+    };
+}
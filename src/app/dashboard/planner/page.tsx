@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { ArrowLeft, CalendarDays, Download, Loader2, Trash2 } from "lucide-react";
+import type { PlanPaceStatus } from "@/lib/planner/study-plan";
+import { useStudyPlanner } from "./hooks/useStudyPlanner";
+import { PlannerSettingsForm } from "./components/PlannerSettingsForm";
+import { PlanDayList } from "./components/PlanDayList";
+
+const PACE_LABELS: Record<PlanPaceStatus, string> = {
+  ahead: "Ahead of plan",
+  on_track: "On track",
+  behind: "Behind plan",
+};
+
+const PACE_CLASSES: Record<PlanPaceStatus, string> = {
+  ahead: "border-green-500/50 text-green-300",
+  on_track: "border-blue-500/50 text-blue-300",
+  behind: "border-orange-500/50 text-orange-300",
+};
+
+const INITIAL_DAYS_SHOWN = 14;
+
+export default function StudyPlannerPage() {
+  const { settings, plan, loading, saving, loadPlan, savePlan, clearPlan } = useStudyPlanner();
+  const [showAllDays, setShowAllDays] = useState(false);
+
+  useEffect(() => {
+    loadPlan();
+  }, [loadPlan]);
+
+  // en-CA formats dates as YYYY-MM-DD, in the browser's timezone
+  const today = new Intl.DateTimeFormat("en-CA").format(new Date());
+  const calendarHref = `/api/planner/calendar?tz=${encodeURIComponent(Intl.DateTimeFormat().resolvedOptions().timeZone)}`;
+  const visibleDays = plan ? (showAllDays ? plan.days : plan.days.slice(0, INITIAL_DAYS_SHOWN)) : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#0f1729] via-[#1a2235] to-[#0f1729]">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard">
+          <Button variant="ghost" className="text-white mb-4">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </Link>
+
+        <div className="mb-8">
+          <h1 className="text-2xl sm:text-3xl font-bold text-white mb-2 flex items-center gap-3">
+            <CalendarDays className="w-7 h-7 text-blue-400" />
+            Study Planner
+          </h1>
+          <p className="text-gray-400">
+            A day-by-day plan to your exam date that adjusts as you get ahead or fall behind
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="space-y-6">
+              <PlannerSettingsForm
+                key={settings ? JSON.stringify(settings) : "new"}
+                settings={settings}
+                saving={saving}
+                onSave={savePlan}
+              />
+
+              {plan && (
+                <Card className="bg-slate-800/50 border-slate-700">
+                  <CardContent className="py-6 space-y-4">
+                    <div className="flex items-center justify-between">
+                      <span className="text-3xl font-bold text-white">{plan.daysUntilExam}</span>
+                      <Badge variant="outline" className={PACE_CLASSES[plan.progress.status]}>
+                        {PACE_LABELS[plan.progress.status]}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-slate-400">
+                      days until your exam &middot; {plan.studyDayCount} study days &middot; ~{plan.dailyMinutes} min per
+                      study day
+                    </p>
+                    <p className="text-sm text-slate-300">
+                      {plan.progress.studiedNewCards} new cards studied since you set this plan
+                      {plan.progress.expectedNewCards > 0 && <> (plan: {plan.progress.expectedNewCards})</>}.{" "}
+                      {plan.newCardsRemaining} to go.
+                    </p>
+                    {plan.newCardsUnscheduled > 0 && (
+                      <p className="text-sm text-orange-300">
+                        {plan.newCardsUnscheduled} new cards do not fit in your weekly budget before the final review.
+                        Add study time or days to cover everything.
+                      </p>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                      <a href={calendarHref} download>
+                        <Button variant="outline" className="border-slate-600 text-slate-200">
+                          <Download className="w-4 h-4 mr-2" />
+                          Export to Calendar (.ics)
+                        </Button>
+                      </a>
+                      <Button variant="ghost" onClick={clearPlan} className="text-slate-400 hover:text-red-300">
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Clear Plan
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+
+            <div className="lg:col-span-2">
+              {!plan ? (
+                <p className="text-gray-400 text-center py-12">
+                  Set your exam date, weekly study time and study days to get a personal plan.
+                </p>
+              ) : plan.days.length === 0 ? (
+                <p className="text-gray-400 text-center py-12">No study days left before your exam date.</p>
+              ) : (
+                <div className="space-y-4">
+                  <PlanDayList days={visibleDays} today={today} />
+                  {!showAllDays && plan.days.length > INITIAL_DAYS_SHOWN && (
+                    <Button
+                      variant="outline"
+                      onClick={() => setShowAllDays(true)}
+                      className="w-full border-slate-600 text-slate-200"
+                    >
+                      Show All {plan.days.length} Days
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
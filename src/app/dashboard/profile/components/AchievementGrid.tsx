@@ -0,0 +1,57 @@
+import { Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ACHIEVEMENTS, getRarityColor } from "@/lib/gamification/achievements";
+import type { UnlockedAchievement } from "@/lib/gamification/quiz-rewards";
+
+interface AchievementGridProps {
+  unlocked: UnlockedAchievement[];
+}
+
+/**
+ * Every achievement, with unlock dates for the ones the user has earned
+ */
+export function AchievementGrid({ unlocked }: AchievementGridProps) {
+  const unlockedAt = new Map(unlocked.map((achievement) => [achievement.achievementId, achievement.unlockedAt]));
+
+  return (
+    <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+      {Object.values(ACHIEVEMENTS).map((achievement) => {
+        const date = unlockedAt.get(achievement.id);
+        const Icon = date ? achievement.icon : Lock;
+
+        return (
+          <div
+            key={achievement.id}
+            className={cn(
+              "rounded-lg border-2 p-4 bg-slate-900/60",
+              date ? getRarityColor(achievement.rarity) : "border-slate-700 text-slate-500 opacity-70"
+            )}
+          >
+            <div className="flex items-center gap-3 mb-2">
+              <div
+                className={cn(
+                  "flex items-center justify-center rounded-full p-2",
+                  date ? `bg-${achievement.color}-500/20` : "bg-slate-700/40"
+                )}
+              >
+                <Icon className={cn("h-5 w-5", date ? `text-${achievement.color}-400` : "text-slate-500")} />
+              </div>
+              <div className="min-w-0">
+                <h3 className={cn("font-semibold truncate", date ? `text-${achievement.color}-300` : "text-slate-400")}>
+                  {achievement.title}
+                </h3>
+                <p className="text-xs capitalize">{achievement.rarity}</p>
+              </div>
+            </div>
+            <p className="text-sm text-slate-400">{achievement.description}</p>
+            <p className="text-xs text-slate-500 mt-2">
+              {date
+                ? `Unlocked ${date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}`
+                : "Locked"}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
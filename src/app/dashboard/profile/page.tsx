@@ -0,0 +1,89 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, Zap, Award, ListChecks, Trophy } from "lucide-react";
+import { ensureUserExists } from "@/lib/db/ensure-user";
+import { getGamificationProfile } from "@/lib/gamification/quiz-rewards";
+import { ACHIEVEMENTS } from "@/lib/gamification/achievements";
+import { AchievementGrid } from "./components/AchievementGrid";
+
+export default async function ProfilePage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/sign-in");
+  }
+
+  await ensureUserExists(userId);
+
+  const profile = await getGamificationProfile(userId);
+  const { level } = profile;
+
+  const stats = [
+    { label: "Total XP", value: profile.totalXp, icon: Zap },
+    {
+      label: "Achievements",
+      value: `${profile.achievements.length}/${Object.keys(ACHIEVEMENTS).length}`,
+      icon: Award,
+    },
+    { label: "Quizzes completed", value: profile.history.completedQuizzes, icon: ListChecks },
+    { label: "Perfect quizzes", value: profile.history.perfectQuizzes, icon: Trophy },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#0f1729] via-[#1a2235] to-[#0f1729]">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard">
+          <Button variant="ghost" className="text-white mb-4">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </Link>
+
+        <div className="mb-8">
+          <h1 className="text-2xl sm:text-3xl font-bold text-white mb-2">My Profile</h1>
+          <p className="text-gray-400">Your level, XP and badges from every quiz you have completed</p>
+        </div>
+
+        {/* Level */}
+        <div className="glass p-6 md:p-8 rounded-xl mb-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+            <div>
+              <p className="text-sm text-slate-400">Level {level.level}</p>
+              <p className="text-2xl font-bold text-white">{level.title}</p>
+            </div>
+            <div className="flex items-center gap-2 px-4 py-2 rounded-full bg-gradient-to-r from-purple-500/20 to-cyan-500/20 border border-purple-500/30 self-start">
+              <Zap className="h-5 w-5 text-yellow-400" />
+              <span className="text-lg font-semibold text-white">{profile.totalXp} XP</span>
+            </div>
+          </div>
+          <Progress value={profile.progressToNextLevel} className="h-2" />
+          <p className="text-xs text-slate-400 mt-2">
+            {profile.xpToNextLevel > 0
+              ? `${profile.xpToNextLevel} XP to Level ${level.level + 1}`
+              : "Highest level reached"}
+          </p>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+          {stats.map(({ label, value, icon: Icon }) => (
+            <div key={label} className="glass p-4 rounded-xl">
+              <div className="flex items-center gap-2 text-slate-400 text-sm mb-1">
+                <Icon className="h-4 w-4" />
+                {label}
+              </div>
+              <p className="text-2xl font-bold text-white">{value}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Badges */}
+        <h2 className="text-xl font-semibold text-white mb-4">Badges</h2>
+        <AchievementGrid unlocked={profile.achievements} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarClock } from "lucide-react";
+import type { ReviewForecast as ReviewForecastData } from "../hooks/useReviewQueue";
+
+interface ReviewForecastProps {
+  forecast: ReviewForecastData;
+}
+
+export function ReviewForecast({ forecast }: ReviewForecastProps) {
+  const maxCount = Math.max(1, ...forecast.daily.map((day) => day.count));
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-blue-400" />
+          Upcoming Reviews
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <p className="text-3xl font-bold text-white">{forecast.dueNow}</p>
+            <p className="text-xs text-gray-400">Due now</p>
+          </div>
+          <div>
+            <p className="text-3xl font-bold text-blue-400">{forecast.next7Days}</p>
+            <p className="text-xs text-gray-400">Next 7 days</p>
+          </div>
+          <div>
+            <p className="text-3xl font-bold text-purple-400">{forecast.next30Days}</p>
+            <p className="text-xs text-gray-400">Next 30 days</p>
+          </div>
+        </div>
+
+        {/* Daily bars for the next 30 days */}
+        <div className="flex items-end gap-1 h-24" aria-label="Reviews due per day over the next 30 days">
+          {forecast.daily.map((day, index) => (
+            <div
+              key={day.date}
+              title={`${day.date}: ${day.count} ${day.count === 1 ? 'card' : 'cards'}`}
+              className={`flex-1 rounded-t ${index < 7 ? 'bg-blue-500' : 'bg-purple-500/70'}`}
+              style={{ height: `${Math.max(4, (day.count / maxCount) * 100)}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>Today</span>
+          <span>+30 days</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { getRatingHeaders, getTimeZoneHeaders } from '@/lib/utils/daily-allowance';
+import type { UpgradeRequired } from '@/lib/entitlements';
+
+interface FlashcardMedia {
+    id: string;
+    fileUrl: string;
+    altText: string | null;
+    placement: string;
+    order: number;
+}
+
+export interface DueCard {
+    id: string;
+    question: string;
+    answer: string;
+    explanation: string | null;
+    deckId: string;
+    deckName: string;
+    classId: string;
+    className: string;
+    domainNumber: number | null;
+    nextReviewDate: string | null;
+    isBookmarked: boolean;
+    isNew: boolean;
+    media: FlashcardMedia[];
+}
+
+export interface ReviewForecast {
+    dueNow: number;
+    next7Days: number;
+    next30Days: number;
+    daily: Array<{ date: string; count: number }>;
+}
+
+interface ReviewQueueState {
+    cards: DueCard[];
+    totalDue: number;
+    dailyCap: number;
+    reviewedToday: number;
+    remainingToday: number;
+    forecast: ReviewForecast | null;
+    upgradeRequired: UpgradeRequired | null; // Premium decks whose due cards were left out
+}
+
+const EMPTY_QUEUE: ReviewQueueState = {
+    cards: [],
+    totalDue: 0,
+    dailyCap: 0,
+    reviewedToday: 0,
+    remainingToday: 0,
+    forecast: null,
+    upgradeRequired: null,
+};
+
+export function useReviewQueue() {
+    const [queue, setQueue] = useState<ReviewQueueState>(EMPTY_QUEUE);
+    const [loading, setLoading] = useState(true);
+
+    const loadQueue = useCallback(async () => {
+        setLoading(true);
+        try {
+            const res = await fetch('/api/review/due', { headers: getTimeZoneHeaders() });
+            if (!res.ok) throw new Error('Failed to load review queue');
+
+            const data = await res.json();
+            setQueue({ ...EMPTY_QUEUE, ...data });
+        } catch (error) {
+            console.error('Error loading review queue:', error);
+            toast.error("Failed to load your reviews");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    // Returns false when the free tier daily limit stopped the rating from being saved
+    const rateCard = useCallback(async (flashcardId: string, confidenceLevel: number) => {
+        const res = await fetch('/api/progress/card', {
+            method: 'POST',
+            headers: getRatingHeaders(),
+            body: JSON.stringify({ flashcardId, confidenceLevel }),
+        });
+
+        if (res.status === 429) {
+            const data = await res.json();
+            toast.error(data.error);
+            return false;
+        }
+
+        if (!res.ok) throw new Error('Failed to save progress');
+        return true;
+    }, []);
+
+    return {
+        ...queue,
+        loading,
+        loadQueue,
+        rateCard,
+    };
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, Loader2, CheckCircle2 } from "lucide-react";
+import { toast } from "sonner";
+import { FlashcardDynamic as Flashcard } from "@/components/FlashcardDynamic";
+import PremiumConfidenceRating from "@/components/study/PremiumConfidenceRating";
+import { QuizModal } from "@/components/QuizModal";
+import { getDomainInfo } from "@/lib/utils/cissp-domains";
+import { useReviewQueue } from "./hooks/useReviewQueue";
+import { ReviewForecast } from "./components/ReviewForecast";
+import UpgradeRequiredNotice from "@/components/UpgradeRequiredNotice";
+import { mapMediaToImages } from "../bookmarks/hooks/mapMediaToImages";
+
+export default function ReviewPage() {
+  const {
+    cards,
+    totalDue,
+    dailyCap,
+    reviewedToday,
+    forecast,
+    upgradeRequired,
+    loading,
+    loadQueue,
+    rateCard,
+  } = useReviewQueue();
+
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [showRating, setShowRating] = useState(false);
+  const [showQuizModal, setShowQuizModal] = useState(false);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const currentCard = cards[currentIndex];
+  const finished = cards.length > 0 && currentIndex >= cards.length;
+  const progress = cards.length > 0 ? (currentIndex / cards.length) * 100 : 0;
+
+  const handleRate = async (confidence: number) => {
+    if (!currentCard) return;
+
+    try {
+      const saved = await rateCard(currentCard.id, confidence);
+      if (!saved) return;
+      setCurrentIndex((index) => index + 1);
+      setShowRating(false);
+    } catch (error) {
+      toast.error("Failed to save your rating");
+      console.error("Error saving review:", error);
+    }
+  };
+
+  const handleFlip = () => {
+    if (!showRating) {
+      setTimeout(() => setShowRating(true), 300);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-[#0f1729] via-[#1a2235] to-[#0f1729]">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex justify-center items-center min-h-[400px]">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const domain = currentCard?.domainNumber ? getDomainInfo(currentCard.domainNumber) : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#0f1729] via-[#1a2235] to-[#0f1729]">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard">
+          <Button variant="ghost" className="text-white mb-4">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </Link>
+
+        <div className="mb-8">
+          <h1 className="text-2xl sm:text-3xl font-bold text-white mb-2">
+            Due Today
+          </h1>
+          <p className="text-gray-400">
+            {totalDue} {totalDue === 1 ? 'card' : 'cards'} due across all classes and bookmarks
+            {' '}&middot; {reviewedToday}/{dailyCap} reviewed today
+          </p>
+        </div>
+
+        {currentCard && !finished ? (
+          <div className="pb-48">
+            <div className="mb-4">
+              <Progress value={progress} className="h-2" aria-label="Review progress" />
+              <p className="text-sm text-gray-400 mt-2">
+                Card {currentIndex + 1} of {cards.length} &middot; {currentCard.className} &rsaquo; {currentCard.deckName}
+                {domain && <> &middot; Domain {domain.domain}: {domain.shortName}</>}
+              </p>
+            </div>
+
+            <Flashcard
+              key={currentCard.id}
+              flashcardId={currentCard.id}
+              question={currentCard.question}
+              answer={currentCard.answer}
+              questionImages={mapMediaToImages(currentCard.media, 'question')}
+              answerImages={mapMediaToImages(currentCard.media, 'answer')}
+              isBookmarked={currentCard.isBookmarked}
+              onFlip={handleFlip}
+              onTest={() => setShowQuizModal(true)}
+            />
+          </div>
+        ) : (
+          <div className="max-w-2xl mx-auto text-center space-y-4 mb-12">
+            <CheckCircle2 className="w-16 h-16 text-green-400 mx-auto" />
+            <h2 className="text-2xl font-bold text-white">
+              {finished ? "Reviews complete!" : "Nothing due right now"}
+            </h2>
+            <p className="text-gray-300">
+              {totalDue > cards.length && finished
+                ? `You've hit today's cap of ${dailyCap} reviews. The rest will wait until tomorrow.`
+                : "Come back when more cards are due, or keep studying new cards in a class."}
+            </p>
+          </div>
+        )}
+
+        {forecast && (!currentCard || finished) && (
+          <div className="max-w-2xl mx-auto">
+            <ReviewForecast forecast={forecast} />
+          </div>
+        )}
+
+        {upgradeRequired && (!currentCard || finished) && (
+          <UpgradeRequiredNotice upgrade={upgradeRequired} className="max-w-2xl mx-auto mt-8" />
+        )}
+      </div>
+
+      {currentCard && !finished && showRating && (
+        <div className="fixed bottom-0 left-0 right-0 bg-gradient-to-t from-[#0f1729] via-[#1a2235] to-transparent backdrop-blur-lg border-t border-blue-500/30 py-6 px-4 z-50">
+          <PremiumConfidenceRating onRate={handleRate} />
+        </div>
+      )}
+
+      {currentCard && (
+        <QuizModal
+          isOpen={showQuizModal}
+          onClose={() => setShowQuizModal(false)}
+          flashcardId={currentCard.id}
+          flashcardQuestion={currentCard.question}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,23 +1,21 @@
 import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import { db } from "@/lib/db";
-import { studySessions, decks, flashcards } from "@/lib/db/schema";
+import { studySessions, studySessionDecks, decks, flashcards } from "@/lib/db/schema";
 import { eq, and, inArray } from "drizzle-orm";
 import StudySessionClient from "@/components/StudySessionClient";
 import { ensureUserExists } from "@/lib/db/ensure-user";
+import { getUserTimeZone, getDailyCardAllowance } from "@/lib/daily-card-limit";
 
 export default async function StudySessionPage({
   params,
-  searchParams,
 }: {
   params: Promise<{ id: string }>;
-  searchParams: Promise<{ decks?: string }>;
 }) {
   // PERFORMANCE: Parallelize auth and params unwrapping (async-parallel rule)
-  const [{ userId }, { id: sessionId }, { decks: deckIdsParam }] = await Promise.all([
+  const [{ userId }, { id: sessionId }] = await Promise.all([
     auth(),
     params,
-    searchParams,
   ]);
 
   if (!userId) {
@@ -43,8 +41,15 @@ export default async function StudySessionPage({
     redirect("/dashboard");
   }
 
-  // Get deck IDs from query params
-  const deckIds = deckIdsParam ? deckIdsParam.split(',') : session.deckId ? [session.deckId] : [];
+  // Decks were validated when the session was created
+  const sessionDecks = await db
+    .select({ deckId: studySessionDecks.deckId })
+    .from(studySessionDecks)
+    .where(eq(studySessionDecks.sessionId, sessionId));
+
+  const deckIds = sessionDecks.length > 0
+    ? sessionDecks.map((sessionDeck) => sessionDeck.deckId)
+    : session.deckId ? [session.deckId] : [];
 
   if (deckIds.length === 0) {
     redirect("/dashboard");
@@ -60,26 +65,43 @@ export default async function StudySessionPage({
     },
   });
 
+  // Sessions started from weak cards only study those cards
+  const focusIds = session.focusFlashcardIds ? new Set(session.focusFlashcardIds) : null;
+
   const allFlashcards = selectedDecks.flatMap(deck =>
-    deck.flashcards.map(card => ({
-      id: card.id,
-      deckId: deck.id,
-      deckName: deck.name,
-      question: card.question,
-      answer: card.answer,
-      explanation: card.explanation,
-    }))
+    deck.flashcards
+      .filter(card => !focusIds || focusIds.has(card.id))
+      .map(card => ({
+        id: card.id,
+        deckId: deck.id,
+        deckName: deck.name,
+        question: card.question,
+        answer: card.answer,
+        explanation: card.explanation,
+      }))
   );
 
   if (allFlashcards.length === 0) {
     redirect("/dashboard");
   }
 
+  // Free tier allowance left today, refreshed from response headers as cards are rated
+  const allowance = await getDailyCardAllowance(userId, await getUserTimeZone(userId, null));
+
   return (
     <StudySessionClient
       sessionId={sessionId}
       flashcards={allFlashcards}
       userId={userId}
+      initialAllowance={
+        allowance.limit === null
+          ? null
+          : {
+              limit: allowance.limit,
+              remaining: allowance.remaining ?? 0,
+              resetsAt: allowance.resetsAt?.toISOString() ?? null,
+            }
+      }
     />
   );
 }
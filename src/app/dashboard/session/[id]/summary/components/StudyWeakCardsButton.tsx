@@ -0,0 +1,53 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface StudyWeakCardsButtonProps {
+  sessionId: string;
+  weakCardCount: number;
+}
+
+/**
+ * Starts a new session from the cards rated weak in this one
+ */
+export default function StudyWeakCardsButton({ sessionId, weakCardCount }: StudyWeakCardsButtonProps) {
+  const router = useRouter();
+  const [isStarting, setIsStarting] = useState(false);
+
+  const handleClick = async () => {
+    setIsStarting(true);
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/retry-weak`, { method: "POST" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to start session");
+      }
+
+      router.push(`/dashboard/session/${data.sessionId}/study`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to start session");
+      console.error("Error retrying weak cards:", error);
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Button
+      onClick={handleClick}
+      disabled={isStarting}
+      className="w-full bg-orange-600 hover:bg-orange-700 text-white font-semibold py-6 text-lg"
+    >
+      {isStarting ? (
+        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+      ) : (
+        <RotateCcw className="w-5 h-5 mr-2" />
+      )}
+      Study the {weakCardCount} Weak {weakCardCount === 1 ? "Card" : "Cards"} Again
+    </Button>
+  );
+}
@@ -3,13 +3,54 @@ import { redirect } from "next/navigation";
 import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { CheckCircle, Clock, TrendingUp, Home } from "lucide-react";
+import {
+  CheckCircle,
+  Clock,
+  TrendingUp,
+  TrendingDown,
+  Home,
+  Layers,
+  Timer,
+  Gauge,
+  Award,
+} from "lucide-react";
+import { getSessionSummary } from "@/lib/api/session-summary-server";
+import type { SummaryCard } from "@/lib/study-sessions/summary";
+import StudyWeakCardsButton from "./components/StudyWeakCardsButton";
+
+const CONFIDENCE_LEVELS = [
+  { value: 1, label: "Not at all", color: "bg-red-600" },
+  { value: 2, label: "Barely", color: "bg-orange-600" },
+  { value: 3, label: "Somewhat", color: "bg-yellow-600" },
+  { value: 4, label: "Mostly", color: "bg-lime-600" },
+  { value: 5, label: "Perfectly", color: "bg-green-600" },
+];
+
+function formatDuration(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+function CardChangeList({ cards }: { cards: SummaryCard[] }) {
+  return (
+    <ul className="divide-y divide-slate-700">
+      {cards.map((card) => (
+        <li key={card.flashcardId} className="flex items-center justify-between py-3 gap-4">
+          <span className="text-sm text-white line-clamp-1">{card.question}</span>
+          <span className="text-xs text-gray-400 whitespace-nowrap">
+            {card.previousConfidence ?? "new"} &rarr; {card.confidence}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
 
 export default async function SessionSummaryPage({
-  searchParams,
+  params,
 }: {
   params: Promise<{ id: string }>;
-  searchParams: Promise<{ cards?: string; duration?: string }>;
 }) {
   const { userId } = await auth();
 
@@ -17,12 +58,15 @@ export default async function SessionSummaryPage({
     redirect("/sign-in");
   }
 
-  const { cards, duration } = await searchParams;
+  const { id: sessionId } = await params;
+  const data = await getSessionSummary(sessionId);
 
-  const cardsStudied = parseInt(cards || '0', 10);
-  const durationSeconds = parseInt(duration || '0', 10);
-  const durationMinutes = Math.floor(durationSeconds / 60);
-  const durationSecondsRemainder = durationSeconds % 60;
+  if (!data) {
+    redirect("/dashboard");
+  }
+
+  const { summary, decks } = data;
+  const maxLevelCount = Math.max(1, ...summary.confidenceCounts.map((level) => level.count));
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
@@ -34,7 +78,7 @@ export default async function SessionSummaryPage({
               <CheckCircle className="w-12 h-12 text-green-500" />
             </div>
             <h1 className="text-3xl sm:text-4xl font-bold text-white mb-2">
-              Session Complete!
+              {data.endedAt ? "Session Complete!" : "Session Summary"}
             </h1>
             <p className="text-gray-300">
               Great work! Here&apos;s your session summary.
@@ -51,7 +95,10 @@ export default async function SessionSummaryPage({
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-3xl font-bold text-white">{cardsStudied}</div>
+                <div className="text-3xl font-bold text-white">{summary.cardsStudied}</div>
+                {summary.totalRatings > summary.cardsStudied && (
+                  <p className="text-xs text-gray-400 mt-1">{summary.totalRatings} ratings</p>
+                )}
               </CardContent>
             </Card>
 
@@ -64,13 +111,120 @@ export default async function SessionSummaryPage({
               </CardHeader>
               <CardContent>
                 <div className="text-3xl font-bold text-white">
-                  {durationMinutes}:{durationSecondsRemainder.toString().padStart(2, '0')}
+                  {formatDuration(summary.studyDuration)}
                 </div>
                 <p className="text-xs text-gray-400 mt-1">minutes</p>
               </CardContent>
             </Card>
+
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium text-gray-400 flex items-center gap-2">
+                  <Timer className="w-4 h-4" />
+                  Time per Card
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold text-white">{summary.averageSecondsPerCard}s</div>
+                <p className="text-xs text-gray-400 mt-1">average</p>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium text-gray-400 flex items-center gap-2">
+                  <Gauge className="w-4 h-4" />
+                  Average Confidence
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold text-white">{summary.averageConfidence.toFixed(1)}</div>
+                <p className="text-xs text-gray-400 mt-1">out of 5</p>
+              </CardContent>
+            </Card>
           </div>
 
+          {/* Confidence breakdown */}
+          {summary.cardsStudied > 0 && (
+            <Card className="bg-slate-800/50 border-slate-700 mb-6">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium text-gray-400">Cards by Confidence</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {CONFIDENCE_LEVELS.map((level) => {
+                  const count = summary.confidenceCounts.find((c) => c.level === level.value)?.count ?? 0;
+                  return (
+                    <div key={level.value} className="flex items-center gap-3">
+                      <span className="w-20 text-xs text-gray-400">{level.label}</span>
+                      <div className="flex-1 h-3 rounded-full bg-slate-700 overflow-hidden">
+                        <div
+                          className={`h-full ${level.color}`}
+                          style={{ width: `${(count / maxLevelCount) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-8 text-right text-sm text-white">{count}</span>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Newly mastered cards */}
+          {summary.newlyMastered.length > 0 && (
+            <Card className="bg-slate-800/50 border-slate-700 mb-6">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium text-green-400 flex items-center gap-2">
+                  <Award className="w-4 h-4" />
+                  Newly Mastered ({summary.newlyMastered.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CardChangeList cards={summary.newlyMastered} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Regressed cards */}
+          {summary.regressed.length > 0 && (
+            <Card className="bg-slate-800/50 border-slate-700 mb-6">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium text-orange-400 flex items-center gap-2">
+                  <TrendingDown className="w-4 h-4" />
+                  Slipped Back ({summary.regressed.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CardChangeList cards={summary.regressed} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Per-deck breakdown for multi-deck sessions */}
+          {decks.length > 1 && (
+            <Card className="bg-slate-800/50 border-slate-700 mb-6">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium text-gray-400 flex items-center gap-2">
+                  <Layers className="w-4 h-4" />
+                  By Deck
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y divide-slate-700">
+                  {decks.map((deck) => (
+                    <li key={deck.deckId} className="flex items-center justify-between py-3 gap-4">
+                      <span className="text-white font-medium truncate">{deck.deckName}</span>
+                      <span className="text-sm text-gray-400 whitespace-nowrap">
+                        {deck.cardsStudied} cards &middot; {formatDuration(deck.studyDuration)} &middot; avg confidence{" "}
+                        {deck.averageConfidence}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Progress Message */}
           <Card className="bg-slate-800/50 border-slate-700 mb-6">
             <CardContent className="pt-6">
@@ -94,6 +248,10 @@ export default async function SessionSummaryPage({
 
           {/* Actions */}
           <div className="space-y-3">
+            {summary.weakCards.length > 0 && (
+              <StudyWeakCardsButton sessionId={data.id} weakCardCount={summary.weakCards.length} />
+            )}
+
             <Link href="/dashboard/session/new" className="block">
               <Button className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-6 text-lg">
                 Start Another Session
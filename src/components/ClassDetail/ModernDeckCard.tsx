@@ -1,7 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import { Layers, Target, Shield, Play, Check } from "lucide-react";
+import { Layers, Target, Shield, Play, Check, Lock } from "lucide-react";
 
 interface DeckInfo {
   id: string;
@@ -15,6 +15,7 @@ interface DeckInfo {
   domainName?: string;
   dayNumber?: number | null;
   isRecommended?: boolean;
+  isPremium?: boolean;
 }
 
 interface ModernDeckCardProps {
@@ -101,6 +102,12 @@ export function ModernDeckCard({ deck, isSelected, onToggle, studyMode }: Modern
             }`}>
               {isQuiz ? '🎯 Quiz' : '📚 Flashcard'}
             </span>
+            {deck.isPremium && (
+              <span className="flex items-center gap-1 bg-amber-100 text-amber-800 text-xs font-bold px-2 py-1 rounded-full border border-amber-300">
+                <Lock className="w-3 h-3" />
+                Premium
+              </span>
+            )}
             {isMastered && (
               <span className="flex items-center gap-1 bg-yellow-100 text-yellow-800 text-xs font-bold px-2 py-1 rounded-full border border-yellow-300">
                 <Shield className="w-3 h-3" />
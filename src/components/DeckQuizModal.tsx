@@ -17,24 +17,27 @@ import { triggerGoogleTranslate, isGoogleTranslateLoaded, isGoogleTranslateActiv
 interface DeckQuizModalProps {
   isOpen: boolean;
   onClose: () => void;
-  deckId: string;
+  deckId?: string;
   deckName: string;
+  resumeSessionId?: string | null; // Pick up this unfinished quiz instead of starting a new one
+  drillSubTopicIds?: string[] | null; // Drill these sub-topics instead of a deck; deckName names the drill
 }
 
-export function DeckQuizModal({ isOpen, onClose, deckId, deckName }: DeckQuizModalProps) {
+export function DeckQuizModal({ isOpen, onClose, deckId, deckName, resumeSessionId, drillSubTopicIds }: DeckQuizModalProps) {
   const {
     questions,
     currentQuestionIndex,
-    selectedOption,
+    response,
     showExplanation,
     correctAnswers,
     loading,
+    submitting,
     quizCompleted,
     currentFeedback,
     completionMessage,
     gamification,
     handlers,
-  } = useDeckQuiz({ deckId, isOpen, onClose });
+  } = useDeckQuiz({ deckId, isOpen, onClose, resumeSessionId, drillSubTopicIds });
 
   const [isTranslating, setIsTranslating] = useState(false);
 
@@ -81,10 +84,12 @@ export function DeckQuizModal({ isOpen, onClose, deckId, deckName }: DeckQuizMod
     <Dialog open={isOpen} onOpenChange={handlers.handleClose}>
       <DialogContent className="max-w-4xl bg-slate-900 border-blue-500/30 max-h-[90vh] overflow-y-auto">
         <DialogTitle className="sr-only">
-          Deck Test: {deckName}
+          {drillSubTopicIds?.length ? "Drill" : "Deck Test"}: {deckName}
         </DialogTitle>
         <DialogDescription className="sr-only">
-          Take a quiz covering all cards in the {deckName} deck.
+          {drillSubTopicIds?.length
+            ? `Practice questions on ${deckName}, starting with the ones you missed.`
+            : `Take a quiz covering all cards in the ${deckName} deck.`}
         </DialogDescription>
 
         {/* Translate Button - only show if Google Translate widget is loaded */}
@@ -120,8 +125,9 @@ export function DeckQuizModal({ isOpen, onClose, deckId, deckName }: DeckQuizMod
               totalQuestions: questions.length,
             }}
             answerState={{
-              selectedOption,
+              response,
               showExplanation,
+              isSubmitting: submitting,
             }}
             stats={{
               correctAnswers,
@@ -133,7 +139,7 @@ export function DeckQuizModal({ isOpen, onClose, deckId, deckName }: DeckQuizMod
             }}
             currentFeedback={currentFeedback}
             handlers={{
-              onOptionSelect: handlers.handleOptionSelect,
+              onResponseChange: handlers.handleResponseChange,
               onSubmitAnswer: handlers.handleSubmitAnswer,
               onNextQuestion: handlers.handleNextQuestion,
             }}
@@ -144,6 +150,7 @@ export function DeckQuizModal({ isOpen, onClose, deckId, deckName }: DeckQuizMod
             totalQuestions={questions.length}
             maxStreak={gamification.maxStreak}
             totalXP={gamification.totalXP}
+            lifetimeXP={gamification.lifetimeXP}
             achievements={gamification.earnedAchievements}
             completionMessage={completionMessage || { text: "Quiz completed!", emoji: "🎉" }}
             onRetake={handlers.handleRetakeQuiz}
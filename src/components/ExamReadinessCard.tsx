@@ -0,0 +1,158 @@
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Gauge, Target } from "lucide-react";
+import { READINESS_CONFIG, type ExamReadiness, type ReadinessStatus } from "@/lib/readiness/exam-readiness";
+import type { ReadinessHistoryPoint } from "@/lib/readiness/readiness-history";
+
+interface ExamReadinessCardProps {
+  readiness: ExamReadiness;
+  history: ReadinessHistoryPoint[];
+}
+
+const STATUS_LABELS: Record<ReadinessStatus, string> = {
+  ready: "Exam ready",
+  borderline: "Borderline",
+  not_ready: "Not ready yet",
+};
+
+const STATUS_CLASSES: Record<ReadinessStatus, string> = {
+  ready: "bg-green-100 text-green-800 border-green-200",
+  borderline: "bg-amber-100 text-amber-800 border-amber-200",
+  not_ready: "bg-red-100 text-red-800 border-red-200",
+};
+
+const SPARKLINE_WIDTH = 240;
+const SPARKLINE_HEIGHT = 56;
+
+/**
+ * Score trend over the stored daily snapshots, with the pass mark as a dashed line
+ */
+function ReadinessSparkline({ history }: { history: ReadinessHistoryPoint[] }) {
+  const x = (index: number) => (history.length > 1 ? (index / (history.length - 1)) * SPARKLINE_WIDTH : SPARKLINE_WIDTH / 2);
+  const y = (score: number) => SPARKLINE_HEIGHT - (score / 100) * SPARKLINE_HEIGHT;
+
+  const band = [
+    ...history.map((point, index) => `${x(index)},${y(point.high)}`),
+    ...history.map((point, index) => `${x(index)},${y(point.low)}`).reverse(),
+  ].join(" ");
+  const line = history.map((point, index) => `${x(index)},${y(point.score)}`).join(" ");
+  const first = history[0];
+  const last = history[history.length - 1];
+  const change = Math.round((last.score - first.score) * 10) / 10;
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+        className="w-full h-14"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`Readiness went from ${first.score}% to ${last.score}% since ${first.date}`}
+      >
+        <line
+          x1={0}
+          x2={SPARKLINE_WIDTH}
+          y1={y(READINESS_CONFIG.PASS_MARK)}
+          y2={y(READINESS_CONFIG.PASS_MARK)}
+          className="stroke-gray-300"
+          strokeDasharray="4 4"
+        />
+        {history.length > 1 && <polygon points={band} className="fill-blue-100" />}
+        {history.length > 1 ? (
+          <polyline points={line} fill="none" className="stroke-blue-600" strokeWidth={2} />
+        ) : (
+          <circle cx={x(0)} cy={y(last.score)} r={3} className="fill-blue-600" />
+        )}
+      </svg>
+      <p className="text-xs text-gray-500 mt-1">
+        {history.length > 1
+          ? `${change >= 0 ? "+" : ""}${change} points since ${first.date}`
+          : "Your trend appears here as you keep studying"}
+      </p>
+    </div>
+  );
+}
+
+export function ExamReadinessCard({ readiness, history }: ExamReadinessCardProps) {
+  return (
+    <Card className="bg-white border-gray-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-gray-900 flex items-center gap-2">
+          <Gauge className="h-5 w-5 text-blue-600" />
+          Exam Readiness
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-3">
+              <span className="text-3xl font-bold text-blue-600">{readiness.score}%</span>
+              <Badge variant="outline" className={STATUS_CLASSES[readiness.status]}>
+                {STATUS_LABELS[readiness.status]}
+              </Badge>
+            </div>
+            <p className="text-sm text-gray-500 mt-1">
+              Likely between {readiness.low}% and {readiness.high}% &middot; {readiness.passProbability}% chance of
+              clearing the {READINESS_CONFIG.PASS_MARK}% pass mark
+            </p>
+          </div>
+          {history.length > 0 && (
+            <div className="w-full sm:w-60">
+              <ReadinessSparkline history={history} />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {readiness.domains.map((domain) => (
+            <div key={domain.domain} className="grid grid-cols-[minmax(0,1fr)_3rem] items-center gap-3 text-sm">
+              <div className="min-w-0">
+                <p className="text-gray-700 truncate" title={domain.name}>
+                  {domain.domain}. {domain.name}
+                </p>
+                <div
+                  className="relative h-2 rounded-full bg-gray-100 mt-1"
+                  aria-label={`${domain.name}: ${domain.score}%, likely between ${domain.low}% and ${domain.high}%`}
+                >
+                  <div
+                    className="absolute inset-y-0 rounded-full bg-blue-200"
+                    style={{ left: `${domain.low}%`, width: `${domain.high - domain.low}%` }}
+                  />
+                  <div
+                    className="absolute inset-y-0 w-1 -ml-0.5 rounded-full bg-blue-600"
+                    style={{ left: `${domain.score}%` }}
+                  />
+                  <div
+                    className="absolute -inset-y-0.5 w-px bg-gray-400"
+                    style={{ left: `${READINESS_CONFIG.PASS_MARK}%` }}
+                  />
+                </div>
+              </div>
+              <span className="text-right font-medium text-gray-900">{domain.score}%</span>
+            </div>
+          ))}
+        </div>
+
+        {readiness.focusDomains.length > 0 && (
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2 flex items-center gap-2">
+              <Target className="h-4 w-4 text-blue-600" />
+              Focus next
+            </h3>
+            <ol className="space-y-1 text-sm text-gray-600">
+              {readiness.focusDomains.map((domain) => (
+                <li key={domain.domain}>
+                  <Link href="/dashboard/insights" className="hover:text-blue-600">
+                    Domain {domain.domain}: {domain.name}
+                  </Link>{" "}
+                  <span className="text-gray-400">({domain.pointsAtStake} exam points at stake)</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
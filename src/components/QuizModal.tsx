@@ -104,8 +104,9 @@ export function QuizModal({ isOpen, onClose, flashcardId, flashcardQuestion }: Q
               totalQuestions: quiz.questions.length,
             }}
             answerState={{
-              selectedOption: quiz.selectedOption,
+              response: quiz.response,
               showExplanation: quiz.showExplanation,
+              isSubmitting: quiz.submitting,
             }}
             stats={{
               correctAnswers: quiz.correctAnswers,
@@ -117,7 +118,7 @@ export function QuizModal({ isOpen, onClose, flashcardId, flashcardQuestion }: Q
             }}
             currentFeedback={quiz.currentFeedback}
             handlers={{
-              onOptionSelect: quiz.handlers.handleOptionSelect,
+              onResponseChange: quiz.handlers.handleResponseChange,
               onSubmitAnswer: quiz.handlers.handleSubmitAnswer,
               onNextQuestion: quiz.handlers.handleNextQuestion,
             }}
@@ -128,6 +129,7 @@ export function QuizModal({ isOpen, onClose, flashcardId, flashcardQuestion }: Q
             totalQuestions={quiz.questions.length}
             maxStreak={quiz.gamification.maxStreak}
             totalXP={quiz.gamification.totalXP}
+            lifetimeXP={quiz.gamification.lifetimeXP}
             achievements={quiz.gamification.earnedAchievements}
             completionMessage={quiz.completionMessage || { text: "Quiz completed!", emoji: "🎉" }}
             onRetake={quiz.handlers.handleRetakeQuiz}
@@ -66,7 +66,9 @@ async function createSession(userId: string, deckIds: string[]): Promise<string>
   });
 
   if (!response.ok) {
-    throw new Error('Failed to create session');
+    // e.g. upgrade_required when a premium deck is selected on the free plan
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to create session');
   }
 
   const { sessionId } = await response.json();
@@ -145,11 +147,11 @@ export default function SessionSelector({ classes, userId }: SessionSelectorProp
     setIsStarting(true);
     try {
       const sessionId = await createSession(userId, Array.from(selectedDecks));
-      router.push(`/dashboard/session/${sessionId}/study?decks=${Array.from(selectedDecks).join(',')}`);
+      router.push(`/dashboard/session/${sessionId}/study`);
     } catch (error) {
       console.error('Error starting session:', error);
       setIsStarting(false);
-      alert('Failed to start session. Please try again.');
+      alert(error instanceof Error ? error.message : 'Failed to start session. Please try again.');
     }
   };
 
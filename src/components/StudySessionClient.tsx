@@ -1,11 +1,18 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { ChevronLeft, ChevronRight, RotateCcw, X } from "lucide-react";
+import { ChevronLeft, ChevronRight, RotateCcw, X, Lock } from "lucide-react";
+import {
+  type DailyAllowance,
+  getRatingHeaders,
+  readDailyAllowance,
+  formatCountdown,
+} from "@/lib/utils/daily-allowance";
 
 interface Flashcard {
   id: string;
@@ -20,37 +27,52 @@ interface StudySessionClientProps {
   sessionId: string;
   flashcards: Flashcard[];
   userId: string;
+  initialAllowance: DailyAllowance | null; // null for paid users
 }
 
 export default function StudySessionClient({
   sessionId,
   flashcards,
   userId,
+  initialAllowance,
 }: StudySessionClientProps) {
   const router = useRouter();
   const [currentIndex, setCurrentIndex] = useState(0);
   const [showAnswer, setShowAnswer] = useState(false);
   const [studiedCards, setStudiedCards] = useState(new Set<string>());
   const [startTime] = useState(new Date());
+  const [allowance, setAllowance] = useState<DailyAllowance | null>(initialAllowance);
+  const [limitMessage, setLimitMessage] = useState<string | null>(
+    initialAllowance && initialAllowance.remaining === 0
+      ? `You've studied your ${initialAllowance.limit} free cards for today.`
+      : null
+  );
+  const [now, setNow] = useState(() => Date.now());
+
+  const limitReached = limitMessage !== null;
+
+  // Tick the reset countdown once the daily limit is hit
+  useEffect(() => {
+    if (!limitReached) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [limitReached]);
+
+  const msUntilReset = allowance?.resetsAt ? new Date(allowance.resetsAt).getTime() - now : 0;
 
   const currentCard = flashcards[currentIndex];
   const progress = ((currentIndex + 1) / flashcards.length) * 100;
 
   const handleConfidenceRating = async (rating: number) => {
-    if (!currentCard) return;
+    if (!currentCard || limitReached) return;
 
     const responseTime = Math.floor((new Date().getTime() - startTime.getTime()) / 1000);
 
-    // Mark card as studied
-    setStudiedCards(prev => new Set(prev).add(currentCard.id));
-
     // Save to database
     try {
-      await fetch('/api/sessions/card', {
+      const response = await fetch('/api/sessions/card', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: getRatingHeaders(),
         body: JSON.stringify({
           sessionId,
           flashcardId: currentCard.id,
@@ -59,12 +81,26 @@ export default function StudySessionClient({
         }),
       });
 
+      const updatedAllowance = readDailyAllowance(response);
+      if (updatedAllowance) {
+        setAllowance(updatedAllowance);
+      }
+
+      // Free tier daily limit reached: keep the card unstudied and show the upgrade prompt
+      if (response.status === 429) {
+        const data = await response.json();
+        setNow(Date.now());
+        setLimitMessage(data.error);
+        return;
+      }
+
+      // Mark card as studied
+      setStudiedCards(prev => new Set(prev).add(currentCard.id));
+
       // Also update user card progress
       await fetch('/api/progress/update', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: getRatingHeaders(),
         body: JSON.stringify({
           userId,
           flashcardId: currentCard.id,
@@ -99,8 +135,7 @@ export default function StudySessionClient({
       });
 
       if (response.ok) {
-        const data = await response.json();
-        router.push(`/dashboard/session/${sessionId}/summary?cards=${data.session.cardsStudied}&duration=${data.session.studyDuration}`);
+        router.push(`/dashboard/session/${sessionId}/summary`);
       }
     } catch (error) {
       console.error('Error ending session:', error);
@@ -138,6 +173,11 @@ export default function StudySessionClient({
               <Progress value={progress} className="h-2" aria-label="Study session progress" />
               <p className="text-sm text-gray-400 mt-2">
                 Card {currentIndex + 1} of {flashcards.length}
+                {allowance && (
+                  <span className={allowance.remaining <= 5 ? "text-amber-400" : undefined}>
+                    {" "}&middot; {allowance.remaining} of {allowance.limit} free cards left today
+                  </span>
+                )}
               </p>
             </div>
             <Button
@@ -159,66 +199,101 @@ export default function StudySessionClient({
           {/* Deck Name */}
           <p className="text-sm text-gray-400 mb-4">{currentCard.deckName}</p>
 
-          {/* Question Card */}
-          <Card className="bg-slate-800/50 border-slate-700 mb-6">
-            <CardContent className="p-8">
-              <h2 className="text-2xl font-semibold text-white mb-6">
-                {currentCard.question}
-              </h2>
+          {/* Daily limit reached */}
+          {limitReached && (
+            <Card className="bg-slate-800/50 border-amber-500/30 mb-6">
+              <CardContent className="p-8 text-center space-y-4">
+                <div className="mx-auto w-12 h-12 rounded-full bg-amber-500/10 flex items-center justify-center">
+                  <Lock className="w-6 h-6 text-amber-400" />
+                </div>
+                <h2 className="text-2xl font-semibold text-white">Daily limit reached</h2>
+                <p className="text-gray-300">{limitMessage}</p>
+                {allowance?.resetsAt && (
+                  <p className="text-sm text-gray-400">
+                    Your free cards reset in{" "}
+                    <span className="font-mono text-white">{formatCountdown(msUntilReset)}</span>
+                  </p>
+                )}
+                <div className="flex flex-col sm:flex-row gap-3 justify-center pt-2">
+                  <Link href="/pricing">
+                    <Button className="bg-gradient-to-r from-amber-500 to-amber-600 hover:from-amber-600 hover:to-amber-700 text-white">
+                      Upgrade for Unlimited Study
+                    </Button>
+                  </Link>
+                  <Button
+                    variant="outline"
+                    onClick={endSession}
+                    className="border-slate-600 text-gray-300 hover:bg-slate-700 hover:text-white"
+                  >
+                    End Session
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
 
-              {!showAnswer ? (
-                <Button
-                  onClick={() => setShowAnswer(true)}
-                  size="lg"
-                  className="w-full bg-blue-600 hover:bg-blue-700 text-white"
-                >
-                  Show Answer
-                </Button>
-              ) : (
-                <div className="space-y-6">
-                  {/* Answer */}
-                  <div className="bg-slate-700/50 rounded-lg p-6">
-                    <h3 className="text-sm font-semibold text-gray-400 mb-2">ANSWER</h3>
-                    <p className="text-lg text-white">{currentCard.answer}</p>
-                  </div>
+          {/* Question Card */}
+          {!limitReached && (
+            <Card className="bg-slate-800/50 border-slate-700 mb-6">
+              <CardContent className="p-8">
+                <h2 className="text-2xl font-semibold text-white mb-6">
+                  {currentCard.question}
+                </h2>
 
-                  {/* Explanation */}
-                  {currentCard.explanation && (
+                {!showAnswer ? (
+                  <Button
+                    onClick={() => setShowAnswer(true)}
+                    size="lg"
+                    className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+                  >
+                    Show Answer
+                  </Button>
+                ) : (
+                  <div className="space-y-6">
+                    {/* Answer */}
                     <div className="bg-slate-700/50 rounded-lg p-6">
-                      <h3 className="text-sm font-semibold text-gray-400 mb-2">EXPLANATION</h3>
-                      <p className="text-base text-gray-300">{currentCard.explanation}</p>
+                      <h3 className="text-sm font-semibold text-gray-400 mb-2">ANSWER</h3>
+                      <p className="text-lg text-white">{currentCard.answer}</p>
                     </div>
-                  )}
 
-                  {/* Confidence Rating */}
-                  <div>
-                    <h3 className="text-sm font-semibold text-gray-400 mb-3">How confident are you?</h3>
-                    <div className="grid grid-cols-5 gap-2">
-                      {[1, 2, 3, 4, 5].map((rating) => (
-                        <Button
-                          key={rating}
-                          onClick={() => handleConfidenceRating(rating)}
-                          className={`h-16 text-lg font-semibold ${
-                            rating <= 2
-                              ? 'bg-red-500 hover:bg-red-600'
-                              : rating === 3
-                              ? 'bg-yellow-500 hover:bg-yellow-600'
-                              : 'bg-green-500 hover:bg-green-600'
-                          } text-white`}
-                        >
-                          {rating}
-                        </Button>
-                      ))}
-                    </div>
-                    <div className="flex justify-between mt-2 text-xs text-gray-400">
-                      <span>Not confident</span>
-                      <span>Very confident</span>
+                    {/* Explanation */}
+                    {currentCard.explanation && (
+                      <div className="bg-slate-700/50 rounded-lg p-6">
+                        <h3 className="text-sm font-semibold text-gray-400 mb-2">EXPLANATION</h3>
+                        <p className="text-base text-gray-300">{currentCard.explanation}</p>
+                      </div>
+                    )}
+
+                    {/* Confidence Rating */}
+                    <div>
+                      <h3 className="text-sm font-semibold text-gray-400 mb-3">How confident are you?</h3>
+                      <div className="grid grid-cols-5 gap-2">
+                        {[1, 2, 3, 4, 5].map((rating) => (
+                          <Button
+                            key={rating}
+                            onClick={() => handleConfidenceRating(rating)}
+                            className={`h-16 text-lg font-semibold ${
+                              rating <= 2
+                                ? 'bg-red-500 hover:bg-red-600'
+                                : rating === 3
+                                ? 'bg-yellow-500 hover:bg-yellow-600'
+                                : 'bg-green-500 hover:bg-green-600'
+                            } text-white`}
+                          >
+                            {rating}
+                          </Button>
+                        ))}
+                      </div>
+                      <div className="flex justify-between mt-2 text-xs text-gray-400">
+                        <span>Not confident</span>
+                        <span>Very confident</span>
+                      </div>
                     </div>
                   </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
+                )}
+              </CardContent>
+            </Card>
+          )}
 
           {/* Navigation */}
           <div className="flex justify-between items-center">
@@ -0,0 +1,75 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Flame, Snowflake } from "lucide-react";
+import type { StreakOverview } from "@/lib/activity/daily-activity";
+import { STREAK_CONFIG } from "@/lib/activity/streaks";
+
+const WEEKDAY_LABELS = ["S", "M", "T", "W", "T", "F", "S"];
+
+function describeStreak({ streak }: StreakOverview): string {
+  if (streak.activeToday) {
+    return "You studied today. See you tomorrow!";
+  }
+  if (streak.freezesNeeded > 0) {
+    return `Study today and ${streak.freezesNeeded === 1 ? "a freeze covers" : `${streak.freezesNeeded} freezes cover`} the missed days.`;
+  }
+  if (streak.currentStreak > 0) {
+    return "Study today to keep your streak going.";
+  }
+  return "Study a card or answer a question to start a streak.";
+}
+
+export function StudyStreakCard({ overview }: { overview: StreakOverview }) {
+  const { streak, recentActivity } = overview;
+
+  return (
+    <Card className="bg-white border-gray-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-gray-900 flex items-center gap-2">
+          <Flame className="h-5 w-5 text-orange-500" />
+          Study Streak
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end justify-between">
+          <div>
+            <span className="text-4xl font-bold text-gray-900">{streak.currentStreak}</span>
+            <span className="text-sm text-gray-500 ml-1">{streak.currentStreak === 1 ? "day" : "days"}</span>
+          </div>
+          <div className="text-right text-sm text-gray-500">
+            <p>Longest: {streak.longestStreak} {streak.longestStreak === 1 ? "day" : "days"}</p>
+            <p
+              className="flex items-center justify-end gap-1"
+              title={`You earn a freeze every ${STREAK_CONFIG.FREEZE_EARNED_EVERY_DAYS} days of streak, up to ${STREAK_CONFIG.MAX_FREEZE_TOKENS}`}
+            >
+              <Snowflake className="h-3.5 w-3.5 text-sky-500" />
+              {streak.freezeTokens} {streak.freezeTokens === 1 ? "freeze" : "freezes"}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-between" aria-label="Activity over the last week">
+          {recentActivity.map((day) => {
+            const active = day.cardsStudied + day.questionsAnswered > 0 || day.studySessions + day.quizSessions > 0;
+            const weekday = new Date(`${day.date}T00:00:00Z`).getUTCDay();
+            return (
+              <div key={day.date} className="flex flex-col items-center gap-1">
+                <div
+                  className={`h-7 w-7 rounded-full flex items-center justify-center ${
+                    active ? "bg-orange-500" : day.frozen ? "bg-sky-100" : "bg-gray-100"
+                  }`}
+                  title={`${day.date}: ${active ? `${day.cardsStudied} cards, ${day.questionsAnswered} questions` : day.frozen ? "Streak freeze" : "No activity"}`}
+                >
+                  {active && <Flame className="h-4 w-4 text-white" />}
+                  {!active && day.frozen && <Snowflake className="h-4 w-4 text-sky-500" />}
+                </div>
+                <span className="text-xs text-gray-500">{WEEKDAY_LABELS[weekday]}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <p className="text-sm text-gray-600">{describeStreak(overview)}</p>
+      </CardContent>
+    </Card>
+  );
+}
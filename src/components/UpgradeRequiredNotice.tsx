@@ -0,0 +1,56 @@
+import Link from 'next/link';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { UpgradeRequired } from '@/lib/entitlements';
+
+interface UpgradeRequiredNoticeProps {
+  upgrade: UpgradeRequired;
+  className?: string;
+}
+
+/**
+ * Read the upgrade_required error from a learner API response body
+ * Single-deck endpoints return it at the top level, multi-deck ones under upgradeRequired
+ */
+export function getUpgradeRequired(data: unknown): UpgradeRequired | null {
+  if (!data || typeof data !== 'object') return null;
+  const body = data as { code?: string; upgradeRequired?: UpgradeRequired | null };
+  if (body.code === 'upgrade_required') return data as UpgradeRequired;
+  return body.upgradeRequired ?? null;
+}
+
+/**
+ * Locked state for premium decks, rendered from the upgrade_required error
+ */
+export default function UpgradeRequiredNotice({ upgrade, className = '' }: UpgradeRequiredNoticeProps) {
+  return (
+    <div className={`bg-slate-800/50 backdrop-blur-sm border border-amber-500/30 rounded-xl p-6 text-center ${className}`}>
+      <div className="max-w-md mx-auto space-y-4">
+        <div className="mx-auto w-12 h-12 rounded-full bg-amber-500/10 flex items-center justify-center">
+          <Lock className="w-6 h-6 text-amber-400" />
+        </div>
+        <h3 className="text-xl font-bold text-white">Premium Content</h3>
+        <p className="text-gray-300">{upgrade.error}</p>
+        {upgrade.lockedDecks.length > 0 && (
+          <ul className="text-sm text-gray-400 space-y-1">
+            {upgrade.lockedDecks.map((deck) => (
+              <li key={deck.id}>
+                <span className="text-gray-200">{deck.name}</span>
+                {deck.totalCards !== undefined && deck.totalCards > upgrade.teaserCardCount && (
+                  <> &middot; previewing {upgrade.teaserCardCount} of {deck.totalCards} cards</>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="pt-2">
+          <Link href="/pricing">
+            <Button className="bg-gradient-to-r from-amber-500 to-amber-600 hover:from-amber-600 hover:to-amber-700 text-white">
+              {upgrade.plan === 'expired' ? 'Renew Access' : 'View Pricing Plans'}
+            </Button>
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { CONTENT_STATUS_LABELS, type ContentStatus } from '@/lib/editorial/workflow';
+
+const STATUS_STYLES: Record<ContentStatus, string> = {
+  draft: 'bg-slate-50 text-slate-700 border-slate-300',
+  in_review: 'bg-amber-50 text-amber-800 border-amber-300',
+  approved: 'bg-blue-50 text-blue-700 border-blue-300',
+  published: 'bg-green-50 text-green-700 border-green-300',
+};
+
+interface ContentStatusBadgeProps {
+  status: ContentStatus;
+  className?: string;
+}
+
+export function ContentStatusBadge({ status, className = '' }: ContentStatusBadgeProps) {
+  return (
+    <Badge variant="outline" className={`text-xs ${STATUS_STYLES[status]} ${className}`}>
+      {CONTENT_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
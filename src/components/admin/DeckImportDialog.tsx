@@ -0,0 +1,359 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { FileUp, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { FieldMapping, ImportFormat, RowIssue } from '@/lib/deck-transfer/records';
+
+interface ImportPreview {
+  format: ImportFormat;
+  deckName: string | null;
+  columns: string[];
+  mapping: FieldMapping;
+  summary: {
+    rows: number;
+    cards: number;
+    quizQuestions: number;
+    deckQuizQuestions: number;
+    images: number;
+    errors: number;
+    warnings: number;
+  };
+  preview: Array<{ row: number; question: string; answer: string; images: number; quizQuestions: number }>;
+  errors: RowIssue[];
+  warnings: RowIssue[];
+}
+
+interface DeckImportDialogProps {
+  deckId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void | Promise<void>;
+}
+
+const MAPPING_FIELDS: Array<{ key: keyof FieldMapping; label: string; required?: boolean }> = [
+  { key: 'question', label: 'Question', required: true },
+  { key: 'answer', label: 'Answer', required: true },
+  { key: 'explanation', label: 'Explanation' },
+  { key: 'questionImages', label: 'Question image URLs' },
+  { key: 'answerImages', label: 'Answer image URLs' },
+  { key: 'quiz', label: 'Quiz questions (JSON)' },
+  { key: 'rowType', label: 'Row type' },
+];
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: 'CSV',
+  tsv: 'TSV',
+  apkg: 'Anki package',
+};
+
+export function DeckImportDialog({ deckId, open, onOpenChange, onImported }: DeckImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<FieldMapping | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setHasHeader(true);
+    setMapping(null);
+    setPreview(null);
+  };
+
+  const sendImport = async (
+    selectedFile: File,
+    options: { dryRun: boolean; hasHeader: boolean; mapping: FieldMapping | null }
+  ) => {
+    const formData = new FormData();
+    formData.append('file', selectedFile);
+    formData.append('dryRun', String(options.dryRun));
+    formData.append('hasHeader', String(options.hasHeader));
+    if (options.mapping) {
+      formData.append('mapping', JSON.stringify(options.mapping));
+    }
+
+    const res = await fetch(`/api/admin/decks/${deckId}/import`, { method: 'POST', body: formData });
+    const data = await res.json();
+    if (!res.ok) {
+      throw new Error(data.error || 'Failed to import file');
+    }
+    return data;
+  };
+
+  const runPreview = async (selectedFile: File, options: { hasHeader: boolean; mapping: FieldMapping | null }) => {
+    setIsPreviewing(true);
+    try {
+      const data: ImportPreview = await sendImport(selectedFile, { ...options, dryRun: true });
+      setPreview(data);
+      setMapping(data.mapping);
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read file');
+      setPreview(null);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    setFile(selected);
+    setMapping(null);
+    setPreview(null);
+    if (selected) {
+      // Start from the mapping guessed from the file's column names
+      runPreview(selected, { hasHeader, mapping: null });
+    }
+  };
+
+  const handleHeaderChange = (checked: boolean) => {
+    setHasHeader(checked);
+    // Column names change with the header setting, so the mapping is guessed again
+    setMapping(null);
+    if (file) {
+      runPreview(file, { hasHeader: checked, mapping: null });
+    }
+  };
+
+  const handleMappingChange = (key: keyof FieldMapping, column: string) => {
+    if (!mapping || !file) return;
+    const updated = { ...mapping, [key]: column || null };
+    setMapping(updated);
+    runPreview(file, { hasHeader, mapping: updated });
+  };
+
+  const handleImport = async () => {
+    if (!file || !mapping) return;
+
+    setIsImporting(true);
+    try {
+      const data = await sendImport(file, { dryRun: false, hasHeader, mapping });
+      const { cards, deckQuizQuestions, images } = data.imported;
+      toast.success(
+        `Imported ${cards} card${cards === 1 ? '' : 's'}` +
+          (deckQuizQuestions > 0 ? `, ${deckQuizQuestions} deck quiz question${deckQuizQuestions === 1 ? '' : 's'}` : '') +
+          (images > 0 ? ` and ${images} image${images === 1 ? '' : 's'}` : '') +
+          ' as drafts'
+      );
+      if (data.warnings?.length > 0) {
+        toast.warning(`${data.warnings.length} image${data.warnings.length === 1 ? ' was' : 's were'} skipped`);
+      }
+      await onImported();
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error importing deck:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import file');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const isDelimited = preview ? preview.format !== 'apkg' : !file?.name.toLowerCase().endsWith('.apkg');
+  const importable = preview ? preview.summary.cards + preview.summary.deckQuizQuestions : 0;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) reset();
+        onOpenChange(nextOpen);
+      }}
+    >
+      <DialogContent className="bg-white border-slate-200 text-slate-900 max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="w-5 h-5 text-slate-600" />
+            Import Cards
+          </DialogTitle>
+          <DialogDescription className="text-slate-600">
+            Import a CSV/TSV file or an Anki package (.apkg). Nothing is saved until you confirm the preview;
+            imported cards are added as drafts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="deck-import-file">File</Label>
+              <Input
+                id="deck-import-file"
+                type="file"
+                accept=".csv,.tsv,.txt,.apkg"
+                onChange={handleFileChange}
+                className="bg-white border-slate-300"
+              />
+            </div>
+            {isDelimited && (
+              <label className="flex items-center gap-2 text-sm text-slate-700 pb-2">
+                <Checkbox checked={hasHeader} onCheckedChange={(checked) => handleHeaderChange(checked === true)} />
+                First row names the columns
+              </label>
+            )}
+            {isPreviewing && (
+              <span className="flex items-center gap-2 text-sm text-slate-600 pb-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Reading file...
+              </span>
+            )}
+          </div>
+
+          {preview && mapping && (
+            <>
+              {/* Field mapping */}
+              <div>
+                <p className="text-sm font-semibold text-slate-700 mb-2">
+                  Field mapping
+                  <span className="font-normal text-slate-500">
+                    {' '}
+                    · {FORMAT_LABELS[preview.format]}
+                    {preview.deckName ? ` · ${preview.deckName}` : ''}
+                  </span>
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {MAPPING_FIELDS.map((field) => (
+                    <label key={field.key} className="flex items-center justify-between gap-3 text-sm text-slate-700">
+                      <span>{field.label}</span>
+                      <select
+                        value={mapping[field.key] ?? ''}
+                        onChange={(e) => handleMappingChange(field.key, e.target.value)}
+                        disabled={isPreviewing || isImporting}
+                        className="border border-slate-300 rounded px-2 py-1 text-sm bg-white w-48"
+                      >
+                        {!field.required && <option value="">Not imported</option>}
+                        {preview.columns.map((column) => (
+                          <option key={column} value={column}>
+                            {column}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {/* Summary */}
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-center">
+                {[
+                  { label: 'Cards', value: preview.summary.cards },
+                  { label: 'Card quiz questions', value: preview.summary.quizQuestions },
+                  { label: 'Deck quiz questions', value: preview.summary.deckQuizQuestions },
+                  { label: 'Images', value: preview.summary.images },
+                  { label: 'Rows with errors', value: preview.summary.errors },
+                ].map((stat) => (
+                  <div key={stat.label} className="p-3 rounded-lg border border-slate-200">
+                    <p className="text-2xl font-bold text-slate-800">{stat.value}</p>
+                    <p className="text-xs text-slate-600">{stat.label}</p>
+                  </div>
+                ))}
+              </div>
+
+              {/* Preview */}
+              {preview.preview.length > 0 && (
+                <div className="border border-slate-200 rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-slate-600">
+                      <tr>
+                        <th className="text-left p-2 w-14">Row</th>
+                        <th className="text-left p-2">Question</th>
+                        <th className="text-left p-2">Answer</th>
+                        <th className="text-right p-2 w-20">Images</th>
+                        <th className="text-right p-2 w-20">Quiz</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.preview.map((card) => (
+                        <tr key={card.row} className="border-t border-slate-200">
+                          <td className="p-2 text-slate-500">{card.row}</td>
+                          <td className="p-2 text-slate-800">{card.question}</td>
+                          <td className="p-2 text-slate-700">{card.answer}</td>
+                          <td className="p-2 text-right text-slate-600">{card.images}</td>
+                          <td className="p-2 text-right text-slate-600">{card.quizQuestions}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {preview.summary.cards > preview.preview.length && (
+                    <p className="text-xs text-slate-500 p-2 border-t border-slate-200">
+                      Showing the first {preview.preview.length} of {preview.summary.cards} cards
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Row problems */}
+              {(preview.errors.length > 0 || preview.warnings.length > 0) && (
+                <div className="space-y-2">
+                  {preview.errors.length > 0 && (
+                    <Alert className="bg-red-50 border-red-300">
+                      <AlertDescription className="text-red-800 text-sm">
+                        <p className="font-semibold mb-1">These rows will not be imported:</p>
+                        <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+                          {preview.errors.map((issue, index) => (
+                            <li key={index}>
+                              Row {issue.row}: {issue.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  {preview.warnings.length > 0 && (
+                    <Alert className="bg-amber-50 border-amber-300">
+                      <AlertDescription className="text-amber-800 text-sm">
+                        <p className="font-semibold mb-1">These rows will be imported without some images:</p>
+                        <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+                          {preview.warnings.map((issue, index) => (
+                            <li key={index}>
+                              Row {issue.row}: {issue.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              reset();
+              onOpenChange(false);
+            }}
+            className="border-slate-300"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!preview || importable === 0 || isPreviewing || isImporting}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {isImporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Import {importable > 0 ? importable : ''} {importable === 1 ? 'item' : 'items'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ClipboardCheck, Loader2, Send, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { ContentStatusBadge } from './ContentStatusBadge';
+import { CONTENT_STATUSES, type ContentStatus } from '@/lib/editorial/workflow';
+
+interface Reviewer {
+  clerkUserId: string;
+  name: string | null;
+  email: string;
+}
+
+interface DeckWorkflowPanelProps {
+  deckId: string;
+  flashcards: Array<{ status: ContentStatus }>;
+  deckQuizQuestions: Array<{ status: ContentStatus }>;
+  onChanged: () => void | Promise<void>;
+}
+
+function countByStatus(items: Array<{ status: ContentStatus }>): Record<ContentStatus, number> {
+  const counts = { draft: 0, in_review: 0, approved: 0, published: 0 };
+  for (const item of items) {
+    counts[item.status] += 1;
+  }
+  return counts;
+}
+
+export function DeckWorkflowPanel({ deckId, flashcards, deckQuizQuestions, onChanged }: DeckWorkflowPanelProps) {
+  const [reviewers, setReviewers] = useState<Reviewer[]>([]);
+  const [reviewerId, setReviewerId] = useState('');
+  const [pendingAction, setPendingAction] = useState<'submit' | 'publish' | null>(null);
+
+  useEffect(() => {
+    const loadReviewers = async () => {
+      try {
+        const res = await fetch('/api/admin/reviews/reviewers');
+        if (res.ok) {
+          const data = await res.json();
+          setReviewers(data.reviewers || []);
+        }
+      } catch (error) {
+        console.error('Error loading reviewers:', error);
+      }
+    };
+
+    loadReviewers();
+  }, []);
+
+  const cardCounts = countByStatus(flashcards);
+  const questionCounts = countByStatus(deckQuizQuestions);
+  const drafts = cardCounts.draft + questionCounts.draft;
+  const approved = cardCounts.approved + questionCounts.approved;
+
+  const handleAction = async (action: 'submit' | 'publish') => {
+    setPendingAction(action);
+    try {
+      const res = await fetch(`/api/admin/decks/${deckId}/workflow`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, reviewerId: action === 'submit' ? reviewerId : undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update deck content');
+      }
+      const total = data.flashcards + data.deckQuizQuestions;
+      toast.success(
+        action === 'submit'
+          ? `Submitted ${total} ${total === 1 ? 'item' : 'items'} for review`
+          : `Published ${total} ${total === 1 ? 'item' : 'items'}`
+      );
+      await onChanged();
+    } catch (error) {
+      console.error('Error updating deck workflow:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update deck content');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <Card className="mb-6 border-slate-200">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <ClipboardCheck className="w-5 h-5 text-slate-600" />
+          <h2 className="text-lg font-semibold text-slate-800">Editorial Workflow</h2>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+          {[
+            { label: 'Flashcards', counts: cardCounts },
+            { label: 'Deck quiz questions', counts: questionCounts },
+          ].map(({ label, counts }) => (
+            <div key={label} className="p-3 rounded-lg border border-slate-200">
+              <p className="font-medium text-slate-700 mb-2">{label}</p>
+              <div className="flex flex-wrap gap-2">
+                {CONTENT_STATUSES.map((status) => (
+                  <span key={status} className="flex items-center gap-1 text-slate-600">
+                    <ContentStatusBadge status={status} />
+                    {counts[status]}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={reviewerId}
+            onChange={(e) => setReviewerId(e.target.value)}
+            className="border border-slate-300 rounded px-2 py-1.5 text-sm bg-white"
+            disabled={drafts === 0}
+          >
+            <option value="">Choose a reviewer...</option>
+            {reviewers.map((reviewer) => (
+              <option key={reviewer.clerkUserId} value={reviewer.clerkUserId}>
+                {reviewer.name ?? reviewer.email}
+              </option>
+            ))}
+          </select>
+          <Button
+            size="sm"
+            onClick={() => handleAction('submit')}
+            disabled={drafts === 0 || !reviewerId || pendingAction !== null}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {pendingAction === 'submit' ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="w-4 h-4 mr-2" />
+            )}
+            Submit {drafts} {drafts === 1 ? 'draft' : 'drafts'} for review
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => handleAction('publish')}
+            disabled={approved === 0 || pendingAction !== null}
+            className="bg-green-600 hover:bg-green-700 text-white"
+          >
+            {pendingAction === 'publish' ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="w-4 h-4 mr-2" />
+            )}
+            Publish {approved} approved
+          </Button>
+        </div>
+        {reviewers.length === 0 && drafts > 0 && (
+          <p className="text-xs text-slate-500">
+            Content has to be reviewed by a second admin before it is published. No other admins are available yet.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
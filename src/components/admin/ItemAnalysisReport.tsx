@@ -0,0 +1,135 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { BarChart3, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import {
+  ITEM_ANALYSIS_CONFIG,
+  ITEM_FLAG_LABELS,
+  type DeckItemAnalysis,
+  type ItemFlag,
+} from '@/lib/quiz/item-analysis';
+
+interface ItemAnalysisReportProps {
+  analysis: DeckItemAnalysis | null;
+  isLoading: boolean;
+}
+
+const FLAG_DESCRIPTIONS: Record<ItemFlag, string> = {
+  too_easy: `More than ${ITEM_ANALYSIS_CONFIG.TOO_EASY_P * 100}% answer correctly`,
+  too_hard: `Fewer than ${ITEM_ANALYSIS_CONFIG.TOO_HARD_P * 100}% answer correctly`,
+  likely_miskeyed: 'A distractor is chosen more than the key, or stronger learners miss it more often',
+  dead_distractor: `A distractor chosen by fewer than ${ITEM_ANALYSIS_CONFIG.DEAD_DISTRACTOR_SHARE * 100}% of learners`,
+};
+
+const FLAGS = Object.keys(ITEM_FLAG_LABELS) as ItemFlag[];
+
+export function ItemAnalysisReport({ analysis, isLoading }: ItemAnalysisReportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const flagged = analysis?.items.filter((item) => item.flags.length > 0) ?? [];
+
+  return (
+    <Card className="mb-6 border-slate-200">
+      <CardContent className="pt-6">
+        <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+          <CollapsibleTrigger className="w-full" asChild>
+            <div className="flex items-center justify-between cursor-pointer group">
+              <div className="flex items-center gap-3">
+                <BarChart3 className="w-5 h-5 text-amber-600" />
+                <h2 className="text-lg font-semibold text-slate-800">Item Analysis</h2>
+                {flagged.length > 0 && (
+                  <Badge variant="outline" className="bg-amber-50 text-amber-800 border-amber-300">
+                    {flagged.length} flagged
+                  </Badge>
+                )}
+              </div>
+              <div className="text-slate-500 group-hover:text-slate-700 transition-colors">
+                {isOpen ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+              </div>
+            </div>
+          </CollapsibleTrigger>
+
+          <CollapsibleContent className="mt-4">
+            {isLoading || !analysis ? (
+              <div className="flex justify-center items-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-amber-500" />
+                <span className="ml-2 text-sm text-slate-600">Analyzing answers...</span>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-slate-600">
+                  {analysis.totalAnswers} answers from {analysis.learners}{' '}
+                  {analysis.learners === 1 ? 'learner' : 'learners'} across {analysis.items.length} questions.
+                  Questions need at least {ITEM_ANALYSIS_CONFIG.MIN_RESPONSES} answers before they are flagged.
+                </p>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {FLAGS.map((flag) => (
+                    <div key={flag} className="p-3 rounded-lg border border-slate-200 bg-slate-50" title={FLAG_DESCRIPTIONS[flag]}>
+                      <p className="text-2xl font-semibold text-slate-800">{analysis.flagCounts[flag]}</p>
+                      <p className="text-xs text-slate-600">{ITEM_FLAG_LABELS[flag]}</p>
+                    </div>
+                  ))}
+                </div>
+
+                {flagged.length === 0 ? (
+                  <Alert className="bg-slate-50 border-slate-300">
+                    <AlertDescription className="text-slate-600 text-sm">
+                      No questions are flagged for review.
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <ul className="space-y-2">
+                    {flagged.map((item) => {
+                      const deadDistractors = (item.options ?? []).filter((option) =>
+                        item.deadDistractorIds.includes(option.id)
+                      );
+                      return (
+                        <li key={item.questionId} className="p-3 rounded-lg border border-slate-200">
+                          <div className="flex items-start justify-between gap-3">
+                            <p className="text-sm font-medium text-slate-800 line-clamp-2">{item.questionText}</p>
+                            <Badge variant="outline" className="flex-shrink-0 text-xs">
+                              {item.source === 'deck' ? 'Deck quiz' : 'Flashcard quiz'}
+                            </Badge>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-slate-600">
+                            <span>{Math.round((item.pValue ?? 0) * 100)}% correct</span>
+                            <span className="text-slate-400">•</span>
+                            <span>
+                              r<sub>pb</sub> {item.discrimination?.toFixed(2) ?? '–'}
+                            </span>
+                            <span className="text-slate-400">•</span>
+                            <span>{item.responses} answers</span>
+                            {item.flags.map((flag) => (
+                              <Badge
+                                key={flag}
+                                variant="outline"
+                                className="bg-amber-50 text-amber-800 border-amber-300 text-xs"
+                                title={FLAG_DESCRIPTIONS[flag]}
+                              >
+                                {ITEM_FLAG_LABELS[flag]}
+                              </Badge>
+                            ))}
+                          </div>
+                          {deadDistractors.length > 0 && (
+                            <p className="mt-2 text-xs text-slate-500">
+                              Rarely chosen: {deadDistractors.map((option) => option.text).join('; ')}
+                            </p>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            )}
+          </CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+    </Card>
+  );
+}
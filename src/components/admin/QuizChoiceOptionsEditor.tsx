@@ -0,0 +1,93 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Trash2 } from 'lucide-react';
+import type { QuizOptionInput } from '@/lib/validations/quiz';
+
+interface QuizChoiceOptionsEditorProps {
+  options: QuizOptionInput[];
+  onChange: (options: QuizOptionInput[]) => void;
+  min: number;
+  max: number;
+}
+
+/**
+ * Editor for multiple choice and "select all that apply" options
+ */
+export function QuizChoiceOptionsEditor({ options, onChange, min, max }: QuizChoiceOptionsEditorProps) {
+  const updateOption = (index: number, update: Partial<QuizOptionInput>) => {
+    onChange(options.map((option, i) => (i === index ? { ...option, ...update } : option)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-slate-700 font-semibold">
+          Options <span className="text-red-500">*</span>
+          <span className="text-xs text-slate-500 ml-2 font-normal">({min}-{max} options)</span>
+        </Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...options, { text: '', isCorrect: false }])}
+          disabled={options.length >= max}
+          className="text-purple-600 border-purple-300 hover:bg-purple-50"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Option
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {options.map((option, index) => (
+          <div
+            key={index}
+            className={`flex items-start gap-2 p-3 rounded-lg border ${
+              option.isCorrect ? 'border-green-300 bg-green-50' : 'border-slate-200 bg-slate-50'
+            }`}
+          >
+            <Badge variant="outline" className="mt-2 flex-shrink-0">
+              {index + 1}
+            </Badge>
+            <Input
+              value={option.text}
+              onChange={(e) => updateOption(index, { text: e.target.value })}
+              placeholder={`Option ${index + 1} text...`}
+              className="flex-1 bg-white"
+            />
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`option-${index}`}
+                  checked={option.isCorrect === true}
+                  onCheckedChange={(checked) => updateOption(index, { isCorrect: checked === true })}
+                />
+                <Label
+                  htmlFor={`option-${index}`}
+                  className="text-sm text-slate-700 cursor-pointer whitespace-nowrap"
+                >
+                  Correct
+                </Label>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(options.filter((_, i) => i !== index))}
+                disabled={options.length <= min}
+                className="text-red-600 hover:text-red-800 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
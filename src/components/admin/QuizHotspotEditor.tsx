@@ -0,0 +1,209 @@
+'use client';
+
+import Image from 'next/image';
+import type { MouseEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Trash2 } from 'lucide-react';
+import type { HotspotRegion } from '@/lib/quiz/question-types';
+import type { QuizOptionInput } from '@/lib/validations/quiz';
+
+interface QuizHotspotEditorProps {
+  imageUrl: string;
+  onImageUrlChange: (imageUrl: string) => void;
+  options: QuizOptionInput[];
+  onChange: (options: QuizOptionInput[]) => void;
+  max: number;
+  errors: Record<string, string>;
+}
+
+// Size of a region added by clicking the image, in percent
+const NEW_REGION_SIZE = 10;
+
+const REGION_FIELDS: Array<{ key: keyof HotspotRegion; label: string }> = [
+  { key: 'x', label: 'X %' },
+  { key: 'y', label: 'Y %' },
+  { key: 'width', label: 'W %' },
+  { key: 'height', label: 'H %' },
+];
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Editor for hotspot questions: the diagram and the regions on it
+ * Clicking the image adds a region there; its position and size can then be fine-tuned
+ */
+export function QuizHotspotEditor({
+  imageUrl,
+  onImageUrlChange,
+  options,
+  onChange,
+  max,
+  errors,
+}: QuizHotspotEditorProps) {
+  const updateRegion = (index: number, update: Partial<QuizOptionInput>) => {
+    onChange(options.map((option, i) => (i === index ? { ...option, ...update } : option)));
+  };
+
+  const handleImageClick = (e: MouseEvent<HTMLDivElement>) => {
+    if (options.length >= max) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const centerX = ((e.clientX - rect.left) / rect.width) * 100;
+    const centerY = ((e.clientY - rect.top) / rect.height) * 100;
+
+    onChange([
+      ...options,
+      {
+        text: `Region ${options.length + 1}`,
+        isCorrect: options.length === 0,
+        region: {
+          x: Math.round(clamp(centerX - NEW_REGION_SIZE / 2, 0, 100 - NEW_REGION_SIZE)),
+          y: Math.round(clamp(centerY - NEW_REGION_SIZE / 2, 0, 100 - NEW_REGION_SIZE)),
+          width: NEW_REGION_SIZE,
+          height: NEW_REGION_SIZE,
+        },
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="hotspotImageUrl" className="text-slate-700 font-semibold">
+          Image URL <span className="text-red-500">*</span>
+        </Label>
+        <Input
+          id="hotspotImageUrl"
+          value={imageUrl}
+          onChange={(e) => onImageUrlChange(e.target.value)}
+          placeholder="https://..."
+          className="border-slate-300 focus:border-purple-500"
+        />
+        {errors.imageUrl && <p className="text-sm text-red-600">{errors.imageUrl}</p>}
+      </div>
+
+      {imageUrl && (
+        <div>
+          <p className="text-xs text-slate-500 mb-2">
+            Click the image to add a region ({options.length}/{max}). Learners click a point; it is correct when it falls
+            inside a region marked correct.
+          </p>
+          <div
+            onClick={handleImageClick}
+            className="relative w-full overflow-hidden rounded-lg border border-slate-300 cursor-crosshair"
+          >
+            <Image
+              src={imageUrl}
+              alt="Hotspot diagram"
+              width={1200}
+              height={800}
+              className="w-full h-auto select-none pointer-events-none"
+              unoptimized
+            />
+            {options.map((option, index) =>
+              option.region ? (
+                <div
+                  key={index}
+                  className={`absolute border-2 rounded ${
+                    option.isCorrect ? 'border-green-500 bg-green-500/20' : 'border-slate-500 bg-slate-500/10'
+                  }`}
+                  style={{
+                    left: `${option.region.x}%`,
+                    top: `${option.region.y}%`,
+                    width: `${option.region.width}%`,
+                    height: `${option.region.height}%`,
+                  }}
+                >
+                  <span className="absolute top-0 left-0 bg-white/90 text-[10px] px-1 text-slate-800">{index + 1}</span>
+                </div>
+              ) : null
+            )}
+          </div>
+        </div>
+      )}
+
+      <Label className="text-slate-700 font-semibold block">
+        Regions <span className="text-red-500">*</span>
+      </Label>
+      {options.length === 0 && <p className="text-sm text-slate-500">No regions yet.</p>}
+
+      <div className="space-y-2">
+        {options.map((option, index) => (
+          <div
+            key={index}
+            className={`p-3 rounded-lg border space-y-2 ${
+              option.isCorrect ? 'border-green-300 bg-green-50' : 'border-slate-200 bg-slate-50'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="flex-shrink-0">
+                {index + 1}
+              </Badge>
+              <Input
+                value={option.text}
+                onChange={(e) => updateRegion(index, { text: e.target.value })}
+                placeholder="Region label (shown after answering)"
+                className="flex-1 bg-white"
+              />
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <Checkbox
+                  id={`region-${index}`}
+                  checked={option.isCorrect === true}
+                  onCheckedChange={(checked) => updateRegion(index, { isCorrect: checked === true })}
+                />
+                <Label htmlFor={`region-${index}`} className="text-sm text-slate-700 cursor-pointer">
+                  Correct
+                </Label>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(options.filter((_, i) => i !== index))}
+                className="text-red-600 hover:text-red-800 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-4 gap-2 ml-10">
+              {REGION_FIELDS.map(({ key, label }) => (
+                <div key={key}>
+                  <Label className="text-xs text-slate-500">{label}</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={option.region?.[key] ?? ''}
+                    onChange={(e) =>
+                      updateRegion(index, {
+                        region: {
+                          x: 0,
+                          y: 0,
+                          width: NEW_REGION_SIZE,
+                          height: NEW_REGION_SIZE,
+                          ...option.region,
+                          [key]: Number(e.target.value),
+                        },
+                      })
+                    }
+                    className="bg-white h-8"
+                  />
+                </div>
+              ))}
+            </div>
+            {(errors[`options.${index}.region`] || errors[`options.${index}.region.x`]) && (
+              <p className="text-sm text-red-600 ml-10">
+                {errors[`options.${index}.region`] || errors[`options.${index}.region.x`]}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
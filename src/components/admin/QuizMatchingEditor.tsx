@@ -0,0 +1,86 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Trash2, ArrowRight } from 'lucide-react';
+import type { QuizOptionInput } from '@/lib/validations/quiz';
+
+interface QuizMatchingEditorProps {
+  options: QuizOptionInput[];
+  onChange: (options: QuizOptionInput[]) => void;
+  min: number;
+  max: number;
+  errors: Record<string, string>;
+}
+
+/**
+ * Editor for matching questions: each item and the text it pairs with
+ * Items can share a match (e.g. several controls of the same category)
+ */
+export function QuizMatchingEditor({ options, onChange, min, max, errors }: QuizMatchingEditorProps) {
+  const updatePair = (index: number, update: Partial<QuizOptionInput>) => {
+    onChange(options.map((option, i) => (i === index ? { ...option, ...update } : option)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-slate-700 font-semibold">
+          Pairs <span className="text-red-500">*</span>
+          <span className="text-xs text-slate-500 ml-2 font-normal">({min}-{max} pairs)</span>
+        </Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...options, { text: '', match: '', isCorrect: false }])}
+          disabled={options.length >= max}
+          className="text-purple-600 border-purple-300 hover:bg-purple-50"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Pair
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {options.map((option, index) => (
+          <div key={index} className="p-3 rounded-lg border border-slate-200 bg-slate-50 space-y-1">
+            <div className="flex items-start gap-2">
+              <Badge variant="outline" className="mt-2 flex-shrink-0">
+                {index + 1}
+              </Badge>
+              <Input
+                value={option.text}
+                onChange={(e) => updatePair(index, { text: e.target.value })}
+                placeholder="Item (e.g. Bell-LaPadula)"
+                className="flex-1 bg-white"
+              />
+              <ArrowRight className="w-4 h-4 mt-3 text-slate-400 flex-shrink-0" />
+              <Input
+                value={option.match ?? ''}
+                onChange={(e) => updatePair(index, { match: e.target.value })}
+                placeholder="Matches (e.g. Confidentiality)"
+                className="flex-1 bg-white"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(options.filter((_, i) => i !== index))}
+                disabled={options.length <= min}
+                className="text-red-600 hover:text-red-800 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            {errors[`options.${index}.match`] && (
+              <p className="text-sm text-red-600 ml-10">{errors[`options.${index}.match`]}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import type { QuizOptionInput } from '@/lib/validations/quiz';
+
+interface QuizOrderingEditorProps {
+  options: QuizOptionInput[];
+  onChange: (options: QuizOptionInput[]) => void;
+  min: number;
+  max: number;
+}
+
+/**
+ * Editor for ordering questions: items are entered in the correct order
+ */
+export function QuizOrderingEditor({ options, onChange, min, max }: QuizOrderingEditorProps) {
+  const move = (from: number, to: number) => {
+    const next = [...options];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-slate-700 font-semibold">
+          Items in Correct Order <span className="text-red-500">*</span>
+          <span className="text-xs text-slate-500 ml-2 font-normal">({min}-{max} items, shown shuffled)</span>
+        </Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...options, { text: '', isCorrect: false }])}
+          disabled={options.length >= max}
+          className="text-purple-600 border-purple-300 hover:bg-purple-50"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Item
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {options.map((option, index) => (
+          <div key={index} className="flex items-start gap-2 p-3 rounded-lg border border-slate-200 bg-slate-50">
+            <Badge variant="outline" className="mt-2 flex-shrink-0">
+              {index + 1}
+            </Badge>
+            <Input
+              value={option.text}
+              onChange={(e) =>
+                onChange(options.map((item, i) => (i === index ? { ...item, text: e.target.value } : item)))
+              }
+              placeholder={`Item ${index + 1} text...`}
+              className="flex-1 bg-white"
+            />
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => move(index, index - 1)}
+                disabled={index === 0}
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => move(index, index + 1)}
+                disabled={index === options.length - 1}
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(options.filter((_, i) => i !== index))}
+                disabled={options.length <= min}
+                className="text-red-600 hover:text-red-800 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
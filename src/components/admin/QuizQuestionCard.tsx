@@ -13,16 +13,25 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { Eye, Edit, Trash2, ChevronUp } from 'lucide-react';
+import { Eye, Edit, Trash2, ChevronUp, History, ClipboardCheck } from 'lucide-react';
+import { getQuestionType, QUIZ_QUESTION_TYPE_LABELS, type HotspotRegion } from '@/lib/quiz/question-types';
+import { ITEM_FLAG_LABELS, type ItemStats } from '@/lib/quiz/item-analysis';
+import type { ContentStatus } from '@/lib/editorial/workflow';
+import { ContentStatusBadge } from './ContentStatusBadge';
 
 interface QuizOption {
+  id?: string;
   text: string;
   isCorrect: boolean;
+  match?: string;
+  region?: HotspotRegion;
 }
 
 interface QuizQuestion {
   id: string;
   questionText: string;
+  questionType?: string;
+  imageUrl?: string | null;
   options: QuizOption[];
   explanation: string | null;
   eliminationTactics: Record<string, string> | null;
@@ -33,6 +42,7 @@ interface QuizQuestion {
   createdAt: Date;
   createdBy: string;
   difficulty?: number | null;
+  status?: ContentStatus; // Deck quiz questions only; a flashcard's questions are reviewed with it
   subTopicId?: string | null;
   subTopic?: {
     id: string;
@@ -51,14 +61,34 @@ interface QuizQuestionCardProps {
   index: number;
   onEdit: (question: QuizQuestion) => void;
   onDelete: (questionId: string) => Promise<void>;
+  stats?: ItemStats;
+  onHistory?: (question: QuizQuestion) => void;
+  onReview?: (question: QuizQuestion) => void;
 }
 
-export function QuizQuestionCard({ question, index, onEdit, onDelete }: QuizQuestionCardProps) {
+export function QuizQuestionCard({ question, index, onEdit, onDelete, stats, onHistory, onReview }: QuizQuestionCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  const questionType = getQuestionType(question.questionType);
   const correctCount = question.options.filter((o) => o.isCorrect).length;
+  const isKeyedByCorrectFlag = questionType !== 'ordering' && questionType !== 'matching';
+  const optionNoun = { single_choice: 'options', multi_select: 'options', ordering: 'items', matching: 'pairs', hotspot: 'regions' }[questionType];
+
+  // What the answer key looks like for an option of this question type
+  const describeOption = (option: QuizOption) => {
+    if (questionType === 'matching') return `${option.text} → ${option.match ?? '?'}`;
+    if (questionType === 'hotspot' && option.region) {
+      const { x, y, width, height } = option.region;
+      return `${option.text} (x ${x}%, y ${y}%, ${width}% × ${height}%)`;
+    }
+    return option.text;
+  };
+
+  // Share of learners who chose an option, when item statistics are loaded
+  const getOptionShare = (option: QuizOption) =>
+    option.id ? stats?.options?.find((optionStats) => optionStats.id === option.id)?.share : undefined;
 
   const handleDelete = async () => {
     setIsDeleting(true);
@@ -78,10 +108,11 @@ export function QuizQuestionCard({ question, index, onEdit, onDelete }: QuizQues
         <CardContent className="p-4">
           <div className="flex items-start gap-4">
             {/* Question Number Badge */}
-            <div className="flex-shrink-0">
+            <div className="flex-shrink-0 flex flex-col items-center gap-1">
               <Badge variant="outline" className="bg-purple-50 text-purple-700 border-purple-300">
                 Q{index + 1}
               </Badge>
+              {question.status && <ContentStatusBadge status={question.status} />}
             </div>
 
             {/* Question Summary */}
@@ -100,13 +131,23 @@ export function QuizQuestionCard({ question, index, onEdit, onDelete }: QuizQues
                 {question.questionText}
               </p>
               <div className="flex flex-wrap gap-3 text-xs text-slate-600">
+                {questionType !== 'single_choice' && (
+                  <>
+                    <span className="font-medium text-purple-700">{QUIZ_QUESTION_TYPE_LABELS[questionType]}</span>
+                    <span className="text-slate-400">•</span>
+                  </>
+                )}
                 <span className="flex items-center gap-1">
-                  <span className="font-medium">{question.options.length}</span> options
-                </span>
-                <span className="text-slate-400">•</span>
-                <span className="flex items-center gap-1">
-                  <span className="font-medium text-green-700">{correctCount}</span> correct
+                  <span className="font-medium">{question.options.length}</span> {optionNoun}
                 </span>
+                {isKeyedByCorrectFlag && (
+                  <>
+                    <span className="text-slate-400">•</span>
+                    <span className="flex items-center gap-1">
+                      <span className="font-medium text-green-700">{correctCount}</span> correct
+                    </span>
+                  </>
+                )}
                 {question.explanation && (
                   <>
                     <span className="text-slate-400">•</span>
@@ -120,6 +161,30 @@ export function QuizQuestionCard({ question, index, onEdit, onDelete }: QuizQues
                   </>
                 )}
               </div>
+              {stats && stats.responses > 0 && (
+                <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-slate-600">
+                  <span title="Share of answers that were correct (p-value)">
+                    <span className="font-medium">{Math.round((stats.pValue ?? 0) * 100)}%</span> correct
+                  </span>
+                  <span className="text-slate-400">•</span>
+                  <span title="Point-biserial correlation with the learner's score on the rest of the deck">
+                    r<sub>pb</sub> <span className="font-medium">{stats.discrimination?.toFixed(2) ?? '–'}</span>
+                  </span>
+                  {stats.medianSeconds !== null && (
+                    <>
+                      <span className="text-slate-400">•</span>
+                      <span>{Math.round(stats.medianSeconds)}s median</span>
+                    </>
+                  )}
+                  <span className="text-slate-400">•</span>
+                  <span>{stats.responses} {stats.responses === 1 ? 'answer' : 'answers'}</span>
+                  {stats.flags.map((flag) => (
+                    <Badge key={flag} variant="outline" className="bg-amber-50 text-amber-800 border-amber-300 text-xs">
+                      {ITEM_FLAG_LABELS[flag]}
+                    </Badge>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Actions */}
@@ -151,6 +216,30 @@ export function QuizQuestionCard({ question, index, onEdit, onDelete }: QuizQues
                 <Edit className="w-4 h-4" />
               </Button>
 
+              {onReview && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onReview(question)}
+                  className="text-slate-600 hover:text-slate-800"
+                  title="Review"
+                >
+                  <ClipboardCheck className="w-4 h-4" />
+                </Button>
+              )}
+
+              {onHistory && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onHistory(question)}
+                  className="text-slate-600 hover:text-slate-800"
+                  title="Revision history"
+                >
+                  <History className="w-4 h-4" />
+                </Button>
+              )}
+
               <Button
                 variant="ghost"
                 size="sm"
@@ -173,13 +262,25 @@ export function QuizQuestionCard({ question, index, onEdit, onDelete }: QuizQues
                   <p className="text-slate-600 leading-relaxed">{question.questionText}</p>
                 </div>
 
+                {/* Hotspot Image */}
+                {question.imageUrl && (
+                  <div>
+                    <span className="font-semibold text-slate-700 block mb-2">Image:</span>
+                    <a href={question.imageUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline break-all">
+                      {question.imageUrl}
+                    </a>
+                  </div>
+                )}
+
                 {/* Options List */}
                 <div>
-                  <span className="font-semibold text-slate-700 block mb-2">Options:</span>
+                  <span className="font-semibold text-slate-700 block mb-2">
+                    {questionType === 'ordering' ? 'Items (in correct order):' : questionType === 'matching' ? 'Pairs:' : questionType === 'hotspot' ? 'Regions:' : 'Options:'}
+                  </span>
                   <ul className="space-y-2">
                     {question.options.map((option, idx) => (
                       <li key={idx} className="flex items-start gap-3">
-                        {option.isCorrect ? (
+                        {isKeyedByCorrectFlag && option.isCorrect ? (
                           <Badge className="bg-green-100 text-green-800 border-green-300 flex-shrink-0">
                             ✓
                           </Badge>
@@ -191,9 +292,18 @@ export function QuizQuestionCard({ question, index, onEdit, onDelete }: QuizQues
                             {idx + 1}
                           </Badge>
                         )}
-                        <span className={option.isCorrect ? 'font-medium text-slate-800' : 'text-slate-600'}>
-                          {option.text}
+                        <span className={isKeyedByCorrectFlag && option.isCorrect ? 'font-medium text-slate-800' : 'text-slate-600'}>
+                          {describeOption(option)}
                         </span>
+                        {getOptionShare(option) !== undefined && (
+                          <span
+                            className={`ml-auto text-xs flex-shrink-0 ${
+                              option.id && stats?.deadDistractorIds.includes(option.id) ? 'text-amber-700' : 'text-slate-500'
+                            }`}
+                          >
+                            {Math.round(getOptionShare(option)! * 100)}% chose
+                          </span>
+                        )}
                       </li>
                     ))}
                   </ul>
@@ -4,7 +4,6 @@ import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -17,19 +16,34 @@ import {
 } from '@/components/ui/dialog';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Plus, Trash2, ChevronDown, ChevronUp, CheckCircle2, XCircle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown, ChevronUp, CheckCircle2, XCircle } from 'lucide-react';
+import { QuizChoiceOptionsEditor } from './QuizChoiceOptionsEditor';
+import { QuizOrderingEditor } from './QuizOrderingEditor';
+import { QuizMatchingEditor } from './QuizMatchingEditor';
+import { QuizHotspotEditor } from './QuizHotspotEditor';
 import { quizQuestionUpdateSchema, deckQuizQuestionUpdateSchema } from '@/lib/validations/quiz';
-import type { QuizQuestionUpdate, DeckQuizQuestionUpdate } from '@/lib/validations/quiz';
-
-interface QuizOption {
-  text: string;
-  isCorrect: boolean;
-}
+import {
+  getQuestionType,
+  QUIZ_OPTION_LIMITS,
+  QUIZ_QUESTION_TYPES,
+  QUIZ_QUESTION_TYPE_LABELS,
+  type QuizQuestionType,
+} from '@/lib/quiz/question-types';
+import type {
+  QuizOptionInput,
+  QuizQuestionUpdate,
+  DeckQuizQuestionUpdate,
+  QuizQuestionUpdateInput,
+  DeckQuizQuestionUpdateInput,
+} from '@/lib/validations/quiz';
 
 interface QuizQuestion {
   id: string;
   questionText: string;
-  options: QuizOption[];
+  questionType?: string;
+  imageUrl?: string | null;
+  options: QuizOptionInput[]; // Persistent option ids are kept; new options get one when validated
   explanation: string | null;
   eliminationTactics: Record<string, string> | null;
   correctAnswerWithJustification: Record<string, string> | null;
@@ -60,7 +74,9 @@ export function QuizQuestionEditDialog({
 }: QuizQuestionEditDialogProps) {
   // Form state
   const [questionText, setQuestionText] = useState('');
-  const [options, setOptions] = useState<QuizOption[]>([
+  const [questionType, setQuestionType] = useState<QuizQuestionType>('single_choice');
+  const [imageUrl, setImageUrl] = useState('');
+  const [options, setOptions] = useState<QuizOptionInput[]>([
     { text: '', isCorrect: false },
     { text: '', isCorrect: false },
   ]);
@@ -82,6 +98,8 @@ export function QuizQuestionEditDialog({
   useEffect(() => {
     if (question && isOpen) {
       setQuestionText(question.questionText);
+      setQuestionType(getQuestionType(question.questionType));
+      setImageUrl(question.imageUrl || '');
       setOptions(question.options);
       setExplanation(question.explanation || '');
       setDifficulty(question.difficulty || null);
@@ -135,35 +153,17 @@ export function QuizQuestionEditDialog({
     }
   };
 
-  // Add option
-  const handleAddOption = () => {
-    if (options.length < 6) {
-      setOptions([...options, { text: '', isCorrect: false }]);
-      setIsDirty(true);
-    }
-  };
-
-  // Remove option
-  const handleRemoveOption = (index: number) => {
-    if (options.length > 2) {
-      setOptions(options.filter((_, i) => i !== index));
-      setIsDirty(true);
-    }
-  };
+  const limits = QUIZ_OPTION_LIMITS[questionType];
 
-  // Update option text
-  const handleOptionTextChange = (index: number, text: string) => {
-    const updated = [...options];
-    updated[index] = { ...updated[index], text };
+  // Replace the options from a type editor
+  const handleOptionsChange = (updated: QuizOptionInput[]) => {
     setOptions(updated);
     setIsDirty(true);
   };
 
-  // Toggle option correctness
-  const handleOptionCorrectChange = (index: number, isCorrect: boolean) => {
-    const updated = [...options];
-    updated[index] = { ...updated[index], isCorrect };
-    setOptions(updated);
+  // Switching type keeps the option texts; the type's own rules are checked on save
+  const handleQuestionTypeChange = (type: QuizQuestionType) => {
+    setQuestionType(type);
     setIsDirty(true);
   };
 
@@ -172,8 +172,10 @@ export function QuizQuestionEditDialog({
     setErrors({});
 
     // Prepare data
-    const data: QuizQuestionUpdate | DeckQuizQuestionUpdate = {
+    const data: QuizQuestionUpdateInput | DeckQuizQuestionUpdateInput = {
+      questionType,
       questionText,
+      imageUrl: questionType === 'hotspot' ? imageUrl.trim() || undefined : null,
       options,
       explanation: explanation.trim() || undefined,
       eliminationTactics: parseJSONSafe(eliminationTactics),
@@ -184,7 +186,7 @@ export function QuizQuestionEditDialog({
 
     // Add difficulty for deck quizzes
     if (isDeckQuiz) {
-      (data as DeckQuizQuestionUpdate).difficulty = difficulty;
+      (data as DeckQuizQuestionUpdateInput).difficulty = difficulty;
     }
 
     // Validate with Zod
@@ -225,9 +227,9 @@ export function QuizQuestionEditDialog({
       return;
     }
 
-    // Save
+    // Save the validated data so existing option ids are kept and new options get one
     if (question) {
-      await onSave(question.id, data);
+      await onSave(question.id, validation.data);
       setIsDirty(false);
     }
   };
@@ -278,73 +280,53 @@ export function QuizQuestionEditDialog({
             )}
           </div>
 
-          {/* Options */}
-          <div className="space-y-3">
-            <div className="flex items-center justify-between">
-              <Label className="text-slate-700 font-semibold">
-                Options <span className="text-red-500">*</span>
-                <span className="text-xs text-slate-500 ml-2 font-normal">(2-6 options)</span>
-              </Label>
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={handleAddOption}
-                disabled={options.length >= 6}
-                className="text-purple-600 border-purple-300 hover:bg-purple-50"
-              >
-                <Plus className="w-4 h-4 mr-1" />
-                Add Option
-              </Button>
-            </div>
+          {/* Question Type */}
+          <div className="space-y-2">
+            <Label className="text-slate-700 font-semibold">Question Type</Label>
+            <Select value={questionType} onValueChange={(value) => handleQuestionTypeChange(value as QuizQuestionType)}>
+              <SelectTrigger className="w-full border-slate-300">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QUIZ_QUESTION_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {QUIZ_QUESTION_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
 
-            <div className="space-y-2">
-              {options.map((option, index) => (
-                <div
-                  key={index}
-                  className={`flex items-start gap-2 p-3 rounded-lg border ${
-                    option.isCorrect ? 'border-green-300 bg-green-50' : 'border-slate-200 bg-slate-50'
-                  }`}
-                >
-                  <Badge variant="outline" className="mt-2 flex-shrink-0">
-                    {index + 1}
-                  </Badge>
-                  <Input
-                    value={option.text}
-                    onChange={(e) => handleOptionTextChange(index, e.target.value)}
-                    placeholder={`Option ${index + 1} text...`}
-                    className="flex-1 bg-white"
-                  />
-                  <div className="flex items-center gap-2 flex-shrink-0">
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id={`option-${index}`}
-                        checked={option.isCorrect}
-                        onCheckedChange={(checked) =>
-                          handleOptionCorrectChange(index, checked === true)
-                        }
-                      />
-                      <Label
-                        htmlFor={`option-${index}`}
-                        className="text-sm text-slate-700 cursor-pointer whitespace-nowrap"
-                      >
-                        Correct
-                      </Label>
-                    </div>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleRemoveOption(index)}
-                      disabled={options.length <= 2}
-                      className="text-red-600 hover:text-red-800 hover:bg-red-50"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
-                  </div>
-                </div>
-              ))}
-            </div>
+          {/* Options, Items, Pairs or Regions */}
+          <div className="space-y-3">
+            {(questionType === 'single_choice' || questionType === 'multi_select') && (
+              <QuizChoiceOptionsEditor options={options} onChange={handleOptionsChange} min={limits.min} max={limits.max} />
+            )}
+            {questionType === 'ordering' && (
+              <QuizOrderingEditor options={options} onChange={handleOptionsChange} min={limits.min} max={limits.max} />
+            )}
+            {questionType === 'matching' && (
+              <QuizMatchingEditor
+                options={options}
+                onChange={handleOptionsChange}
+                min={limits.min}
+                max={limits.max}
+                errors={errors}
+              />
+            )}
+            {questionType === 'hotspot' && (
+              <QuizHotspotEditor
+                imageUrl={imageUrl}
+                onImageUrlChange={(value) => {
+                  setImageUrl(value);
+                  setIsDirty(true);
+                }}
+                options={options}
+                onChange={handleOptionsChange}
+                max={limits.max}
+                errors={errors}
+              />
+            )}
 
             {errors.options && <p className="text-sm text-red-600">{errors.options}</p>}
             {errors['options.0'] && <p className="text-sm text-red-600">{errors['options.0']}</p>}
@@ -6,15 +6,23 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { ClipboardList, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
 import { QuizQuestionCard } from './QuizQuestionCard';
+import type { HotspotRegion } from '@/lib/quiz/question-types';
+import type { ItemStats } from '@/lib/quiz/item-analysis';
+import type { ContentStatus } from '@/lib/editorial/workflow';
 
 interface QuizOption {
+  id?: string;
   text: string;
   isCorrect: boolean;
+  match?: string;
+  region?: HotspotRegion;
 }
 
 interface QuizQuestion {
   id: string;
   questionText: string;
+  questionType?: string;
+  imageUrl?: string | null;
   options: QuizOption[];
   explanation: string | null;
   eliminationTactics: Record<string, string> | null;
@@ -25,6 +33,7 @@ interface QuizQuestion {
   createdAt: Date;
   createdBy: string;
   difficulty?: number | null;
+  status?: ContentStatus;
 }
 
 interface QuizQuestionListProps {
@@ -33,6 +42,9 @@ interface QuizQuestionListProps {
   onDelete: (questionId: string) => Promise<void>;
   isLoading: boolean;
   emptyMessage?: string;
+  itemStats?: Record<string, ItemStats>; // Keyed by question id
+  onHistory?: (question: QuizQuestion) => void;
+  onReview?: (question: QuizQuestion) => void;
 }
 
 export function QuizQuestionList({
@@ -41,6 +53,9 @@ export function QuizQuestionList({
   onDelete,
   isLoading,
   emptyMessage = 'No quiz questions yet. Upload a JSON file or use AI to generate questions.',
+  itemStats,
+  onHistory,
+  onReview,
 }: QuizQuestionListProps) {
   const [isOpen, setIsOpen] = useState(false);
 
@@ -84,6 +99,9 @@ export function QuizQuestionList({
                 index={index}
                 onEdit={onEdit}
                 onDelete={onDelete}
+                stats={itemStats?.[question.id]}
+                onHistory={onHistory}
+                onReview={onReview}
               />
             ))}
           </div>
@@ -0,0 +1,34 @@
+'use client';
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import type { QuizUploadError } from '@/lib/quiz/formats';
+
+interface QuizUploadErrorsProps {
+  errors: QuizUploadError[];
+}
+
+/**
+ * The questions of an uploaded quiz file that could not be read, by row or line
+ */
+export function QuizUploadErrors({ errors }: QuizUploadErrorsProps) {
+  if (errors.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert className="bg-red-50 border-red-300">
+      <AlertDescription className="text-red-800 text-sm">
+        <p className="font-semibold mb-1">
+          {errors.length} question{errors.length !== 1 ? 's' : ''} could not be read and will not be uploaded:
+        </p>
+        <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+          {errors.map((error, index) => (
+            <li key={index}>
+              {error.location}: {error.message}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,498 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ClipboardCheck, Loader2, MessageSquarePlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { FormattedContent } from './FormattedContent';
+import { ContentStatusBadge } from './ContentStatusBadge';
+import { SNAPSHOT_FIELD_LABELS, formatFieldValue, type RevisionSnapshot } from '@/lib/revisions/diff';
+import {
+  WORKFLOW_ACTION_LABELS,
+  type ReviewableEntityType,
+  type ReviewCommentKind,
+  type WorkflowAction,
+  type WorkflowState,
+} from '@/lib/editorial/workflow';
+
+interface ReviewComment {
+  id: string;
+  kind: ReviewCommentKind;
+  field: string | null;
+  quote: string | null;
+  body: string;
+  authorId: string;
+  authorName: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+interface ReviewItem {
+  entityType: ReviewableEntityType;
+  entityId: string;
+  deckName: string;
+  title: string;
+  state: WorkflowState;
+  reviewerName: string | null;
+  submitterName: string | null;
+  submittedAt: string | null;
+  snapshot: RevisionSnapshot;
+  quizQuestions: RevisionSnapshot[];
+  comments: ReviewComment[];
+}
+
+interface Reviewer {
+  clerkUserId: string;
+  name: string | null;
+  email: string;
+}
+
+export interface ReviewTarget {
+  entityType: ReviewableEntityType;
+  entityId: string;
+  title: string;
+}
+
+interface ReviewItemDialogProps {
+  target: ReviewTarget | null;
+  onClose: () => void;
+  onChanged: () => void | Promise<void>;
+}
+
+// Fields shown to the reviewer, in reading order
+const REVIEW_FIELDS: Record<ReviewableEntityType, string[]> = {
+  flashcard: ['question', 'answer', 'explanation', 'media'],
+  deck_quiz_question: [
+    'questionText',
+    'questionType',
+    'imageUrl',
+    'options',
+    'explanation',
+    'eliminationTactics',
+    'correctAnswerWithJustification',
+    'compareRemainingOptionsWithJustification',
+    'correctOptionsJustification',
+    'difficulty',
+  ],
+};
+
+// Formatted text fields; everything else is shown as its raw value
+const RICH_TEXT_FIELDS = new Set(['question', 'answer', 'explanation', 'questionText']);
+
+const COMMENT_KIND_STYLES: Record<ReviewCommentKind, string> = {
+  comment: 'border-slate-200 bg-white',
+  approval: 'border-green-300 bg-green-50',
+  changes_requested: 'border-amber-300 bg-amber-50',
+};
+
+const ACTION_STYLES: Record<WorkflowAction, string> = {
+  submit: 'bg-blue-500 hover:bg-blue-600 text-white',
+  withdraw: 'border-slate-300 text-slate-700 hover:bg-slate-50',
+  approve: 'bg-green-600 hover:bg-green-700 text-white',
+  request_changes: 'bg-amber-500 hover:bg-amber-600 text-white',
+  publish: 'bg-green-600 hover:bg-green-700 text-white',
+  unpublish: 'border-slate-300 text-slate-700 hover:bg-slate-50',
+};
+
+const ACTION_SUCCESS: Record<WorkflowAction, string> = {
+  submit: 'Submitted for review',
+  withdraw: 'Withdrawn from review',
+  approve: 'Approved',
+  request_changes: 'Sent back to the author',
+  publish: 'Published',
+  unpublish: 'Unpublished',
+};
+
+const OUTLINE_ACTIONS = new Set<WorkflowAction>(['withdraw', 'unpublish']);
+
+function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+export function ReviewItemDialog({ target, onClose, onChanged }: ReviewItemDialogProps) {
+  const [item, setItem] = useState<ReviewItem | null>(null);
+  const [availableActions, setAvailableActions] = useState<WorkflowAction[]>([]);
+  const [reviewers, setReviewers] = useState<Reviewer[]>([]);
+  const [reviewerId, setReviewerId] = useState('');
+  const [note, setNote] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingAction, setPendingAction] = useState<WorkflowAction | null>(null);
+  const [commentField, setCommentField] = useState<string | null>(null);
+  const [commentQuote, setCommentQuote] = useState('');
+  const [commentBody, setCommentBody] = useState('');
+  const [isCommentOpen, setIsCommentOpen] = useState(false);
+  const [isPostingComment, setIsPostingComment] = useState(false);
+
+  const loadItem = useCallback(async () => {
+    if (!target) return;
+
+    try {
+      const res = await fetch(`/api/admin/reviews/${target.entityType}/${target.entityId}`);
+      if (!res.ok) throw new Error('Failed to load review item');
+      const data = await res.json();
+      setItem(data.item);
+      setAvailableActions(data.availableActions || []);
+
+      if (data.availableActions?.includes('submit')) {
+        const reviewersRes = await fetch('/api/admin/reviews/reviewers');
+        if (reviewersRes.ok) {
+          const reviewersData = await reviewersRes.json();
+          setReviewers(reviewersData.reviewers || []);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading review item:', error);
+      toast.error('Failed to load review item');
+      setItem(null);
+    }
+  }, [target]);
+
+  useEffect(() => {
+    if (!target) return;
+
+    setItem(null);
+    setNote('');
+    setReviewerId('');
+    setIsCommentOpen(false);
+    setIsLoading(true);
+    loadItem().finally(() => setIsLoading(false));
+  }, [target, loadItem]);
+
+  const handleAction = async (action: WorkflowAction) => {
+    if (!target) return;
+
+    setPendingAction(action);
+    try {
+      const res = await fetch(`/api/admin/reviews/${target.entityType}/${target.entityId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          reviewerId: action === 'submit' ? reviewerId : undefined,
+          note: action === 'approve' || action === 'request_changes' ? note.trim() || undefined : undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update status');
+      }
+      toast.success(ACTION_SUCCESS[action]);
+      setNote('');
+      await loadItem();
+      await onChanged();
+    } catch (error) {
+      console.error('Error updating workflow status:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update status');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const openComment = (field: string | null) => {
+    // Text selected inside the field becomes the quoted passage
+    const selection = typeof window !== 'undefined' ? window.getSelection()?.toString().trim() ?? '' : '';
+    setCommentField(field);
+    setCommentQuote(field ? selection.slice(0, 1000) : '');
+    setCommentBody('');
+    setIsCommentOpen(true);
+  };
+
+  const handlePostComment = async () => {
+    if (!target || !commentBody.trim()) return;
+
+    setIsPostingComment(true);
+    try {
+      const res = await fetch(`/api/admin/reviews/${target.entityType}/${target.entityId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          body: commentBody.trim(),
+          field: commentField,
+          quote: commentQuote || null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to add comment');
+      }
+      setIsCommentOpen(false);
+      setCommentBody('');
+      await loadItem();
+      await onChanged();
+    } catch (error) {
+      console.error('Error adding review comment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add comment');
+    } finally {
+      setIsPostingComment(false);
+    }
+  };
+
+  const handleResolve = async (comment: ReviewComment) => {
+    try {
+      const res = await fetch(`/api/admin/review-comments/${comment.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolved: comment.resolvedAt === null }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update comment');
+      }
+      await loadItem();
+      await onChanged();
+    } catch (error) {
+      console.error('Error updating review comment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update comment');
+    }
+  };
+
+  const renderComment = (comment: ReviewComment) => (
+    <li
+      key={comment.id}
+      className={`rounded-lg border p-3 text-sm ${COMMENT_KIND_STYLES[comment.kind]} ${
+        comment.resolvedAt ? 'opacity-60' : ''
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="font-semibold text-slate-800 truncate">{comment.authorName ?? comment.authorId}</span>
+          {comment.kind !== 'comment' && (
+            <Badge variant="outline" className="text-xs">
+              {comment.kind === 'approval' ? 'Approved' : 'Changes requested'}
+            </Badge>
+          )}
+          <span className="text-xs text-slate-500">{new Date(comment.createdAt).toLocaleString()}</span>
+        </div>
+        {comment.kind === 'comment' && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => handleResolve(comment)}
+            className="h-7 text-xs text-slate-600"
+          >
+            {comment.resolvedAt ? 'Reopen' : 'Resolve'}
+          </Button>
+        )}
+      </div>
+      {comment.quote && (
+        <blockquote className="border-l-2 border-slate-300 pl-2 mb-1 text-xs italic text-slate-600">
+          {comment.quote}
+        </blockquote>
+      )}
+      <p className="whitespace-pre-wrap text-slate-700">{comment.body}</p>
+    </li>
+  );
+
+  const renderCommentForm = (field: string | null) =>
+    isCommentOpen && commentField === field ? (
+      <div className="mt-2 space-y-2">
+        {commentQuote && (
+          <blockquote className="border-l-2 border-blue-300 pl-2 text-xs italic text-slate-600">
+            {commentQuote}
+          </blockquote>
+        )}
+        <Textarea
+          value={commentBody}
+          onChange={(e) => setCommentBody(e.target.value)}
+          placeholder="Leave a comment for the author..."
+          rows={3}
+          maxLength={5000}
+          className="bg-white border-slate-300"
+        />
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="outline" onClick={() => setIsCommentOpen(false)} className="border-slate-300">
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={handlePostComment}
+            disabled={isPostingComment || !commentBody.trim()}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {isPostingComment && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Comment
+          </Button>
+        </div>
+      </div>
+    ) : null;
+
+  const fields = item
+    ? REVIEW_FIELDS[item.entityType].filter((field) => !isEmptyValue(item.snapshot[field]))
+    : [];
+  const generalComments = item
+    ? item.comments.filter((comment) => !comment.field || !fields.includes(comment.field))
+    : [];
+  const needsNote = availableActions.includes('approve') || availableActions.includes('request_changes');
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-white border-slate-200 text-slate-900 max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5 text-slate-600" />
+            Review
+          </DialogTitle>
+          <DialogDescription className="text-slate-600">
+            {item ? `${item.deckName}: ${item.title}` : target?.title ?? ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !item ? (
+          <div className="flex justify-center items-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-slate-500" />
+            <span className="ml-2 text-sm text-slate-600">Loading...</span>
+          </div>
+        ) : (
+          <div className="space-y-5">
+            {/* Workflow state */}
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-slate-600">
+              <ContentStatusBadge status={item.state.status} />
+              {item.reviewerName && <span>Reviewer: {item.reviewerName}</span>}
+              {item.submitterName && <span>Submitted by: {item.submitterName}</span>}
+              {item.submittedAt && <span>{new Date(item.submittedAt).toLocaleString()}</span>}
+            </div>
+
+            {/* Content with comments anchored to each field */}
+            {fields.map((field) => {
+              const value = item.snapshot[field];
+              const fieldComments = item.comments.filter((comment) => comment.field === field);
+              return (
+                <div key={field}>
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-semibold text-slate-700 text-sm">
+                      {SNAPSHOT_FIELD_LABELS[field] ?? field}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => openComment(field)}
+                      className="h-7 text-xs text-slate-600"
+                      title="Select text in this field first to quote it"
+                    >
+                      <MessageSquarePlus className="w-3.5 h-3.5 mr-1" />
+                      Comment
+                    </Button>
+                  </div>
+                  <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-sm">
+                    {RICH_TEXT_FIELDS.has(field) && typeof value === 'string' ? (
+                      <FormattedContent html={value} />
+                    ) : (
+                      <pre className="whitespace-pre-wrap break-words font-sans">{formatFieldValue(value)}</pre>
+                    )}
+                  </div>
+                  {fieldComments.length > 0 && <ul className="mt-2 space-y-2">{fieldComments.map(renderComment)}</ul>}
+                  {renderCommentForm(field)}
+                </div>
+              );
+            })}
+
+            {item.quizQuestions.length > 0 && (
+              <div>
+                <span className="font-semibold text-slate-700 text-sm block mb-1">
+                  Quiz questions ({item.quizQuestions.length})
+                </span>
+                <ol className="space-y-2 list-decimal list-inside">
+                  {item.quizQuestions.map((question, index) => (
+                    <li key={index} className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-sm">
+                      <span className="font-medium text-slate-800">{formatFieldValue(question.questionText)}</span>
+                      <pre className="whitespace-pre-wrap break-words font-sans text-xs text-slate-600 mt-1">
+                        {formatFieldValue(question.options)}
+                      </pre>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            {/* Discussion */}
+            <div className="border-t border-slate-200 pt-4">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-semibold text-slate-700 text-sm">Discussion</span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => openComment(null)}
+                  className="h-7 text-xs text-slate-600"
+                >
+                  <MessageSquarePlus className="w-3.5 h-3.5 mr-1" />
+                  Comment
+                </Button>
+              </div>
+              {generalComments.length === 0 && !(isCommentOpen && commentField === null) ? (
+                <p className="text-xs text-slate-500">No general comments.</p>
+              ) : (
+                <ul className="space-y-2">{generalComments.map(renderComment)}</ul>
+              )}
+              {renderCommentForm(null)}
+            </div>
+
+            {/* Workflow actions */}
+            {availableActions.length === 0 ? (
+              <Alert className="bg-slate-50 border-slate-300">
+                <AlertDescription className="text-slate-600 text-sm">
+                  {item.state.status === 'in_review'
+                    ? 'Waiting for the assigned reviewer.'
+                    : 'There is nothing for you to do on this item.'}
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <div className="border-t border-slate-200 pt-4 space-y-3">
+                {availableActions.includes('submit') && (
+                  <div className="flex items-center gap-2 text-sm text-slate-600">
+                    <span>Reviewer</span>
+                    <select
+                      value={reviewerId}
+                      onChange={(e) => setReviewerId(e.target.value)}
+                      className="border border-slate-300 rounded px-2 py-1 text-sm bg-white"
+                    >
+                      <option value="">Choose an admin...</option>
+                      {reviewers.map((reviewer) => (
+                        <option key={reviewer.clerkUserId} value={reviewer.clerkUserId}>
+                          {reviewer.name ?? reviewer.email}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {needsNote && (
+                  <Textarea
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="Note for the author (optional)"
+                    rows={2}
+                    maxLength={2000}
+                    className="bg-white border-slate-300"
+                  />
+                )}
+                <div className="flex flex-wrap justify-end gap-2">
+                  {availableActions.map((action) => (
+                    <Button
+                      key={action}
+                      variant={OUTLINE_ACTIONS.has(action) ? 'outline' : 'default'}
+                      onClick={() => handleAction(action)}
+                      disabled={pendingAction !== null || (action === 'submit' && !reviewerId)}
+                      className={ACTION_STYLES[action]}
+                    >
+                      {pendingAction === action && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      {WORKFLOW_ACTION_LABELS[action]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  REVISION_ENTITY_LABELS,
+  SNAPSHOT_FIELD_LABELS,
+  diffSnapshots,
+  diffText,
+  formatFieldValue,
+  type RevisionAction,
+  type RevisionEntityType,
+  type RevisionSnapshot,
+} from '@/lib/revisions/diff';
+
+interface Revision {
+  id: string;
+  revisionNumber: number;
+  action: RevisionAction;
+  snapshot: RevisionSnapshot;
+  restoredFromId: string | null;
+  authorName: string | null;
+  authorId: string;
+  createdAt: string;
+}
+
+export interface RevisionTarget {
+  entityType: RevisionEntityType;
+  entityId: string;
+  title: string;
+}
+
+interface RevisionHistoryDialogProps {
+  deckId: string;
+  target: RevisionTarget | null;
+  onClose: () => void;
+  onRestored: () => void | Promise<void>;
+}
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  baseline: 'Original',
+  create: 'Created',
+  update: 'Edited',
+  delete: 'Deleted',
+  restore: 'Restored',
+};
+
+const ACTION_STYLES: Record<RevisionAction, string> = {
+  baseline: 'bg-slate-50 text-slate-700 border-slate-300',
+  create: 'bg-green-50 text-green-700 border-green-300',
+  update: 'bg-blue-50 text-blue-700 border-blue-300',
+  delete: 'bg-red-50 text-red-700 border-red-300',
+  restore: 'bg-purple-50 text-purple-700 border-purple-300',
+};
+
+export function RevisionHistoryDialog({ deckId, target, onClose, onRestored }: RevisionHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!target) return;
+
+    const loadRevisions = async () => {
+      setIsLoading(true);
+      try {
+        const query = new URLSearchParams({ entityType: target.entityType, entityId: target.entityId });
+        const res = await fetch(`/api/admin/decks/${deckId}/revisions?${query}`);
+        if (!res.ok) throw new Error('Failed to load revisions');
+        const data = await res.json();
+        const loaded: Revision[] = data.revisions || [];
+        setRevisions(loaded);
+        // Newest revision against the one before it
+        setSelectedId(loaded[0]?.id ?? null);
+        setCompareId(loaded[1]?.id ?? null);
+      } catch (error) {
+        console.error('Error loading revisions:', error);
+        toast.error('Failed to load revision history');
+        setRevisions([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRevisions();
+  }, [deckId, target]);
+
+  const selected = revisions.find((revision) => revision.id === selectedId) ?? null;
+  const compare = revisions.find((revision) => revision.id === compareId) ?? null;
+  const changes = selected ? diffSnapshots(compare?.snapshot ?? null, selected.snapshot) : [];
+  const isCurrent = selected !== null && selected.id === revisions[0]?.id && selected.action !== 'delete';
+
+  const selectRevision = (revision: Revision) => {
+    setSelectedId(revision.id);
+    // Compare with the revision just before it unless another one is picked
+    const index = revisions.findIndex((candidate) => candidate.id === revision.id);
+    setCompareId(revisions[index + 1]?.id ?? null);
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setIsRestoring(true);
+    try {
+      const res = await fetch(`/api/admin/revisions/${selected.id}/restore`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to restore revision');
+      }
+      toast.success(`Restored revision ${selected.revisionNumber}`);
+      await onRestored();
+      onClose();
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore revision');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-white border-slate-200 text-slate-900 max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5 text-slate-600" />
+            Revision History
+          </DialogTitle>
+          <DialogDescription className="text-slate-600">
+            {target ? `${REVISION_ENTITY_LABELS[target.entityType]}: ${target.title}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-slate-500" />
+            <span className="ml-2 text-sm text-slate-600">Loading revisions...</span>
+          </div>
+        ) : revisions.length === 0 ? (
+          <Alert className="bg-slate-50 border-slate-300">
+            <AlertDescription className="text-slate-600 text-sm">
+              No revisions yet. A revision is recorded every time this item is changed.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-4">
+            {/* Revision list */}
+            <ul className="space-y-2 md:max-h-[60vh] md:overflow-y-auto">
+              {revisions.map((revision) => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    onClick={() => selectRevision(revision)}
+                    className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                      revision.id === selectedId
+                        ? 'border-blue-400 bg-blue-50'
+                        : revision.id === compareId
+                          ? 'border-slate-400 bg-slate-50'
+                          : 'border-slate-200 hover:bg-slate-50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-semibold text-slate-800">#{revision.revisionNumber}</span>
+                      <Badge variant="outline" className={`text-xs ${ACTION_STYLES[revision.action]}`}>
+                        {ACTION_LABELS[revision.action]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-slate-600 mt-1 truncate">{revision.authorName ?? revision.authorId}</p>
+                    <p className="text-xs text-slate-500">{new Date(revision.createdAt).toLocaleString()}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Diff view */}
+            <div className="space-y-4 min-w-0">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-2 text-sm text-slate-600">
+                  <span>
+                    Revision #{selected?.revisionNumber} compared with
+                  </span>
+                  <select
+                    value={compareId ?? ''}
+                    onChange={(e) => setCompareId(e.target.value || null)}
+                    className="border border-slate-300 rounded px-2 py-1 text-sm bg-white"
+                  >
+                    <option value="">nothing (full content)</option>
+                    {revisions
+                      .filter((revision) => revision.id !== selectedId)
+                      .map((revision) => (
+                        <option key={revision.id} value={revision.id}>
+                          #{revision.revisionNumber} ({ACTION_LABELS[revision.action].toLowerCase()})
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                <Button
+                  onClick={handleRestore}
+                  disabled={!selected || isCurrent || isRestoring}
+                  className="bg-blue-500 hover:bg-blue-600 text-white"
+                  title={isCurrent ? 'This is the current content' : 'Restore this revision'}
+                >
+                  {isRestoring ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                  )}
+                  Restore #{selected?.revisionNumber}
+                </Button>
+              </div>
+
+              {selected?.action === 'delete' && (
+                <p className="text-xs text-slate-500">
+                  A deleted item keeps the content it had when it was deleted. Restoring it brings the item back.
+                </p>
+              )}
+
+              {changes.length === 0 ? (
+                <Alert className="bg-slate-50 border-slate-300">
+                  <AlertDescription className="text-slate-600 text-sm">
+                    No differences between these revisions.
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                changes.map((change) => (
+                  <div key={change.field}>
+                    <span className="font-semibold text-slate-700 text-sm block mb-1">
+                      {SNAPSHOT_FIELD_LABELS[change.field] ?? change.field}
+                    </span>
+                    <pre className="whitespace-pre-wrap break-words text-sm bg-slate-50 border border-slate-200 rounded-lg p-3 font-sans">
+                      {diffText(formatFieldValue(change.before), formatFieldValue(change.after)).map((segment, index) => (
+                        <span
+                          key={index}
+                          className={
+                            segment.type === 'added'
+                              ? 'bg-green-100 text-green-900'
+                              : segment.type === 'removed'
+                                ? 'bg-red-100 text-red-900 line-through'
+                                : 'text-slate-700'
+                          }
+                        >
+                          {segment.text}
+                        </span>
+                      ))}
+                    </pre>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, ChevronUp, History, Loader2 } from 'lucide-react';
+import { REVISION_ENTITY_LABELS, type RevisionAction, type RevisionEntityType } from '@/lib/revisions/diff';
+import type { RevisionTarget } from './RevisionHistoryDialog';
+
+interface RevisionedItem {
+  entityType: RevisionEntityType;
+  entityId: string;
+  title: string;
+  revisionCount: number;
+  lastAction: RevisionAction;
+  lastChangedAt: string;
+  lastAuthorName: string | null;
+  isDeleted: boolean;
+}
+
+interface RevisionHistoryPanelProps {
+  deckId: string;
+  onOpenHistory: (target: RevisionTarget) => void;
+  refreshKey: number; // Changes after a revision is restored
+}
+
+export function RevisionHistoryPanel({ deckId, onOpenHistory, refreshKey }: RevisionHistoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [items, setItems] = useState<RevisionedItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadItems = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/admin/decks/${deckId}/revisions`);
+      if (res.ok) {
+        const data = await res.json();
+        setItems(data.items || []);
+      }
+    } catch (error) {
+      console.error('Error loading revision history:', error);
+      setItems([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [deckId]);
+
+  // Load when opened, and again after a restore while open
+  useEffect(() => {
+    if (isOpen) {
+      loadItems();
+    }
+  }, [isOpen, loadItems, refreshKey]);
+
+  return (
+    <Card className="mb-6 border-slate-200">
+      <CardContent className="pt-6">
+        <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+          <CollapsibleTrigger className="w-full" asChild>
+            <div className="flex items-center justify-between cursor-pointer group">
+              <div className="flex items-center gap-3">
+                <History className="w-5 h-5 text-slate-600" />
+                <h2 className="text-lg font-semibold text-slate-800">Revision History</h2>
+              </div>
+              <div className="text-slate-500 group-hover:text-slate-700 transition-colors">
+                {isOpen ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+              </div>
+            </div>
+          </CollapsibleTrigger>
+
+          <CollapsibleContent className="mt-4">
+            {isLoading ? (
+              <div className="flex justify-center items-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-slate-500" />
+                <span className="ml-2 text-sm text-slate-600">Loading history...</span>
+              </div>
+            ) : items.length === 0 ? (
+              <Alert className="bg-slate-50 border-slate-300">
+                <AlertDescription className="text-slate-600 text-sm">
+                  No changes recorded yet. Edits to flashcards and quiz questions in this deck will appear here.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <ul className="space-y-2">
+                {items.map((item) => (
+                  <li
+                    key={`${item.entityType}-${item.entityId}`}
+                    className="flex items-center justify-between gap-4 p-3 rounded-lg border border-slate-200"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-slate-800 truncate">{item.title}</p>
+                      <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-slate-600">
+                        <span>{REVISION_ENTITY_LABELS[item.entityType]}</span>
+                        <span className="text-slate-400">•</span>
+                        <span>
+                          {item.revisionCount} {item.revisionCount === 1 ? 'revision' : 'revisions'}
+                        </span>
+                        <span className="text-slate-400">•</span>
+                        <span>
+                          {new Date(item.lastChangedAt).toLocaleString()}
+                          {item.lastAuthorName ? ` by ${item.lastAuthorName}` : ''}
+                        </span>
+                        {item.isDeleted && (
+                          <Badge variant="outline" className="bg-red-50 text-red-700 border-red-300 text-xs">
+                            Deleted
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onOpenHistory({ entityType: item.entityType, entityId: item.entityId, title: item.title })}
+                      className="flex-shrink-0 border-slate-300 text-slate-700 hover:bg-slate-50"
+                    >
+                      <History className="w-4 h-4 mr-1" />
+                      History
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,23 +5,19 @@ import { Button } from "@/components/ui/button";
 import { DialogFooter } from "@/components/ui/dialog";
 import { QuizProgressHeader } from "./QuizProgressHeader";
 import { QuizQuestionHeader } from "./QuizQuestionHeader";
-import { QuizOptionCard } from "./QuizOptionCard";
+import { QuizResponseInput } from "./QuizResponseInput";
 import { QuizFeedbackBanner } from "./QuizFeedbackBanner";
 import { QuizExplanationPanel } from "./QuizExplanationPanel";
 import { type Level } from "@/lib/gamification/xp-system";
+import { isResponseComplete, type QuizQuestionContent, type QuizResponse } from "@/lib/quiz/question-types";
 import FeedbackButton from "@/components/feedback/FeedbackButton";
 import FeedbackModal from "@/components/feedback/FeedbackModal";
 
-interface QuizOption {
-  text: string;
-  isCorrect: boolean;
-}
-
-interface QuizQuestion {
+// Option correctness and the rest of the answer key are revealed by the server after the answer is submitted
+interface QuizQuestion extends QuizQuestionContent {
   id: string;
   questionText: string;
-  options: QuizOption[];
-  explanation: string | null;
+  explanation?: string | null;
   eliminationTactics?: Record<string, string> | null;
   correctAnswerWithJustification?: Record<string, string> | null;
   compareRemainingOptionsWithJustification?: Record<string, string> | null;
@@ -36,8 +32,9 @@ interface QuizProgress {
 }
 
 interface AnswerState {
-  selectedOption: number | null;
+  response: QuizResponse | null;
   showExplanation: boolean;
+  isSubmitting?: boolean;
 }
 
 interface QuizStats {
@@ -50,7 +47,7 @@ interface QuizStats {
 }
 
 interface QuizHandlers {
-  onOptionSelect: (index: number) => void;
+  onResponseChange: (response: QuizResponse) => void;
   onSubmitAnswer: () => void;
   onNextQuestion: () => void;
 }
@@ -78,11 +75,11 @@ export function DeckQuizActiveView({
 }: DeckQuizActiveViewProps) {
   const [isFeedbackModalOpen, setIsFeedbackModalOpen] = useState(false);
   const { currentQuestionIndex, totalQuestions } = progress;
-  const { selectedOption, showExplanation } = answerState;
+  const { response, showExplanation, isSubmitting } = answerState;
   const { correctAnswers, currentStreak, maxStreak, totalXP, currentLevel, progressToNextLevel } = stats;
-  const { onOptionSelect, onSubmitAnswer, onNextQuestion } = handlers;
+  const { onResponseChange, onSubmitAnswer, onNextQuestion } = handlers;
 
-  const isAnswerCorrect = selectedOption !== null && currentQuestion.options[selectedOption].isCorrect;
+  const isAnswerCorrect = currentQuestion.isAnsweredCorrectly === true;
 
   return (
     <div className="space-y-6">
@@ -112,25 +109,15 @@ export function DeckQuizActiveView({
           questionNumber={currentQuestionIndex + 1}
         />
 
-        {/* Option Cards */}
-        <div className="space-y-4 mt-8">
-          {currentQuestion.options.map((option, index) => (
-            <QuizOptionCard
-              key={index}
-              option={option}
-              isSelected={selectedOption === index}
-              isCorrect={showExplanation && option.isCorrect}
-              isWrong={
-                showExplanation &&
-                selectedOption === index &&
-                !option.isCorrect
-              }
-              isDisabled={showExplanation}
-              onClick={() => onOptionSelect(index)}
-              accentColor="blue"
-            />
-          ))}
-        </div>
+        {/* Answer Input for the question type */}
+        <QuizResponseInput
+          question={currentQuestion}
+          response={response}
+          onChange={onResponseChange}
+          showAnswer={showExplanation}
+          isDisabled={Boolean(isSubmitting)}
+          accentColor="blue"
+        />
 
         {/* Feedback Banner */}
         {showExplanation && currentFeedback && (
@@ -146,7 +133,7 @@ export function DeckQuizActiveView({
         {/* Explanation Panel */}
         {showExplanation && (
           <QuizExplanationPanel
-            explanation={currentQuestion.explanation}
+            explanation={currentQuestion.explanation ?? null}
             eliminationTactics={currentQuestion.eliminationTactics}
             correctJustification={
               currentQuestion.correctAnswerWithJustification ||
@@ -171,7 +158,7 @@ export function DeckQuizActiveView({
         {!showExplanation ? (
           <Button
             onClick={onSubmitAnswer}
-            disabled={selectedOption === null}
+            disabled={!isResponseComplete(currentQuestion, response) || isSubmitting}
             className="bg-blue-600 hover:bg-blue-700 text-white px-6"
             size="lg"
           >
@@ -6,6 +6,7 @@ import { ScoreCircle } from "./ScoreCircle";
 import { PerformanceStats } from "./PerformanceStats";
 import { AchievementBadge } from "./AchievementBadge";
 import type { AchievementId } from "@/lib/gamification/achievements";
+import { getLevelFromXP } from "@/lib/gamification/xp-system";
 import type { MotivationalMessage } from "@/lib/gamification/motivational-messages";
 import { cn } from "@/lib/utils";
 
@@ -14,6 +15,7 @@ interface QuizCompletionScreenProps {
   totalQuestions: number;
   maxStreak: number;
   totalXP: number;
+  lifetimeXP?: number | null; // Total across quizzes, known once the server has awarded this quiz
   achievements: AchievementId[];
   completionMessage: MotivationalMessage;
   onRetake: () => void;
@@ -27,6 +29,7 @@ export function QuizCompletionScreen({
   totalQuestions,
   maxStreak,
   totalXP,
+  lifetimeXP,
   achievements,
   completionMessage,
   onRetake,
@@ -72,6 +75,7 @@ export function QuizCompletionScreen({
 
   const visual = getPerformanceVisual();
   const Icon = visual.icon;
+  const lifetimeLevel = lifetimeXP != null ? getLevelFromXP(lifetimeXP) : null;
 
   return (
     <div className={cn("space-y-6 md:space-y-8 text-center", className)}>
@@ -125,6 +129,11 @@ export function QuizCompletionScreen({
         <p className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-cyan-400">
           {totalXP} XP
         </p>
+        {lifetimeLevel && (
+          <p className="text-sm text-slate-400 mt-1">
+            {lifetimeXP} XP total &middot; Level {lifetimeLevel.level} {lifetimeLevel.title}
+          </p>
+        )}
       </div>
 
       {/* Achievements */}
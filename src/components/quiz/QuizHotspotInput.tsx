@@ -0,0 +1,94 @@
+"use client";
+
+import Image from "next/image";
+import type { MouseEvent } from "react";
+import { Crosshair } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { HotspotPoint, RevealedHotspotRegion } from "@/lib/quiz/question-types";
+
+interface QuizHotspotInputProps {
+  imageUrl: string;
+  point: HotspotPoint | null;
+  regions?: RevealedHotspotRegion[]; // Revealed after grading
+  isDisabled: boolean;
+  onChange: (point: HotspotPoint) => void;
+  accentColor?: "purple" | "blue";
+}
+
+// Percent with one decimal, enough precision for a click on a diagram
+function toPercent(offset: number, size: number): number {
+  return Math.round(Math.min(100, Math.max(0, (offset / size) * 100)) * 10) / 10;
+}
+
+/**
+ * Hotspot question: click the area of the diagram that answers the question
+ */
+export function QuizHotspotInput({
+  imageUrl,
+  point,
+  regions,
+  isDisabled,
+  onChange,
+  accentColor = "purple",
+}: QuizHotspotInputProps) {
+  const handleClick = (e: MouseEvent<HTMLDivElement>) => {
+    if (isDisabled) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onChange({
+      x: toPercent(e.clientX - rect.left, rect.width),
+      y: toPercent(e.clientY - rect.top, rect.height),
+    });
+  };
+
+  return (
+    <div
+      onClick={handleClick}
+      className={cn(
+        "relative w-full overflow-hidden rounded-xl border-2 border-slate-600 bg-slate-900",
+        !isDisabled && "cursor-crosshair"
+      )}
+      role="img"
+      aria-label="Diagram: click the area that answers the question"
+    >
+      <Image
+        src={imageUrl}
+        alt="Question diagram"
+        width={1200}
+        height={800}
+        className="w-full h-auto select-none pointer-events-none"
+        unoptimized
+      />
+
+      {regions?.map((hotspot) => (
+        <div
+          key={hotspot.id}
+          className={cn(
+            "absolute border-2 rounded",
+            hotspot.isCorrect ? "border-green-500 bg-green-500/20" : "border-slate-300/70 bg-slate-300/10"
+          )}
+          style={{
+            left: `${hotspot.region.x}%`,
+            top: `${hotspot.region.y}%`,
+            width: `${hotspot.region.width}%`,
+            height: `${hotspot.region.height}%`,
+          }}
+        >
+          <span className="absolute -top-6 left-0 whitespace-nowrap rounded bg-slate-900/90 px-1.5 py-0.5 text-xs text-white">
+            {hotspot.text}
+          </span>
+        </div>
+      ))}
+
+      {point && (
+        <Crosshair
+          className={cn(
+            "absolute h-8 w-8 -translate-x-1/2 -translate-y-1/2 drop-shadow",
+            accentColor === "purple" ? "text-purple-400" : "text-blue-400"
+          )}
+          style={{ left: `${point.x}%`, top: `${point.y}%` }}
+          aria-hidden="true"
+        />
+      )}
+    </div>
+  );
+}
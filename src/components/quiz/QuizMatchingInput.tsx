@@ -0,0 +1,84 @@
+"use client";
+
+import { CheckCircle2, XCircle } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+interface QuizMatchingInputProps {
+  items: Array<{ id: string; text: string }>;
+  choices: string[];
+  matches: Record<string, string>; // Item id -> chosen match text
+  correctMatches?: Record<string, string>; // Revealed after grading
+  isDisabled: boolean;
+  onChange: (matches: Record<string, string>) => void;
+}
+
+/**
+ * Matching question: pair every item with one of the match choices
+ */
+export function QuizMatchingInput({
+  items,
+  choices,
+  matches,
+  correctMatches,
+  isDisabled,
+  onChange,
+}: QuizMatchingInputProps) {
+  return (
+    <div className="space-y-3">
+      {items.map((item) => {
+        const chosen = matches[item.id];
+        const isRevealed = correctMatches !== undefined;
+        const isMatchCorrect = isRevealed && chosen === correctMatches[item.id];
+
+        return (
+          <div
+            key={item.id}
+            className={cn(
+              "flex flex-col md:flex-row md:items-center gap-3 p-4 rounded-xl border-2 text-white",
+              isRevealed && isMatchCorrect && "border-green-500 bg-green-500/20",
+              isRevealed && !isMatchCorrect && "border-red-500 bg-red-500/20",
+              !isRevealed && "border-slate-600 bg-slate-800/60"
+            )}
+          >
+            <div className="flex items-center gap-3 flex-1">
+              {isRevealed &&
+                (isMatchCorrect ? (
+                  <CheckCircle2 className="h-6 w-6 text-green-500 flex-shrink-0" />
+                ) : (
+                  <XCircle className="h-6 w-6 text-red-500 flex-shrink-0" />
+                ))}
+              <span className="text-base md:text-lg font-medium leading-relaxed">
+                {item.text.replace(/<[^>]*>/g, "").trim()}
+              </span>
+            </div>
+            <div className="md:w-72 space-y-1">
+              <Select
+                value={chosen ?? ""}
+                onValueChange={(value) => onChange({ ...matches, [item.id]: value })}
+                disabled={isDisabled}
+              >
+                <SelectTrigger
+                  className="w-full bg-slate-900/60 border-slate-600 text-white"
+                  aria-label={`Match for ${item.text}`}
+                >
+                  <SelectValue placeholder="Choose a match..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {choices.map((choice) => (
+                    <SelectItem key={choice} value={choice}>
+                      {choice}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isRevealed && !isMatchCorrect && (
+                <p className="text-sm text-green-300">Correct match: {correctMatches[item.id]}</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
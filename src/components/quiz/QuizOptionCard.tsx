@@ -1,12 +1,11 @@
 "use client";
 
-import { CheckCircle2, XCircle, Circle } from "lucide-react";
+import { CheckCircle2, XCircle, Circle, Square, SquareCheck } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface QuizOptionCardProps {
   option: {
     text: string;
-    isCorrect: boolean;
   };
   isSelected: boolean;
   isCorrect: boolean;
@@ -14,6 +13,7 @@ interface QuizOptionCardProps {
   isDisabled: boolean;
   onClick: () => void;
   accentColor?: "purple" | "blue";
+  multiple?: boolean; // Checkbox style for "select all that apply" questions
 }
 
 export function QuizOptionCard({
@@ -24,6 +24,7 @@ export function QuizOptionCard({
   isDisabled,
   onClick,
   accentColor = "purple",
+  multiple = false,
 }: QuizOptionCardProps) {
   // Strip HTML tags from option text
   const cleanText = option.text.replace(/<[^>]*>/g, "").trim();
@@ -61,6 +62,12 @@ export function QuizOptionCard({
     if (isWrong) {
       return <XCircle className="h-6 w-6 text-red-500 flex-shrink-0" />;
     }
+    if (multiple) {
+      if (isSelected) {
+        return <SquareCheck className={cn("h-6 w-6 flex-shrink-0", accentColor === "purple" ? "text-purple-500" : "text-blue-500")} />;
+      }
+      return <Square className="h-6 w-6 text-slate-400 flex-shrink-0" />;
+    }
     if (isSelected) {
       if (accentColor === "purple") {
         return <Circle className="h-6 w-6 text-purple-500 fill-purple-500 flex-shrink-0" />;
@@ -83,7 +90,9 @@ export function QuizOptionCard({
         getCardStyles()
       )}
       aria-label={`Option: ${cleanText}`}
-      aria-pressed={isSelected}
+      role={multiple ? "checkbox" : undefined}
+      aria-checked={multiple ? isSelected : undefined}
+      aria-pressed={multiple ? undefined : isSelected}
       aria-disabled={isDisabled}
     >
       {renderIcon()}
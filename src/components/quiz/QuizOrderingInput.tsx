@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowUp, ArrowDown, GripVertical, CheckCircle2, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface QuizOrderingInputProps {
+  items: Array<{ id: string; text: string }>;
+  order: string[]; // Item ids in the learner's current order
+  correctOrder?: string[]; // Revealed after grading
+  isDisabled: boolean;
+  onChange: (order: string[]) => void;
+  accentColor?: "purple" | "blue";
+}
+
+function moveItem(order: string[], from: number, to: number): string[] {
+  const next = [...order];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/**
+ * Ordering question: drag the items (or use the arrow buttons) into sequence
+ */
+export function QuizOrderingInput({
+  items,
+  order,
+  correctOrder,
+  isDisabled,
+  onChange,
+  accentColor = "purple",
+}: QuizOrderingInputProps) {
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+
+  const handleDrop = (targetIndex: number) => {
+    if (draggedIndex !== null && draggedIndex !== targetIndex) {
+      onChange(moveItem(order, draggedIndex, targetIndex));
+    }
+    setDraggedIndex(null);
+  };
+
+  return (
+    <ol className="space-y-3" aria-label="Items to put in order">
+      {order.map((id, index) => {
+        const item = itemsById.get(id);
+        if (!item) return null;
+
+        const isRevealed = correctOrder !== undefined;
+        const isInPlace = isRevealed && correctOrder[index] === id;
+        const correctPosition = isRevealed ? correctOrder.indexOf(id) + 1 : 0;
+
+        return (
+          <li
+            key={id}
+            draggable={!isDisabled}
+            onDragStart={() => setDraggedIndex(index)}
+            onDragOver={(e) => {
+              if (!isDisabled) e.preventDefault();
+            }}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => setDraggedIndex(null)}
+            className={cn(
+              "flex items-center gap-3 p-4 rounded-xl border-2 transition-all duration-200 text-white",
+              isRevealed && isInPlace && "border-green-500 bg-green-500/20",
+              isRevealed && !isInPlace && "border-red-500 bg-red-500/20",
+              !isRevealed && "border-slate-600 bg-slate-800/60",
+              !isDisabled && "cursor-grab active:cursor-grabbing hover:border-slate-500",
+              draggedIndex === index && (accentColor === "purple" ? "border-purple-500" : "border-blue-500")
+            )}
+          >
+            {isRevealed ? (
+              isInPlace ? (
+                <CheckCircle2 className="h-6 w-6 text-green-500 flex-shrink-0" />
+              ) : (
+                <XCircle className="h-6 w-6 text-red-500 flex-shrink-0" />
+              )
+            ) : (
+              <GripVertical className="h-5 w-5 text-slate-400 flex-shrink-0" />
+            )}
+            <span className="w-6 text-sm font-semibold text-slate-400">{index + 1}.</span>
+            <span className="flex-1 text-base md:text-lg font-medium leading-relaxed">
+              {item.text.replace(/<[^>]*>/g, "").trim()}
+            </span>
+            {isRevealed && !isInPlace && (
+              <span className="text-sm text-slate-300 whitespace-nowrap">Belongs at {correctPosition}</span>
+            )}
+            {!isDisabled && (
+              <div className="flex flex-col gap-1">
+                <button
+                  type="button"
+                  onClick={() => onChange(moveItem(order, index, index - 1))}
+                  disabled={index === 0}
+                  className="p-1 rounded text-slate-300 hover:bg-slate-700 disabled:opacity-30"
+                  aria-label={`Move "${item.text}" up`}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChange(moveItem(order, index, index + 1))}
+                  disabled={index === order.length - 1}
+                  className="p-1 rounded text-slate-300 hover:bg-slate-700 disabled:opacity-30"
+                  aria-label={`Move "${item.text}" down`}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
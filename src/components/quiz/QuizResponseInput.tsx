@@ -0,0 +1,133 @@
+"use client";
+
+import { QuizOptionCard } from "./QuizOptionCard";
+import { QuizOrderingInput } from "./QuizOrderingInput";
+import { QuizMatchingInput } from "./QuizMatchingInput";
+import { QuizHotspotInput } from "./QuizHotspotInput";
+import {
+  getQuestionType,
+  type QuizQuestionContent,
+  type QuizQuestionType,
+  type QuizResponse,
+} from "@/lib/quiz/question-types";
+
+interface QuizResponseInputProps {
+  question: QuizQuestionContent;
+  response: QuizResponse | null;
+  onChange: (response: QuizResponse) => void;
+  showAnswer: boolean; // Mark the response against the revealed answer key
+  isDisabled: boolean;
+  accentColor?: "purple" | "blue";
+}
+
+// How to answer, shown above every type except plain multiple choice
+const INSTRUCTIONS: Partial<Record<QuizQuestionType, string>> = {
+  multi_select: "Select all that apply.",
+  ordering: "Drag the items (or use the arrows) into the correct order.",
+  matching: "Match each item with the correct answer.",
+  hotspot: "Click the area of the diagram that answers the question.",
+};
+
+/**
+ * Renders the answer input for a quiz question's type
+ */
+export function QuizResponseInput({
+  question,
+  response,
+  onChange,
+  showAnswer,
+  isDisabled,
+  accentColor = "purple",
+}: QuizResponseInputProps) {
+  const questionType = getQuestionType(question.questionType);
+  const instructions = INSTRUCTIONS[questionType];
+  const disabled = isDisabled || showAnswer;
+
+  const renderInput = () => {
+    switch (questionType) {
+      case "single_choice": {
+        const selectedId = response?.type === "single_choice" ? response.optionId : null;
+        return question.options.map((option) => (
+          <QuizOptionCard
+            key={option.id}
+            option={option}
+            isSelected={selectedId === option.id}
+            isCorrect={showAnswer && option.isCorrect === true}
+            isWrong={showAnswer && selectedId === option.id && !option.isCorrect}
+            isDisabled={disabled}
+            onClick={() => onChange({ type: "single_choice", optionId: option.id })}
+            accentColor={accentColor}
+          />
+        ));
+      }
+
+      case "multi_select": {
+        const selectedIds = response?.type === "multi_select" ? response.optionIds : [];
+        const toggle = (id: string) =>
+          onChange({
+            type: "multi_select",
+            optionIds: selectedIds.includes(id) ? selectedIds.filter((selected) => selected !== id) : [...selectedIds, id],
+          });
+        return question.options.map((option) => (
+          <QuizOptionCard
+            key={option.id}
+            option={option}
+            isSelected={selectedIds.includes(option.id)}
+            isCorrect={showAnswer && option.isCorrect === true}
+            isWrong={showAnswer && selectedIds.includes(option.id) && !option.isCorrect}
+            isDisabled={disabled}
+            onClick={() => toggle(option.id)}
+            accentColor={accentColor}
+            multiple
+          />
+        ));
+      }
+
+      case "ordering":
+        return (
+          <QuizOrderingInput
+            items={question.options}
+            order={response?.type === "ordering" ? response.optionIds : question.options.map((option) => option.id)}
+            correctOrder={showAnswer ? question.correctOrder : undefined}
+            isDisabled={disabled}
+            onChange={(optionIds) => onChange({ type: "ordering", optionIds })}
+            accentColor={accentColor}
+          />
+        );
+
+      case "matching":
+        return (
+          <QuizMatchingInput
+            items={question.options}
+            choices={question.matchChoices ?? []}
+            matches={response?.type === "matching" ? response.matches : {}}
+            correctMatches={showAnswer ? question.correctMatches : undefined}
+            isDisabled={disabled}
+            onChange={(matches) => onChange({ type: "matching", matches })}
+          />
+        );
+
+      case "hotspot":
+        if (!question.imageUrl) {
+          return <p className="text-sm text-red-400">This question&apos;s diagram is missing.</p>;
+        }
+        return (
+          <QuizHotspotInput
+            imageUrl={question.imageUrl}
+            point={response?.type === "hotspot" ? response.point : null}
+            regions={showAnswer ? question.hotspotRegions : undefined}
+            isDisabled={disabled}
+            onChange={(point) => onChange({ type: "hotspot", point })}
+            accentColor={accentColor}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4 mt-8">
+      {instructions && <p className="text-sm font-medium text-slate-300">{instructions}</p>}
+      {renderInput()}
+    </div>
+  );
+}
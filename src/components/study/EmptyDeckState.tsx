@@ -1,7 +1,8 @@
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, FileCheck2 } from "lucide-react";
+import { ArrowLeft, FileCheck2, History } from "lucide-react";
 import { DeckQuizModal } from "@/components/DeckQuizModal";
+import type { ResumableQuiz } from "@/hooks/useResumableQuiz";
 
 interface DeckData {
     id: string;
@@ -15,8 +16,11 @@ interface EmptyDeckStateProps {
     deck: DeckData | null;
     deckHasQuiz: boolean;
     showDeckQuizModal: boolean;
-    setShowDeckQuizModal: (show: boolean) => void;
+    onCloseDeckQuiz: () => void;
     onDeckTest: () => void;
+    resumableQuiz: ResumableQuiz | null;
+    resumeSessionId: string | null;
+    onContinueDeckTest: () => void;
 }
 
 function DeckBackLink({ deck, className }: { deck: DeckData | null; className: string }) {
@@ -32,17 +36,35 @@ function DeckBackLink({ deck, className }: { deck: DeckData | null; className: s
     );
 }
 
-function DeckQuizActions({ deckHasQuiz, onDeckTest }: { deckHasQuiz: boolean; onDeckTest: () => void }) {
+function DeckQuizActions(props: {
+    deckHasQuiz: boolean;
+    onDeckTest: () => void;
+    resumableQuiz: ResumableQuiz | null;
+    onContinueDeckTest: () => void;
+}) {
+    const { deckHasQuiz, onDeckTest, resumableQuiz, onContinueDeckTest } = props;
+
     if (!deckHasQuiz) return null;
 
     return (
-        <Button
-            onClick={onDeckTest}
-            className="bg-blue-600 hover:bg-blue-700 text-white font-semibold"
-        >
-            <FileCheck2 className="h-4 w-4 mr-2" />
-            Take Deck Test
-        </Button>
+        <div className="flex flex-wrap gap-3">
+            {resumableQuiz && (
+                <Button
+                    onClick={onContinueDeckTest}
+                    className="bg-emerald-600 hover:bg-emerald-700 text-white font-semibold"
+                >
+                    <History className="h-4 w-4 mr-2" />
+                    Continue Deck Test ({resumableQuiz.answeredCount}/{resumableQuiz.totalQuestions})
+                </Button>
+            )}
+            <Button
+                onClick={onDeckTest}
+                className="bg-blue-600 hover:bg-blue-700 text-white font-semibold"
+            >
+                <FileCheck2 className="h-4 w-4 mr-2" />
+                Take Deck Test
+            </Button>
+        </div>
     );
 }
 
@@ -61,20 +83,22 @@ function DeckEmptyMessage({ deckHasQuiz }: { deckHasQuiz: boolean }) {
 function DeckQuizModalWrapper(props: {
     deckHasQuiz: boolean;
     showDeckQuizModal: boolean;
-    setShowDeckQuizModal: (show: boolean) => void;
+    onCloseDeckQuiz: () => void;
     deckId: string;
     deckName: string;
+    resumeSessionId: string | null;
 }) {
-    const { deckHasQuiz, showDeckQuizModal, setShowDeckQuizModal, deckId, deckName } = props;
+    const { deckHasQuiz, showDeckQuizModal, onCloseDeckQuiz, deckId, deckName, resumeSessionId } = props;
 
     if (!deckHasQuiz) return null;
 
     return (
         <DeckQuizModal
             isOpen={showDeckQuizModal}
-            onClose={() => setShowDeckQuizModal(false)}
+            onClose={onCloseDeckQuiz}
             deckId={deckId}
             deckName={deckName}
+            resumeSessionId={resumeSessionId}
         />
     );
 }
@@ -83,8 +107,11 @@ export function EmptyDeckState({
     deck,
     deckHasQuiz,
     showDeckQuizModal,
-    setShowDeckQuizModal,
-    onDeckTest
+    onCloseDeckQuiz,
+    onDeckTest,
+    resumableQuiz,
+    resumeSessionId,
+    onContinueDeckTest,
 }: EmptyDeckStateProps) {
     const deckName = deck?.name || "Unknown Deck";
     const className = deck?.className || "Unknown Class";
@@ -101,7 +128,12 @@ export function EmptyDeckState({
                         {deckName}
                     </h1>
 
-                    <DeckQuizActions deckHasQuiz={deckHasQuiz} onDeckTest={onDeckTest} />
+                    <DeckQuizActions
+                        deckHasQuiz={deckHasQuiz}
+                        onDeckTest={onDeckTest}
+                        resumableQuiz={resumableQuiz}
+                        onContinueDeckTest={onContinueDeckTest}
+                    />
                 </div>
 
                 <DeckEmptyMessage deckHasQuiz={deckHasQuiz} />
@@ -110,9 +142,10 @@ export function EmptyDeckState({
             <DeckQuizModalWrapper
                 deckHasQuiz={deckHasQuiz}
                 showDeckQuizModal={showDeckQuizModal}
-                setShowDeckQuizModal={setShowDeckQuizModal}
+                onCloseDeckQuiz={onCloseDeckQuiz}
                 deckId={deckId}
                 deckName={deckName}
+                resumeSessionId={resumeSessionId}
             />
         </div>
     );
@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { toast } from 'sonner';
+import { getUpgradeRequired } from '@/components/UpgradeRequiredNotice';
+import type { UpgradeRequired } from '@/lib/entitlements';
 
 export interface FlashcardMedia {
     id: string;
@@ -25,6 +27,7 @@ export interface DeckData {
     description: string | null;
     classId: string;
     className: string;
+    isPremium?: boolean;
 }
 
 // Secure shuffle helper using crypto.getRandomValues()
@@ -44,21 +47,27 @@ export function useDeckData(deckId: string, mode: string) {
     const [deck, setDeck] = useState<DeckData | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<Error | null>(null);
+    const [upgradeRequired, setUpgradeRequired] = useState<UpgradeRequired | null>(null);
 
     const loadFlashcards = useCallback(async () => {
         if (!deckId) return;
 
         setLoading(true);
         setError(null);
+        setUpgradeRequired(null);
         try {
             const res = await fetch(`/api/decks/${deckId}/flashcards`, {
                 // Use default caching to respect server Cache-Control headers
                 // This allows updates to be visible within 10 seconds
                 cache: 'default',
             });
-            if (!res.ok) throw new Error("Failed to load flashcards");
-
             const data = await res.json();
+
+            // Locked premium decks still send their teaser cards alongside the upgrade_required error
+            const upgrade = getUpgradeRequired(data);
+            if (!res.ok && !upgrade) throw new Error("Failed to load flashcards");
+
+            setUpgradeRequired(upgrade);
             setDeck(data.deck);
 
             let cards: FlashcardData[] = data.flashcards || [];
@@ -84,5 +93,5 @@ export function useDeckData(deckId: string, mode: string) {
         loadFlashcards();
     }, [loadFlashcards]);
 
-    return { flashcards, deck, loading, error, refetch: loadFlashcards };
+    return { flashcards, deck, loading, error, upgradeRequired, refetch: loadFlashcards };
 }
@@ -2,18 +2,34 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import confetti from "canvas-confetti";
 import { toast } from "sonner";
 import { useQuizGamification } from "./useQuizGamification";
-import { shuffleQuestionOptions } from "@/lib/utils/shuffle";
+import { arrangeQuestions, type QuizLayout } from "@/lib/quiz/quiz-layout";
+import {
+  getInitialResponse,
+  isResponseComplete,
+  type QuizQuestionContent,
+  type QuizQuestionType,
+  type QuizResponse,
+  type RevealedHotspotRegion,
+} from "@/lib/quiz/question-types";
 
-interface QuizOption {
-  text: string;
+interface AnswerReveal {
   isCorrect: boolean;
+  questionType: QuizQuestionType;
+  correctOptionIds: string[]; // Ordering questions: every option id in the correct order
+  correctMatches?: Record<string, string>;
+  hotspotRegions?: RevealedHotspotRegion[];
+  explanation: string | null;
+  eliminationTactics: Record<string, string> | null;
+  correctAnswerWithJustification: Record<string, string> | null;
+  compareRemainingOptionsWithJustification: Record<string, string> | null;
+  correctOptionsJustification: Record<string, string> | null;
 }
 
-export interface QuizQuestion {
+// Options carry persistent ids sent to the server for grading; the answer key is only known once it has graded the answer
+export interface QuizQuestion extends QuizQuestionContent {
   id: string;
   questionText: string;
-  options: QuizOption[];
-  explanation: string | null;
+  explanation?: string | null;
   eliminationTactics?: Record<string, string> | null;
   correctAnswerWithJustification?: Record<string, string> | null;
   compareRemainingOptionsWithJustification?: Record<string, string> | null;
@@ -22,16 +38,65 @@ export interface QuizQuestion {
   difficulty?: number | null;
 }
 
+interface ResumedAnswer extends Omit<AnswerReveal, "isCorrect"> {
+  questionId: string;
+  response: QuizResponse | null;
+  isCorrect: boolean;
+}
+
 interface UseDeckQuizParams {
-  deckId: string;
+  deckId?: string;
   isOpen: boolean;
   onClose: () => void;
+  resumeSessionId?: string | null; // Unfinished quiz session to pick up instead of starting a new one
+  drillSubTopicIds?: string[] | null; // Drill deck quiz questions from these sub-topics instead of a deck
 }
 
-export function useDeckQuiz({ deckId, isOpen, onClose }: UseDeckQuizParams) {
+/**
+ * Merge the answer key and explanation returned by the server into a question
+ */
+function applyAnswerReveal(question: QuizQuestion, reveal: AnswerReveal): QuizQuestion {
+  return {
+    ...question,
+    options: question.options.map((option) => ({
+      ...option,
+      isCorrect: reveal.correctOptionIds.includes(option.id),
+    })),
+    correctOrder: reveal.questionType === "ordering" ? reveal.correctOptionIds : undefined,
+    correctMatches: reveal.correctMatches,
+    hotspotRegions: reveal.hotspotRegions,
+    isAnsweredCorrectly: reveal.isCorrect,
+    explanation: reveal.explanation,
+    eliminationTactics: reveal.eliminationTactics,
+    correctAnswerWithJustification: reveal.correctAnswerWithJustification,
+    compareRemainingOptionsWithJustification: reveal.compareRemainingOptionsWithJustification,
+    correctOptionsJustification: reveal.correctOptionsJustification,
+  };
+}
+
+/**
+ * Forget a revealed answer so a retake has to be graded again
+ */
+function hideAnswerReveal(question: QuizQuestion): QuizQuestion {
+  return {
+    ...question,
+    options: question.options.map(({ id, text }) => ({ id, text })),
+    correctOrder: undefined,
+    correctMatches: undefined,
+    hotspotRegions: undefined,
+    isAnsweredCorrectly: undefined,
+    explanation: null,
+    eliminationTactics: null,
+    correctAnswerWithJustification: null,
+    compareRemainingOptionsWithJustification: null,
+    correctOptionsJustification: null,
+  };
+}
+
+export function useDeckQuiz({ deckId, isOpen, onClose, resumeSessionId, drillSubTopicIds }: UseDeckQuizParams) {
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  const [response, setResponse] = useState<QuizResponse | null>(null);
   const [showExplanation, setShowExplanation] = useState(false);
   const [correctAnswers, setCorrectAnswers] = useState(0);
   const [loading, setLoading] = useState(false);
@@ -44,18 +109,15 @@ export function useDeckQuiz({ deckId, isOpen, onClose }: UseDeckQuizParams) {
   } | null>(null);
   const [completionMessage, setCompletionMessage] = useState<{ text: string; emoji?: string } | null>(null);
 
-  // Track quiz start time and all answers for database storage
-  const [quizStartTime] = useState(Date.now());
-  const [allAnswers, setAllAnswers] = useState<Array<{
-    questionId: string;
-    questionType: 'deck';
-    selectedOptionIndex: number;
-    isCorrect: boolean;
-    timeSpent: number;
-    questionOrder: number;
-  }>>([]);
+  // Answers are graded and stored server-side against this quiz session
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
   const [questionStartTime, setQuestionStartTime] = useState(Date.now());
 
+  // Time spent on the quiz: restored from the server on resume, plus time since the quiz was (re)opened
+  const elapsedBaseRef = useRef(0);
+  const activeSinceRef = useRef(Date.now());
+
   const gamification = useQuizGamification({
     totalQuestions: questions.length || 0,
   });
@@ -79,43 +141,70 @@ export function useDeckQuiz({ deckId, isOpen, onClose }: UseDeckQuizParams) {
 
   const resetQuiz = useCallback(() => {
     setCurrentQuestionIndex(0);
-    setSelectedOption(null);
+    setResponse(null);
     setShowExplanation(false);
     setCorrectAnswers(0);
     setQuizCompleted(false);
     setFirstThreeWrong(false);
     setCurrentFeedback(null);
     setCompletionMessage(null);
-    setAllAnswers([]);
+    setSessionId(null);
+    setSubmitting(false);
     setQuestionStartTime(Date.now());
+    elapsedBaseRef.current = 0;
+    activeSinceRef.current = Date.now();
     gamification.resetSession();
-    // Reshuffle options for all questions on retake
-    setQuestions((prev) => shuffleQuestionOptions(prev));
+    // Hide the previous answers; the new session's layout reshuffles the options
+    setQuestions((prev) => prev.map(hideAnswerReveal));
   }, [gamification]);
 
+  const startQuizSession = useCallback(async (): Promise<QuizLayout> => {
+    const res = await fetch('/api/quiz-sessions/start', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ deckId, quizType: 'deck' }),
+    });
+    if (!res.ok) {
+      throw new Error("Failed to start deck quiz session");
+    }
+    const data = await res.json();
+    setSessionId(data.sessionId);
+    return data.layout;
+  }, [deckId]);
+
   const fetchQuizQuestions = useCallback(async () => {
     setLoading(true);
     try {
       const res = await fetch(`/api/decks/${deckId}/quiz`);
+      if (res.status === 403) {
+        const data = await res.json();
+        if (data.code === 'upgrade_required') {
+          toast.error(data.error || "Upgrade to unlock this quiz");
+          onClose();
+          return;
+        }
+      }
       if (!res.ok) {
         throw new Error("Failed to fetch deck quiz questions");
       }
       const data = await res.json();
 
       if (data.questions && data.questions.length > 0) {
-        // Shuffle answer options for each question to prevent position memorization
-        setQuestions(shuffleQuestionOptions(data.questions));
+        // The session fixes the question and option order so the quiz can be resumed as shown
+        const layout = await startQuizSession();
+        setQuestions(arrangeQuestions(data.questions, layout));
         // Reset state inline to avoid circular dependency
         setCurrentQuestionIndex(0);
-        setSelectedOption(null);
+        setResponse(null);
         setShowExplanation(false);
         setCorrectAnswers(0);
         setQuizCompleted(false);
         setFirstThreeWrong(false);
         setCurrentFeedback(null);
         setCompletionMessage(null);
-        setAllAnswers([]);
         setQuestionStartTime(Date.now());
+        elapsedBaseRef.current = 0;
+        activeSinceRef.current = Date.now();
       } else {
         toast.error("No quiz questions found for this deck");
         onClose();
@@ -127,42 +216,150 @@ export function useDeckQuiz({ deckId, isOpen, onClose }: UseDeckQuizParams) {
     } finally {
       setLoading(false);
     }
-  }, [deckId, onClose]);
+  }, [deckId, onClose, startQuizSession]);
+
+  const resumeQuiz = useCallback(async (quizSessionId: string) => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/quiz-sessions/${quizSessionId}/resume`);
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.code === 'upgrade_required'
+          ? data.error || "Upgrade to unlock this quiz"
+          : "This quiz can no longer be resumed");
+        onClose();
+        return;
+      }
+
+      const answers = new Map<string, ResumedAnswer>(
+        (data.answers as ResumedAnswer[]).map((answer) => [answer.questionId, answer])
+      );
+      const restored: QuizQuestion[] = (data.questions as QuizQuestion[]).map((question) => {
+        const answer = answers.get(question.id);
+        return answer ? applyAnswerReveal(question, answer) : question;
+      });
+      const answeredCount = restored.filter((question) => answers.has(question.id)).length;
+      const allAnswered = answeredCount >= restored.length;
+      const currentIndex = allAnswered ? restored.length - 1 : answeredCount;
+      const lastAnswer = allAnswered ? answers.get(restored[currentIndex].id) : undefined;
+
+      setSessionId(data.sessionId);
+      setQuestions(restored);
+      setCurrentQuestionIndex(currentIndex);
+      // With every question answered, show the last explanation so "Next" finishes the quiz
+      setResponse(lastAnswer?.response ?? null);
+      setShowExplanation(allAnswered);
+      setCorrectAnswers(Array.from(answers.values()).filter((answer) => answer.isCorrect).length);
+      setFirstThreeWrong(restored.slice(0, 3).some((question) => answers.get(question.id)?.isCorrect === false));
+      setQuizCompleted(false);
+      setCurrentFeedback(null);
+      setCompletionMessage(null);
+      setQuestionStartTime(Date.now());
+      elapsedBaseRef.current = data.elapsedSeconds ?? 0;
+      activeSinceRef.current = Date.now();
+    } catch (error) {
+      console.error("Error resuming deck quiz:", error);
+      toast.error("Failed to resume the quiz");
+      onClose();
+    } finally {
+      setLoading(false);
+    }
+  }, [onClose]);
+
+  // A drill's questions are picked by the server when it starts, then loaded like a resumed quiz
+  const startDrill = useCallback(async () => {
+    if (!drillSubTopicIds?.length) return;
+    setLoading(true);
+    try {
+      const res = await fetch('/api/quiz-sessions/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quizType: 'drill', subTopicIds: drillSubTopicIds }),
+      });
+      if (!res.ok) {
+        toast.error(res.status === 404 ? "No quiz questions found for this sub-topic" : "Failed to start the drill");
+        setLoading(false);
+        onClose();
+        return;
+      }
+      const data = await res.json();
+      await resumeQuiz(data.sessionId);
+    } catch (error) {
+      console.error("Error starting drill:", error);
+      toast.error("Failed to start the drill");
+      setLoading(false);
+      onClose();
+    }
+  }, [drillSubTopicIds, onClose, resumeQuiz]);
 
   useEffect(() => {
     // Only fetch and reset when modal transitions from closed to open
-    if (isOpen && !prevIsOpenRef.current && deckId) {
-      fetchQuizQuestions();
+    if (isOpen && !prevIsOpenRef.current && (deckId || drillSubTopicIds?.length)) {
+      if (resumeSessionId) {
+        resumeQuiz(resumeSessionId);
+      } else if (drillSubTopicIds?.length) {
+        startDrill();
+      } else {
+        fetchQuizQuestions();
+      }
       gamification.resetSession();
     }
     prevIsOpenRef.current = isOpen;
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isOpen, deckId, fetchQuizQuestions]);
+  }, [isOpen, deckId, drillSubTopicIds, resumeSessionId, fetchQuizQuestions, resumeQuiz, startDrill]);
 
-  const handleOptionSelect = useCallback((index: number) => {
+  const currentQuestion = questions[currentQuestionIndex];
+  // An untouched ordering question is answered in the order it was shown
+  const currentResponse = response ?? (currentQuestion ? getInitialResponse(currentQuestion) : null);
+
+  const handleResponseChange = useCallback((next: QuizResponse) => {
     if (showExplanation) return;
-    setSelectedOption(index);
+    setResponse(next);
   }, [showExplanation]);
 
-  const handleSubmitAnswer = useCallback(() => {
-    if (selectedOption === null) {
-      toast.error("Please select an answer");
+  const handleSubmitAnswer = useCallback(async () => {
+    if (!currentQuestion || !isResponseComplete(currentQuestion, currentResponse)) {
+      toast.error("Please complete your answer");
       return;
     }
+    if (!sessionId || submitting) return;
 
-    const currentQuestion = questions[currentQuestionIndex];
-    const isCorrect = currentQuestion.options[selectedOption].isCorrect;
-
-    // Record this answer for database storage
     const timeSpent = Math.floor((Date.now() - questionStartTime) / 1000);
-    setAllAnswers((prev) => [...prev, {
-      questionId: currentQuestion.id,
-      questionType: 'deck',
-      selectedOptionIndex: selectedOption,
-      isCorrect,
-      timeSpent,
-      questionOrder: currentQuestionIndex,
-    }]);
+
+    setSubmitting(true);
+    let reveal: AnswerReveal;
+    try {
+      const res = await fetch('/api/quiz-sessions/answer', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId,
+          questionId: currentQuestion.id,
+          response: currentResponse,
+          optionOrder: currentQuestion.options.map((option) => option.id),
+          timeSpent,
+          questionOrder: currentQuestionIndex,
+          elapsedSeconds: elapsedBaseRef.current + Math.floor((Date.now() - activeSinceRef.current) / 1000),
+        }),
+      });
+      if (!res.ok) {
+        throw new Error("Failed to submit answer");
+      }
+      reveal = await res.json();
+    } catch (error) {
+      console.error("Error submitting deck quiz answer:", error);
+      toast.error("Failed to submit answer. Please try again.");
+      return;
+    } finally {
+      setSubmitting(false);
+    }
+
+    const isCorrect = reveal.isCorrect;
+    setQuestions((prev) =>
+      prev.map((question, index) =>
+        index === currentQuestionIndex ? applyAnswerReveal(question, reveal) : question
+      )
+    );
 
     const feedback = gamification.recordAnswer(isCorrect);
     setCurrentFeedback(feedback);
@@ -177,32 +374,33 @@ export function useDeckQuiz({ deckId, isOpen, onClose }: UseDeckQuizParams) {
     }
 
     setShowExplanation(true);
-  }, [selectedOption, questions, currentQuestionIndex, gamification, triggerConfetti, questionStartTime]);
+  }, [currentQuestion, currentResponse, sessionId, submitting, currentQuestionIndex, gamification, triggerConfetti, questionStartTime]);
 
   const saveQuizResults = useCallback(async () => {
+    if (!sessionId) return;
     try {
-      await fetch('/api/quiz-sessions/complete', {
+      // The server recomputes the score from the answers it graded and awards XP and achievements
+      const res = await fetch('/api/quiz-sessions/complete', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          deckId,
-          quizType: 'deck',
-          answers: allAnswers,
-          totalQuestions: questions.length,
-          correctAnswers,
-          startTime: quizStartTime,
-        }),
+        body: JSON.stringify({ sessionId }),
       });
+      if (res.ok) {
+        const data = await res.json();
+        if (data.rewards) {
+          gamification.applyQuizRewards(data.rewards);
+        }
+      }
     } catch (error) {
       console.error('Failed to save quiz results:', error);
       // Don't throw - allow quiz to complete even if save fails
     }
-  }, [deckId, allAnswers, questions.length, correctAnswers, quizStartTime]);
+  }, [sessionId, gamification]);
 
   const handleNextQuestion = useCallback(() => {
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex((prev) => prev + 1);
-      setSelectedOption(null);
+      setResponse(null);
       setShowExplanation(false);
       setCurrentFeedback(null);
       setQuestionStartTime(Date.now()); // Reset timer for next question
@@ -216,9 +414,21 @@ export function useDeckQuiz({ deckId, isOpen, onClose }: UseDeckQuizParams) {
     }
   }, [currentQuestionIndex, questions.length, gamification, correctAnswers, firstThreeWrong, saveQuizResults]);
 
-  const handleRetakeQuiz = useCallback(() => {
+  const handleRetakeQuiz = useCallback(async () => {
     resetQuiz();
-  }, [resetQuiz]);
+    if (drillSubTopicIds?.length) {
+      // A new drill picks the questions again, starting with the ones just missed
+      await startDrill();
+      return;
+    }
+    try {
+      const layout = await startQuizSession();
+      setQuestions((prev) => arrangeQuestions(prev, layout));
+    } catch (error) {
+      console.error("Error restarting deck quiz:", error);
+      toast.error("Failed to restart the quiz");
+    }
+  }, [resetQuiz, startQuizSession, drillSubTopicIds, startDrill]);
 
   const handleClose = useCallback(() => {
     resetQuiz();
@@ -228,17 +438,18 @@ export function useDeckQuiz({ deckId, isOpen, onClose }: UseDeckQuizParams) {
   return {
     questions,
     currentQuestionIndex,
-    selectedOption,
+    response: currentResponse,
     showExplanation,
     correctAnswers,
     loading,
+    submitting,
     quizCompleted,
     firstThreeWrong,
     currentFeedback,
     completionMessage,
     gamification,
     handlers: {
-      handleOptionSelect,
+      handleResponseChange,
       handleSubmitAnswer,
       handleNextQuestion,
       handleRetakeQuiz,
@@ -2,18 +2,34 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import confetti from "canvas-confetti";
 import { toast } from "sonner";
 import { useQuizGamification } from "./useQuizGamification";
-import { shuffleQuestionOptions } from "@/lib/utils/shuffle";
+import { arrangeQuestions, type QuizLayout } from "@/lib/quiz/quiz-layout";
+import {
+  getInitialResponse,
+  isResponseComplete,
+  type QuizQuestionContent,
+  type QuizQuestionType,
+  type QuizResponse,
+  type RevealedHotspotRegion,
+} from "@/lib/quiz/question-types";
 
-interface QuizOption {
-  text: string;
+interface AnswerReveal {
   isCorrect: boolean;
+  questionType: QuizQuestionType;
+  correctOptionIds: string[]; // Ordering questions: every option id in the correct order
+  correctMatches?: Record<string, string>;
+  hotspotRegions?: RevealedHotspotRegion[];
+  explanation: string | null;
+  eliminationTactics: Record<string, string> | null;
+  correctAnswerWithJustification: Record<string, string> | null;
+  compareRemainingOptionsWithJustification: Record<string, string> | null;
+  correctOptionsJustification: Record<string, string> | null;
 }
 
-export interface QuizQuestion {
+// Options carry persistent ids sent to the server for grading; the answer key is only known once it has graded the answer
+export interface QuizQuestion extends QuizQuestionContent {
   id: string;
   questionText: string;
-  options: QuizOption[];
-  explanation: string | null;
+  explanation?: string | null;
   eliminationTactics?: Record<string, string> | null;
   correctAnswerWithJustification?: Record<string, string> | null;
   compareRemainingOptionsWithJustification?: Record<string, string> | null;
@@ -27,10 +43,51 @@ interface UseFlashcardQuizParams {
   onClose: () => void;
 }
 
+/**
+ * Merge the answer key and explanation returned by the server into a question
+ */
+function applyAnswerReveal(question: QuizQuestion, reveal: AnswerReveal): QuizQuestion {
+  return {
+    ...question,
+    options: question.options.map((option) => ({
+      ...option,
+      isCorrect: reveal.correctOptionIds.includes(option.id),
+    })),
+    correctOrder: reveal.questionType === "ordering" ? reveal.correctOptionIds : undefined,
+    correctMatches: reveal.correctMatches,
+    hotspotRegions: reveal.hotspotRegions,
+    isAnsweredCorrectly: reveal.isCorrect,
+    explanation: reveal.explanation,
+    eliminationTactics: reveal.eliminationTactics,
+    correctAnswerWithJustification: reveal.correctAnswerWithJustification,
+    compareRemainingOptionsWithJustification: reveal.compareRemainingOptionsWithJustification,
+    correctOptionsJustification: reveal.correctOptionsJustification,
+  };
+}
+
+/**
+ * Forget a revealed answer so a retake has to be graded again
+ */
+function hideAnswerReveal(question: QuizQuestion): QuizQuestion {
+  return {
+    ...question,
+    options: question.options.map(({ id, text }) => ({ id, text })),
+    correctOrder: undefined,
+    correctMatches: undefined,
+    hotspotRegions: undefined,
+    isAnsweredCorrectly: undefined,
+    explanation: null,
+    eliminationTactics: null,
+    correctAnswerWithJustification: null,
+    compareRemainingOptionsWithJustification: null,
+    correctOptionsJustification: null,
+  };
+}
+
 export function useFlashcardQuiz({ flashcardId, isOpen, onClose }: UseFlashcardQuizParams) {
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  const [response, setResponse] = useState<QuizResponse | null>(null);
   const [showExplanation, setShowExplanation] = useState(false);
   const [correctAnswers, setCorrectAnswers] = useState(0);
   const [loading, setLoading] = useState(false);
@@ -43,16 +100,9 @@ export function useFlashcardQuiz({ flashcardId, isOpen, onClose }: UseFlashcardQ
   } | null>(null);
   const [completionMessage, setCompletionMessage] = useState<{ text: string; emoji?: string } | null>(null);
 
-  // Track quiz start time and all answers for database storage
-  const [quizStartTime] = useState(Date.now());
-  const [allAnswers, setAllAnswers] = useState<Array<{
-    questionId: string;
-    questionType: 'flashcard';
-    selectedOptionIndex: number;
-    isCorrect: boolean;
-    timeSpent: number;
-    questionOrder: number;
-  }>>([]);
+  // Answers are graded and stored server-side against this quiz session
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
   const [questionStartTime, setQuestionStartTime] = useState(Date.now());
 
   const gamification = useQuizGamification({
@@ -78,42 +128,65 @@ export function useFlashcardQuiz({ flashcardId, isOpen, onClose }: UseFlashcardQ
 
   const resetQuiz = useCallback(() => {
     setCurrentQuestionIndex(0);
-    setSelectedOption(null);
+    setResponse(null);
     setShowExplanation(false);
     setCorrectAnswers(0);
     setQuizCompleted(false);
     setFirstThreeWrong(false);
     setCurrentFeedback(null);
     setCompletionMessage(null);
-    setAllAnswers([]);
+    setSessionId(null);
+    setSubmitting(false);
     setQuestionStartTime(Date.now());
     gamification.resetSession();
-    // Reshuffle options for all questions on retake
-    setQuestions((prev) => shuffleQuestionOptions(prev));
+    // Hide the previous answers; the new session's layout reshuffles the options
+    setQuestions((prev) => prev.map(hideAnswerReveal));
   }, [gamification]);
 
+  const startQuizSession = useCallback(async (): Promise<QuizLayout> => {
+    const res = await fetch('/api/quiz-sessions/start', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ flashcardId, quizType: 'flashcard' }),
+    });
+    if (!res.ok) {
+      throw new Error("Failed to start quiz session");
+    }
+    const data = await res.json();
+    setSessionId(data.sessionId);
+    return data.layout;
+  }, [flashcardId]);
+
   const fetchQuizQuestions = useCallback(async () => {
     setLoading(true);
     try {
       const res = await fetch(`/api/flashcards/${flashcardId}/quiz`);
+      if (res.status === 403) {
+        const data = await res.json();
+        if (data.code === 'upgrade_required') {
+          toast.error(data.error || "Upgrade to unlock this quiz");
+          onClose();
+          return;
+        }
+      }
       if (!res.ok) {
         throw new Error("Failed to fetch quiz questions");
       }
       const data = await res.json();
 
       if (data.questions && data.questions.length > 0) {
-        // Shuffle answer options for each question to prevent position memorization
-        setQuestions(shuffleQuestionOptions(data.questions));
+        // The session fixes the question and option order it was shown with
+        const layout = await startQuizSession();
+        setQuestions(arrangeQuestions(data.questions, layout));
         // Reset state inline to avoid circular dependency
         setCurrentQuestionIndex(0);
-        setSelectedOption(null);
+        setResponse(null);
         setShowExplanation(false);
         setCorrectAnswers(0);
         setQuizCompleted(false);
         setFirstThreeWrong(false);
         setCurrentFeedback(null);
         setCompletionMessage(null);
-        setAllAnswers([]);
         setQuestionStartTime(Date.now());
       } else {
         toast.error("No quiz questions found for this flashcard");
@@ -126,7 +199,7 @@ export function useFlashcardQuiz({ flashcardId, isOpen, onClose }: UseFlashcardQ
     } finally {
       setLoading(false);
     }
-  }, [flashcardId, onClose]);
+  }, [flashcardId, onClose, startQuizSession]);
 
   useEffect(() => {
     // Only fetch and reset when modal transitions from closed to open
@@ -138,30 +211,57 @@ export function useFlashcardQuiz({ flashcardId, isOpen, onClose }: UseFlashcardQ
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOpen, flashcardId, fetchQuizQuestions]);
 
-  const handleOptionSelect = useCallback((index: number) => {
+  const currentQuestion = questions[currentQuestionIndex];
+  // An untouched ordering question is answered in the order it was shown
+  const currentResponse = response ?? (currentQuestion ? getInitialResponse(currentQuestion) : null);
+
+  const handleResponseChange = useCallback((next: QuizResponse) => {
     if (showExplanation) return;
-    setSelectedOption(index);
+    setResponse(next);
   }, [showExplanation]);
 
-  const handleSubmitAnswer = useCallback(() => {
-    if (selectedOption === null) {
-      toast.error("Please select an answer");
+  const handleSubmitAnswer = useCallback(async () => {
+    if (!currentQuestion || !isResponseComplete(currentQuestion, currentResponse)) {
+      toast.error("Please complete your answer");
       return;
     }
+    if (!sessionId || submitting) return;
 
-    const currentQuestion = questions[currentQuestionIndex];
-    const isCorrect = currentQuestion.options[selectedOption].isCorrect;
-
-    // Record this answer for database storage
     const timeSpent = Math.floor((Date.now() - questionStartTime) / 1000);
-    setAllAnswers((prev) => [...prev, {
-      questionId: currentQuestion.id,
-      questionType: 'flashcard',
-      selectedOptionIndex: selectedOption,
-      isCorrect,
-      timeSpent,
-      questionOrder: currentQuestionIndex,
-    }]);
+
+    setSubmitting(true);
+    let reveal: AnswerReveal;
+    try {
+      const res = await fetch('/api/quiz-sessions/answer', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId,
+          questionId: currentQuestion.id,
+          response: currentResponse,
+          optionOrder: currentQuestion.options.map((option) => option.id),
+          timeSpent,
+          questionOrder: currentQuestionIndex,
+        }),
+      });
+      if (!res.ok) {
+        throw new Error("Failed to submit answer");
+      }
+      reveal = await res.json();
+    } catch (error) {
+      console.error("Error submitting quiz answer:", error);
+      toast.error("Failed to submit answer. Please try again.");
+      return;
+    } finally {
+      setSubmitting(false);
+    }
+
+    const isCorrect = reveal.isCorrect;
+    setQuestions((prev) =>
+      prev.map((question, index) =>
+        index === currentQuestionIndex ? applyAnswerReveal(question, reveal) : question
+      )
+    );
 
     const feedback = gamification.recordAnswer(isCorrect);
     setCurrentFeedback(feedback);
@@ -176,32 +276,33 @@ export function useFlashcardQuiz({ flashcardId, isOpen, onClose }: UseFlashcardQ
     }
 
     setShowExplanation(true);
-  }, [selectedOption, questions, currentQuestionIndex, gamification, triggerConfetti, questionStartTime]);
+  }, [currentQuestion, currentResponse, sessionId, submitting, currentQuestionIndex, gamification, triggerConfetti, questionStartTime]);
 
   const saveQuizResults = useCallback(async () => {
+    if (!sessionId) return;
     try {
-      await fetch('/api/quiz-sessions/complete', {
+      // The server recomputes the score from the answers it graded and awards XP and achievements
+      const res = await fetch('/api/quiz-sessions/complete', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          flashcardId,
-          quizType: 'flashcard',
-          answers: allAnswers,
-          totalQuestions: questions.length,
-          correctAnswers,
-          startTime: quizStartTime,
-        }),
+        body: JSON.stringify({ sessionId }),
       });
+      if (res.ok) {
+        const data = await res.json();
+        if (data.rewards) {
+          gamification.applyQuizRewards(data.rewards);
+        }
+      }
     } catch (error) {
       console.error('Failed to save quiz results:', error);
       // Don't throw - allow quiz to complete even if save fails
     }
-  }, [flashcardId, allAnswers, questions.length, correctAnswers, quizStartTime]);
+  }, [sessionId, gamification]);
 
   const handleNextQuestion = useCallback(() => {
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex((prev) => prev + 1);
-      setSelectedOption(null);
+      setResponse(null);
       setShowExplanation(false);
       setCurrentFeedback(null);
       setQuestionStartTime(Date.now()); // Reset timer for next question
@@ -215,9 +316,16 @@ export function useFlashcardQuiz({ flashcardId, isOpen, onClose }: UseFlashcardQ
     }
   }, [currentQuestionIndex, questions.length, gamification, correctAnswers, firstThreeWrong, saveQuizResults]);
 
-  const handleRetakeQuiz = useCallback(() => {
+  const handleRetakeQuiz = useCallback(async () => {
     resetQuiz();
-  }, [resetQuiz]);
+    try {
+      const layout = await startQuizSession();
+      setQuestions((prev) => arrangeQuestions(prev, layout));
+    } catch (error) {
+      console.error("Error restarting quiz:", error);
+      toast.error("Failed to restart the quiz");
+    }
+  }, [resetQuiz, startQuizSession]);
 
   const handleClose = useCallback(() => {
     resetQuiz();
@@ -227,17 +335,18 @@ export function useFlashcardQuiz({ flashcardId, isOpen, onClose }: UseFlashcardQ
   return {
     questions,
     currentQuestionIndex,
-    selectedOption,
+    response: currentResponse,
     showExplanation,
     correctAnswers,
     loading,
+    submitting,
     quizCompleted,
     firstThreeWrong,
     currentFeedback,
     completionMessage,
     gamification,
     handlers: {
-      handleOptionSelect,
+      handleResponseChange,
       handleSubmitAnswer,
       handleNextQuestion,
       handleRetakeQuiz,
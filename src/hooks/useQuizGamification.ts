@@ -1,6 +1,7 @@
 /**
  * Quiz Gamification Hook
- * Manages streak tracking, XP calculation, and achievements for quiz sessions
+ * Manages streak tracking and XP for quiz sessions
+ * The XP and achievements that are kept are awarded by the server when the quiz is completed
  */
 
 import { useState, useCallback, useMemo } from "react";
@@ -18,11 +19,8 @@ import {
   getProgressToNextLevel,
   type Level,
 } from "@/lib/gamification/xp-system";
-import {
-  checkAchievements,
-  type AchievementId,
-  type QuizStats,
-} from "@/lib/gamification/achievements";
+import type { AchievementId, QuizStats } from "@/lib/gamification/achievements";
+import type { QuizRewards } from "@/lib/gamification/quiz-rewards";
 
 export interface UseQuizGamificationOptions {
   totalQuestions: number;
@@ -36,6 +34,7 @@ export interface UseQuizGamificationReturn {
   currentLevel: Level;
   progressToNextLevel: number;
   earnedAchievements: AchievementId[];
+  lifetimeXP: number | null; // Total XP across quizzes, once the server has awarded this one
   quizStartTime: number;
 
   // Actions
@@ -47,10 +46,10 @@ export interface UseQuizGamificationReturn {
   resetSession: () => void;
   finalizeQuiz: (correctAnswers: number, firstThreeWrong: boolean) => {
     totalXP: number;
-    achievements: AchievementId[];
     completionMessage: MotivationalMessage;
     stats: QuizStats;
   };
+  applyQuizRewards: (rewards: QuizRewards) => void;
 }
 
 export function useQuizGamification(
@@ -65,6 +64,7 @@ export function useQuizGamification(
   const [earnedAchievements, setEarnedAchievements] = useState<AchievementId[]>(
     []
   );
+  const [lifetimeXP, setLifetimeXP] = useState<number | null>(null);
   const [quizStartTime] = useState(Date.now());
 
   // Calculate current level
@@ -111,10 +111,11 @@ export function useQuizGamification(
     setMaxStreak(0);
     setTotalXP(0);
     setEarnedAchievements([]);
+    setLifetimeXP(null);
   }, []);
 
   /**
-   * Finalize quiz and check achievements
+   * Finalize quiz with a provisional XP total until the server's award arrives
    */
   const finalizeQuiz = useCallback(
     (correctAnswers: number, firstThreeWrong: boolean) => {
@@ -136,17 +137,12 @@ export function useQuizGamification(
         firstThreeWrong,
       };
 
-      // Check achievements
-      const achievements = checkAchievements(stats);
-      setEarnedAchievements(achievements);
-
       // Get completion message
       const percentage = (correctAnswers / totalQuestions) * 100;
       const completionMessage = getCompletionMessage(percentage);
 
       return {
         totalXP: finalTotalXP,
-        achievements,
         completionMessage,
         stats,
       };
@@ -154,6 +150,15 @@ export function useQuizGamification(
     [totalQuestions, maxStreak, quizStartTime]
   );
 
+  /**
+   * Show the XP and newly unlocked achievements the server awarded
+   */
+  const applyQuizRewards = useCallback((rewards: QuizRewards) => {
+    setTotalXP(rewards.xpEarned);
+    setEarnedAchievements(rewards.newAchievements);
+    setLifetimeXP(rewards.totalXp);
+  }, []);
+
   return useMemo(
     () => ({
       // State
@@ -163,12 +168,14 @@ export function useQuizGamification(
       currentLevel,
       progressToNextLevel,
       earnedAchievements,
+      lifetimeXP,
       quizStartTime,
 
       // Actions
       recordAnswer,
       resetSession,
       finalizeQuiz,
+      applyQuizRewards,
     }),
     [
       currentStreak,
@@ -177,10 +184,12 @@ export function useQuizGamification(
       currentLevel,
       progressToNextLevel,
       earnedAchievements,
+      lifetimeXP,
       quizStartTime,
       recordAnswer,
       resetSession,
       finalizeQuiz,
+      applyQuizRewards,
     ]
   );
 }
@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from "react";
+
+export interface ResumableQuiz {
+  sessionId: string;
+  deckId: string;
+  deckName: string;
+  answeredCount: number;
+  totalQuestions: number;
+  startedAt: string;
+}
+
+/**
+ * Unfinished deck quiz the user can continue, if any
+ * Call refresh after the quiz modal closes to pick up new progress
+ */
+export function useResumableQuiz(deckId: string, enabled: boolean) {
+  const [resumableQuiz, setResumableQuiz] = useState<ResumableQuiz | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!deckId || !enabled) return;
+    try {
+      const res = await fetch(`/api/quiz-sessions/in-progress?deckId=${encodeURIComponent(deckId)}`);
+      if (!res.ok) return;
+      const data = await res.json();
+      setResumableQuiz(data.quizzes?.[0] ?? null);
+    } catch (error) {
+      console.error("Error checking for an unfinished quiz:", error);
+    }
+  }, [deckId, enabled]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { resumableQuiz, refresh };
+}
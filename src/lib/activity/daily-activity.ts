@@ -0,0 +1,222 @@
+/**
+ * Daily Activity
+ * Records what a learner did on each local day and keeps their streak in step with it.
+ * Card ratings, quiz answers and completed sessions all feed the same table, so a session
+ * closed without ending still counts, and every reader sees the same streak.
+ */
+
+import { db } from '@/lib/db';
+import { userDailyActivity, userStats } from '@/lib/db/schema';
+import { and, asc, eq, gte, inArray, lte, sql } from 'drizzle-orm';
+import { DAILY_CARD_LIMIT_CONFIG, getLocalDateString, resolveTimeZone } from '@/lib/daily-card-limit';
+import { addDays } from '@/lib/planner/study-plan';
+import type { DailyActivity } from '@/lib/history/activity-heatmap';
+import { EMPTY_STREAK, applyActivityDay, getStreakSummary, type StreakState, type StreakSummary } from './streaks';
+
+export type ActivityCounts = Omit<DailyActivity, 'date'>;
+
+export type ActivityDelta = Partial<ActivityCounts>;
+
+export type ActivityDay = DailyActivity & { frozen: boolean };
+
+export interface StreakOverview {
+  streak: StreakSummary;
+  today: string;
+  recentActivity: ActivityDay[]; // Oldest first, ending today
+}
+
+type StreakColumns = Pick<
+  typeof userStats.$inferSelect,
+  'studyStreakDays' | 'longestStreakDays' | 'streakFreezeTokens' | 'lastStreakDate' | 'timezone'
+>;
+
+const streakColumns = {
+  studyStreakDays: userStats.studyStreakDays,
+  longestStreakDays: userStats.longestStreakDays,
+  streakFreezeTokens: userStats.streakFreezeTokens,
+  lastStreakDate: userStats.lastStreakDate,
+  timezone: userStats.timezone,
+};
+
+const ACTIVITY_COLUMNS = ['cardsStudied', 'questionsAnswered', 'studySessions', 'quizSessions', 'studySeconds'] as const;
+
+export function toStreakState(stats: StreakColumns | undefined): StreakState {
+  if (!stats) {
+    return EMPTY_STREAK;
+  }
+  return {
+    currentStreak: stats.studyStreakDays ?? 0,
+    longestStreak: stats.longestStreakDays ?? 0,
+    freezeTokens: stats.streakFreezeTokens ?? 0,
+    lastStreakDate: stats.lastStreakDate,
+  };
+}
+
+/**
+ * Today's date in the timezone stored for the user
+ */
+export function getStoredLocalDate(stats: Pick<StreakColumns, 'timezone'> | undefined, now: Date = new Date()): string {
+  const timeZone = resolveTimeZone(stats?.timezone) ?? DAILY_CARD_LIMIT_CONFIG.DEFAULT_TIMEZONE;
+  return getLocalDateString(now, timeZone);
+}
+
+/**
+ * Add activity to the user's current local day and extend their streak
+ * The stats row is locked so concurrent requests on a new day count it once
+ */
+export async function recordDailyActivity(
+  userId: string,
+  delta: ActivityDelta,
+  timeZone: string,
+  now: Date = new Date()
+): Promise<StreakSummary> {
+  const activityDate = getLocalDateString(now, timeZone);
+  const increments = Object.fromEntries(
+    ACTIVITY_COLUMNS.map((column) => [column, sql`${userDailyActivity[column]} + ${delta[column] ?? 0}`])
+  );
+
+  return db.transaction(async (tx) => {
+    // Users created before stats existed get a row to hold their streak
+    await tx.insert(userStats).values({ clerkUserId: userId }).onConflictDoNothing();
+
+    const [stats] = await tx
+      .select(streakColumns)
+      .from(userStats)
+      .where(eq(userStats.clerkUserId, userId))
+      .for('update');
+
+    await tx
+      .insert(userDailyActivity)
+      .values({ clerkUserId: userId, activityDate, ...delta })
+      .onConflictDoUpdate({
+        target: [userDailyActivity.clerkUserId, userDailyActivity.activityDate],
+        set: { ...increments, frozen: false, updatedAt: now },
+      });
+
+    const { state, frozenDates } = applyActivityDay(toStreakState(stats), activityDate);
+
+    if (frozenDates.length > 0) {
+      await tx
+        .insert(userDailyActivity)
+        .values(frozenDates.map((date) => ({ clerkUserId: userId, activityDate: date, frozen: true })))
+        .onConflictDoNothing();
+    }
+
+    await tx
+      .update(userStats)
+      .set({
+        studyStreakDays: state.currentStreak,
+        longestStreakDays: state.longestStreak,
+        streakFreezeTokens: state.freezeTokens,
+        lastStreakDate: state.lastStreakDate,
+        lastActiveDate: now,
+        timezone: timeZone,
+        updatedAt: now,
+      })
+      .where(eq(userStats.clerkUserId, userId));
+
+    return getStreakSummary(state, activityDate);
+  });
+}
+
+/**
+ * The user's streak as of today in their stored timezone
+ */
+export async function getUserStreak(userId: string, now: Date = new Date()): Promise<StreakSummary> {
+  const [stats] = await db
+    .select(streakColumns)
+    .from(userStats)
+    .where(eq(userStats.clerkUserId, userId))
+    .limit(1);
+
+  return getStreakSummary(toStreakState(stats), getStoredLocalDate(stats, now));
+}
+
+/**
+ * The user's streak with their activity over the last days, both as of today in their stored timezone
+ */
+export async function getStreakOverview(userId: string, days: number, now: Date = new Date()): Promise<StreakOverview> {
+  const [stats] = await db
+    .select(streakColumns)
+    .from(userStats)
+    .where(eq(userStats.clerkUserId, userId))
+    .limit(1);
+
+  const today = getStoredLocalDate(stats, now);
+  const recentActivity = await getRecentActivity(userId, today, days);
+
+  return { streak: getStreakSummary(toStreakState(stats), today), today, recentActivity };
+}
+
+/**
+ * Streaks of several users, for admin analytics
+ */
+export async function getUserStreaks(userIds: string[], now: Date = new Date()): Promise<Map<string, StreakSummary>> {
+  if (userIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .select({ clerkUserId: userStats.clerkUserId, ...streakColumns })
+    .from(userStats)
+    .where(inArray(userStats.clerkUserId, userIds));
+
+  return new Map(rows.map((row) => [row.clerkUserId, getStreakSummary(toStreakState(row), getStoredLocalDate(row, now))]));
+}
+
+/**
+ * Activity on each local day from one date to another, oldest first; days without activity are left out
+ */
+export async function getActivityBetween(
+  userId: string,
+  from: string,
+  to: string
+): Promise<ActivityDay[]> {
+  return db
+    .select({
+      date: userDailyActivity.activityDate,
+      cardsStudied: userDailyActivity.cardsStudied,
+      questionsAnswered: userDailyActivity.questionsAnswered,
+      studySessions: userDailyActivity.studySessions,
+      quizSessions: userDailyActivity.quizSessions,
+      studySeconds: userDailyActivity.studySeconds,
+      frozen: userDailyActivity.frozen,
+    })
+    .from(userDailyActivity)
+    .where(
+      and(
+        eq(userDailyActivity.clerkUserId, userId),
+        gte(userDailyActivity.activityDate, from),
+        lte(userDailyActivity.activityDate, to)
+      )
+    )
+    .orderBy(asc(userDailyActivity.activityDate));
+}
+
+/**
+ * The last days up to today, oldest first, with empty days filled in
+ */
+export async function getRecentActivity(
+  userId: string,
+  today: string,
+  days: number
+): Promise<ActivityDay[]> {
+  const from = addDays(today, -(days - 1));
+  const rows = await getActivityBetween(userId, from, today);
+  const byDate = new Map(rows.map((row) => [row.date, row]));
+
+  return Array.from({ length: days }, (_, index) => {
+    const date = addDays(from, index);
+    return (
+      byDate.get(date) ?? {
+        date,
+        cardsStudied: 0,
+        questionsAnswered: 0,
+        studySessions: 0,
+        quizSessions: 0,
+        studySeconds: 0,
+        frozen: false,
+      }
+    );
+  });
+}
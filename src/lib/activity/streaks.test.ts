@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_STREAK, STREAK_CONFIG, applyActivityDay, getStreakSummary, type StreakState } from './streaks';
+
+function streak(overrides: Partial<StreakState> = {}): StreakState {
+  return { currentStreak: 3, longestStreak: 5, freezeTokens: 0, lastStreakDate: '2026-03-02', ...overrides };
+}
+
+describe('applyActivityDay', () => {
+  it('starts a streak on the first day of activity', () => {
+    const { state } = applyActivityDay(EMPTY_STREAK, '2026-03-02');
+
+    expect(state).toEqual({ currentStreak: 1, longestStreak: 1, freezeTokens: 0, lastStreakDate: '2026-03-02' });
+  });
+
+  it('extends the streak on the next day, across month ends', () => {
+    const { state } = applyActivityDay(streak({ lastStreakDate: '2026-02-28' }), '2026-03-01');
+
+    expect(state.currentStreak).toBe(4);
+    expect(state.longestStreak).toBe(5);
+  });
+
+  it('counts a day only once', () => {
+    const before = streak();
+    const update = applyActivityDay(before, '2026-03-02');
+
+    expect(update.state).toBe(before);
+    expect(applyActivityDay(before, '2026-03-01').state).toBe(before);
+  });
+
+  it('resets the streak after a missed day without freezes but keeps the longest streak', () => {
+    const { state, frozenDates } = applyActivityDay(streak({ currentStreak: 8, longestStreak: 8 }), '2026-03-04');
+
+    expect(state.currentStreak).toBe(1);
+    expect(state.longestStreak).toBe(8);
+    expect(frozenDates).toEqual([]);
+  });
+
+  it('spends freeze tokens on the missed days to keep the streak', () => {
+    const { state, frozenDates } = applyActivityDay(streak({ freezeTokens: 2 }), '2026-03-05');
+
+    expect(frozenDates).toEqual(['2026-03-03', '2026-03-04']);
+    expect(state.freezeTokens).toBe(0);
+    expect(state.currentStreak).toBe(4);
+  });
+
+  it('does not spend tokens when there are too few to cover the gap', () => {
+    const { state, frozenDates } = applyActivityDay(streak({ freezeTokens: 1 }), '2026-03-05');
+
+    expect(frozenDates).toEqual([]);
+    expect(state.freezeTokens).toBe(1);
+    expect(state.currentStreak).toBe(1);
+  });
+
+  it('earns a freeze token every week of streak, up to the maximum', () => {
+    const week = STREAK_CONFIG.FREEZE_EARNED_EVERY_DAYS;
+    const earned = applyActivityDay(streak({ currentStreak: week - 1 }), '2026-03-03');
+    const capped = applyActivityDay(
+      streak({ currentStreak: 2 * week - 1, freezeTokens: STREAK_CONFIG.MAX_FREEZE_TOKENS }),
+      '2026-03-03'
+    );
+
+    expect(earned.tokenEarned).toBe(true);
+    expect(earned.state.freezeTokens).toBe(1);
+    expect(capped.tokenEarned).toBe(false);
+    expect(capped.state.freezeTokens).toBe(STREAK_CONFIG.MAX_FREEZE_TOKENS);
+  });
+});
+
+describe('getStreakSummary', () => {
+  it('keeps the streak until the end of the day after the last study day', () => {
+    expect(getStreakSummary(streak(), '2026-03-02')).toMatchObject({ currentStreak: 3, activeToday: true });
+    expect(getStreakSummary(streak(), '2026-03-03')).toMatchObject({ currentStreak: 3, activeToday: false, freezesNeeded: 0 });
+  });
+
+  it('shows a lapsed streak as zero unless freezes can still cover it', () => {
+    expect(getStreakSummary(streak(), '2026-03-04').currentStreak).toBe(0);
+    expect(getStreakSummary(streak({ freezeTokens: 1 }), '2026-03-04')).toMatchObject({ currentStreak: 3, freezesNeeded: 1 });
+    expect(getStreakSummary(streak(), '2026-03-04').longestStreak).toBe(5);
+  });
+
+  it('has no streak before any activity', () => {
+    expect(getStreakSummary(EMPTY_STREAK, '2026-03-02')).toEqual({
+      currentStreak: 0,
+      longestStreak: 0,
+      freezeTokens: 0,
+      activeToday: false,
+      freezesNeeded: 0,
+    });
+  });
+});
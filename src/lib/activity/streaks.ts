@@ -0,0 +1,92 @@
+/**
+ * Study Streaks
+ * Consecutive days of study in the learner's timezone. A learner earns a streak freeze
+ * token every week of streak; each token covers one missed day so the streak survives.
+ */
+
+import { addDays, daysBetween } from '@/lib/planner/study-plan';
+
+export const STREAK_CONFIG = {
+  FREEZE_EARNED_EVERY_DAYS: 7, // One token per full week of streak
+  MAX_FREEZE_TOKENS: 2,
+};
+
+export interface StreakState {
+  currentStreak: number;
+  longestStreak: number;
+  freezeTokens: number;
+  lastStreakDate: string | null; // Latest local day counted in the streak
+}
+
+export interface StreakUpdate {
+  state: StreakState;
+  frozenDates: string[]; // Missed days covered by freeze tokens
+  tokenEarned: boolean;
+}
+
+export interface StreakSummary {
+  currentStreak: number;
+  longestStreak: number;
+  freezeTokens: number;
+  activeToday: boolean;
+  freezesNeeded: number; // Tokens the next study day will spend to keep the streak
+}
+
+export const EMPTY_STREAK: StreakState = { currentStreak: 0, longestStreak: 0, freezeTokens: 0, lastStreakDate: null };
+
+/**
+ * Count a day with activity towards the streak
+ * Repeat activity on a counted day, or activity recorded for an earlier day, changes nothing
+ */
+export function applyActivityDay(state: StreakState, date: string): StreakUpdate {
+  if (state.lastStreakDate && date <= state.lastStreakDate) {
+    return { state, frozenDates: [], tokenEarned: false };
+  }
+
+  const missedDays = state.lastStreakDate && state.currentStreak > 0 ? daysBetween(state.lastStreakDate, date) - 1 : null;
+  let freezeTokens = state.freezeTokens;
+  let frozenDates: string[] = [];
+  let currentStreak = 1;
+
+  if (missedDays === 0) {
+    currentStreak = state.currentStreak + 1;
+  } else if (missedDays !== null && missedDays <= freezeTokens) {
+    // Frozen days keep the streak alive but do not lengthen it
+    frozenDates = Array.from({ length: missedDays }, (_, index) => addDays(state.lastStreakDate!, index + 1));
+    freezeTokens -= missedDays;
+    currentStreak = state.currentStreak + 1;
+  }
+
+  const tokenEarned =
+    currentStreak % STREAK_CONFIG.FREEZE_EARNED_EVERY_DAYS === 0 && freezeTokens < STREAK_CONFIG.MAX_FREEZE_TOKENS;
+  if (tokenEarned) {
+    freezeTokens += 1;
+  }
+
+  return {
+    state: {
+      currentStreak,
+      longestStreak: Math.max(state.longestStreak, currentStreak),
+      freezeTokens,
+      lastStreakDate: date,
+    },
+    frozenDates,
+    tokenEarned,
+  };
+}
+
+/**
+ * The streak as of today: it lasts while the days missed since the last study day can still be frozen
+ */
+export function getStreakSummary(state: StreakState, today: string): StreakSummary {
+  const missedDays = state.lastStreakDate ? Math.max(0, daysBetween(state.lastStreakDate, today) - 1) : 0;
+  const alive = state.lastStreakDate !== null && missedDays <= state.freezeTokens;
+
+  return {
+    currentStreak: alive ? state.currentStreak : 0,
+    longestStreak: Math.max(state.longestStreak, state.currentStreak),
+    freezeTokens: state.freezeTokens,
+    activeToday: state.lastStreakDate === today,
+    freezesNeeded: alive ? missedDays : 0,
+  };
+}
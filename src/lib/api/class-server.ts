@@ -1,10 +1,12 @@
 import { auth } from '@clerk/nextjs/server';
 import { cache as reactCache } from 'react';
 import { db } from '@/lib/db';
-import { classes, decks, flashcards, userCardProgress, deckQuizProgress, userQuizProgress } from '@/lib/db/schema';
+import { classes, decks, flashcards, deckQuizProgress, userQuizProgress } from '@/lib/db/schema';
 import { eq, and, inArray, asc } from 'drizzle-orm';
 import { cache } from '@/lib/redis';
 import { CacheKeys, CacheTTL } from '@/lib/redis/cache-keys';
+import { getDeckAggregates } from '@/lib/progress/aggregate-store';
+import { getCardsStudied } from '@/lib/progress/aggregates';
 
 export type Deck = {
   id: string;
@@ -17,6 +19,7 @@ export type Deck = {
   quizProgress?: number; // Quiz mastery percentage
   order: number;
   domainNumber?: number | null; // CISSP domain 1-8
+  isPremium?: boolean; // Requires a paid plan beyond the teaser cards
 };
 
 export type ClassData = {
@@ -81,30 +84,16 @@ export const getClassWithProgress = reactCache(async (classId: string): Promise<
     return null;
   }
 
-  // Calculate progress for each deck
-  // OPTIMIZATION: Fetch all user progress in a single query instead of N queries
+  // Flashcard IDs for the card-level quiz progress below
   const allFlashcardIds = classData.decks.flatMap((deck) =>
     deck.flashcards.map((card) => card.id)
   );
 
-  // Single batch query for all progress records (skip if no flashcards)
-  const allProgressRecords = allFlashcardIds.length > 0
-    ? await db
-        .select()
-        .from(userCardProgress)
-        .where(
-          and(
-            eq(userCardProgress.clerkUserId, userId),
-            inArray(userCardProgress.flashcardId, allFlashcardIds)
-          )
-        )
-    : [];
-
-  // Create a Set for O(1) lookup
-  const studiedCardIds = new Set(allProgressRecords.map((record) => record.flashcardId));
+  // Cards studied per deck come from the deck progress aggregates
+  const allDeckIds = classData.decks.map((deck) => deck.id);
+  const deckAggregates = await getDeckAggregates(userId, allDeckIds);
 
   // OPTIMIZATION: Fetch quiz progress for all decks in a single query
-  const allDeckIds = classData.decks.map((deck) => deck.id);
   const deckQuizProgressRecords = allDeckIds.length > 0
     ? await db
         .select()
@@ -152,7 +141,8 @@ export const getClassWithProgress = reactCache(async (classId: string): Promise<
     const totalCards = flashcardIds.length;
 
     // Count how many cards in this deck are studied
-    const studiedCount = flashcardIds.filter((id) => studiedCardIds.has(id)).length;
+    const aggregate = deckAggregates.get(deck.id);
+    const studiedCount = aggregate ? Math.min(totalCards, getCardsStudied(aggregate)) : 0;
     const progress = totalCards > 0 ? Math.round((studiedCount / totalCards) * 100) : 0;
 
     // Calculate quiz progress
@@ -184,6 +174,7 @@ export const getClassWithProgress = reactCache(async (classId: string): Promise<
       quizProgress,
       order: deck.order,
       domainNumber: deck.domainNumber,
+      isPremium: deck.isPremium ?? false,
     };
   });
 
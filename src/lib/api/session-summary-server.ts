@@ -0,0 +1,89 @@
+import { auth } from '@clerk/nextjs/server';
+import { cache as reactCache } from 'react';
+import { db } from '@/lib/db';
+import { studySessions, studySessionDecks, sessionCards, flashcards, decks } from '@/lib/db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { commonValidators } from '@/lib/api/validate';
+import { buildSessionSummary, type SessionSummary } from '@/lib/study-sessions/summary';
+
+export type SessionSummaryData = {
+  id: string;
+  startedAt: Date;
+  endedAt: Date | null;
+  decks: Array<{
+    deckId: string;
+    deckName: string;
+    cardsStudied: number;
+    studyDuration: number;
+    averageConfidence: string;
+  }>;
+  summary: SessionSummary;
+};
+
+/**
+ * Server-side function to load a study session and its card ratings for the summary page
+ * Returns null when the session does not exist or belongs to another user
+ */
+export const getSessionSummary = reactCache(async (sessionId: string): Promise<SessionSummaryData | null> => {
+  const { userId } = await auth();
+
+  if (!userId || !commonValidators.uuid.safeParse(sessionId).success) {
+    return null;
+  }
+
+  const [session] = await db
+    .select()
+    .from(studySessions)
+    .where(
+      and(
+        eq(studySessions.id, sessionId),
+        eq(studySessions.clerkUserId, userId)
+      )
+    )
+    .limit(1);
+
+  if (!session) {
+    return null;
+  }
+
+  const [ratings, sessionDecks] = await Promise.all([
+    db
+      .select({
+        flashcardId: sessionCards.flashcardId,
+        deckId: flashcards.deckId,
+        question: flashcards.question,
+        confidenceRating: sessionCards.confidenceRating,
+        previousConfidence: sessionCards.previousConfidence,
+        createdAt: sessionCards.createdAt,
+      })
+      .from(sessionCards)
+      .innerJoin(flashcards, eq(sessionCards.flashcardId, flashcards.id))
+      .where(eq(sessionCards.sessionId, sessionId)),
+    db
+      .select({
+        deckId: studySessionDecks.deckId,
+        deckName: decks.name,
+        cardsStudied: studySessionDecks.cardsStudied,
+        studyDuration: studySessionDecks.studyDuration,
+        averageConfidence: studySessionDecks.averageConfidence,
+      })
+      .from(studySessionDecks)
+      .innerJoin(decks, eq(studySessionDecks.deckId, decks.id))
+      .where(eq(studySessionDecks.sessionId, sessionId))
+      .orderBy(asc(studySessionDecks.createdAt)),
+  ]);
+
+  return {
+    id: session.id,
+    startedAt: session.startedAt,
+    endedAt: session.endedAt,
+    decks: sessionDecks.map((deck) => ({
+      deckId: deck.deckId,
+      deckName: deck.deckName,
+      cardsStudied: deck.cardsStudied ?? 0,
+      studyDuration: deck.studyDuration ?? 0,
+      averageConfidence: deck.averageConfidence ?? '0.00',
+    })),
+    summary: buildSessionSummary(ratings, session.startedAt, session.endedAt),
+  };
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { classBundleManifestSchema, type ClassBundleManifest } from '@/lib/validations/class-bundle';
+import { bundleMediaPath, readClassBundle, writeClassBundle } from './archive';
+
+const MEDIA_ID = '00000000-0000-4000-8000-000000000009';
+
+const manifest: ClassBundleManifest = classBundleManifestSchema.parse({
+  format: 'cissp-mastery-class-bundle',
+  version: 1,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  class: { id: '00000000-0000-4000-8000-000000000001', name: 'Security and Risk Management' },
+  topics: [{ topicCode: '1.2', domainNumber: 1, topicName: 'Security concepts', subTopics: [{ subTopicName: 'CIA triad' }] }],
+  decks: [
+    {
+      id: '00000000-0000-4000-8000-000000000002',
+      name: 'Risk',
+      flashcards: [
+        {
+          id: '00000000-0000-4000-8000-000000000003',
+          question: '<p>What is risk?</p>',
+          answer: '<p>Threat times vulnerability</p>',
+          media: [
+            {
+              id: MEDIA_ID,
+              file: bundleMediaPath({ id: MEDIA_ID, fileName: 'Diagram.PNG' }),
+              fileName: 'Diagram.PNG',
+              mimeType: 'image/png',
+              placement: 'question',
+              order: 0,
+            },
+          ],
+        },
+      ],
+      deckQuizQuestions: [
+        {
+          id: '00000000-0000-4000-8000-000000000004',
+          question: 'Which control is preventive?',
+          options: [
+            { id: 'a', text: 'Firewall rule', isCorrect: true },
+            { id: 'b', text: 'Audit log', isCorrect: false },
+          ],
+          topic_code: '1.2',
+          sub_topic_name: 'CIA triad',
+          status: 'in_review',
+        },
+      ],
+    },
+  ],
+});
+
+describe('class bundle archive', () => {
+  it('round-trips a manifest and its images', () => {
+    const image = new Uint8Array([137, 80, 78, 71]);
+    const read = readClassBundle(writeClassBundle(manifest, new Map([[`media/${MEDIA_ID}.png`, image]])));
+
+    expect(read.success).toBe(true);
+    if (!read.success) return;
+    expect(read.manifest).toEqual(manifest);
+    expect(read.manifest.decks[0].deckQuizQuestions[0]).toMatchObject({ status: 'in_review', topic_code: '1.2' });
+    expect(read.files.get(`media/${MEDIA_ID}.png`)).toEqual(image);
+  });
+
+  it('unzips only the images the manifest lists, each within the image size limit', () => {
+    const unlisted = writeClassBundle(manifest, new Map([
+      [`media/${MEDIA_ID}.png`, new Uint8Array([137, 80, 78, 71])],
+      ['media/unlisted.png', new Uint8Array([1, 2, 3])],
+    ]));
+    const read = readClassBundle(unlisted);
+
+    expect(read.success).toBe(true);
+    if (!read.success) return;
+    expect([...read.files.keys()]).toEqual([`media/${MEDIA_ID}.png`]);
+
+    const oversized = zipSync({
+      'manifest.json': strToU8(JSON.stringify(manifest)),
+      [`media/${MEDIA_ID}.png`]: new Uint8Array(6 * 1024 * 1024),
+    });
+    expect(readClassBundle(oversized)).toEqual({
+      success: false,
+      error: `The image media/${MEDIA_ID}.png is larger than 5MB`,
+    });
+  });
+
+  it('rejects bundles with a missing image or an invalid manifest', () => {
+    expect(readClassBundle(writeClassBundle(manifest, new Map()))).toEqual({
+      success: false,
+      error: `The bundle is missing the image media/${MEDIA_ID}.png`,
+    });
+
+    const invalid = { ...manifest, decks: [{ ...manifest.decks[0], name: '' }] };
+    expect(readClassBundle(zipSync({ 'manifest.json': strToU8(JSON.stringify(invalid)) }))).toEqual({
+      success: false,
+      error: 'decks.0.name: Name is required',
+    });
+
+    expect(readClassBundle(zipSync({ 'manifest.json': strToU8(JSON.stringify({ ...manifest, version: 2 })) }))).toEqual({
+      success: false,
+      error: 'version: This bundle was exported by a newer version of the app',
+    });
+  });
+});
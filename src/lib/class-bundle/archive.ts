@@ -0,0 +1,111 @@
+/**
+ * Class Bundle Archive
+ * A class bundle is a zip holding manifest.json, which describes the class, its decks, cards,
+ * quiz questions and topic mappings, and the card images under media/.
+ */
+
+import { strFromU8, strToU8, zipSync, type Zippable } from 'fflate';
+import { unzipWithinLimits } from '@/lib/utils/unzip';
+import { classBundleManifestSchema, type ClassBundleManifest } from '@/lib/validations/class-bundle';
+
+const MANIFEST_FILE = 'manifest.json';
+const MAX_MEDIA_FILE_SIZE = 5 * 1024 * 1024;
+const MAX_MANIFEST_SIZE = 50 * 1024 * 1024;
+const MAX_UNZIPPED_SIZE = 300 * 1024 * 1024; // Manifest and images together
+
+export type ReadBundleResult =
+  | { success: true; manifest: ClassBundleManifest; files: Map<string, Uint8Array> }
+  | { success: false; error: string };
+
+/**
+ * Path of an image inside the bundle
+ */
+export function bundleMediaPath(media: { id: string; fileName: string }): string {
+  const extension = media.fileName.includes('.') ? media.fileName.split('.').pop()!.toLowerCase() : 'bin';
+  return `media/${media.id}.${extension}`;
+}
+
+/**
+ * Zip a manifest and its images
+ * Images are stored as they are, since they are already compressed.
+ */
+export function writeClassBundle(manifest: ClassBundleManifest, files: Map<string, Uint8Array>): Uint8Array {
+  const entries: Zippable = {
+    [MANIFEST_FILE]: strToU8(JSON.stringify(manifest, null, 2)),
+  };
+  for (const [path, data] of files) {
+    entries[path] = [data, { level: 0 }];
+  }
+  return zipSync(entries);
+}
+
+function unzipError(error: 'invalid' | 'too_large'): string {
+  return error === 'too_large' ? 'The bundle unzips to more than 300MB' : 'The file is not a valid zip archive';
+}
+
+/**
+ * Unzip a bundle and validate its manifest, checking that every image it lists is included
+ * The manifest is read first, then only the images it lists are unzipped.
+ */
+export function readClassBundle(data: Uint8Array): ReadBundleResult {
+  const unzipped = unzipWithinLimits(data, (name) => name === MANIFEST_FILE && MAX_MANIFEST_SIZE, MAX_UNZIPPED_SIZE);
+  if (!unzipped.success) {
+    return { success: false, error: unzipError(unzipped.error) };
+  }
+
+  if (unzipped.oversized.includes(MANIFEST_FILE)) {
+    return { success: false, error: 'The bundle manifest is larger than 50MB' };
+  }
+
+  const manifestFile = unzipped.files[MANIFEST_FILE];
+  if (!manifestFile) {
+    return { success: false, error: 'The bundle has no manifest.json' };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(strFromU8(manifestFile));
+  } catch {
+    return { success: false, error: 'The bundle manifest is not valid JSON' };
+  }
+
+  const parsed = classBundleManifestSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return {
+      success: false,
+      error: issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+    };
+  }
+
+  const imagePaths = new Set(
+    parsed.data.decks.flatMap((deck) => deck.flashcards.flatMap((card) => card.media.map((image) => image.file)))
+  );
+
+  const images = imagePaths.size > 0
+    ? unzipWithinLimits(
+        data,
+        (name) => imagePaths.has(name) && MAX_MEDIA_FILE_SIZE,
+        MAX_UNZIPPED_SIZE - unzipped.size
+      )
+    : null;
+  if (images && !images.success) {
+    return { success: false, error: unzipError(images.error) };
+  }
+
+  const media = new Map<string, Uint8Array>();
+  for (const path of imagePaths) {
+    const file = images?.files[path];
+    if (!file) {
+      return {
+        success: false,
+        error: images?.oversized.includes(path)
+          ? `The image ${path} is larger than 5MB`
+          : `The bundle is missing the image ${path}`,
+      };
+    }
+    media.set(path, file);
+  }
+
+  return { success: true, manifest: parsed.data, files: media };
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { classBundleManifestSchema, type ClassBundleManifest } from '@/lib/validations/class-bundle';
+import { emptyExistingContent, planClassBundle, summarizePlan } from './plan';
+
+const CLASS_ID = '00000000-0000-4000-8000-000000000001';
+const DECK_ID = '00000000-0000-4000-8000-000000000002';
+const CARD_ID = '00000000-0000-4000-8000-000000000003';
+const QUESTION_ID = '00000000-0000-4000-8000-000000000004';
+const DECK_QUESTION_ID = '00000000-0000-4000-8000-000000000005';
+
+const quizQuestion = {
+  question: 'Which control is preventive?',
+  options: [
+    { id: 'a', text: 'Firewall rule', isCorrect: true },
+    { id: 'b', text: 'Audit log', isCorrect: false },
+  ],
+};
+
+const manifest: ClassBundleManifest = classBundleManifestSchema.parse({
+  format: 'cissp-mastery-class-bundle',
+  version: 1,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  class: { id: CLASS_ID, name: 'Security and Risk Management' },
+  decks: [
+    {
+      id: DECK_ID,
+      name: 'Risk',
+      flashcards: [
+        {
+          id: CARD_ID,
+          question: '<p>What is risk?</p>',
+          answer: '<p>Threat times vulnerability</p>',
+          quizQuestions: [{ id: QUESTION_ID, ...quizQuestion }],
+        },
+      ],
+      deckQuizQuestions: [{ id: DECK_QUESTION_ID, ...quizQuestion }],
+    },
+  ],
+});
+
+function counter() {
+  let next = 100;
+  return () => `new-${next++}`;
+}
+
+describe('planClassBundle', () => {
+  it('creates everything under its bundle id when nothing exists yet', () => {
+    const plan = planClassBundle(manifest, emptyExistingContent(), 'skip', counter());
+
+    expect(plan.class).toEqual({ sourceId: CLASS_ID, id: CLASS_ID, action: 'create' });
+    expect(plan.decks[0].flashcards[0].quizQuestions[0]).toEqual({ sourceId: QUESTION_ID, id: QUESTION_ID, action: 'create' });
+    expect(summarizePlan(plan).flashcards).toEqual({ create: 1, update: 0, skip: 0 });
+  });
+
+  it('skips or overwrites items imported before, depending on the mode', () => {
+    const existing = emptyExistingContent();
+    existing.classes.set(CLASS_ID, null);
+    existing.decks.set(DECK_ID, CLASS_ID);
+    existing.flashcards.set(CARD_ID, DECK_ID);
+
+    const skipped = summarizePlan(planClassBundle(manifest, existing, 'skip', counter()));
+    expect(skipped.decks).toEqual({ create: 0, update: 0, skip: 1 });
+    expect(skipped.quizQuestions).toEqual({ create: 1, update: 0, skip: 0 });
+
+    const overwritten = summarizePlan(planClassBundle(manifest, existing, 'overwrite', counter()));
+    expect(overwritten.classes).toEqual({ create: 0, update: 1, skip: 0 });
+    expect(overwritten.flashcards).toEqual({ create: 0, update: 1, skip: 0 });
+  });
+
+  it('remaps the whole tree when duplicating', () => {
+    const existing = emptyExistingContent();
+    existing.classes.set(CLASS_ID, null);
+    existing.decks.set(DECK_ID, CLASS_ID);
+    existing.flashcards.set(CARD_ID, DECK_ID);
+    existing.quizQuestions.set(QUESTION_ID, CARD_ID);
+    existing.deckQuizQuestions.set(DECK_QUESTION_ID, DECK_ID);
+
+    const plan = planClassBundle(manifest, existing, 'duplicate', counter());
+
+    expect(plan.class.id).toBe('new-100');
+    expect(plan.decks[0]).toMatchObject({ id: 'new-101', action: 'create' });
+    expect(plan.decks[0].flashcards[0]).toMatchObject({ id: 'new-102', action: 'create' });
+    expect(summarizePlan(plan).deckQuizQuestions).toEqual({ create: 1, update: 0, skip: 0 });
+  });
+
+  it('gives a new id to an item whose id is taken under another parent', () => {
+    const existing = emptyExistingContent();
+    existing.decks.set(DECK_ID, '00000000-0000-4000-8000-0000000000ff');
+
+    const plan = planClassBundle(manifest, existing, 'overwrite', counter());
+
+    expect(plan.class).toMatchObject({ id: CLASS_ID, action: 'create' });
+    expect(plan.decks[0]).toMatchObject({ sourceId: DECK_ID, id: 'new-100', action: 'create' });
+  });
+});
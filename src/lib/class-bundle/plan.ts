@@ -0,0 +1,135 @@
+/**
+ * Class Bundle Import Plan
+ * Decides, for every item in a bundle, whether the import creates, updates or skips it and
+ * which id it gets in this environment.
+ *
+ * Items keep their bundle ids where they can, so importing the same bundle again finds them.
+ * An item conflicts when a row with its id already exists under the same parent; the
+ * conflict mode then decides:
+ * - skip: the existing row is left as it is
+ * - overwrite: the existing row is updated from the bundle
+ * - duplicate: the item is created again under a new id
+ * An item whose id is taken under a different parent is always created under a new id, and
+ * children of a remapped item follow it, since their own ids are taken by the original's children.
+ */
+
+import type { BundleConflictMode, ClassBundleManifest } from '@/lib/validations/class-bundle';
+
+export type BundleAction = 'create' | 'update' | 'skip';
+
+export const BUNDLE_ENTITY_KINDS = ['classes', 'decks', 'flashcards', 'media', 'quizQuestions', 'deckQuizQuestions'] as const;
+
+export type BundleEntityKind = (typeof BUNDLE_ENTITY_KINDS)[number];
+
+/**
+ * Rows that already exist with an id used in the bundle, mapped to the id of their parent
+ * (null for classes)
+ */
+export type ExistingContent = Record<BundleEntityKind, Map<string, string | null>>;
+
+export interface PlannedItem {
+  sourceId: string; // Id in the bundle
+  id: string; // Id in this environment
+  action: BundleAction;
+}
+
+export interface PlannedFlashcard extends PlannedItem {
+  media: PlannedItem[];
+  quizQuestions: PlannedItem[];
+}
+
+export interface PlannedDeck extends PlannedItem {
+  flashcards: PlannedFlashcard[];
+  deckQuizQuestions: PlannedItem[];
+}
+
+export interface BundlePlan {
+  class: PlannedItem;
+  decks: PlannedDeck[];
+}
+
+export type BundlePlanSummary = Record<BundleEntityKind, Record<BundleAction, number>>;
+
+export function emptyExistingContent(): ExistingContent {
+  return {
+    classes: new Map(),
+    decks: new Map(),
+    flashcards: new Map(),
+    media: new Map(),
+    quizQuestions: new Map(),
+    deckQuizQuestions: new Map(),
+  };
+}
+
+/**
+ * Plan the import of a bundle against the rows that already exist
+ * @param createId - Generates the id of a remapped item
+ */
+export function planClassBundle(
+  manifest: ClassBundleManifest,
+  existing: ExistingContent,
+  mode: BundleConflictMode,
+  createId: () => string = () => crypto.randomUUID()
+): BundlePlan {
+  const seen = new Set<string>();
+
+  const planItem = (kind: BundleEntityKind, sourceId: string, parentId: string | null): PlannedItem => {
+    // An id used twice in the bundle can only keep it once
+    const repeated = seen.has(`${kind}:${sourceId}`);
+    seen.add(`${kind}:${sourceId}`);
+
+    const rows = existing[kind];
+    if (!rows.has(sourceId)) {
+      return { sourceId, id: repeated ? createId() : sourceId, action: 'create' };
+    }
+    if (repeated || rows.get(sourceId) !== parentId || mode === 'duplicate') {
+      return { sourceId, id: createId(), action: 'create' };
+    }
+    return { sourceId, id: sourceId, action: mode === 'overwrite' ? 'update' : 'skip' };
+  };
+
+  const bundleClass = planItem('classes', manifest.class.id, null);
+
+  return {
+    class: bundleClass,
+    decks: manifest.decks.map((deck) => {
+      const plannedDeck = planItem('decks', deck.id, bundleClass.id);
+      return {
+        ...plannedDeck,
+        flashcards: deck.flashcards.map((card) => {
+          const plannedCard = planItem('flashcards', card.id, plannedDeck.id);
+          return {
+            ...plannedCard,
+            media: card.media.map((media) => planItem('media', media.id, plannedCard.id)),
+            quizQuestions: card.quizQuestions.map((question) => planItem('quizQuestions', question.id, plannedCard.id)),
+          };
+        }),
+        deckQuizQuestions: deck.deckQuizQuestions.map((question) =>
+          planItem('deckQuizQuestions', question.id, plannedDeck.id)
+        ),
+      };
+    }),
+  };
+}
+
+/**
+ * How many items of each kind a plan creates, updates and skips
+ */
+export function summarizePlan(plan: BundlePlan): BundlePlanSummary {
+  const summary = Object.fromEntries(
+    BUNDLE_ENTITY_KINDS.map((kind) => [kind, { create: 0, update: 0, skip: 0 }])
+  ) as BundlePlanSummary;
+
+  summary.classes[plan.class.action] += 1;
+  for (const deck of plan.decks) {
+    summary.decks[deck.action] += 1;
+    for (const card of deck.flashcards) {
+      summary.flashcards[card.action] += 1;
+      card.media.forEach((media) => (summary.media[media.action] += 1));
+      card.quizQuestions.forEach((question) => (summary.quizQuestions[question.action] += 1));
+    }
+    deck.deckQuizQuestions.forEach((question) => (summary.deckQuizQuestions[question.action] += 1));
+  }
+
+  return summary;
+}
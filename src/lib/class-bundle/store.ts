@@ -0,0 +1,597 @@
+/**
+ * Class Bundle Store
+ * Builds the bundle of a class and writes an imported bundle following its import plan.
+ * Imported flashcards and deck quiz questions start as drafts and overwritten ones keep their
+ * status here, so nothing reaches learners without review. Every flashcard and quiz question
+ * the import creates or overwrites gets a revision. An import is written in one transaction.
+ */
+
+import { db } from '@/lib/db';
+import {
+  classes,
+  deckQuizQuestions,
+  decks,
+  flashcardMedia,
+  flashcards,
+  quizQuestions,
+  subTopics,
+  topics,
+} from '@/lib/db/schema';
+import { asc, eq, inArray } from 'drizzle-orm';
+import { uploadImageToBlob } from '@/lib/blob';
+import { downloadImage } from '@/lib/deck-transfer/store';
+import { toQuizFileQuestion } from '@/lib/deck-transfer/records';
+import {
+  getFlashcardSnapshot,
+  recordRevisions,
+  toDeckQuizQuestionSnapshot,
+  toQuizQuestionSnapshot,
+  type RevisionChange,
+} from '@/lib/revisions/store';
+import type { QuizQuestion } from '@/lib/validations/quiz';
+import {
+  CLASS_BUNDLE_FORMAT,
+  CLASS_BUNDLE_VERSION,
+  type BundleConflictMode,
+  type BundleTopic,
+  type ClassBundleManifest,
+} from '@/lib/validations/class-bundle';
+import { bundleMediaPath } from './archive';
+import {
+  emptyExistingContent,
+  planClassBundle,
+  summarizePlan,
+  type BundlePlan,
+  type BundlePlanSummary,
+  type ExistingContent,
+} from './plan';
+
+type Executor = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type UploadedImage = Awaited<ReturnType<typeof uploadImageToBlob>>;
+
+export interface TopicSummary {
+  topicsCreated: number;
+  subTopicsCreated: number;
+}
+
+export interface ClassBundlePreview {
+  classId: string;
+  plan: BundlePlan;
+  summary: BundlePlanSummary;
+  topics: TopicSummary;
+}
+
+export interface ClassBundleImportResult extends ClassBundlePreview {
+  warnings: string[]; // Images that could not be stored
+}
+
+/**
+ * The manifest and image files of a class bundle, or null when the class does not exist
+ * Images that can no longer be downloaded are left out of the bundle.
+ */
+export async function loadClassBundle(
+  classId: string
+): Promise<{ manifest: ClassBundleManifest; files: Map<string, Uint8Array>; missingMedia: number } | null> {
+  const classData = await db.query.classes.findFirst({
+    where: eq(classes.id, classId),
+    with: {
+      decks: {
+        orderBy: [asc(decks.order)],
+        with: {
+          flashcards: {
+            orderBy: [asc(flashcards.order)],
+            with: {
+              media: { orderBy: [asc(flashcardMedia.order)] },
+              quizQuestions: { orderBy: [asc(quizQuestions.order)] },
+            },
+          },
+          quizQuestions: {
+            orderBy: [asc(deckQuizQuestions.order)],
+            with: { subTopic: { with: { topic: true } } },
+          },
+        },
+      },
+    },
+  });
+  if (!classData) {
+    return null;
+  }
+
+  const files = new Map<string, Uint8Array>();
+  let missingMedia = 0;
+  const bundleTopics = new Map<string, BundleTopic>();
+
+  const bundleDecks = [];
+  for (const deck of classData.decks) {
+    const bundleCards = [];
+    for (const card of deck.flashcards) {
+      const media = [];
+      for (const image of card.media) {
+        const file = bundleMediaPath(image);
+        const data = await downloadImage(image.fileUrl);
+        if (!data) {
+          missingMedia += 1;
+          continue;
+        }
+        files.set(file, data);
+        media.push({
+          id: image.id,
+          file,
+          fileName: image.fileName,
+          mimeType: image.mimeType,
+          placement: image.placement as 'question' | 'answer',
+          order: image.order,
+          altText: image.altText,
+        });
+      }
+
+      bundleCards.push({
+        id: card.id,
+        question: card.question,
+        answer: card.answer,
+        explanation: card.explanation,
+        order: card.order,
+        difficulty: card.difficulty,
+        status: card.status,
+        media,
+        quizQuestions: card.quizQuestions.map((question) => ({
+          id: question.id,
+          order: question.order,
+          ...toQuizFileQuestion(question),
+        })),
+      });
+    }
+
+    bundleDecks.push({
+      id: deck.id,
+      name: deck.name,
+      description: deck.description,
+      type: deck.type as 'flashcard' | 'quiz',
+      order: deck.order,
+      isPremium: deck.isPremium ?? false,
+      isPublished: deck.isPublished ?? true,
+      domainNumber: deck.domainNumber,
+      flashcards: bundleCards,
+      deckQuizQuestions: deck.quizQuestions.map((question) => {
+        const topic = question.subTopic?.topic;
+        if (topic && question.subTopic) {
+          const entry = bundleTopics.get(topic.id) ?? {
+            topicCode: topic.topicCode,
+            domainNumber: topic.domainNumber,
+            topicName: topic.topicName,
+            order: topic.order,
+            subTopics: [],
+          };
+          if (!entry.subTopics.some((subTopic) => subTopic.subTopicName === question.subTopic!.subTopicName)) {
+            entry.subTopics.push({ subTopicName: question.subTopic.subTopicName, order: question.subTopic.order });
+          }
+          bundleTopics.set(topic.id, entry);
+        }
+
+        return {
+          id: question.id,
+          order: question.order,
+          difficulty: question.difficulty,
+          status: question.status,
+          ...toQuizFileQuestion(
+            question,
+            topic && question.subTopic
+              ? { topicCode: topic.topicCode, subTopicName: question.subTopic.subTopicName }
+              : null
+          ),
+        };
+      }),
+    });
+  }
+
+  return {
+    manifest: {
+      format: CLASS_BUNDLE_FORMAT,
+      version: CLASS_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      class: {
+        id: classData.id,
+        name: classData.name,
+        description: classData.description,
+        order: classData.order,
+        icon: classData.icon ?? undefined,
+        color: classData.color ?? undefined,
+        isPublished: classData.isPublished ?? true,
+      },
+      topics: [...bundleTopics.values()],
+      decks: bundleDecks,
+    },
+    files,
+    missingMedia,
+  };
+}
+
+/**
+ * Rows that already exist with the ids used in a bundle
+ */
+async function getExistingContent(manifest: ClassBundleManifest): Promise<ExistingContent> {
+  const existing = emptyExistingContent();
+
+  const deckIds = manifest.decks.map((deck) => deck.id);
+  const cards = manifest.decks.flatMap((deck) => deck.flashcards);
+  const cardIds = cards.map((card) => card.id);
+  const mediaIds = cards.flatMap((card) => card.media.map((media) => media.id));
+  const questionIds = cards.flatMap((card) => card.quizQuestions.map((question) => question.id));
+  const deckQuestionIds = manifest.decks.flatMap((deck) => deck.deckQuizQuestions.map((question) => question.id));
+
+  const [classRows, deckRows, cardRows, mediaRows, questionRows, deckQuestionRows] = await Promise.all([
+    db.select({ id: classes.id }).from(classes).where(eq(classes.id, manifest.class.id)),
+    deckIds.length > 0
+      ? db.select({ id: decks.id, parentId: decks.classId }).from(decks).where(inArray(decks.id, deckIds))
+      : [],
+    cardIds.length > 0
+      ? db.select({ id: flashcards.id, parentId: flashcards.deckId }).from(flashcards).where(inArray(flashcards.id, cardIds))
+      : [],
+    mediaIds.length > 0
+      ? db
+          .select({ id: flashcardMedia.id, parentId: flashcardMedia.flashcardId })
+          .from(flashcardMedia)
+          .where(inArray(flashcardMedia.id, mediaIds))
+      : [],
+    questionIds.length > 0
+      ? db
+          .select({ id: quizQuestions.id, parentId: quizQuestions.flashcardId })
+          .from(quizQuestions)
+          .where(inArray(quizQuestions.id, questionIds))
+      : [],
+    deckQuestionIds.length > 0
+      ? db
+          .select({ id: deckQuizQuestions.id, parentId: deckQuizQuestions.deckId })
+          .from(deckQuizQuestions)
+          .where(inArray(deckQuizQuestions.id, deckQuestionIds))
+      : [],
+  ]);
+
+  classRows.forEach((row) => existing.classes.set(row.id, null));
+  deckRows.forEach((row) => existing.decks.set(row.id, row.parentId));
+  cardRows.forEach((row) => existing.flashcards.set(row.id, row.parentId));
+  mediaRows.forEach((row) => existing.media.set(row.id, row.parentId));
+  questionRows.forEach((row) => existing.quizQuestions.set(row.id, row.parentId));
+  deckQuestionRows.forEach((row) => existing.deckQuizQuestions.set(row.id, row.parentId));
+
+  return existing;
+}
+
+const topicKey = (topicCode: string, subTopicName: string) => `${topicCode}\n${subTopicName.toLowerCase()}`;
+
+/**
+ * Find the bundle's topics and sub-topics by topic code and name, creating the missing ones
+ * when write is true. Existing topics are never changed, since other classes share them.
+ */
+async function resolveTopics(
+  bundleTopics: BundleTopic[],
+  write: boolean,
+  executor: Executor | typeof db = db
+): Promise<{ subTopicIds: Map<string, string>; summary: TopicSummary }> {
+  const subTopicIds = new Map<string, string>();
+  const summary: TopicSummary = { topicsCreated: 0, subTopicsCreated: 0 };
+
+  for (const bundleTopic of bundleTopics) {
+    let topic = await executor.query.topics.findFirst({ where: eq(topics.topicCode, bundleTopic.topicCode) });
+    if (!topic) {
+      summary.topicsCreated += 1;
+      summary.subTopicsCreated += bundleTopic.subTopics.length;
+      if (!write) continue;
+      [topic] = await executor
+        .insert(topics)
+        .values({
+          topicCode: bundleTopic.topicCode,
+          domainNumber: bundleTopic.domainNumber,
+          topicName: bundleTopic.topicName,
+          order: bundleTopic.order,
+        })
+        .returning();
+    }
+
+    const existingSubTopics = await executor.query.subTopics.findMany({ where: eq(subTopics.topicId, topic.id) });
+    for (const bundleSubTopic of bundleTopic.subTopics) {
+      let subTopic = existingSubTopics.find(
+        (st) => st.subTopicName.toLowerCase() === bundleSubTopic.subTopicName.toLowerCase()
+      );
+      if (!subTopic) {
+        summary.subTopicsCreated += 1;
+        if (!write) continue;
+        [subTopic] = await executor
+          .insert(subTopics)
+          .values({ topicId: topic.id, subTopicName: bundleSubTopic.subTopicName, order: bundleSubTopic.order })
+          .returning();
+        existingSubTopics.push(subTopic);
+      }
+      subTopicIds.set(topicKey(bundleTopic.topicCode, bundleSubTopic.subTopicName), subTopic.id);
+    }
+  }
+
+  return { subTopicIds, summary };
+}
+
+function toQuestionColumns(question: QuizQuestion) {
+  return {
+    questionText: question.question,
+    questionType: question.question_type,
+    imageUrl: question.image_url || null,
+    options: question.options,
+    explanation: question.explanation || null,
+    eliminationTactics: question.elimination_tactics ? JSON.stringify(question.elimination_tactics) : null,
+    correctAnswerWithJustification: question.correct_answer_with_justification
+      ? JSON.stringify(question.correct_answer_with_justification)
+      : null,
+    compareRemainingOptionsWithJustification: question.compare_remaining_options_with_justification
+      ? JSON.stringify(question.compare_remaining_options_with_justification)
+      : null,
+    correctOptionsJustification: question.correct_options_justification
+      ? JSON.stringify(question.correct_options_justification)
+      : null,
+  };
+}
+
+/**
+ * What importing a bundle would create, update and skip, without writing anything
+ */
+export async function previewClassBundle(
+  manifest: ClassBundleManifest,
+  mode: BundleConflictMode
+): Promise<ClassBundlePreview> {
+  const plan = planClassBundle(manifest, await getExistingContent(manifest), mode);
+  const { summary: topicSummary } = await resolveTopics(manifest.topics, false);
+  return { classId: plan.class.id, plan, summary: summarizePlan(plan), topics: topicSummary };
+}
+
+
+/**
+ * Store the images the import creates, before its transaction starts
+ * Images that cannot be stored are left out with a warning.
+ */
+async function uploadBundleMedia(
+  manifest: ClassBundleManifest,
+  plan: BundlePlan,
+  files: Map<string, Uint8Array>,
+  warnings: string[]
+): Promise<Map<string, UploadedImage>> {
+  const uploads = new Map<string, UploadedImage>();
+
+  for (const [deckIndex, deck] of manifest.decks.entries()) {
+    for (const [cardIndex, card] of deck.flashcards.entries()) {
+      const plannedCard = plan.decks[deckIndex].flashcards[cardIndex];
+      for (const [mediaIndex, media] of card.media.entries()) {
+        const plannedMedia = plannedCard.media[mediaIndex];
+        if (plannedMedia.action !== 'create') continue;
+        try {
+          const uploaded = await uploadImageToBlob(
+            new File([new Uint8Array(files.get(media.file)!)], media.fileName, { type: media.mimeType }),
+            plannedCard.id,
+            media.placement,
+            media.order
+          );
+          uploads.set(plannedMedia.id, uploaded);
+        } catch (error) {
+          console.error('Error storing bundled image:', error);
+          warnings.push(`Skipped ${media.file} in deck "${deck.name}": the image could not be stored`);
+        }
+      }
+    }
+  }
+
+  return uploads;
+}
+
+/**
+ * Write the class, decks, flashcards, images and quiz questions of a bundle following its plan
+ */
+async function writeBundleContent(
+  tx: Executor,
+  manifest: ClassBundleManifest,
+  plan: BundlePlan,
+  subTopicIds: Map<string, string>,
+  uploads: Map<string, UploadedImage>,
+  authorId: string
+): Promise<void> {
+  const revisions: RevisionChange[] = [];
+
+  const classValues = {
+    name: manifest.class.name,
+    description: manifest.class.description ?? null,
+    order: manifest.class.order,
+    icon: manifest.class.icon ?? null,
+    color: manifest.class.color ?? null,
+    isPublished: manifest.class.isPublished,
+  };
+  if (plan.class.action === 'create') {
+    await tx.insert(classes).values({ id: plan.class.id, ...classValues, createdBy: authorId });
+  } else if (plan.class.action === 'update') {
+    await tx.update(classes).set({ ...classValues, updatedAt: new Date() }).where(eq(classes.id, plan.class.id));
+  }
+
+  for (const [deckIndex, deck] of manifest.decks.entries()) {
+    const plannedDeck = plan.decks[deckIndex];
+    const deckValues = {
+      classId: plan.class.id,
+      name: deck.name,
+      description: deck.description ?? null,
+      type: deck.type,
+      order: deck.order,
+      isPremium: deck.isPremium,
+      isPublished: deck.isPublished,
+      domainNumber: deck.domainNumber ?? null,
+    };
+    if (plannedDeck.action === 'create') {
+      await tx.insert(decks).values({ id: plannedDeck.id, ...deckValues, createdBy: authorId });
+    } else if (plannedDeck.action === 'update') {
+      await tx.update(decks).set({ ...deckValues, updatedAt: new Date() }).where(eq(decks.id, plannedDeck.id));
+    }
+
+    for (const [cardIndex, card] of deck.flashcards.entries()) {
+      const plannedCard = plannedDeck.flashcards[cardIndex];
+      const cardValues = {
+        deckId: plannedDeck.id,
+        question: card.question,
+        answer: card.answer,
+        explanation: card.explanation ?? null,
+        difficulty: card.difficulty ?? null,
+        order: card.order,
+      };
+
+      const before = plannedCard.action === 'update' ? await getFlashcardSnapshot(plannedCard.id, tx) : null;
+      if (plannedCard.action === 'create') {
+        await tx
+          .insert(flashcards)
+          .values({ id: plannedCard.id, ...cardValues, status: 'draft', isPublished: false, createdBy: authorId });
+      } else if (plannedCard.action === 'update') {
+        await tx.update(flashcards).set({ ...cardValues, updatedAt: new Date() }).where(eq(flashcards.id, plannedCard.id));
+      }
+
+      for (const [mediaIndex, media] of card.media.entries()) {
+        const plannedMedia = plannedCard.media[mediaIndex];
+        if (plannedMedia.action === 'update') {
+          await tx
+            .update(flashcardMedia)
+            .set({ placement: media.placement, order: media.order, altText: media.altText ?? null })
+            .where(eq(flashcardMedia.id, plannedMedia.id));
+        } else if (plannedMedia.action === 'create' && uploads.has(plannedMedia.id)) {
+          const uploaded = uploads.get(plannedMedia.id)!;
+          await tx.insert(flashcardMedia).values({
+            id: plannedMedia.id,
+            flashcardId: plannedCard.id,
+            fileUrl: uploaded.url,
+            fileKey: uploaded.key,
+            fileName: uploaded.fileName,
+            fileSize: uploaded.fileSize,
+            mimeType: uploaded.mimeType,
+            placement: media.placement,
+            order: media.order,
+            altText: media.altText ?? null,
+          });
+        }
+      }
+
+      if (plannedCard.action !== 'skip') {
+        const after = await getFlashcardSnapshot(plannedCard.id, tx);
+        revisions.push({
+          entityType: 'flashcard',
+          entityId: plannedCard.id,
+          deckId: plannedDeck.id,
+          action: before ? 'update' : 'create',
+          before: before?.snapshot ?? null,
+          after: after!.snapshot,
+          authorId,
+          baselineAuthorId: before?.createdBy,
+        });
+      }
+
+      for (const [questionIndex, question] of card.quizQuestions.entries()) {
+        const plannedQuestion = plannedCard.quizQuestions[questionIndex];
+        const questionValues = { flashcardId: plannedCard.id, ...toQuestionColumns(question), order: question.order };
+
+        if (plannedQuestion.action === 'create') {
+          const [created] = await tx
+            .insert(quizQuestions)
+            .values({ id: plannedQuestion.id, ...questionValues, createdBy: authorId })
+            .returning();
+          revisions.push({
+            entityType: 'quiz_question',
+            entityId: created.id,
+            deckId: plannedDeck.id,
+            action: 'create',
+            before: null,
+            after: toQuizQuestionSnapshot(created),
+            authorId,
+          });
+        } else if (plannedQuestion.action === 'update') {
+          const [existing] = await tx.select().from(quizQuestions).where(eq(quizQuestions.id, plannedQuestion.id));
+          const [updated] = await tx
+            .update(quizQuestions)
+            .set({ ...questionValues, updatedAt: new Date() })
+            .where(eq(quizQuestions.id, plannedQuestion.id))
+            .returning();
+          revisions.push({
+            entityType: 'quiz_question',
+            entityId: updated.id,
+            deckId: plannedDeck.id,
+            action: 'update',
+            before: toQuizQuestionSnapshot(existing),
+            after: toQuizQuestionSnapshot(updated),
+            authorId,
+            baselineAuthorId: existing.createdBy,
+          });
+        }
+      }
+    }
+
+    for (const [questionIndex, question] of deck.deckQuizQuestions.entries()) {
+      const plannedQuestion = plannedDeck.deckQuizQuestions[questionIndex];
+      const questionValues = {
+        deckId: plannedDeck.id,
+        ...toQuestionColumns(question),
+        order: question.order,
+        difficulty: question.difficulty ?? null,
+        subTopicId:
+          question.topic_code && question.sub_topic_name
+            ? subTopicIds.get(topicKey(question.topic_code, question.sub_topic_name)) ?? null
+            : null,
+      };
+
+      if (plannedQuestion.action === 'create') {
+        const [created] = await tx
+          .insert(deckQuizQuestions)
+          .values({ id: plannedQuestion.id, ...questionValues, status: 'draft', createdBy: authorId })
+          .returning();
+        revisions.push({
+          entityType: 'deck_quiz_question',
+          entityId: created.id,
+          deckId: plannedDeck.id,
+          action: 'create',
+          before: null,
+          after: toDeckQuizQuestionSnapshot(created),
+          authorId,
+        });
+      } else if (plannedQuestion.action === 'update') {
+        const [existing] = await tx.select().from(deckQuizQuestions).where(eq(deckQuizQuestions.id, plannedQuestion.id));
+        const [updated] = await tx
+          .update(deckQuizQuestions)
+          .set({ ...questionValues, updatedAt: new Date() })
+          .where(eq(deckQuizQuestions.id, plannedQuestion.id))
+          .returning();
+        revisions.push({
+          entityType: 'deck_quiz_question',
+          entityId: updated.id,
+          deckId: plannedDeck.id,
+          action: 'update',
+          before: toDeckQuizQuestionSnapshot(existing),
+          after: toDeckQuizQuestionSnapshot(updated),
+          authorId,
+          baselineAuthorId: existing.createdBy,
+        });
+      }
+    }
+  }
+
+  await recordRevisions(revisions, tx);
+}
+
+/**
+ * Import a validated bundle
+ * @param files - The bundle's images, by their path in the bundle
+ */
+export async function importClassBundle(
+  manifest: ClassBundleManifest,
+  files: Map<string, Uint8Array>,
+  mode: BundleConflictMode,
+  authorId: string
+): Promise<ClassBundleImportResult> {
+  const plan = planClassBundle(manifest, await getExistingContent(manifest), mode);
+  const warnings: string[] = [];
+  const uploads = await uploadBundleMedia(manifest, plan, files, warnings);
+
+  const topicSummary = await db.transaction(async (tx) => {
+    const { subTopicIds, summary } = await resolveTopics(manifest.topics, true, tx);
+    await writeBundleContent(tx, manifest, plan, subTopicIds, uploads, authorId);
+    return summary;
+  });
+
+  return { classId: plan.class.id, plan, summary: summarizePlan(plan), topics: topicSummary, warnings };
+}
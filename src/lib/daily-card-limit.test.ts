@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    select: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/subscription', () => ({
+  hasPaidAccess: vi.fn(),
+}));
+
+const {
+  resolveTimeZone,
+  getLocalDateString,
+  getStartOfLocalDay,
+  getNextLocalMidnight,
+  getUserTimeZone,
+} = await import('./daily-card-limit');
+const { db } = await import('@/lib/db');
+
+describe('daily card limit timezones', () => {
+  it('accepts IANA timezones and rejects anything else', () => {
+    expect(resolveTimeZone('Europe/Berlin')).toBe('Europe/Berlin');
+    expect(resolveTimeZone('Not/AZone')).toBeNull();
+    expect(resolveTimeZone('')).toBeNull();
+    expect(resolveTimeZone(null)).toBeNull();
+  });
+
+  it('uses the local calendar date, not the UTC one', () => {
+    const instant = new Date('2026-03-10T03:30:00Z');
+
+    expect(getLocalDateString(instant, 'UTC')).toBe('2026-03-10');
+    expect(getLocalDateString(instant, 'America/Los_Angeles')).toBe('2026-03-09');
+    expect(getLocalDateString(instant, 'Asia/Tokyo')).toBe('2026-03-10');
+  });
+
+  it('finds local midnight before and after an instant', () => {
+    const instant = new Date('2026-03-10T03:30:00Z');
+
+    expect(getStartOfLocalDay(instant, 'America/Los_Angeles').toISOString()).toBe('2026-03-09T07:00:00.000Z');
+    expect(getNextLocalMidnight(instant, 'America/Los_Angeles').toISOString()).toBe('2026-03-10T07:00:00.000Z');
+    expect(getNextLocalMidnight(instant, 'Asia/Kolkata').toISOString()).toBe('2026-03-10T18:30:00.000Z');
+  });
+
+  it('resets at local midnight across a daylight saving change', () => {
+    // US clocks spring forward on 2026-03-08, so the next midnight is UTC-7 instead of UTC-8
+    const instant = new Date('2026-03-08T06:00:00Z');
+
+    expect(getStartOfLocalDay(instant, 'America/Los_Angeles').toISOString()).toBe('2026-03-07T08:00:00.000Z');
+    expect(getNextLocalMidnight(instant, 'America/Los_Angeles').toISOString()).toBe('2026-03-08T08:00:00.000Z');
+  });
+});
+
+describe('getUserTimeZone', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+  const updateReturning = vi.fn();
+  const updateSet = vi.fn(() => ({ where: () => ({ returning: updateReturning }) }));
+
+  function mockStats(stats?: { timezone: string | null; timezoneUpdatedAt: Date | null }) {
+    vi.mocked(db.select).mockReturnValue({
+      from: () => ({ where: () => ({ limit: vi.fn().mockResolvedValue(stats ? [stats] : []) }) }),
+    } as never);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.update).mockReturnValue({ set: updateSet } as never);
+    updateReturning.mockResolvedValue([{ id: 'stats-1' }]);
+  });
+
+  it('uses the stored timezone when the header matches or is missing', async () => {
+    mockStats({ timezone: 'Europe/Berlin', timezoneUpdatedAt: now });
+
+    expect(await getUserTimeZone('user-1', null, now)).toBe('Europe/Berlin');
+    expect(await getUserTimeZone('user-1', 'Europe/Berlin', now)).toBe('Europe/Berlin');
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it('ignores a different header within the change cooldown', async () => {
+    mockStats({ timezone: 'America/Los_Angeles', timezoneUpdatedAt: new Date('2026-03-10T02:00:00Z') });
+
+    expect(await getUserTimeZone('user-1', 'Pacific/Kiritimati', now)).toBe('America/Los_Angeles');
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it('stores a header timezone when none is stored', async () => {
+    mockStats({ timezone: null, timezoneUpdatedAt: null });
+
+    expect(await getUserTimeZone('user-1', 'Asia/Tokyo', now)).toBe('Asia/Tokyo');
+    expect(updateSet).toHaveBeenCalledWith(
+      expect.objectContaining({ timezone: 'Asia/Tokyo', timezoneUpdatedAt: now })
+    );
+  });
+
+  it('changes timezone after the cooldown without dropping the current count', async () => {
+    mockStats({ timezone: 'America/Los_Angeles', timezoneUpdatedAt: new Date('2026-03-01T00:00:00Z') });
+
+    expect(await getUserTimeZone('user-1', 'Asia/Tokyo', now)).toBe('Asia/Tokyo');
+    const [changes] = updateSet.mock.calls[0] as unknown as [Record<string, unknown>];
+    expect(changes).toMatchObject({ timezone: 'Asia/Tokyo' });
+    expect(changes).not.toHaveProperty('dailyCardsStudiedToday');
+  });
+
+  it('keeps the stored timezone when a concurrent request changed it first', async () => {
+    mockStats({ timezone: 'America/Los_Angeles', timezoneUpdatedAt: null });
+    updateReturning.mockResolvedValue([]);
+
+    expect(await getUserTimeZone('user-1', 'Asia/Tokyo', now)).toBe('America/Los_Angeles');
+  });
+
+  it('falls back to a valid header, then UTC, for users without stats', async () => {
+    mockStats();
+
+    expect(await getUserTimeZone('user-1', 'Asia/Tokyo', now)).toBe('Asia/Tokyo');
+    expect(await getUserTimeZone('user-1', 'Not/AZone', now)).toBe('UTC');
+    expect(db.update).not.toHaveBeenCalled();
+  });
+});
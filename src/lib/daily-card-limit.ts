@@ -0,0 +1,351 @@
+/**
+ * Free Tier Daily Card Limit
+ * Counts the distinct cards a free user studies per day and resets at
+ * midnight in the user's own timezone.
+ */
+
+import { NextResponse } from 'next/server';
+import { and, eq, lt, or, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { userStats, userDailyCardUsage } from '@/lib/db/schema';
+import { hasPaidAccess } from '@/lib/subscription';
+
+export const DAILY_CARD_LIMIT_CONFIG = {
+  DEFAULT_FREE_DAILY_CARDS: 30, // Used when FREE_DAILY_CARD_LIMIT is not set
+  DEFAULT_TIMEZONE: 'UTC',
+  TIMEZONE_HEADER: 'x-timezone', // Sent by the client with Intl's resolved timezone
+  TIMEZONE_CHANGE_COOLDOWN_HOURS: 24, // Minimum time between changes of a stored timezone
+};
+
+/**
+ * Error code returned when a free user has used up today's cards
+ */
+export const DAILY_LIMIT_REACHED = 'daily_limit_reached';
+
+export interface DailyCardAllowance {
+  allowed: boolean;
+  limit: number | null; // null for paid users, who have no limit
+  used: number;
+  remaining: number | null;
+  resetsAt: Date | null;
+}
+
+/**
+ * Daily card allowance for free users, configurable with FREE_DAILY_CARD_LIMIT
+ */
+export function getFreeDailyCardLimit(): number {
+  const parsed = parseInt(process.env.FREE_DAILY_CARD_LIMIT ?? '', 10);
+  return Number.isNaN(parsed) || parsed < 1 ? DAILY_CARD_LIMIT_CONFIG.DEFAULT_FREE_DAILY_CARDS : parsed;
+}
+
+/**
+ * Return the value if it is a timezone Intl understands, otherwise null
+ */
+export function resolveTimeZone(value: string | null | undefined): string | null {
+  if (!value || value.length > 64) {
+    return null;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return value;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * Milliseconds the timezone is ahead of UTC at the given instant
+ */
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const wallClockAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instant of local midnight on the given calendar day (month is 1-based)
+ */
+function getZonedMidnight(year: number, month: number, day: number, timeZone: string): Date {
+  const midnightAsUtc = Date.UTC(year, month - 1, day);
+  // Re-apply the offset at the first guess so DST changes on that day are respected
+  const guess = midnightAsUtc - getTimeZoneOffsetMs(new Date(midnightAsUtc), timeZone);
+  return new Date(midnightAsUtc - getTimeZoneOffsetMs(new Date(guess), timeZone));
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function getLocalDateString(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * Instant the local day containing date started
+ */
+export function getStartOfLocalDay(date: Date, timeZone: string): Date {
+  const p = getZonedParts(date, timeZone);
+  return getZonedMidnight(p.year, p.month, p.day, timeZone);
+}
+
+/**
+ * Instant of the next local midnight, when the daily limit resets
+ */
+export function getNextLocalMidnight(date: Date, timeZone: string): Date {
+  const p = getZonedParts(date, timeZone);
+  const tomorrow = new Date(Date.UTC(p.year, p.month - 1, p.day + 1));
+  return getZonedMidnight(tomorrow.getUTCFullYear(), tomorrow.getUTCMonth() + 1, tomorrow.getUTCDate(), timeZone);
+}
+
+/**
+ * A stored timezone changed before this instant may be changed again
+ */
+function getTimeZoneCooldownStart(now: Date): Date {
+  return new Date(now.getTime() - DAILY_CARD_LIMIT_CONFIG.TIMEZONE_CHANGE_COOLDOWN_HOURS * 60 * 60 * 1000);
+}
+
+/**
+ * Store a timezone the client reported, unless the stored one changed within the cooldown.
+ * A counter that is current in the previous timezone carries over into the new zone's day,
+ * so moving to a zone where it is already tomorrow does not reset the limit.
+ */
+async function changeUserTimeZone(
+  userId: string,
+  previousTimeZone: string,
+  timeZone: string,
+  now: Date
+): Promise<boolean> {
+  const cooldownStart = getTimeZoneCooldownStart(now).toISOString();
+  const previousDayStart = getStartOfLocalDay(now, previousTimeZone).toISOString();
+
+  const [updated] = await db
+    .update(userStats)
+    .set({
+      timezone: timeZone,
+      timezoneUpdatedAt: now,
+      lastResetDate: sql`CASE WHEN ${userStats.lastResetDate} >= ${previousDayStart} THEN ${now.toISOString()}::timestamp ELSE ${userStats.lastResetDate} END`,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(userStats.clerkUserId, userId),
+        or(
+          sql`${userStats.timezone} IS NULL`,
+          sql`${userStats.timezoneUpdatedAt} IS NULL`,
+          lt(userStats.timezoneUpdatedAt, sql`${cooldownStart}`)
+        )
+      )
+    )
+    .returning({ id: userStats.id });
+
+  return !!updated;
+}
+
+/**
+ * Timezone to reset the limit in: the stored one, else the client's header, else UTC.
+ * The header only replaces a stored timezone once the cooldown since its last change has
+ * passed, so switching zones cannot be used to start a new day early.
+ */
+export async function getUserTimeZone(
+  userId: string,
+  headerValue: string | null,
+  now: Date = new Date()
+): Promise<string> {
+  const [stats] = await db
+    .select({ timezone: userStats.timezone, timezoneUpdatedAt: userStats.timezoneUpdatedAt })
+    .from(userStats)
+    .where(eq(userStats.clerkUserId, userId))
+    .limit(1);
+
+  const stored = resolveTimeZone(stats?.timezone);
+  const fromHeader = resolveTimeZone(headerValue);
+  if (!fromHeader || fromHeader === stored) {
+    return stored ?? DAILY_CARD_LIMIT_CONFIG.DEFAULT_TIMEZONE;
+  }
+  if (!stats) {
+    // Stored with the stats row when the first card is counted
+    return fromHeader;
+  }
+  if (stored && stats.timezoneUpdatedAt && stats.timezoneUpdatedAt >= getTimeZoneCooldownStart(now)) {
+    return stored;
+  }
+
+  const changed = await changeUserTimeZone(
+    userId,
+    stored ?? DAILY_CARD_LIMIT_CONFIG.DEFAULT_TIMEZONE,
+    fromHeader,
+    now
+  );
+  return changed ? fromHeader : stored ?? DAILY_CARD_LIMIT_CONFIG.DEFAULT_TIMEZONE;
+}
+
+/**
+ * Read the user's allowance for today without counting a card
+ */
+export async function getDailyCardAllowance(
+  userId: string,
+  timeZone: string,
+  now: Date = new Date()
+): Promise<DailyCardAllowance> {
+  if (await hasPaidAccess()) {
+    return { allowed: true, limit: null, used: 0, remaining: null, resetsAt: null };
+  }
+
+  const limit = getFreeDailyCardLimit();
+  const [stats] = await db
+    .select({ used: userStats.dailyCardsStudiedToday, lastResetDate: userStats.lastResetDate })
+    .from(userStats)
+    .where(eq(userStats.clerkUserId, userId))
+    .limit(1);
+
+  // A counter last reset before today's local midnight no longer applies
+  const isCurrent = !!stats?.lastResetDate && stats.lastResetDate >= getStartOfLocalDay(now, timeZone);
+  const used = isCurrent ? stats.used ?? 0 : 0;
+
+  return {
+    allowed: used < limit,
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+    resetsAt: getNextLocalMidnight(now, timeZone),
+  };
+}
+
+/**
+ * Count a card against the user's daily allowance.
+ * Runs in one transaction: a card already counted today is free, and the
+ * counter only increments while it is below the limit (or on a new day),
+ * so concurrent requests cannot study past the limit.
+ */
+export async function consumeDailyCard(
+  userId: string,
+  flashcardId: string,
+  timeZone: string,
+  now: Date = new Date()
+): Promise<DailyCardAllowance> {
+  if (await hasPaidAccess()) {
+    return { allowed: true, limit: null, used: 0, remaining: null, resetsAt: null };
+  }
+
+  const limit = getFreeDailyCardLimit();
+  const usageDate = getLocalDateString(now, timeZone);
+  const dayStart = getStartOfLocalDay(now, timeZone).toISOString();
+  const resetsAt = getNextLocalMidnight(now, timeZone);
+  const needsReset = or(
+    sql`${userStats.lastResetDate} IS NULL`,
+    lt(userStats.lastResetDate, sql`${dayStart}`)
+  );
+
+  return db.transaction(async (tx) => {
+    // Users created before stats existed get a row to count against, in the timezone they study in
+    await tx
+      .insert(userStats)
+      .values({ clerkUserId: userId, timezone: timeZone, timezoneUpdatedAt: now })
+      .onConflictDoNothing();
+
+    const [usage] = await tx
+      .insert(userDailyCardUsage)
+      .values({ clerkUserId: userId, flashcardId, usageDate })
+      .onConflictDoNothing()
+      .returning({ id: userDailyCardUsage.id });
+
+    if (!usage) {
+      // Already counted today (e.g. the same rating saved by two endpoints)
+      const [stats] = await tx
+        .select({ used: userStats.dailyCardsStudiedToday })
+        .from(userStats)
+        .where(eq(userStats.clerkUserId, userId))
+        .limit(1);
+      const used = stats?.used ?? 0;
+      return { allowed: true, limit, used, remaining: Math.max(0, limit - used), resetsAt };
+    }
+
+    const [updated] = await tx
+      .update(userStats)
+      .set({
+        dailyCardsStudiedToday: sql`CASE WHEN ${needsReset} THEN 1 ELSE COALESCE(${userStats.dailyCardsStudiedToday}, 0) + 1 END`,
+        lastResetDate: sql`CASE WHEN ${needsReset} THEN ${now.toISOString()}::timestamp ELSE ${userStats.lastResetDate} END`,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(userStats.clerkUserId, userId),
+          or(needsReset, sql`COALESCE(${userStats.dailyCardsStudiedToday}, 0) < ${limit}`)
+        )
+      )
+      .returning({ used: userStats.dailyCardsStudiedToday });
+
+    if (!updated) {
+      // Limit reached: release the claim so the card can be studied after the reset
+      await tx.delete(userDailyCardUsage).where(eq(userDailyCardUsage.id, usage.id));
+      return { allowed: false, limit, used: limit, remaining: 0, resetsAt };
+    }
+
+    const used = updated.used ?? 0;
+    return { allowed: true, limit, used, remaining: Math.max(0, limit - used), resetsAt };
+  });
+}
+
+/**
+ * Add the remaining-allowance headers to a response (none for paid users)
+ */
+export function withDailyCardHeaders(response: NextResponse, allowance: DailyCardAllowance): NextResponse {
+  if (allowance.limit === null || allowance.remaining === null || !allowance.resetsAt) {
+    return response;
+  }
+
+  response.headers.set('X-DailyCards-Limit', allowance.limit.toString());
+  response.headers.set('X-DailyCards-Remaining', allowance.remaining.toString());
+  response.headers.set('X-DailyCards-Reset', allowance.resetsAt.toISOString());
+
+  if (!allowance.allowed) {
+    const retryAfter = Math.max(0, Math.ceil((allowance.resetsAt.getTime() - Date.now()) / 1000));
+    response.headers.set('Retry-After', retryAfter.toString());
+  }
+
+  return response;
+}
+
+/**
+ * 429 response for a free user who has used up today's cards
+ */
+export function dailyLimitReachedResponse(allowance: DailyCardAllowance): NextResponse {
+  return withDailyCardHeaders(
+    NextResponse.json(
+      {
+        error: `You've studied your ${allowance.limit} free cards for today. Upgrade for unlimited study.`,
+        code: DAILY_LIMIT_REACHED,
+        limit: allowance.limit,
+        resetsAt: allowance.resetsAt?.toISOString() ?? null,
+      },
+      { status: 429 }
+    ),
+    allowance
+  );
+}
@@ -1,5 +1,9 @@
-import { pgTable, text, integer, timestamp, boolean, varchar, uuid, decimal, pgEnum, index, json } from 'drizzle-orm/pg-core';
+import { pgTable, text, integer, timestamp, boolean, varchar, uuid, decimal, pgEnum, index, uniqueIndex, json } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import type { ExamResult } from '@/lib/quiz/cat-exam';
+import type { QuizResponse } from '@/lib/quiz/question-types';
+import type { FieldChange, RevisionSnapshot } from '@/lib/revisions/diff';
+import type { ContentStatus, ReviewCommentKind } from '@/lib/editorial/workflow';
 
 // Enums
 export const userRoleEnum = pgEnum('user_role', ['user', 'admin']);
@@ -146,7 +150,11 @@ export const flashcards = pgTable('flashcards', {
   explanation: text('explanation'), // Additional context or learning tips
   difficulty: integer('difficulty'), // Difficulty level (if used in your app)
   order: integer('order').notNull().default(0),
-  isPublished: boolean('is_published').default(true), // Admins can draft cards
+  isPublished: boolean('is_published').default(true), // Admins can draft cards; kept in step with status
+  status: varchar('status', { length: 20 }).$type<ContentStatus>().notNull().default('published'), // 'draft', 'in_review', 'approved' or 'published'
+  reviewerId: varchar('reviewer_id', { length: 255 }).references(() => users.clerkUserId, { onDelete: 'set null' }), // Admin asked to review the card
+  submittedBy: varchar('submitted_by', { length: 255 }), // Admin who submitted it for review
+  submittedAt: timestamp('submitted_at'),
   createdBy: varchar('created_by', { length: 255 }).notNull().references(() => users.clerkUserId), // Admin who created it
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -155,6 +163,8 @@ export const flashcards = pgTable('flashcards', {
   deckPublishedIdx: index('idx_flashcards_deck_published').on(table.deckId, table.isPublished),
   // Index for ordering flashcards within a deck
   deckOrderIdx: index('idx_flashcards_deck_order').on(table.deckId, table.order),
+  // Index for each reviewer's review queue
+  reviewerStatusIdx: index('idx_flashcards_reviewer_status').on(table.reviewerId, table.status),
 }));
 
 // Flashcard Media table - Stores images for questions and answers
@@ -180,7 +190,9 @@ export const quizQuestions = pgTable('quiz_questions', {
   id: uuid('id').defaultRandom().primaryKey(),
   flashcardId: uuid('flashcard_id').notNull().references(() => flashcards.id, { onDelete: 'cascade' }),
   questionText: text('question_text').notNull(),
-  options: json('options').notNull(), // Array of {text: string, isCorrect: boolean, order: number}
+  questionType: varchar('question_type', { length: 20 }).notNull().default('single_choice'), // 'single_choice', 'multi_select', 'ordering', 'matching' or 'hotspot'
+  imageUrl: text('image_url'), // Diagram learners click on (hotspot questions)
+  options: json('options').notNull(), // Array of {id: string, text: string, isCorrect: boolean, order: number, match?: string, region?: {x, y, width, height}}
   explanation: text('explanation'), // Explanation for the correct answer
   eliminationTactics: text('elimination_tactics'), // Stepwise logic for eliminating wrong answers and distractors
   correctAnswerWithJustification: text('correct_answer_with_justification'), // Clear rationale for the correct option
@@ -204,7 +216,9 @@ export const deckQuizQuestions = pgTable('deck_quiz_questions', {
   id: uuid('id').defaultRandom().primaryKey(),
   deckId: uuid('deck_id').notNull().references(() => decks.id, { onDelete: 'cascade' }),
   questionText: text('question_text').notNull(),
-  options: json('options').notNull(), // Array of {text: string, isCorrect: boolean}
+  questionType: varchar('question_type', { length: 20 }).notNull().default('single_choice'), // 'single_choice', 'multi_select', 'ordering', 'matching' or 'hotspot'
+  imageUrl: text('image_url'), // Diagram learners click on (hotspot questions)
+  options: json('options').notNull(), // Array of {id: string, text: string, isCorrect: boolean, match?: string, region?: {x, y, width, height}}
   explanation: text('explanation'), // Explanation for the correct answer
   eliminationTactics: text('elimination_tactics'), // Stepwise logic for eliminating wrong answers and distractors
   correctAnswerWithJustification: text('correct_answer_with_justification'), // Clear rationale for the correct option
@@ -213,6 +227,10 @@ export const deckQuizQuestions = pgTable('deck_quiz_questions', {
   order: integer('order').notNull().default(0),
   difficulty: integer('difficulty'), // Optional: 1-5 difficulty level
   subTopicId: uuid('sub_topic_id').references(() => subTopics.id, { onDelete: 'set null' }), // Link to sub-topic for categorization
+  status: varchar('status', { length: 20 }).$type<ContentStatus>().notNull().default('published'), // Learners only see 'published' questions
+  reviewerId: varchar('reviewer_id', { length: 255 }).references(() => users.clerkUserId, { onDelete: 'set null' }), // Admin asked to review the question
+  submittedBy: varchar('submitted_by', { length: 255 }), // Admin who submitted it for review
+  submittedAt: timestamp('submitted_at'),
   createdBy: varchar('created_by', { length: 255 }).notNull().references(() => users.clerkUserId),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -223,6 +241,50 @@ export const deckQuizQuestions = pgTable('deck_quiz_questions', {
   deckOrderIdx: index('idx_deck_quiz_questions_deck_order').on(table.deckId, table.order),
   // Index for filtering questions by sub-topic
   subTopicIdx: index('idx_deck_quiz_questions_sub_topic').on(table.subTopicId),
+  // Index for each reviewer's review queue
+  reviewerStatusIdx: index('idx_deck_quiz_questions_reviewer_status').on(table.reviewerId, table.status),
+}));
+
+// Content revisions table - Append-only history of flashcard and quiz question edits
+// ✅ ADMIN REVISION HISTORY & ROLLBACK
+export const contentRevisions = pgTable('content_revisions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  entityType: varchar('entity_type', { length: 30 }).notNull(), // 'flashcard', 'quiz_question' or 'deck_quiz_question'
+  entityId: uuid('entity_id').notNull(), // No foreign key: the history outlives deleted content
+  deckId: uuid('deck_id').notNull(), // Deck the content belongs to, for the deck page history
+  revisionNumber: integer('revision_number').notNull(), // 1, 2, ... per entity
+  action: varchar('action', { length: 20 }).notNull(), // 'baseline', 'create', 'update', 'delete' or 'restore'
+  snapshot: json('snapshot').$type<RevisionSnapshot>().notNull(), // Editable fields after the change (before it, for deletes)
+  changes: json('changes').$type<FieldChange[]>().notNull(), // Fields that differ from the previous revision
+  restoredFromId: uuid('restored_from_id'), // Revision whose snapshot a restore copied
+  authorId: varchar('author_id', { length: 255 }).notNull(), // Clerk user id of the admin who made the change
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  // One row per revision number of an entity
+  entityRevisionIdx: uniqueIndex('idx_content_revisions_entity_revision').on(table.entityType, table.entityId, table.revisionNumber),
+  // Index for the deck page history, newest first
+  deckCreatedIdx: index('idx_content_revisions_deck_created').on(table.deckId, table.createdAt),
+}));
+
+// Review comments table - Reviewer discussion on a flashcard or deck quiz question in review
+// ✅ ADMIN EDITORIAL WORKFLOW
+export const reviewComments = pgTable('review_comments', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  flashcardId: uuid('flashcard_id').references(() => flashcards.id, { onDelete: 'cascade' }), // Set for flashcard comments
+  deckQuizQuestionId: uuid('deck_quiz_question_id').references(() => deckQuizQuestions.id, { onDelete: 'cascade' }), // Set for deck quiz question comments
+  authorId: varchar('author_id', { length: 255 }).notNull().references(() => users.clerkUserId, { onDelete: 'cascade' }),
+  kind: varchar('kind', { length: 20 }).$type<ReviewCommentKind>().notNull().default('comment'), // 'comment', 'approval' or 'changes_requested'
+  field: varchar('field', { length: 50 }), // Content field the comment is about (e.g. 'answer'); null for the item as a whole
+  quote: text('quote'), // Passage of the field the comment points at
+  body: text('body').notNull(),
+  resolvedAt: timestamp('resolved_at'),
+  resolvedBy: varchar('resolved_by', { length: 255 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  // Index for a flashcard's discussion
+  flashcardIdx: index('idx_review_comments_flashcard').on(table.flashcardId, table.createdAt),
+  // Index for a deck quiz question's discussion
+  deckQuizQuestionIdx: index('idx_review_comments_deck_quiz_question').on(table.deckQuizQuestionId, table.createdAt),
 }));
 
 // ============================================
@@ -256,6 +318,12 @@ export const userCardProgress = pgTable('user_card_progress', {
   timesSeen: integer('times_seen').default(0),
   lastSeen: timestamp('last_seen'),
   nextReviewDate: timestamp('next_review_date'), // For spaced repetition
+  // Spaced repetition scheduler state (see lib/spaced-repetition/scheduler.ts)
+  easeFactor: decimal('ease_factor', { precision: 4, scale: 2 }).notNull().default('2.50'), // SM-2 ease
+  stability: decimal('stability', { precision: 8, scale: 2 }).notNull().default('0'), // in days
+  intervalDays: decimal('interval_days', { precision: 8, scale: 2 }).notNull().default('0'), // current interval in days
+  lastIntervalDays: decimal('last_interval_days', { precision: 8, scale: 2 }).notNull().default('0'), // previous interval in days
+  lapses: integer('lapses').notNull().default(0), // times a learned card was forgotten
   masteryStatus: masteryStatusEnum('mastery_status').notNull().default('new'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -264,6 +332,8 @@ export const userCardProgress = pgTable('user_card_progress', {
   userFlashcardIdx: index('idx_user_card_progress_user_flashcard').on(table.clerkUserId, table.flashcardId),
   // Index for mastery status filtering and grouping
   masteryStatusIdx: index('idx_user_card_progress_mastery').on(table.clerkUserId, table.masteryStatus),
+  // Index for the cross-class due review queue and forecast
+  userNextReviewIdx: index('idx_user_card_progress_user_next_review').on(table.clerkUserId, table.nextReviewDate),
 }));
 
 // Study sessions table - Tracks study sessions
@@ -271,12 +341,13 @@ export const userCardProgress = pgTable('user_card_progress', {
 export const studySessions = pgTable('study_sessions', {
   id: uuid('id').defaultRandom().primaryKey(),
   clerkUserId: varchar('clerk_user_id', { length: 255 }).notNull().references(() => users.clerkUserId, { onDelete: 'cascade' }),
-  deckId: uuid('deck_id').references(() => decks.id, { onDelete: 'set null' }),
+  deckId: uuid('deck_id').references(() => decks.id, { onDelete: 'set null' }), // First selected deck; see study_session_decks for all of them
   startedAt: timestamp('started_at').notNull().defaultNow(),
   endedAt: timestamp('ended_at'),
   cardsStudied: integer('cards_studied').default(0),
   averageConfidence: decimal('average_confidence', { precision: 3, scale: 2 }),
   studyDuration: integer('study_duration'), // in seconds
+  focusFlashcardIds: json('focus_flashcard_ids').$type<string[]>(), // Only these cards are studied (e.g. retrying weak cards); null = whole decks
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   // Index for querying user's study sessions
@@ -285,6 +356,23 @@ export const studySessions = pgTable('study_sessions', {
   userStartedIdx: index('idx_study_sessions_user_started').on(table.clerkUserId, table.startedAt),
 }));
 
+// Study session decks table - Every deck studied in a session, with per-deck results
+// ✅ USERS STUDY SEVERAL DECKS IN ONE SESSION
+export const studySessionDecks = pgTable('study_session_decks', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  sessionId: uuid('session_id').notNull().references(() => studySessions.id, { onDelete: 'cascade' }),
+  deckId: uuid('deck_id').notNull().references(() => decks.id, { onDelete: 'cascade' }),
+  cardsStudied: integer('cards_studied').default(0), // Filled in when the session ends
+  averageConfidence: decimal('average_confidence', { precision: 3, scale: 2 }),
+  studyDuration: integer('study_duration'), // in seconds
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  // Each deck appears once per session
+  sessionDeckIdx: uniqueIndex('idx_study_session_decks_session_deck').on(table.sessionId, table.deckId),
+  // Index for deck-level session history
+  deckIdx: index('idx_study_session_decks_deck').on(table.deckId),
+}));
+
 // Session cards table - Tracks individual card reviews within a session
 // ✅ USERS RATE CARDS
 export const sessionCards = pgTable('session_cards', {
@@ -292,6 +380,7 @@ export const sessionCards = pgTable('session_cards', {
   sessionId: uuid('session_id').notNull().references(() => studySessions.id, { onDelete: 'cascade' }),
   flashcardId: uuid('flashcard_id').notNull().references(() => flashcards.id, { onDelete: 'cascade' }),
   confidenceRating: integer('confidence_rating').notNull(), // 1-5 scale
+  previousConfidence: integer('previous_confidence'), // Card's confidence before this rating (null if never rated)
   responseTime: integer('response_time'), // in seconds
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
@@ -308,13 +397,19 @@ export const quizSessions = pgTable('quiz_sessions', {
   clerkUserId: varchar('clerk_user_id', { length: 255 }).notNull().references(() => users.clerkUserId, { onDelete: 'cascade' }),
   flashcardId: uuid('flashcard_id').references(() => flashcards.id, { onDelete: 'set null' }),
   deckId: uuid('deck_id').references(() => decks.id, { onDelete: 'set null' }),
-  quizType: varchar('quiz_type', { length: 20 }).notNull(), // 'flashcard' or 'deck'
+  quizType: varchar('quiz_type', { length: 20 }).notNull(), // 'flashcard', 'deck', 'exam' or 'drill' (sub-topic practice from the insights page)
   startedAt: timestamp('started_at').notNull().defaultNow(),
   endedAt: timestamp('ended_at'),
   totalQuestions: integer('total_questions').default(0),
   correctAnswers: integer('correct_answers').default(0),
   scorePercentage: decimal('score_percentage', { precision: 5, scale: 2 }),
   quizDuration: integer('quiz_duration'), // in seconds
+  questionOrder: json('question_order').$type<string[]>(), // Question ids in the order they are shown
+  optionOrders: json('option_orders').$type<Record<string, string[]>>(), // Option ids per question, in the order they are shown
+  elapsedSeconds: integer('elapsed_seconds').default(0), // Time spent answering, restored when the quiz is resumed
+  currentQuestionId: uuid('current_question_id').references(() => deckQuizQuestions.id, { onDelete: 'set null' }), // Exam item awaiting an answer (exam sessions only)
+  examResult: json('exam_result').$type<ExamResult>(), // Pass/fail estimate and domain report, set when an exam ends
+  xpEarned: integer('xp_earned'), // XP awarded by the server when the quiz was completed
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   // Index for querying user's quiz sessions
@@ -325,6 +420,8 @@ export const quizSessions = pgTable('quiz_sessions', {
   deckIdx: index('idx_quiz_sessions_deck').on(table.deckId),
   // Index for filtering by quiz type
   typeIdx: index('idx_quiz_sessions_type').on(table.quizType),
+  // Index for finding quizzes the user can resume
+  userOpenIdx: index('idx_quiz_sessions_user_open').on(table.clerkUserId, table.endedAt),
 }));
 
 // Quiz Session Answers table - Tracks individual answers within a quiz session
@@ -334,7 +431,10 @@ export const quizSessionAnswers = pgTable('quiz_session_answers', {
   sessionId: uuid('session_id').notNull().references(() => quizSessions.id, { onDelete: 'cascade' }),
   quizQuestionId: uuid('quiz_question_id').references(() => quizQuestions.id, { onDelete: 'set null' }),
   deckQuizQuestionId: uuid('deck_quiz_question_id').references(() => deckQuizQuestions.id, { onDelete: 'set null' }),
-  selectedOptionIndex: integer('selected_option_index').notNull(),
+  selectedOptionId: varchar('selected_option_id', { length: 64 }), // Persistent option id (null for answers recorded before option ids)
+  selectedOptionIndex: integer('selected_option_index'), // Position of the selected option in option_order (single choice only)
+  optionOrder: json('option_order'), // Array of option ids in the order they were shown
+  response: json('response').$type<QuizResponse>(), // The learner's response for any question type
   isCorrect: boolean('is_correct').notNull(),
   timeSpent: integer('time_spent'), // in seconds
   questionOrder: integer('question_order').notNull(),
@@ -346,6 +446,9 @@ export const quizSessionAnswers = pgTable('quiz_session_answers', {
   questionIdx: index('idx_quiz_answers_question').on(table.quizQuestionId),
   // Index for deck quiz question reference
   deckQuestionIdx: index('idx_quiz_answers_deck_question').on(table.deckQuizQuestionId),
+  // One answer per question per session
+  sessionQuestionIdx: uniqueIndex('idx_quiz_answers_session_question').on(table.sessionId, table.quizQuestionId),
+  sessionDeckQuestionIdx: uniqueIndex('idx_quiz_answers_session_deck_question').on(table.sessionId, table.deckQuizQuestionId),
 }));
 
 // User Quiz Progress table - Aggregate flashcard quiz statistics
@@ -394,6 +497,109 @@ export const deckQuizProgress = pgTable('deck_quiz_progress', {
   userIdx: index('idx_deck_quiz_progress_user').on(table.clerkUserId),
 }));
 
+// Mistake notebook table - Every quiz question a user answered wrong, re-quizzed with spaced repetition
+// ✅ QUIZ MISTAKE REVIEW
+export const mistakeNotebookEntries = pgTable('mistake_notebook_entries', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  clerkUserId: varchar('clerk_user_id', { length: 255 }).notNull().references(() => users.clerkUserId, { onDelete: 'cascade' }),
+  quizQuestionId: uuid('quiz_question_id').references(() => quizQuestions.id, { onDelete: 'cascade' }), // Flashcard quiz question
+  deckQuizQuestionId: uuid('deck_quiz_question_id').references(() => deckQuizQuestions.id, { onDelete: 'cascade' }), // Deck, drill or exam question
+  lastWrongResponse: json('last_wrong_response').$type<QuizResponse>(), // The learner's most recent wrong answer
+  lastWrongAt: timestamp('last_wrong_at').notNull(),
+  timesWrong: integer('times_wrong').notNull().default(1),
+  consecutiveCorrect: integer('consecutive_correct').notNull().default(0), // Correct re-attempts since the last wrong answer
+  // Spaced repetition scheduler state (see lib/spaced-repetition/scheduler.ts)
+  easeFactor: decimal('ease_factor', { precision: 4, scale: 2 }).notNull().default('2.50'),
+  stability: decimal('stability', { precision: 8, scale: 2 }).notNull().default('0'),
+  intervalDays: decimal('interval_days', { precision: 8, scale: 2 }).notNull().default('0'),
+  lastIntervalDays: decimal('last_interval_days', { precision: 8, scale: 2 }).notNull().default('0'),
+  lapses: integer('lapses').notNull().default(0),
+  lastReviewedAt: timestamp('last_reviewed_at').notNull(), // Last wrong answer or re-attempt
+  nextReviewDate: timestamp('next_review_date').notNull(),
+  retiredAt: timestamp('retired_at'), // Set once enough consecutive re-attempts are correct; cleared by a new mistake
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  // One entry per user and question
+  userQuizQuestionIdx: uniqueIndex('idx_mistake_notebook_user_quiz_question').on(table.clerkUserId, table.quizQuestionId),
+  userDeckQuizQuestionIdx: uniqueIndex('idx_mistake_notebook_user_deck_quiz_question').on(table.clerkUserId, table.deckQuizQuestionId),
+  // Index for the due re-attempt queue
+  userNextReviewIdx: index('idx_mistake_notebook_user_next_review').on(table.clerkUserId, table.nextReviewDate),
+}));
+
+// User XP table - Running XP total, awarded by the server when quizzes are completed
+// ✅ GAMIFICATION PROGRESS ACROSS SESSIONS
+export const userXp = pgTable('user_xp', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  clerkUserId: varchar('clerk_user_id', { length: 255 }).notNull().references(() => users.clerkUserId, { onDelete: 'cascade' }).unique(),
+  totalXp: integer('total_xp').notNull().default(0),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// User achievements table - Achievements a user has unlocked, once each
+// ✅ GAMIFICATION PROGRESS ACROSS SESSIONS
+export const userAchievements = pgTable('user_achievements', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  clerkUserId: varchar('clerk_user_id', { length: 255 }).notNull().references(() => users.clerkUserId, { onDelete: 'cascade' }),
+  achievementId: varchar('achievement_id', { length: 50 }).notNull(), // AchievementId from lib/gamification/achievements
+  quizSessionId: uuid('quiz_session_id').references(() => quizSessions.id, { onDelete: 'set null' }), // Quiz that unlocked it
+  unlockedAt: timestamp('unlocked_at').defaultNow().notNull(),
+}, (table) => ({
+  // An achievement is unlocked once per user
+  userAchievementIdx: uniqueIndex('idx_user_achievements_user_achievement').on(table.clerkUserId, table.achievementId),
+}));
+
+// Study plans table - The learner's exam date and time budget the study planner works from
+// ✅ PERSONAL STUDY PLANNER
+export const studyPlans = pgTable('study_plans', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  clerkUserId: varchar('clerk_user_id', { length: 255 }).notNull().references(() => users.clerkUserId, { onDelete: 'cascade' }).unique(),
+  examDate: varchar('exam_date', { length: 10 }).notNull(), // YYYY-MM-DD in the user's timezone
+  weeklyMinutes: integer('weekly_minutes').notNull(), // Study time budget per week
+  studyDays: json('study_days').$type<number[]>().notNull(), // Weekdays to study on: 0 = Sunday ... 6 = Saturday
+  baselineDate: varchar('baseline_date', { length: 10 }).notNull(), // Local date the settings were saved; progress is measured from here
+  baselineNewCards: integer('baseline_new_cards').notNull(), // New cards left to study on the baseline date
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Readiness snapshots table - Daily exam readiness estimate, kept so learners can see the trend
+// ✅ EXAM READINESS HISTORY
+export const readinessSnapshots = pgTable('readiness_snapshots', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  clerkUserId: varchar('clerk_user_id', { length: 255 }).notNull().references(() => users.clerkUserId, { onDelete: 'cascade' }),
+  snapshotDate: varchar('snapshot_date', { length: 10 }).notNull(), // YYYY-MM-DD (UTC); the latest estimate of the day wins
+  score: decimal('score', { precision: 5, scale: 2 }).notNull(), // 0-100
+  scoreLow: decimal('score_low', { precision: 5, scale: 2 }).notNull(), // 95% band
+  scoreHigh: decimal('score_high', { precision: 5, scale: 2 }).notNull(),
+  passProbability: decimal('pass_probability', { precision: 5, scale: 2 }).notNull(), // 0-100
+  domainScores: json('domain_scores').$type<Record<string, number>>().notNull(), // Domain number -> score
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  // One snapshot per user per day
+  userDateIdx: uniqueIndex('idx_readiness_snapshots_user_date').on(table.clerkUserId, table.snapshotDate),
+}));
+
+// User daily activity table - What a learner did on each local day; the source for streaks and activity charts
+// ✅ DAILY ACTIVITY AND STREAKS
+export const userDailyActivity = pgTable('user_daily_activity', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  clerkUserId: varchar('clerk_user_id', { length: 255 }).notNull().references(() => users.clerkUserId, { onDelete: 'cascade' }),
+  activityDate: varchar('activity_date', { length: 10 }).notNull(), // YYYY-MM-DD in the user's timezone
+  cardsStudied: integer('cards_studied').notNull().default(0), // Card ratings
+  questionsAnswered: integer('questions_answered').notNull().default(0),
+  studySessions: integer('study_sessions').notNull().default(0), // Study sessions completed
+  quizSessions: integer('quiz_sessions').notNull().default(0), // Quizzes and exams completed
+  studySeconds: integer('study_seconds').notNull().default(0), // Time in completed study sessions and quizzes
+  frozen: boolean('frozen').notNull().default(false), // A missed day covered by a streak freeze token
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  userDateIdx: uniqueIndex('idx_user_daily_activity_user_date').on(table.clerkUserId, table.activityDate),
+}));
+
 // Deck progress table - Aggregate statistics per deck per user
 // ✅ USERS PROGRESS PER DECK (visible to admins)
 export const deckProgress = pgTable('deck_progress', {
@@ -407,7 +613,11 @@ export const deckProgress = pgTable('deck_progress', {
   lastStudied: timestamp('last_studied'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => ({
+  // Kept up to date as cards are rated; see lib/progress/aggregate-store
+  userDeckIdx: uniqueIndex('idx_deck_progress_user_deck').on(table.clerkUserId, table.deckId),
+  deckIdx: index('idx_deck_progress_deck').on(table.deckId),
+}));
 
 // Class progress table - Aggregate statistics per class per user
 // ✅ USERS PROGRESS PER CLASS (visible to admins)
@@ -419,10 +629,13 @@ export const classProgress = pgTable('class_progress', {
   decksStarted: integer('decks_started').default(0),
   decksCompleted: integer('decks_completed').default(0),
   overallMasteryPercentage: decimal('overall_mastery_percentage', { precision: 5, scale: 2 }).default('0'),
+  cardsStudied: integer('cards_studied').default(0),
   lastStudied: timestamp('last_studied'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => ({
+  userClassIdx: uniqueIndex('idx_class_progress_user_class').on(table.clerkUserId, table.classId),
+}));
 
 // User stats table - Overall user statistics across all classes
 // ✅ OVERALL USER STATS (visible to admins)
@@ -435,10 +648,28 @@ export const userStats = pgTable('user_stats', {
   dailyCardsStudiedToday: integer('daily_cards_studied_today').default(0), // For free tier limit
   lastActiveDate: timestamp('last_active_date'),
   lastResetDate: timestamp('last_reset_date'), // Track when daily limit was last reset
+  timezone: varchar('timezone', { length: 64 }), // IANA timezone the daily limit resets in (e.g., 'Europe/Berlin')
+  timezoneUpdatedAt: timestamp('timezone_updated_at'), // Last change of timezone, for the change cooldown
+  longestStreakDays: integer('longest_streak_days').default(0),
+  streakFreezeTokens: integer('streak_freeze_tokens').default(0), // Each one covers a missed day so the streak survives
+  lastStreakDate: varchar('last_streak_date', { length: 10 }), // Latest local day (YYYY-MM-DD) counted in study_streak_days
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// User daily card usage table - Cards counted against the free tier daily limit
+// ✅ FREE TIER DAILY LIMIT TRACKING
+export const userDailyCardUsage = pgTable('user_daily_card_usage', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  clerkUserId: varchar('clerk_user_id', { length: 255 }).notNull().references(() => users.clerkUserId, { onDelete: 'cascade' }),
+  flashcardId: uuid('flashcard_id').notNull().references(() => flashcards.id, { onDelete: 'cascade' }),
+  usageDate: varchar('usage_date', { length: 10 }).notNull(), // YYYY-MM-DD in the user's timezone
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  // A card counts once per day, however many times or endpoints record it
+  userCardDateIdx: uniqueIndex('idx_daily_card_usage_user_card_date').on(table.clerkUserId, table.flashcardId, table.usageDate),
+}));
+
 // ============================================
 // AI QUIZ GENERATION TRACKING
 // ADMIN-ONLY FEATURE FOR GENERATING QUIZ QUESTIONS VIA AI
@@ -647,6 +878,7 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   cardProgress: many(userCardProgress),
   bookmarkedFlashcards: many(bookmarkedFlashcards),
   studySessions: many(studySessions),
+  studySessionDecks: many(studySessionDecks),
   deckProgress: many(deckProgress),
   classProgress: many(classProgress),
   stats: one(userStats),
@@ -654,6 +886,13 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   quizSessions: many(quizSessions),
   userQuizProgress: many(userQuizProgress),
   deckQuizProgress: many(deckQuizProgress),
+  mistakeNotebookEntries: many(mistakeNotebookEntries),
+  // Gamification relations
+  xp: one(userXp),
+  achievements: many(userAchievements),
+  readinessSnapshots: many(readinessSnapshots),
+  studyPlan: one(studyPlans),
+  dailyActivity: many(userDailyActivity),
   // Admin relations
   createdClasses: many(classes),
   createdDecks: many(decks),
@@ -777,9 +1016,21 @@ export const studySessionsRelations = relations(studySessions, ({ one, many }) =
     fields: [studySessions.deckId],
     references: [decks.id],
   }),
+  sessionDecks: many(studySessionDecks),
   sessionCards: many(sessionCards),
 }));
 
+export const studySessionDecksRelations = relations(studySessionDecks, ({ one }) => ({
+  session: one(studySessions, {
+    fields: [studySessionDecks.sessionId],
+    references: [studySessions.id],
+  }),
+  deck: one(decks, {
+    fields: [studySessionDecks.deckId],
+    references: [decks.id],
+  }),
+}));
+
 export const sessionCardsRelations = relations(sessionCards, ({ one }) => ({
   session: one(studySessions, {
     fields: [sessionCards.sessionId],
@@ -966,3 +1217,58 @@ export const deckQuizProgressRelations = relations(deckQuizProgress, ({ one }) =
     references: [decks.id],
   }),
 }));
+
+export const userXpRelations = relations(userXp, ({ one }) => ({
+  user: one(users, {
+    fields: [userXp.clerkUserId],
+    references: [users.clerkUserId],
+  }),
+}));
+
+export const userAchievementsRelations = relations(userAchievements, ({ one }) => ({
+  user: one(users, {
+    fields: [userAchievements.clerkUserId],
+    references: [users.clerkUserId],
+  }),
+  quizSession: one(quizSessions, {
+    fields: [userAchievements.quizSessionId],
+    references: [quizSessions.id],
+  }),
+}));
+
+
+export const mistakeNotebookEntriesRelations = relations(mistakeNotebookEntries, ({ one }) => ({
+  user: one(users, {
+    fields: [mistakeNotebookEntries.clerkUserId],
+    references: [users.clerkUserId],
+  }),
+  quizQuestion: one(quizQuestions, {
+    fields: [mistakeNotebookEntries.quizQuestionId],
+    references: [quizQuestions.id],
+  }),
+  deckQuizQuestion: one(deckQuizQuestions, {
+    fields: [mistakeNotebookEntries.deckQuizQuestionId],
+    references: [deckQuizQuestions.id],
+  }),
+}));
+
+export const readinessSnapshotsRelations = relations(readinessSnapshots, ({ one }) => ({
+  user: one(users, {
+    fields: [readinessSnapshots.clerkUserId],
+    references: [users.clerkUserId],
+  }),
+}));
+
+export const studyPlansRelations = relations(studyPlans, ({ one }) => ({
+  user: one(users, {
+    fields: [studyPlans.clerkUserId],
+    references: [users.clerkUserId],
+  }),
+}));
+
+export const userDailyActivityRelations = relations(userDailyActivity, ({ one }) => ({
+  user: one(users, {
+    fields: [userDailyActivity.clerkUserId],
+    references: [users.clerkUserId],
+  }),
+}));
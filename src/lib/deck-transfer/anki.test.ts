@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import { packageFileName, readApkg, writeApkg } from './anki';
+import { guessFieldMapping, mapRecords, type DeckExport } from './records';
+
+const quizQuestion = {
+  question_type: 'single_choice' as const,
+  question: 'Which model enforces need to know?',
+  options: [
+    { id: 'a', text: 'Mandatory access control', isCorrect: true },
+    { id: 'b', text: 'Discretionary access control', isCorrect: false },
+  ],
+};
+
+const media = {
+  fileUrl: 'https://example.public.blob.vercel-storage.com/flashcard-1-question-0.png',
+  fileKey: 'flashcard-1-question-0.png',
+  fileName: 'lattice.png',
+  mimeType: 'image/png',
+  placement: 'question',
+  order: 0,
+};
+
+const deck: DeckExport = {
+  name: 'Access Control',
+  description: 'Domain 5',
+  cards: [
+    {
+      question: '<p>What is a lattice-based model?</p>',
+      answer: '<p>Access by <strong>bounds</strong></p>',
+      explanation: '<p>Each subject has upper and lower bounds.</p>',
+      media: [media],
+      quizQuestions: [quizQuestion],
+    },
+  ],
+  deckQuizQuestions: [quizQuestion],
+};
+
+describe('Anki packages', () => {
+  it('reads back the cards, images and quiz questions it writes', async () => {
+    const image = new Uint8Array([137, 80, 78, 71]);
+    const packaged = await writeApkg(deck, new Map([[packageFileName(media), image]]));
+
+    const read = await readApkg(packaged);
+    if (!read.success) throw new Error(read.error);
+
+    expect(read.source.deckName).toBe('Access Control');
+    expect(read.source.media.get('flashcard-1-question-0.png')).toEqual(image);
+
+    const mapped = mapRecords(read.source, guessFieldMapping(read.source.columns));
+    expect(mapped.errors).toEqual([]);
+    expect(mapped.cards).toEqual([
+      {
+        row: 1,
+        question: '<p>What is a lattice-based model?</p>',
+        answer: '<p>Access by <strong>bounds</strong></p>',
+        explanation: '<p>Each subject has upper and lower bounds.</p>',
+        images: [{ source: 'flashcard-1-question-0.png', placement: 'question', order: 0 }],
+        quiz: { questions: [quizQuestion] },
+      },
+    ]);
+    expect(mapped.deckQuestions).toEqual([{ row: 2, question: quizQuestion }]);
+  });
+
+  it('reads only the media files the media list names', async () => {
+    const image = new Uint8Array([137, 80, 78, 71]);
+    const packaged = await writeApkg(deck, new Map([[packageFileName(media), image]]));
+    const repacked = zipSync({ ...unzipSync(packaged), '99': new Uint8Array([1, 2, 3]) });
+
+    const read = await readApkg(repacked);
+    if (!read.success) throw new Error(read.error);
+
+    expect([...read.source.media.keys()]).toEqual(['flashcard-1-question-0.png']);
+  });
+
+  it('explains how to export packages in the newest format', async () => {
+    const packaged = zipSync({ 'collection.anki21b': new Uint8Array([0]), media: strToU8('') });
+    const read = await readApkg(packaged);
+    expect(read).toMatchObject({ success: false });
+    expect(read.success ? '' : read.error).toContain('Support older Anki versions');
+  });
+
+  it('rejects files that are not zip archives', async () => {
+    expect(await readApkg(strToU8('front,back'))).toMatchObject({ success: false });
+  });
+});
@@ -0,0 +1,403 @@
+/**
+ * Anki Packages (.apkg)
+ * An .apkg is a zip of an Anki collection (a SQLite database), a "media" file mapping numbered
+ * entries to file names, and the numbered media files. Packages are read in the legacy layout
+ * that Anki writes with "Support older Anki versions" ticked, and written in the same layout so
+ * every Anki version can import them.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import initSqlJs, { type Database, type SqlJsStatic } from 'sql.js';
+import { strFromU8, strToU8, zipSync } from 'fflate';
+import { unzipWithinLimits } from '@/lib/utils/unzip';
+import { correctOptionsText, type DeckExport, type ExportMedia, type ImportSource, type SourceRecord } from './records';
+
+const FIELD_SEPARATOR = '\x1f';
+const MAX_MEDIA_FILE_SIZE = 5 * 1024 * 1024; // Same limit as uploaded card images
+const MAX_MEDIA_LIST_SIZE = 5 * 1024 * 1024;
+const MAX_UNZIPPED_SIZE = 250 * 1024 * 1024; // Collection and images together
+const COLLECTION_FILES = ['collection.anki21', 'collection.anki2'];
+
+// Fixed note type ids, so importing a second export into Anki updates the same note types
+const CARD_MODEL_ID = 1735000000001;
+const QUIZ_MODEL_ID = 1735000000002;
+
+const CARD_FIELDS = ['Question', 'Answer', 'Explanation', 'Quiz', 'Type'];
+const QUIZ_FIELDS = ['Question', 'Options', 'Answer', 'Explanation', 'Quiz', 'Type'];
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const CARD_CSS = '.card { font-family: arial; font-size: 20px; text-align: left; color: black; background-color: white; }';
+
+export type ReadPackageResult = { success: true; source: ImportSource } | { success: false; error: string };
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+function getSqlJs(): Promise<SqlJsStatic> {
+  sqlJs ??= initSqlJs();
+  return sqlJs;
+}
+
+function queryRows(database: Database, sql: string): Array<Record<string, unknown>> {
+  const [result] = database.exec(sql);
+  if (!result) return [];
+  return result.values.map((values) =>
+    Object.fromEntries(result.columns.map((column, index) => [column, values[index]]))
+  );
+}
+
+function parseJsonObject(value: unknown): Record<string, unknown> {
+  if (typeof value !== 'string' || !value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Field names of each note type, from the collection's JSON (schema 11) or its fields table (later schemas)
+ */
+function readNoteTypeFields(database: Database, models: Record<string, unknown>): Map<string, string[]> {
+  const fieldsByModel = new Map<string, string[]>();
+
+  for (const [id, model] of Object.entries(models)) {
+    const fields = (model as { flds?: Array<{ name: string; ord: number }> }).flds ?? [];
+    fieldsByModel.set(id, [...fields].sort((a, b) => a.ord - b.ord).map((field) => field.name));
+  }
+
+  if (fieldsByModel.size === 0) {
+    const tables = queryRows(database, "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'fields'");
+    if (tables.length > 0) {
+      for (const row of queryRows(database, 'SELECT ntid, name FROM fields ORDER BY ntid, ord')) {
+        const id = String(row.ntid);
+        fieldsByModel.set(id, [...(fieldsByModel.get(id) ?? []), String(row.name)]);
+      }
+    }
+  }
+
+  return fieldsByModel;
+}
+
+function readDeckName(database: Database, decks: Record<string, unknown>): string | null {
+  const [mostUsed] = queryRows(database, 'SELECT did FROM cards GROUP BY did ORDER BY count(*) DESC LIMIT 1');
+  if (!mostUsed) return null;
+  const deck = decks[String(mostUsed.did)] as { name?: string } | undefined;
+  // Subdecks are named "Parent::Child"
+  return deck?.name ? deck.name.split('::').pop() ?? deck.name : null;
+}
+
+function unzipFailure(error: 'invalid' | 'too_large'): ReadPackageResult {
+  return {
+    success: false,
+    error: error === 'too_large' ? 'The Anki package unzips to more than 250MB' : 'The file is not a valid Anki package',
+  };
+}
+
+/**
+ * The notes of an Anki package as import records, one column per note field, with its images
+ */
+export async function readApkg(data: Uint8Array): Promise<ReadPackageResult> {
+  // The collection and the media list first, then only the media files the list names
+  const unzipped = unzipWithinLimits(
+    data,
+    (name) => (COLLECTION_FILES.includes(name) ? MAX_UNZIPPED_SIZE : name === 'media' ? MAX_MEDIA_LIST_SIZE : false),
+    MAX_UNZIPPED_SIZE
+  );
+  if (!unzipped.success) {
+    return unzipFailure(unzipped.error);
+  }
+
+  const collection = unzipped.files['collection.anki21'] ?? unzipped.files['collection.anki2'];
+  const isNewestFormat = unzipped.entries.includes('collection.anki21b');
+  if (!collection || (isNewestFormat && !unzipped.files['collection.anki21'])) {
+    return {
+      success: false,
+      error: isNewestFormat
+        ? 'This package uses the newest Anki format. Export it again with "Support older Anki versions" ticked.'
+        : 'The file is not a valid Anki package',
+    };
+  }
+
+  let mediaNames: Record<string, string> = {};
+  if (unzipped.oversized.includes('media')) {
+    return { success: false, error: 'The media list of this package could not be read' };
+  }
+  if (unzipped.files.media) {
+    try {
+      mediaNames = JSON.parse(strFromU8(unzipped.files.media));
+    } catch {
+      return { success: false, error: 'The media list of this package could not be read' };
+    }
+  }
+
+  const mediaFiles = Object.keys(mediaNames).length > 0
+    ? unzipWithinLimits(
+        data,
+        (name) => (Object.hasOwn(mediaNames, name) ? MAX_MEDIA_FILE_SIZE : false),
+        MAX_UNZIPPED_SIZE - unzipped.size
+      )
+    : null;
+  if (mediaFiles && !mediaFiles.success) {
+    return unzipFailure(mediaFiles.error);
+  }
+
+  const SQL = await getSqlJs();
+  let database: Database;
+  try {
+    database = new SQL.Database(collection);
+  } catch {
+    return { success: false, error: 'The Anki collection in this package could not be read' };
+  }
+
+  try {
+    const [col] = queryRows(database, 'SELECT models, decks FROM col');
+    const fieldsByModel = readNoteTypeFields(database, parseJsonObject(col?.models));
+    const deckName = readDeckName(database, parseJsonObject(col?.decks));
+
+    const columns: string[] = [];
+    const records: SourceRecord[] = [];
+    for (const note of queryRows(database, 'SELECT mid, flds FROM notes ORDER BY id')) {
+      const fieldNames = fieldsByModel.get(String(note.mid)) ?? [];
+      const values = String(note.flds).split(FIELD_SEPARATOR);
+      const record: SourceRecord = { row: records.length + 1, values: {} };
+      values.forEach((value, index) => {
+        const name = fieldNames[index] ?? `Field ${index + 1}`;
+        if (!columns.includes(name)) columns.push(name);
+        record.values[name] = value;
+      });
+      records.push(record);
+    }
+
+    const media = new Map<string, Uint8Array>();
+    for (const [entry, name] of Object.entries(mediaNames)) {
+      const file = mediaFiles?.files[entry];
+      if (file) media.set(name, file);
+    }
+
+    return { success: true, source: { format: 'apkg', deckName, columns, records, media } };
+  } catch (error) {
+    console.error('Error reading Anki collection:', error);
+    return { success: false, error: 'The Anki collection in this package could not be read' };
+  } finally {
+    database.close();
+  }
+}
+
+/**
+ * The name an exported image has inside an Anki package
+ */
+export function packageFileName(media: ExportMedia): string {
+  const name = media.fileKey.split('/').pop() || media.fileName;
+  return name.replace(/[^\w.-]/g, '_');
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function fieldChecksum(value: string): number {
+  return parseInt(createHash('sha1').update(stripHtml(value)).digest('hex').slice(0, 8), 16);
+}
+
+function noteType(id: number, name: string, fields: string[], qfmt: string, afmt: string, deckId: number, mod: number) {
+  return {
+    id,
+    name,
+    type: 0,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [{ name: 'Card 1', ord: 0, qfmt, afmt, did: null, bqfmt: '', bafmt: '' }],
+    flds: fields.map((field, ord) => ({ name: field, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    css: CARD_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: [[0, 'any', [0]]],
+    tags: [],
+    vers: [],
+  };
+}
+
+function deckObject(id: number, name: string, description: string, mod: number) {
+  return {
+    id,
+    mod,
+    name,
+    usn: -1,
+    lrnToday: [0, 0],
+    revToday: [0, 0],
+    newToday: [0, 0],
+    timeToday: [0, 0],
+    collapsed: false,
+    browserCollapsed: false,
+    desc: description,
+    dyn: 0,
+    conf: 1,
+    extendNew: 0,
+    extendRev: 0,
+  };
+}
+
+const DECK_OPTIONS = {
+  1: {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 200, hardFactor: 1.2 },
+  },
+};
+
+/**
+ * An Anki package of a deck: one note per card (its quiz questions kept in a Quiz field) and one
+ * per deck quiz question, with the card images whose files are given
+ */
+export async function writeApkg(deck: DeckExport, mediaFiles: Map<string, Uint8Array>): Promise<Uint8Array> {
+  const SQL = await getSqlJs();
+  const database = new SQL.Database();
+
+  try {
+    database.run(SCHEMA);
+
+    const now = Date.now();
+    const nowSeconds = Math.floor(now / 1000);
+    const deckId = now;
+
+    const imageTags = (media: ExportMedia[], placement: string) =>
+      media
+        .filter((item) => item.placement === placement && mediaFiles.has(packageFileName(item)))
+        .sort((a, b) => a.order - b.order)
+        .map((item) => `<img src="${escapeHtml(packageFileName(item))}">`)
+        .join('');
+
+    const notes: Array<{ modelId: number; fields: string[] }> = [
+      ...deck.cards.map((card) => ({
+        modelId: CARD_MODEL_ID,
+        fields: [
+          card.question + imageTags(card.media, 'question'),
+          card.answer + imageTags(card.media, 'answer'),
+          card.explanation ?? '',
+          card.quizQuestions.length > 0 ? JSON.stringify({ questions: card.quizQuestions }) : '',
+          'flashcard',
+        ],
+      })),
+      ...deck.deckQuizQuestions.map((question) => ({
+        modelId: QUIZ_MODEL_ID,
+        fields: [
+          escapeHtml(question.question),
+          `<ol type="A">${question.options.map((option) => `<li>${escapeHtml(option.text)}</li>`).join('')}</ol>`,
+          escapeHtml(correctOptionsText(question)),
+          escapeHtml(question.explanation ?? ''),
+          JSON.stringify({ questions: [question] }),
+          'deck_quiz_question',
+        ],
+      })),
+    ];
+
+    const insertNote = database.prepare(
+      'INSERT INTO notes (id, guid, mid, mod, usn, tags, flds, sfld, csum, flags, data) VALUES (?, ?, ?, ?, -1, \'\', ?, ?, ?, 0, \'\')'
+    );
+    const insertCard = database.prepare(
+      'INSERT INTO cards (id, nid, did, ord, mod, usn, type, queue, due, ivl, factor, reps, lapses, left, odue, odid, flags, data) VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')'
+    );
+    notes.forEach((note, index) => {
+      const noteId = now + index;
+      insertNote.run([
+        noteId,
+        randomBytes(8).toString('base64url'),
+        note.modelId,
+        nowSeconds,
+        note.fields.join(FIELD_SEPARATOR),
+        stripHtml(note.fields[0]),
+        fieldChecksum(note.fields[0]),
+      ]);
+      insertCard.run([noteId, noteId, deckId, nowSeconds, index + 1]);
+    });
+    insertNote.free();
+    insertCard.free();
+
+    const models = {
+      [CARD_MODEL_ID]: noteType(
+        CARD_MODEL_ID,
+        'CISSP Mastery Card',
+        CARD_FIELDS,
+        '{{Question}}',
+        '{{FrontSide}}<hr id=answer>{{Answer}}{{#Explanation}}<br><br>{{Explanation}}{{/Explanation}}',
+        deckId,
+        nowSeconds
+      ),
+      [QUIZ_MODEL_ID]: noteType(
+        QUIZ_MODEL_ID,
+        'CISSP Mastery Quiz Question',
+        QUIZ_FIELDS,
+        '{{Question}}<br>{{Options}}',
+        '{{FrontSide}}<hr id=answer>{{Answer}}{{#Explanation}}<br><br>{{Explanation}}{{/Explanation}}',
+        deckId,
+        nowSeconds
+      ),
+    };
+    const decks = {
+      1: deckObject(1, 'Default', '', nowSeconds),
+      [deckId]: deckObject(deckId, deck.name, deck.description ?? '', nowSeconds),
+    };
+    const conf = {
+      activeDecks: [1],
+      curDeck: 1,
+      newSpread: 0,
+      collapseTime: 1200,
+      timeLim: 0,
+      estTimes: true,
+      dueCounts: true,
+      curModel: String(CARD_MODEL_ID),
+      nextPos: notes.length + 1,
+      sortType: 'noteFld',
+      sortBackwards: false,
+      addToCur: true,
+    };
+
+    database.run(
+      'INSERT INTO col (id, crt, mod, scm, ver, dty, usn, ls, conf, models, decks, dconf, tags) VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, \'{}\')',
+      [nowSeconds, now, now, JSON.stringify(conf), JSON.stringify(models), JSON.stringify(decks), JSON.stringify(DECK_OPTIONS)]
+    );
+
+    const entries: Record<string, Uint8Array> = { 'collection.anki2': database.export() };
+    const mediaNames: Record<string, string> = {};
+    [...mediaFiles.entries()].forEach(([name, content], index) => {
+      entries[String(index)] = content;
+      mediaNames[String(index)] = name;
+    });
+    entries.media = strToU8(JSON.stringify(mediaNames));
+
+    return zipSync(entries);
+  } finally {
+    database.close();
+  }
+}
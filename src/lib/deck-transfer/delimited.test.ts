@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { detectDelimiter, parseDelimited, toDelimited } from './delimited';
+
+describe('detectDelimiter', () => {
+  it('uses the extension, then the first line', () => {
+    expect(detectDelimiter('a,b\tc', 'cards.tsv')).toBe('\t');
+    expect(detectDelimiter('front\tback\n1\t2', 'cards.txt')).toBe('\t');
+    expect(detectDelimiter('front;back;extra', 'cards.csv')).toBe(';');
+    expect(detectDelimiter('front,back', 'cards.csv')).toBe(',');
+  });
+});
+
+describe('parseDelimited', () => {
+  it('reads quoted fields with delimiters, quotes and line breaks', () => {
+    const text = '﻿question,answer\r\n"What is CIA?","Confidentiality, integrity\nand ""availability"""\r\n\r\nplain,row\n';
+    expect(parseDelimited(text, ',')).toEqual([
+      ['question', 'answer'],
+      ['What is CIA?', 'Confidentiality, integrity\nand "availability"'],
+      ['plain', 'row'],
+    ]);
+  });
+
+  it('skips Anki header directives', () => {
+    expect(parseDelimited('#separator:tab\n#html:true\nfront\tback', '\t')).toEqual([['front', 'back']]);
+  });
+
+  it('round-trips what toDelimited writes', () => {
+    const rows = [
+      ['type', 'question'],
+      ['flashcard', '<p>Say "hi", then\nleave</p>'],
+      ['flashcard', ' padded '],
+    ];
+    expect(parseDelimited(toDelimited(rows), ',')).toEqual(rows);
+  });
+});
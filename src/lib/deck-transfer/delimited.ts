@@ -0,0 +1,100 @@
+/**
+ * CSV and TSV
+ * RFC 4180 style: fields containing the delimiter, quotes or line breaks are quoted, and quotes
+ * inside them are doubled. Anki's plain text export uses the same rules with tabs.
+ */
+
+export type Delimiter = ',' | '\t' | ';';
+
+/**
+ * The delimiter of a file: tabs for .tsv/.txt, otherwise whichever of comma, tab or
+ * semicolon appears most often in the first line
+ */
+export function detectDelimiter(text: string, fileName?: string): Delimiter {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'tsv' || extension === 'tab') {
+    return '\t';
+  }
+
+  const lineEnd = text.search(/\r?\n/);
+  const firstLine = lineEnd === -1 ? text : text.slice(0, lineEnd);
+  const candidates: Delimiter[] = [',', '\t', ';'];
+  const counts = candidates.map((delimiter) => firstLine.split(delimiter).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? candidates[best] : extension === 'txt' ? '\t' : ',';
+}
+
+/**
+ * Rows of a delimited file; blank lines and Anki's "#separator:tab" style header lines are skipped
+ */
+export function parseDelimited(text: string, delimiter: Delimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0; // Byte order mark
+
+  const endRow = () => {
+    row.push(field);
+    field = '';
+    const isBlank = row.length === 1 && row[0].trim() === '';
+    const isDirective = row.length === 1 && /^#[a-z ]+:/i.test(row[0]);
+    if (!isBlank && !isDirective) {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[index + 1] === '"') {
+          field += '"';
+          index += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      index += 1;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+    index += 1;
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+function quoteField(value: string, delimiter: Delimiter): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+/**
+ * A delimited file from rows of fields, with CRLF line endings
+ */
+export function toDelimited(rows: string[][], delimiter: Delimiter = ','): string {
+  return rows.map((row) => row.map((value) => quoteField(value, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildExportRows,
+  guessFieldMapping,
+  mapRecords,
+  sourceFromDelimited,
+  toCardHtml,
+  type DeckExport,
+  type ImportSource,
+} from './records';
+import { toDelimited } from './delimited';
+
+const quizQuestion = {
+  question_type: 'single_choice' as const,
+  question: 'Which control is preventive?',
+  options: [
+    { id: 'a', text: 'Firewall rule', isCorrect: true },
+    { id: 'b', text: 'Audit log', isCorrect: false },
+  ],
+  explanation: 'Firewall rules stop traffic before it arrives.',
+};
+
+function source(records: Array<Record<string, string>>, media: string[] = []): ImportSource {
+  return {
+    format: 'apkg',
+    deckName: null,
+    columns: Object.keys(records[0] ?? {}),
+    records: records.map((values, index) => ({ row: index + 1, values })),
+    media: new Map(media.map((name) => [name, new Uint8Array([1])])),
+  };
+}
+
+describe('toCardHtml', () => {
+  it('maps Anki markup onto editor HTML and pulls out images', () => {
+    expect(toCardHtml('<div><b>Risk</b> = threat<img src="diagram.png"> [sound:risk.mp3]</div><div>&nbsp;</div>')).toEqual({
+      html: '<p><strong>Risk</strong> = threat </p>',
+      images: ['diagram.png'],
+    });
+  });
+
+  it('wraps plain text in a paragraph', () => {
+    expect(toCardHtml('A < B\nB > C')).toEqual({ html: '<p>A &lt; B<br>B &gt; C</p>', images: [] });
+  });
+});
+
+describe('guessFieldMapping', () => {
+  it('recognises common column names', () => {
+    expect(guessFieldMapping(['Front', 'Back', 'Extra'])).toMatchObject({
+      question: 'Front',
+      answer: 'Back',
+      explanation: 'Extra',
+    });
+    expect(guessFieldMapping(['Term', 'Meaning'])).toMatchObject({ question: 'Term', answer: 'Meaning' });
+  });
+});
+
+describe('mapRecords', () => {
+  it('reports invalid rows and missing images by row', () => {
+    const mapped = mapRecords(
+      source(
+        [
+          { Front: 'What is DAC?<img src="dac.png">', Back: 'Owner decides access<img src="missing.png">' },
+          { Front: '', Back: 'No question' },
+          { Front: 'Audio', Back: 'Answer<img src="clip.svg">' },
+        ],
+        ['dac.png']
+      ),
+      { question: 'Front', answer: 'Back' }
+    );
+
+    expect(mapped.cards).toHaveLength(2);
+    expect(mapped.cards[0].images).toEqual([{ source: 'dac.png', placement: 'question', order: 0 }]);
+    expect(mapped.errors).toEqual([{ row: 2, message: 'Question is required' }]);
+    expect(mapped.warnings.map((warning) => warning.row)).toEqual([1, 3]);
+  });
+
+  it('rejects rows whose quiz questions are invalid', () => {
+    const mapped = mapRecords(source([{ Front: 'Q', Back: 'A', Quiz: '{"questions": []}' }]), {
+      question: 'Front',
+      answer: 'Back',
+      quiz: 'Quiz',
+    });
+    expect(mapped.cards).toHaveLength(0);
+    expect(mapped.errors[0].message).toContain('Invalid quiz questions');
+  });
+});
+
+describe('CSV export', () => {
+  it('imports back into the same cards, quiz questions and deck quiz questions', () => {
+    const deck: DeckExport = {
+      name: 'Domain 1',
+      description: null,
+      cards: [
+        {
+          question: '<p>What is due care?</p>',
+          answer: '<p>Doing what a reasonable person would</p>',
+          explanation: null,
+          media: [
+            {
+              fileUrl: 'https://example.public.blob.vercel-storage.com/care.png',
+              fileKey: 'care.png',
+              fileName: 'care.png',
+              mimeType: 'image/png',
+              placement: 'answer',
+              order: 0,
+            },
+          ],
+          quizQuestions: [quizQuestion],
+        },
+      ],
+      deckQuizQuestions: [quizQuestion],
+    };
+
+    const imported = sourceFromDelimited(toDelimited(buildExportRows(deck)), 'domain-1.csv', true);
+    const mapped = mapRecords(imported, guessFieldMapping(imported.columns));
+
+    expect(mapped.errors).toEqual([]);
+    expect(mapped.cards).toEqual([
+      {
+        row: 1,
+        question: '<p>What is due care?</p>',
+        answer: '<p>Doing what a reasonable person would</p>',
+        explanation: null,
+        images: [{ source: 'https://example.public.blob.vercel-storage.com/care.png', placement: 'answer', order: 0 }],
+        quiz: { questions: [quizQuestion] },
+      },
+    ]);
+    expect(mapped.deckQuestions).toEqual([{ row: 2, question: quizQuestion }]);
+  });
+});
@@ -0,0 +1,438 @@
+/**
+ * Deck Import and Export Records
+ * Imports from CSV/TSV and Anki packages arrive as records of named columns (CSV headers or
+ * Anki note fields). A field mapping picks the columns that become a card's question, answer,
+ * explanation, images and quiz questions; every problem is reported against its source row so
+ * a dry run can show the admin what will happen before anything is written.
+ */
+
+import { createFlashcardSchema } from '@/lib/validations/flashcard';
+import { detectDelimiter, parseDelimited } from './delimited';
+import { validateQuizFile, type QuizFile, type QuizQuestion } from '@/lib/validations/quiz';
+import type { QuizQuestionType } from '@/lib/quiz/question-types';
+
+export const IMPORT_FORMATS = ['csv', 'tsv', 'apkg'] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+// A row of the file (CSV line after the header, or Anki note), numbered from 1
+export interface SourceRecord {
+  row: number;
+  values: Record<string, string>;
+}
+
+export interface ImportSource {
+  format: ImportFormat;
+  deckName: string | null;
+  columns: string[];
+  records: SourceRecord[];
+  media: Map<string, Uint8Array>; // Files packaged with the cards, by file name
+}
+
+export interface FieldMapping {
+  question: string;
+  answer: string;
+  explanation?: string | null;
+  questionImages?: string | null; // Image URLs separated by spaces
+  answerImages?: string | null;
+  quiz?: string | null; // Quiz questions in the quiz JSON format
+  rowType?: string | null; // 'flashcard' or 'deck_quiz_question', as written by the CSV export
+}
+
+export type MediaPlacement = 'question' | 'answer';
+
+// An image referenced by a card: a file name in the package or a URL to download
+export interface ImageReference {
+  source: string;
+  placement: MediaPlacement;
+  order: number;
+}
+
+export interface ImportedCard {
+  row: number;
+  question: string;
+  answer: string;
+  explanation: string | null;
+  images: ImageReference[];
+  quiz: QuizFile | null;
+}
+
+export interface ImportedDeckQuestion {
+  row: number;
+  question: QuizQuestion;
+}
+
+export interface RowIssue {
+  row: number;
+  message: string;
+}
+
+export interface MappedImport {
+  cards: ImportedCard[];
+  deckQuestions: ImportedDeckQuestion[];
+  errors: RowIssue[]; // Rows that will not be imported
+  warnings: RowIssue[]; // Rows imported without something they referenced
+}
+
+export interface ExportMedia {
+  fileUrl: string;
+  fileKey: string;
+  fileName: string;
+  mimeType: string;
+  placement: string;
+  order: number;
+}
+
+export interface ExportCard {
+  question: string;
+  answer: string;
+  explanation: string | null;
+  media: ExportMedia[];
+  quizQuestions: QuizQuestion[];
+}
+
+export interface DeckExport {
+  name: string;
+  description: string | null;
+  cards: ExportCard[];
+  deckQuizQuestions: QuizQuestion[];
+}
+
+export const EXPORT_COLUMNS = [
+  'type',
+  'question',
+  'answer',
+  'explanation',
+  'question_images',
+  'answer_images',
+  'quiz_questions',
+] as const;
+
+const MAX_IMAGES_PER_CARD = 10;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+const cardContentSchema = createFlashcardSchema.pick({ question: true, answer: true, explanation: true });
+
+// Column names other tools commonly use for each card field
+const COLUMN_ALIASES: Record<keyof FieldMapping, string[]> = {
+  question: ['question', 'front', 'term', 'prompt', 'text'],
+  answer: ['answer', 'back', 'definition', 'response'],
+  explanation: ['explanation', 'extra', 'back extra', 'notes'],
+  questionImages: ['question_images', 'question images'],
+  answerImages: ['answer_images', 'answer images'],
+  quiz: ['quiz_questions', 'quiz questions', 'quiz'],
+  rowType: ['type'],
+};
+
+/**
+ * The image MIME type for a file name, or null when it is not a supported image
+ */
+export function imageMimeType(fileName: string): string | null {
+  const extension = fileName.split(/[?#]/)[0].split('.').pop()?.toLowerCase() ?? '';
+  return IMAGE_MIME_TYPES[extension] ?? null;
+}
+
+/**
+ * A mapping from column names, falling back to the first two columns for question and answer
+ */
+export function guessFieldMapping(columns: string[]): FieldMapping {
+  const find = (field: keyof FieldMapping) =>
+    columns.find((column) => COLUMN_ALIASES[field].includes(column.trim().toLowerCase())) ?? null;
+
+  const question = find('question') ?? columns[0] ?? '';
+  const answer = find('answer') ?? columns.find((column) => column !== question) ?? '';
+
+  return {
+    question,
+    answer,
+    explanation: find('explanation'),
+    questionImages: find('questionImages'),
+    answerImages: find('answerImages'),
+    quiz: find('quiz'),
+    rowType: find('rowType'),
+  };
+}
+
+/**
+ * Import records from a CSV or TSV file
+ * Without a header row the columns are named "Column 1", "Column 2" and so on.
+ */
+export function sourceFromDelimited(text: string, fileName: string, hasHeader: boolean): ImportSource {
+  const delimiter = detectDelimiter(text, fileName);
+  const rows = parseDelimited(text, delimiter);
+  const width = Math.max(0, ...rows.map((row) => row.length));
+
+  const header = hasHeader ? rows[0] ?? [] : [];
+  const columns = Array.from({ length: width }, (_, index) => header[index]?.trim() || `Column ${index + 1}`);
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  return {
+    format: delimiter === '\t' ? 'tsv' : 'csv',
+    deckName: null,
+    columns,
+    records: dataRows.map((row, index) => ({
+      row: index + 1,
+      values: Object.fromEntries(columns.map((column, columnIndex) => [column, row[columnIndex] ?? ''])),
+    })),
+    media: new Map(),
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Card HTML from an imported field, with the images it shows pulled out
+ * Anki's markup is mapped onto the tags the card editor produces and sound tags are dropped;
+ * plain text becomes a paragraph.
+ */
+export function toCardHtml(value: string): { html: string; images: string[] } {
+  const images: string[] = [];
+  const withoutImages = value.replace(/<img\b[^>]*?\bsrc\s*=\s*(["']?)([^"'>\s]+)\1[^>]*>/gi, (_match, _quote, src: string) => {
+    images.push(src.replace(/&amp;/g, '&'));
+    return '';
+  });
+  const withoutSounds = withoutImages.replace(/\[sound:[^\]]*\]/g, '');
+
+  if (!/<[a-z][^>]*>/i.test(withoutSounds)) {
+    const text = withoutSounds.trim();
+    return { html: text ? `<p>${escapeHtml(text).replace(/\r?\n/g, '<br>')}</p>` : '', images };
+  }
+
+  const html = withoutSounds
+    .replace(/<(\/?)b(\s[^>]*)?>/gi, '<$1strong>')
+    .replace(/<(\/?)i(\s[^>]*)?>/gi, '<$1em>')
+    .replace(/<div(\s[^>]*)?>/gi, '<p>')
+    .replace(/<\/div>/gi, '</p>')
+    .replace(/<\/?span[^>]*>/gi, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/<p>\s*<\/p>/g, '')
+    .trim();
+
+  return { html, images };
+}
+
+/**
+ * Plain text of card HTML, shortened for previews
+ */
+export function previewText(html: string, maxLength = 120): string {
+  const text = html
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function parseQuizColumn(value: string): { success: true; data: QuizFile } | { success: false; error: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return { success: false, error: 'Quiz questions are not valid JSON' };
+  }
+  const validation = validateQuizFile(parsed);
+  return validation.success ? validation : { success: false, error: `Invalid quiz questions: ${validation.error}` };
+}
+
+function isUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+/**
+ * Cards and deck quiz questions from the records of an import, using the given field mapping
+ */
+export function mapRecords(source: ImportSource, mapping: FieldMapping): MappedImport {
+  const result: MappedImport = { cards: [], deckQuestions: [], errors: [], warnings: [] };
+  const column = (record: SourceRecord, name: string | null | undefined) => (name ? record.values[name] ?? '' : '');
+
+  for (const record of source.records) {
+    const quizValue = column(record, mapping.quiz).trim();
+
+    // Deck quiz questions exported alongside the cards
+    if (column(record, mapping.rowType).trim() === 'deck_quiz_question') {
+      if (!quizValue) {
+        result.errors.push({ row: record.row, message: 'Deck quiz question row has no quiz questions' });
+        continue;
+      }
+      const quiz = parseQuizColumn(quizValue);
+      if (!quiz.success) {
+        result.errors.push({ row: record.row, message: quiz.error });
+        continue;
+      }
+      result.deckQuestions.push(...quiz.data.questions.map((question) => ({ row: record.row, question })));
+      continue;
+    }
+
+    const question = toCardHtml(column(record, mapping.question));
+    const answer = toCardHtml(column(record, mapping.answer));
+    const explanation = toCardHtml(column(record, mapping.explanation));
+
+    const validation = cardContentSchema.safeParse({
+      question: question.html,
+      answer: answer.html,
+      explanation: explanation.html || null,
+    });
+    if (!validation.success) {
+      result.errors.push({ row: record.row, message: validation.error.issues[0].message });
+      continue;
+    }
+
+    let quiz: QuizFile | null = null;
+    if (quizValue) {
+      const parsed = parseQuizColumn(quizValue);
+      if (!parsed.success) {
+        result.errors.push({ row: record.row, message: parsed.error });
+        continue;
+      }
+      quiz = parsed.data;
+    }
+
+    // Images shown in a field, then any listed in the image columns
+    const sources: Array<{ source: string; placement: MediaPlacement }> = [
+      ...question.images.map((image) => ({ source: image, placement: 'question' as const })),
+      ...column(record, mapping.questionImages).split(/\s+/).filter(Boolean).map((image) => ({ source: image, placement: 'question' as const })),
+      ...answer.images.map((image) => ({ source: image, placement: 'answer' as const })),
+      ...explanation.images.map((image) => ({ source: image, placement: 'answer' as const })),
+      ...column(record, mapping.answerImages).split(/\s+/).filter(Boolean).map((image) => ({ source: image, placement: 'answer' as const })),
+    ];
+
+    const images: ImageReference[] = [];
+    for (const { source: imageSource, placement } of sources) {
+      if (!imageMimeType(imageSource)) {
+        result.warnings.push({ row: record.row, message: `Skipped "${imageSource}": only JPEG, PNG, WebP and GIF images are imported` });
+      } else if (!isUrl(imageSource) && !source.media.has(imageSource)) {
+        result.warnings.push({ row: record.row, message: `Skipped "${imageSource}": the image is not in the file` });
+      } else if (images.length === MAX_IMAGES_PER_CARD) {
+        result.warnings.push({ row: record.row, message: `Skipped "${imageSource}": a card can have ${MAX_IMAGES_PER_CARD} images` });
+      } else {
+        images.push({
+          source: imageSource,
+          placement,
+          order: images.filter((image) => image.placement === placement).length,
+        });
+      }
+    }
+
+    result.cards.push({
+      row: record.row,
+      question: validation.data.question,
+      answer: validation.data.answer,
+      explanation: validation.data.explanation ?? null,
+      images,
+      quiz,
+    });
+  }
+
+  return result;
+}
+
+function parseJsonRecord(value: string | null): Record<string, string> | undefined {
+  if (!value) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A stored quiz question in the quiz JSON format, so exported questions can be uploaded again
+ */
+export function toQuizFileQuestion(
+  question: {
+    questionText: string;
+    questionType: string;
+    imageUrl: string | null;
+    options: unknown;
+    explanation: string | null;
+    eliminationTactics: string | null;
+    correctAnswerWithJustification: string | null;
+    compareRemainingOptionsWithJustification: string | null;
+    correctOptionsJustification: string | null;
+  },
+  topic?: { topicCode: string; subTopicName: string } | null
+): QuizQuestion {
+  return {
+    question_type: question.questionType as QuizQuestionType,
+    question: question.questionText,
+    ...(question.imageUrl && { image_url: question.imageUrl }),
+    options: question.options as QuizQuestion['options'],
+    ...(question.explanation && { explanation: question.explanation }),
+    elimination_tactics: parseJsonRecord(question.eliminationTactics),
+    correct_answer_with_justification: parseJsonRecord(question.correctAnswerWithJustification),
+    compare_remaining_options_with_justification: parseJsonRecord(question.compareRemainingOptionsWithJustification),
+    correct_options_justification: parseJsonRecord(question.correctOptionsJustification),
+    ...(topic && { topic_code: topic.topicCode, sub_topic_name: topic.subTopicName }),
+  };
+}
+
+/**
+ * The text of a question's correct options, as the answer side of an exported card
+ */
+export function correctOptionsText(question: QuizQuestion): string {
+  return question.options
+    .filter((option) => option.isCorrect)
+    .map((option) => option.text)
+    .join('; ');
+}
+
+/**
+ * Rows of the CSV export: a header, one row per card, then one per deck quiz question
+ * Images are listed by URL and quiz questions are written in the quiz JSON format.
+ */
+export function buildExportRows(deck: DeckExport): string[][] {
+  const imageUrls = (card: ExportCard, placement: MediaPlacement) =>
+    card.media
+      .filter((media) => media.placement === placement)
+      .sort((a, b) => a.order - b.order)
+      .map((media) => media.fileUrl)
+      .join(' ');
+
+  return [
+    [...EXPORT_COLUMNS],
+    ...deck.cards.map((card) => [
+      'flashcard',
+      card.question,
+      card.answer,
+      card.explanation ?? '',
+      imageUrls(card, 'question'),
+      imageUrls(card, 'answer'),
+      card.quizQuestions.length > 0 ? JSON.stringify({ questions: card.quizQuestions }) : '',
+    ]),
+    ...deck.deckQuizQuestions.map((question) => [
+      'deck_quiz_question',
+      question.question,
+      correctOptionsText(question),
+      question.explanation ?? '',
+      '',
+      '',
+      JSON.stringify({ questions: [question] }),
+    ]),
+  ];
+}
+
+/**
+ * A download file name for a deck
+ */
+export function exportFileName(deckName: string, extension: string): string {
+  const slug = deckName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'deck'}.${extension}`;
+}
@@ -0,0 +1,243 @@
+/**
+ * Deck Import and Export Store
+ * Loads a deck for export and writes imported cards. Imported cards and deck quiz questions are
+ * drafts, like content created in the editor, and their images are uploaded to blob storage
+ * and recorded in flashcard_media.
+ */
+
+import { db } from '@/lib/db';
+import { deckQuizQuestions, decks, flashcardMedia, flashcards, quizQuestions } from '@/lib/db/schema';
+import { asc, desc, eq } from 'drizzle-orm';
+import { uploadImageToBlob } from '@/lib/blob';
+import { insertQuizQuestions } from '@/lib/flashcard/quiz';
+import { appendDeckQuizQuestions } from '@/lib/quiz/deck-quiz-upload';
+import { getFlashcardSnapshot, recordRevisions, toQuizQuestionSnapshot, type RevisionChange } from '@/lib/revisions/store';
+import { packageFileName } from './anki';
+import {
+  imageMimeType,
+  toQuizFileQuestion,
+  type DeckExport,
+  type ImageReference,
+  type MappedImport,
+  type RowIssue,
+} from './records';
+
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 10_000;
+
+export interface DeckImportResult {
+  cards: number;
+  quizQuestions: number;
+  deckQuizQuestions: number;
+  images: number;
+  warnings: RowIssue[]; // Images that could not be stored
+}
+
+/**
+ * A deck with its cards, their images and quiz questions, and its deck quiz questions, or null
+ * when the deck does not exist
+ */
+export async function loadDeckExport(deckId: string): Promise<(DeckExport & { classId: string }) | null> {
+  const deck = await db.query.decks.findFirst({
+    where: eq(decks.id, deckId),
+    with: {
+      flashcards: {
+        orderBy: [asc(flashcards.order)],
+        with: {
+          media: { orderBy: [asc(flashcardMedia.order)] },
+          quizQuestions: { orderBy: [asc(quizQuestions.order)] },
+        },
+      },
+    },
+  });
+  if (!deck) {
+    return null;
+  }
+
+  const deckQuestions = await db.query.deckQuizQuestions.findMany({
+    where: eq(deckQuizQuestions.deckId, deckId),
+    orderBy: [asc(deckQuizQuestions.order)],
+    with: { subTopic: { with: { topic: true } } },
+  });
+
+  return {
+    classId: deck.classId,
+    name: deck.name,
+    description: deck.description,
+    cards: deck.flashcards.map((card) => ({
+      question: card.question,
+      answer: card.answer,
+      explanation: card.explanation,
+      media: card.media,
+      quizQuestions: card.quizQuestions.map((question) => toQuizFileQuestion(question)),
+    })),
+    deckQuizQuestions: deckQuestions.map((question) =>
+      toQuizFileQuestion(
+        question,
+        question.subTopic?.topic
+          ? { topicCode: question.subTopic.topic.topicCode, subTopicName: question.subTopic.subTopicName }
+          : null
+      )
+    ),
+  };
+}
+
+/**
+ * Download an image of at most 5MB, or null when it cannot be downloaded
+ */
+export async function downloadImage(url: string): Promise<Uint8Array | null> {
+  try {
+    const res = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+    if (!res.ok) return null;
+    const data = new Uint8Array(await res.arrayBuffer());
+    return data.byteLength <= MAX_IMAGE_SIZE ? data : null;
+  } catch (error) {
+    console.error('Error downloading image:', error);
+    return null;
+  }
+}
+
+/**
+ * The image files of an exported deck, by their name in the Anki package
+ * Images that can no longer be downloaded are left out.
+ */
+export async function fetchExportMedia(deck: DeckExport): Promise<Map<string, Uint8Array>> {
+  const files = new Map<string, Uint8Array>();
+  for (const media of deck.cards.flatMap((card) => card.media)) {
+    const name = packageFileName(media);
+    if (files.has(name)) continue;
+    const data = await downloadImage(media.fileUrl);
+    if (data) files.set(name, data);
+  }
+  return files;
+}
+
+async function storeImage(
+  image: ImageReference,
+  packaged: Map<string, Uint8Array>,
+  flashcardId: string
+) {
+  const data = packaged.get(image.source) ?? (await downloadImage(image.source));
+  const mimeType = imageMimeType(image.source);
+  if (!data || !mimeType) {
+    return null;
+  }
+
+  const fileName = image.source.split(/[?#]/)[0].split('/').pop() || image.source;
+  const uploaded = await uploadImageToBlob(
+    new File([new Uint8Array(data)], fileName, { type: mimeType }),
+    flashcardId,
+    image.placement,
+    image.order
+  );
+
+  return {
+    flashcardId,
+    fileUrl: uploaded.url,
+    fileKey: uploaded.key,
+    fileName: uploaded.fileName,
+    fileSize: uploaded.fileSize,
+    mimeType: uploaded.mimeType,
+    placement: image.placement,
+    order: image.order,
+    altText: null,
+  };
+}
+
+/**
+ * Add mapped cards and deck quiz questions to a deck, after its existing cards
+ */
+export async function importDeckContent(
+  deckId: string,
+  mapped: MappedImport,
+  packaged: Map<string, Uint8Array>,
+  authorId: string
+): Promise<DeckImportResult> {
+  const result: DeckImportResult = { cards: 0, quizQuestions: 0, deckQuizQuestions: 0, images: 0, warnings: [] };
+
+  const [last] = await db
+    .select({ order: flashcards.order })
+    .from(flashcards)
+    .where(eq(flashcards.deckId, deckId))
+    .orderBy(desc(flashcards.order))
+    .limit(1);
+  let order = last ? last.order + 1 : 0;
+
+  const revisions: RevisionChange[] = [];
+
+  for (const card of mapped.cards) {
+    const [flashcard] = await db
+      .insert(flashcards)
+      .values({
+        deckId,
+        question: card.question,
+        answer: card.answer,
+        explanation: card.explanation,
+        order: order++,
+        isPublished: false,
+        status: 'draft',
+        createdBy: authorId,
+      })
+      .returning();
+
+    const media: Array<typeof flashcardMedia.$inferInsert> = [];
+    for (const image of card.images) {
+      try {
+        const stored = await storeImage(image, packaged, flashcard.id);
+        if (stored) {
+          media.push(stored);
+        } else {
+          result.warnings.push({ row: card.row, message: `Skipped "${image.source}": the image could not be downloaded` });
+        }
+      } catch (error) {
+        console.error('Error storing imported image:', error);
+        result.warnings.push({ row: card.row, message: `Skipped "${image.source}": the image could not be stored` });
+      }
+    }
+    if (media.length > 0) {
+      await db.insert(flashcardMedia).values(media);
+      result.images += media.length;
+    }
+
+    let questions: Array<typeof quizQuestions.$inferSelect> = [];
+    if (card.quiz) {
+      const inserted = await insertQuizQuestions(flashcard.id, card.quiz, authorId);
+      questions = inserted.questions ?? [];
+      result.quizQuestions += questions.length;
+    }
+
+    const created = await getFlashcardSnapshot(flashcard.id);
+    revisions.push(
+      {
+        entityType: 'flashcard',
+        entityId: flashcard.id,
+        deckId,
+        action: 'create',
+        before: null,
+        after: created!.snapshot,
+        authorId,
+      },
+      ...questions.map((question) => ({
+        entityType: 'quiz_question' as const,
+        entityId: question.id,
+        deckId,
+        action: 'create' as const,
+        before: null,
+        after: toQuizQuestionSnapshot(question),
+        authorId,
+      }))
+    );
+    result.cards += 1;
+  }
+
+  await recordRevisions(revisions);
+
+  const deckQuestions = await appendDeckQuizQuestions(
+    deckId,
+    mapped.deckQuestions.map((entry) => entry.question),
+    authorId
+  );
+  result.deckQuizQuestions = deckQuestions.length;
+
+  return result;
+}
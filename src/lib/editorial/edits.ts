@@ -0,0 +1,47 @@
+/**
+ * Workflow status of edited content
+ * Called wherever an admin changes a flashcard (or one of its quiz questions) or a deck quiz
+ * question, so approved content goes back to its reviewer before it can be published.
+ * Published content has to be unpublished before it can be changed.
+ */
+
+import { db } from '@/lib/db';
+import { deckQuizQuestions, flashcards } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getStatusAfterEdit, isEditableStatus, type ReviewableEntityType } from './workflow';
+
+type Executor = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function getContentTable(entityType: ReviewableEntityType) {
+  return entityType === 'flashcard' ? flashcards : deckQuizQuestions;
+}
+
+/**
+ * Whether an admin may change the item now; items that no longer exist have nothing to protect
+ */
+export async function canEditContent(
+  entityType: ReviewableEntityType,
+  entityId: string,
+  executor: Executor | typeof db = db
+): Promise<boolean> {
+  const table = getContentTable(entityType);
+  const [row] = await executor.select({ status: table.status }).from(table).where(eq(table.id, entityId)).limit(1);
+  return !row || isEditableStatus(row.status);
+}
+
+export async function markContentEdited(
+  entityType: ReviewableEntityType,
+  entityId: string,
+  executor: Executor | typeof db = db
+): Promise<void> {
+  const table = getContentTable(entityType);
+  const [row] = await executor.select({ status: table.status }).from(table).where(eq(table.id, entityId)).limit(1);
+  if (!row) {
+    return;
+  }
+
+  const status = getStatusAfterEdit(row.status);
+  if (status !== row.status) {
+    await executor.update(table).set({ status }).where(eq(table.id, entityId));
+  }
+}
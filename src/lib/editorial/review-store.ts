@@ -0,0 +1,469 @@
+/**
+ * Editorial Review Store
+ * Workflow transitions, the review queue and reviewer comments for flashcards and deck quiz
+ * questions. A flashcard's isPublished flag, which every learner query filters on, follows
+ * its workflow status; learners only get deck quiz questions whose status is 'published'.
+ */
+
+import { db } from '@/lib/db';
+import { classes, deckQuizQuestions, decks, flashcards, reviewComments, users } from '@/lib/db/schema';
+import { alias, type PgColumn } from 'drizzle-orm/pg-core';
+import { and, asc, eq, sql } from 'drizzle-orm';
+import { getRevisionTitle, type RevisionSnapshot } from '@/lib/revisions/diff';
+import {
+  getFlashcardSnapshot,
+  getQuizQuestionSnapshots,
+  recordRevisions,
+  toDeckQuizQuestionSnapshot,
+  type RevisionChange,
+} from '@/lib/revisions/store';
+import {
+  applyWorkflowAction,
+  type ContentStatus,
+  type ReviewableEntityType,
+  type ReviewCommentKind,
+  type WorkflowAction,
+  type WorkflowState,
+} from './workflow';
+
+export interface ReviewQueueItem {
+  entityType: ReviewableEntityType;
+  entityId: string;
+  deckId: string;
+  deckName: string;
+  classId: string;
+  className: string;
+  title: string;
+  status: ContentStatus;
+  reviewerId: string | null;
+  reviewerName: string | null;
+  submittedBy: string | null;
+  submitterName: string | null;
+  submittedAt: Date | null;
+  openComments: number;
+}
+
+export interface ReviewCommentEntry {
+  id: string;
+  kind: ReviewCommentKind;
+  field: string | null;
+  quote: string | null;
+  body: string;
+  authorId: string;
+  authorName: string | null;
+  resolvedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ReviewItem {
+  entityType: ReviewableEntityType;
+  entityId: string;
+  deckId: string;
+  deckName: string;
+  title: string;
+  state: WorkflowState;
+  reviewerName: string | null;
+  submitterName: string | null;
+  submittedAt: Date | null;
+  snapshot: RevisionSnapshot;
+  quizQuestions: RevisionSnapshot[]; // A flashcard's quiz questions, reviewed with it
+  comments: ReviewCommentEntry[];
+}
+
+export interface Reviewer {
+  clerkUserId: string;
+  name: string | null;
+  email: string;
+}
+
+export type WorkflowResult =
+  | { success: true; deckId: string; classId: string; state: WorkflowState; visibilityChanged: boolean }
+  | { success: false; reason: 'not_found' | 'invalid'; error: string };
+
+export type DeckWorkflowResult =
+  | { success: true; classId: string; flashcards: number; deckQuizQuestions: number; publishedFlashcards: number }
+  | { success: false; reason: 'not_found' | 'invalid'; error: string };
+
+const reviewer = alias(users, 'reviewer');
+const submitter = alias(users, 'submitter');
+const displayName = (user: { name: PgColumn; email: PgColumn }) => sql<string | null>`coalesce(${user.name}, ${user.email})`;
+
+function commentTarget(entityType: ReviewableEntityType, entityId: string) {
+  return entityType === 'flashcard' ? { flashcardId: entityId } : { deckQuizQuestionId: entityId };
+}
+
+async function isAdmin(clerkUserId: string): Promise<boolean> {
+  const [user] = await db
+    .select({ role: users.role })
+    .from(users)
+    .where(eq(users.clerkUserId, clerkUserId))
+    .limit(1);
+  return user?.role === 'admin';
+}
+
+/**
+ * Admins who can be asked to review content
+ */
+export async function getReviewers(): Promise<Reviewer[]> {
+  return db
+    .select({ clerkUserId: users.clerkUserId, name: users.name, email: users.email })
+    .from(users)
+    .where(eq(users.role, 'admin'))
+    .orderBy(asc(users.email));
+}
+
+async function getWorkflowRow(entityType: ReviewableEntityType, entityId: string) {
+  const table = entityType === 'flashcard' ? flashcards : deckQuizQuestions;
+  const [row] = await db
+    .select({
+      deckId: table.deckId,
+      classId: decks.classId,
+      deckName: decks.name,
+      status: table.status,
+      reviewerId: table.reviewerId,
+      submittedBy: table.submittedBy,
+      submittedAt: table.submittedAt,
+      reviewerName: displayName(reviewer),
+      submitterName: displayName(submitter),
+    })
+    .from(table)
+    .innerJoin(decks, eq(table.deckId, decks.id))
+    .leftJoin(reviewer, eq(table.reviewerId, reviewer.clerkUserId))
+    .leftJoin(submitter, eq(table.submittedBy, submitter.clerkUserId))
+    .where(eq(table.id, entityId))
+    .limit(1);
+  return row ?? null;
+}
+
+/**
+ * Revisions for flashcards whose visibility just flipped, so the history shows who published them
+ */
+async function recordVisibilityRevisions(flashcardIds: string[], deckId: string, authorId: string): Promise<void> {
+  const changes: RevisionChange[] = [];
+  for (const flashcardId of flashcardIds) {
+    const current = await getFlashcardSnapshot(flashcardId);
+    if (!current) continue;
+    changes.push({
+      entityType: 'flashcard',
+      entityId: flashcardId,
+      deckId,
+      action: 'update',
+      before: { ...current.snapshot, isPublished: !current.snapshot.isPublished },
+      after: current.snapshot,
+      authorId,
+      baselineAuthorId: current.createdBy,
+    });
+  }
+  await recordRevisions(changes);
+}
+
+/**
+ * Take a workflow action on one flashcard or deck quiz question
+ * Approvals and change requests are kept as review comments, with the reviewer's note
+ */
+export async function transitionWorkflow(
+  entityType: ReviewableEntityType,
+  entityId: string,
+  action: WorkflowAction,
+  actorId: string,
+  options: { reviewerId?: string; note?: string } = {}
+): Promise<WorkflowResult> {
+  const row = await getWorkflowRow(entityType, entityId);
+  if (!row) {
+    return { success: false, reason: 'not_found', error: 'Content not found' };
+  }
+
+  if (action === 'submit' && options.reviewerId && !(await isAdmin(options.reviewerId))) {
+    return { success: false, reason: 'invalid', error: 'The reviewer must be an admin' };
+  }
+
+  const current: WorkflowState = { status: row.status, reviewerId: row.reviewerId, submittedBy: row.submittedBy };
+  const result = applyWorkflowAction(current, action, actorId, options.reviewerId);
+  if (!result.success) {
+    return { success: false, reason: 'invalid', error: result.error };
+  }
+
+  const next = result.state;
+  const values = {
+    status: next.status,
+    reviewerId: next.reviewerId,
+    submittedBy: next.submittedBy,
+    ...(action === 'submit' && { submittedAt: new Date() }),
+  };
+
+  const updated = await db.transaction(async (tx) => {
+    // Only when no other admin moved the item on in the meantime
+    const rows = entityType === 'flashcard'
+      ? await tx
+          .update(flashcards)
+          .set({ ...values, isPublished: next.status === 'published' })
+          .where(and(eq(flashcards.id, entityId), eq(flashcards.status, current.status)))
+          .returning({ id: flashcards.id })
+      : await tx
+          .update(deckQuizQuestions)
+          .set(values)
+          .where(and(eq(deckQuizQuestions.id, entityId), eq(deckQuizQuestions.status, current.status)))
+          .returning({ id: deckQuizQuestions.id });
+    if (rows.length === 0) {
+      return false;
+    }
+
+    if (action === 'approve' || action === 'request_changes') {
+      await tx.insert(reviewComments).values({
+        ...commentTarget(entityType, entityId),
+        authorId: actorId,
+        kind: action === 'approve' ? 'approval' : 'changes_requested',
+        body: options.note || (action === 'approve' ? 'Approved' : 'Changes requested'),
+      });
+    }
+    return true;
+  });
+
+  if (!updated) {
+    return { success: false, reason: 'invalid', error: 'Another admin changed this content\'s status. Reload and try again' };
+  }
+
+  const visibilityChanged = (current.status === 'published') !== (next.status === 'published');
+  if (entityType === 'flashcard' && visibilityChanged) {
+    await recordVisibilityRevisions([entityId], row.deckId, actorId);
+  }
+
+  return { success: true, deckId: row.deckId, classId: row.classId, state: next, visibilityChanged };
+}
+
+/**
+ * Submit every draft in a deck to one reviewer, or publish every approved item in it
+ */
+export async function transitionDeckItems(
+  deckId: string,
+  action: 'submit' | 'publish',
+  actorId: string,
+  reviewerId?: string
+): Promise<DeckWorkflowResult> {
+  const [deck] = await db.select({ classId: decks.classId }).from(decks).where(eq(decks.id, deckId)).limit(1);
+  if (!deck) {
+    return { success: false, reason: 'not_found', error: 'Deck not found' };
+  }
+
+  if (action === 'submit') {
+    const check = applyWorkflowAction({ status: 'draft', reviewerId: null, submittedBy: null }, 'submit', actorId, reviewerId);
+    if (!check.success) {
+      return { success: false, reason: 'invalid', error: check.error };
+    }
+    if (!(await isAdmin(reviewerId!))) {
+      return { success: false, reason: 'invalid', error: 'The reviewer must be an admin' };
+    }
+  }
+
+  const from: ContentStatus = action === 'submit' ? 'draft' : 'approved';
+  const values = action === 'submit'
+    ? { status: 'in_review' as const, reviewerId: reviewerId!, submittedBy: actorId, submittedAt: new Date() }
+    : { status: 'published' as const };
+
+  const { cards, questions } = await db.transaction(async (tx) => ({
+    cards: await tx
+      .update(flashcards)
+      .set({ ...values, ...(action === 'publish' && { isPublished: true }) })
+      .where(and(eq(flashcards.deckId, deckId), eq(flashcards.status, from)))
+      .returning({ id: flashcards.id }),
+    questions: await tx
+      .update(deckQuizQuestions)
+      .set(values)
+      .where(and(eq(deckQuizQuestions.deckId, deckId), eq(deckQuizQuestions.status, from)))
+      .returning({ id: deckQuizQuestions.id }),
+  }));
+
+  const publishedFlashcards = action === 'publish' ? cards.length : 0;
+  if (publishedFlashcards > 0) {
+    await recordVisibilityRevisions(cards.map((card) => card.id), deckId, actorId);
+  }
+
+  return {
+    success: true,
+    classId: deck.classId,
+    flashcards: cards.length,
+    deckQuizQuestions: questions.length,
+    publishedFlashcards,
+  };
+}
+
+/**
+ * Items in review, oldest submission first; only one reviewer's when reviewerId is given
+ */
+export async function getReviewQueue(reviewerId?: string): Promise<ReviewQueueItem[]> {
+  const openComments = (column: PgColumn, id: PgColumn) => sql<number>`(
+    select count(*)::int from ${reviewComments}
+    where ${column} = ${id} and ${reviewComments.resolvedAt} is null and ${reviewComments.kind} = 'comment'
+  )`;
+
+  const [cardRows, questionRows] = await Promise.all([
+    db
+      .select({
+        entityId: flashcards.id,
+        text: flashcards.question,
+        deckId: decks.id,
+        deckName: decks.name,
+        classId: classes.id,
+        className: classes.name,
+        status: flashcards.status,
+        reviewerId: flashcards.reviewerId,
+        reviewerName: displayName(reviewer),
+        submittedBy: flashcards.submittedBy,
+        submitterName: displayName(submitter),
+        submittedAt: flashcards.submittedAt,
+        openComments: openComments(reviewComments.flashcardId, flashcards.id),
+      })
+      .from(flashcards)
+      .innerJoin(decks, eq(flashcards.deckId, decks.id))
+      .innerJoin(classes, eq(decks.classId, classes.id))
+      .leftJoin(reviewer, eq(flashcards.reviewerId, reviewer.clerkUserId))
+      .leftJoin(submitter, eq(flashcards.submittedBy, submitter.clerkUserId))
+      .where(and(eq(flashcards.status, 'in_review'), reviewerId ? eq(flashcards.reviewerId, reviewerId) : undefined)),
+    db
+      .select({
+        entityId: deckQuizQuestions.id,
+        text: deckQuizQuestions.questionText,
+        deckId: decks.id,
+        deckName: decks.name,
+        classId: classes.id,
+        className: classes.name,
+        status: deckQuizQuestions.status,
+        reviewerId: deckQuizQuestions.reviewerId,
+        reviewerName: displayName(reviewer),
+        submittedBy: deckQuizQuestions.submittedBy,
+        submitterName: displayName(submitter),
+        submittedAt: deckQuizQuestions.submittedAt,
+        openComments: openComments(reviewComments.deckQuizQuestionId, deckQuizQuestions.id),
+      })
+      .from(deckQuizQuestions)
+      .innerJoin(decks, eq(deckQuizQuestions.deckId, decks.id))
+      .innerJoin(classes, eq(decks.classId, classes.id))
+      .leftJoin(reviewer, eq(deckQuizQuestions.reviewerId, reviewer.clerkUserId))
+      .leftJoin(submitter, eq(deckQuizQuestions.submittedBy, submitter.clerkUserId))
+      .where(and(eq(deckQuizQuestions.status, 'in_review'), reviewerId ? eq(deckQuizQuestions.reviewerId, reviewerId) : undefined)),
+  ]);
+
+  const items: ReviewQueueItem[] = [
+    ...cardRows.map(({ text, ...row }) => ({ ...row, entityType: 'flashcard' as const, title: getRevisionTitle({ question: text }) })),
+    ...questionRows.map(({ text, ...row }) => ({ ...row, entityType: 'deck_quiz_question' as const, title: getRevisionTitle({ questionText: text }) })),
+  ];
+
+  return items.sort((a, b) => (a.submittedAt?.getTime() ?? 0) - (b.submittedAt?.getTime() ?? 0));
+}
+
+/**
+ * Review comments on an item, oldest first
+ */
+export async function getReviewComments(entityType: ReviewableEntityType, entityId: string): Promise<ReviewCommentEntry[]> {
+  const column = entityType === 'flashcard' ? reviewComments.flashcardId : reviewComments.deckQuizQuestionId;
+  return db
+    .select({
+      id: reviewComments.id,
+      kind: reviewComments.kind,
+      field: reviewComments.field,
+      quote: reviewComments.quote,
+      body: reviewComments.body,
+      authorId: reviewComments.authorId,
+      authorName: displayName(users),
+      resolvedAt: reviewComments.resolvedAt,
+      createdAt: reviewComments.createdAt,
+    })
+    .from(reviewComments)
+    .leftJoin(users, eq(reviewComments.authorId, users.clerkUserId))
+    .where(eq(column, entityId))
+    .orderBy(asc(reviewComments.createdAt));
+}
+
+/**
+ * An item with its content, workflow state and discussion, or null when it does not exist
+ */
+export async function getReviewItem(entityType: ReviewableEntityType, entityId: string): Promise<ReviewItem | null> {
+  const row = await getWorkflowRow(entityType, entityId);
+  if (!row) {
+    return null;
+  }
+
+  let snapshot: RevisionSnapshot;
+  let quizQuestions: RevisionSnapshot[] = [];
+  if (entityType === 'flashcard') {
+    const card = await getFlashcardSnapshot(entityId);
+    if (!card) return null;
+    snapshot = card.snapshot;
+    quizQuestions = (await getQuizQuestionSnapshots(entityId)).map((question) => question.snapshot);
+  } else {
+    const [question] = await db.select().from(deckQuizQuestions).where(eq(deckQuizQuestions.id, entityId)).limit(1);
+    if (!question) return null;
+    snapshot = toDeckQuizQuestionSnapshot(question);
+  }
+
+  return {
+    entityType,
+    entityId,
+    deckId: row.deckId,
+    deckName: row.deckName,
+    title: getRevisionTitle(snapshot),
+    state: { status: row.status, reviewerId: row.reviewerId, submittedBy: row.submittedBy },
+    reviewerName: row.reviewerName,
+    submitterName: row.submitterName,
+    submittedAt: row.submittedAt,
+    snapshot,
+    quizQuestions,
+    comments: await getReviewComments(entityType, entityId),
+  };
+}
+
+/**
+ * Add a comment to an item; null when the item does not exist
+ */
+export async function addReviewComment(
+  entityType: ReviewableEntityType,
+  entityId: string,
+  authorId: string,
+  input: { body: string; field?: string | null; quote?: string | null }
+): Promise<ReviewCommentEntry | null> {
+  const row = await getWorkflowRow(entityType, entityId);
+  if (!row) {
+    return null;
+  }
+
+  const [comment] = await db
+    .insert(reviewComments)
+    .values({
+      ...commentTarget(entityType, entityId),
+      authorId,
+      field: input.field || null,
+      quote: input.quote || null,
+      body: input.body,
+    })
+    .returning();
+
+  const [author] = await db
+    .select({ name: displayName(users) })
+    .from(users)
+    .where(eq(users.clerkUserId, authorId))
+    .limit(1);
+
+  return {
+    id: comment.id,
+    kind: comment.kind,
+    field: comment.field,
+    quote: comment.quote,
+    body: comment.body,
+    authorId,
+    authorName: author?.name ?? null,
+    resolvedAt: comment.resolvedAt,
+    createdAt: comment.createdAt,
+  };
+}
+
+/**
+ * Resolve or reopen a comment; false when it does not exist
+ */
+export async function setReviewCommentResolved(commentId: string, actorId: string, resolved: boolean): Promise<boolean> {
+  const rows = await db
+    .update(reviewComments)
+    .set(resolved ? { resolvedAt: new Date(), resolvedBy: actorId } : { resolvedAt: null, resolvedBy: null })
+    .where(eq(reviewComments.id, commentId))
+    .returning({ id: reviewComments.id });
+  return rows.length > 0;
+}
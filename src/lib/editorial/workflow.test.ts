@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { applyWorkflowAction, getAvailableActions, getStatusAfterEdit, isEditableStatus, type WorkflowState } from './workflow';
+
+const draft: WorkflowState = { status: 'draft', reviewerId: null, submittedBy: null };
+const inReview: WorkflowState = { status: 'in_review', reviewerId: 'reviewer', submittedBy: 'author' };
+
+describe('applyWorkflowAction', () => {
+  it('submits a draft to a second admin', () => {
+    expect(applyWorkflowAction(draft, 'submit', 'author', 'reviewer')).toEqual({ success: true, state: inReview });
+    expect(applyWorkflowAction(draft, 'submit', 'author', 'author')).toMatchObject({ success: false });
+    expect(applyWorkflowAction(draft, 'submit', 'author')).toMatchObject({ success: false });
+  });
+
+  it('lets only the assigned reviewer approve or send back', () => {
+    expect(applyWorkflowAction(inReview, 'approve', 'reviewer')).toEqual({
+      success: true,
+      state: { ...inReview, status: 'approved' },
+    });
+    expect(applyWorkflowAction(inReview, 'request_changes', 'reviewer')).toEqual({
+      success: true,
+      state: { ...inReview, status: 'draft' },
+    });
+    expect(applyWorkflowAction(inReview, 'approve', 'author')).toMatchObject({ success: false });
+    expect(applyWorkflowAction(inReview, 'approve', 'someone-else')).toMatchObject({ success: false });
+  });
+
+  it('publishes approved content only', () => {
+    expect(applyWorkflowAction(draft, 'publish', 'author')).toMatchObject({ success: false });
+    expect(applyWorkflowAction(inReview, 'publish', 'author')).toMatchObject({ success: false });
+    expect(applyWorkflowAction({ ...inReview, status: 'approved' }, 'publish', 'author')).toEqual({
+      success: true,
+      state: { ...inReview, status: 'published' },
+    });
+  });
+
+  it('lets the submitter withdraw and any admin unpublish', () => {
+    expect(applyWorkflowAction(inReview, 'withdraw', 'author')).toMatchObject({ success: true });
+    expect(applyWorkflowAction(inReview, 'withdraw', 'reviewer')).toMatchObject({ success: false });
+    expect(applyWorkflowAction({ ...inReview, status: 'published' }, 'unpublish', 'anyone')).toMatchObject({
+      success: true,
+      state: { status: 'draft' },
+    });
+  });
+});
+
+describe('getAvailableActions', () => {
+  it('offers each admin what they can do next', () => {
+    expect(getAvailableActions(draft, 'author')).toEqual(['submit']);
+    expect(getAvailableActions(inReview, 'author')).toEqual(['withdraw']);
+    expect(getAvailableActions(inReview, 'reviewer')).toEqual(['approve', 'request_changes']);
+    expect(getAvailableActions({ ...inReview, status: 'approved' }, 'author')).toEqual(['publish']);
+  });
+});
+
+describe('getStatusAfterEdit', () => {
+  it('sends edited approved content back to review', () => {
+    expect(getStatusAfterEdit('approved')).toBe('in_review');
+    expect(getStatusAfterEdit('draft')).toBe('draft');
+  });
+
+  it('takes changed published content out of the learners\' view', () => {
+    expect(isEditableStatus('published')).toBe(false);
+    expect(isEditableStatus('approved')).toBe(true);
+    expect(getStatusAfterEdit('published')).toBe('in_review');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Editorial Workflow
+ * Flashcards and deck quiz questions move draft → in review → approved → published. The admin
+ * who submits an item names a second admin as its reviewer; only that reviewer can approve it,
+ * and only approved content can be published. A flashcard's quiz questions are reviewed with it.
+ */
+
+export const CONTENT_STATUSES = ['draft', 'in_review', 'approved', 'published'] as const;
+
+export type ContentStatus = (typeof CONTENT_STATUSES)[number];
+
+export const CONTENT_STATUS_LABELS: Record<ContentStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  published: 'Published',
+};
+
+export const REVIEWABLE_ENTITY_TYPES = ['flashcard', 'deck_quiz_question'] as const;
+
+export type ReviewableEntityType = (typeof REVIEWABLE_ENTITY_TYPES)[number];
+
+export const WORKFLOW_ACTIONS = ['submit', 'withdraw', 'approve', 'request_changes', 'publish', 'unpublish'] as const;
+
+export type WorkflowAction = (typeof WORKFLOW_ACTIONS)[number];
+
+export const WORKFLOW_ACTION_LABELS: Record<WorkflowAction, string> = {
+  submit: 'Submit for review',
+  withdraw: 'Withdraw from review',
+  approve: 'Approve',
+  request_changes: 'Request changes',
+  publish: 'Publish',
+  unpublish: 'Unpublish',
+};
+
+// 'approval' and 'changes_requested' record a reviewer's decision alongside the discussion
+export type ReviewCommentKind = 'comment' | 'approval' | 'changes_requested';
+
+export interface WorkflowState {
+  status: ContentStatus;
+  reviewerId: string | null;
+  submittedBy: string | null;
+}
+
+export type TransitionResult =
+  | { success: true; state: WorkflowState }
+  | { success: false; error: string };
+
+export function isContentStatus(value: unknown): value is ContentStatus {
+  return typeof value === 'string' && (CONTENT_STATUSES as readonly string[]).includes(value);
+}
+
+export function isReviewableEntityType(value: unknown): value is ReviewableEntityType {
+  return typeof value === 'string' && (REVIEWABLE_ENTITY_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * The state an item moves to when an admin takes a workflow action on it
+ * reviewerId is the reviewer chosen when submitting
+ */
+export function applyWorkflowAction(
+  state: WorkflowState,
+  action: WorkflowAction,
+  actorId: string,
+  reviewerId?: string | null
+): TransitionResult {
+  switch (action) {
+    case 'submit':
+      if (state.status !== 'draft') {
+        return { success: false, error: 'Only drafts can be submitted for review' };
+      }
+      if (!reviewerId) {
+        return { success: false, error: 'Choose a reviewer' };
+      }
+      if (reviewerId === actorId) {
+        return { success: false, error: 'A second admin has to review your content' };
+      }
+      return { success: true, state: { status: 'in_review', reviewerId, submittedBy: actorId } };
+
+    case 'withdraw':
+      if (state.status !== 'in_review') {
+        return { success: false, error: 'Only content in review can be withdrawn' };
+      }
+      if (state.submittedBy !== actorId) {
+        return { success: false, error: 'Only the admin who submitted this content can withdraw it' };
+      }
+      return { success: true, state: { ...state, status: 'draft' } };
+
+    case 'approve':
+    case 'request_changes':
+      if (state.status !== 'in_review') {
+        return { success: false, error: 'This content is not in review' };
+      }
+      if (state.reviewerId !== actorId) {
+        return { success: false, error: 'Only the assigned reviewer can decide on this content' };
+      }
+      return { success: true, state: { ...state, status: action === 'approve' ? 'approved' : 'draft' } };
+
+    case 'publish':
+      if (state.status !== 'approved') {
+        return { success: false, error: 'Content has to be approved by its reviewer before it is published' };
+      }
+      return { success: true, state: { ...state, status: 'published' } };
+
+    case 'unpublish':
+      if (state.status !== 'published') {
+        return { success: false, error: 'This content is not published' };
+      }
+      return { success: true, state: { ...state, status: 'draft' } };
+  }
+}
+
+/**
+ * Actions the admin can take on an item in its current state
+ */
+export function getAvailableActions(state: WorkflowState, actorId: string): WorkflowAction[] {
+  return WORKFLOW_ACTIONS.filter((action) =>
+    // The reviewer is chosen while submitting, so submitting is offered for every draft
+    action === 'submit' ? state.status === 'draft' : applyWorkflowAction(state, action, actorId).success
+  );
+}
+
+export const PUBLISHED_CONTENT_EDIT_ERROR =
+  'Published content cannot be edited. Unpublish it first, then submit the changes for review.';
+
+/**
+ * Published content is unpublished before it is edited, so learners never see unreviewed changes
+ */
+export function isEditableStatus(status: ContentStatus): boolean {
+  return status !== 'published';
+}
+
+/**
+ * Editing approved content takes it back to its reviewer, as does any change that still reaches
+ * published content; drafts and content in review keep their status
+ */
+export function getStatusAfterEdit(status: ContentStatus): ContentStatus {
+  return status === 'approved' || status === 'published' ? 'in_review' : status;
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { hasPaidAccess, getUserPlan } from '@/lib/subscription';
+
+/**
+ * Error code returned when a free user asks for premium deck content
+ */
+export const UPGRADE_REQUIRED = 'upgrade_required';
+
+/**
+ * Number of flashcards from each premium deck that free users can preview
+ */
+export const PREMIUM_TEASER_CARD_COUNT = 3;
+
+export interface LockedDeck {
+  id: string;
+  name: string;
+  totalCards?: number;
+}
+
+export interface UpgradeRequired {
+  error: string;
+  code: typeof UPGRADE_REQUIRED;
+  plan: string;
+  teaserCardCount: number;
+  lockedDecks: LockedDeck[];
+}
+
+export interface DeckEntitlement {
+  plan: string | null; // null when no premium deck was involved and the plan was never looked up
+  lockedDeckIds: Set<string>;
+}
+
+/**
+ * Work out which of the given decks the current user cannot open
+ * Subscriptions are only queried when at least one deck is premium
+ */
+export async function getDeckEntitlement(
+  deckList: Array<{ id: string; isPremium: boolean | null }>
+): Promise<DeckEntitlement> {
+  const premiumDecks = deckList.filter((deck) => deck.isPremium);
+
+  if (premiumDecks.length === 0) {
+    return { plan: null, lockedDeckIds: new Set() };
+  }
+
+  const [paid, plan] = await Promise.all([hasPaidAccess(), getUserPlan()]);
+
+  return {
+    plan,
+    lockedDeckIds: new Set(paid ? [] : premiumDecks.map((deck) => deck.id)),
+  };
+}
+
+/**
+ * Check if a deck is locked for the current user
+ */
+export function isDeckLocked(entitlement: DeckEntitlement, deckId: string): boolean {
+  return entitlement.lockedDeckIds.has(deckId);
+}
+
+/**
+ * Keep only the preview cards free users may see from a premium deck
+ */
+export function takeTeaser<T>(cards: T[]): T[] {
+  return cards.slice(0, PREMIUM_TEASER_CARD_COUNT);
+}
+
+/**
+ * Build the structured upgrade_required error for the given locked decks
+ */
+export function buildUpgradeRequired(
+  entitlement: DeckEntitlement,
+  lockedDecks: LockedDeck[]
+): UpgradeRequired {
+  const plan = entitlement.plan ?? 'free';
+
+  return {
+    error: plan === 'expired'
+      ? 'Your subscription has expired. Renew to unlock premium decks.'
+      : 'Upgrade to a paid plan to unlock premium decks.',
+    code: UPGRADE_REQUIRED,
+    plan,
+    teaserCardCount: PREMIUM_TEASER_CARD_COUNT,
+    lockedDecks,
+  };
+}
+
+/**
+ * 403 response for content the user cannot open, with any teaser content merged in
+ */
+export function upgradeRequiredResponse(
+  upgrade: UpgradeRequired,
+  teaser: Record<string, unknown> = {}
+): NextResponse {
+  return NextResponse.json({ ...teaser, ...upgrade }, { status: 403 });
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkHistoryAchievements,
+  getMasteredDomains,
+  getQuizStatsFromAnswers,
+  isAchievementId,
+} from './achievements';
+
+const answers = (pattern: string) => pattern.split('').map((c) => ({ isCorrect: c === '1' }));
+
+describe('getQuizStatsFromAnswers', () => {
+  it('derives the streak and comeback from the answer order', () => {
+    const stats = getQuizStatsFromAnswers(answers('0001111011'), 10, 300);
+
+    expect(stats).toEqual({
+      correctAnswers: 6,
+      totalQuestions: 10,
+      maxStreak: 4,
+      completionTimeSeconds: 300,
+      firstThreeWrong: true,
+    });
+  });
+
+  it('only counts a comeback when all of the first three were wrong', () => {
+    expect(getQuizStatsFromAnswers(answers('0101111'), 7, 60).firstThreeWrong).toBe(false);
+    expect(getQuizStatsFromAnswers(answers('00'), 2, 60).firstThreeWrong).toBe(false);
+  });
+});
+
+describe('getMasteredDomains', () => {
+  const quizDecks = [
+    { deckId: 'd1', domainNumber: 1 },
+    { deckId: 'd2', domainNumber: 1 },
+    { deckId: 'd3', domainNumber: 3 },
+  ];
+
+  it('requires a 90% best score on every deck quiz in the domain', () => {
+    const bestScores = new Map([
+      ['d1', 95],
+      ['d2', 89.99],
+      ['d3', 90],
+    ]);
+
+    expect(getMasteredDomains(quizDecks, bestScores)).toEqual([3]);
+  });
+
+  it('does not master a domain with an untaken deck quiz', () => {
+    expect(getMasteredDomains(quizDecks, new Map([['d1', 100]]))).toEqual([]);
+  });
+});
+
+describe('checkHistoryAchievements', () => {
+  it('unlocks history achievements at their thresholds', () => {
+    expect(checkHistoryAchievements({ completedQuizzes: 49, perfectQuizzes: 9, masteredDomains: [] })).toEqual([]);
+    expect(checkHistoryAchievements({ completedQuizzes: 50, perfectQuizzes: 10, masteredDomains: [2] })).toEqual([
+      'domain_master',
+      'quiz_veteran',
+      'hundred_percent',
+    ]);
+  });
+});
+
+describe('isAchievementId', () => {
+  it('rejects ids that are not defined', () => {
+    expect(isAchievementId('quiz_veteran')).toBe(true);
+    expect(isAchievementId('toString')).toBe(false);
+  });
+});
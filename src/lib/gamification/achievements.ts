@@ -99,6 +99,19 @@ export interface QuizStats {
   firstThreeWrong: boolean;
 }
 
+// Achievements earned over many quizzes
+export const HISTORY_ACHIEVEMENT_CONFIG = {
+  QUIZ_VETERAN_QUIZZES: 50,
+  PERFECTIONIST_QUIZZES: 10,
+  DOMAIN_MASTER_SCORE: 90, // Best score needed on every deck quiz in the domain
+};
+
+export interface QuizHistory {
+  completedQuizzes: number; // Finished deck, flashcard and drill quizzes
+  perfectQuizzes: number; // Different decks and flashcards scored 100% on
+  masteredDomains: number[]; // Domains with a 90%+ best score on every deck quiz
+}
+
 /**
  * Check which achievements were unlocked in this quiz session
  */
@@ -134,6 +147,83 @@ export function checkAchievements(stats: QuizStats): AchievementId[] {
   return unlocked;
 }
 
+/**
+ * Build quiz stats from graded answers, in the order the questions were shown
+ */
+export function getQuizStatsFromAnswers(
+  answers: Array<{ isCorrect: boolean }>,
+  totalQuestions: number,
+  completionTimeSeconds: number
+): QuizStats {
+  let streak = 0;
+  let maxStreak = 0;
+  for (const answer of answers) {
+    streak = answer.isCorrect ? streak + 1 : 0;
+    maxStreak = Math.max(maxStreak, streak);
+  }
+
+  return {
+    correctAnswers: answers.filter((answer) => answer.isCorrect).length,
+    totalQuestions,
+    maxStreak,
+    completionTimeSeconds,
+    firstThreeWrong: answers.length >= 3 && answers.slice(0, 3).every((answer) => !answer.isCorrect),
+  };
+}
+
+/**
+ * Domains where every deck with a quiz has a best score of 90% or more
+ */
+export function getMasteredDomains(
+  quizDecks: Array<{ deckId: string; domainNumber: number }>,
+  bestScores: Map<string, number>
+): number[] {
+  const decksByDomain = new Map<number, string[]>();
+  for (const { deckId, domainNumber } of quizDecks) {
+    decksByDomain.set(domainNumber, [...(decksByDomain.get(domainNumber) ?? []), deckId]);
+  }
+
+  return Array.from(decksByDomain.entries())
+    .filter(([, deckIds]) =>
+      deckIds.every(
+        (deckId) => (bestScores.get(deckId) ?? 0) >= HISTORY_ACHIEVEMENT_CONFIG.DOMAIN_MASTER_SCORE
+      )
+    )
+    .map(([domainNumber]) => domainNumber)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Check which achievements the user's quiz history has earned
+ */
+export function checkHistoryAchievements(history: QuizHistory): AchievementId[] {
+  const unlocked: AchievementId[] = [];
+
+  // Domain Master - 90%+ on every quiz in at least one domain
+  if (history.masteredDomains.length > 0) {
+    unlocked.push("domain_master");
+  }
+
+  // Quiz Veteran - 50 completed quizzes
+  if (history.completedQuizzes >= HISTORY_ACHIEVEMENT_CONFIG.QUIZ_VETERAN_QUIZZES) {
+    unlocked.push("quiz_veteran");
+  }
+
+  // The Perfectionist - 100% on 10 different quizzes
+  if (history.perfectQuizzes >= HISTORY_ACHIEVEMENT_CONFIG.PERFECTIONIST_QUIZZES) {
+    unlocked.push("hundred_percent");
+  }
+
+  return unlocked;
+}
+
+/**
+ * Narrow a stored achievement id to one this version still defines
+ */
+export function isAchievementId(value: string): value is AchievementId {
+  return Object.prototype.hasOwnProperty.call(ACHIEVEMENTS, value);
+}
+
 /**
  * Get rarity color class
  */
@@ -0,0 +1,164 @@
+/**
+ * Quiz Rewards
+ * Awards XP and achievements when a quiz is completed and keeps them across sessions.
+ * Everything is computed from the answers the server graded, so clients cannot forge XP.
+ */
+
+import { db } from '@/lib/db';
+import {
+  userXp,
+  userAchievements,
+  quizSessions,
+  decks,
+  deckQuizQuestions,
+  deckQuizProgress,
+} from '@/lib/db/schema';
+import { and, asc, countDistinct, eq, inArray, isNotNull, sql } from 'drizzle-orm';
+import { calculateTotalXP, getLevelFromXP, getProgressToNextLevel, getXPToNextLevel, type Level } from './xp-system';
+import {
+  checkAchievements,
+  checkHistoryAchievements,
+  getMasteredDomains,
+  isAchievementId,
+  type AchievementId,
+  type QuizHistory,
+  type QuizStats,
+} from './achievements';
+
+export interface QuizRewards {
+  xpEarned: number;
+  totalXp: number; // Lifetime XP including this quiz
+  newAchievements: AchievementId[]; // Unlocked by this quiz, not before
+}
+
+export interface UnlockedAchievement {
+  achievementId: AchievementId;
+  unlockedAt: Date;
+}
+
+export interface GamificationProfile {
+  totalXp: number;
+  level: Level;
+  progressToNextLevel: number;
+  xpToNextLevel: number;
+  history: QuizHistory;
+  achievements: UnlockedAchievement[];
+}
+
+// Quiz types that count towards XP and quiz history; exams are scored by the simulator
+const REWARDED_QUIZ_TYPES = ['deck', 'flashcard', 'drill'];
+
+/**
+ * Load the quiz history the history-based achievements are evaluated on
+ */
+export async function getQuizHistory(userId: string): Promise<QuizHistory> {
+  const finishedQuiz = and(
+    eq(quizSessions.clerkUserId, userId),
+    isNotNull(quizSessions.endedAt),
+    inArray(quizSessions.quizType, REWARDED_QUIZ_TYPES)
+  );
+
+  const [[completed], [perfect], quizDecks, bestScores] = await Promise.all([
+    db
+      .select({ count: countDistinct(quizSessions.id) })
+      .from(quizSessions)
+      .where(finishedQuiz),
+    db
+      .select({ count: countDistinct(sql`COALESCE(${quizSessions.deckId}, ${quizSessions.flashcardId})`) })
+      .from(quizSessions)
+      .where(and(finishedQuiz, eq(quizSessions.scorePercentage, '100.00'))),
+    // Published decks that have a quiz, by domain
+    db
+      .selectDistinct({ deckId: decks.id, domainNumber: decks.domainNumber })
+      .from(decks)
+      .innerJoin(deckQuizQuestions, and(eq(deckQuizQuestions.deckId, decks.id), eq(deckQuizQuestions.status, 'published')))
+      .where(and(eq(decks.isPublished, true), isNotNull(decks.domainNumber))),
+    db
+      .select({ deckId: deckQuizProgress.deckId, bestScore: deckQuizProgress.bestScore })
+      .from(deckQuizProgress)
+      .where(eq(deckQuizProgress.clerkUserId, userId)),
+  ]);
+
+  return {
+    completedQuizzes: completed?.count ?? 0,
+    perfectQuizzes: perfect?.count ?? 0,
+    masteredDomains: getMasteredDomains(
+      quizDecks.map((deck) => ({ deckId: deck.deckId, domainNumber: deck.domainNumber! })),
+      new Map(bestScores.map((row) => [row.deckId, row.bestScore ? parseFloat(row.bestScore) : 0]))
+    ),
+  };
+}
+
+/**
+ * Award XP and achievements for a completed quiz
+ * Call once per session, after it has been closed and its progress aggregates updated
+ */
+export async function awardQuizRewards(
+  userId: string,
+  sessionId: string,
+  stats: QuizStats
+): Promise<QuizRewards> {
+  const xpEarned = calculateTotalXP(stats.correctAnswers, stats.totalQuestions);
+  const now = new Date();
+
+  const totalXp = await db.transaction(async (tx) => {
+    const [xp] = await tx
+      .insert(userXp)
+      .values({ clerkUserId: userId, totalXp: xpEarned })
+      .onConflictDoUpdate({
+        target: userXp.clerkUserId,
+        set: { totalXp: sql`${userXp.totalXp} + ${xpEarned}`, updatedAt: now },
+      })
+      .returning({ totalXp: userXp.totalXp });
+
+    await tx.update(quizSessions).set({ xpEarned }).where(eq(quizSessions.id, sessionId));
+
+    return xp.totalXp;
+  });
+
+  const history = await getQuizHistory(userId);
+  const earned = [...checkAchievements(stats), ...checkHistoryAchievements(history)];
+
+  // The unique index keeps the first unlock; only new ones come back
+  const unlocked = earned.length > 0
+    ? await db
+        .insert(userAchievements)
+        .values(earned.map((achievementId) => ({ clerkUserId: userId, achievementId, quizSessionId: sessionId, unlockedAt: now })))
+        .onConflictDoNothing()
+        .returning({ achievementId: userAchievements.achievementId })
+    : [];
+
+  return {
+    xpEarned,
+    totalXp,
+    newAchievements: unlocked.map((row) => row.achievementId).filter(isAchievementId),
+  };
+}
+
+/**
+ * Level, XP and unlocked achievements for the profile page
+ */
+export async function getGamificationProfile(userId: string): Promise<GamificationProfile> {
+  const [xp, achievements, history] = await Promise.all([
+    db.query.userXp.findFirst({ where: eq(userXp.clerkUserId, userId) }),
+    db
+      .select({ achievementId: userAchievements.achievementId, unlockedAt: userAchievements.unlockedAt })
+      .from(userAchievements)
+      .where(eq(userAchievements.clerkUserId, userId))
+      .orderBy(asc(userAchievements.unlockedAt)),
+    getQuizHistory(userId),
+  ]);
+
+  const totalXp = xp?.totalXp ?? 0;
+
+  return {
+    totalXp,
+    level: getLevelFromXP(totalXp),
+    progressToNextLevel: getProgressToNextLevel(totalXp),
+    xpToNextLevel: getXPToNextLevel(totalXp),
+    history,
+    achievements: achievements.flatMap(({ achievementId, unlockedAt }) =>
+      isAchievementId(achievementId) ? [{ achievementId, unlockedAt }] : []
+    ),
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { HISTORY_CONFIG, buildActivityHeatmap, getHeatmapLevel, type DailyActivity } from './activity-heatmap';
+
+// Wednesday
+const TODAY = '2026-03-04';
+
+function day(date: string, cardsStudied: number, questionsAnswered = 0): DailyActivity {
+  return {
+    date,
+    studySessions: cardsStudied > 0 ? 1 : 0,
+    quizSessions: questionsAnswered > 0 ? 1 : 0,
+    cardsStudied,
+    questionsAnswered,
+    studySeconds: 60,
+  };
+}
+
+describe('getHeatmapLevel', () => {
+  it('is zero without activity', () => {
+    expect(getHeatmapLevel(0, 10)).toBe(0);
+    expect(getHeatmapLevel(0, 0)).toBe(0);
+  });
+
+  it('steps up evenly to the busiest day', () => {
+    expect(getHeatmapLevel(1, 100)).toBe(1);
+    expect(getHeatmapLevel(50, 100)).toBe(2);
+    expect(getHeatmapLevel(100, 100)).toBe(HISTORY_CONFIG.HEATMAP_LEVELS);
+  });
+});
+
+describe('buildActivityHeatmap', () => {
+  it('has Sunday-first weeks ending with the current week', () => {
+    const heatmap = buildActivityHeatmap([], TODAY, 2);
+
+    expect(heatmap.weeks).toHaveLength(2);
+    expect(heatmap.weeks[0][0]?.date).toBe('2026-02-22');
+    expect(heatmap.weeks[1][3]?.date).toBe(TODAY);
+    // Thursday to Saturday of this week are still to come
+    expect(heatmap.weeks[1].slice(4)).toEqual([null, null, null]);
+  });
+
+  it('counts cards and questions and shades each day against the busiest', () => {
+    const heatmap = buildActivityHeatmap([day('2026-03-02', 20, 20), day('2026-03-03', 10)], TODAY, 1);
+    const [sunday, monday, tuesday] = heatmap.weeks[0];
+
+    expect(sunday).toMatchObject({ count: 0, level: 0 });
+    expect(monday).toMatchObject({ count: 40, level: 4 });
+    expect(tuesday).toMatchObject({ count: 10, level: 1 });
+    expect(heatmap).toMatchObject({ activeDays: 2, totalCount: 50, maxCount: 40 });
+  });
+
+  it('ignores activity outside the grid', () => {
+    const heatmap = buildActivityHeatmap([day('2025-01-01', 99), day('2026-03-10', 99)], TODAY, 1);
+
+    expect(heatmap.totalCount).toBe(0);
+    expect(heatmap.activeDays).toBe(0);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Activity Heatmap
+ * Lays out a learner's daily study and quiz activity as a calendar grid of weeks,
+ * shading each day relative to their busiest day.
+ */
+
+export const HISTORY_CONFIG = {
+  PAGE_SIZE: 20,
+  HEATMAP_WEEKS: 53, // A full year, whatever weekday it starts on
+  HEATMAP_LEVELS: 4, // Shades above "no activity"
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyActivity {
+  date: string; // YYYY-MM-DD in the learner's timezone
+  studySessions: number; // Completed sessions
+  quizSessions: number;
+  cardsStudied: number;
+  questionsAnswered: number;
+  studySeconds: number; // Study and quiz time
+}
+
+export interface HeatmapCell extends DailyActivity {
+  count: number; // Cards studied plus questions answered
+  level: number; // 0 = no activity ... HEATMAP_LEVELS = busiest
+}
+
+export interface ActivityHeatmap {
+  weeks: Array<Array<HeatmapCell | null>>; // Sunday-first columns; null for days after today
+  activeDays: number;
+  totalCount: number;
+  maxCount: number;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function emptyDay(date: string): DailyActivity {
+  return { date, studySessions: 0, quizSessions: 0, cardsStudied: 0, questionsAnswered: 0, studySeconds: 0 };
+}
+
+/**
+ * Shade of a day's activity: evenly spaced steps up to the busiest day
+ */
+export function getHeatmapLevel(count: number, maxCount: number): number {
+  if (count <= 0 || maxCount <= 0) {
+    return 0;
+  }
+  return Math.min(HISTORY_CONFIG.HEATMAP_LEVELS, Math.ceil((count / maxCount) * HISTORY_CONFIG.HEATMAP_LEVELS));
+}
+
+/**
+ * Grid of the last weeks up to today, one column per week starting on Sunday
+ */
+export function buildActivityHeatmap(
+  activity: DailyActivity[],
+  today: string,
+  weeks: number = HISTORY_CONFIG.HEATMAP_WEEKS
+): ActivityHeatmap {
+  const byDate = new Map(activity.map((day) => [day.date, day]));
+  const todayWeekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const start = addDays(today, -todayWeekday - (weeks - 1) * 7);
+
+  const days = Array.from({ length: weeks * 7 }, (_, index) => {
+    const date = addDays(start, index);
+    if (date > today) {
+      return null;
+    }
+    const day = byDate.get(date) ?? emptyDay(date);
+    return { ...day, count: day.cardsStudied + day.questionsAnswered };
+  });
+
+  const visible = days.filter((day): day is Omit<HeatmapCell, 'level'> => day !== null);
+  const maxCount = Math.max(0, ...visible.map((day) => day.count));
+  const cells = days.map((day) => (day ? { ...day, level: getHeatmapLevel(day.count, maxCount) } : null));
+
+  return {
+    weeks: Array.from({ length: weeks }, (_, week) => cells.slice(week * 7, week * 7 + 7)),
+    activeDays: visible.filter((day) => day.count > 0 || day.studySessions + day.quizSessions > 0).length,
+    totalCount: visible.reduce((sum, day) => sum + day.count, 0),
+    maxCount,
+  };
+}
@@ -0,0 +1,348 @@
+/**
+ * Session History
+ * Loads a learner's past study and quiz sessions as one filterable timeline, their daily
+ * activity for the heatmap, and the question-by-question detail of a quiz.
+ */
+
+import { db } from '@/lib/db';
+import {
+  classes,
+  decks,
+  flashcards,
+  quizSessionAnswers,
+  quizSessions,
+  studySessionDecks,
+  studySessions,
+} from '@/lib/db/schema';
+import { and, asc, desc, eq, gte, inArray, lte, sql, type SQL } from 'drizzle-orm';
+import { unionAll, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import {
+  getAnswerReveal,
+  getRecordedResponse,
+  isValidOptionOrder,
+  toPublicQuestionFields,
+  type PublicQuizQuestionFields,
+  type QuizAnswerReveal,
+} from '@/lib/quiz/grading';
+import type { QuizResponse } from '@/lib/quiz/question-types';
+import type { ExamResult } from '@/lib/quiz/cat-exam';
+import type { HistoryQueryParams } from '@/lib/validations/history';
+import { HISTORY_CONFIG, type DailyActivity } from '@/lib/history/activity-heatmap';
+import { getActivityBetween } from '@/lib/activity/daily-activity';
+import { addDays } from '@/lib/planner/study-plan';
+
+export type HistoryItemKind = 'study' | 'quiz';
+
+export interface HistoryItem {
+  id: string;
+  kind: HistoryItemKind;
+  quizType: string | null; // 'flashcard', 'deck', 'exam' or 'drill' for quizzes
+  deckId: string | null;
+  deckName: string | null;
+  deckCount: number; // Study sessions can cover several decks
+  classId: string | null;
+  className: string | null;
+  startedAt: Date;
+  endedAt: Date | null;
+  itemCount: number; // Cards studied or quiz questions
+  correctCount: number | null;
+  scorePercentage: number | null;
+  averageConfidence: number | null;
+  durationSeconds: number | null;
+}
+
+export interface HistoryPage {
+  items: HistoryItem[];
+  page: number;
+  hasMore: boolean;
+}
+
+export interface HistoryFilterClass {
+  id: string;
+  name: string;
+  decks: Array<{ id: string; name: string }>;
+}
+
+export interface QuizAnswerDetail extends PublicQuizQuestionFields {
+  id: string;
+  questionNumber: number;
+  questionText: string | null; // Null when the question has since been deleted
+  isCorrect: boolean;
+  timeSpent: number | null; // in seconds
+  response: QuizResponse | null;
+  reveal: QuizAnswerReveal | null;
+}
+
+export interface QuizSessionDetail {
+  id: string;
+  quizType: string;
+  deckId: string | null;
+  deckName: string | null;
+  startedAt: Date;
+  endedAt: Date | null;
+  totalQuestions: number;
+  correctAnswers: number;
+  scorePercentage: number | null;
+  durationSeconds: number | null;
+  examResult: ExamResult | null;
+  answers: QuizAnswerDetail[];
+}
+
+const questionColumns = {
+  questionText: true,
+  questionType: true,
+  imageUrl: true,
+  options: true,
+  explanation: true,
+  eliminationTactics: true,
+  correctAnswerWithJustification: true,
+  compareRemainingOptionsWithJustification: true,
+  correctOptionsJustification: true,
+} as const;
+
+/**
+ * Calendar date of a stored UTC timestamp in the learner's timezone
+ */
+function localDate(column: AnyPgColumn, timeZone: string) {
+  return sql<string>`to_char((${column} AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone}, 'YYYY-MM-DD')`;
+}
+
+function dateRange(column: AnyPgColumn, filters: HistoryQueryParams, timeZone: string): SQL[] {
+  return [
+    ...(filters.from ? [gte(localDate(column, timeZone), filters.from)] : []),
+    ...(filters.to ? [lte(localDate(column, timeZone), filters.to)] : []),
+  ];
+}
+
+function studyTimeline(userId: string, filters: HistoryQueryParams, timeZone: string) {
+  const deckFilter = filters.deckId
+    ? eq(decks.id, filters.deckId)
+    : filters.classId
+      ? eq(decks.classId, filters.classId)
+      : undefined;
+
+  return db
+    .select({
+      id: studySessions.id,
+      kind: sql<HistoryItemKind>`'study'`.as('kind'),
+      quizType: sql<string | null>`NULL`.as('quiz_type'),
+      deckId: sql<string | null>`${decks.id}`.as('deck_id'),
+      deckName: sql<string | null>`${decks.name}`.as('deck_name'),
+      deckCount: sql<number>`(SELECT count(*)::int FROM ${studySessionDecks} WHERE ${studySessionDecks.sessionId} = ${studySessions.id})`.as('deck_count'),
+      classId: sql<string | null>`${classes.id}`.as('class_id'),
+      className: sql<string | null>`${classes.name}`.as('class_name'),
+      startedAt: studySessions.startedAt,
+      endedAt: studySessions.endedAt,
+      itemCount: sql<number>`coalesce(${studySessions.cardsStudied}, 0)`.as('item_count'),
+      correctCount: sql<number | null>`NULL::int`.as('correct_count'),
+      scorePercentage: sql<string | null>`NULL::numeric`.as('score_percentage'),
+      averageConfidence: sql<string | null>`${studySessions.averageConfidence}`.as('average_confidence'),
+      durationSeconds: sql<number | null>`${studySessions.studyDuration}`.as('duration_seconds'),
+    })
+    .from(studySessions)
+    .leftJoin(decks, eq(studySessions.deckId, decks.id))
+    .leftJoin(classes, eq(decks.classId, classes.id))
+    .where(
+      and(
+        eq(studySessions.clerkUserId, userId),
+        ...dateRange(studySessions.startedAt, filters, timeZone),
+        // A study session matches a deck or class filter through any of its decks
+        deckFilter
+          ? inArray(
+              studySessions.id,
+              db
+                .select({ sessionId: studySessionDecks.sessionId })
+                .from(studySessionDecks)
+                .innerJoin(decks, eq(studySessionDecks.deckId, decks.id))
+                .where(deckFilter)
+            )
+          : undefined
+      )
+    );
+}
+
+function quizTimeline(userId: string, filters: HistoryQueryParams, timeZone: string) {
+  const quizType = filters.type && filters.type !== 'study' ? filters.type : null;
+
+  return db
+    .select({
+      id: quizSessions.id,
+      kind: sql<HistoryItemKind>`'quiz'`.as('kind'),
+      quizType: sql<string | null>`${quizSessions.quizType}`.as('quiz_type'),
+      deckId: sql<string | null>`${decks.id}`.as('deck_id'),
+      deckName: sql<string | null>`${decks.name}`.as('deck_name'),
+      deckCount: sql<number>`CASE WHEN ${decks.id} IS NULL THEN 0 ELSE 1 END`.as('deck_count'),
+      classId: sql<string | null>`${classes.id}`.as('class_id'),
+      className: sql<string | null>`${classes.name}`.as('class_name'),
+      startedAt: quizSessions.startedAt,
+      endedAt: quizSessions.endedAt,
+      itemCount: sql<number>`coalesce(${quizSessions.totalQuestions}, 0)`.as('item_count'),
+      correctCount: sql<number | null>`${quizSessions.correctAnswers}`.as('correct_count'),
+      scorePercentage: sql<string | null>`${quizSessions.scorePercentage}`.as('score_percentage'),
+      averageConfidence: sql<string | null>`NULL::numeric`.as('average_confidence'),
+      durationSeconds: sql<number | null>`${quizSessions.quizDuration}`.as('duration_seconds'),
+    })
+    .from(quizSessions)
+    // Flashcard quizzes only reference their card, so the deck comes from the card
+    .leftJoin(flashcards, eq(quizSessions.flashcardId, flashcards.id))
+    .leftJoin(decks, eq(decks.id, sql`coalesce(${quizSessions.deckId}, ${flashcards.deckId})`))
+    .leftJoin(classes, eq(decks.classId, classes.id))
+    .where(
+      and(
+        eq(quizSessions.clerkUserId, userId),
+        ...dateRange(quizSessions.startedAt, filters, timeZone),
+        quizType ? eq(quizSessions.quizType, quizType) : undefined,
+        filters.deckId ? eq(decks.id, filters.deckId) : undefined,
+        filters.classId ? eq(decks.classId, filters.classId) : undefined
+      )
+    );
+}
+
+/**
+ * One page of the timeline, newest first
+ */
+export async function getSessionHistory(
+  userId: string,
+  filters: HistoryQueryParams,
+  timeZone: string
+): Promise<HistoryPage> {
+  const limit = HISTORY_CONFIG.PAGE_SIZE + 1;
+  const offset = filters.page * HISTORY_CONFIG.PAGE_SIZE;
+
+  let rows;
+  if (filters.type === 'study') {
+    rows = await studyTimeline(userId, filters, timeZone)
+      .orderBy(desc(studySessions.startedAt), desc(studySessions.id))
+      .limit(limit)
+      .offset(offset);
+  } else if (filters.type) {
+    rows = await quizTimeline(userId, filters, timeZone)
+      .orderBy(desc(quizSessions.startedAt), desc(quizSessions.id))
+      .limit(limit)
+      .offset(offset);
+  } else {
+    rows = await unionAll(studyTimeline(userId, filters, timeZone), quizTimeline(userId, filters, timeZone))
+      .orderBy(desc(studySessions.startedAt), desc(studySessions.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  const items: HistoryItem[] = rows.slice(0, HISTORY_CONFIG.PAGE_SIZE).map((row) => ({
+    ...row,
+    deckCount: Number(row.deckCount),
+    itemCount: Number(row.itemCount),
+    scorePercentage: row.scorePercentage === null ? null : Number(row.scorePercentage),
+    averageConfidence: row.averageConfidence === null ? null : Number(row.averageConfidence),
+  }));
+
+  return { items, page: filters.page, hasMore: rows.length > HISTORY_CONFIG.PAGE_SIZE };
+}
+
+/**
+ * Study and quiz activity per local day, for the heatmap
+ */
+export async function getDailyActivity(userId: string, today: string): Promise<DailyActivity[]> {
+  const from = addDays(today, -HISTORY_CONFIG.HEATMAP_WEEKS * 7);
+  const rows = await getActivityBetween(userId, from, today);
+
+  // Frozen days kept the streak alive but had no activity
+  return rows.filter((row) => !row.frozen);
+}
+
+/**
+ * Published classes and their decks, for the timeline filters
+ */
+export async function getHistoryFilterOptions(): Promise<HistoryFilterClass[]> {
+  const rows = await db
+    .select({ classId: classes.id, className: classes.name, deckId: decks.id, deckName: decks.name })
+    .from(classes)
+    .leftJoin(decks, and(eq(decks.classId, classes.id), eq(decks.isPublished, true)))
+    .where(eq(classes.isPublished, true))
+    .orderBy(asc(classes.order), asc(decks.order));
+
+  const byClass = new Map<string, HistoryFilterClass>();
+  for (const row of rows) {
+    let entry = byClass.get(row.classId);
+    if (!entry) {
+      entry = { id: row.classId, name: row.className, decks: [] };
+      byClass.set(row.classId, entry);
+    }
+    if (row.deckId && row.deckName) {
+      entry.decks.push({ id: row.deckId, name: row.deckName });
+    }
+  }
+  return Array.from(byClass.values());
+}
+
+/**
+ * Question-by-question detail of one of the user's quizzes, or undefined if it is not theirs
+ */
+export async function getQuizSessionDetail(userId: string, sessionId: string) {
+  const session = await db.query.quizSessions.findFirst({
+    where: and(eq(quizSessions.id, sessionId), eq(quizSessions.clerkUserId, userId)),
+    with: {
+      deck: { columns: { id: true, name: true } },
+      flashcard: { columns: { id: true }, with: { deck: { columns: { id: true, name: true } } } },
+      answers: {
+        orderBy: [asc(quizSessionAnswers.questionOrder)],
+        with: {
+          quizQuestion: { columns: questionColumns },
+          deckQuizQuestion: { columns: questionColumns },
+        },
+      },
+    },
+  });
+
+  if (!session) {
+    return undefined;
+  }
+
+  const deck = session.deck ?? session.flashcard?.deck ?? null;
+  const answers: QuizAnswerDetail[] = session.answers.map((answer, index) => {
+    const question = answer.deckQuizQuestion ?? answer.quizQuestion;
+    const fields = question
+      ? toPublicQuestionFields(question)
+      : { questionType: 'single_choice' as const, imageUrl: null, options: [] };
+
+    // Show the options in the order the learner saw them
+    if (question && isValidOptionOrder(question.options, answer.optionOrder)) {
+      const order = answer.optionOrder as string[];
+      fields.options = [...fields.options].sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id));
+    }
+
+    return {
+      ...fields,
+      id: answer.id,
+      questionNumber: index + 1,
+      questionText: question?.questionText ?? null,
+      isCorrect: answer.isCorrect,
+      timeSpent: answer.timeSpent,
+      response: getRecordedResponse(answer),
+      reveal: question ? getAnswerReveal(question) : null,
+    };
+  });
+
+  const detail: QuizSessionDetail = {
+    id: session.id,
+    quizType: session.quizType,
+    deckId: deck?.id ?? null,
+    deckName: deck?.name ?? null,
+    startedAt: session.startedAt,
+    endedAt: session.endedAt,
+    totalQuestions: session.totalQuestions ?? answers.length,
+    correctAnswers: session.correctAnswers ?? answers.filter((answer) => answer.isCorrect).length,
+    scorePercentage: session.scorePercentage === null ? null : Number(session.scorePercentage),
+    durationSeconds: session.quizDuration,
+    examResult: session.examResult,
+    answers,
+  };
+
+  return detail;
+}
+
+/**
+ * An exam still being taken; its answers stay hidden until it ends
+ */
+export function isExamInProgress(session: { quizType: string; endedAt: Date | null }): boolean {
+  return session.quizType === 'exam' && session.endedAt === null;
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { buildPlanCalendar, escapeCalendarText, foldCalendarLine } from './plan-calendar';
+import type { StudyPlan } from './study-plan';
+
+const plan: StudyPlan = {
+  examDate: '2026-03-16',
+  daysUntilExam: 14,
+  studyDayCount: 2,
+  dailyMinutes: 60,
+  newCardsRemaining: 10,
+  newCardsUnscheduled: 0,
+  progress: { status: 'on_track', expectedNewCards: 0, studiedNewCards: 0 },
+  days: [
+    {
+      date: '2026-03-02',
+      phase: 'learn',
+      budgetMinutes: 60,
+      plannedMinutes: 25,
+      tasks: [
+        { type: 'review', cards: 6, minutes: 4 },
+        { type: 'new_cards', deckId: 'a', deckName: 'Day 1, Security; Risk', domain: 1, cards: 10, minutes: 15 },
+      ],
+    },
+    { date: '2026-03-03', phase: 'learn', budgetMinutes: 60, plannedMinutes: 0, tasks: [] },
+  ],
+};
+
+describe('escapeCalendarText', () => {
+  it('escapes separators and newlines', () => {
+    expect(escapeCalendarText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+});
+
+describe('foldCalendarLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldCalendarLine('SUMMARY:Study')).toBe('SUMMARY:Study');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const folded = foldCalendarLine(`DESCRIPTION:${'é'.repeat(60)}`);
+    const lines = folded.split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+    expect(lines.every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(lines.map((line, index) => (index === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'é'.repeat(60)}`);
+  });
+});
+
+describe('buildPlanCalendar', () => {
+  const calendar = buildPlanCalendar(plan, 'user_1', new Date('2026-03-02T08:00:00Z'));
+
+  it('is a CRLF-separated calendar', () => {
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('adds an all-day event for each day with tasks and for the exam', () => {
+    expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(calendar).toContain('UID:user_1-2026-03-02@study-plan');
+    expect(calendar).toContain('DTSTART;VALUE=DATE:20260302\r\nDTEND;VALUE=DATE:20260303');
+    expect(calendar).toContain('SUMMARY:CISSP study (25 min)');
+    expect(calendar).toContain('DTSTART;VALUE=DATE:20260316');
+    expect(calendar).toContain('DTSTAMP:20260302T080000Z');
+  });
+
+  it('lists the tasks in the description with escaped text', () => {
+    const unfolded = calendar.replace(/\r\n /g, '');
+    expect(unfolded).toContain('DESCRIPTION:- Review 6 due cards (~4 min)\\n- Study 10 new cards in Day 1\\, Security\\; Risk (~15 min)');
+  });
+});
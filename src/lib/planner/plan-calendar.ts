@@ -0,0 +1,99 @@
+/**
+ * Study Plan Calendar
+ * Exports a study plan as an iCalendar (.ics) file: one all-day event per study day
+ * listing its tasks, plus the exam itself.
+ */
+
+import { addDays, describePlanTask, type StudyPlan } from './study-plan';
+
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape text for an iCalendar TEXT value (RFC 5545 3.3.11)
+ */
+export function escapeCalendarText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets, continuing on lines that start with a space (RFC 5545 3.1)
+ */
+export function foldCalendarLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function toCalendarDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function toCalendarTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function allDayEvent(uid: string, date: string, summary: string, description: string, stamp: string): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${toCalendarDate(date)}`,
+    `DTEND;VALUE=DATE:${toCalendarDate(addDays(date, 1))}`,
+    `SUMMARY:${escapeCalendarText(summary)}`,
+    `DESCRIPTION:${escapeCalendarText(description)}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Build the .ics file for a plan; uidPrefix keeps event ids unique per learner so re-imports update in place
+ */
+export function buildPlanCalendar(plan: StudyPlan, uidPrefix: string, now: Date = new Date()): string {
+  const stamp = toCalendarTimestamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CISSP Study Planner//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:CISSP Study Plan',
+  ];
+
+  for (const day of plan.days) {
+    if (day.tasks.length === 0) continue;
+
+    const title = day.phase === 'final_review' ? 'CISSP final review' : 'CISSP study';
+    lines.push(
+      ...allDayEvent(
+        `${uidPrefix}-${day.date}@study-plan`,
+        day.date,
+        `${title} (${day.plannedMinutes} min)`,
+        day.tasks.map((task) => `- ${describePlanTask(task)} (~${task.minutes} min)`).join('\n'),
+        stamp
+      )
+    );
+  }
+
+  lines.push(...allDayEvent(`${uidPrefix}-exam@study-plan`, plan.examDate, 'CISSP exam day', 'Good luck!', stamp));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldCalendarLine).join('\r\n') + '\r\n';
+}
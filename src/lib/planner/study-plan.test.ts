@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import {
+  STUDY_PLAN_CONFIG,
+  addDays,
+  daysBetween,
+  getStudyDates,
+  getFinalReviewDayCount,
+  getStudyPace,
+  getPlanProgress,
+  buildStudyPlan,
+  describePlanTask,
+  type PlannerDeck,
+  type StudyPlanInputs,
+  type StudyPlanSettings,
+} from './study-plan';
+
+// Monday; the exam is two weeks later
+const TODAY = '2026-03-02';
+const WEEKDAYS: StudyPlanSettings = { examDate: '2026-03-16', weeklyMinutes: 300, studyDays: [1, 2, 3, 4, 5] };
+
+function deck(id: string, newCards: number, overrides: Partial<PlannerDeck> = {}): PlannerDeck {
+  return { id, name: `Deck ${id}`, domain: 1, newCards, quizQuestions: 0, quizPassed: false, ...overrides };
+}
+
+function inputs(overrides: Partial<StudyPlanInputs> = {}): StudyPlanInputs {
+  return {
+    settings: WEEKDAYS,
+    baseline: { date: TODAY, newCards: 80 },
+    decks: [deck('a', 40), deck('b', 40)],
+    reviewsByDate: {},
+    // One minute per new card, 40 seconds per review
+    pace: { secondsPerCard: 40, secondsPerQuestion: 60, minutesStudiedToday: 0 },
+    today: TODAY,
+    ...overrides,
+  };
+}
+
+function newCardsOn(plan: ReturnType<typeof buildStudyPlan>, date: string): number {
+  const day = plan.days.find((d) => d.date === date);
+  return (day?.tasks ?? []).filter((task) => task.type === 'new_cards').reduce((sum, task) => sum + (task.cards ?? 0), 0);
+}
+
+describe('date helpers', () => {
+  it('adds days across month ends', () => {
+    expect(addDays('2026-02-27', 2)).toBe('2026-03-01');
+    expect(daysBetween('2026-02-27', '2026-03-01')).toBe(2);
+  });
+
+  it('lists the study days before the exam', () => {
+    const dates = getStudyDates(WEEKDAYS, TODAY);
+
+    expect(dates).toHaveLength(10);
+    expect(dates[0]).toBe(TODAY);
+    expect(dates).not.toContain('2026-03-07'); // Saturday
+    expect(dates).not.toContain(WEEKDAYS.examDate);
+  });
+
+  it('keeps a share of longer plans for the final review', () => {
+    expect(getFinalReviewDayCount(3)).toBe(0);
+    expect(getFinalReviewDayCount(10)).toBe(2);
+    expect(getFinalReviewDayCount(200)).toBe(STUDY_PLAN_CONFIG.MAX_FINAL_REVIEW_DAYS);
+  });
+});
+
+describe('getStudyPace', () => {
+  it('uses the defaults until there is enough history', () => {
+    const pace = getStudyPace({ studySeconds: 100, cardsStudied: 5, quizSeconds: 0, questionsAnswered: 0, minutesStudiedToday: 0 });
+
+    expect(pace.secondsPerCard).toBe(STUDY_PLAN_CONFIG.DEFAULT_SECONDS_PER_CARD);
+    expect(pace.secondsPerQuestion).toBe(STUDY_PLAN_CONFIG.DEFAULT_SECONDS_PER_QUESTION);
+  });
+
+  it('uses the learner’s own pace, within sensible bounds', () => {
+    const pace = getStudyPace({
+      studySeconds: 50 * 25,
+      cardsStudied: 50,
+      quizSeconds: 1,
+      questionsAnswered: 100,
+      minutesStudiedToday: 0,
+    });
+
+    expect(pace.secondsPerCard).toBe(25);
+    expect(pace.secondsPerQuestion).toBe(STUDY_PLAN_CONFIG.MIN_SECONDS_PER_ITEM);
+  });
+});
+
+describe('buildStudyPlan', () => {
+  it('spreads the new cards evenly over the learning days in deck order', () => {
+    const plan = buildStudyPlan(inputs());
+
+    expect(plan.studyDayCount).toBe(10);
+    expect(plan.dailyMinutes).toBe(60);
+    expect(plan.newCardsRemaining).toBe(80);
+    expect(plan.newCardsUnscheduled).toBe(0);
+    expect(newCardsOn(plan, TODAY)).toBe(10);
+    expect(plan.days[0].tasks[0]).toMatchObject({ type: 'new_cards', deckId: 'a', cards: 10 });
+  });
+
+  it('keeps the final review days free of new cards', () => {
+    const plan = buildStudyPlan(inputs());
+    const finalDays = plan.days.filter((day) => day.phase === 'final_review');
+
+    expect(finalDays.map((day) => day.date)).toEqual(['2026-03-12', '2026-03-13']);
+    for (const day of finalDays) {
+      expect(day.tasks.some((task) => task.type === 'new_cards')).toBe(false);
+      expect(day.tasks.some((task) => task.type === 'exam_simulation')).toBe(true);
+    }
+  });
+
+  it('plans a deck quiz on the study day after its cards are done', () => {
+    const plan = buildStudyPlan(inputs({ decks: [deck('a', 20, { quizQuestions: 10 }), deck('b', 60)] }));
+    const quizDay = plan.days.findIndex((day) => day.tasks.some((task) => task.type === 'deck_quiz'));
+    const lastDeckADay = plan.days.findLastIndex((day) => day.tasks.some((task) => task.deckId === 'a' && task.type === 'new_cards'));
+
+    expect(quizDay).toBe(lastDeckADay + 1);
+    expect(plan.days[quizDay].tasks.find((task) => task.type === 'deck_quiz')).toMatchObject({ questions: 10, minutes: 10 });
+  });
+
+  it('does not plan quizzes that were already passed', () => {
+    const plan = buildStudyPlan(inputs({ decks: [deck('a', 0, { quizQuestions: 10, quizPassed: true })] }));
+
+    expect(plan.days.flatMap((day) => day.tasks).some((task) => task.type === 'deck_quiz')).toBe(false);
+  });
+
+  it('rebalances the remaining cards over fewer days when the learner falls behind', () => {
+    const onTime = buildStudyPlan(inputs());
+    const later = buildStudyPlan(inputs({ today: '2026-03-05' }));
+
+    expect(newCardsOn(later, '2026-03-05')).toBeGreaterThan(newCardsOn(onTime, TODAY));
+    expect(later.newCardsUnscheduled).toBe(0);
+  });
+
+  it('fits new cards into the budget and reports the cards that do not fit', () => {
+    const plan = buildStudyPlan(inputs({ settings: { ...WEEKDAYS, weeklyMinutes: 50 } }));
+
+    expect(newCardsOn(plan, TODAY)).toBe(10);
+    // Due reviews are always planned; new cards only fill what is left of the budget
+    const overBudget = plan.days.filter((day) => day.phase === 'learn' && day.plannedMinutes > day.budgetMinutes);
+    expect(overBudget.every((day) => day.tasks.every((task) => task.type === 'review'))).toBe(true);
+    expect(plan.newCardsUnscheduled).toBeGreaterThan(0);
+  });
+
+  it('puts overdue reviews on today and reviews due on days off on the next study day', () => {
+    const plan = buildStudyPlan(
+      inputs({
+        decks: [],
+        reviewsByDate: { '2026-02-20': 4, [TODAY]: 2, '2026-03-07': 3, '2026-03-08': 1 },
+      })
+    );
+
+    expect(plan.days[0].tasks[0]).toMatchObject({ type: 'review', cards: 6 });
+    expect(plan.days.find((day) => day.date === '2026-03-09')?.tasks[0]).toMatchObject({ type: 'review', cards: 4 });
+  });
+
+  it('brings newly learned cards back for review on later days', () => {
+    const plan = buildStudyPlan(inputs());
+    const nextDay = plan.days.find((day) => day.date === addDays(TODAY, 1));
+
+    expect(nextDay?.tasks[0]).toMatchObject({ type: 'review', cards: 10 });
+  });
+
+  it('takes the time already studied today out of today’s budget', () => {
+    const plan = buildStudyPlan(inputs({ pace: { secondsPerCard: 40, secondsPerQuestion: 60, minutesStudiedToday: 55 } }));
+
+    expect(plan.days[0].budgetMinutes).toBe(5);
+    expect(newCardsOn(plan, TODAY)).toBe(5);
+  });
+
+  it('has no days once the exam date has passed', () => {
+    const plan = buildStudyPlan(inputs({ today: '2026-03-20' }));
+
+    expect(plan.days).toEqual([]);
+    expect(plan.daysUntilExam).toBe(0);
+  });
+});
+
+describe('getPlanProgress', () => {
+  const baseline = { date: TODAY, newCards: 80 };
+
+  it('is on track when the cards studied match the plan', () => {
+    // Three learning days have passed at 10 cards a day
+    expect(getPlanProgress(WEEKDAYS, baseline, 50, '2026-03-05')).toEqual({
+      status: 'on_track',
+      expectedNewCards: 30,
+      studiedNewCards: 30,
+    });
+  });
+
+  it('is behind or ahead by more than half a day of cards', () => {
+    expect(getPlanProgress(WEEKDAYS, baseline, 70, '2026-03-05').status).toBe('behind');
+    expect(getPlanProgress(WEEKDAYS, baseline, 30, '2026-03-05').status).toBe('ahead');
+  });
+});
+
+describe('describePlanTask', () => {
+  it('describes each kind of task', () => {
+    expect(describePlanTask({ type: 'review', cards: 1, minutes: 1 })).toBe('Review 1 due card');
+    expect(describePlanTask({ type: 'new_cards', deckName: 'Day 1', cards: 12, minutes: 12 })).toBe(
+      'Study 12 new cards in Day 1'
+    );
+    expect(describePlanTask({ type: 'deck_quiz', deckName: 'Day 1', questions: 20, minutes: 20 })).toBe(
+      'Take the Day 1 quiz (20 questions)'
+    );
+  });
+});
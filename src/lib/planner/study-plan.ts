@@ -0,0 +1,331 @@
+/**
+ * Study Plan
+ * Turns the learner's exam date, weekly time budget and study days into a day-by-day plan
+ * of reviews, new cards and quizzes. The plan is rebuilt from what is left every time,
+ * so falling behind or getting ahead spreads the remaining work over the remaining days.
+ */
+
+import { CAT_EXAM_CONFIG } from '@/lib/quiz/cat-exam';
+
+export const STUDY_PLAN_CONFIG = {
+  MIN_WEEKLY_MINUTES: 30,
+  MAX_WEEKLY_MINUTES: 70 * 60,
+  MAX_PLAN_DAYS: 365, // Exam dates further out are rejected
+  FINAL_REVIEW_SHARE: 0.15, // Share of the study days kept for review and exam practice before the exam
+  MAX_FINAL_REVIEW_DAYS: 7,
+  MIN_DAYS_FOR_FINAL_REVIEW: 4, // Shorter plans spend every day learning
+  DEFAULT_SECONDS_PER_CARD: 40, // Review pace until the learner's own sessions say otherwise
+  NEW_CARD_TIME_FACTOR: 1.5, // A first look at a card takes longer than a review
+  DEFAULT_SECONDS_PER_QUESTION: 60,
+  MIN_PACE_SAMPLE: 20, // Cards or questions needed before the learner's own pace is used
+  MIN_SECONDS_PER_ITEM: 10,
+  MAX_SECONDS_PER_ITEM: 300,
+  PACE_WINDOW_DAYS: 30,
+  QUIZ_PASS_MARK: 70, // Deck quizzes scored below this are planned again
+  NEW_CARD_REVIEW_OFFSETS: [1, 3, 7, 16, 35], // Days after a first study when a card typically comes back
+  EXAM_SIMULATION_MINUTES: CAT_EXAM_CONFIG.TIME_LIMIT_SECONDS / 60,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PlanTaskType = 'review' | 'new_cards' | 'deck_quiz' | 'exam_simulation';
+export type PlanPhase = 'learn' | 'final_review';
+export type PlanPaceStatus = 'ahead' | 'on_track' | 'behind';
+
+export interface StudyPlanSettings {
+  examDate: string; // YYYY-MM-DD in the learner's timezone
+  weeklyMinutes: number;
+  studyDays: number[]; // 0 = Sunday ... 6 = Saturday
+}
+
+export interface StudyPlanBaseline {
+  date: string; // Local date the settings were saved
+  newCards: number; // New cards left on that date
+}
+
+export interface PlannerDeck {
+  id: string;
+  name: string;
+  domain: number | null;
+  newCards: number; // Published cards the learner has not studied yet
+  quizQuestions: number; // 0 when the deck has no quiz
+  quizPassed: boolean;
+}
+
+export interface StudyPace {
+  secondsPerCard: number; // Per review; new cards take NEW_CARD_TIME_FACTOR times as long
+  secondsPerQuestion: number;
+  minutesStudiedToday: number;
+}
+
+export interface StudyPaceTotals {
+  studySeconds: number;
+  cardsStudied: number;
+  quizSeconds: number;
+  questionsAnswered: number;
+  minutesStudiedToday: number;
+}
+
+export interface StudyPlanInputs {
+  settings: StudyPlanSettings;
+  baseline: StudyPlanBaseline;
+  decks: PlannerDeck[]; // In study order
+  reviewsByDate: Record<string, number>; // Scheduled reviews per local date, overdue ones on today
+  pace: StudyPace;
+  today: string;
+}
+
+export interface PlanTask {
+  type: PlanTaskType;
+  minutes: number;
+  deckId?: string;
+  deckName?: string;
+  domain?: number | null;
+  cards?: number;
+  questions?: number;
+}
+
+export interface PlanDay {
+  date: string;
+  phase: PlanPhase;
+  budgetMinutes: number;
+  plannedMinutes: number;
+  tasks: PlanTask[];
+}
+
+export interface PlanProgress {
+  status: PlanPaceStatus;
+  expectedNewCards: number; // New cards the plan expected to be studied by today
+  studiedNewCards: number; // New cards studied since the settings were saved
+}
+
+export interface StudyPlan {
+  examDate: string;
+  daysUntilExam: number;
+  studyDayCount: number;
+  dailyMinutes: number;
+  newCardsRemaining: number;
+  newCardsUnscheduled: number; // New cards that do not fit in the budget before the final review
+  progress: PlanProgress;
+  days: PlanDay[];
+}
+
+/**
+ * Calendar date n days after a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Study days from a date up to, but not including, the exam
+ */
+export function getStudyDates(settings: StudyPlanSettings, from: string): string[] {
+  const total = Math.min(daysBetween(from, settings.examDate), STUDY_PLAN_CONFIG.MAX_PLAN_DAYS);
+  const dates: string[] = [];
+  for (let offset = 0; offset < total; offset++) {
+    const date = addDays(from, offset);
+    if (settings.studyDays.includes(getWeekday(date))) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Study days at the end of the plan kept for review and exam practice
+ */
+export function getFinalReviewDayCount(studyDayCount: number): number {
+  if (studyDayCount < STUDY_PLAN_CONFIG.MIN_DAYS_FOR_FINAL_REVIEW) {
+    return 0;
+  }
+  return Math.min(
+    STUDY_PLAN_CONFIG.MAX_FINAL_REVIEW_DAYS,
+    Math.max(1, Math.round(studyDayCount * STUDY_PLAN_CONFIG.FINAL_REVIEW_SHARE))
+  );
+}
+
+function clampSeconds(seconds: number): number {
+  return Math.min(STUDY_PLAN_CONFIG.MAX_SECONDS_PER_ITEM, Math.max(STUDY_PLAN_CONFIG.MIN_SECONDS_PER_ITEM, seconds));
+}
+
+/**
+ * The learner's own time per card and per quiz question once there is enough of it, else the defaults
+ */
+export function getStudyPace(totals: StudyPaceTotals): StudyPace {
+  return {
+    secondsPerCard:
+      totals.cardsStudied >= STUDY_PLAN_CONFIG.MIN_PACE_SAMPLE && totals.studySeconds > 0
+        ? clampSeconds(totals.studySeconds / totals.cardsStudied)
+        : STUDY_PLAN_CONFIG.DEFAULT_SECONDS_PER_CARD,
+    secondsPerQuestion:
+      totals.questionsAnswered >= STUDY_PLAN_CONFIG.MIN_PACE_SAMPLE && totals.quizSeconds > 0
+        ? clampSeconds(totals.quizSeconds / totals.questionsAnswered)
+        : STUDY_PLAN_CONFIG.DEFAULT_SECONDS_PER_QUESTION,
+    minutesStudiedToday: totals.minutesStudiedToday,
+  };
+}
+
+/**
+ * Compare the new cards studied since the settings were saved with what the original plan expected
+ * Within half a day's share of cards either way counts as on track
+ */
+export function getPlanProgress(
+  settings: StudyPlanSettings,
+  baseline: StudyPlanBaseline,
+  newCardsRemaining: number,
+  today: string
+): PlanProgress {
+  const dates = getStudyDates(settings, baseline.date);
+  const learnDays = dates.length - getFinalReviewDayCount(dates.length);
+  const elapsedDays = Math.min(learnDays, dates.filter((date) => date < today).length);
+
+  const expectedNewCards = learnDays > 0 ? Math.round((baseline.newCards * elapsedDays) / learnDays) : baseline.newCards;
+  const studiedNewCards = Math.max(0, baseline.newCards - newCardsRemaining);
+  const tolerance = Math.max(1, Math.ceil(baseline.newCards / Math.max(1, learnDays) / 2));
+
+  let status: PlanPaceStatus = 'on_track';
+  if (studiedNewCards < expectedNewCards - tolerance) status = 'behind';
+  else if (studiedNewCards > expectedNewCards + tolerance) status = 'ahead';
+
+  return { status, expectedNewCards, studiedNewCards };
+}
+
+/**
+ * Build the day-by-day plan from today to the exam
+ * Each study day gets its due reviews first, then a pending deck quiz if it fits, then an even share of
+ * the remaining new cards in deck order. Learning a card adds its typical follow-up reviews to later days.
+ * The final review days replace new cards with the remaining quizzes and exam simulations.
+ */
+export function buildStudyPlan(inputs: StudyPlanInputs): StudyPlan {
+  const { settings, decks, reviewsByDate, pace, today } = inputs;
+  const studyDates = getStudyDates(settings, today);
+  const learnDayCount = studyDates.length - getFinalReviewDayCount(studyDates.length);
+  const weekdays = new Set(settings.studyDays).size;
+  const dailyMinutes = weekdays > 0 ? Math.round(settings.weeklyMinutes / weekdays) : 0;
+
+  const reviewMinutes = pace.secondsPerCard / 60;
+  const newCardMinutes = (pace.secondsPerCard * STUDY_PLAN_CONFIG.NEW_CARD_TIME_FACTOR) / 60;
+  const quizMinutes = (deck: PlannerDeck) => Math.ceil((deck.quizQuestions * pace.secondsPerQuestion) / 60);
+
+  const deckQueue = decks.filter((deck) => deck.newCards > 0).map((deck) => ({ deck, remaining: deck.newCards }));
+  // Decks already studied through but with a quiz still to pass
+  const quizQueue = decks.filter((deck) => deck.newCards === 0 && deck.quizQuestions > 0 && !deck.quizPassed);
+  const newCardsRemaining = deckQueue.reduce((sum, item) => sum + item.remaining, 0);
+  const followUpReviews: Record<string, number> = {};
+
+  let newCardsLeft = newCardsRemaining;
+  let pendingReviews = Object.entries(reviewsByDate)
+    .filter(([date]) => date < today)
+    .reduce((sum, [, count]) => sum + count, 0);
+  let previousDate = addDays(today, -1);
+  const days: PlanDay[] = [];
+
+  studyDates.forEach((date, index) => {
+    // Reviews falling due on days off wait for the next study day
+    for (let day = addDays(previousDate, 1); day <= date; day = addDays(day, 1)) {
+      pendingReviews += (reviewsByDate[day] ?? 0) + (followUpReviews[day] ?? 0);
+    }
+    previousDate = date;
+
+    const phase: PlanPhase = index < learnDayCount ? 'learn' : 'final_review';
+    const budgetMinutes = Math.max(0, dailyMinutes - (date === today ? Math.round(pace.minutesStudiedToday) : 0));
+    const tasks: PlanTask[] = [];
+    let used = 0;
+    const add = (task: PlanTask) => {
+      tasks.push(task);
+      used += task.minutes;
+    };
+
+    if (pendingReviews > 0) {
+      add({ type: 'review', cards: pendingReviews, minutes: Math.ceil(pendingReviews * reviewMinutes) });
+      pendingReviews = 0;
+    }
+
+    // Final review days always take a quiz; learning days only when it fits next to the reviews
+    while (quizQueue.length > 0) {
+      const minutes = quizMinutes(quizQueue[0]);
+      const isFirstQuiz = !tasks.some((task) => task.type === 'deck_quiz');
+      if (used + minutes > budgetMinutes && !(phase === 'final_review' && isFirstQuiz)) break;
+
+      const deck = quizQueue.shift()!;
+      add({ type: 'deck_quiz', deckId: deck.id, deckName: deck.name, domain: deck.domain, questions: deck.quizQuestions, minutes });
+      if (phase === 'learn') break;
+    }
+
+    if (phase === 'learn') {
+      const target = Math.ceil(newCardsLeft / (learnDayCount - index));
+      let take = Math.min(target, Math.floor(Math.max(0, budgetMinutes - used) / newCardMinutes));
+
+      while (take > 0 && deckQueue.length > 0) {
+        const item = deckQueue[0];
+        const cards = Math.min(take, item.remaining);
+        add({
+          type: 'new_cards',
+          deckId: item.deck.id,
+          deckName: item.deck.name,
+          domain: item.deck.domain,
+          cards,
+          minutes: Math.ceil(cards * newCardMinutes),
+        });
+
+        for (const offset of STUDY_PLAN_CONFIG.NEW_CARD_REVIEW_OFFSETS) {
+          const reviewDate = addDays(date, offset);
+          followUpReviews[reviewDate] = (followUpReviews[reviewDate] ?? 0) + cards;
+        }
+
+        take -= cards;
+        newCardsLeft -= cards;
+        item.remaining -= cards;
+        if (item.remaining === 0) {
+          deckQueue.shift();
+          if (item.deck.quizQuestions > 0 && !item.deck.quizPassed) {
+            quizQueue.push(item.deck);
+          }
+        }
+      }
+    } else if (!tasks.some((task) => task.type === 'deck_quiz')) {
+      add({ type: 'exam_simulation', minutes: STUDY_PLAN_CONFIG.EXAM_SIMULATION_MINUTES });
+    }
+
+    days.push({ date, phase, budgetMinutes, plannedMinutes: used, tasks });
+  });
+
+  return {
+    examDate: settings.examDate,
+    daysUntilExam: Math.max(0, daysBetween(today, settings.examDate)),
+    studyDayCount: studyDates.length,
+    dailyMinutes,
+    newCardsRemaining,
+    newCardsUnscheduled: newCardsLeft,
+    progress: getPlanProgress(settings, inputs.baseline, newCardsRemaining, today),
+    days,
+  };
+}
+
+/**
+ * One-line description of a plan task
+ */
+export function describePlanTask(task: PlanTask): string {
+  switch (task.type) {
+    case 'review':
+      return `Review ${task.cards} due ${task.cards === 1 ? 'card' : 'cards'}`;
+    case 'new_cards':
+      return `Study ${task.cards} new ${task.cards === 1 ? 'card' : 'cards'} in ${task.deckName}`;
+    case 'deck_quiz':
+      return `Take the ${task.deckName} quiz (${task.questions} questions)`;
+    case 'exam_simulation':
+      return 'Take a full CISSP exam simulation';
+  }
+}
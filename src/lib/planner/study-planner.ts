@@ -0,0 +1,220 @@
+/**
+ * Study Planner
+ * Loads the learner's planner settings, remaining cards, scheduled reviews and recent
+ * study and quiz pace, and builds their day-by-day study plan.
+ */
+
+import { db } from '@/lib/db';
+import {
+  classes,
+  decks,
+  deckQuizQuestions,
+  flashcards,
+  quizSessions,
+  studyPlans,
+  studySessions,
+  userCardProgress,
+} from '@/lib/db/schema';
+import { and, asc, count, eq, gte, isNotNull, max, sql, sum } from 'drizzle-orm';
+import { getDeckEntitlement, isDeckLocked } from '@/lib/entitlements';
+import { getLocalDateString, getStartOfLocalDay } from '@/lib/daily-card-limit';
+import { extractDomainFromDeckName } from '@/lib/utils/cissp-domains';
+import {
+  STUDY_PLAN_CONFIG,
+  buildStudyPlan,
+  getStudyPace,
+  type PlannerDeck,
+  type StudyPlan,
+  type StudyPlanSettings,
+} from '@/lib/planner/study-plan';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StudyPlanResult {
+  settings: StudyPlanSettings;
+  plan: StudyPlan;
+}
+
+/**
+ * Published decks the user can open, in course order, with their unstudied cards and quiz status
+ */
+async function loadPlannerDecks(userId: string): Promise<PlannerDeck[]> {
+  const [deckRows, cardCounts, quizCounts, bestScores] = await Promise.all([
+    db
+      .select({ id: decks.id, name: decks.name, domainNumber: decks.domainNumber, isPremium: decks.isPremium })
+      .from(decks)
+      .innerJoin(classes, eq(decks.classId, classes.id))
+      .where(and(eq(decks.isPublished, true), eq(classes.isPublished, true)))
+      .orderBy(asc(classes.order), asc(decks.order)),
+    db
+      .select({ deckId: flashcards.deckId, total: count(), studied: count(userCardProgress.id) })
+      .from(flashcards)
+      .leftJoin(
+        userCardProgress,
+        and(eq(userCardProgress.flashcardId, flashcards.id), eq(userCardProgress.clerkUserId, userId))
+      )
+      .where(eq(flashcards.isPublished, true))
+      .groupBy(flashcards.deckId),
+    db
+      .select({ deckId: deckQuizQuestions.deckId, questions: count() })
+      .from(deckQuizQuestions)
+      .where(eq(deckQuizQuestions.status, 'published'))
+      .groupBy(deckQuizQuestions.deckId),
+    db
+      .select({ deckId: quizSessions.deckId, best: max(quizSessions.scorePercentage) })
+      .from(quizSessions)
+      .where(and(eq(quizSessions.clerkUserId, userId), eq(quizSessions.quizType, 'deck'), isNotNull(quizSessions.endedAt)))
+      .groupBy(quizSessions.deckId),
+  ]);
+
+  const entitlement = await getDeckEntitlement(deckRows);
+  const cardsByDeck = new Map(cardCounts.map((row) => [row.deckId, row]));
+  const questionsByDeck = new Map(quizCounts.map((row) => [row.deckId, row.questions]));
+  const bestByDeck = new Map(bestScores.map((row) => [row.deckId, Number(row.best ?? 0)]));
+
+  return deckRows.flatMap((deck) => {
+    if (isDeckLocked(entitlement, deck.id)) {
+      return [];
+    }
+
+    const cards = cardsByDeck.get(deck.id);
+    const quizQuestions = questionsByDeck.get(deck.id) ?? 0;
+    if (!cards && quizQuestions === 0) {
+      return [];
+    }
+
+    return [
+      {
+        id: deck.id,
+        name: deck.name,
+        domain: deck.domainNumber ?? extractDomainFromDeckName(deck.name),
+        newCards: cards ? cards.total - cards.studied : 0,
+        quizQuestions,
+        quizPassed: (bestByDeck.get(deck.id) ?? 0) >= STUDY_PLAN_CONFIG.QUIZ_PASS_MARK,
+      },
+    ];
+  });
+}
+
+/**
+ * Time spent per card and per quiz question over recent finished sessions, and the minutes already studied today
+ */
+async function loadStudyPace(userId: string, timeZone: string, now: Date) {
+  const windowStart = new Date(now.getTime() - STUDY_PLAN_CONFIG.PACE_WINDOW_DAYS * DAY_MS);
+  const dayStart = getStartOfLocalDay(now, timeZone).toISOString();
+
+  const [[study], [quiz]] = await Promise.all([
+    db
+      .select({
+        seconds: sum(studySessions.studyDuration),
+        cards: sum(studySessions.cardsStudied),
+        todaySeconds: sum(sql`CASE WHEN ${studySessions.startedAt} >= ${dayStart}::timestamp THEN ${studySessions.studyDuration} END`),
+      })
+      .from(studySessions)
+      .where(
+        and(eq(studySessions.clerkUserId, userId), gte(studySessions.startedAt, windowStart), isNotNull(studySessions.endedAt))
+      ),
+    db
+      .select({
+        seconds: sum(quizSessions.quizDuration),
+        questions: sum(quizSessions.totalQuestions),
+        todaySeconds: sum(sql`CASE WHEN ${quizSessions.startedAt} >= ${dayStart}::timestamp THEN ${quizSessions.quizDuration} END`),
+      })
+      .from(quizSessions)
+      .where(
+        and(eq(quizSessions.clerkUserId, userId), gte(quizSessions.startedAt, windowStart), isNotNull(quizSessions.endedAt))
+      ),
+  ]);
+
+  return getStudyPace({
+    studySeconds: Number(study?.seconds ?? 0),
+    cardsStudied: Number(study?.cards ?? 0),
+    quizSeconds: Number(quiz?.seconds ?? 0),
+    questionsAnswered: Number(quiz?.questions ?? 0),
+    minutesStudiedToday: (Number(study?.todaySeconds ?? 0) + Number(quiz?.todaySeconds ?? 0)) / 60,
+  });
+}
+
+/**
+ * Scheduled reviews per local date
+ */
+async function loadReviewsByDate(userId: string, timeZone: string): Promise<Record<string, number>> {
+  const rows = await db
+    .select({ nextReviewDate: userCardProgress.nextReviewDate })
+    .from(userCardProgress)
+    .where(and(eq(userCardProgress.clerkUserId, userId), isNotNull(userCardProgress.nextReviewDate)));
+
+  const reviewsByDate: Record<string, number> = {};
+  for (const row of rows) {
+    const date = getLocalDateString(row.nextReviewDate!, timeZone);
+    reviewsByDate[date] = (reviewsByDate[date] ?? 0) + 1;
+  }
+  return reviewsByDate;
+}
+
+/**
+ * Save the planner settings; the progress baseline restarts from today
+ */
+export async function saveStudyPlanSettings(
+  userId: string,
+  settings: StudyPlanSettings,
+  timeZone: string,
+  now: Date = new Date()
+): Promise<void> {
+  const plannerDecks = await loadPlannerDecks(userId);
+  const values = {
+    ...settings,
+    baselineDate: getLocalDateString(now, timeZone),
+    baselineNewCards: plannerDecks.reduce((sum, deck) => sum + deck.newCards, 0),
+    updatedAt: now,
+  };
+
+  await db
+    .insert(studyPlans)
+    .values({ clerkUserId: userId, ...values })
+    .onConflictDoUpdate({ target: studyPlans.clerkUserId, set: values });
+}
+
+/**
+ * Remove the user's planner settings
+ */
+export async function deleteStudyPlan(userId: string): Promise<void> {
+  await db.delete(studyPlans).where(eq(studyPlans.clerkUserId, userId));
+}
+
+/**
+ * The user's study plan from today, or null before they set an exam date
+ */
+export async function getStudyPlan(
+  userId: string,
+  timeZone: string,
+  now: Date = new Date()
+): Promise<StudyPlanResult | null> {
+  const [row] = await db.select().from(studyPlans).where(eq(studyPlans.clerkUserId, userId)).limit(1);
+  if (!row) {
+    return null;
+  }
+
+  const [plannerDecks, pace, reviewsByDate] = await Promise.all([
+    loadPlannerDecks(userId),
+    loadStudyPace(userId, timeZone, now),
+    loadReviewsByDate(userId, timeZone),
+  ]);
+
+  const settings: StudyPlanSettings = {
+    examDate: row.examDate,
+    weeklyMinutes: row.weeklyMinutes,
+    studyDays: row.studyDays,
+  };
+
+  const plan = buildStudyPlan({
+    settings,
+    baseline: { date: row.baselineDate, newCards: row.baselineNewCards },
+    decks: plannerDecks,
+    reviewsByDate,
+    pace,
+    today: getLocalDateString(now, timeZone),
+  });
+
+  return { settings, plan };
+}
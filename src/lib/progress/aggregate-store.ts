@@ -0,0 +1,321 @@
+/**
+ * Progress Aggregate Store
+ * Keeps deck_progress and class_progress in step with user_card_progress. Card ratings
+ * update the affected rows in the same transaction as the rating; content changes and the
+ * rebuild command recompute them from card progress.
+ */
+
+import { db } from '@/lib/db';
+import { classProgress, deckProgress, decks, flashcards, userCardProgress } from '@/lib/db/schema';
+import { and, count, eq, inArray } from 'drizzle-orm';
+import {
+  applyMasteryChange,
+  computeClassAggregate,
+  computeDeckAggregate,
+  type CardProgressRow,
+  type ClassAggregate,
+  type ClassDeck,
+  type DeckAggregate,
+  type MasteryStatus,
+} from './aggregates';
+
+type Executor = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface CardProgressChange {
+  userId: string;
+  flashcardId: string;
+  previousStatus: MasteryStatus | null; // null when the card is studied for the first time
+  nextStatus: MasteryStatus;
+  studiedAt: Date;
+}
+
+export interface RebuildScope {
+  userId?: string;
+  deckId?: string;
+  classId?: string;
+}
+
+export interface RebuildResult {
+  decks: number;
+  deckRows: number;
+  classRows: number;
+}
+
+const INSERT_BATCH_SIZE = 500;
+
+function toDeckAggregate(row: typeof deckProgress.$inferSelect): DeckAggregate {
+  return {
+    cardsNew: row.cardsNew ?? 0,
+    cardsLearning: row.cardsLearning ?? 0,
+    cardsMastered: row.cardsMastered ?? 0,
+    masteryPercentage: parseFloat(row.masteryPercentage ?? '0'),
+    lastStudied: row.lastStudied,
+  };
+}
+
+function toClassAggregate(row: typeof classProgress.$inferSelect): ClassAggregate {
+  return {
+    totalDecks: row.totalDecks ?? 0,
+    decksStarted: row.decksStarted ?? 0,
+    decksCompleted: row.decksCompleted ?? 0,
+    cardsStudied: row.cardsStudied ?? 0,
+    overallMasteryPercentage: parseFloat(row.overallMasteryPercentage ?? '0'),
+    lastStudied: row.lastStudied,
+  };
+}
+
+function toDeckColumns(aggregate: DeckAggregate) {
+  return { ...aggregate, masteryPercentage: aggregate.masteryPercentage.toFixed(2) };
+}
+
+function toClassColumns(aggregate: ClassAggregate) {
+  return { ...aggregate, overallMasteryPercentage: aggregate.overallMasteryPercentage.toFixed(2) };
+}
+
+function groupByUser<T extends { clerkUserId: string }>(rows: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const group = groups.get(row.clerkUserId) ?? [];
+    group.push(row);
+    groups.set(row.clerkUserId, group);
+  }
+  return groups;
+}
+
+async function insertInBatches<T>(rows: T[], insert: (batch: T[]) => Promise<unknown>) {
+  for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+    await insert(rows.slice(start, start + INSERT_BATCH_SIZE));
+  }
+}
+
+async function getPublishedCardCount(tx: Executor, deckId: string): Promise<number> {
+  const [row] = await tx
+    .select({ total: count() })
+    .from(flashcards)
+    .where(and(eq(flashcards.deckId, deckId), eq(flashcards.isPublished, true)));
+  return row?.total ?? 0;
+}
+
+/**
+ * Published decks of a class with their published card counts
+ */
+async function getClassDecks(tx: Executor, classId: string): Promise<ClassDeck[]> {
+  return tx
+    .select({ deckId: decks.id, totalCards: count(flashcards.id) })
+    .from(decks)
+    .leftJoin(flashcards, and(eq(flashcards.deckId, decks.id), eq(flashcards.isPublished, true)))
+    .where(and(eq(decks.classId, classId), eq(decks.isPublished, true)))
+    .groupBy(decks.id);
+}
+
+/**
+ * Progress on a deck's published cards, for one learner or all of them
+ */
+async function getDeckCardProgress(
+  tx: Executor,
+  deckId: string,
+  userId?: string
+): Promise<Array<CardProgressRow & { clerkUserId: string }>> {
+  return tx
+    .select({
+      clerkUserId: userCardProgress.clerkUserId,
+      masteryStatus: userCardProgress.masteryStatus,
+      lastSeen: userCardProgress.lastSeen,
+    })
+    .from(userCardProgress)
+    .innerJoin(flashcards, eq(userCardProgress.flashcardId, flashcards.id))
+    .where(
+      and(
+        eq(flashcards.deckId, deckId),
+        eq(flashcards.isPublished, true),
+        userId ? eq(userCardProgress.clerkUserId, userId) : undefined
+      )
+    );
+}
+
+/**
+ * Recompute a learner's class row from their deck rows
+ */
+async function refreshClassAggregate(tx: Executor, userId: string, classId: string, now: Date) {
+  const classDecks = await getClassDecks(tx, classId);
+  const deckRows = classDecks.length > 0
+    ? await tx
+        .select()
+        .from(deckProgress)
+        .where(
+          and(
+            eq(deckProgress.clerkUserId, userId),
+            inArray(deckProgress.deckId, classDecks.map((deck) => deck.deckId))
+          )
+        )
+    : [];
+
+  if (deckRows.length === 0) {
+    await tx.delete(classProgress).where(and(eq(classProgress.clerkUserId, userId), eq(classProgress.classId, classId)));
+    return;
+  }
+
+  const aggregate = computeClassAggregate(classDecks, new Map(deckRows.map((row) => [row.deckId, toDeckAggregate(row)])));
+
+  await tx
+    .insert(classProgress)
+    .values({ clerkUserId: userId, classId, ...toClassColumns(aggregate) })
+    .onConflictDoUpdate({
+      target: [classProgress.clerkUserId, classProgress.classId],
+      set: { ...toClassColumns(aggregate), updatedAt: now },
+    });
+}
+
+/**
+ * Move one card between mastery buckets in the learner's deck and class rows
+ * Call inside the transaction that writes the card progress, after writing it
+ */
+export async function recordCardProgressChange(tx: Executor, change: CardProgressChange): Promise<void> {
+  const [card] = await tx
+    .select({ deckId: flashcards.deckId, isPublished: flashcards.isPublished, classId: decks.classId })
+    .from(flashcards)
+    .innerJoin(decks, eq(flashcards.deckId, decks.id))
+    .where(eq(flashcards.id, change.flashcardId))
+    .limit(1);
+
+  // Aggregates only count published cards
+  if (!card || !card.isPublished) {
+    return;
+  }
+
+  const totalCards = await getPublishedCardCount(tx, card.deckId);
+
+  // The first rating in a deck creates the row from all progress so far; a concurrent one waits for it
+  const [created] = await tx
+    .insert(deckProgress)
+    .values({ clerkUserId: change.userId, deckId: card.deckId })
+    .onConflictDoNothing()
+    .returning({ id: deckProgress.id });
+
+  let aggregate: DeckAggregate;
+  if (created) {
+    aggregate = computeDeckAggregate(await getDeckCardProgress(tx, card.deckId, change.userId), totalCards);
+  } else {
+    const [current] = await tx
+      .select()
+      .from(deckProgress)
+      .where(and(eq(deckProgress.clerkUserId, change.userId), eq(deckProgress.deckId, card.deckId)))
+      .for('update');
+    aggregate = applyMasteryChange(toDeckAggregate(current), change.previousStatus, change.nextStatus, totalCards, change.studiedAt);
+  }
+
+  await tx
+    .update(deckProgress)
+    .set({ ...toDeckColumns(aggregate), updatedAt: change.studiedAt })
+    .where(and(eq(deckProgress.clerkUserId, change.userId), eq(deckProgress.deckId, card.deckId)));
+
+  await refreshClassAggregate(tx, change.userId, card.classId, change.studiedAt);
+}
+
+async function rebuildDeck(tx: Executor, deckId: string, userId: string | undefined, now: Date): Promise<number> {
+  const totalCards = await getPublishedCardCount(tx, deckId);
+  const byUser = groupByUser(await getDeckCardProgress(tx, deckId, userId));
+
+  await tx
+    .delete(deckProgress)
+    .where(and(eq(deckProgress.deckId, deckId), userId ? eq(deckProgress.clerkUserId, userId) : undefined));
+
+  const rows = [...byUser].map(([clerkUserId, progress]) => ({
+    clerkUserId,
+    deckId,
+    ...toDeckColumns(computeDeckAggregate(progress, totalCards)),
+    updatedAt: now,
+  }));
+  await insertInBatches(rows, (batch) => tx.insert(deckProgress).values(batch));
+  return rows.length;
+}
+
+async function rebuildClass(tx: Executor, classId: string, userId: string | undefined, now: Date): Promise<number> {
+  const classDecks = await getClassDecks(tx, classId);
+  const deckRows = classDecks.length > 0
+    ? await tx
+        .select()
+        .from(deckProgress)
+        .where(
+          and(
+            inArray(deckProgress.deckId, classDecks.map((deck) => deck.deckId)),
+            userId ? eq(deckProgress.clerkUserId, userId) : undefined
+          )
+        )
+    : [];
+
+  await tx
+    .delete(classProgress)
+    .where(and(eq(classProgress.classId, classId), userId ? eq(classProgress.clerkUserId, userId) : undefined));
+
+  const rows = [...groupByUser(deckRows)].map(([clerkUserId, userDecks]) => {
+    const aggregate = computeClassAggregate(classDecks, new Map(userDecks.map((row) => [row.deckId, toDeckAggregate(row)])));
+    return { clerkUserId, classId, ...toClassColumns(aggregate), updatedAt: now };
+  });
+  await insertInBatches(rows, (batch) => tx.insert(classProgress).values(batch));
+  return rows.length;
+}
+
+/**
+ * Recompute the aggregates from card progress, for everything or only a learner, deck or class
+ * Each deck and class is rebuilt in its own transaction so a full rebuild never holds long locks
+ */
+export async function rebuildProgressAggregates(scope: RebuildScope = {}, now: Date = new Date()): Promise<RebuildResult> {
+  const scopedDecks = await db
+    .select({ id: decks.id, classId: decks.classId })
+    .from(decks)
+    .where(
+      and(
+        scope.deckId ? eq(decks.id, scope.deckId) : undefined,
+        scope.classId ? eq(decks.classId, scope.classId) : undefined
+      )
+    );
+
+  const result: RebuildResult = { decks: scopedDecks.length, deckRows: 0, classRows: 0 };
+
+  for (const deck of scopedDecks) {
+    result.deckRows += await db.transaction((tx) => rebuildDeck(tx, deck.id, scope.userId, now));
+  }
+
+  // A class left without decks still has its rows cleared
+  const classIds = new Set(scopedDecks.map((deck) => deck.classId));
+  if (scope.classId) {
+    classIds.add(scope.classId);
+  }
+  for (const classId of classIds) {
+    result.classRows += await db.transaction((tx) => rebuildClass(tx, classId, scope.userId, now));
+  }
+
+  return result;
+}
+
+/**
+ * Recompute every learner's class row from their deck rows, after decks are published, hidden or removed
+ */
+export async function rebuildClassAggregates(classId: string, now: Date = new Date()): Promise<number> {
+  return db.transaction((tx) => rebuildClass(tx, classId, undefined, now));
+}
+
+/**
+ * A learner's deck aggregates, keyed by deck; decks never studied are missing
+ */
+export async function getDeckAggregates(userId: string, deckIds: string[]): Promise<Map<string, DeckAggregate>> {
+  if (deckIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .select()
+    .from(deckProgress)
+    .where(and(eq(deckProgress.clerkUserId, userId), inArray(deckProgress.deckId, deckIds)));
+
+  return new Map(rows.map((row) => [row.deckId, toDeckAggregate(row)]));
+}
+
+/**
+ * A learner's class aggregates, keyed by class; classes never studied are missing
+ */
+export async function getClassAggregates(userId: string): Promise<Map<string, ClassAggregate>> {
+  const rows = await db.select().from(classProgress).where(eq(classProgress.clerkUserId, userId));
+  return new Map(rows.map((row) => [row.classId, toClassAggregate(row)]));
+}
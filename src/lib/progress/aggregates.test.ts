@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_DECK_AGGREGATE,
+  applyMasteryChange,
+  computeClassAggregate,
+  computeDeckAggregate,
+  getMasteryPercentage,
+  type CardProgressRow,
+  type ClassDeck,
+  type DeckAggregate,
+  type MasteryStatus,
+} from './aggregates';
+
+const STATUSES: MasteryStatus[] = ['new', 'learning', 'mastered'];
+const DECKS: ClassDeck[] = [
+  { deckId: 'd1', totalCards: 12 },
+  { deckId: 'd2', totalCards: 7 },
+  { deckId: 'd3', totalCards: 0 },
+];
+
+/**
+ * Deterministic pseudo-random numbers so a failing sequence can be replayed
+ */
+function random(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return state / 2 ** 31;
+  };
+}
+
+/**
+ * Rate random cards in random decks, keeping the aggregates up to date one rating at a time
+ */
+function simulateRatings(seed: number, ratings: number) {
+  const next = random(seed);
+  const cards = new Map<string, CardProgressRow & { deckId: string }>();
+  const incremental = new Map<string, DeckAggregate>();
+  const studyDecks = DECKS.filter((deck) => deck.totalCards > 0);
+
+  for (let i = 0; i < ratings; i++) {
+    const deck = studyDecks[Math.floor(next() * studyDecks.length)];
+    const cardId = `${deck.deckId}-${Math.floor(next() * deck.totalCards)}`;
+    const status = STATUSES[Math.floor(next() * STATUSES.length)];
+    const studiedAt = new Date(Date.UTC(2026, 2, 1) + i * 60_000);
+
+    const previous = cards.get(cardId);
+    cards.set(cardId, { deckId: deck.deckId, masteryStatus: status, lastSeen: studiedAt });
+    incremental.set(
+      deck.deckId,
+      applyMasteryChange(
+        incremental.get(deck.deckId) ?? EMPTY_DECK_AGGREGATE,
+        previous?.masteryStatus ?? null,
+        status,
+        deck.totalCards,
+        studiedAt
+      )
+    );
+  }
+
+  return { cards: [...cards.values()], incremental };
+}
+
+function recompute(cards: Array<CardProgressRow & { deckId: string }>): Map<string, DeckAggregate> {
+  return new Map(
+    DECKS.filter((deck) => cards.some((card) => card.deckId === deck.deckId)).map((deck) => [
+      deck.deckId,
+      computeDeckAggregate(cards.filter((card) => card.deckId === deck.deckId), deck.totalCards),
+    ])
+  );
+}
+
+describe('deck aggregates', () => {
+  it.each([1, 7, 42, 2026])('match a full recompute after many ratings (seed %i)', (seed) => {
+    const { cards, incremental } = simulateRatings(seed, 200);
+
+    expect(incremental).toEqual(recompute(cards));
+  });
+
+  it('moves a card between buckets without counting it twice', () => {
+    const first = applyMasteryChange(EMPTY_DECK_AGGREGATE, null, 'learning', 4, new Date('2026-03-01T10:00:00Z'));
+    const second = applyMasteryChange(first, 'learning', 'mastered', 4, new Date('2026-03-02T10:00:00Z'));
+
+    expect(second).toEqual({
+      cardsNew: 0,
+      cardsLearning: 0,
+      cardsMastered: 1,
+      masteryPercentage: 25,
+      lastStudied: new Date('2026-03-02T10:00:00Z'),
+    });
+  });
+
+  it('rounds the mastery share to two decimals and has none for an empty deck', () => {
+    expect(getMasteryPercentage(1, 3)).toBe(33.33);
+    expect(getMasteryPercentage(2, 0)).toBe(0);
+  });
+});
+
+describe('class aggregates', () => {
+  it('match a recompute from card progress when built from incremental deck rows', () => {
+    const { cards, incremental } = simulateRatings(99, 300);
+
+    expect(computeClassAggregate(DECKS, incremental)).toEqual(computeClassAggregate(DECKS, recompute(cards)));
+  });
+
+  it('counts started and completed decks over the published cards', () => {
+    const cards: Array<CardProgressRow & { deckId: string }> = [
+      ...Array.from({ length: 7 }, () => ({ deckId: 'd2', masteryStatus: 'mastered' as const, lastSeen: null })),
+      { deckId: 'd1', masteryStatus: 'new', lastSeen: new Date('2026-03-05T00:00:00Z') },
+    ];
+
+    expect(computeClassAggregate(DECKS, recompute(cards))).toEqual({
+      totalDecks: 3,
+      decksStarted: 2,
+      decksCompleted: 1,
+      cardsStudied: 8,
+      overallMasteryPercentage: getMasteryPercentage(7, 19),
+      lastStudied: new Date('2026-03-05T00:00:00Z'),
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Progress Aggregates
+ * Per-deck and per-class rollups of a learner's card progress. A rating moves one card
+ * between mastery buckets, so the deck row is updated by that change alone and the class
+ * row is summed from its deck rows; a full recompute from card progress gives the same result.
+ */
+
+export type MasteryStatus = 'new' | 'learning' | 'mastered';
+
+export interface CardProgressRow {
+  masteryStatus: MasteryStatus;
+  lastSeen: Date | null;
+}
+
+export interface DeckAggregate {
+  cardsNew: number;
+  cardsLearning: number;
+  cardsMastered: number;
+  masteryPercentage: number; // Mastered share of the deck's published cards
+  lastStudied: Date | null;
+}
+
+export interface ClassDeck {
+  deckId: string;
+  totalCards: number; // Published cards
+}
+
+export interface ClassAggregate {
+  totalDecks: number;
+  decksStarted: number;
+  decksCompleted: number; // Every card studied at least once
+  cardsStudied: number;
+  overallMasteryPercentage: number; // Mastered share of the class's published cards
+  lastStudied: Date | null;
+}
+
+const BUCKETS: Record<MasteryStatus, keyof Pick<DeckAggregate, 'cardsNew' | 'cardsLearning' | 'cardsMastered'>> = {
+  new: 'cardsNew',
+  learning: 'cardsLearning',
+  mastered: 'cardsMastered',
+};
+
+export const EMPTY_DECK_AGGREGATE: DeckAggregate = {
+  cardsNew: 0,
+  cardsLearning: 0,
+  cardsMastered: 0,
+  masteryPercentage: 0,
+  lastStudied: null,
+};
+
+function latest(a: Date | null, b: Date | null): Date | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+/**
+ * Share of cards as a percentage with two decimals, as stored in the decimal columns
+ */
+export function getMasteryPercentage(mastered: number, totalCards: number): number {
+  if (totalCards <= 0) {
+    return 0;
+  }
+  return Math.min(100, Math.round((mastered / totalCards) * 10000) / 100);
+}
+
+export function getCardsStudied(deck: Pick<DeckAggregate, 'cardsNew' | 'cardsLearning' | 'cardsMastered'>): number {
+  return deck.cardsNew + deck.cardsLearning + deck.cardsMastered;
+}
+
+/**
+ * Deck aggregate from all of a learner's progress on the deck's published cards
+ */
+export function computeDeckAggregate(rows: CardProgressRow[], totalCards: number): DeckAggregate {
+  const aggregate = { ...EMPTY_DECK_AGGREGATE };
+  for (const row of rows) {
+    aggregate[BUCKETS[row.masteryStatus]] += 1;
+    aggregate.lastStudied = latest(aggregate.lastStudied, row.lastSeen);
+  }
+  aggregate.masteryPercentage = getMasteryPercentage(aggregate.cardsMastered, totalCards);
+  return aggregate;
+}
+
+/**
+ * Deck aggregate after one card moves from its previous mastery status (null when first studied)
+ */
+export function applyMasteryChange(
+  current: DeckAggregate,
+  previousStatus: MasteryStatus | null,
+  nextStatus: MasteryStatus,
+  totalCards: number,
+  studiedAt: Date
+): DeckAggregate {
+  const next = { ...current, lastStudied: latest(current.lastStudied, studiedAt) };
+  if (previousStatus) {
+    next[BUCKETS[previousStatus]] = Math.max(0, next[BUCKETS[previousStatus]] - 1);
+  }
+  next[BUCKETS[nextStatus]] += 1;
+  next.masteryPercentage = getMasteryPercentage(next.cardsMastered, totalCards);
+  return next;
+}
+
+/**
+ * Class aggregate from the learner's deck aggregates over the class's published decks
+ */
+export function computeClassAggregate(decks: ClassDeck[], deckAggregates: Map<string, DeckAggregate>): ClassAggregate {
+  const aggregate: ClassAggregate = {
+    totalDecks: decks.length,
+    decksStarted: 0,
+    decksCompleted: 0,
+    cardsStudied: 0,
+    overallMasteryPercentage: 0,
+    lastStudied: null,
+  };
+  let totalCards = 0;
+  let cardsMastered = 0;
+
+  for (const deck of decks) {
+    totalCards += deck.totalCards;
+    const progress = deckAggregates.get(deck.deckId);
+    if (!progress) continue;
+
+    const studied = getCardsStudied(progress);
+    if (studied > 0) aggregate.decksStarted += 1;
+    if (deck.totalCards > 0 && studied >= deck.totalCards) aggregate.decksCompleted += 1;
+    aggregate.cardsStudied += studied;
+    cardsMastered += progress.cardsMastered;
+    aggregate.lastStudied = latest(aggregate.lastStudied, progress.lastStudied);
+  }
+
+  aggregate.overallMasteryPercentage = getMasteryPercentage(cardsMastered, totalCards);
+  return aggregate;
+}
@@ -0,0 +1,98 @@
+/**
+ * Card Ratings
+ * Saves a confidence rating to the user's card progress: the scheduler sets the next review,
+ * and the deck and class aggregates move in the same transaction.
+ */
+
+import { db } from '@/lib/db';
+import { userCardProgress } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { scheduleReview, getSchedulingState, toProgressColumns } from '@/lib/spaced-repetition/scheduler';
+import { recordCardProgressChange } from './aggregate-store';
+
+type CardProgress = typeof userCardProgress.$inferSelect;
+
+/**
+ * Calculate mastery status based on confidence level
+ */
+export function calculateMasteryStatus(confidenceLevel: number): 'new' | 'learning' | 'mastered' {
+  if (confidenceLevel >= 4) return 'mastered';
+  if (confidenceLevel >= 3) return 'learning';
+  return 'new';
+}
+
+/**
+ * Save a rating (1-5) of a card, returning its progress before and after
+ */
+export async function saveCardRating(
+  userId: string,
+  flashcardId: string,
+  confidenceLevel: number,
+  now: Date = new Date()
+): Promise<{ progress: CardProgress; existingProgress: CardProgress | undefined }> {
+  const masteryStatus = calculateMasteryStatus(confidenceLevel);
+
+  return db.transaction(async (tx) => {
+    // Lock the card's progress so concurrent ratings move it between buckets one at a time
+    const [existingProgress] = await tx
+      .select()
+      .from(userCardProgress)
+      .where(
+        and(
+          eq(userCardProgress.clerkUserId, userId),
+          eq(userCardProgress.flashcardId, flashcardId)
+        )
+      )
+      .limit(1)
+      .for('update');
+
+    // Grow the review interval from the card's scheduling state
+    const review = scheduleReview(
+      existingProgress ? getSchedulingState(existingProgress) : null,
+      confidenceLevel,
+      now,
+      existingProgress?.lastSeen ?? null
+    );
+    const schedule = toProgressColumns(review);
+
+    let progress: CardProgress;
+
+    if (existingProgress) {
+      [progress] = await tx
+        .update(userCardProgress)
+        .set({
+          confidenceLevel,
+          timesSeen: (existingProgress.timesSeen || 0) + 1,
+          lastSeen: now,
+          ...schedule,
+          masteryStatus,
+          updatedAt: now,
+        })
+        .where(eq(userCardProgress.id, existingProgress.id))
+        .returning();
+    } else {
+      [progress] = await tx
+        .insert(userCardProgress)
+        .values({
+          clerkUserId: userId,
+          flashcardId,
+          confidenceLevel,
+          timesSeen: 1,
+          lastSeen: now,
+          ...schedule,
+          masteryStatus,
+        })
+        .returning();
+    }
+
+    await recordCardProgressChange(tx, {
+      userId,
+      flashcardId,
+      previousStatus: existingProgress?.masteryStatus ?? null,
+      nextStatus: masteryStatus,
+      studiedAt: now,
+    });
+
+    return { progress, existingProgress };
+  });
+}
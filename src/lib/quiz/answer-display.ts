@@ -0,0 +1,71 @@
+/**
+ * Answer Display
+ * Helpers for showing a recorded quiz answer next to the revealed answer key.
+ */
+
+import type { PublicQuizOption, PublicQuizQuestionFields, QuizAnswerReveal } from '@/lib/quiz/grading';
+import type { QuizQuestionContent, QuizResponse } from '@/lib/quiz/question-types';
+
+/**
+ * Merge the revealed answer key into a public question for the response renderers
+ */
+export function toRevealedQuestionContent(
+  question: PublicQuizQuestionFields,
+  reveal: QuizAnswerReveal | null
+): QuizQuestionContent {
+  return {
+    questionType: question.questionType,
+    imageUrl: question.imageUrl,
+    matchChoices: question.matchChoices,
+    options: question.options.map((option) => ({
+      ...option,
+      isCorrect: reveal ? reveal.correctOptionIds.includes(option.id) : undefined,
+    })),
+    correctOrder: reveal?.questionType === 'ordering' ? reveal.correctOptionIds : undefined,
+    correctMatches: reveal?.correctMatches,
+    hotspotRegions: reveal?.hotspotRegions,
+  };
+}
+
+/**
+ * Put a recorded response into words
+ */
+export function describeQuizResponse(options: PublicQuizOption[], response: QuizResponse | null): string {
+  if (!response) {
+    return 'Not recorded';
+  }
+
+  const optionText = (id: string) => options.find((option) => option.id === id)?.text ?? 'Unknown option';
+
+  switch (response.type) {
+    case 'single_choice':
+      return optionText(response.optionId);
+    case 'multi_select':
+      return response.optionIds.map(optionText).join(', ');
+    case 'ordering':
+      return response.optionIds.map(optionText).join(' → ');
+    case 'matching':
+      return Object.entries(response.matches)
+        .map(([id, match]) => `${optionText(id)} → ${match}`)
+        .join('; ');
+    case 'hotspot':
+      return `Clicked the diagram at ${Math.round(response.point.x)}%, ${Math.round(response.point.y)}%`;
+  }
+}
+
+/**
+ * Put the revealed answer key into words; null for hotspot questions, whose answer is only shown on the image
+ */
+export function describeCorrectAnswer(options: PublicQuizOption[], reveal: QuizAnswerReveal): string | null {
+  switch (reveal.questionType) {
+    case 'single_choice':
+    case 'multi_select':
+      return describeQuizResponse(options, { type: 'multi_select', optionIds: reveal.correctOptionIds });
+    case 'ordering':
+      return describeQuizResponse(options, { type: 'ordering', optionIds: reveal.correctOptionIds });
+    case 'matching':
+      return describeQuizResponse(options, { type: 'matching', matches: reveal.correctMatches ?? {} });
+    case 'hotspot':
+      return null;
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CAT_EXAM_CONFIG,
+  buildExamResult,
+  estimateAbility,
+  getExamStopReason,
+  pickNextDomain,
+  selectNextItem,
+  type ExamAnswer,
+} from './cat-exam';
+
+function answers(count: number, isCorrect: (i: number) => boolean, domain = 1): ExamAnswer[] {
+  return Array.from({ length: count }, (_, i) => ({
+    questionId: `q${i}`,
+    domain,
+    difficulty: 3,
+    isCorrect: isCorrect(i),
+  }));
+}
+
+describe('estimateAbility', () => {
+  it('rises with correct answers and narrows with more items', () => {
+    const few = estimateAbility(answers(10, (i) => i < 8));
+    const many = estimateAbility(answers(100, (i) => i % 10 < 8));
+    const weak = estimateAbility(answers(100, (i) => i % 10 < 4));
+
+    expect(few.ability).toBeGreaterThan(0);
+    expect(many.standardError).toBeLessThan(few.standardError);
+    expect(weak.ability).toBeLessThan(many.ability);
+  });
+
+  it('stays finite when every answer is correct', () => {
+    const { ability, standardError } = estimateAbility(answers(20, () => true));
+
+    expect(Number.isFinite(ability)).toBe(true);
+    expect(standardError).toBeGreaterThan(0);
+  });
+});
+
+describe('item selection', () => {
+  it('starts with the heaviest domain and then follows the official weights', () => {
+    const all = new Set([1, 2, 3, 4, 5, 6, 7, 8]);
+
+    expect(pickNextDomain([], all)).toBe(1);
+    expect(pickNextDomain([{ domain: 1 }], all)).not.toBe(1);
+    expect(pickNextDomain([], new Set([2, 8]))).toBe(2);
+  });
+
+  it('picks an unused item close to the current ability', () => {
+    const pool = [
+      { id: 'easy', domain: 1, difficulty: 1 },
+      { id: 'medium', domain: 1, difficulty: 3 },
+      { id: 'hard', domain: 1, difficulty: 5 },
+      { id: 'other-domain', domain: 2, difficulty: 3 },
+    ];
+
+    expect(selectNextItem(pool, [], () => 0)?.id).toBe('medium');
+    expect(
+      selectNextItem(pool, [{ questionId: 'medium', domain: 1, difficulty: 3, isCorrect: true }], () => 0)?.id
+    ).toBe('other-domain');
+    expect(selectNextItem([], [])).toBeNull();
+  });
+});
+
+describe('getExamStopReason', () => {
+  it('keeps going before the minimum number of items', () => {
+    expect(getExamStopReason(answers(50, () => true), 100, 600)).toBeNull();
+  });
+
+  it('stops on time, item count, an empty pool or a clear result', () => {
+    const { MIN_ITEMS, MAX_ITEMS, TIME_LIMIT_SECONDS } = CAT_EXAM_CONFIG;
+
+    expect(getExamStopReason(answers(10, () => true), 100, TIME_LIMIT_SECONDS)).toBe('time');
+    expect(getExamStopReason(answers(MAX_ITEMS, (i) => i % 2 === 0), 100, 600)).toBe('max_items');
+    expect(getExamStopReason(answers(10, () => true), 0, 600)).toBe('pool_exhausted');
+    expect(getExamStopReason(answers(MIN_ITEMS, (i) => i % 10 < 9), 100, 600)).toBe('confidence');
+  });
+});
+
+describe('buildExamResult', () => {
+  it('estimates a pass and reports untested domains', () => {
+    const result = buildExamResult(answers(100, (i) => i % 10 < 9), 'confidence');
+
+    expect(result.passed).toBe(true);
+    expect(result.scaledScore).toBeGreaterThan(700);
+    expect(result.correctAnswers).toBe(90);
+    expect(result.domains[0]).toMatchObject({ domain: 1, answered: 100, correct: 90, proficiency: 'above' });
+    expect(result.domains[1]).toMatchObject({ domain: 2, answered: 0, proficiency: null });
+  });
+
+  it('fails a candidate who runs out of time before the minimum', () => {
+    const result = buildExamResult(answers(60, () => true), 'time');
+
+    expect(result.passed).toBe(false);
+    expect(result.passProbability).toBe(0);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * CAT Exam Simulator
+ * Computerized adaptive delivery of a full CISSP exam: domain-weighted item selection,
+ * Rasch ability estimation from item difficulty, stopping rules and the score report.
+ */
+
+import { CISSP_DOMAINS } from '@/lib/utils/cissp-domains';
+
+export const CAT_EXAM_CONFIG = {
+  MIN_ITEMS: 100,
+  MAX_ITEMS: 150,
+  TIME_LIMIT_SECONDS: 3 * 60 * 60, // 3 hours
+  DEFAULT_DIFFICULTY: 3, // Used for items without a 1-5 difficulty
+  PASSING_ABILITY: 0.85, // A candidate at the cut answers ~70% of difficulty 3 items correctly
+  CONFIDENCE_Z: 1.96, // Stop once the 95% interval is clear of the cut
+  CANDIDATE_ITEMS: 5, // Pick randomly among the closest items so the same ones are not always shown
+  SCALED_PASSING_SCORE: 700,
+};
+
+export type ExamStopReason = 'confidence' | 'max_items' | 'pool_exhausted' | 'time';
+export type DomainProficiency = 'above' | 'near' | 'below';
+
+export interface ExamPoolItem {
+  id: string;
+  domain: number; // CISSP domain 1-8
+  difficulty: number | null;
+}
+
+export interface ExamAnswer {
+  questionId: string;
+  domain: number;
+  difficulty: number | null;
+  isCorrect: boolean;
+}
+
+export interface AbilityEstimate {
+  ability: number; // Logit scale
+  standardError: number;
+}
+
+export interface ExamDomainReport {
+  domain: number;
+  name: string;
+  weight: number; // Official exam weight in percent
+  answered: number;
+  correct: number;
+  proficiency: DomainProficiency | null; // null when no items from the domain were answered
+}
+
+export interface ExamResult {
+  passed: boolean;
+  passProbability: number; // 0-1
+  scaledScore: number; // 0-1000, passing at 700
+  ability: number;
+  standardError: number;
+  totalAnswered: number;
+  correctAnswers: number;
+  stopReason: ExamStopReason;
+  domains: ExamDomainReport[];
+}
+
+// Ability grid for the posterior, -4 to 4 logits
+const ABILITY_GRID = Array.from({ length: 81 }, (_, i) => -4 + i * 0.1);
+
+/**
+ * Map a 1-5 item difficulty onto the logit scale (3 = 0)
+ */
+export function getItemDifficulty(difficulty: number | null): number {
+  const level = difficulty ?? CAT_EXAM_CONFIG.DEFAULT_DIFFICULTY;
+  return Math.min(5, Math.max(1, level)) - 3;
+}
+
+function probabilityCorrect(ability: number, itemDifficulty: number): number {
+  return 1 / (1 + Math.exp(itemDifficulty - ability));
+}
+
+/**
+ * Expected a posteriori ability estimate with a standard normal prior
+ * The prior keeps the estimate finite when every answer is right (or wrong)
+ */
+export function estimateAbility(answers: Array<Pick<ExamAnswer, 'difficulty' | 'isCorrect'>>): AbilityEstimate {
+  const weights = ABILITY_GRID.map((ability) => {
+    let logLikelihood = -(ability * ability) / 2;
+    for (const answer of answers) {
+      const p = probabilityCorrect(ability, getItemDifficulty(answer.difficulty));
+      logLikelihood += Math.log(answer.isCorrect ? p : 1 - p);
+    }
+    return logLikelihood;
+  });
+
+  const maxWeight = Math.max(...weights);
+  const posterior = weights.map((weight) => Math.exp(weight - maxWeight));
+  const total = posterior.reduce((sum, weight) => sum + weight, 0);
+
+  const ability = ABILITY_GRID.reduce((sum, theta, i) => sum + theta * posterior[i], 0) / total;
+  const variance = ABILITY_GRID.reduce((sum, theta, i) => sum + (theta - ability) ** 2 * posterior[i], 0) / total;
+
+  return { ability, standardError: Math.sqrt(variance) };
+}
+
+/**
+ * Domain that is furthest behind its official share of the items delivered so far
+ * Only domains that still have unused items are considered
+ */
+export function pickNextDomain(
+  answers: Array<Pick<ExamAnswer, 'domain'>>,
+  availableDomains: Set<number>
+): number | null {
+  const nextItemCount = answers.length + 1;
+  let best: { domain: number; deficit: number } | null = null;
+
+  for (const { domain, weight } of CISSP_DOMAINS) {
+    if (!availableDomains.has(domain)) continue;
+
+    const delivered = answers.filter((answer) => answer.domain === domain).length;
+    const deficit = (weight / 100) * nextItemCount - delivered;
+
+    if (!best || deficit > best.deficit) {
+      best = { domain, deficit };
+    }
+  }
+
+  return best?.domain ?? null;
+}
+
+/**
+ * Choose the next item: the domain most behind its weight, then an unused item
+ * whose difficulty is close to the current ability estimate
+ *
+ * @param random - Source of randomness (injectable for tests)
+ */
+export function selectNextItem(
+  pool: ExamPoolItem[],
+  answers: ExamAnswer[],
+  random: () => number = Math.random
+): ExamPoolItem | null {
+  const used = new Set(answers.map((answer) => answer.questionId));
+  const unused = pool.filter((item) => !used.has(item.id));
+
+  const domain = pickNextDomain(answers, new Set(unused.map((item) => item.domain)));
+  if (domain === null) {
+    return null;
+  }
+
+  const { ability } = estimateAbility(answers);
+  const candidates = unused
+    .filter((item) => item.domain === domain)
+    .sort(
+      (a, b) =>
+        Math.abs(getItemDifficulty(a.difficulty) - ability) -
+        Math.abs(getItemDifficulty(b.difficulty) - ability)
+    )
+    .slice(0, CAT_EXAM_CONFIG.CANDIDATE_ITEMS);
+
+  return candidates[Math.floor(random() * candidates.length)];
+}
+
+/**
+ * Decide whether the exam is over after the answers so far
+ * Returns null while more items should be delivered
+ */
+export function getExamStopReason(
+  answers: ExamAnswer[],
+  remainingItems: number,
+  elapsedSeconds: number
+): ExamStopReason | null {
+  if (elapsedSeconds >= CAT_EXAM_CONFIG.TIME_LIMIT_SECONDS) return 'time';
+  if (answers.length >= CAT_EXAM_CONFIG.MAX_ITEMS) return 'max_items';
+  if (remainingItems === 0) return 'pool_exhausted';
+
+  if (answers.length >= CAT_EXAM_CONFIG.MIN_ITEMS) {
+    const { ability, standardError } = estimateAbility(answers);
+    if (Math.abs(ability - CAT_EXAM_CONFIG.PASSING_ABILITY) >= CAT_EXAM_CONFIG.CONFIDENCE_Z * standardError) {
+      return 'confidence';
+    }
+  }
+
+  return null;
+}
+
+// Standard normal CDF (Abramowitz and Stegun 7.1.26)
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - t * Math.exp(-(z * z) / 2) *
+    (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function getDomainProficiency(answers: ExamAnswer[]): DomainProficiency | null {
+  if (answers.length === 0) return null;
+
+  const { ability, standardError } = estimateAbility(answers);
+  if (ability - standardError >= CAT_EXAM_CONFIG.PASSING_ABILITY) return 'above';
+  if (ability + standardError < CAT_EXAM_CONFIG.PASSING_ABILITY) return 'below';
+  return 'near';
+}
+
+/**
+ * Build the pass/fail estimate and per-domain report for a finished exam
+ * Running out of time before the minimum number of items is a fail, as on the real exam
+ */
+export function buildExamResult(answers: ExamAnswer[], stopReason: ExamStopReason): ExamResult {
+  const { ability, standardError } = estimateAbility(answers);
+  const { PASSING_ABILITY, SCALED_PASSING_SCORE, MIN_ITEMS } = CAT_EXAM_CONFIG;
+
+  const timedOutEarly = stopReason === 'time' && answers.length < MIN_ITEMS;
+  const passProbability = timedOutEarly ? 0 : normalCdf((ability - PASSING_ABILITY) / standardError);
+
+  return {
+    passed: !timedOutEarly && ability >= PASSING_ABILITY,
+    passProbability: Math.round(passProbability * 1000) / 1000,
+    scaledScore: Math.round(Math.min(1000, Math.max(0, SCALED_PASSING_SCORE + (ability - PASSING_ABILITY) * 100))),
+    ability: Math.round(ability * 100) / 100,
+    standardError: Math.round(standardError * 100) / 100,
+    totalAnswered: answers.length,
+    correctAnswers: answers.filter((answer) => answer.isCorrect).length,
+    stopReason,
+    domains: CISSP_DOMAINS.map(({ domain, name, weight }) => {
+      const domainAnswers = answers.filter((answer) => answer.domain === domain);
+      return {
+        domain,
+        name,
+        weight,
+        answered: domainAnswers.length,
+        correct: domainAnswers.filter((answer) => answer.isCorrect).length,
+        proficiency: getDomainProficiency(domainAnswers),
+      };
+    }),
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Deck Item Analysis
+ * Loads every recorded answer to a deck's quiz questions (deck quiz and flashcard quiz) and
+ * computes item statistics, scoring each learner against their answers across the whole deck.
+ */
+
+import { db } from '@/lib/db';
+import { deckQuizQuestions, flashcards, quizQuestions, quizSessionAnswers, quizSessions } from '@/lib/db/schema';
+import { eq, inArray, or } from 'drizzle-orm';
+import { getRecordedResponse, getStoredOptions } from '@/lib/quiz/grading';
+import {
+  analyzeItems,
+  countFlags,
+  type DeckItemAnalysis,
+  type DeckItemStats,
+  type ItemQuestion,
+} from '@/lib/quiz/item-analysis';
+
+function toItemQuestion(question: { id: string; questionType: string; options: unknown }): ItemQuestion {
+  return {
+    id: question.id,
+    questionType: question.questionType,
+    options: getStoredOptions(question.options).map((option) => ({
+      id: option.id,
+      text: option.text,
+      isCorrect: option.isCorrect,
+    })),
+  };
+}
+
+/**
+ * Item statistics for every quiz question in a deck, deck quiz questions first
+ */
+export async function getDeckItemAnalysis(deckId: string): Promise<DeckItemAnalysis> {
+  const [deckQuestions, flashcardQuestions] = await Promise.all([
+    db
+      .select({
+        id: deckQuizQuestions.id,
+        questionText: deckQuizQuestions.questionText,
+        questionType: deckQuizQuestions.questionType,
+        options: deckQuizQuestions.options,
+      })
+      .from(deckQuizQuestions)
+      .where(eq(deckQuizQuestions.deckId, deckId)),
+    db
+      .select({
+        id: quizQuestions.id,
+        flashcardId: quizQuestions.flashcardId,
+        questionText: quizQuestions.questionText,
+        questionType: quizQuestions.questionType,
+        options: quizQuestions.options,
+      })
+      .from(quizQuestions)
+      .innerJoin(flashcards, eq(quizQuestions.flashcardId, flashcards.id))
+      .where(eq(flashcards.deckId, deckId)),
+  ]);
+
+  const deckQuestionIds = deckQuestions.map((question) => question.id);
+  const flashcardQuestionIds = flashcardQuestions.map((question) => question.id);
+  const conditions = [
+    deckQuestionIds.length > 0 ? inArray(quizSessionAnswers.deckQuizQuestionId, deckQuestionIds) : undefined,
+    flashcardQuestionIds.length > 0 ? inArray(quizSessionAnswers.quizQuestionId, flashcardQuestionIds) : undefined,
+  ].filter((condition) => condition !== undefined);
+
+  const rows = conditions.length > 0
+    ? await db
+        .select({
+          clerkUserId: quizSessions.clerkUserId,
+          quizQuestionId: quizSessionAnswers.quizQuestionId,
+          deckQuizQuestionId: quizSessionAnswers.deckQuizQuestionId,
+          selectedOptionId: quizSessionAnswers.selectedOptionId,
+          response: quizSessionAnswers.response,
+          isCorrect: quizSessionAnswers.isCorrect,
+          timeSpent: quizSessionAnswers.timeSpent,
+        })
+        .from(quizSessionAnswers)
+        .innerJoin(quizSessions, eq(quizSessionAnswers.sessionId, quizSessions.id))
+        .where(or(...conditions))
+    : [];
+
+  const answers = rows.flatMap((row) => {
+    const questionId = row.deckQuizQuestionId ?? row.quizQuestionId;
+    return questionId
+      ? [
+          {
+            questionId,
+            clerkUserId: row.clerkUserId,
+            isCorrect: row.isCorrect,
+            response: getRecordedResponse(row),
+            timeSpent: row.timeSpent,
+          },
+        ]
+      : [];
+  });
+
+  const questions = [
+    ...deckQuestions.map((question) => ({ ...question, source: 'deck' as const, flashcardId: null })),
+    ...flashcardQuestions.map((question) => ({ ...question, source: 'flashcard' as const })),
+  ];
+  const items: DeckItemStats[] = analyzeItems(questions.map(toItemQuestion), answers).map((item, index) => ({
+    ...item,
+    source: questions[index].source,
+    questionText: questions[index].questionText,
+    flashcardId: questions[index].flashcardId,
+  }));
+
+  return {
+    deckId,
+    totalAnswers: answers.length,
+    learners: new Set(answers.map((answer) => answer.clerkUserId)).size,
+    items,
+    flagCounts: countFlags(items),
+  };
+}
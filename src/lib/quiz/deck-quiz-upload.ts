@@ -0,0 +1,123 @@
+/**
+ * Deck Quiz Upload
+ * Appends uploaded quiz questions to a deck, linking each to the sub-topic named in the upload.
+ * Used by the deck quiz JSON upload and by deck imports.
+ */
+
+import { db } from '@/lib/db';
+import { deckQuizQuestions, topics, subTopics } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import type { QuizQuestion } from '@/lib/validations/quiz';
+import { recordRevisions, toDeckQuizQuestionSnapshot } from '@/lib/revisions/store';
+
+/**
+ * Helper function to resolve sub_topic_id from topic_code and sub_topic_name
+ */
+async function resolveSubTopicId(
+  topicCode: string | undefined,
+  subTopicName: string | undefined
+): Promise<string | null> {
+  if (!topicCode || !subTopicName) {
+    return null;
+  }
+
+  try {
+    // Find the topic by code
+    const topic = await db.query.topics.findFirst({
+      where: eq(topics.topicCode, topicCode),
+    });
+
+    if (!topic) {
+      console.warn(`Topic not found for code: ${topicCode}`);
+      return null;
+    }
+
+    // Find sub-topics for this topic
+    const allSubTopics = await db.query.subTopics.findMany({
+      where: eq(subTopics.topicId, topic.id),
+    });
+
+    // Try exact match first, then partial match
+    const matchedSubTopic = allSubTopics.find(
+      (st) => st.subTopicName.toLowerCase() === subTopicName.toLowerCase()
+    ) || allSubTopics.find(
+      (st) => st.subTopicName.toLowerCase().includes(subTopicName.toLowerCase()) ||
+        subTopicName.toLowerCase().includes(st.subTopicName.toLowerCase())
+    );
+
+    if (!matchedSubTopic) {
+      console.warn(`Sub-topic not found: "${subTopicName}" under topic ${topicCode}`);
+      return null;
+    }
+
+    return matchedSubTopic.id;
+  } catch (error) {
+    console.error('Error resolving sub-topic:', error);
+    return null;
+  }
+}
+
+/**
+ * Append validated quiz questions to a deck as drafts, recording their creation in the revision history
+ * @returns The inserted questions
+ */
+export async function appendDeckQuizQuestions(
+  deckId: string,
+  questions: QuizQuestion[],
+  authorId: string
+): Promise<Array<typeof deckQuizQuestions.$inferSelect>> {
+  if (questions.length === 0) {
+    return [];
+  }
+
+  // Get existing questions to calculate the starting order
+  const existingQuestions = await db.query.deckQuizQuestions.findMany({
+    where: eq(deckQuizQuestions.deckId, deckId),
+    orderBy: (table, { desc }) => [desc(table.order)],
+    limit: 1,
+  });
+
+  const startingOrder = existingQuestions.length > 0 ? existingQuestions[0].order + 1 : 0;
+
+  // Resolve sub-topic IDs for all questions that have topic references
+  const questionsWithSubTopics = await Promise.all(
+    questions.map(async (q, index) => {
+      // Resolve sub-topic ID if topic_code and sub_topic_name are provided
+      const subTopicId = await resolveSubTopicId(q.topic_code, q.sub_topic_name);
+
+      return {
+        deckId: deckId,
+        questionText: q.question,
+        questionType: q.question_type,
+        imageUrl: q.image_url || null,
+        options: q.options, // JSON array: [{id, text, isCorrect, match?, region?}]
+        explanation: q.explanation || null,
+        eliminationTactics: q.elimination_tactics ? JSON.stringify(q.elimination_tactics) : null,
+        correctAnswerWithJustification: q.correct_answer_with_justification ? JSON.stringify(q.correct_answer_with_justification) : null,
+        compareRemainingOptionsWithJustification: q.compare_remaining_options_with_justification ? JSON.stringify(q.compare_remaining_options_with_justification) : null,
+        correctOptionsJustification: q.correct_options_justification ? JSON.stringify(q.correct_options_justification) : null,
+        order: startingOrder + index,
+        difficulty: null, // Could be added to quiz validation schema later
+        subTopicId: subTopicId, // Link to sub-topic for categorization
+        status: 'draft' as const, // Learners see the question once it is reviewed and published
+        createdBy: authorId,
+      };
+    })
+  );
+
+  const inserted = await db.insert(deckQuizQuestions).values(questionsWithSubTopics).returning();
+
+  await recordRevisions(
+    inserted.map((question) => ({
+      entityType: 'deck_quiz_question',
+      entityId: question.id,
+      deckId,
+      action: 'create',
+      before: null,
+      after: toDeckQuizQuestionSnapshot(question),
+      authorId,
+    }))
+  );
+
+  return inserted;
+}
@@ -0,0 +1,219 @@
+/**
+ * Exam Simulator Sessions
+ * Loads the item pool and answers for CAT exam sessions and moves them forward one item at a time.
+ */
+
+import { db } from '@/lib/db';
+import { quizSessions, quizSessionAnswers, deckQuizQuestions, decks, classes } from '@/lib/db/schema';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import { getDeckEntitlement, isDeckLocked } from '@/lib/entitlements';
+import { extractDomainFromDeckName } from '@/lib/utils/cissp-domains';
+import { shuffleArray } from '@/lib/utils/shuffle';
+import { toPublicQuestionFields, type PublicQuizQuestionFields } from '@/lib/quiz/grading';
+import { recordExamMistakes } from '@/lib/quiz/mistake-notebook';
+import { getUserTimeZone } from '@/lib/daily-card-limit';
+import { recordDailyActivity } from '@/lib/activity/daily-activity';
+import {
+  CAT_EXAM_CONFIG,
+  buildExamResult,
+  getExamStopReason,
+  selectNextItem,
+  type ExamAnswer,
+  type ExamPoolItem,
+  type ExamResult,
+} from '@/lib/quiz/cat-exam';
+
+type QuizSession = typeof quizSessions.$inferSelect;
+
+// Options are shuffled; the client sends this order back with the answer
+export interface ExamQuestion extends PublicQuizQuestionFields {
+  id: string;
+  questionText: string;
+}
+
+export type ExamProgress =
+  | {
+      status: 'in_progress';
+      sessionId: string;
+      startedAt: Date;
+      deadline: Date;
+      itemNumber: number; // 1-based number of the current item
+      minItems: number;
+      maxItems: number;
+      question: ExamQuestion;
+    }
+  | {
+      status: 'completed';
+      sessionId: string;
+      startedAt: Date;
+      result: ExamResult;
+    };
+
+/**
+ * Every published deck quiz question the user may see, tagged with its CISSP domain
+ * Questions in decks without a domain cannot be weighted and are left out
+ */
+export async function loadExamPool(): Promise<ExamPoolItem[]> {
+  const rows = await db
+    .select({
+      id: deckQuizQuestions.id,
+      difficulty: deckQuizQuestions.difficulty,
+      deckId: decks.id,
+      deckName: decks.name,
+      domainNumber: decks.domainNumber,
+      isPremium: decks.isPremium,
+    })
+    .from(deckQuizQuestions)
+    .innerJoin(decks, eq(deckQuizQuestions.deckId, decks.id))
+    .innerJoin(classes, eq(decks.classId, classes.id))
+    .where(and(eq(deckQuizQuestions.status, 'published'), eq(decks.isPublished, true), eq(classes.isPublished, true)));
+
+  const deckList = Array.from(new Map(rows.map((row) => [row.deckId, { id: row.deckId, isPremium: row.isPremium }])).values());
+  const entitlement = await getDeckEntitlement(deckList);
+
+  return rows.flatMap((row) => {
+    const domain = row.domainNumber ?? extractDomainFromDeckName(row.deckName);
+    if (!domain || domain < 1 || domain > 8 || isDeckLocked(entitlement, row.deckId)) {
+      return [];
+    }
+    return [{ id: row.id, domain, difficulty: row.difficulty }];
+  });
+}
+
+/**
+ * Answers recorded in an exam session, in delivery order
+ */
+export async function loadExamAnswers(sessionId: string): Promise<ExamAnswer[]> {
+  const rows = await db
+    .select({
+      questionId: deckQuizQuestions.id,
+      difficulty: deckQuizQuestions.difficulty,
+      deckName: decks.name,
+      domainNumber: decks.domainNumber,
+      isCorrect: quizSessionAnswers.isCorrect,
+    })
+    .from(quizSessionAnswers)
+    .innerJoin(deckQuizQuestions, eq(quizSessionAnswers.deckQuizQuestionId, deckQuizQuestions.id))
+    .innerJoin(decks, eq(deckQuizQuestions.deckId, decks.id))
+    .where(eq(quizSessionAnswers.sessionId, sessionId))
+    .orderBy(asc(quizSessionAnswers.questionOrder));
+
+  return rows.map((row) => ({
+    questionId: row.questionId,
+    domain: row.domainNumber ?? extractDomainFromDeckName(row.deckName) ?? 0,
+    difficulty: row.difficulty,
+    isCorrect: row.isCorrect,
+  }));
+}
+
+/**
+ * Load an exam item without its answer key, with the options shuffled
+ */
+export async function getExamQuestion(questionId: string): Promise<ExamQuestion | null> {
+  const question = await db.query.deckQuizQuestions.findFirst({
+    where: eq(deckQuizQuestions.id, questionId),
+    columns: { id: true, questionText: true, questionType: true, imageUrl: true, options: true },
+  });
+
+  if (!question) {
+    return null;
+  }
+
+  const fields = toPublicQuestionFields(question);
+
+  return {
+    id: question.id,
+    questionText: question.questionText,
+    ...fields,
+    options: shuffleArray(fields.options),
+  };
+}
+
+/**
+ * Seconds since the exam started
+ */
+export function getExamElapsedSeconds(session: Pick<QuizSession, 'startedAt'>, now: Date = new Date()): number {
+  return Math.floor((now.getTime() - new Date(session.startedAt).getTime()) / 1000);
+}
+
+/**
+ * Close an exam session with its result and add its wrong answers to the mistake notebook
+ * The endedAt guard stops a concurrent request from finishing the exam twice
+ */
+async function finishExamSession(session: QuizSession, answers: ExamAnswer[], result: ExamResult): Promise<ExamResult> {
+  const now = new Date();
+  const quizDuration = Math.min(getExamElapsedSeconds(session, now), CAT_EXAM_CONFIG.TIME_LIMIT_SECONDS);
+
+  const [closed] = await db
+    .update(quizSessions)
+    .set({
+      endedAt: now,
+      totalQuestions: answers.length,
+      correctAnswers: result.correctAnswers,
+      scorePercentage: (answers.length > 0 ? (result.correctAnswers / answers.length) * 100 : 0).toFixed(2),
+      quizDuration,
+      currentQuestionId: null,
+      examResult: result,
+    })
+    .where(and(eq(quizSessions.id, session.id), isNull(quizSessions.endedAt)))
+    .returning({ id: quizSessions.id });
+
+  if (closed) {
+    await recordExamMistakes(session.clerkUserId, session.id);
+
+    const timeZone = await getUserTimeZone(session.clerkUserId, null);
+    await recordDailyActivity(session.clerkUserId, { quizSessions: 1, studySeconds: quizDuration }, timeZone, now);
+  }
+
+  return result;
+}
+
+/**
+ * Work out where an open exam stands: finish it if a stopping rule is met,
+ * otherwise deliver the next item (or the one still awaiting an answer)
+ */
+export async function advanceExamSession(session: QuizSession): Promise<ExamProgress> {
+  if (session.endedAt && session.examResult) {
+    return { status: 'completed', sessionId: session.id, startedAt: session.startedAt, result: session.examResult };
+  }
+
+  const answers = await loadExamAnswers(session.id);
+  const elapsedSeconds = getExamElapsedSeconds(session);
+
+  let questionId = elapsedSeconds < CAT_EXAM_CONFIG.TIME_LIMIT_SECONDS ? session.currentQuestionId : null;
+
+  if (!questionId) {
+    const pool = await loadExamPool();
+    const answered = new Set(answers.map((answer) => answer.questionId));
+    const remainingItems = pool.filter((item) => !answered.has(item.id)).length;
+
+    const stopReason = getExamStopReason(answers, remainingItems, elapsedSeconds);
+    if (stopReason) {
+      const result = await finishExamSession(session, answers, buildExamResult(answers, stopReason));
+      return { status: 'completed', sessionId: session.id, startedAt: session.startedAt, result };
+    }
+
+    questionId = selectNextItem(pool, answers)!.id;
+    await db
+      .update(quizSessions)
+      .set({ currentQuestionId: questionId })
+      .where(eq(quizSessions.id, session.id));
+  }
+
+  const question = await getExamQuestion(questionId);
+  if (!question) {
+    // The item was deleted while it was being shown; deliver another one
+    return advanceExamSession({ ...session, currentQuestionId: null });
+  }
+
+  return {
+    status: 'in_progress',
+    sessionId: session.id,
+    startedAt: session.startedAt,
+    deadline: new Date(new Date(session.startedAt).getTime() + CAT_EXAM_CONFIG.TIME_LIMIT_SECONDS * 1000),
+    itemNumber: answers.length + 1,
+    minItems: CAT_EXAM_CONFIG.MIN_ITEMS,
+    maxItems: CAT_EXAM_CONFIG.MAX_ITEMS,
+    question,
+  };
+}
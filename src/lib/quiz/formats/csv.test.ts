@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { csvParser } from './csv';
+
+describe('csvParser', () => {
+  it('reads options, correct answers and inferred types', () => {
+    const text = [
+      'Question,Option A,Option B,Option C,Correct,Explanation,Topic Code',
+      'Which control is preventive?,Firewall rule,Audit log,,A,Stops traffic first,1.2',
+      '"Which are symmetric ciphers?",AES,RSA,Blowfish,"A, C",,',
+      'Which is asymmetric?,AES,RSA,,rsa,,',
+    ].join('\n');
+
+    const result = csvParser.parse(text, 'quiz.csv');
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.questions.map((q) => q.location)).toEqual([2, 3, 4]);
+    expect(result.questions[0].data).toEqual({
+      question_type: 'single_choice',
+      question: 'Which control is preventive?',
+      options: [
+        { text: 'Firewall rule', isCorrect: true },
+        { text: 'Audit log', isCorrect: false },
+      ],
+      explanation: 'Stops traffic first',
+      topic_code: '1.2',
+    });
+    expect(result.questions[1].data).toMatchObject({ question_type: 'multi_select' });
+    expect(result.questions[2].data).toMatchObject({
+      options: [
+        { text: 'AES', isCorrect: false },
+        { text: 'RSA', isCorrect: true },
+      ],
+    });
+  });
+
+  it('reads matching pairs and reports unknown correct answers by row', () => {
+    const text = [
+      'question,option_1,match_1,option_2,match_2,correct',
+      'Match the layers,Layer 3,Network,Layer 4,Transport,',
+      'Pick one,Yes,,No,,C',
+    ].join('\n');
+
+    const result = csvParser.parse(text, 'quiz.csv');
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.questions[0].data).toMatchObject({
+      question_type: 'matching',
+      options: [
+        { text: 'Layer 3', match: 'Network', isCorrect: false },
+        { text: 'Layer 4', match: 'Transport', isCorrect: false },
+      ],
+    });
+    expect(result.questions[1]).toEqual({ location: 3, error: 'Correct answer "C" does not match an option' });
+  });
+
+  it('rejects files without question or option columns', () => {
+    expect(csvParser.parse('front,back\na,b')).toEqual({ success: false, error: 'The CSV needs a "question" column' });
+    expect(csvParser.parse('question,answer\na,b')).toMatchObject({ success: false });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Quiz CSV
+ * One question per row, for questions written in a spreadsheet. The header row names the columns:
+ * - question (required), type, explanation, topic_code, sub_topic_name, image_url
+ * - option_a, option_b, ... or option_1, option_2, ...: the options, in order
+ * - match_a, match_b, ...: what each option matches, for matching questions
+ * - correct: the correct options by letter, number or text, e.g. "A" or "B, D"
+ * The type defaults to single choice, or select-all-that-apply when several options are correct.
+ * Ordering questions list their options in the correct order and need no correct column.
+ */
+
+import { detectDelimiter, parseDelimited } from '@/lib/deck-transfer/delimited';
+import { normalizeQuestionType, splitAnswerList, type QuizFormatParser, type ParsedQuizQuestion } from './types';
+
+const COLUMN_ALIASES: Record<string, string> = {
+  question: 'question',
+  question_text: 'question',
+  prompt: 'question',
+  stem: 'question',
+  type: 'type',
+  question_type: 'type',
+  correct: 'correct',
+  correct_answer: 'correct',
+  correct_answers: 'correct',
+  answer: 'correct',
+  answers: 'correct',
+  explanation: 'explanation',
+  rationale: 'explanation',
+  topic: 'topic_code',
+  topic_code: 'topic_code',
+  sub_topic: 'sub_topic_name',
+  subtopic: 'sub_topic_name',
+  sub_topic_name: 'sub_topic_name',
+  image: 'image_url',
+  image_url: 'image_url',
+};
+
+const OPTION_COLUMN = /^(?:option|choice)_?([a-z]|\d{1,2})$/;
+const MATCH_COLUMN = /^match_?([a-z]|\d{1,2})$/;
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * The index of the option a correct-answer token refers to, by letter, number or option text
+ */
+function resolveOption(token: string, options: string[]): number {
+  if (/^[a-z]$/i.test(token)) {
+    return token.toLowerCase().charCodeAt(0) - 97;
+  }
+  if (/^\d+$/.test(token)) {
+    return Number(token) - 1;
+  }
+  return options.findIndex((option) => option.trim().toLowerCase() === token.trim().toLowerCase());
+}
+
+export const csvParser: QuizFormatParser = {
+  format: 'csv',
+  label: 'CSV',
+  extensions: ['csv', 'tsv'],
+  locationLabel: 'Row',
+
+  parse(text, fileName) {
+    const rows = parseDelimited(text, detectDelimiter(text, fileName));
+    if (rows.length < 2) {
+      return { success: false, error: 'The CSV needs a header row and at least one question' };
+    }
+
+    const headers = rows[0].map(normalizeHeader);
+    const columnIndex = (name: string) => headers.findIndex((header) => COLUMN_ALIASES[header] === name);
+    const optionColumns = headers.flatMap((header, index) => {
+      const match = OPTION_COLUMN.exec(header);
+      return match ? [{ key: match[1], index }] : [];
+    });
+    const matchColumns = new Map(
+      headers.flatMap((header, index) => {
+        const match = MATCH_COLUMN.exec(header);
+        return match ? [[match[1], index] as const] : [];
+      })
+    );
+
+    const questionColumn = columnIndex('question');
+    if (questionColumn === -1) {
+      return { success: false, error: 'The CSV needs a "question" column' };
+    }
+    if (optionColumns.length === 0) {
+      return { success: false, error: 'The CSV needs option columns such as "option_a" and "option_b"' };
+    }
+
+    const cell = (row: string[], name: string) => {
+      const index = columnIndex(name);
+      return index === -1 ? '' : (row[index] ?? '').trim();
+    };
+
+    return {
+      success: true,
+      questions: rows.slice(1).map((row, index): ParsedQuizQuestion => {
+        const location = index + 2; // The header is row 1
+
+        const options = optionColumns.flatMap(({ key, index: column }) => {
+          const optionText = (row[column] ?? '').trim();
+          if (!optionText) return [];
+          const matchColumn = matchColumns.get(key);
+          const match = matchColumn === undefined ? '' : (row[matchColumn] ?? '').trim();
+          return [{ text: optionText, ...(match && { match }) }];
+        });
+
+        const correct = new Set<number>();
+        for (const token of splitAnswerList(cell(row, 'correct'))) {
+          const option = resolveOption(token, options.map((o) => o.text));
+          if (option < 0 || option >= options.length) {
+            return { location, error: `Correct answer "${token}" does not match an option` };
+          }
+          correct.add(option);
+        }
+
+        const type =
+          normalizeQuestionType(cell(row, 'type')) ??
+          (options.some((o) => o.match) ? 'matching' : correct.size > 1 ? 'multi_select' : 'single_choice');
+
+        return {
+          location,
+          data: {
+            question_type: type,
+            question: (row[questionColumn] ?? '').trim(),
+            ...(cell(row, 'image_url') && { image_url: cell(row, 'image_url') }),
+            options: options.map((option, optionIndex) => ({ ...option, isCorrect: correct.has(optionIndex) })),
+            ...(cell(row, 'explanation') && { explanation: cell(row, 'explanation') }),
+            ...(cell(row, 'topic_code') && { topic_code: cell(row, 'topic_code') }),
+            ...(cell(row, 'sub_topic_name') && { sub_topic_name: cell(row, 'sub_topic_name') }),
+          },
+        };
+      }),
+    };
+  },
+};
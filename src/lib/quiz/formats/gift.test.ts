@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { giftParser } from './gift';
+
+describe('giftParser', () => {
+  it('reads multiple choice, weighted, true/false and matching questions', () => {
+    const text = [
+      '// Domain 1',
+      '$CATEGORY: cissp/domain1',
+      '',
+      '::Q1:: Which control is preventive? {',
+      '  =Firewall rule',
+      '  ~Audit log#Audit logs detect',
+      '  ####Firewall rules stop traffic before it arrives.',
+      '}',
+      '',
+      'Which are symmetric ciphers? {~%50%AES ~%-100%RSA ~%50%Blowfish}',
+      '',
+      'Encryption provides confidentiality. {T}',
+      '',
+      'Match the layers. {=Layer 3 -> Network =Layer 4 -> Transport}',
+    ].join('\n');
+
+    const result = giftParser.parse(text);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.questions.map((q) => q.location)).toEqual([4, 10, 12, 14]);
+    expect(result.questions[0].data).toEqual({
+      question: 'Which control is preventive?',
+      explanation: 'Firewall rules stop traffic before it arrives.',
+      question_type: 'single_choice',
+      options: [
+        { text: 'Firewall rule', isCorrect: true },
+        { text: 'Audit log', isCorrect: false },
+      ],
+    });
+    expect(result.questions[1].data).toMatchObject({
+      question_type: 'multi_select',
+      options: [
+        { text: 'AES', isCorrect: true },
+        { text: 'RSA', isCorrect: false },
+        { text: 'Blowfish', isCorrect: true },
+      ],
+    });
+    expect(result.questions[2].data).toMatchObject({
+      question_type: 'single_choice',
+      options: [
+        { text: 'True', isCorrect: true },
+        { text: 'False', isCorrect: false },
+      ],
+    });
+    expect(result.questions[3].data).toMatchObject({
+      question_type: 'matching',
+      options: [
+        { text: 'Layer 3', match: 'Network' },
+        { text: 'Layer 4', match: 'Transport' },
+      ],
+    });
+  });
+
+  it('unescapes special characters', () => {
+    const result = giftParser.parse('What does \\{x\\} mean? {=A set \\= one ~A map}');
+    expect(result.success && result.questions[0].data).toMatchObject({
+      question: 'What does {x} mean?',
+      options: [{ text: 'A set = one' }, { text: 'A map' }],
+    });
+  });
+
+  it('reports question types that cannot be converted', () => {
+    const text = ['Describe CIA. {}', '', 'How many bits in AES-128? {#128}', '', 'Name the protocol. {=TLS =SSL}'].join('\n');
+
+    const result = giftParser.parse(text);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.questions).toEqual([
+      { location: 1, error: 'Essay questions are not supported' },
+      { location: 3, error: 'Numerical questions are not supported' },
+      { location: 5, error: 'Short answer questions are not supported' },
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Moodle GIFT
+ * Questions are separated by blank lines and their answers are given in braces:
+ *
+ *   ::Q1:: Which control is preventive? {
+ *     =Firewall rule
+ *     ~Audit log#Audit logs detect, they do not prevent
+ *     ####Firewall rules stop traffic before it arrives.
+ *   }
+ *
+ * Multiple choice (with "~%50%" weights for several correct answers), true/false and matching
+ * questions are read; general feedback ("####") becomes the explanation. Short answer,
+ * numerical and essay questions have no equivalent here and are reported as errors.
+ * See https://docs.moodle.org/en/GIFT_format
+ */
+
+import type { QuizFormatParser, ParsedQuizQuestion } from './types';
+
+interface GiftBlock {
+  line: number;
+  text: string;
+}
+
+/**
+ * Remove GIFT escapes (\~ \= \# \{ \} \:) and turn \n into line breaks
+ */
+function unescapeGift(text: string): string {
+  return text.replace(/\\n/g, '\n').replace(/\\([~=#{}:\\])/g, '$1').trim();
+}
+
+/**
+ * Index of the first unescaped occurrence of any of the characters, from a position
+ */
+function findUnescaped(text: string, chars: string, from = 0): number {
+  for (let index = from; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+      continue;
+    }
+    if (chars.includes(text[index])) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split an answer block into its answers, each starting with an unescaped "=" or "~"
+ */
+function splitAnswers(block: string): string[] {
+  const answers: string[] = [];
+  let start = findUnescaped(block, '=~');
+  while (start !== -1) {
+    const next = findUnescaped(block, '=~', start + 1);
+    answers.push(block.slice(start, next === -1 ? undefined : next).trim());
+    start = next;
+  }
+  return answers;
+}
+
+/**
+ * Answer text without its feedback ("#...")
+ */
+function withoutFeedback(answer: string): string {
+  const feedback = findUnescaped(answer, '#');
+  return feedback === -1 ? answer : answer.slice(0, feedback);
+}
+
+function parseBlock({ line: location, text }: GiftBlock): ParsedQuizQuestion {
+  let rest = text;
+
+  // Optional title and text format
+  const title = /^::((?:\\.|[^:\\]|:(?!:))*)::/.exec(rest);
+  if (title) rest = rest.slice(title[0].length);
+  rest = rest.replace(/^\s*\[(?:html|markdown|plain|moodle)\]/i, '');
+
+  const open = findUnescaped(rest, '{');
+  if (open === -1) {
+    return { location, error: 'The question has no answers in braces' };
+  }
+  const close = findUnescaped(rest, '}', open);
+  if (close === -1) {
+    return { location, error: 'The answers are missing their closing "}"' };
+  }
+
+  const before = rest.slice(0, open).trim();
+  const after = rest.slice(close + 1).trim();
+  // Answers in the middle of the text leave a blank to fill
+  const question = unescapeGift(after ? `${before} _____ ${after}` : before) || unescapeGift(title?.[1] ?? '');
+  let answerBlock = rest.slice(open + 1, close).trim();
+
+  let explanation: string | undefined;
+  const generalFeedback = answerBlock.search(/(?<!\\)####/);
+  if (generalFeedback !== -1) {
+    explanation = unescapeGift(answerBlock.slice(generalFeedback + 4));
+    answerBlock = answerBlock.slice(0, generalFeedback).trim();
+  }
+
+  const base = { question, ...(explanation && { explanation }) };
+
+  if (!answerBlock) {
+    return { location, error: 'Essay questions are not supported' };
+  }
+  if (answerBlock.startsWith('#')) {
+    return { location, error: 'Numerical questions are not supported' };
+  }
+
+  const trueFalse = /^(T|TRUE|F|FALSE)(?:\s*#|$)/i.exec(answerBlock);
+  if (trueFalse) {
+    const isTrue = trueFalse[1].toUpperCase().startsWith('T');
+    return {
+      location,
+      data: {
+        ...base,
+        question_type: 'single_choice',
+        options: [
+          { text: 'True', isCorrect: isTrue },
+          { text: 'False', isCorrect: !isTrue },
+        ],
+      },
+    };
+  }
+
+  const answers = splitAnswers(answerBlock);
+  if (answers.length === 0) {
+    return { location, error: 'Start each answer with "=" (correct) or "~" (incorrect)' };
+  }
+
+  if (answers.every((answer) => answer.startsWith('=')) && answers.some((answer) => answer.includes('->'))) {
+    const pairs = answers.map((answer) => withoutFeedback(answer.slice(1)).split('->'));
+    if (pairs.some((pair) => pair.length !== 2)) {
+      return { location, error: 'Give each matching pair as "=term -> match"' };
+    }
+    return {
+      location,
+      data: {
+        ...base,
+        question_type: 'matching',
+        options: pairs.map(([term, match]) => ({ text: unescapeGift(term), match: unescapeGift(match), isCorrect: false })),
+      },
+    };
+  }
+
+  if (!answers.some((answer) => answer.startsWith('~'))) {
+    return { location, error: 'Short answer questions are not supported' };
+  }
+
+  const options = answers.map((answer) => {
+    const weight = /^[=~]%(-?\d+(?:\.\d+)?)%/.exec(answer);
+    const answerText = withoutFeedback(answer.slice(weight ? weight[0].length : 1));
+    return {
+      text: unescapeGift(answerText),
+      isCorrect: weight ? Number(weight[1]) > 0 : answer.startsWith('='),
+    };
+  });
+
+  return {
+    location,
+    data: {
+      ...base,
+      question_type: options.filter((option) => option.isCorrect).length > 1 ? 'multi_select' : 'single_choice',
+      options,
+    },
+  };
+}
+
+export const giftParser: QuizFormatParser = {
+  format: 'gift',
+  label: 'GIFT',
+  extensions: ['gift'],
+  locationLabel: 'Line',
+
+  parse(text) {
+    const blocks: GiftBlock[] = [];
+    let current: GiftBlock | null = null;
+
+    text
+      .replace(/^\uFEFF/, '')
+      .split(/\r?\n/)
+      .forEach((line, index) => {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('//')) return;
+        if (!trimmed) {
+          current = null;
+          return;
+        }
+        if (!current) {
+          current = { line: index + 1, text: '' };
+          blocks.push(current);
+        }
+        current.text += `${current.text ? '\n' : ''}${line}`;
+      });
+
+    // Category lines only group questions in Moodle
+    const questionBlocks = blocks.filter((block) => !/^\$CATEGORY:/i.test(block.text.trim()));
+    if (questionBlocks.length === 0) {
+      return { success: false, error: 'No GIFT questions found' };
+    }
+
+    return { success: true, questions: questionBlocks.map(parseBlock) };
+  },
+};
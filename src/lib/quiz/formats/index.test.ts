@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { detectQuizFormat, parseQuizUpload } from './index';
+
+describe('detectQuizFormat', () => {
+  it('uses the extension, then the content of .txt files', () => {
+    expect(detectQuizFormat('quiz.json')).toBe('json');
+    expect(detectQuizFormat('quiz.TSV')).toBe('csv');
+    expect(detectQuizFormat('quiz.md')).toBe('markdown');
+    expect(detectQuizFormat('quiz.gift')).toBe('gift');
+    expect(detectQuizFormat('package.zip')).toBe('qti');
+    expect(detectQuizFormat('quiz.docx')).toBeNull();
+
+    expect(detectQuizFormat('quiz.txt', 'Is it true? {T}')).toBe('gift');
+    expect(detectQuizFormat('quiz.txt', '## Question\n- [x] Yes')).toBe('markdown');
+    expect(detectQuizFormat('quiz.txt', 'question\toption_a\tcorrect')).toBe('csv');
+  });
+});
+
+describe('parseQuizUpload', () => {
+  it('keeps valid questions and reports the rest by location', () => {
+    const text = [
+      'question,type,option_a,option_b,correct',
+      'Which control is preventive?,,Firewall rule,Audit log,A',
+      'No correct answer,,Yes,No,',
+      'Odd type,essay,Yes,No,A',
+    ].join('\n');
+
+    const result = parseQuizUpload('quiz.csv', text);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.format).toBe('csv');
+    expect(result.total).toBe(3);
+    expect(result.quiz.questions).toHaveLength(1);
+    expect(result.quiz.questions[0].options.every((option) => option.id)).toBe(true);
+    expect(result.errors).toEqual([
+      { location: 'Row 3', message: 'options: At least one correct answer is required' },
+      { location: 'Row 4', message: expect.stringMatching(/^question_type: /) },
+    ]);
+  });
+
+  it('accepts files larger than one upload request', () => {
+    const questions = Array.from({ length: 120 }, (_, index) => ({
+      question: `Question ${index + 1}`,
+      options: [
+        { text: 'Yes', isCorrect: true },
+        { text: 'No', isCorrect: false },
+      ],
+    }));
+
+    const result = parseQuizUpload('quiz.json', JSON.stringify({ questions }));
+    expect(result.success && result.quiz.questions).toHaveLength(120);
+  });
+
+  it('rejects unsupported and unreadable files', () => {
+    expect(parseQuizUpload('quiz.docx', '')).toMatchObject({ success: false });
+    expect(parseQuizUpload('quiz.json', '{')).toEqual({ success: false, error: 'The file is not valid JSON' });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Quiz Uploads
+ * Detects the format of an uploaded quiz file, parses it and validates every question on its
+ * own, so one bad row is reported by location instead of rejecting the whole file.
+ */
+
+import { quizQuestionSchema, type QuizFile } from '@/lib/validations/quiz';
+import { csvParser } from './csv';
+import { giftParser } from './gift';
+import { jsonParser } from './json';
+import { markdownParser } from './markdown';
+import { parseQtiPackage, qtiParser } from './qti';
+import type { QuizFormatParser, QuizParseResult, QuizUploadFormat } from './types';
+
+export { QUIZ_UPLOAD_FORMATS, type QuizUploadFormat } from './types';
+
+export const QUIZ_FORMAT_PARSERS: Record<QuizUploadFormat, QuizFormatParser> = {
+  json: jsonParser,
+  csv: csvParser,
+  markdown: markdownParser,
+  gift: giftParser,
+  qti: qtiParser,
+};
+
+// File input accept list for every supported format
+export const QUIZ_UPLOAD_ACCEPT = [
+  ...new Set(Object.values(QUIZ_FORMAT_PARSERS).flatMap((parser) => parser.extensions)),
+  'txt',
+]
+  .map((extension) => `.${extension}`)
+  .join(',');
+
+export interface QuizUploadError {
+  location: string; // e.g. "Row 4" or "Line 12"
+  message: string;
+}
+
+export type QuizUploadResult =
+  | {
+      success: true;
+      format: QuizUploadFormat;
+      label: string;
+      quiz: QuizFile; // The questions that passed validation
+      errors: QuizUploadError[]; // The questions that did not
+      total: number;
+    }
+  | { success: false; error: string };
+
+/**
+ * The format of a file, by extension; plain .txt files are recognised by their content
+ */
+export function detectQuizFormat(fileName: string, text = ''): QuizUploadFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  const byExtension = Object.values(QUIZ_FORMAT_PARSERS).find((parser) => parser.extensions.includes(extension));
+  if (byExtension) {
+    return byExtension.format;
+  }
+  if (extension !== 'txt') {
+    return null;
+  }
+
+  const content = text.trim();
+  if (/^[[{]/.test(content)) return 'json';
+  if (/^<\?xml|<(?:qti-)?assessment-?item/i.test(content)) return 'qti';
+  if (/(?:^|\n)\s*(?:::.*::)?[^\n]*\{\s*(?:[=~]|T\b|F\b|TRUE\b|FALSE\b)/i.test(content)) return 'gift';
+  if (/^#{1,6}\s/m.test(content)) return 'markdown';
+  return 'csv';
+}
+
+/**
+ * Validate the questions a parser read, keeping the valid ones and describing the rest
+ */
+function validateParsed(parser: QuizFormatParser, result: QuizParseResult): QuizUploadResult {
+  if (!result.success) {
+    return result;
+  }
+
+  const questions: QuizFile['questions'] = [];
+  const errors: QuizUploadError[] = [];
+
+  for (const parsed of result.questions) {
+    const location = `${parser.locationLabel} ${parsed.location}`;
+    if (parsed.error) {
+      errors.push({ location, message: parsed.error });
+      continue;
+    }
+
+    const validated = quizQuestionSchema.safeParse(parsed.data);
+    if (validated.success) {
+      questions.push(validated.data);
+    } else {
+      const [issue] = validated.error.issues;
+      const path = issue.path.join('.');
+      errors.push({ location, message: path ? `${path}: ${issue.message}` : issue.message });
+    }
+  }
+
+  if (result.questions.length === 0) {
+    return { success: false, error: 'The file has no questions' };
+  }
+
+  return {
+    success: true,
+    format: parser.format,
+    label: parser.label,
+    quiz: { questions },
+    errors,
+    total: result.questions.length,
+  };
+}
+
+/**
+ * Parse and validate the text of an uploaded quiz file
+ */
+export function parseQuizUpload(fileName: string, text: string): QuizUploadResult {
+  const format = detectQuizFormat(fileName, text);
+  if (!format) {
+    return { success: false, error: `Unsupported file type; upload one of ${QUIZ_UPLOAD_ACCEPT}` };
+  }
+
+  const parser = QUIZ_FORMAT_PARSERS[format];
+  return validateParsed(parser, parser.parse(text, fileName));
+}
+
+/**
+ * Read, parse and validate an uploaded quiz file, including zipped QTI packages
+ */
+export async function readQuizUpload(file: File): Promise<QuizUploadResult> {
+  if (/\.zip$/i.test(file.name)) {
+    const data = new Uint8Array(await file.arrayBuffer());
+    return validateParsed(qtiParser, parseQtiPackage(data));
+  }
+  return parseQuizUpload(file.name, await file.text());
+}
@@ -0,0 +1,36 @@
+/**
+ * Quiz JSON
+ * The native upload format: { "questions": [...] }, or a bare array of questions.
+ */
+
+import type { QuizFormatParser } from './types';
+
+export const jsonParser: QuizFormatParser = {
+  format: 'json',
+  label: 'JSON',
+  extensions: ['json'],
+  locationLabel: 'Question',
+
+  parse(text) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return { success: false, error: 'The file is not valid JSON' };
+    }
+
+    const questions = Array.isArray(data)
+      ? data
+      : data && typeof data === 'object' && Array.isArray((data as { questions?: unknown }).questions)
+        ? (data as { questions: unknown[] }).questions
+        : null;
+    if (!questions) {
+      return { success: false, error: 'The JSON needs a "questions" array' };
+    }
+
+    return {
+      success: true,
+      questions: questions.map((question, index) => ({ location: index + 1, data: question })),
+    };
+  },
+};
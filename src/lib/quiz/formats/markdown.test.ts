@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { markdownParser } from './markdown';
+
+describe('markdownParser', () => {
+  it('reads checkbox, ordering and matching questions', () => {
+    const text = [
+      '# Domain 1',
+      '',
+      '## 1. Which control is preventive?',
+      'Type: single',
+      'Topic: 1.2',
+      '- [x] Firewall rule',
+      '- [ ] Audit log',
+      '> Firewall rules stop traffic before it arrives.',
+      '',
+      '## Put the steps in order',
+      '1. Identify',
+      '2. Contain',
+      '3. Recover',
+      '',
+      '## Match the layers',
+      '- Layer 3 => Network',
+      '- Layer 4 -> Transport',
+    ].join('\n');
+
+    const result = markdownParser.parse(text);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.questions.map((q) => q.location)).toEqual([3, 10, 15]);
+    expect(result.questions[0].data).toEqual({
+      question_type: 'single_choice',
+      question: 'Which control is preventive?',
+      options: [
+        { text: 'Firewall rule', isCorrect: true },
+        { text: 'Audit log', isCorrect: false },
+      ],
+      explanation: 'Firewall rules stop traffic before it arrives.',
+      topic_code: '1.2',
+    });
+    expect(result.questions[1].data).toMatchObject({
+      question_type: 'ordering',
+      options: [{ text: 'Identify' }, { text: 'Contain' }, { text: 'Recover' }],
+    });
+    expect(result.questions[2].data).toMatchObject({
+      question_type: 'matching',
+      options: [
+        { text: 'Layer 3', match: 'Network' },
+        { text: 'Layer 4', match: 'Transport' },
+      ],
+    });
+  });
+
+  it('reports questions with unmarked or mixed options', () => {
+    const text = ['## Unmarked', '- Yes', '- No', '', '## Mixed', '- [x] Yes', '1. No'].join('\n');
+
+    const result = markdownParser.parse(text);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.questions[0]).toMatchObject({ location: 1, error: expect.stringContaining('- [x]') });
+    expect(result.questions[1]).toMatchObject({ location: 5, error: expect.stringContaining('one kind of list') });
+  });
+
+  it('rejects documents without questions', () => {
+    expect(markdownParser.parse('# Notes\nJust text')).toMatchObject({ success: false });
+  });
+});
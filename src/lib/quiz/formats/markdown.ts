@@ -0,0 +1,128 @@
+/**
+ * Quiz Markdown
+ * Each question starts with a heading; the lines under it give the options and details:
+ *
+ *   ## Which control is preventive?
+ *   - [x] Firewall rule
+ *   - [ ] Audit log
+ *   > Firewall rules stop traffic before it arrives.
+ *
+ * - "- [x]" and "- [ ]" mark correct and incorrect options
+ * - a numbered list gives the items of an ordering question, in the correct order
+ * - "- term => match" gives the pairs of a matching question
+ * - "> text" or "Explanation: text" gives the explanation
+ * - "Type:", "Topic:", "Sub-topic:" and "Image:" lines set the other fields
+ * Other lines under the heading continue the question text.
+ */
+
+import { normalizeQuestionType, type QuizFormatParser, type ParsedQuizQuestion } from './types';
+
+const HEADING = /^#{1,6}\s+(.*)$/;
+const CHECKBOX_OPTION = /^[-*+]\s+\[([ xX])\]\s+(.*)$/;
+const NUMBERED_OPTION = /^\d+[.)]\s+(.*)$/;
+const MATCHING_OPTION = /^[-*+]\s+(.+?)\s*(?:=>|->)\s*(.+)$/;
+const PLAIN_OPTION = /^[-*+]\s+(.*)$/;
+const METADATA = /^(type|topic|topic code|sub-topic|subtopic|sub topic|image|explanation):\s*(.*)$/i;
+
+type OptionKind = 'checkbox' | 'numbered' | 'matching';
+
+interface Block {
+  line: number;
+  heading: string;
+  lines: string[];
+}
+
+function parseBlock(block: Block): ParsedQuizQuestion {
+  const location = block.line;
+  // "## 3. Question" and "## Q3: Question" headings number their questions
+  const questionLines = [block.heading.replace(/^(?:q(?:uestion)?\s*)?\d+\s*[.):]\s*/i, '').trim()];
+  const explanation: string[] = [];
+  const options: Array<{ text: string; isCorrect: boolean; match?: string }> = [];
+  const fields: Record<string, string> = {};
+  const kinds = new Set<OptionKind>();
+
+  for (const rawLine of block.lines) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    let match: RegExpExecArray | null;
+    if ((match = CHECKBOX_OPTION.exec(line))) {
+      kinds.add('checkbox');
+      options.push({ text: match[2].trim(), isCorrect: match[1].toLowerCase() === 'x' });
+    } else if ((match = MATCHING_OPTION.exec(line))) {
+      kinds.add('matching');
+      options.push({ text: match[1].trim(), isCorrect: false, match: match[2].trim() });
+    } else if ((match = NUMBERED_OPTION.exec(line))) {
+      kinds.add('numbered');
+      options.push({ text: match[1].trim(), isCorrect: false });
+    } else if (PLAIN_OPTION.test(line)) {
+      return { location, error: 'Mark each option as correct with "- [x]" or incorrect with "- [ ]"' };
+    } else if (line.startsWith('>')) {
+      explanation.push(line.replace(/^>\s?/, ''));
+    } else if ((match = METADATA.exec(line))) {
+      const key = match[1].toLowerCase().replace(/[\s-]+/g, '');
+      if (key === 'explanation') {
+        explanation.push(match[2]);
+      } else {
+        fields[key] = match[2].trim();
+      }
+    } else if (options.length === 0) {
+      questionLines.push(line);
+    } else {
+      return { location, error: `Unexpected text after the options: "${line}"` };
+    }
+  }
+
+  if (kinds.size > 1) {
+    return { location, error: 'Use one kind of list for the options of a question' };
+  }
+  const kind = [...kinds][0];
+  const correctCount = options.filter((option) => option.isCorrect).length;
+  const inferredType =
+    kind === 'numbered' ? 'ordering' : kind === 'matching' ? 'matching' : correctCount > 1 ? 'multi_select' : 'single_choice';
+  const topicCode = fields.topic ?? fields.topiccode;
+  const subTopicName = fields.subtopic;
+
+  return {
+    location,
+    data: {
+      question_type: (fields.type && normalizeQuestionType(fields.type)) ?? inferredType,
+      question: questionLines.filter(Boolean).join('\n'),
+      ...(fields.image && { image_url: fields.image }),
+      options,
+      ...(explanation.length > 0 && { explanation: explanation.join('\n').trim() }),
+      ...(topicCode && { topic_code: topicCode }),
+      ...(subTopicName && { sub_topic_name: subTopicName }),
+    },
+  };
+}
+
+export const markdownParser: QuizFormatParser = {
+  format: 'markdown',
+  label: 'Markdown',
+  extensions: ['md', 'markdown'],
+  locationLabel: 'Line',
+
+  parse(text) {
+    const blocks: Block[] = [];
+
+    text.split(/\r?\n/).forEach((line, index) => {
+      const heading = HEADING.exec(line.trim());
+      if (heading) {
+        blocks.push({ line: index + 1, heading: heading[1], lines: [] });
+      } else if (blocks.length > 0 && !/^(?:-{3,}|\*{3,})$/.test(line.trim())) {
+        blocks[blocks.length - 1].lines.push(line);
+      }
+    });
+
+    // A heading with no options is a section title, not a question
+    const questionBlocks = blocks.filter((block) =>
+      block.lines.some((line) => /^\s*(?:[-*+]\s|\d+[.)]\s)/.test(line))
+    );
+    if (questionBlocks.length === 0) {
+      return { success: false, error: 'No questions found; start each question with a heading such as "## Question"' };
+    }
+
+    return { success: true, questions: questionBlocks.map(parseBlock) };
+  },
+};
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { parseQtiPackage, qtiParser } from './qti';
+
+const CHOICE_ITEM = `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="q1" title="Controls">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <correctResponse><value>A</value></correctResponse>
+  </responseDeclaration>
+  <itemBody>
+    <p>Which control is <b>preventive</b>?</p>
+    <choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="1">
+      <simpleChoice identifier="A">Firewall rule</simpleChoice>
+      <simpleChoice identifier="B">Audit log</simpleChoice>
+    </choiceInteraction>
+  </itemBody>
+  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="A" showHide="show">Firewall rules stop traffic.</modalFeedback>
+</assessmentItem>`;
+
+const OTHER_ITEMS = `<qti-assessment-test>
+  <qti-assessment-item identifier="q2">
+    <qti-response-declaration identifier="RESPONSE" cardinality="ordered">
+      <qti-correct-response><qti-value>C</qti-value><qti-value>A</qti-value><qti-value>B</qti-value></qti-correct-response>
+    </qti-response-declaration>
+    <qti-item-body>
+      <qti-order-interaction response-identifier="RESPONSE">
+        <qti-prompt>Put the steps in order</qti-prompt>
+        <qti-simple-choice identifier="A">Contain</qti-simple-choice>
+        <qti-simple-choice identifier="B">Recover</qti-simple-choice>
+        <qti-simple-choice identifier="C">Identify</qti-simple-choice>
+      </qti-order-interaction>
+    </qti-item-body>
+  </qti-assessment-item>
+  <qti-assessment-item identifier="q3">
+    <qti-response-declaration identifier="RESPONSE" cardinality="multiple">
+      <qti-correct-response><qti-value>L3 NET</qti-value><qti-value>L4 TRN</qti-value></qti-correct-response>
+    </qti-response-declaration>
+    <qti-item-body>
+      <qti-match-interaction response-identifier="RESPONSE">
+        <qti-prompt>Match the layers</qti-prompt>
+        <qti-simple-match-set>
+          <qti-simple-associable-choice identifier="L3">Layer 3</qti-simple-associable-choice>
+          <qti-simple-associable-choice identifier="L4">Layer 4</qti-simple-associable-choice>
+        </qti-simple-match-set>
+        <qti-simple-match-set>
+          <qti-simple-associable-choice identifier="NET">Network</qti-simple-associable-choice>
+          <qti-simple-associable-choice identifier="TRN">Transport</qti-simple-associable-choice>
+        </qti-simple-match-set>
+      </qti-match-interaction>
+    </qti-item-body>
+  </qti-assessment-item>
+  <qti-assessment-item identifier="q4">
+    <qti-item-body>
+      <qti-extended-text-interaction response-identifier="RESPONSE" />
+    </qti-item-body>
+  </qti-assessment-item>
+</qti-assessment-test>`;
+
+describe('qtiParser', () => {
+  it('reads choice items with their feedback', () => {
+    const result = qtiParser.parse(CHOICE_ITEM);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.questions).toEqual([
+      {
+        location: 1,
+        data: {
+          question: 'Which control is preventive?',
+          explanation: 'Firewall rules stop traffic.',
+          question_type: 'single_choice',
+          options: [
+            { text: 'Firewall rule', isCorrect: true },
+            { text: 'Audit log', isCorrect: false },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it('reads QTI 3 order and match items and reports other interactions', () => {
+    const result = qtiParser.parse(OTHER_ITEMS);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.questions[0].data).toMatchObject({
+      question: 'Put the steps in order',
+      question_type: 'ordering',
+      options: [{ text: 'Identify' }, { text: 'Contain' }, { text: 'Recover' }],
+    });
+    expect(result.questions[1].data).toMatchObject({
+      question: 'Match the layers',
+      question_type: 'matching',
+      options: [
+        { text: 'Layer 3', match: 'Network' },
+        { text: 'Layer 4', match: 'Transport' },
+      ],
+    });
+    expect(result.questions[2]).toEqual({ location: 3, error: 'extendedTextInteraction items are not supported' });
+  });
+
+  it('rejects malformed XML', () => {
+    expect(qtiParser.parse('<assessmentItem><itemBody></assessmentItem>')).toMatchObject({ success: false });
+  });
+});
+
+describe('parseQtiPackage', () => {
+  it('reads the items of every XML file except the manifest, numbered across files', () => {
+    const data = zipSync({
+      'imsmanifest.xml': strToU8('<manifest />'),
+      'items/a.xml': strToU8(CHOICE_ITEM),
+      'items/b.xml': strToU8(OTHER_ITEMS),
+    });
+
+    const result = parseQtiPackage(data);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.questions.map((q) => q.location)).toEqual([1, 2, 3, 4]);
+  });
+});
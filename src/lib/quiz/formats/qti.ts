@@ -0,0 +1,241 @@
+/**
+ * IMS QTI
+ * Assessment items exported by learning platforms, as a single XML file or a zipped content
+ * package. QTI 2.x and 3.0 tag names are both read. Choice, order and match interactions are
+ * converted; the prompt and item body text become the question and modal feedback the
+ * explanation. Items using other interactions are reported as errors.
+ */
+
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import { strFromU8, unzipSync } from 'fflate';
+import type { QuizFormatParser, QuizParseResult, ParsedQuizQuestion } from './types';
+
+// With preserveOrder, each node is { tagName: children, ':@': attributes } or { '#text': text }
+type XmlNode = Record<string, unknown>;
+
+const xmlParser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: false,
+});
+
+// Tags that start a new line in the question text
+const BLOCK_TAGS = new Set(['p', 'div', 'br', 'li', 'blockquote', 'pre']);
+
+/**
+ * The tag of a node in QTI 2 form, so "qti-choice-interaction" reads as "choiceInteraction"
+ */
+function tagOf(node: XmlNode): string | null {
+  const key = Object.keys(node).find((name) => name !== ':@');
+  if (!key || key === '#text') return null;
+  return key.replace(/^qti-/, '').replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function childrenOf(node: XmlNode): XmlNode[] {
+  const key = Object.keys(node).find((name) => name !== ':@');
+  const children = key ? node[key] : undefined;
+  return Array.isArray(children) ? (children as XmlNode[]) : [];
+}
+
+function attribute(node: XmlNode, name: string): string | undefined {
+  const attributes = node[':@'] as Record<string, string> | undefined;
+  return attributes?.[name] ?? attributes?.[name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)];
+}
+
+/**
+ * Every descendant with the tag, in document order
+ */
+function findAll(nodes: XmlNode[], tag: string): XmlNode[] {
+  return nodes.flatMap((node) => [...(tagOf(node) === tag ? [node] : []), ...findAll(childrenOf(node), tag)]);
+}
+
+function findFirst(nodes: XmlNode[], tag: string): XmlNode | undefined {
+  return findAll(nodes, tag)[0];
+}
+
+/**
+ * The text of nodes, with block elements on their own lines; tags in skip are left out
+ */
+function textOf(nodes: XmlNode[], skip: Set<string> = new Set()): string {
+  const collect = (node: XmlNode): string => {
+    if (typeof node['#text'] === 'string') return node['#text'];
+    const tag = tagOf(node);
+    if (!tag || skip.has(tag)) return '';
+    const text = childrenOf(node).map(collect).join('');
+    return BLOCK_TAGS.has(tag) ? `\n${text}\n` : text;
+  };
+  return nodes
+    .map(collect)
+    .join('')
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+const INTERACTIONS = new Set([
+  'choiceInteraction',
+  'orderInteraction',
+  'matchInteraction',
+  'associateInteraction',
+  'extendedTextInteraction',
+  'textEntryInteraction',
+  'inlineChoiceInteraction',
+  'hotspotInteraction',
+  'hottextInteraction',
+  'gapMatchInteraction',
+  'graphicOrderInteraction',
+  'sliderInteraction',
+  'uploadInteraction',
+]);
+
+function parseItem(item: XmlNode, location: number): ParsedQuizQuestion {
+  const itemNodes = childrenOf(item);
+  const itemBody = findFirst(itemNodes, 'itemBody');
+  if (!itemBody) {
+    return { location, error: 'The item has no itemBody' };
+  }
+
+  const interaction =
+    findFirst([itemBody], 'choiceInteraction') ??
+    findFirst([itemBody], 'orderInteraction') ??
+    findFirst([itemBody], 'matchInteraction');
+  if (!interaction) {
+    const other = [...INTERACTIONS].find((tag) => findFirst([itemBody], tag));
+    return {
+      location,
+      error: other ? `${other} items are not supported` : 'The item has no choice, order or match interaction',
+    };
+  }
+
+  const responseId = attribute(interaction, 'responseIdentifier');
+  const declaration =
+    findAll(itemNodes, 'responseDeclaration').find((node) => attribute(node, 'identifier') === responseId) ??
+    findFirst(itemNodes, 'responseDeclaration');
+  const correctValues = declaration
+    ? findAll(childrenOf(findFirst([declaration], 'correctResponse') ?? {}), 'value').map((node) =>
+        textOf(childrenOf(node))
+      )
+    : [];
+
+  const stem = textOf(childrenOf(itemBody), INTERACTIONS);
+  const prompt = textOf(childrenOf(findFirst([interaction], 'prompt') ?? {}));
+  const question = [stem, prompt].filter(Boolean).join('\n') || attribute(item, 'title') || '';
+
+  const feedback = findAll(itemNodes, 'modalFeedback')
+    .map((node) => textOf(childrenOf(node)))
+    .filter(Boolean);
+  const base = { question, ...(feedback.length > 0 && { explanation: feedback.join('\n') }) };
+
+  const choices = (tag: string, nodes: XmlNode[] = [interaction]) =>
+    findAll(nodes, tag).map((node) => ({
+      id: attribute(node, 'identifier') ?? '',
+      text: textOf(childrenOf(node), new Set(['feedbackInline'])),
+    }));
+
+  switch (tagOf(interaction)) {
+    case 'choiceInteraction': {
+      const options = choices('simpleChoice').map((choice) => ({
+        text: choice.text,
+        isCorrect: correctValues.includes(choice.id),
+      }));
+      const maxChoices = Number(attribute(interaction, 'maxChoices') ?? 1);
+      const isMultiple =
+        maxChoices !== 1 || attribute(declaration ?? {}, 'cardinality') === 'multiple' || correctValues.length > 1;
+      return {
+        location,
+        data: { ...base, question_type: isMultiple ? 'multi_select' : 'single_choice', options },
+      };
+    }
+
+    case 'orderInteraction': {
+      const byId = new Map(choices('simpleChoice').map((choice) => [choice.id, choice.text]));
+      const ordered = correctValues.map((id) => byId.get(id));
+      if (ordered.length === 0 || ordered.some((text) => text === undefined)) {
+        return { location, error: 'The correct order does not list the item choices' };
+      }
+      return {
+        location,
+        data: {
+          ...base,
+          question_type: 'ordering',
+          options: ordered.map((text) => ({ text: text as string, isCorrect: false })),
+        },
+      };
+    }
+
+    default: {
+      const [sources, targets] = findAll([interaction], 'simpleMatchSet').map((set) =>
+        choices('simpleAssociableChoice', childrenOf(set))
+      );
+      const targetText = new Map((targets ?? []).map((choice) => [choice.id, choice.text]));
+      // Correct pairs are "source target" identifier values
+      const pairs = new Map(correctValues.map((value) => value.split(/\s+/) as [string, string]));
+      const options = (sources ?? []).map((source) => {
+        const match = targetText.get(pairs.get(source.id) ?? '');
+        return { text: source.text, isCorrect: false, ...(match && { match }) };
+      });
+      return { location, data: { ...base, question_type: 'matching', options } };
+    }
+  }
+}
+
+/**
+ * Items of one XML document, numbered from the location after `offset`
+ */
+function parseDocument(text: string, offset = 0): QuizParseResult {
+  const valid = XMLValidator.validate(text);
+  if (valid !== true) {
+    return { success: false, error: `The XML is not valid: ${valid.err.msg} (line ${valid.err.line})` };
+  }
+
+  const items = findAll(xmlParser.parse(text) as XmlNode[], 'assessmentItem');
+  return { success: true, questions: items.map((item, index) => parseItem(item, offset + index + 1)) };
+}
+
+/**
+ * Items of a zipped QTI content package, from every XML file except the manifest
+ */
+export function parseQtiPackage(data: Uint8Array): QuizParseResult {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data, {
+      filter: (file) => /\.xml$/i.test(file.name) && !/(?:^|\/)imsmanifest\.xml$/i.test(file.name),
+    });
+  } catch {
+    return { success: false, error: 'The file is not a valid zip package' };
+  }
+
+  const questions: ParsedQuizQuestion[] = [];
+  for (const name of Object.keys(files).sort()) {
+    const result = parseDocument(strFromU8(files[name]), questions.length);
+    if (!result.success) {
+      return { success: false, error: `${name}: ${result.error}` };
+    }
+    questions.push(...result.questions);
+  }
+
+  if (questions.length === 0) {
+    return { success: false, error: 'No QTI assessment items found in the package' };
+  }
+  return { success: true, questions };
+}
+
+export const qtiParser: QuizFormatParser = {
+  format: 'qti',
+  label: 'QTI',
+  extensions: ['xml', 'zip'],
+  locationLabel: 'Item',
+
+  parse(text) {
+    const result = parseDocument(text);
+    if (result.success && result.questions.length === 0) {
+      return { success: false, error: 'No QTI assessment items found' };
+    }
+    return result;
+  },
+};
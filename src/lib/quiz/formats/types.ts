@@ -0,0 +1,70 @@
+/**
+ * Quiz Upload Formats
+ * Each format has a parser that turns a file into questions in the quiz JSON shape. Parsers
+ * only read the file; the questions they return are validated together, so every format
+ * reports errors the same way.
+ */
+
+export const QUIZ_UPLOAD_FORMATS = ['json', 'csv', 'markdown', 'gift', 'qti'] as const;
+
+export type QuizUploadFormat = (typeof QUIZ_UPLOAD_FORMATS)[number];
+
+/**
+ * A question read from a file, before validation
+ */
+export interface ParsedQuizQuestion {
+  location: number; // Row, line or item number where the question starts
+  data?: unknown; // The question in the quiz JSON shape
+  error?: string; // Why the question could not be read
+}
+
+export type QuizParseResult =
+  | { success: true; questions: ParsedQuizQuestion[] }
+  | { success: false; error: string }; // The file as a whole could not be read
+
+export interface QuizFormatParser {
+  format: QuizUploadFormat;
+  label: string;
+  extensions: string[];
+  locationLabel: string; // What a location counts, e.g. "Row" or "Line"
+  parse(text: string, fileName?: string): QuizParseResult;
+}
+
+/**
+ * Split a list of answer references such as "A, C", "1;3" or "B D"
+ */
+export function splitAnswerList(value: string): string[] {
+  return value
+    .split(/[,;|]/)
+    .map((token) => token.trim())
+    .filter(Boolean)
+    .flatMap((token) => (/^(?:[a-z]|\d+)(?:\s+(?:[a-z]|\d+))+$/i.test(token) ? token.split(/\s+/) : [token]));
+}
+
+const TYPE_ALIASES: Record<string, string> = {
+  single: 'single_choice',
+  single_choice: 'single_choice',
+  multiple_choice: 'single_choice',
+  mc: 'single_choice',
+  multi: 'multi_select',
+  multi_select: 'multi_select',
+  multiple_select: 'multi_select',
+  multiple_answer: 'multi_select',
+  multiple_response: 'multi_select',
+  select_all: 'multi_select',
+  ordering: 'ordering',
+  order: 'ordering',
+  sequence: 'ordering',
+  matching: 'matching',
+  match: 'matching',
+  hotspot: 'hotspot',
+};
+
+/**
+ * The question type named by a spreadsheet cell or metadata line, or undefined for an unknown name
+ * so validation can report it
+ */
+export function normalizeQuestionType(value: string): string | undefined {
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return key ? TYPE_ALIASES[key] ?? key : undefined;
+}
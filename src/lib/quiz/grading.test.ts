@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { gradeQuizResponse, getAnswerReveal, toPublicQuestionFields } from './grading';
+
+const orderingQuestion = {
+  questionType: 'ordering',
+  options: [
+    { id: 'detect', text: 'Detection', isCorrect: false },
+    { id: 'respond', text: 'Response', isCorrect: false },
+    { id: 'recover', text: 'Recovery', isCorrect: false },
+  ],
+};
+
+const matchingQuestion = {
+  questionType: 'matching',
+  options: [
+    { id: 'blp', text: 'Bell-LaPadula', isCorrect: false, match: 'Confidentiality' },
+    { id: 'biba', text: 'Biba', isCorrect: false, match: 'Integrity' },
+    { id: 'cw', text: 'Clark-Wilson', isCorrect: false, match: 'Integrity' },
+  ],
+};
+
+describe('gradeQuizResponse', () => {
+  it('grades an ordering response against the stored order', () => {
+    expect(gradeQuizResponse(orderingQuestion, { type: 'ordering', optionIds: ['detect', 'respond', 'recover'] })).toBe(true);
+    expect(gradeQuizResponse(orderingQuestion, { type: 'ordering', optionIds: ['respond', 'detect', 'recover'] })).toBe(false);
+  });
+
+  it('rejects an ordering response that leaves items out', () => {
+    expect(gradeQuizResponse(orderingQuestion, { type: 'ordering', optionIds: ['detect', 'respond'] })).toBeNull();
+  });
+
+  it('requires every matching item to be paired correctly', () => {
+    const matches = { blp: 'Confidentiality', biba: 'Integrity', cw: 'Integrity' };
+    expect(gradeQuizResponse(matchingQuestion, { type: 'matching', matches })).toBe(true);
+    expect(gradeQuizResponse(matchingQuestion, { type: 'matching', matches: { ...matches, cw: 'Confidentiality' } })).toBe(false);
+    expect(gradeQuizResponse(matchingQuestion, { type: 'matching', matches: { blp: 'Confidentiality' } })).toBeNull();
+  });
+
+  it('treats questions without a type as single choice', () => {
+    const question = { options: [{ id: 'a', text: 'A', isCorrect: true }, { id: 'b', text: 'B', isCorrect: false }] };
+    expect(gradeQuizResponse(question, { type: 'single_choice', optionId: 'a' })).toBe(true);
+    expect(gradeQuizResponse(question, { type: 'ordering', optionIds: ['a', 'b'] })).toBeNull();
+  });
+});
+
+describe('toPublicQuestionFields', () => {
+  it('lists each matching choice once, sorted, without the pairs', () => {
+    const fields = toPublicQuestionFields(matchingQuestion);
+
+    expect(fields.matchChoices).toEqual(['Confidentiality', 'Integrity']);
+    expect(fields.options).toEqual([
+      { id: 'blp', text: 'Bell-LaPadula' },
+      { id: 'biba', text: 'Biba' },
+      { id: 'cw', text: 'Clark-Wilson' },
+    ]);
+  });
+
+  it('hides hotspot regions until the answer is revealed', () => {
+    const question = {
+      questionType: 'hotspot',
+      imageUrl: 'https://example.com/diagram.png',
+      options: [{ id: 'dmz', text: 'DMZ', isCorrect: true, region: { x: 0, y: 0, width: 10, height: 10 } }],
+    };
+
+    expect(toPublicQuestionFields(question).options).toEqual([]);
+    expect(
+      getAnswerReveal({
+        ...question,
+        explanation: null,
+        eliminationTactics: null,
+        correctAnswerWithJustification: null,
+        compareRemainingOptionsWithJustification: null,
+        correctOptionsJustification: null,
+      }).hotspotRegions
+    ).toEqual([{ id: 'dmz', text: 'DMZ', isCorrect: true, region: { x: 0, y: 0, width: 10, height: 10 } }]);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Quiz Grading
+ * Grades quiz answers on the server so the answer key never reaches the browser.
+ */
+
+import {
+  getQuestionType,
+  isPointInRegion,
+  type HotspotRegion,
+  type QuizQuestionType,
+  type QuizResponse,
+  type RevealedHotspotRegion,
+} from '@/lib/quiz/question-types';
+import { shuffleArray } from '@/lib/utils/shuffle';
+
+export interface StoredQuizOption {
+  id: string; // Persistent id assigned by quizQuestionSchema
+  text: string;
+  isCorrect: boolean;
+  order?: number;
+  match?: string; // Matching questions: the text this item pairs with
+  region?: HotspotRegion; // Hotspot questions: where this region sits on the image
+}
+
+export interface PublicQuizOption {
+  id: string;
+  text: string;
+}
+
+// Question fields a learner sees before answering
+export interface PublicQuizQuestionFields {
+  questionType: QuizQuestionType;
+  imageUrl: string | null;
+  options: PublicQuizOption[]; // Empty for hotspot questions, whose regions are the answer key
+  matchChoices?: string[]; // Matching questions: every match text, sorted so the list is stable
+}
+
+export interface QuizQuestionRecord {
+  questionType?: string | null;
+  options: unknown;
+  explanation: string | null;
+  eliminationTactics: string | null;
+  correctAnswerWithJustification: string | null;
+  compareRemainingOptionsWithJustification: string | null;
+  correctOptionsJustification: string | null;
+}
+
+export interface QuizAnswerReveal {
+  questionType: QuizQuestionType;
+  correctOptionIds: string[]; // Ordering questions: every option id in the correct order
+  correctMatches?: Record<string, string>; // Matching questions: option id -> match text
+  hotspotRegions?: RevealedHotspotRegion[];
+  explanation: string | null;
+  eliminationTactics: Record<string, string> | null;
+  correctAnswerWithJustification: Record<string, string> | null;
+  compareRemainingOptionsWithJustification: Record<string, string> | null;
+  correctOptionsJustification: Record<string, string> | null;
+}
+
+/**
+ * Safely parse a JSON-encoded justification column
+ */
+export function safeJsonParse(str: string | null): Record<string, string> | null {
+  if (!str) return null;
+  try {
+    const parsed = JSON.parse(str);
+    return typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the options column of a quiz question row
+ */
+export function getStoredOptions(options: unknown): StoredQuizOption[] {
+  return Array.isArray(options) ? (options as StoredQuizOption[]) : [];
+}
+
+/**
+ * Strip the answer key from a question's options before sending them to a learner
+ */
+export function toPublicOptions(options: unknown): PublicQuizOption[] {
+  return getStoredOptions(options).map((option) => ({ id: option.id, text: option.text }));
+}
+
+/**
+ * Put an ordering question's options out of their stored order, which is the answer key
+ */
+function scrambleOrderingOptions(options: PublicQuizOption[]): PublicQuizOption[] {
+  const shuffled = shuffleArray(options);
+  const unchanged = shuffled.every((option, index) => option.id === options[index].id);
+  return unchanged && shuffled.length > 1 ? [...shuffled.slice(1), shuffled[0]] : shuffled;
+}
+
+/**
+ * Strip the answer key from a question before sending it to a learner
+ */
+export function toPublicQuestionFields(question: {
+  questionType?: string | null;
+  imageUrl?: string | null;
+  options: unknown;
+}): PublicQuizQuestionFields {
+  const questionType = getQuestionType(question.questionType);
+  const options = questionType === 'hotspot' ? [] : toPublicOptions(question.options);
+  const fields: PublicQuizQuestionFields = {
+    questionType,
+    imageUrl: question.imageUrl ?? null,
+    options: questionType === 'ordering' ? scrambleOrderingOptions(options) : options,
+  };
+
+  if (questionType === 'matching') {
+    const matches = getStoredOptions(question.options).flatMap((option) => (option.match ? [option.match] : []));
+    fields.matchChoices = Array.from(new Set(matches)).sort((a, b) => a.localeCompare(b));
+  }
+
+  return fields;
+}
+
+/**
+ * Grade a selected option against the stored options
+ * Returns null when the id does not match an option
+ */
+export function gradeSelectedOption(options: unknown, selectedOptionId: string): boolean | null {
+  const selected = getStoredOptions(options).find((option) => option.id === selectedOptionId);
+  if (!selected) {
+    return null;
+  }
+  return selected.isCorrect === true;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+// Check that ids are distinct and all belong to the question
+function areKnownOptionIds(options: StoredQuizOption[], ids: string[]): boolean {
+  return new Set(ids).size === ids.length && ids.every((id) => options.some((option) => option.id === id));
+}
+
+/**
+ * Grade a learner's response to any question type
+ * Returns null when the response does not fit the question (wrong type, unknown ids, incomplete)
+ *
+ * - multi_select is all-or-nothing: exactly the correct options must be chosen
+ * - ordering must put every item in the stored order
+ * - matching must pair every item with its match
+ * - hotspot is correct when the point falls inside a correct region
+ */
+export function gradeQuizResponse(
+  question: { questionType?: string | null; options: unknown },
+  response: unknown
+): boolean | null {
+  const questionType = getQuestionType(question.questionType);
+  if (!response || typeof response !== 'object' || (response as { type?: unknown }).type !== questionType) {
+    return null;
+  }
+
+  const options = getStoredOptions(question.options);
+  const answer = response as QuizResponse;
+
+  switch (answer.type) {
+    case 'single_choice':
+      return typeof answer.optionId === 'string' ? gradeSelectedOption(options, answer.optionId) : null;
+
+    case 'multi_select': {
+      if (!isStringArray(answer.optionIds) || !areKnownOptionIds(options, answer.optionIds)) return null;
+      const correctIds = getCorrectOptionIds(options);
+      return answer.optionIds.length === correctIds.length && correctIds.every((id) => answer.optionIds.includes(id));
+    }
+
+    case 'ordering': {
+      if (!isStringArray(answer.optionIds) || !isValidOptionOrder(options, answer.optionIds)) return null;
+      return options.every((option, index) => answer.optionIds[index] === option.id);
+    }
+
+    case 'matching': {
+      const matches = answer.matches;
+      if (!matches || typeof matches !== 'object') return null;
+      const ids = Object.keys(matches);
+      if (ids.length !== options.length || !areKnownOptionIds(options, ids)) return null;
+      if (!ids.every((id) => typeof matches[id] === 'string')) return null;
+      return options.every((option) => matches[option.id] === option.match);
+    }
+
+    case 'hotspot': {
+      const point = answer.point;
+      if (!point || typeof point.x !== 'number' || typeof point.y !== 'number') return null;
+      if (point.x < 0 || point.x > 100 || point.y < 0 || point.y > 100) return null;
+      return options.some((option) => option.isCorrect && option.region && isPointInRegion(point, option.region));
+    }
+  }
+}
+
+/**
+ * Read the response stored with an answer
+ * Answers recorded before question types only have a selected option id
+ */
+export function getRecordedResponse(answer: { response?: unknown; selectedOptionId: string | null }): QuizResponse | null {
+  if (answer.response) {
+    return answer.response as QuizResponse;
+  }
+  return answer.selectedOptionId ? { type: 'single_choice', optionId: answer.selectedOptionId } : null;
+}
+
+/**
+ * Ids of the correct options, in stored order
+ */
+export function getCorrectOptionIds(options: unknown): string[] {
+  return getStoredOptions(options).flatMap((option) => (option.isCorrect ? [option.id] : []));
+}
+
+/**
+ * Check that a displayed option order contains every stored option exactly once
+ */
+export function isValidOptionOrder(options: unknown, optionOrder: unknown): optionOrder is string[] {
+  const storedIds = getStoredOptions(options).map((option) => option.id);
+  if (!Array.isArray(optionOrder) || optionOrder.length !== storedIds.length) {
+    return false;
+  }
+  return new Set(optionOrder).size === optionOrder.length && optionOrder.every((id) => storedIds.includes(id));
+}
+
+/**
+ * Build the answer key and explanation revealed after an answer is submitted
+ */
+export function getAnswerReveal(question: QuizQuestionRecord): QuizAnswerReveal {
+  const questionType = getQuestionType(question.questionType);
+  const options = getStoredOptions(question.options);
+
+  const answerKey: Pick<QuizAnswerReveal, 'correctOptionIds' | 'correctMatches' | 'hotspotRegions'> = {
+    correctOptionIds: questionType === 'ordering'
+      ? options.map((option) => option.id)
+      : questionType === 'matching' ? [] : getCorrectOptionIds(options),
+  };
+
+  if (questionType === 'matching') {
+    answerKey.correctMatches = Object.fromEntries(options.map((option) => [option.id, option.match ?? '']));
+  }
+
+  if (questionType === 'hotspot') {
+    answerKey.hotspotRegions = options.flatMap((option) =>
+      option.region ? [{ id: option.id, text: option.text, isCorrect: option.isCorrect, region: option.region }] : []
+    );
+  }
+
+  return {
+    questionType,
+    ...answerKey,
+    explanation: question.explanation,
+    eliminationTactics: safeJsonParse(question.eliminationTactics),
+    correctAnswerWithJustification: safeJsonParse(question.correctAnswerWithJustification),
+    compareRemainingOptionsWithJustification: safeJsonParse(question.compareRemainingOptionsWithJustification),
+    correctOptionsJustification: safeJsonParse(question.correctOptionsJustification),
+  };
+}
+
+/**
+ * Score a quiz from its stored answers
+ * Unanswered questions count as wrong
+ */
+export function scoreQuizAnswers(
+  answers: Array<{ isCorrect: boolean }>,
+  totalQuestions: number
+): { correctAnswers: number; totalQuestions: number; scorePercentage: number } {
+  const correctAnswers = answers.filter((answer) => answer.isCorrect).length;
+  const total = Math.max(totalQuestions, answers.length);
+  return {
+    correctAnswers,
+    totalQuestions: total,
+    scorePercentage: total > 0 ? (correctAnswers / total) * 100 : 0,
+  };
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeItems, median, pointBiserial, type ItemAnswer, type ItemQuestion } from './item-analysis';
+
+const OPTIONS = [
+  { id: 'a', text: 'A', isCorrect: true },
+  { id: 'b', text: 'B', isCorrect: false },
+  { id: 'c', text: 'C', isCorrect: false },
+  { id: 'd', text: 'D', isCorrect: false },
+];
+
+function question(id: string, overrides: Partial<ItemQuestion> = {}): ItemQuestion {
+  return { id, questionType: 'single_choice', options: OPTIONS, ...overrides };
+}
+
+function answer(questionId: string, clerkUserId: string, optionId: string, timeSpent: number | null = 30): ItemAnswer {
+  return {
+    questionId,
+    clerkUserId,
+    isCorrect: optionId === 'a',
+    response: { type: 'single_choice', optionId },
+    timeSpent,
+  };
+}
+
+/**
+ * Twelve learners answer an anchor question; strong learners (u0-u5) get it right
+ * and then answer the question under test with the choices given
+ */
+function cohort(choices: string[]): ItemAnswer[] {
+  return choices.flatMap((optionId, index) => {
+    const user = `u${index}`;
+    const strong = index < 6;
+    return [
+      answer('anchor-1', user, strong ? 'a' : 'b'),
+      answer('anchor-2', user, strong ? 'a' : 'c'),
+      answer('q', user, optionId, 10 + index),
+    ];
+  });
+}
+
+describe('median', () => {
+  it('takes the middle value, or the mean of the middle two', () => {
+    expect(median([30, 10, 20])).toBe(20);
+    expect(median([40, 10, 20, 30])).toBe(25);
+    expect(median([])).toBeNull();
+  });
+});
+
+describe('pointBiserial', () => {
+  it('is positive when learners who get the item right score higher overall', () => {
+    const r = pointBiserial([
+      { correct: true, score: 0.9 },
+      { correct: true, score: 0.8 },
+      { correct: false, score: 0.3 },
+      { correct: false, score: 0.2 },
+    ]);
+
+    expect(r).toBeGreaterThan(0.9);
+  });
+
+  it('is undefined when nobody or everybody is right', () => {
+    expect(pointBiserial([{ correct: true, score: 0.5 }, { correct: true, score: 0.9 }])).toBeNull();
+    expect(pointBiserial([{ correct: false, score: 0.5 }, { correct: true, score: 0.5 }])).toBeNull();
+  });
+});
+
+describe('analyzeItems', () => {
+  it('reports share correct, discrimination, option shares and median time', () => {
+    const answers = cohort(['a', 'a', 'a', 'a', 'a', 'b', 'b', 'c', 'd', 'b', 'c', 'a']);
+    const [stats] = analyzeItems([question('q')], answers);
+
+    expect(stats.responses).toBe(12);
+    expect(stats.learners).toBe(12);
+    expect(stats.pValue).toBe(0.5);
+    expect(stats.discrimination).toBeGreaterThan(0.3);
+    expect(stats.medianSeconds).toBe(15.5);
+    expect(stats.options?.map((option) => [option.id, option.count])).toEqual([
+      ['a', 6],
+      ['b', 3],
+      ['c', 2],
+      ['d', 1],
+    ]);
+    expect(stats.flags).toEqual([]);
+  });
+
+  it('leaves the question itself out of the score it is correlated with', () => {
+    // Every learner is right on the question and nothing else, so the rest score has no spread
+    const answers = ['u1', 'u2', 'u3'].flatMap((user) => [answer('q', user, 'a'), answer('other', user, 'b')]);
+
+    expect(analyzeItems([question('q')], answers)[0].discrimination).toBeNull();
+  });
+
+  it('flags questions that nearly everyone or almost nobody gets right', () => {
+    const easy = analyzeItems([question('q')], cohort(Array(12).fill('a')))[0];
+    const hard = analyzeItems([question('q')], cohort(['a', 'a', 'b', 'c', 'd', 'b', 'c', 'd', 'b', 'c', 'd', 'b']))[0];
+
+    expect(easy.flags).toContain('too_easy');
+    expect(hard.flags).toContain('too_hard');
+  });
+
+  it('flags a likely mis-key when a distractor outdraws the key or strong learners miss it', () => {
+    const outdrawn = analyzeItems([question('q')], cohort(['b', 'b', 'b', 'b', 'a', 'a', 'a', 'c', 'd', 'b', 'b', 'c']))[0];
+    const inverted = analyzeItems([question('q')], cohort(['c', 'd', 'b', 'c', 'd', 'b', 'a', 'a', 'a', 'a', 'a', 'b']))[0];
+
+    expect(outdrawn.flags).toContain('likely_miskeyed');
+    expect(inverted.discrimination).toBeLessThan(-0.2);
+    expect(inverted.flags).toContain('likely_miskeyed');
+  });
+
+  it('flags distractors that almost nobody picks', () => {
+    const [stats] = analyzeItems([question('q')], cohort(['a', 'a', 'a', 'a', 'a', 'a', 'b', 'b', 'b', 'c', 'c', 'c']));
+
+    expect(stats.flags).toEqual(['dead_distractor']);
+    expect(stats.deadDistractorIds).toEqual(['d']);
+  });
+
+  it('does not flag questions with too few answers', () => {
+    const [stats] = analyzeItems([question('q')], cohort(Array(5).fill('b')));
+
+    expect(stats.pValue).toBe(0);
+    expect(stats.flags).toEqual([]);
+  });
+
+  it('has no option shares for question types without chosen options', () => {
+    const [stats] = analyzeItems([question('q', { questionType: 'ordering' })], [
+      { questionId: 'q', clerkUserId: 'u1', isCorrect: true, response: { type: 'ordering', optionIds: ['a', 'b'] }, timeSpent: 12 },
+    ]);
+
+    expect(stats.options).toBeNull();
+    expect(stats.pValue).toBe(1);
+    expect(stats.medianSeconds).toBe(12);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Item Analysis
+ * Classical test statistics for quiz questions from learners' recorded answers: difficulty
+ * (share correct), point-biserial discrimination against each learner's score on the rest of
+ * the deck, how often each option is chosen and how long answers take, plus review flags.
+ */
+
+import { getQuestionType, type QuizQuestionType, type QuizResponse } from '@/lib/quiz/question-types';
+
+export const ITEM_ANALYSIS_CONFIG = {
+  MIN_RESPONSES: 10, // Before a question is flagged
+  TOO_EASY_P: 0.9, // Share correct above which a question barely tests anything
+  TOO_HARD_P: 0.3, // Share correct below which a question is near guessing on four options
+  MISKEY_DISCRIMINATION: -0.2, // Strong learners get it wrong more often than weak ones
+  DEAD_DISTRACTOR_SHARE: 0.05, // A distractor almost nobody picks
+};
+
+export type ItemFlag = 'too_easy' | 'too_hard' | 'likely_miskeyed' | 'dead_distractor';
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  too_easy: 'Too easy',
+  too_hard: 'Too hard',
+  likely_miskeyed: 'Likely mis-keyed',
+  dead_distractor: 'Dead distractor',
+};
+
+export interface ItemOption {
+  id: string;
+  text: string;
+  isCorrect: boolean;
+}
+
+export interface ItemQuestion {
+  id: string;
+  questionType?: string | null;
+  options: ItemOption[];
+}
+
+export interface ItemAnswer {
+  questionId: string;
+  clerkUserId: string;
+  isCorrect: boolean;
+  response: QuizResponse | null;
+  timeSpent: number | null; // Seconds
+}
+
+export interface OptionStats extends ItemOption {
+  count: number;
+  share: number; // Of responses that chose options
+}
+
+export interface ItemStats {
+  questionId: string;
+  questionType: QuizQuestionType;
+  responses: number;
+  learners: number;
+  pValue: number | null; // Share correct, 0-1
+  discrimination: number | null; // Point-biserial correlation, -1 to 1
+  medianSeconds: number | null;
+  options: OptionStats[] | null; // Choice questions only
+  flags: ItemFlag[];
+  deadDistractorIds: string[];
+}
+
+export interface DeckItemStats extends ItemStats {
+  source: 'deck' | 'flashcard';
+  questionText: string;
+  flashcardId: string | null;
+}
+
+export interface DeckItemAnalysis {
+  deckId: string;
+  totalAnswers: number;
+  learners: number;
+  items: DeckItemStats[];
+  flagCounts: Record<ItemFlag, number>;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Point-biserial correlation between a right/wrong outcome and a score
+ * Null when either side has no spread (everyone right, everyone wrong, or equal scores)
+ */
+export function pointBiserial(observations: Array<{ correct: boolean; score: number }>): number | null {
+  const n = observations.length;
+  const right = observations.filter((observation) => observation.correct);
+  if (n < 2 || right.length === 0 || right.length === n) {
+    return null;
+  }
+
+  const mean = observations.reduce((sum, observation) => sum + observation.score, 0) / n;
+  const variance = observations.reduce((sum, observation) => sum + (observation.score - mean) ** 2, 0) / n;
+  if (variance === 0) {
+    return null;
+  }
+
+  const meanRight = right.reduce((sum, observation) => sum + observation.score, 0) / right.length;
+  const meanWrong =
+    observations.filter((observation) => !observation.correct).reduce((sum, observation) => sum + observation.score, 0) /
+    (n - right.length);
+  const p = right.length / n;
+
+  return ((meanRight - meanWrong) / Math.sqrt(variance)) * Math.sqrt(p * (1 - p));
+}
+
+/**
+ * Option ids a response chose, for the question types where options are picked
+ */
+function getChosenOptionIds(response: QuizResponse | null): string[] | null {
+  if (response?.type === 'single_choice') return [response.optionId];
+  if (response?.type === 'multi_select') return response.optionIds;
+  return null;
+}
+
+function getOptionStats(question: ItemQuestion, answers: ItemAnswer[]): OptionStats[] | null {
+  const questionType = getQuestionType(question.questionType);
+  if (questionType !== 'single_choice' && questionType !== 'multi_select') {
+    return null;
+  }
+
+  const counts = new Map(question.options.map((option) => [option.id, 0]));
+  let responses = 0;
+  for (const answer of answers) {
+    const chosen = getChosenOptionIds(answer.response);
+    if (!chosen) continue;
+    responses += 1;
+    for (const id of chosen) {
+      if (counts.has(id)) counts.set(id, counts.get(id)! + 1);
+    }
+  }
+
+  return question.options.map((option) => {
+    const count = counts.get(option.id) ?? 0;
+    return { ...option, count, share: responses > 0 ? round(count / responses, 3) : 0 };
+  });
+}
+
+/**
+ * Each learner's share correct on the deck, with the answers to one question left out
+ */
+function getRestScores(answers: ItemAnswer[]) {
+  const totals = new Map<string, { answered: number; correct: number }>();
+  for (const answer of answers) {
+    const total = totals.get(answer.clerkUserId) ?? { answered: 0, correct: 0 };
+    total.answered += 1;
+    total.correct += answer.isCorrect ? 1 : 0;
+    totals.set(answer.clerkUserId, total);
+  }
+
+  return (clerkUserId: string, itemAnswers: ItemAnswer[]): number | null => {
+    const total = totals.get(clerkUserId);
+    const own = itemAnswers.filter((answer) => answer.clerkUserId === clerkUserId);
+    const answered = (total?.answered ?? 0) - own.length;
+    if (answered <= 0) {
+      return null;
+    }
+    const correct = (total?.correct ?? 0) - own.filter((answer) => answer.isCorrect).length;
+    return correct / answered;
+  };
+}
+
+function getFlags(stats: Omit<ItemStats, 'flags' | 'deadDistractorIds'>): Pick<ItemStats, 'flags' | 'deadDistractorIds'> {
+  const flags: ItemFlag[] = [];
+  if (stats.responses < ITEM_ANALYSIS_CONFIG.MIN_RESPONSES || stats.pValue === null) {
+    return { flags, deadDistractorIds: [] };
+  }
+
+  if (stats.pValue > ITEM_ANALYSIS_CONFIG.TOO_EASY_P) flags.push('too_easy');
+  if (stats.pValue < ITEM_ANALYSIS_CONFIG.TOO_HARD_P) flags.push('too_hard');
+
+  const distractors = (stats.options ?? []).filter((option) => !option.isCorrect);
+  const keyShare = Math.max(0, ...(stats.options ?? []).filter((option) => option.isCorrect).map((option) => option.share));
+  const outdrawsKey = stats.questionType === 'single_choice' && distractors.some((option) => option.share > keyShare);
+  const negative = stats.discrimination !== null && stats.discrimination <= ITEM_ANALYSIS_CONFIG.MISKEY_DISCRIMINATION;
+  if (outdrawsKey || negative) flags.push('likely_miskeyed');
+
+  const deadDistractorIds = distractors
+    .filter((option) => option.share < ITEM_ANALYSIS_CONFIG.DEAD_DISTRACTOR_SHARE)
+    .map((option) => option.id);
+  if (deadDistractorIds.length > 0) flags.push('dead_distractor');
+
+  return { flags, deadDistractorIds };
+}
+
+/**
+ * Statistics for every question, from all recorded answers to the questions given
+ */
+export function analyzeItems(questions: ItemQuestion[], answers: ItemAnswer[]): ItemStats[] {
+  const restScore = getRestScores(answers);
+  const byQuestion = new Map<string, ItemAnswer[]>();
+  for (const answer of answers) {
+    byQuestion.set(answer.questionId, [...(byQuestion.get(answer.questionId) ?? []), answer]);
+  }
+
+  return questions.map((question) => {
+    const itemAnswers = byQuestion.get(question.id) ?? [];
+    const correct = itemAnswers.filter((answer) => answer.isCorrect).length;
+    const observations = itemAnswers.flatMap((answer) => {
+      const score = restScore(answer.clerkUserId, itemAnswers);
+      return score === null ? [] : [{ correct: answer.isCorrect, score }];
+    });
+    const discrimination = pointBiserial(observations);
+    const times = itemAnswers.flatMap((answer) => (answer.timeSpent && answer.timeSpent > 0 ? [answer.timeSpent] : []));
+
+    const stats = {
+      questionId: question.id,
+      questionType: getQuestionType(question.questionType),
+      responses: itemAnswers.length,
+      learners: new Set(itemAnswers.map((answer) => answer.clerkUserId)).size,
+      pValue: itemAnswers.length > 0 ? round(correct / itemAnswers.length, 3) : null,
+      discrimination: discrimination === null ? null : round(discrimination, 3),
+      medianSeconds: median(times),
+      options: getOptionStats(question, itemAnswers),
+    };
+
+    return { ...stats, ...getFlags(stats) };
+  });
+}
+
+export function countFlags(items: ItemStats[]): Record<ItemFlag, number> {
+  const counts: Record<ItemFlag, number> = { too_easy: 0, too_hard: 0, likely_miskeyed: 0, dead_distractor: 0 };
+  for (const item of items) {
+    for (const flag of item.flags) {
+      counts[flag] += 1;
+    }
+  }
+  return counts;
+}
@@ -0,0 +1,236 @@
+/**
+ * Mistake Notebook
+ * Collects the quiz questions a learner answered wrong in any quiz, lists them with the
+ * previous wrong answer and the explanation, and grades spaced re-attempts.
+ */
+
+import { db } from '@/lib/db';
+import { mistakeNotebookEntries, quizSessionAnswers } from '@/lib/db/schema';
+import { and, asc, count, desc, eq, gt, isNotNull, isNull, lte, sql, type SQL } from 'drizzle-orm';
+import { toProgressColumns } from '@/lib/spaced-repetition/scheduler';
+import { shuffleArray } from '@/lib/utils/shuffle';
+import {
+  getAnswerReveal,
+  getRecordedResponse,
+  toPublicQuestionFields,
+  type PublicQuizQuestionFields,
+  type QuizAnswerReveal,
+} from '@/lib/quiz/grading';
+import type { QuizResponse } from '@/lib/quiz/question-types';
+import {
+  MISTAKE_NOTEBOOK_CONFIG,
+  getMistakeStatus,
+  scheduleMistake,
+  type MistakeStatus,
+} from '@/lib/quiz/mistake-review';
+
+// The question a mistake was made on: a flashcard quiz question or a deck quiz question
+export type MistakeQuestionRef = { quizQuestionId: string } | { deckQuizQuestionId: string };
+
+export interface MistakeNotebookEntry extends PublicQuizQuestionFields {
+  id: string;
+  status: MistakeStatus;
+  questionText: string;
+  source: string | null; // Name of the deck the question comes from
+  lastWrongResponse: QuizResponse | null;
+  lastWrongAt: Date;
+  timesWrong: number;
+  consecutiveCorrect: number;
+  nextReviewDate: Date;
+  retiredAt: Date | null;
+  reveal: QuizAnswerReveal | null; // Held back while the entry is due, so the re-attempt is a real test
+}
+
+export interface MistakeNotebookPage {
+  entries: MistakeNotebookEntry[];
+  counts: Record<MistakeStatus, number>;
+  hasMore: boolean;
+  retireAfter: number;
+}
+
+const questionColumns = {
+  id: true,
+  questionText: true,
+  questionType: true,
+  imageUrl: true,
+  options: true,
+  explanation: true,
+  eliminationTactics: true,
+  correctAnswerWithJustification: true,
+  compareRemainingOptionsWithJustification: true,
+  correctOptionsJustification: true,
+} as const;
+
+const entryWith = {
+  quizQuestion: {
+    columns: questionColumns,
+    with: { flashcard: { columns: { id: true }, with: { deck: { columns: { name: true } } } } },
+  },
+  deckQuizQuestion: {
+    columns: questionColumns,
+    with: { deck: { columns: { name: true } } },
+  },
+} as const;
+
+/**
+ * Add a wrongly answered question to the notebook, or put it back in rotation if it is already there
+ */
+export async function recordQuizMistake(
+  userId: string,
+  question: MistakeQuestionRef,
+  response: QuizResponse | null,
+  wrongAt: Date = new Date()
+): Promise<void> {
+  const isDeckQuestion = 'deckQuizQuestionId' in question;
+  const questionColumn = isDeckQuestion ? mistakeNotebookEntries.deckQuizQuestionId : mistakeNotebookEntries.quizQuestionId;
+  const questionId = isDeckQuestion ? question.deckQuizQuestionId : question.quizQuestionId;
+
+  const existing = await db.query.mistakeNotebookEntries.findFirst({
+    where: and(eq(mistakeNotebookEntries.clerkUserId, userId), eq(questionColumn, questionId)),
+  });
+
+  const schedule = toProgressColumns(scheduleMistake(existing ?? null, wrongAt));
+  const values = {
+    lastWrongResponse: response,
+    lastWrongAt: wrongAt,
+    consecutiveCorrect: 0,
+    ...schedule,
+    lastReviewedAt: wrongAt,
+    retiredAt: null,
+    updatedAt: wrongAt,
+  };
+
+  await db
+    .insert(mistakeNotebookEntries)
+    .values({ clerkUserId: userId, ...question, ...values })
+    .onConflictDoUpdate({
+      target: [mistakeNotebookEntries.clerkUserId, questionColumn],
+      set: { ...values, timesWrong: sql`${mistakeNotebookEntries.timesWrong} + 1` },
+    });
+}
+
+/**
+ * Add every wrong answer of a finished exam to the notebook
+ * Exams reveal nothing until they end, so their mistakes are only collected then
+ */
+export async function recordExamMistakes(userId: string, sessionId: string): Promise<void> {
+  const wrongAnswers = await db
+    .select({
+      deckQuizQuestionId: quizSessionAnswers.deckQuizQuestionId,
+      response: quizSessionAnswers.response,
+      selectedOptionId: quizSessionAnswers.selectedOptionId,
+      createdAt: quizSessionAnswers.createdAt,
+    })
+    .from(quizSessionAnswers)
+    .where(
+      and(
+        eq(quizSessionAnswers.sessionId, sessionId),
+        eq(quizSessionAnswers.isCorrect, false),
+        isNotNull(quizSessionAnswers.deckQuizQuestionId)
+      )
+    );
+
+  for (const answer of wrongAnswers) {
+    await recordQuizMistake(
+      userId,
+      { deckQuizQuestionId: answer.deckQuizQuestionId! },
+      getRecordedResponse(answer),
+      answer.createdAt
+    );
+  }
+}
+
+function statusCondition(status: MistakeStatus, now: Date): SQL | undefined {
+  switch (status) {
+    case 'due':
+      return and(isNull(mistakeNotebookEntries.retiredAt), lte(mistakeNotebookEntries.nextReviewDate, now));
+    case 'upcoming':
+      return and(isNull(mistakeNotebookEntries.retiredAt), gt(mistakeNotebookEntries.nextReviewDate, now));
+    case 'retired':
+      return isNotNull(mistakeNotebookEntries.retiredAt);
+  }
+}
+
+/**
+ * Load a notebook entry with its question, scoped to the user
+ */
+export async function getMistakeEntry(userId: string, entryId: string) {
+  return db.query.mistakeNotebookEntries.findFirst({
+    where: and(eq(mistakeNotebookEntries.id, entryId), eq(mistakeNotebookEntries.clerkUserId, userId)),
+    with: entryWith,
+  });
+}
+
+type EntryWithQuestion = NonNullable<Awaited<ReturnType<typeof getMistakeEntry>>>;
+
+/**
+ * Shape an entry for the notebook page
+ * Due entries are shown as a fresh question with shuffled options and no answer key
+ */
+export function toNotebookEntry(entry: EntryWithQuestion, now: Date = new Date()): MistakeNotebookEntry | null {
+  const question = entry.deckQuizQuestion ?? entry.quizQuestion;
+  if (!question) {
+    return null;
+  }
+
+  const status = getMistakeStatus(entry, now);
+  const fields = toPublicQuestionFields(question);
+  const source = entry.deckQuizQuestion?.deck.name ?? entry.quizQuestion?.flashcard.deck.name ?? null;
+
+  return {
+    id: entry.id,
+    status,
+    questionText: question.questionText,
+    source,
+    ...fields,
+    options: status === 'due' ? shuffleArray(fields.options) : fields.options,
+    lastWrongResponse: entry.lastWrongResponse,
+    lastWrongAt: entry.lastWrongAt,
+    timesWrong: entry.timesWrong,
+    consecutiveCorrect: entry.consecutiveCorrect,
+    nextReviewDate: entry.nextReviewDate,
+    retiredAt: entry.retiredAt,
+    reveal: status === 'due' ? null : getAnswerReveal(question),
+  };
+}
+
+/**
+ * One page of the user's notebook in the given status, with the count in each status
+ */
+export async function getMistakeNotebook(
+  userId: string,
+  status: MistakeStatus,
+  page: number = 0,
+  now: Date = new Date()
+): Promise<MistakeNotebookPage> {
+  const pageSize = MISTAKE_NOTEBOOK_CONFIG.PAGE_SIZE;
+  const isActive = isNull(mistakeNotebookEntries.retiredAt);
+  const isDue = sql`${mistakeNotebookEntries.nextReviewDate} <= ${now.toISOString()}::timestamp`;
+
+  const [rows, [counts]] = await Promise.all([
+    db.query.mistakeNotebookEntries.findMany({
+      where: and(eq(mistakeNotebookEntries.clerkUserId, userId), statusCondition(status, now)),
+      with: entryWith,
+      orderBy: status === 'retired'
+        ? [desc(mistakeNotebookEntries.retiredAt)]
+        : [asc(mistakeNotebookEntries.nextReviewDate)],
+      limit: pageSize + 1,
+      offset: page * pageSize,
+    }),
+    db
+      .select({
+        due: count(sql`CASE WHEN ${isActive} AND ${isDue} THEN 1 END`),
+        upcoming: count(sql`CASE WHEN ${isActive} AND NOT (${isDue}) THEN 1 END`),
+        retired: count(mistakeNotebookEntries.retiredAt),
+      })
+      .from(mistakeNotebookEntries)
+      .where(eq(mistakeNotebookEntries.clerkUserId, userId)),
+  ]);
+
+  return {
+    entries: rows.slice(0, pageSize).flatMap((row) => toNotebookEntry(row, now) ?? []),
+    counts: counts ?? { due: 0, upcoming: 0, retired: 0 },
+    hasMore: rows.length > pageSize,
+    retireAfter: MISTAKE_NOTEBOOK_CONFIG.RETIRE_AFTER_CORRECT,
+  };
+}
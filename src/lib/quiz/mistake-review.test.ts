@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { toProgressColumns } from '@/lib/spaced-repetition/scheduler';
+import {
+  MISTAKE_NOTEBOOK_CONFIG,
+  getMistakeStatus,
+  scheduleMistake,
+  scheduleMistakeAttempt,
+  type MistakeScheduleRow,
+} from './mistake-review';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2026-03-01T09:00:00Z');
+
+/**
+ * A notebook row for a question first answered wrong at START
+ */
+function newEntry(): MistakeScheduleRow {
+  const schedule = scheduleMistake(null, START);
+  return {
+    ...toProgressColumns(schedule),
+    consecutiveCorrect: 0,
+    lastReviewedAt: START,
+    retiredAt: null,
+  };
+}
+
+/**
+ * Re-attempt an entry on its due date and return the updated row
+ */
+function attemptWhenDue(entry: MistakeScheduleRow, isCorrect: boolean) {
+  const attemptedAt = entry.nextReviewDate;
+  const result = scheduleMistakeAttempt(entry, isCorrect, attemptedAt);
+  const row: MistakeScheduleRow = {
+    ...toProgressColumns(result.schedule),
+    consecutiveCorrect: result.consecutiveCorrect,
+    lastReviewedAt: attemptedAt,
+    retiredAt: result.retired ? attemptedAt : null,
+  };
+  return { result, row };
+}
+
+describe('scheduleMistake', () => {
+  it('brings a new mistake back within the day', () => {
+    const schedule = scheduleMistake(null, START);
+
+    expect(schedule.intervalDays).toBe(0.5);
+    expect(schedule.nextReviewDate).toEqual(new Date(START.getTime() + 0.5 * DAY_MS));
+  });
+
+  it('counts a repeat mistake on a learned question as a lapse', () => {
+    let entry = newEntry();
+    entry = attemptWhenDue(entry, true).row;
+    entry = attemptWhenDue(entry, true).row;
+
+    const schedule = scheduleMistake(entry, new Date(entry.nextReviewDate.getTime() + DAY_MS));
+
+    expect(schedule.lapses).toBe(1);
+    expect(schedule.intervalDays).toBe(0.5);
+  });
+});
+
+describe('scheduleMistakeAttempt', () => {
+  it('spaces correct re-attempts further apart', () => {
+    const first = attemptWhenDue(newEntry(), true);
+    const second = attemptWhenDue(first.row, true);
+
+    expect(first.result.schedule.intervalDays).toBeGreaterThan(0.5);
+    expect(second.result.schedule.intervalDays).toBeGreaterThan(first.result.schedule.intervalDays);
+  });
+
+  it(`retires a question after ${MISTAKE_NOTEBOOK_CONFIG.RETIRE_AFTER_CORRECT} correct re-attempts in a row`, () => {
+    let entry = newEntry();
+    const retired: boolean[] = [];
+
+    for (let i = 0; i < MISTAKE_NOTEBOOK_CONFIG.RETIRE_AFTER_CORRECT; i++) {
+      const { result, row } = attemptWhenDue(entry, true);
+      retired.push(result.retired);
+      entry = row;
+    }
+
+    expect(retired).toEqual([false, false, true]);
+    expect(entry.consecutiveCorrect).toBe(MISTAKE_NOTEBOOK_CONFIG.RETIRE_AFTER_CORRECT);
+  });
+
+  it('resets the streak on a wrong re-attempt', () => {
+    let entry = attemptWhenDue(newEntry(), true).row;
+    entry = attemptWhenDue(entry, true).row;
+
+    const { result } = attemptWhenDue(entry, false);
+
+    expect(result.consecutiveCorrect).toBe(0);
+    expect(result.retired).toBe(false);
+    expect(result.schedule.intervalDays).toBe(0.5);
+  });
+});
+
+describe('getMistakeStatus', () => {
+  it('is due once the next review date has passed, unless retired', () => {
+    const entry = newEntry();
+
+    expect(getMistakeStatus(entry, START)).toBe('upcoming');
+    expect(getMistakeStatus(entry, entry.nextReviewDate)).toBe('due');
+    expect(getMistakeStatus({ ...entry, retiredAt: START }, entry.nextReviewDate)).toBe('retired');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Mistake Review
+ * Schedules re-attempts of quiz questions a learner got wrong, using the flashcard
+ * spaced repetition scheduler, and retires them after enough correct answers in a row.
+ */
+
+import { scheduleReview, getSchedulingState, type ScheduledReview } from '@/lib/spaced-repetition/scheduler';
+
+export const MISTAKE_NOTEBOOK_CONFIG = {
+  RETIRE_AFTER_CORRECT: 3, // Consecutive correct re-attempts before a mistake is retired
+  CORRECT_RATING: 4, // Scheduler rating for a correct re-attempt ("Mostly")
+  WRONG_RATING: 1, // Scheduler rating for a wrong answer ("Not at all")
+  PAGE_SIZE: 50,
+};
+
+export type MistakeStatus = 'due' | 'upcoming' | 'retired';
+
+export const MISTAKE_STATUSES: MistakeStatus[] = ['due', 'upcoming', 'retired'];
+
+// The scheduling columns of a mistake_notebook_entries row
+export interface MistakeScheduleRow {
+  easeFactor: string | number | null;
+  stability: string | number | null;
+  intervalDays: string | number | null;
+  lastIntervalDays: string | number | null;
+  lapses: number | null;
+  consecutiveCorrect: number;
+  lastReviewedAt: Date;
+  nextReviewDate: Date;
+  retiredAt: Date | null;
+}
+
+export interface MistakeAttemptResult {
+  schedule: ScheduledReview;
+  consecutiveCorrect: number;
+  retired: boolean;
+}
+
+/**
+ * Where a notebook entry stands: retired, due for a re-attempt, or waiting for its next review
+ */
+export function getMistakeStatus(entry: Pick<MistakeScheduleRow, 'nextReviewDate' | 'retiredAt'>, now: Date = new Date()): MistakeStatus {
+  if (entry.retiredAt) {
+    return 'retired';
+  }
+  return new Date(entry.nextReviewDate) <= now ? 'due' : 'upcoming';
+}
+
+/**
+ * Schedule a question the learner just got wrong in a quiz
+ * A question already in the notebook lapses: its streak resets and it comes back soon,
+ * even if it had been retired
+ */
+export function scheduleMistake(existing: MistakeScheduleRow | null, wrongAt: Date = new Date()): ScheduledReview {
+  return existing
+    ? scheduleReview(getSchedulingState(existing), MISTAKE_NOTEBOOK_CONFIG.WRONG_RATING, wrongAt, existing.lastReviewedAt)
+    : scheduleReview(null, MISTAKE_NOTEBOOK_CONFIG.WRONG_RATING, wrongAt);
+}
+
+/**
+ * Schedule the next re-attempt after the learner answered a notebook question
+ */
+export function scheduleMistakeAttempt(
+  entry: MistakeScheduleRow,
+  isCorrect: boolean,
+  attemptedAt: Date = new Date()
+): MistakeAttemptResult {
+  const rating = isCorrect ? MISTAKE_NOTEBOOK_CONFIG.CORRECT_RATING : MISTAKE_NOTEBOOK_CONFIG.WRONG_RATING;
+  const consecutiveCorrect = isCorrect ? entry.consecutiveCorrect + 1 : 0;
+
+  return {
+    schedule: scheduleReview(getSchedulingState(entry), rating, attemptedAt, entry.lastReviewedAt),
+    consecutiveCorrect,
+    retired: consecutiveCorrect >= MISTAKE_NOTEBOOK_CONFIG.RETIRE_AFTER_CORRECT,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Quiz Question Types
+ * The kinds of quiz question admins can author and the response a learner gives to each.
+ * Shared by the upload validation, the server-side graders and the quiz renderers.
+ */
+
+export const QUIZ_QUESTION_TYPES = ['single_choice', 'multi_select', 'ordering', 'matching', 'hotspot'] as const;
+
+export type QuizQuestionType = (typeof QUIZ_QUESTION_TYPES)[number];
+
+export const QUIZ_QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  single_choice: 'Multiple Choice',
+  multi_select: 'Select All That Apply',
+  ordering: 'Ordering',
+  matching: 'Matching',
+  hotspot: 'Hotspot',
+};
+
+// Number of options per type: answer choices, items to order, pairs to match or image regions
+export const QUIZ_OPTION_LIMITS: Record<QuizQuestionType, { min: number; max: number }> = {
+  single_choice: { min: 2, max: 6 },
+  multi_select: { min: 3, max: 8 },
+  ordering: { min: 2, max: 8 },
+  matching: { min: 2, max: 8 },
+  hotspot: { min: 1, max: 10 },
+};
+
+// Rectangle on a hotspot image, in percent of the image width and height
+export interface HotspotRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Point clicked on a hotspot image, in percent of the image width and height
+export interface HotspotPoint {
+  x: number;
+  y: number;
+}
+
+export type QuizResponse =
+  | { type: 'single_choice'; optionId: string }
+  | { type: 'multi_select'; optionIds: string[] }
+  | { type: 'ordering'; optionIds: string[] } // Every option id, in the order the learner put them
+  | { type: 'matching'; matches: Record<string, string> } // Option id -> chosen match text
+  | { type: 'hotspot'; point: HotspotPoint };
+
+// Hotspot region revealed after grading
+export interface RevealedHotspotRegion {
+  id: string;
+  text: string;
+  isCorrect: boolean;
+  region: HotspotRegion;
+}
+
+/**
+ * The parts of a quiz question a renderer needs: the public fields sent before answering,
+ * plus the answer key merged in once the server has graded the response
+ */
+export interface QuizQuestionContent {
+  questionType?: QuizQuestionType; // Missing on questions saved before question types
+  imageUrl?: string | null;
+  options: Array<{ id: string; text: string; isCorrect?: boolean }>;
+  matchChoices?: string[];
+  correctOrder?: string[];
+  correctMatches?: Record<string, string>;
+  hotspotRegions?: RevealedHotspotRegion[];
+  isAnsweredCorrectly?: boolean;
+}
+
+/**
+ * Read a question_type column, treating anything unknown as single choice
+ */
+export function getQuestionType(value: unknown): QuizQuestionType {
+  return QUIZ_QUESTION_TYPES.includes(value as QuizQuestionType) ? (value as QuizQuestionType) : 'single_choice';
+}
+
+/**
+ * Check whether a point falls inside a hotspot region (edges included)
+ */
+export function isPointInRegion(point: HotspotPoint, region: HotspotRegion): boolean {
+  return (
+    point.x >= region.x &&
+    point.x <= region.x + region.width &&
+    point.y >= region.y &&
+    point.y <= region.y + region.height
+  );
+}
+
+/**
+ * The response a question starts with before the learner touches it
+ * An ordering question can be submitted in the order it was shown
+ */
+export function getInitialResponse(question: QuizQuestionContent): QuizResponse | null {
+  if (getQuestionType(question.questionType) === 'ordering') {
+    return { type: 'ordering', optionIds: question.options.map((option) => option.id) };
+  }
+  return null;
+}
+
+/**
+ * Check that a response answers the whole question and can be submitted
+ */
+export function isResponseComplete(question: QuizQuestionContent, response: QuizResponse | null): boolean {
+  if (!response || response.type !== getQuestionType(question.questionType)) {
+    return false;
+  }
+
+  switch (response.type) {
+    case 'single_choice':
+      return response.optionId.length > 0;
+    case 'multi_select':
+      return response.optionIds.length > 0;
+    case 'ordering':
+      return response.optionIds.length === question.options.length;
+    case 'matching':
+      return question.options.every((option) => Boolean(response.matches[option.id]));
+    case 'hotspot':
+      return true;
+  }
+}
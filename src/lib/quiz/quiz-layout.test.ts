@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { arrangeQuestions, buildQuizLayout } from './quiz-layout';
+
+const questions = [
+  { id: 'q1', options: [{ id: 'a' }, { id: 'b' }, { id: 'c' }] },
+  { id: 'q2', options: [{ id: 'd' }, { id: 'e' }] },
+];
+
+describe('buildQuizLayout', () => {
+  it('keeps the question order and every option of each question', () => {
+    const layout = buildQuizLayout(questions);
+
+    expect(layout.questionOrder).toEqual(['q1', 'q2']);
+    expect([...layout.optionOrders.q1].sort()).toEqual(['a', 'b', 'c']);
+    expect([...layout.optionOrders.q2].sort()).toEqual(['d', 'e']);
+  });
+});
+
+describe('arrangeQuestions', () => {
+  it('restores the stored question and option order', () => {
+    const arranged = arrangeQuestions(questions, {
+      questionOrder: ['q2', 'q1'],
+      optionOrders: { q1: ['c', 'a', 'b'], q2: ['e', 'd'] },
+    });
+
+    expect(arranged.map((question) => question.id)).toEqual(['q2', 'q1']);
+    expect(arranged[0].options.map((option) => option.id)).toEqual(['e', 'd']);
+    expect(arranged[1].options.map((option) => option.id)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('drops questions added after the attempt and keeps options missing from the layout last', () => {
+    const arranged = arrangeQuestions(
+      [...questions, { id: 'q3', options: [{ id: 'f' }] }],
+      { questionOrder: ['q1'], optionOrders: { q1: ['b', 'a'] } }
+    );
+
+    expect(arranged.map((question) => question.id)).toEqual(['q1']);
+    expect(arranged[0].options.map((option) => option.id)).toEqual(['b', 'a', 'c']);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Quiz Layout
+ * The question and option order of a quiz attempt, fixed when the session starts
+ * so a resumed attempt shows exactly what the learner saw before.
+ */
+
+import { shuffleArray } from '@/lib/utils/shuffle';
+
+export interface QuizLayout {
+  questionOrder: string[]; // Question ids in the order they are shown
+  optionOrders: Record<string, string[]>; // Option ids per question, in the order they are shown
+}
+
+/**
+ * Lay out a quiz: questions keep their given order, options are shuffled
+ * to prevent position memorization
+ */
+export function buildQuizLayout(questions: Array<{ id: string; options: Array<{ id: string }> }>): QuizLayout {
+  return {
+    questionOrder: questions.map((question) => question.id),
+    optionOrders: Object.fromEntries(
+      questions.map((question) => [question.id, shuffleArray(question.options.map((option) => option.id))])
+    ),
+  };
+}
+
+/**
+ * Put questions and their options into the layout's order
+ * Questions that are not in the layout (added after the attempt started) are left out
+ */
+export function arrangeQuestions<T extends { id: string; options: Array<{ id: string }> }>(
+  questions: T[],
+  layout: QuizLayout
+): T[] {
+  const byId = new Map(questions.map((question) => [question.id, question]));
+
+  return layout.questionOrder.flatMap((questionId) => {
+    const question = byId.get(questionId);
+    if (!question) return [];
+
+    const order = layout.optionOrders[questionId] ?? [];
+    const position = (id: string) => {
+      const index = order.indexOf(id);
+      return index === -1 ? order.length : index;
+    };
+
+    return [{ ...question, options: [...question.options].sort((a, b) => position(a.id) - position(b.id)) }];
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Resumable Quizzes
+ * Finds deck quizzes the user started but did not finish, for "continue where you left off".
+ */
+
+import { db } from '@/lib/db';
+import { quizSessions, quizSessionAnswers, decks } from '@/lib/db/schema';
+import { and, count, desc, eq, inArray } from 'drizzle-orm';
+
+export interface ResumableQuiz {
+  sessionId: string;
+  deckId: string;
+  deckName: string;
+  answeredCount: number;
+  totalQuestions: number;
+  startedAt: Date;
+}
+
+// Only the most recent attempts are looked at; older open ones have been superseded
+const RECENT_SESSION_LIMIT = 50;
+
+/**
+ * Latest unfinished deck quiz per deck, if it has at least one answer
+ * A deck whose latest attempt was finished (or never answered) has nothing to resume
+ */
+export async function getResumableQuizzes(
+  userId: string,
+  options: { deckId?: string; limit?: number } = {}
+): Promise<ResumableQuiz[]> {
+  const sessions = await db
+    .select({
+      id: quizSessions.id,
+      deckId: quizSessions.deckId,
+      deckName: decks.name,
+      startedAt: quizSessions.startedAt,
+      endedAt: quizSessions.endedAt,
+      totalQuestions: quizSessions.totalQuestions,
+    })
+    .from(quizSessions)
+    .innerJoin(decks, eq(quizSessions.deckId, decks.id))
+    .where(
+      and(
+        eq(quizSessions.clerkUserId, userId),
+        eq(quizSessions.quizType, 'deck'),
+        options.deckId ? eq(quizSessions.deckId, options.deckId) : undefined
+      )
+    )
+    .orderBy(desc(quizSessions.startedAt))
+    .limit(RECENT_SESSION_LIMIT);
+
+  const latestPerDeck = new Map<string, (typeof sessions)[number]>();
+  for (const session of sessions) {
+    if (session.deckId && !latestPerDeck.has(session.deckId)) {
+      latestPerDeck.set(session.deckId, session);
+    }
+  }
+
+  const open = Array.from(latestPerDeck.values()).filter((session) => !session.endedAt);
+  if (open.length === 0) {
+    return [];
+  }
+
+  const answerCounts = await db
+    .select({ sessionId: quizSessionAnswers.sessionId, answered: count() })
+    .from(quizSessionAnswers)
+    .where(inArray(quizSessionAnswers.sessionId, open.map((session) => session.id)))
+    .groupBy(quizSessionAnswers.sessionId);
+
+  const answeredBySession = new Map(answerCounts.map((row) => [row.sessionId, row.answered]));
+
+  return open
+    .filter((session) => (answeredBySession.get(session.id) ?? 0) > 0)
+    .slice(0, options.limit)
+    .map((session) => ({
+      sessionId: session.id,
+      deckId: session.deckId!,
+      deckName: session.deckName,
+      answeredCount: answeredBySession.get(session.id)!,
+      totalQuestions: session.totalQuestions ?? 0,
+      startedAt: session.startedAt,
+    }));
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  wilsonInterval,
+  getAccuracyStats,
+  buildTopicInsights,
+  pickDrillQuestions,
+  type OutlineSubTopic,
+  type SubTopicAnswerCounts,
+} from './topic-accuracy';
+
+function outlineEntry(subTopicId: string, topicId: string, domain: number, subTopicOrder = 1): OutlineSubTopic {
+  return {
+    subTopicId,
+    subTopicName: `Sub-topic ${subTopicId}`,
+    subTopicOrder,
+    topicId,
+    topicCode: `${domain}.1`,
+    topicName: `Topic ${topicId}`,
+    topicOrder: 1,
+    domain,
+  };
+}
+
+function answerCounts(subTopicId: string, correct: number, attempts: number, questionCount = 5): SubTopicAnswerCounts {
+  return {
+    subTopicId,
+    attempts,
+    correct,
+    recentAttempts: 0,
+    recentCorrect: 0,
+    previousAttempts: 0,
+    previousCorrect: 0,
+    questionCount,
+  };
+}
+
+describe('wilsonInterval', () => {
+  it('returns null without attempts', () => {
+    expect(wilsonInterval(0, 0)).toBeNull();
+  });
+
+  it('stays wide for a few attempts and narrows with more', () => {
+    expect(wilsonInterval(5, 10)).toEqual({ low: 23.7, high: 76.3 });
+
+    const many = wilsonInterval(500, 1000)!;
+    expect(many.high - many.low).toBeLessThan(7);
+  });
+});
+
+describe('getAccuracyStats', () => {
+  it('reports confidence from the interval width', () => {
+    expect(getAccuracyStats(answerCounts('a', 2, 3)).confidence).toBe('low');
+    expect(getAccuracyStats(answerCounts('a', 20, 30)).confidence).toBe('medium');
+    expect(getAccuracyStats(answerCounts('a', 200, 300)).confidence).toBe('high');
+  });
+
+  it('compares the recent window with the previous one', () => {
+    const stats = getAccuracyStats({
+      ...answerCounts('a', 12, 20),
+      recentAttempts: 10,
+      recentCorrect: 8,
+      previousAttempts: 10,
+      previousCorrect: 4,
+    });
+
+    expect(stats.accuracy).toBe(60);
+    expect(stats.trend).toEqual({ direction: 'improving', change: 40 });
+  });
+
+  it('leaves out the trend until both windows have enough attempts', () => {
+    const stats = getAccuracyStats({
+      ...answerCounts('a', 3, 4),
+      recentAttempts: 2,
+      recentCorrect: 2,
+      previousAttempts: 2,
+      previousCorrect: 1,
+    });
+
+    expect(stats.trend).toBeNull();
+  });
+});
+
+describe('buildTopicInsights', () => {
+  const outline = [
+    outlineEntry('s1', 't1', 1, 1),
+    outlineEntry('s2', 't1', 1, 2),
+    outlineEntry('s3', 't3', 3),
+    outlineEntry('s4', 't4', 4),
+  ];
+
+  it('rolls sub-topic counts up to topics, domains and overall', () => {
+    const insights = buildTopicInsights(outline, [answerCounts('s1', 3, 4), answerCounts('s2', 1, 6), answerCounts('s3', 5, 5)]);
+
+    expect(insights.domains).toHaveLength(8);
+    expect(insights.overall).toMatchObject({ attempts: 15, correct: 9 });
+
+    const domainOne = insights.domains[0];
+    expect(domainOne).toMatchObject({ attempts: 10, correct: 4, accuracy: 40 });
+    expect(domainOne.topics).toHaveLength(1);
+    expect(domainOne.topics[0].subTopics.map((subTopic) => subTopic.id)).toEqual(['s1', 's2']);
+
+    // Unattempted domains are listed without topics
+    expect(insights.domains[3]).toMatchObject({ domain: 4, attempts: 0, accuracy: null, topics: [] });
+  });
+
+  it('ranks the weakest sub-topics by the top of their interval', () => {
+    const insights = buildTopicInsights(outline, [
+      answerCounts('s1', 0, 3), // 0% but little evidence
+      answerCounts('s2', 10, 40), // 25% on plenty of evidence
+      answerCounts('s3', 5, 5),
+      answerCounts('s4', 0, 2), // Too few attempts to count
+    ]);
+
+    expect(insights.weakest.map((area) => area.subTopicId)).toEqual(['s2', 's1', 's3']);
+  });
+
+  it('leaves sub-topics without drillable questions out of the weakest', () => {
+    const insights = buildTopicInsights(outline, [answerCounts('s1', 0, 5, 0), answerCounts('s2', 1, 5)]);
+
+    expect(insights.weakest.map((area) => area.subTopicId)).toEqual(['s2']);
+  });
+});
+
+describe('pickDrillQuestions', () => {
+  it('puts missed questions first, then unseen ones, then the rest', () => {
+    const lastResults = new Map([
+      ['right', true],
+      ['wrong', false],
+    ]);
+
+    expect(pickDrillQuestions(['right', 'unseen', 'wrong'], lastResults, 10, () => 0)).toEqual(['wrong', 'unseen', 'right']);
+  });
+
+  it('caps the drill at the limit', () => {
+    expect(pickDrillQuestions(['a', 'b', 'c', 'd'], new Map(), 2)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Topic Accuracy
+ * Rolls a learner's graded quiz answers up the CISSP outline (domain → topic → sub-topic)
+ * with accuracy, a confidence interval, the recent trend and the weakest sub-topics.
+ */
+
+import { CISSP_DOMAINS } from '@/lib/utils/cissp-domains';
+
+export const TOPIC_INSIGHTS_CONFIG = {
+  TREND_WINDOW_DAYS: 30, // Recent window compared with the one before it
+  MIN_TREND_ATTEMPTS: 3, // Per window, before a trend is reported
+  TREND_THRESHOLD: 5, // Percentage points of change that count as improving or declining
+  CONFIDENCE_Z: 1.96, // 95% interval
+  HIGH_CONFIDENCE_MARGIN: 10, // Interval half-width in percentage points
+  MEDIUM_CONFIDENCE_MARGIN: 20,
+  MIN_WEAK_AREA_ATTEMPTS: 3,
+  WEAKEST_LIMIT: 5,
+  DRILL_SUB_TOPICS: 3, // Weakest sub-topics drilled by "drill my weak areas"
+  DRILL_QUESTIONS: 10,
+  WEEKLY_TREND_WEEKS: 8,
+};
+
+export type InsightConfidence = 'low' | 'medium' | 'high';
+export type InsightTrendDirection = 'improving' | 'declining' | 'steady';
+
+// A sub-topic of the outline with its parents
+export interface OutlineSubTopic {
+  subTopicId: string;
+  subTopicName: string;
+  subTopicOrder: number;
+  topicId: string;
+  topicCode: string;
+  topicName: string;
+  topicOrder: number;
+  domain: number;
+}
+
+// Answer counts for one sub-topic, split into the trend windows
+export interface SubTopicAnswerCounts {
+  subTopicId: string;
+  attempts: number;
+  correct: number;
+  recentAttempts: number;
+  recentCorrect: number;
+  previousAttempts: number;
+  previousCorrect: number;
+  questionCount: number; // Published questions available to drill
+}
+
+export interface AccuracyStats {
+  attempts: number;
+  correct: number;
+  accuracy: number | null; // Percent; null before any attempt
+  accuracyLow: number | null; // 95% Wilson interval, in percent
+  accuracyHigh: number | null;
+  confidence: InsightConfidence | null;
+  trend: { direction: InsightTrendDirection; change: number } | null; // Change in percentage points
+}
+
+export interface SubTopicInsight extends AccuracyStats {
+  id: string;
+  name: string;
+  questionCount: number;
+}
+
+export interface TopicInsight extends AccuracyStats {
+  id: string;
+  code: string;
+  name: string;
+  subTopics: SubTopicInsight[];
+}
+
+export interface DomainInsight extends AccuracyStats {
+  domain: number;
+  name: string;
+  topics: TopicInsight[];
+}
+
+export interface WeakArea {
+  subTopicId: string;
+  subTopicName: string;
+  topicCode: string;
+  topicName: string;
+  domain: number;
+  accuracy: number;
+  attempts: number;
+  questionCount: number;
+}
+
+export interface WeeklyAccuracy {
+  weekStart: string; // YYYY-MM-DD
+  attempts: number;
+  correct: number;
+  accuracy: number;
+}
+
+export interface TopicInsights {
+  overall: AccuracyStats;
+  domains: DomainInsight[];
+  weakest: WeakArea[];
+  weekly: WeeklyAccuracy[];
+}
+
+type Counts = Omit<SubTopicAnswerCounts, 'subTopicId' | 'questionCount'>;
+
+const EMPTY_COUNTS: Counts = {
+  attempts: 0,
+  correct: 0,
+  recentAttempts: 0,
+  recentCorrect: 0,
+  previousAttempts: 0,
+  previousCorrect: 0,
+};
+
+function addCounts(a: Counts, b: Counts): Counts {
+  return {
+    attempts: a.attempts + b.attempts,
+    correct: a.correct + b.correct,
+    recentAttempts: a.recentAttempts + b.recentAttempts,
+    recentCorrect: a.recentCorrect + b.recentCorrect,
+    previousAttempts: a.previousAttempts + b.previousAttempts,
+    previousCorrect: a.previousCorrect + b.previousCorrect,
+  };
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Wilson score interval for a proportion, in percent
+ * Unlike the plain ratio it stays wide for a handful of attempts
+ */
+export function wilsonInterval(correct: number, attempts: number): { low: number; high: number } | null {
+  if (attempts <= 0) {
+    return null;
+  }
+
+  const z = TOPIC_INSIGHTS_CONFIG.CONFIDENCE_Z;
+  const p = correct / attempts;
+  const denominator = 1 + (z * z) / attempts;
+  const center = (p + (z * z) / (2 * attempts)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / attempts + (z * z) / (4 * attempts * attempts))) / denominator;
+
+  return {
+    low: round1(Math.max(0, center - margin) * 100),
+    high: round1(Math.min(1, center + margin) * 100),
+  };
+}
+
+/**
+ * Accuracy, confidence and trend for a set of answer counts
+ */
+export function getAccuracyStats(counts: Counts): AccuracyStats {
+  const interval = wilsonInterval(counts.correct, counts.attempts);
+  if (!interval) {
+    return { attempts: 0, correct: 0, accuracy: null, accuracyLow: null, accuracyHigh: null, confidence: null, trend: null };
+  }
+
+  const halfWidth = (interval.high - interval.low) / 2;
+  const confidence: InsightConfidence =
+    halfWidth <= TOPIC_INSIGHTS_CONFIG.HIGH_CONFIDENCE_MARGIN
+      ? 'high'
+      : halfWidth <= TOPIC_INSIGHTS_CONFIG.MEDIUM_CONFIDENCE_MARGIN
+        ? 'medium'
+        : 'low';
+
+  let trend: AccuracyStats['trend'] = null;
+  if (
+    counts.recentAttempts >= TOPIC_INSIGHTS_CONFIG.MIN_TREND_ATTEMPTS &&
+    counts.previousAttempts >= TOPIC_INSIGHTS_CONFIG.MIN_TREND_ATTEMPTS
+  ) {
+    const change = round1(
+      (counts.recentCorrect / counts.recentAttempts - counts.previousCorrect / counts.previousAttempts) * 100
+    );
+    const direction: InsightTrendDirection =
+      change >= TOPIC_INSIGHTS_CONFIG.TREND_THRESHOLD
+        ? 'improving'
+        : change <= -TOPIC_INSIGHTS_CONFIG.TREND_THRESHOLD
+          ? 'declining'
+          : 'steady';
+    trend = { direction, change };
+  }
+
+  return {
+    attempts: counts.attempts,
+    correct: counts.correct,
+    accuracy: round1((counts.correct / counts.attempts) * 100),
+    accuracyLow: interval.low,
+    accuracyHigh: interval.high,
+    confidence,
+    trend,
+  };
+}
+
+/**
+ * Build the domain → topic → sub-topic tree from the outline and the learner's answer counts
+ * Every domain is listed; topics and sub-topics only once they have been attempted
+ */
+export function buildTopicInsights(
+  outline: OutlineSubTopic[],
+  answerCounts: SubTopicAnswerCounts[],
+  weekly: WeeklyAccuracy[] = []
+): TopicInsights {
+  const countsBySubTopic = new Map(answerCounts.map((counts) => [counts.subTopicId, counts]));
+  const sorted = [...outline].sort(
+    (a, b) => a.domain - b.domain || a.topicOrder - b.topicOrder || a.subTopicOrder - b.subTopicOrder
+  );
+
+  let overallCounts = EMPTY_COUNTS;
+  const weakCandidates: Array<{ area: WeakArea; accuracyHigh: number }> = [];
+
+  const domains = CISSP_DOMAINS.map(({ domain, name }) => {
+    let domainCounts = EMPTY_COUNTS;
+    const topics = new Map<string, { topic: OutlineSubTopic; counts: Counts; subTopics: SubTopicInsight[] }>();
+
+    for (const subTopic of sorted.filter((item) => item.domain === domain)) {
+      const counts = countsBySubTopic.get(subTopic.subTopicId);
+      if (!counts || counts.attempts === 0) continue;
+
+      const stats = getAccuracyStats(counts);
+      const entry = topics.get(subTopic.topicId) ?? { topic: subTopic, counts: EMPTY_COUNTS, subTopics: [] };
+      entry.counts = addCounts(entry.counts, counts);
+      entry.subTopics.push({
+        id: subTopic.subTopicId,
+        name: subTopic.subTopicName,
+        questionCount: counts.questionCount,
+        ...stats,
+      });
+      topics.set(subTopic.topicId, entry);
+      domainCounts = addCounts(domainCounts, counts);
+
+      if (counts.attempts >= TOPIC_INSIGHTS_CONFIG.MIN_WEAK_AREA_ATTEMPTS && counts.questionCount > 0) {
+        weakCandidates.push({
+          area: {
+            subTopicId: subTopic.subTopicId,
+            subTopicName: subTopic.subTopicName,
+            topicCode: subTopic.topicCode,
+            topicName: subTopic.topicName,
+            domain,
+            accuracy: stats.accuracy!,
+            attempts: counts.attempts,
+            questionCount: counts.questionCount,
+          },
+          accuracyHigh: stats.accuracyHigh!,
+        });
+      }
+    }
+
+    overallCounts = addCounts(overallCounts, domainCounts);
+
+    return {
+      domain,
+      name,
+      ...getAccuracyStats(domainCounts),
+      topics: Array.from(topics.values()).map(({ topic, counts, subTopics }) => ({
+        id: topic.topicId,
+        code: topic.topicCode,
+        name: topic.topicName,
+        ...getAccuracyStats(counts),
+        subTopics,
+      })),
+    };
+  });
+
+  // Rank by the top of the interval: weak even on the most generous reading of the evidence
+  const weakest = weakCandidates
+    .sort((a, b) => a.accuracyHigh - b.accuracyHigh || a.area.accuracy - b.area.accuracy)
+    .slice(0, TOPIC_INSIGHTS_CONFIG.WEAKEST_LIMIT)
+    .map(({ area }) => area);
+
+  return { overall: getAccuracyStats(overallCounts), domains, weakest, weekly };
+}
+
+/**
+ * Choose the questions for a drill: ones answered wrong last time first, then unseen ones,
+ * then the rest, shuffled within each group by the given random source
+ */
+export function pickDrillQuestions(
+  questionIds: string[],
+  lastResults: Map<string, boolean>,
+  limit: number = TOPIC_INSIGHTS_CONFIG.DRILL_QUESTIONS,
+  random: () => number = Math.random
+): string[] {
+  const rank = (id: string) => {
+    const lastCorrect = lastResults.get(id);
+    return lastCorrect === false ? 0 : lastCorrect === undefined ? 1 : 2;
+  };
+
+  return questionIds
+    .map((id) => ({ id, rank: rank(id), tiebreak: random() }))
+    .sort((a, b) => a.rank - b.rank || a.tiebreak - b.tiebreak)
+    .slice(0, limit)
+    .map((item) => item.id);
+}
@@ -0,0 +1,167 @@
+/**
+ * Topic Insights
+ * Loads a learner's quiz answers by CISSP sub-topic for the insights page and builds
+ * "drill this sub-topic" quizzes from the weakest areas.
+ */
+
+import { db } from '@/lib/db';
+import {
+  quizSessions,
+  quizSessionAnswers,
+  deckQuizQuestions,
+  decks,
+  classes,
+  topics,
+  subTopics,
+} from '@/lib/db/schema';
+import { and, count, desc, eq, gte, inArray, isNotNull, sql } from 'drizzle-orm';
+import { getDeckEntitlement, isDeckLocked } from '@/lib/entitlements';
+import {
+  TOPIC_INSIGHTS_CONFIG,
+  buildTopicInsights,
+  pickDrillQuestions,
+  type SubTopicAnswerCounts,
+  type TopicInsights,
+} from '@/lib/quiz/topic-accuracy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Published deck quiz questions tagged with a sub-topic, leaving out premium decks the user cannot open
+ */
+async function loadDrillPool(subTopicIds?: string[]): Promise<Array<{ id: string; subTopicId: string }>> {
+  const rows = await db
+    .select({
+      id: deckQuizQuestions.id,
+      subTopicId: deckQuizQuestions.subTopicId,
+      deckId: decks.id,
+      isPremium: decks.isPremium,
+    })
+    .from(deckQuizQuestions)
+    .innerJoin(decks, eq(deckQuizQuestions.deckId, decks.id))
+    .innerJoin(classes, eq(decks.classId, classes.id))
+    .where(
+      and(
+        eq(deckQuizQuestions.status, 'published'),
+        eq(decks.isPublished, true),
+        eq(classes.isPublished, true),
+        subTopicIds ? inArray(deckQuizQuestions.subTopicId, subTopicIds) : isNotNull(deckQuizQuestions.subTopicId)
+      )
+    );
+
+  const deckList = Array.from(new Map(rows.map((row) => [row.deckId, { id: row.deckId, isPremium: row.isPremium }])).values());
+  const entitlement = await getDeckEntitlement(deckList);
+
+  return rows.flatMap((row) =>
+    row.subTopicId && !isDeckLocked(entitlement, row.deckId) ? [{ id: row.id, subTopicId: row.subTopicId }] : []
+  );
+}
+
+/**
+ * Accuracy by domain, topic and sub-topic over every deck quiz, drill and exam answer the user gave
+ */
+export async function getTopicInsights(userId: string, now: Date = new Date()): Promise<TopicInsights> {
+  const recentStart = new Date(now.getTime() - TOPIC_INSIGHTS_CONFIG.TREND_WINDOW_DAYS * DAY_MS).toISOString();
+  const previousStart = new Date(now.getTime() - 2 * TOPIC_INSIGHTS_CONFIG.TREND_WINDOW_DAYS * DAY_MS).toISOString();
+  const weeklyStart = new Date(now.getTime() - TOPIC_INSIGHTS_CONFIG.WEEKLY_TREND_WEEKS * 7 * DAY_MS);
+
+  const isRecent = sql`${quizSessionAnswers.createdAt} >= ${recentStart}::timestamp`;
+  const isPrevious = sql`${quizSessionAnswers.createdAt} >= ${previousStart}::timestamp AND ${quizSessionAnswers.createdAt} < ${recentStart}::timestamp`;
+  const weekStart = sql<string>`to_char(date_trunc('week', ${quizSessionAnswers.createdAt}), 'YYYY-MM-DD')`;
+
+  const [outline, counts, weekly, pool] = await Promise.all([
+    db
+      .select({
+        subTopicId: subTopics.id,
+        subTopicName: subTopics.subTopicName,
+        subTopicOrder: subTopics.order,
+        topicId: topics.id,
+        topicCode: topics.topicCode,
+        topicName: topics.topicName,
+        topicOrder: topics.order,
+        domain: topics.domainNumber,
+      })
+      .from(subTopics)
+      .innerJoin(topics, eq(subTopics.topicId, topics.id)),
+    db
+      .select({
+        subTopicId: deckQuizQuestions.subTopicId,
+        attempts: count(),
+        correct: count(sql`CASE WHEN ${quizSessionAnswers.isCorrect} THEN 1 END`),
+        recentAttempts: count(sql`CASE WHEN ${isRecent} THEN 1 END`),
+        recentCorrect: count(sql`CASE WHEN ${isRecent} AND ${quizSessionAnswers.isCorrect} THEN 1 END`),
+        previousAttempts: count(sql`CASE WHEN ${isPrevious} THEN 1 END`),
+        previousCorrect: count(sql`CASE WHEN ${isPrevious} AND ${quizSessionAnswers.isCorrect} THEN 1 END`),
+      })
+      .from(quizSessionAnswers)
+      .innerJoin(quizSessions, eq(quizSessionAnswers.sessionId, quizSessions.id))
+      .innerJoin(deckQuizQuestions, eq(quizSessionAnswers.deckQuizQuestionId, deckQuizQuestions.id))
+      .where(and(eq(quizSessions.clerkUserId, userId), isNotNull(deckQuizQuestions.subTopicId)))
+      .groupBy(deckQuizQuestions.subTopicId),
+    db
+      .select({
+        weekStart,
+        attempts: count(),
+        correct: count(sql`CASE WHEN ${quizSessionAnswers.isCorrect} THEN 1 END`),
+      })
+      .from(quizSessionAnswers)
+      .innerJoin(quizSessions, eq(quizSessionAnswers.sessionId, quizSessions.id))
+      .innerJoin(deckQuizQuestions, eq(quizSessionAnswers.deckQuizQuestionId, deckQuizQuestions.id))
+      .where(
+        and(
+          eq(quizSessions.clerkUserId, userId),
+          isNotNull(deckQuizQuestions.subTopicId),
+          gte(quizSessionAnswers.createdAt, weeklyStart)
+        )
+      )
+      .groupBy(weekStart)
+      .orderBy(weekStart),
+    loadDrillPool(),
+  ]);
+
+  const questionCounts = new Map<string, number>();
+  for (const question of pool) {
+    questionCounts.set(question.subTopicId, (questionCounts.get(question.subTopicId) ?? 0) + 1);
+  }
+
+  const answerCounts: SubTopicAnswerCounts[] = counts.flatMap((row) =>
+    row.subTopicId ? [{ ...row, subTopicId: row.subTopicId, questionCount: questionCounts.get(row.subTopicId) ?? 0 }] : []
+  );
+
+  return buildTopicInsights(
+    outline,
+    answerCounts,
+    weekly.map((week) => ({
+      ...week,
+      accuracy: Math.round((week.correct / week.attempts) * 1000) / 10,
+    }))
+  );
+}
+
+/**
+ * Question ids for a drill on the given sub-topics: missed questions first, then unseen ones
+ */
+export async function buildDrillQuestionIds(userId: string, subTopicIds: string[]): Promise<string[]> {
+  const pool = await loadDrillPool(subTopicIds);
+  if (pool.length === 0) {
+    return [];
+  }
+
+  const questionIds = pool.map((question) => question.id);
+  const history = await db
+    .select({ questionId: quizSessionAnswers.deckQuizQuestionId, isCorrect: quizSessionAnswers.isCorrect })
+    .from(quizSessionAnswers)
+    .innerJoin(quizSessions, eq(quizSessionAnswers.sessionId, quizSessions.id))
+    .where(and(eq(quizSessions.clerkUserId, userId), inArray(quizSessionAnswers.deckQuizQuestionId, questionIds)))
+    .orderBy(desc(quizSessionAnswers.createdAt));
+
+  // Newest answer first, so the first one seen per question is the last result
+  const lastResults = new Map<string, boolean>();
+  for (const answer of history) {
+    if (answer.questionId && !lastResults.has(answer.questionId)) {
+      lastResults.set(answer.questionId, answer.isCorrect);
+    }
+  }
+
+  return pickDrillQuestions(questionIds, lastResults);
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  READINESS_CONFIG,
+  normalCdf,
+  getDomainMastery,
+  getAnswerWeight,
+  getWeightedAccuracy,
+  computeExamReadiness,
+  type CardMasteryInput,
+  type QuizAnswerInput,
+} from './exam-readiness';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * DAY_MS);
+}
+
+function card(domain: number, masteryStatus: CardMasteryInput['masteryStatus'] = 'mastered'): CardMasteryInput {
+  // Reviewed just now, so retrievability is 1
+  return { domain, masteryStatus, stability: 30, lastSeen: NOW };
+}
+
+function answers(domain: number, correct: number, total: number, age = 0): QuizAnswerInput[] {
+  return Array.from({ length: total }, (_, index) => ({
+    domain,
+    isCorrect: index < correct,
+    difficulty: 3,
+    answeredAt: daysAgo(age),
+  }));
+}
+
+const ALL_DOMAINS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+describe('normalCdf', () => {
+  it('matches the standard normal distribution', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 5);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+    expect(normalCdf(-1.96)).toBeCloseTo(0.025, 3);
+  });
+});
+
+describe('getDomainMastery', () => {
+  it('credits mastered and learning cards against every card in the domain', () => {
+    expect(getDomainMastery([card(1), card(1, 'learning')], 4, NOW)).toBe(37.5);
+  });
+
+  it('decays cards that have not been seen for a long time', () => {
+    const stale = { ...card(1), stability: 2, lastSeen: daysAgo(60) };
+    expect(getDomainMastery([stale], 1, NOW)).toBeLessThan(50);
+  });
+
+  it('returns 0 for a domain without cards', () => {
+    expect(getDomainMastery([], 0, NOW)).toBe(0);
+  });
+});
+
+describe('getAnswerWeight', () => {
+  it('halves the weight of an answer after the half-life', () => {
+    const fresh = getAnswerWeight(answers(1, 1, 1)[0], NOW);
+    const old = getAnswerWeight(answers(1, 1, 1, READINESS_CONFIG.QUIZ_HALF_LIFE_DAYS)[0], NOW);
+    expect(old).toBeCloseTo(fresh / 2, 5);
+  });
+
+  it('weighs hard questions answered right and easy questions answered wrong more', () => {
+    const base = { domain: 1, answeredAt: NOW };
+    expect(getAnswerWeight({ ...base, isCorrect: true, difficulty: 5 }, NOW)).toBeGreaterThan(
+      getAnswerWeight({ ...base, isCorrect: true, difficulty: 1 }, NOW)
+    );
+    expect(getAnswerWeight({ ...base, isCorrect: false, difficulty: 1 }, NOW)).toBeGreaterThan(
+      getAnswerWeight({ ...base, isCorrect: false, difficulty: 5 }, NOW)
+    );
+  });
+});
+
+describe('getWeightedAccuracy', () => {
+  it('returns null without answers', () => {
+    expect(getWeightedAccuracy([], NOW)).toBeNull();
+  });
+
+  it('counts equally weighted answers at face value', () => {
+    expect(getWeightedAccuracy(answers(1, 3, 4), NOW)).toEqual({ accuracy: 0.75, effectiveAnswers: 4 });
+  });
+});
+
+describe('computeExamReadiness', () => {
+  const cardTotals = Object.fromEntries(ALL_DOMAINS.map((domain) => [domain, 1]));
+
+  it('is not ready and maximally uncertain without any study', () => {
+    const readiness = computeExamReadiness({ cardTotals, cards: [], answers: [] }, NOW);
+
+    expect(readiness.score).toBe(0);
+    expect(readiness.domains.every((domain) => domain.low === 0 && domain.high === 70)).toBe(true);
+    expect(readiness.status).toBe('not_ready');
+  });
+
+  it('is ready with strong quiz accuracy and mastery in every domain', () => {
+    const readiness = computeExamReadiness(
+      {
+        cardTotals,
+        cards: ALL_DOMAINS.map((domain) => card(domain)),
+        answers: ALL_DOMAINS.flatMap((domain) => answers(domain, 95, 100)),
+      },
+      NOW
+    );
+
+    expect(readiness.score).toBeCloseTo(96.5, 1);
+    expect(readiness.status).toBe('ready');
+    expect(readiness.passProbability).toBeGreaterThan(99);
+    expect(readiness.low).toBeGreaterThan(READINESS_CONFIG.PASS_MARK);
+  });
+
+  it('narrows the band as more answers come in', () => {
+    const few = computeExamReadiness({ cardTotals, cards: [], answers: answers(1, 4, 5) }, NOW);
+    const many = computeExamReadiness({ cardTotals, cards: [], answers: answers(1, 80, 100) }, NOW);
+
+    const width = (domain: { low: number; high: number }) => domain.high - domain.low;
+    expect(width(many.domains[0])).toBeLessThan(width(few.domains[0]));
+    expect(many.domains[0].quizEvidence).toBe(100);
+  });
+
+  it('ignores answers older than the quiz window', () => {
+    const readiness = computeExamReadiness(
+      { cardTotals, cards: [], answers: answers(1, 10, 10, READINESS_CONFIG.QUIZ_WINDOW_DAYS + 1) },
+      NOW
+    );
+
+    expect(readiness.domains[0].quizAccuracy).toBeNull();
+  });
+
+  it('weights domains by their share of the exam', () => {
+    // Domain 1 (16%) and domain 2 (10%) fully mastered with perfect quizzes; nothing else studied
+    const strong = (domain: number) => computeExamReadiness(
+      { cardTotals, cards: [card(domain)], answers: answers(domain, 50, 50) },
+      NOW
+    );
+
+    expect(strong(1).score).toBeGreaterThan(strong(2).score);
+  });
+
+  it('focuses on the domains with the most exam points at stake', () => {
+    const studied = [1, 2, 3, 4, 5];
+    const readiness = computeExamReadiness(
+      {
+        cardTotals,
+        cards: studied.map((domain) => card(domain)),
+        answers: studied.flatMap((domain) => answers(domain, 90, 100)),
+      },
+      NOW
+    );
+
+    // Domains 6 (12%), 7 (13%) and 8 (10%) are untouched; 7 carries the most weight
+    expect(readiness.focusDomains.map((domain) => domain.domain)).toEqual([7, 6, 8]);
+    expect(readiness.focusDomains[0].pointsAtStake).toBe(13);
+  });
+});
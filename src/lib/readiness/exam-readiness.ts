@@ -0,0 +1,260 @@
+/**
+ * Exam Readiness
+ * Estimates how ready a candidate is to sit the CISSP exam from flashcard mastery and recent
+ * quiz accuracy, per domain and overall, with a confidence band and a pass probability.
+ */
+
+import { CISSP_DOMAINS } from '@/lib/utils/cissp-domains';
+import { getCurrentRetrievability } from '@/lib/spaced-repetition/scheduler';
+import { wilsonInterval } from '@/lib/quiz/topic-accuracy';
+
+export const READINESS_CONFIG = {
+  PASS_MARK: 70, // CISSP passing standard: 700 of 1000 scaled points
+  QUIZ_WEIGHT: 0.7, // Share of a domain score from quiz accuracy; the rest comes from flashcard mastery
+  QUIZ_WINDOW_DAYS: 90, // Older quiz answers are ignored
+  QUIZ_HALF_LIFE_DAYS: 21, // A quiz answer counts half as much after this many days
+  DEFAULT_DIFFICULTY: 3, // Questions without a 1-5 difficulty
+  FOCUS_DOMAINS: 3,
+  HISTORY_DAYS: 90,
+};
+
+// Credit a card earns toward domain mastery, before recency decay
+const MASTERY_CREDIT = {
+  new: 0,
+  learning: 0.5,
+  mastered: 1,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const Z_95 = 1.96;
+
+export type ReadinessStatus = 'not_ready' | 'borderline' | 'ready';
+
+export interface CardMasteryInput {
+  domain: number;
+  masteryStatus: keyof typeof MASTERY_CREDIT;
+  stability: number;
+  lastSeen: Date | null;
+}
+
+export interface QuizAnswerInput {
+  domain: number;
+  isCorrect: boolean;
+  difficulty: number | null;
+  answeredAt: Date;
+}
+
+export interface ReadinessBand {
+  score: number; // 0-100
+  low: number; // 95% band
+  high: number;
+  passProbability: number; // 0-100, chance the true score is at or above the pass mark
+  status: ReadinessStatus;
+}
+
+export interface DomainReadiness extends ReadinessBand {
+  domain: number;
+  name: string;
+  weight: number; // Share of the exam, in percent
+  mastery: number; // 0-100, decayed flashcard mastery across the domain's cards
+  quizAccuracy: number | null; // 0-100, difficulty- and recency-weighted; null without recent answers
+  quizEvidence: number; // Effective number of quiz answers behind quizAccuracy
+}
+
+export interface FocusDomain {
+  domain: number;
+  name: string;
+  score: number;
+  pointsAtStake: number; // Exam points lost at the current score
+}
+
+export interface ExamReadiness extends ReadinessBand {
+  domains: DomainReadiness[];
+  focusDomains: FocusDomain[];
+}
+
+export interface ReadinessInputs {
+  cardTotals: Record<number, number>; // Published flashcards per domain
+  cards: CardMasteryInput[]; // The learner's card progress
+  answers: QuizAnswerInput[]; // The learner's graded quiz answers
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz and Stegun 7.1.26)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Chance that the true score is at or above the pass mark, treating the band as a 95% normal interval
+ */
+function getPassProbability(score: number, standardError: number): number {
+  if (standardError <= 0) {
+    return score >= READINESS_CONFIG.PASS_MARK ? 100 : 0;
+  }
+  return round1(normalCdf((score - READINESS_CONFIG.PASS_MARK) / standardError) * 100);
+}
+
+function getStatus(low: number, high: number): ReadinessStatus {
+  if (low >= READINESS_CONFIG.PASS_MARK) return 'ready';
+  if (high < READINESS_CONFIG.PASS_MARK) return 'not_ready';
+  return 'borderline';
+}
+
+/**
+ * Decayed mastery of a domain's cards, in percent
+ * Each card earns its mastery credit times the chance it is still remembered; unstudied cards earn nothing
+ */
+export function getDomainMastery(cards: CardMasteryInput[], totalCards: number, now: Date): number {
+  if (totalCards <= 0) {
+    return 0;
+  }
+
+  const credit = cards.reduce(
+    (sum, card) => sum + MASTERY_CREDIT[card.masteryStatus] * getCurrentRetrievability(card.stability, card.lastSeen, now),
+    0
+  );
+  return round1(Math.min(1, credit / totalCards) * 100);
+}
+
+/**
+ * Weight of one quiz answer: recent answers count more, and so do the surprising ones:
+ * a hard question answered right or an easy question answered wrong
+ */
+export function getAnswerWeight(answer: QuizAnswerInput, now: Date): number {
+  const ageDays = Math.max(0, (now.getTime() - answer.answeredAt.getTime()) / DAY_MS);
+  const recency = Math.pow(0.5, ageDays / READINESS_CONFIG.QUIZ_HALF_LIFE_DAYS);
+  const difficulty = Math.min(5, Math.max(1, answer.difficulty ?? READINESS_CONFIG.DEFAULT_DIFFICULTY));
+  const surprise = answer.isCorrect ? difficulty : 6 - difficulty;
+  return recency * (surprise / READINESS_CONFIG.DEFAULT_DIFFICULTY);
+}
+
+/**
+ * Weighted quiz accuracy with its effective sample size
+ */
+export function getWeightedAccuracy(
+  answers: QuizAnswerInput[],
+  now: Date
+): { accuracy: number; effectiveAnswers: number } | null {
+  let total = 0;
+  let correct = 0;
+  let squares = 0;
+
+  for (const answer of answers) {
+    const weight = getAnswerWeight(answer, now);
+    total += weight;
+    squares += weight * weight;
+    if (answer.isCorrect) correct += weight;
+  }
+
+  if (total <= 0) {
+    return null;
+  }
+
+  return { accuracy: correct / total, effectiveAnswers: (total * total) / squares };
+}
+
+/**
+ * Readiness of one domain: quiz accuracy blended with flashcard mastery
+ * Without recent quiz answers the quiz share is unknown, so the band spans its whole range
+ */
+function getDomainReadiness(
+  domain: (typeof CISSP_DOMAINS)[number],
+  inputs: ReadinessInputs,
+  now: Date
+): DomainReadiness {
+  const mastery = getDomainMastery(
+    inputs.cards.filter((card) => card.domain === domain.domain),
+    inputs.cardTotals[domain.domain] ?? 0,
+    now
+  );
+  const quiz = getWeightedAccuracy(
+    inputs.answers.filter((answer) => answer.domain === domain.domain),
+    now
+  );
+
+  const quizWeight = READINESS_CONFIG.QUIZ_WEIGHT;
+  const masteryPart = (1 - quizWeight) * mastery;
+
+  let quizScore = mastery;
+  let quizLow = 0;
+  let quizHigh = 100;
+  if (quiz) {
+    const interval = wilsonInterval(quiz.accuracy * quiz.effectiveAnswers, quiz.effectiveAnswers)!;
+    quizScore = quiz.accuracy * 100;
+    quizLow = interval.low;
+    quizHigh = interval.high;
+  }
+
+  const score = round1(quizWeight * quizScore + masteryPart);
+  const low = round1(quizWeight * quizLow + masteryPart);
+  const high = round1(quizWeight * quizHigh + masteryPart);
+
+  return {
+    domain: domain.domain,
+    name: domain.name,
+    weight: domain.weight,
+    mastery,
+    quizAccuracy: quiz ? round1(quiz.accuracy * 100) : null,
+    quizEvidence: quiz ? round1(quiz.effectiveAnswers) : 0,
+    score,
+    low,
+    high,
+    passProbability: getPassProbability(score, (high - low) / (2 * Z_95)),
+    status: getStatus(low, high),
+  };
+}
+
+/**
+ * Overall exam readiness: domain scores weighted by their share of the exam,
+ * and the domains where the most exam points are at stake
+ */
+export function computeExamReadiness(inputs: ReadinessInputs, now: Date = new Date()): ExamReadiness {
+  const windowStart = now.getTime() - READINESS_CONFIG.QUIZ_WINDOW_DAYS * DAY_MS;
+  const recentInputs = {
+    ...inputs,
+    answers: inputs.answers.filter((answer) => answer.answeredAt.getTime() >= windowStart),
+  };
+
+  const domains = CISSP_DOMAINS.map((domain) => getDomainReadiness(domain, recentInputs, now));
+  const totalWeight = domains.reduce((sum, domain) => sum + domain.weight, 0);
+
+  const score = round1(domains.reduce((sum, domain) => sum + domain.weight * domain.score, 0) / totalWeight);
+  // Domain estimates are independent, so their errors add in quadrature
+  const standardError = Math.sqrt(
+    domains.reduce((sum, domain) => {
+      const domainError = (domain.high - domain.low) / (2 * Z_95);
+      return sum + Math.pow((domain.weight / totalWeight) * domainError, 2);
+    }, 0)
+  );
+  const low = round1(Math.max(0, score - Z_95 * standardError));
+  const high = round1(Math.min(100, score + Z_95 * standardError));
+
+  const focusDomains = domains
+    .map((domain) => ({
+      domain: domain.domain,
+      name: domain.name,
+      score: domain.score,
+      pointsAtStake: round1((domain.weight * (100 - domain.score)) / 100),
+    }))
+    .sort((a, b) => b.pointsAtStake - a.pointsAtStake || a.domain - b.domain)
+    .slice(0, READINESS_CONFIG.FOCUS_DOMAINS);
+
+  return {
+    score,
+    low,
+    high,
+    passProbability: getPassProbability(score, standardError),
+    status: getStatus(low, high),
+    domains,
+    focusDomains,
+  };
+}
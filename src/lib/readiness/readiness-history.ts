@@ -0,0 +1,194 @@
+/**
+ * Readiness History
+ * Loads a learner's flashcard progress and recent quiz answers, computes their exam readiness
+ * and keeps one snapshot per day so the dashboard can chart the trend.
+ */
+
+import { db } from '@/lib/db';
+import {
+  classes,
+  decks,
+  deckQuizQuestions,
+  flashcards,
+  quizQuestions,
+  quizSessionAnswers,
+  quizSessions,
+  readinessSnapshots,
+  userCardProgress,
+} from '@/lib/db/schema';
+import { and, asc, count, eq, gte, isNotNull, ne, or } from 'drizzle-orm';
+import { extractDomainFromDeckName } from '@/lib/utils/cissp-domains';
+import {
+  READINESS_CONFIG,
+  computeExamReadiness,
+  type CardMasteryInput,
+  type ExamReadiness,
+  type QuizAnswerInput,
+} from '@/lib/readiness/exam-readiness';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReadinessHistoryPoint {
+  date: string; // YYYY-MM-DD (UTC)
+  score: number;
+  low: number;
+  high: number;
+  passProbability: number;
+}
+
+function getDeckDomain(deck: { domainNumber: number | null; deckName: string }): number | null {
+  return deck.domainNumber ?? extractDomainFromDeckName(deck.deckName);
+}
+
+/**
+ * Graded answers from finished quizzes, leaving out exams still in progress
+ */
+function answeredSince(userId: string, since: Date) {
+  return and(
+    eq(quizSessions.clerkUserId, userId),
+    gte(quizSessionAnswers.createdAt, since),
+    or(ne(quizSessions.quizType, 'exam'), isNotNull(quizSessions.endedAt))
+  );
+}
+
+async function loadReadinessInputs(userId: string, now: Date) {
+  const since = new Date(now.getTime() - READINESS_CONFIG.QUIZ_WINDOW_DAYS * DAY_MS);
+
+  const [totals, progress, deckAnswers, flashcardAnswers] = await Promise.all([
+    db
+      .select({ domainNumber: decks.domainNumber, deckName: decks.name, cards: count() })
+      .from(flashcards)
+      .innerJoin(decks, eq(flashcards.deckId, decks.id))
+      .innerJoin(classes, eq(decks.classId, classes.id))
+      .where(and(eq(flashcards.isPublished, true), eq(decks.isPublished, true), eq(classes.isPublished, true)))
+      .groupBy(decks.id),
+    db
+      .select({
+        masteryStatus: userCardProgress.masteryStatus,
+        stability: userCardProgress.stability,
+        lastSeen: userCardProgress.lastSeen,
+        domainNumber: decks.domainNumber,
+        deckName: decks.name,
+      })
+      .from(userCardProgress)
+      .innerJoin(flashcards, eq(userCardProgress.flashcardId, flashcards.id))
+      .innerJoin(decks, eq(flashcards.deckId, decks.id))
+      .where(eq(userCardProgress.clerkUserId, userId)),
+    db
+      .select({
+        isCorrect: quizSessionAnswers.isCorrect,
+        answeredAt: quizSessionAnswers.createdAt,
+        difficulty: deckQuizQuestions.difficulty,
+        domainNumber: decks.domainNumber,
+        deckName: decks.name,
+      })
+      .from(quizSessionAnswers)
+      .innerJoin(quizSessions, eq(quizSessionAnswers.sessionId, quizSessions.id))
+      .innerJoin(deckQuizQuestions, eq(quizSessionAnswers.deckQuizQuestionId, deckQuizQuestions.id))
+      .innerJoin(decks, eq(deckQuizQuestions.deckId, decks.id))
+      .where(answeredSince(userId, since)),
+    db
+      .select({
+        isCorrect: quizSessionAnswers.isCorrect,
+        answeredAt: quizSessionAnswers.createdAt,
+        difficulty: flashcards.difficulty,
+        domainNumber: decks.domainNumber,
+        deckName: decks.name,
+      })
+      .from(quizSessionAnswers)
+      .innerJoin(quizSessions, eq(quizSessionAnswers.sessionId, quizSessions.id))
+      .innerJoin(quizQuestions, eq(quizSessionAnswers.quizQuestionId, quizQuestions.id))
+      .innerJoin(flashcards, eq(quizQuestions.flashcardId, flashcards.id))
+      .innerJoin(decks, eq(flashcards.deckId, decks.id))
+      .where(answeredSince(userId, since)),
+  ]);
+
+  const cardTotals: Record<number, number> = {};
+  for (const row of totals) {
+    const domain = getDeckDomain(row);
+    if (domain) {
+      cardTotals[domain] = (cardTotals[domain] ?? 0) + row.cards;
+    }
+  }
+
+  const cards: CardMasteryInput[] = progress.flatMap((row) => {
+    const domain = getDeckDomain(row);
+    return domain
+      ? [{ domain, masteryStatus: row.masteryStatus, stability: Number(row.stability), lastSeen: row.lastSeen }]
+      : [];
+  });
+
+  const answers: QuizAnswerInput[] = [...deckAnswers, ...flashcardAnswers].flatMap((row) => {
+    const domain = getDeckDomain(row);
+    return domain
+      ? [{ domain, isCorrect: row.isCorrect, difficulty: row.difficulty, answeredAt: row.answeredAt }]
+      : [];
+  });
+
+  return { cardTotals, cards, answers };
+}
+
+/**
+ * Current exam readiness; also records it as today's snapshot
+ */
+export async function getExamReadiness(userId: string, now: Date = new Date()): Promise<ExamReadiness> {
+  const readiness = computeExamReadiness(await loadReadinessInputs(userId, now), now);
+
+  const snapshot = {
+    score: readiness.score.toFixed(2),
+    scoreLow: readiness.low.toFixed(2),
+    scoreHigh: readiness.high.toFixed(2),
+    passProbability: readiness.passProbability.toFixed(2),
+    domainScores: Object.fromEntries(readiness.domains.map((domain) => [domain.domain, domain.score])),
+    updatedAt: now,
+  };
+
+  await db
+    .insert(readinessSnapshots)
+    .values({ clerkUserId: userId, snapshotDate: now.toISOString().slice(0, 10), ...snapshot })
+    .onConflictDoUpdate({
+      target: [readinessSnapshots.clerkUserId, readinessSnapshots.snapshotDate],
+      set: snapshot,
+    });
+
+  return readiness;
+}
+
+/**
+ * Daily readiness snapshots, oldest first
+ */
+export async function getReadinessHistory(userId: string, now: Date = new Date()): Promise<ReadinessHistoryPoint[]> {
+  const since = new Date(now.getTime() - READINESS_CONFIG.HISTORY_DAYS * DAY_MS).toISOString().slice(0, 10);
+
+  const rows = await db
+    .select({
+      date: readinessSnapshots.snapshotDate,
+      score: readinessSnapshots.score,
+      low: readinessSnapshots.scoreLow,
+      high: readinessSnapshots.scoreHigh,
+      passProbability: readinessSnapshots.passProbability,
+    })
+    .from(readinessSnapshots)
+    .where(and(eq(readinessSnapshots.clerkUserId, userId), gte(readinessSnapshots.snapshotDate, since)))
+    .orderBy(asc(readinessSnapshots.snapshotDate));
+
+  return rows.map((row) => ({
+    date: row.date,
+    score: Number(row.score),
+    low: Number(row.low),
+    high: Number(row.high),
+    passProbability: Number(row.passProbability),
+  }));
+}
+
+/**
+ * Current readiness and its history; today's snapshot is written first so the history ends with it
+ */
+export async function getReadinessReport(
+  userId: string,
+  now: Date = new Date()
+): Promise<{ readiness: ExamReadiness; history: ReadinessHistoryPoint[] }> {
+  const readiness = await getExamReadiness(userId, now);
+  const history = await getReadinessHistory(userId, now);
+  return { readiness, history };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { diffSnapshots, diffText, formatFieldValue, isSameValue } from './diff';
+
+describe('diffSnapshots', () => {
+  it('lists only the fields that changed', () => {
+    const before = { question: 'What is CIA?', answer: 'Confidentiality', order: 1 };
+    const after = { question: 'What is CIA?', answer: 'Confidentiality, integrity, availability', order: 1 };
+
+    expect(diffSnapshots(before, after)).toEqual([
+      { field: 'answer', before: 'Confidentiality', after: 'Confidentiality, integrity, availability' },
+    ]);
+  });
+
+  it('compares nested values regardless of key order', () => {
+    const before = { options: [{ id: 'a', text: 'A', isCorrect: true }] };
+    const after = { options: [{ isCorrect: true, text: 'A', id: 'a' }] };
+
+    expect(diffSnapshots(before, after)).toEqual([]);
+    expect(isSameValue({ a: 1, b: undefined }, { a: 1 })).toBe(true);
+  });
+
+  it('treats every field as added when there was no previous snapshot', () => {
+    expect(diffSnapshots(null, { question: 'Q', explanation: null })).toEqual([
+      { field: 'question', before: null, after: 'Q' },
+    ]);
+  });
+});
+
+describe('diffText', () => {
+  it('marks added and removed words and keeps the rest', () => {
+    expect(diffText('The quick brown fox', 'The slow brown fox jumps')).toEqual([
+      { type: 'equal', text: 'The ' },
+      { type: 'removed', text: 'quick' },
+      { type: 'added', text: 'slow' },
+      { type: 'equal', text: ' brown fox' },
+      { type: 'added', text: ' jumps' },
+    ]);
+  });
+
+  it('rebuilds both texts from its segments', () => {
+    const before = 'Least privilege limits access to what a role needs.';
+    const after = 'Least privilege limits each account to only what its role needs.';
+    const segments = diffText(before, after);
+
+    expect(segments.filter((s) => s.type !== 'added').map((s) => s.text).join('')).toBe(before);
+    expect(segments.filter((s) => s.type !== 'removed').map((s) => s.text).join('')).toBe(after);
+  });
+
+  it('handles empty texts', () => {
+    expect(diffText('', '')).toEqual([]);
+    expect(diffText('', 'new')).toEqual([{ type: 'added', text: 'new' }]);
+  });
+});
+
+describe('formatFieldValue', () => {
+  it('shows text as is and other values as JSON', () => {
+    expect(formatFieldValue('text')).toBe('text');
+    expect(formatFieldValue(null)).toBe('');
+    expect(formatFieldValue(true)).toBe('true');
+    expect(formatFieldValue([1])).toBe('[\n  1\n]');
+  });
+});
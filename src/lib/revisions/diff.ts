@@ -0,0 +1,171 @@
+/**
+ * Revision Diffs
+ * Content revisions store a snapshot of the editable fields after each change. Field changes
+ * are computed between consecutive snapshots, and text fields are compared word by word for
+ * the admin diff view.
+ */
+
+export const REVISION_ENTITY_TYPES = ['flashcard', 'quiz_question', 'deck_quiz_question'] as const;
+
+export type RevisionEntityType = (typeof REVISION_ENTITY_TYPES)[number];
+
+export const REVISION_ENTITY_LABELS: Record<RevisionEntityType, string> = {
+  flashcard: 'Flashcard',
+  quiz_question: 'Flashcard quiz question',
+  deck_quiz_question: 'Deck quiz question',
+};
+
+// Display names of the snapshot fields, shared by the revision and review views
+export const SNAPSHOT_FIELD_LABELS: Record<string, string> = {
+  question: 'Question',
+  answer: 'Answer',
+  explanation: 'Explanation',
+  order: 'Order',
+  isPublished: 'Published',
+  media: 'Images',
+  flashcardId: 'Flashcard',
+  questionText: 'Question',
+  questionType: 'Question type',
+  imageUrl: 'Image',
+  options: 'Options',
+  eliminationTactics: 'Elimination tactics',
+  correctAnswerWithJustification: 'Correct answer justification',
+  compareRemainingOptionsWithJustification: 'Remaining options comparison',
+  correctOptionsJustification: 'Correct options justification',
+  difficulty: 'Difficulty',
+  subTopicId: 'Sub-topic',
+};
+
+// 'baseline' is the content as it was before its first recorded change
+export type RevisionAction = 'baseline' | 'create' | 'update' | 'delete' | 'restore';
+
+export type RevisionSnapshot = Record<string, unknown>;
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface TextSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Word-level diffs compare every pair of words; past this many pairs show a plain replacement
+const MAX_DIFF_CELLS = 250_000;
+
+export function isRevisionEntityType(value: unknown): value is RevisionEntityType {
+  return typeof value === 'string' && (REVISION_ENTITY_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * JSON with object keys sorted, so equal values compare equal whatever order they were written in
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Fields whose values differ between two snapshots; a missing snapshot has no fields
+ */
+export function diffSnapshots(before: RevisionSnapshot | null, after: RevisionSnapshot | null): FieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const previous = before?.[field] ?? null;
+    const next = after?.[field] ?? null;
+    if (!isSameValue(previous, next)) {
+      changes.push({ field, before: previous, after: next });
+    }
+  }
+  return changes;
+}
+
+/**
+ * A field value as text for the diff view: strings as they are, everything else as indented JSON
+ */
+export function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+}
+
+function pushSegment(segments: TextSegment[], type: TextSegment['type'], text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff of two texts (longest common subsequence over words and whitespace)
+ */
+export function diffText(before: string, after: string): TextSegment[] {
+  if (before === after) {
+    return before ? [{ type: 'equal', text: before }] : [];
+  }
+
+  const a = before.match(/\s+|[^\s]+/g) ?? [];
+  const b = after.match(/\s+|[^\s]+/g) ?? [];
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : []),
+    ];
+  }
+
+  // lengths[i][j] = longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: TextSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushSegment(segments, 'removed', a[i++]);
+    } else {
+      pushSegment(segments, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, 'removed', a[i++]);
+  while (j < b.length) pushSegment(segments, 'added', b[j++]);
+
+  return segments;
+}
+
+/**
+ * Short plain-text title of a revisioned item: the card or question text without markup
+ */
+export function getRevisionTitle(snapshot: RevisionSnapshot): string {
+  const text = snapshot.question ?? snapshot.questionText;
+  if (typeof text !== 'string') {
+    return 'Untitled';
+  }
+  const plain = text.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  return plain.length > 120 ? `${plain.slice(0, 117)}...` : plain || 'Untitled';
+}
@@ -0,0 +1,499 @@
+/**
+ * Content Revision Store
+ * Appends a revision for every admin change to a flashcard or quiz question and restores
+ * earlier revisions. Content edited for the first time gets a baseline revision of what it
+ * said before, so even pre-history content can be rolled back.
+ */
+
+import { db } from '@/lib/db';
+import {
+  contentRevisions,
+  deckQuizQuestions,
+  decks,
+  flashcardMedia,
+  flashcards,
+  quizQuestions,
+  subTopics,
+  users,
+} from '@/lib/db/schema';
+import { and, asc, desc, eq, inArray, sql } from 'drizzle-orm';
+import {
+  diffSnapshots,
+  getRevisionTitle,
+  type FieldChange,
+  type RevisionAction,
+  type RevisionEntityType,
+  type RevisionSnapshot,
+} from './diff';
+import { canEditContent, markContentEdited } from '@/lib/editorial/edits';
+import { PUBLISHED_CONTENT_EDIT_ERROR, type ReviewableEntityType } from '@/lib/editorial/workflow';
+
+type Executor = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface RevisionChange {
+  entityType: RevisionEntityType;
+  entityId: string;
+  deckId: string;
+  action: 'create' | 'update' | 'delete';
+  before: RevisionSnapshot | null; // null for creates
+  after: RevisionSnapshot | null; // null for deletes
+  authorId: string;
+  baselineAuthorId?: string; // Who wrote the content being changed, for its baseline revision
+}
+
+export interface RevisionEntry {
+  id: string;
+  entityType: RevisionEntityType;
+  entityId: string;
+  revisionNumber: number;
+  action: RevisionAction;
+  snapshot: RevisionSnapshot;
+  changes: FieldChange[];
+  restoredFromId: string | null;
+  authorId: string;
+  authorName: string | null;
+  createdAt: Date;
+}
+
+export interface RevisionedItem {
+  entityType: RevisionEntityType;
+  entityId: string;
+  title: string;
+  revisionCount: number;
+  lastAction: RevisionAction;
+  lastChangedAt: Date;
+  lastAuthorName: string | null;
+  isDeleted: boolean;
+}
+
+export type RestoreResult =
+  | { success: true; entityType: RevisionEntityType; entityId: string; deckId: string }
+  | { success: false; reason: 'not_found' | 'parent_missing' | 'published'; error: string };
+
+type FlashcardMediaRow = typeof flashcardMedia.$inferSelect;
+
+interface SnapshotMedia {
+  fileUrl: string;
+  fileKey: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  placement: string;
+  order: number;
+  altText: string | null;
+}
+
+export function toFlashcardSnapshot(
+  card: typeof flashcards.$inferSelect,
+  media: FlashcardMediaRow[]
+): RevisionSnapshot {
+  return {
+    question: card.question,
+    answer: card.answer,
+    explanation: card.explanation,
+    order: card.order,
+    isPublished: card.isPublished,
+    media: [...media]
+      .sort((a, b) => a.placement.localeCompare(b.placement) || a.order - b.order)
+      .map((m): SnapshotMedia => ({
+        fileUrl: m.fileUrl,
+        fileKey: m.fileKey,
+        fileName: m.fileName,
+        fileSize: m.fileSize,
+        mimeType: m.mimeType,
+        placement: m.placement,
+        order: m.order,
+        altText: m.altText,
+      })),
+  };
+}
+
+export function toQuizQuestionSnapshot(question: typeof quizQuestions.$inferSelect): RevisionSnapshot {
+  return {
+    flashcardId: question.flashcardId,
+    questionText: question.questionText,
+    questionType: question.questionType,
+    imageUrl: question.imageUrl,
+    options: question.options,
+    explanation: question.explanation,
+    eliminationTactics: question.eliminationTactics,
+    correctAnswerWithJustification: question.correctAnswerWithJustification,
+    compareRemainingOptionsWithJustification: question.compareRemainingOptionsWithJustification,
+    correctOptionsJustification: question.correctOptionsJustification,
+    order: question.order,
+  };
+}
+
+export function toDeckQuizQuestionSnapshot(question: typeof deckQuizQuestions.$inferSelect): RevisionSnapshot {
+  return {
+    questionText: question.questionText,
+    questionType: question.questionType,
+    imageUrl: question.imageUrl,
+    options: question.options,
+    explanation: question.explanation,
+    eliminationTactics: question.eliminationTactics,
+    correctAnswerWithJustification: question.correctAnswerWithJustification,
+    compareRemainingOptionsWithJustification: question.compareRemainingOptionsWithJustification,
+    correctOptionsJustification: question.correctOptionsJustification,
+    order: question.order,
+    difficulty: question.difficulty,
+    subTopicId: question.subTopicId,
+  };
+}
+
+/**
+ * A flashcard's current snapshot with its media, or null when it does not exist
+ */
+export async function getFlashcardSnapshot(
+  flashcardId: string,
+  executor: Executor | typeof db = db
+): Promise<{ deckId: string; createdBy: string; snapshot: RevisionSnapshot } | null> {
+  const [card] = await executor.select().from(flashcards).where(eq(flashcards.id, flashcardId)).limit(1);
+  if (!card) {
+    return null;
+  }
+  const media = await executor.select().from(flashcardMedia).where(eq(flashcardMedia.flashcardId, flashcardId));
+  return { deckId: card.deckId, createdBy: card.createdBy, snapshot: toFlashcardSnapshot(card, media) };
+}
+
+async function appendRevision(
+  tx: Executor,
+  change: Omit<RevisionChange, 'action'> & { action: RevisionChange['action'] | 'restore'; restoredFromId?: string }
+): Promise<void> {
+  const [latest] = await tx
+    .select({ revisionNumber: contentRevisions.revisionNumber, snapshot: contentRevisions.snapshot })
+    .from(contentRevisions)
+    .where(and(eq(contentRevisions.entityType, change.entityType), eq(contentRevisions.entityId, change.entityId)))
+    .orderBy(desc(contentRevisions.revisionNumber))
+    .limit(1);
+
+  let revisionNumber = latest?.revisionNumber ?? 0;
+  let previous = latest?.snapshot ?? null;
+
+  // First recorded change to content that predates revisions: keep what it said before
+  if (!latest && change.before) {
+    revisionNumber += 1;
+    previous = change.before;
+    await tx.insert(contentRevisions).values({
+      entityType: change.entityType,
+      entityId: change.entityId,
+      deckId: change.deckId,
+      revisionNumber,
+      action: 'baseline',
+      snapshot: change.before,
+      changes: diffSnapshots(null, change.before),
+      authorId: change.baselineAuthorId ?? change.authorId,
+    });
+  }
+
+  const changes = diffSnapshots(previous, change.after);
+  // Saving a form without edits is not a revision
+  if (change.action === 'update' && changes.length === 0) {
+    return;
+  }
+
+  await tx.insert(contentRevisions).values({
+    entityType: change.entityType,
+    entityId: change.entityId,
+    deckId: change.deckId,
+    revisionNumber: revisionNumber + 1,
+    action: change.action,
+    snapshot: change.after ?? change.before ?? previous ?? {},
+    changes,
+    restoredFromId: change.restoredFromId ?? null,
+    authorId: change.authorId,
+  });
+}
+
+/**
+ * Append revisions for content changes, after the changes are written
+ * Pass the transaction that wrote the changes to record them in it
+ */
+export async function recordRevisions(changes: RevisionChange[], executor?: Executor): Promise<void> {
+  if (changes.length === 0) {
+    return;
+  }
+
+  // New content has no history to number against, so creates go in one insert
+  const creates = changes.filter((change) => change.action === 'create' && change.after);
+  const others = changes.filter((change) => !creates.includes(change));
+
+  const append = async (tx: Executor) => {
+    if (creates.length > 0) {
+      await tx.insert(contentRevisions).values(
+        creates.map((change) => ({
+          entityType: change.entityType,
+          entityId: change.entityId,
+          deckId: change.deckId,
+          revisionNumber: 1,
+          action: 'create',
+          snapshot: change.after!,
+          changes: diffSnapshots(null, change.after),
+          authorId: change.authorId,
+        }))
+      );
+    }
+    for (const change of others) {
+      await appendRevision(tx, change);
+    }
+  };
+
+  await (executor ? append(executor) : db.transaction(append));
+}
+
+export async function recordRevision(change: RevisionChange): Promise<void> {
+  await recordRevisions([change]);
+}
+
+function toMediaRows(flashcardId: string, media: unknown) {
+  return (Array.isArray(media) ? (media as SnapshotMedia[]) : []).map((m) => ({ ...m, flashcardId }));
+}
+
+// Restoring is an edit and follows the workflow like one; deleted items come back as drafts
+async function restoreFlashcard(tx: Executor, entityId: string, deckId: string, snapshot: RevisionSnapshot, authorId: string) {
+  const current = await getFlashcardSnapshot(entityId, tx);
+  const fields = {
+    question: snapshot.question as string,
+    answer: snapshot.answer as string,
+    explanation: (snapshot.explanation as string | null) ?? null,
+    order: (snapshot.order as number) ?? 0,
+  };
+
+  if (current) {
+    await tx.update(flashcards).set({ ...fields, updatedAt: new Date() }).where(eq(flashcards.id, entityId));
+    await tx.delete(flashcardMedia).where(eq(flashcardMedia.flashcardId, entityId));
+    await markContentEdited('flashcard', entityId, tx);
+  } else {
+    const [deck] = await tx.select({ id: decks.id }).from(decks).where(eq(decks.id, deckId)).limit(1);
+    if (!deck) return null;
+    await tx.insert(flashcards).values({ id: entityId, deckId, ...fields, isPublished: false, status: 'draft', createdBy: authorId });
+  }
+
+  const media = toMediaRows(entityId, snapshot.media);
+  if (media.length > 0) {
+    await tx.insert(flashcardMedia).values(media);
+  }
+
+  return { before: current?.snapshot ?? null };
+}
+
+function toQuestionColumns(snapshot: RevisionSnapshot) {
+  return {
+    questionText: snapshot.questionText as string,
+    questionType: (snapshot.questionType as string) ?? 'single_choice',
+    imageUrl: (snapshot.imageUrl as string | null) ?? null,
+    options: snapshot.options ?? [],
+    explanation: (snapshot.explanation as string | null) ?? null,
+    eliminationTactics: (snapshot.eliminationTactics as string | null) ?? null,
+    correctAnswerWithJustification: (snapshot.correctAnswerWithJustification as string | null) ?? null,
+    compareRemainingOptionsWithJustification: (snapshot.compareRemainingOptionsWithJustification as string | null) ?? null,
+    correctOptionsJustification: (snapshot.correctOptionsJustification as string | null) ?? null,
+    order: (snapshot.order as number) ?? 0,
+  };
+}
+
+async function restoreQuizQuestion(tx: Executor, entityId: string, snapshot: RevisionSnapshot, authorId: string) {
+  const [current] = await tx.select().from(quizQuestions).where(eq(quizQuestions.id, entityId)).limit(1);
+  const columns = toQuestionColumns(snapshot);
+
+  const flashcardId = current?.flashcardId ?? (snapshot.flashcardId as string);
+  if (current) {
+    await tx.update(quizQuestions).set({ ...columns, updatedAt: new Date() }).where(eq(quizQuestions.id, entityId));
+  } else {
+    const [card] = await tx.select({ id: flashcards.id }).from(flashcards).where(eq(flashcards.id, flashcardId)).limit(1);
+    if (!card) return null;
+    await tx.insert(quizQuestions).values({ id: entityId, flashcardId, ...columns, createdBy: authorId });
+  }
+  // The question is reviewed with its flashcard
+  await markContentEdited('flashcard', flashcardId, tx);
+
+  return { before: current ? toQuizQuestionSnapshot(current) : null };
+}
+
+async function restoreDeckQuizQuestion(
+  tx: Executor,
+  entityId: string,
+  deckId: string,
+  snapshot: RevisionSnapshot,
+  authorId: string
+) {
+  const [current] = await tx.select().from(deckQuizQuestions).where(eq(deckQuizQuestions.id, entityId)).limit(1);
+
+  // The sub-topic may have been removed since
+  const subTopicId = snapshot.subTopicId as string | null;
+  const [subTopic] = subTopicId
+    ? await tx.select({ id: subTopics.id }).from(subTopics).where(eq(subTopics.id, subTopicId)).limit(1)
+    : [];
+  const columns = {
+    ...toQuestionColumns(snapshot),
+    difficulty: (snapshot.difficulty as number | null) ?? null,
+    subTopicId: subTopic?.id ?? null,
+  };
+
+  if (current) {
+    await tx.update(deckQuizQuestions).set({ ...columns, updatedAt: new Date() }).where(eq(deckQuizQuestions.id, entityId));
+    await markContentEdited('deck_quiz_question', entityId, tx);
+  } else {
+    const [deck] = await tx.select({ id: decks.id }).from(decks).where(eq(decks.id, deckId)).limit(1);
+    if (!deck) return null;
+    await tx.insert(deckQuizQuestions).values({ id: entityId, deckId, ...columns, status: 'draft', createdBy: authorId });
+  }
+
+  return { before: current ? toDeckQuizQuestionSnapshot(current) : null };
+}
+
+/**
+ * Put a revision's content back, re-creating the item if it was deleted, and record the restore
+ */
+export async function restoreRevision(revisionId: string, authorId: string): Promise<RestoreResult> {
+  return db.transaction(async (tx) => {
+    const [revision] = await tx.select().from(contentRevisions).where(eq(contentRevisions.id, revisionId)).limit(1);
+    if (!revision) {
+      return { success: false, reason: 'not_found', error: 'Revision not found' };
+    }
+
+    const entityType = revision.entityType as RevisionEntityType;
+    const { entityId, deckId, snapshot } = revision;
+
+    // A quiz question is reviewed with its flashcard
+    const [reviewedType, reviewedId]: [ReviewableEntityType, string] =
+      entityType === 'quiz_question' ? ['flashcard', snapshot.flashcardId as string] : [entityType, entityId];
+    if (!(await canEditContent(reviewedType, reviewedId, tx))) {
+      return { success: false, reason: 'published', error: PUBLISHED_CONTENT_EDIT_ERROR };
+    }
+
+    let restored: { before: RevisionSnapshot | null } | null;
+    let after: RevisionSnapshot;
+    if (entityType === 'flashcard') {
+      restored = await restoreFlashcard(tx, entityId, deckId, snapshot, authorId);
+      after = (await getFlashcardSnapshot(entityId, tx))?.snapshot ?? snapshot;
+    } else if (entityType === 'quiz_question') {
+      restored = await restoreQuizQuestion(tx, entityId, snapshot, authorId);
+      const [row] = await tx.select().from(quizQuestions).where(eq(quizQuestions.id, entityId)).limit(1);
+      after = row ? toQuizQuestionSnapshot(row) : snapshot;
+    } else {
+      restored = await restoreDeckQuizQuestion(tx, entityId, deckId, snapshot, authorId);
+      const [row] = await tx.select().from(deckQuizQuestions).where(eq(deckQuizQuestions.id, entityId)).limit(1);
+      after = row ? toDeckQuizQuestionSnapshot(row) : snapshot;
+    }
+
+    if (!restored) {
+      return {
+        success: false,
+        reason: 'parent_missing',
+        error: entityType === 'quiz_question'
+          ? 'The flashcard this question belonged to no longer exists'
+          : 'The deck this content belonged to no longer exists',
+      };
+    }
+
+    await appendRevision(tx, {
+      entityType,
+      entityId,
+      deckId,
+      action: 'restore',
+      before: restored.before,
+      after,
+      authorId,
+      restoredFromId: revision.id,
+    });
+
+    return { success: true, entityType, entityId, deckId };
+  });
+}
+
+const revisionColumns = {
+  id: contentRevisions.id,
+  entityType: contentRevisions.entityType,
+  entityId: contentRevisions.entityId,
+  revisionNumber: contentRevisions.revisionNumber,
+  action: contentRevisions.action,
+  snapshot: contentRevisions.snapshot,
+  changes: contentRevisions.changes,
+  restoredFromId: contentRevisions.restoredFromId,
+  authorId: contentRevisions.authorId,
+  authorName: sql<string | null>`coalesce(${users.name}, ${users.email})`,
+  createdAt: contentRevisions.createdAt,
+};
+
+/**
+ * Every revision of one item in a deck, newest first
+ */
+export async function getEntityRevisions(
+  deckId: string,
+  entityType: RevisionEntityType,
+  entityId: string
+): Promise<RevisionEntry[]> {
+  const rows = await db
+    .select(revisionColumns)
+    .from(contentRevisions)
+    .leftJoin(users, eq(contentRevisions.authorId, users.clerkUserId))
+    .where(
+      and(
+        eq(contentRevisions.deckId, deckId),
+        eq(contentRevisions.entityType, entityType),
+        eq(contentRevisions.entityId, entityId)
+      )
+    )
+    .orderBy(desc(contentRevisions.revisionNumber));
+
+  return rows as RevisionEntry[];
+}
+
+/**
+ * The deck's items with history, most recently changed first, including deleted ones
+ */
+export async function getDeckRevisionedItems(deckId: string, limit = 100): Promise<RevisionedItem[]> {
+  const latest = await db
+    .selectDistinctOn([contentRevisions.entityType, contentRevisions.entityId], revisionColumns)
+    .from(contentRevisions)
+    .leftJoin(users, eq(contentRevisions.authorId, users.clerkUserId))
+    .where(eq(contentRevisions.deckId, deckId))
+    .orderBy(asc(contentRevisions.entityType), asc(contentRevisions.entityId), desc(contentRevisions.revisionNumber));
+
+  return latest
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, limit)
+    .map((row) => ({
+      entityType: row.entityType as RevisionEntityType,
+      entityId: row.entityId,
+      title: getRevisionTitle(row.snapshot),
+      revisionCount: row.revisionNumber,
+      lastAction: row.action as RevisionAction,
+      lastChangedAt: row.createdAt,
+      lastAuthorName: row.authorName,
+      isDeleted: row.action === 'delete',
+    }));
+}
+
+/**
+ * Media URLs kept by flashcard revisions, which blob cleanup must not delete
+ */
+export async function getRevisionMediaUrls(): Promise<string[]> {
+  const rows = await db.execute<{ file_url: string }>(sql`
+    SELECT DISTINCT media ->> 'fileUrl' AS file_url
+    FROM ${contentRevisions}, json_array_elements(${contentRevisions.snapshot} -> 'media') AS media
+    WHERE ${contentRevisions.entityType} = 'flashcard'
+  `);
+
+  return rows.map((row) => row.file_url);
+}
+
+/**
+ * Question snapshots of a flashcard's quiz questions, for recording their removal
+ */
+export async function getQuizQuestionSnapshots(flashcardId: string) {
+  const rows = await db.select().from(quizQuestions).where(eq(quizQuestions.flashcardId, flashcardId));
+  return rows.map((row) => ({ id: row.id, createdBy: row.createdBy, snapshot: toQuizQuestionSnapshot(row) }));
+}
+
+/**
+ * Question snapshots of a deck's quiz questions, optionally only some of them
+ */
+export async function getDeckQuizQuestionSnapshots(deckId: string, questionIds?: string[]) {
+  const rows = await db
+    .select()
+    .from(deckQuizQuestions)
+    .where(and(eq(deckQuizQuestions.deckId, deckId), questionIds ? inArray(deckQuizQuestions.id, questionIds) : undefined));
+  return rows.map((row) => ({ id: row.id, createdBy: row.createdBy, snapshot: toDeckQuizQuestionSnapshot(row) }));
+}
@@ -0,0 +1,146 @@
+/**
+ * Due Review Queue
+ * Orders due cards across every class, deck and bookmark and forecasts upcoming reviews.
+ */
+
+import { getCurrentRetrievability } from './scheduler';
+import { getLocalDateString, getNextLocalMidnight } from '@/lib/daily-card-limit';
+
+export const REVIEW_QUEUE_CONFIG = {
+  DEFAULT_DAILY_CAP: 200, // Max reviews per day unless the learner asks for another cap
+  MAX_DAILY_CAP: 1000,
+  FORECAST_DAYS: 30,
+};
+
+export interface ReviewCandidate {
+  flashcardId: string;
+  domainNumber: number | null;
+  nextReviewDate: Date | null;
+  lastSeen: Date | null;
+  stability: number;
+  isNew: boolean; // Bookmarked but never rated
+}
+
+export interface ReviewForecast {
+  dueNow: number;
+  next7Days: number;
+  next30Days: number;
+  daily: Array<{ date: string; count: number }>;
+}
+
+/**
+ * Check if a candidate should be reviewed now
+ */
+export function isCandidateDue(candidate: ReviewCandidate, now: Date): boolean {
+  if (candidate.isNew || candidate.nextReviewDate === null) {
+    return true;
+  }
+  return new Date(candidate.nextReviewDate) <= now;
+}
+
+/**
+ * Order due cards: reviews most likely to be forgotten first, then bookmarked new cards,
+ * grouping by CISSP domain within the same overdue-ness
+ */
+export function compareByOverdueAndDomain(a: ReviewCandidate, b: ReviewCandidate, now: Date): number {
+  if (a.isNew !== b.isNew) {
+    return a.isNew ? 1 : -1;
+  }
+
+  if (!a.isNew) {
+    const recallA = getCurrentRetrievability(a.stability, a.lastSeen, now);
+    const recallB = getCurrentRetrievability(b.stability, b.lastSeen, now);
+    if (recallA !== recallB) {
+      return recallA - recallB;
+    }
+  }
+
+  return (a.domainNumber ?? Number.MAX_SAFE_INTEGER) - (b.domainNumber ?? Number.MAX_SAFE_INTEGER);
+}
+
+/**
+ * Resolve the daily cap from a query parameter value
+ */
+export function parseDailyCap(value: string | null): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  if (Number.isNaN(parsed) || parsed < 1) {
+    return REVIEW_QUEUE_CONFIG.DEFAULT_DAILY_CAP;
+  }
+  return Math.min(parsed, REVIEW_QUEUE_CONFIG.MAX_DAILY_CAP);
+}
+
+/**
+ * Build today's review queue, limited to what is left of the daily cap
+ */
+export function buildReviewQueue<T extends ReviewCandidate>(
+  candidates: T[],
+  now: Date,
+  remainingToday: number
+): { queue: T[]; totalDue: number } {
+  const due = candidates
+    .filter(candidate => isCandidateDue(candidate, now))
+    .sort((a, b) => compareByOverdueAndDomain(a, b, now));
+
+  return {
+    queue: due.slice(0, Math.max(0, remainingToday)),
+    totalDue: due.length,
+  };
+}
+
+/**
+ * The local calendar dates (YYYY-MM-DD) starting with today in the timezone
+ */
+function getLocalDates(now: Date, timeZone: string, days: number): string[] {
+  const [year, month, day] = getLocalDateString(now, timeZone).split('-').map(Number);
+  return Array.from({ length: days }, (_, i) => new Date(Date.UTC(year, month - 1, day + i)).toISOString().slice(0, 10));
+}
+
+/**
+ * End of the forecast window: local midnight after its last day
+ */
+export function getForecastHorizon(
+  now: Date,
+  timeZone: string,
+  days: number = REVIEW_QUEUE_CONFIG.FORECAST_DAYS
+): Date {
+  let horizon = now;
+  for (let i = 0; i < days; i++) {
+    horizon = getNextLocalMidnight(horizon, timeZone);
+  }
+  return horizon;
+}
+
+/**
+ * Count how many scheduled cards come due on each of the next local days
+ */
+export function buildReviewForecast(
+  candidates: ReviewCandidate[],
+  now: Date,
+  timeZone: string,
+  days: number = REVIEW_QUEUE_CONFIG.FORECAST_DAYS
+): ReviewForecast {
+  const daily = getLocalDates(now, timeZone, days).map(date => ({ date, count: 0 }));
+  const dayIndex = new Map(daily.map((day, i) => [day.date, i]));
+
+  let dueNow = 0;
+  for (const candidate of candidates) {
+    if (isCandidateDue(candidate, now)) {
+      dueNow++;
+      continue;
+    }
+
+    const index = dayIndex.get(getLocalDateString(new Date(candidate.nextReviewDate!), timeZone));
+    if (index !== undefined) {
+      daily[index].count++;
+    }
+  }
+
+  const sumDays = (n: number) => daily.slice(0, n).reduce((sum, day) => sum + day.count, 0);
+
+  return {
+    dueNow,
+    next7Days: sumDays(7),
+    next30Days: sumDays(30),
+    daily,
+  };
+}
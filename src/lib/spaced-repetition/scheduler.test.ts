@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  scheduleReview,
+  replayReviews,
+  getRetrievability,
+  updateEaseFactor,
+  getSchedulingState,
+  SCHEDULER_CONFIG,
+  type RatingEvent,
+  type ScheduledReview,
+} from './scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2026-01-01T09:00:00Z');
+
+/**
+ * Build a rating history where every review happens exactly when it is due
+ */
+function reviewOnDueDates(ratings: number[]): ScheduledReview[] {
+  const results: ScheduledReview[] = [];
+  let state: ScheduledReview | null = null;
+  let reviewedAt = START;
+  let lastReviewedAt: Date | null = null;
+
+  for (const rating of ratings) {
+    state = scheduleReview(state, rating, reviewedAt, lastReviewedAt);
+    results.push(state);
+    lastReviewedAt = reviewedAt;
+    reviewedAt = state.nextReviewDate;
+  }
+
+  return results;
+}
+
+describe('spaced repetition scheduler', () => {
+  describe('first review', () => {
+    it('uses the graduating intervals for a new card', () => {
+      expect(scheduleReview(null, 3, START).intervalDays).toBe(1);
+      expect(scheduleReview(null, 4, START).intervalDays).toBe(3);
+      expect(scheduleReview(null, 5, START).intervalDays).toBe(7);
+    });
+
+    it('schedules forgotten new cards for relearning without counting a lapse', () => {
+      const review = scheduleReview(null, 1, START);
+
+      expect(review.intervalDays).toBe(SCHEDULER_CONFIG.RELEARN_INTERVAL_DAYS);
+      expect(review.lapses).toBe(0);
+      expect(review.nextReviewDate.getTime()).toBe(START.getTime() + 0.5 * DAY_MS);
+    });
+  });
+
+  describe('replaying rating histories', () => {
+    it('keeps growing the interval when a card is rated 5 ten times', () => {
+      const results = reviewOnDueDates(Array(10).fill(5));
+      const intervals = results.map(r => r.intervalDays);
+
+      for (let i = 1; i < intervals.length; i++) {
+        if (intervals[i - 1] < SCHEDULER_CONFIG.MAX_INTERVAL_DAYS) {
+          expect(intervals[i]).toBeGreaterThan(intervals[i - 1]);
+        }
+      }
+      expect(intervals[1]).toBeGreaterThan(7);
+      expect(intervals[intervals.length - 1]).toBe(SCHEDULER_CONFIG.MAX_INTERVAL_DAYS);
+      expect(results[results.length - 1].stability).toBeLessThanOrEqual(SCHEDULER_CONFIG.MAX_INTERVAL_DAYS);
+    });
+
+    it('grows intervals more slowly for "mostly" than "perfectly"', () => {
+      const mostly = reviewOnDueDates([4, 4, 4, 4]);
+      const perfectly = reviewOnDueDates([5, 5, 5, 5]);
+
+      expect(mostly[3].intervalDays).toBeLessThan(perfectly[3].intervalDays);
+      expect(mostly[3].intervalDays).toBeGreaterThan(mostly[2].intervalDays);
+    });
+
+    it('lowers the ease factor for repeated "somewhat" ratings', () => {
+      const results = reviewOnDueDates([3, 3, 3, 3]);
+
+      expect(results[3].easeFactor).toBeLessThan(SCHEDULER_CONFIG.INITIAL_EASE);
+      expect(results[3].intervalDays).toBeGreaterThanOrEqual(results[2].intervalDays);
+    });
+
+    it('resets the interval and counts a lapse when a learned card is forgotten', () => {
+      const results = reviewOnDueDates([5, 5, 5, 1]);
+      const beforeLapse = results[2];
+      const lapse = results[3];
+
+      expect(lapse.intervalDays).toBe(SCHEDULER_CONFIG.RELEARN_INTERVAL_DAYS);
+      expect(lapse.lastIntervalDays).toBe(beforeLapse.intervalDays);
+      expect(lapse.lapses).toBe(1);
+      expect(lapse.stability).toBeLessThan(beforeLapse.stability);
+      expect(lapse.easeFactor).toBeLessThan(beforeLapse.easeFactor);
+    });
+
+    it('relearns a lapsed card from the memory it kept', () => {
+      const results = reviewOnDueDates([5, 5, 5, 1, 4]);
+      const relearned = results[4];
+
+      expect(relearned.intervalDays).toBe(results[3].stability);
+      expect(relearned.intervalDays).toBeGreaterThan(3);
+      expect(relearned.lapses).toBe(1);
+    });
+
+    it('gives no extra credit for reviewing a card again on the same day', () => {
+      const first = scheduleReview(null, 5, START);
+      const second = scheduleReview(first, 5, new Date(START.getTime() + 1000), START);
+      const third = scheduleReview(second, 5, new Date(START.getTime() + 2000), START);
+
+      expect(third.intervalDays).toBe(first.intervalDays);
+    });
+
+    it('matches replayReviews for the same history', () => {
+      const ratings = [4, 5, 2, 3, 4, 5];
+      const stepped = reviewOnDueDates(ratings);
+      const history: RatingEvent[] = [];
+      let reviewedAt = START;
+      for (let i = 0; i < ratings.length; i++) {
+        history.push({ rating: ratings[i], reviewedAt });
+        reviewedAt = stepped[i].nextReviewDate;
+      }
+
+      expect(replayReviews(history)).toEqual(stepped[stepped.length - 1]);
+    });
+
+    it('returns null for an empty history', () => {
+      expect(replayReviews([])).toBeNull();
+    });
+  });
+
+  describe('helpers', () => {
+    it('predicts target retention after one stability period', () => {
+      expect(getRetrievability(10, 10)).toBeCloseTo(SCHEDULER_CONFIG.TARGET_RETENTION, 5);
+      expect(getRetrievability(10, 0)).toBe(1);
+      expect(getRetrievability(0, 5)).toBe(0);
+    });
+
+    it('clamps the ease factor to the minimum', () => {
+      expect(updateEaseFactor(SCHEDULER_CONFIG.MIN_EASE, 1)).toBe(SCHEDULER_CONFIG.MIN_EASE);
+      expect(updateEaseFactor(2.5, 4)).toBe(2.5);
+    });
+
+    it('parses decimal columns from a progress row', () => {
+      expect(getSchedulingState({
+        easeFactor: '2.36',
+        stability: '12.50',
+        intervalDays: '12.50',
+        lastIntervalDays: '4.00',
+        lapses: 2,
+      })).toEqual({
+        easeFactor: 2.36,
+        stability: 12.5,
+        intervalDays: 12.5,
+        lastIntervalDays: 4,
+        lapses: 2,
+      });
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Spaced Repetition Scheduler
+ * SM-2 ease factors combined with an FSRS-style memory stability model.
+ * Turns a card's 1-5 confidence rating history into growing review intervals.
+ */
+
+export const SCHEDULER_CONFIG = {
+  INITIAL_EASE: 2.5,
+  MIN_EASE: 1.3,
+  MAX_EASE: 3.5,
+  LAPSE_THRESHOLD: 3, // Ratings below this mean the card was forgotten
+  RELEARN_INTERVAL_DAYS: 0.5, // Forgotten cards come back within the same day
+  LAPSE_STABILITY_FACTOR: 0.3, // Share of memory stability kept after a lapse
+  HARD_MULTIPLIER: 1.2, // Growth for "Somewhat" (rating 3) regardless of ease
+  EASY_BONUS: 1.3, // Extra growth for "Perfectly" (rating 5)
+  MAX_LATE_REVIEW_BONUS: 2, // Cap on extra credit for recalling an overdue card
+  TARGET_RETENTION: 0.9, // Recall probability at which a card becomes due
+  MAX_INTERVAL_DAYS: 365,
+};
+
+/**
+ * First interval (in days) for a card that is new or being relearned,
+ * keyed by rating. Matches the fixed intervals used before the scheduler existed.
+ */
+export const GRADUATING_INTERVALS: Record<number, number> = {
+  3: 1,
+  4: 3,
+  5: 7,
+};
+
+// FSRS power forgetting curve constants: R(t = S) === TARGET_RETENTION
+const DECAY = -0.5;
+const FACTOR = Math.pow(SCHEDULER_CONFIG.TARGET_RETENTION, 1 / DECAY) - 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SchedulingState {
+  easeFactor: number;
+  stability: number; // days until recall probability drops to TARGET_RETENTION
+  intervalDays: number; // current scheduled interval
+  lastIntervalDays: number; // interval before the most recent review
+  lapses: number; // times a learned card was forgotten
+}
+
+export interface ScheduledReview extends SchedulingState {
+  nextReviewDate: Date;
+}
+
+export interface RatingEvent {
+  rating: number;
+  reviewedAt: Date;
+}
+
+export const INITIAL_SCHEDULING_STATE: SchedulingState = {
+  easeFactor: SCHEDULER_CONFIG.INITIAL_EASE,
+  stability: 0,
+  intervalDays: 0,
+  lastIntervalDays: 0,
+  lapses: 0,
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function roundDays(days: number): number {
+  return Math.round(days * 100) / 100;
+}
+
+/**
+ * Probability that a card is still remembered after elapsedDays
+ */
+export function getRetrievability(stability: number, elapsedDays: number): number {
+  if (stability <= 0) {
+    return 0;
+  }
+  return Math.pow(1 + (FACTOR * Math.max(0, elapsedDays)) / stability, DECAY);
+}
+
+/**
+ * Probability that a card is still remembered now, given when it was last reviewed
+ */
+export function getCurrentRetrievability(
+  stability: number,
+  lastReviewedAt: Date | null,
+  now: Date = new Date()
+): number {
+  if (!lastReviewedAt) {
+    return 0;
+  }
+  return getRetrievability(stability, (now.getTime() - new Date(lastReviewedAt).getTime()) / DAY_MS);
+}
+
+/**
+ * SM-2 ease factor update (rating 1-5 used directly as the SM-2 quality)
+ */
+export function updateEaseFactor(easeFactor: number, rating: number): number {
+  const distance = 5 - rating;
+  const next = easeFactor + (0.1 - distance * (0.08 + distance * 0.02));
+  return Math.round(clamp(next, SCHEDULER_CONFIG.MIN_EASE, SCHEDULER_CONFIG.MAX_EASE) * 100) / 100;
+}
+
+/**
+ * Stability growth for a successful review of an already-learned card.
+ * Reviews at the due date grow stability by the SM-2 factor, early reviews
+ * earn almost nothing, and late reviews earn a capped bonus.
+ */
+function getStabilityGrowth(rating: number, easeFactor: number, retrievability: number): number {
+  let target: number;
+  if (rating === 3) {
+    target = SCHEDULER_CONFIG.HARD_MULTIPLIER;
+  } else if (rating === 5) {
+    target = easeFactor * SCHEDULER_CONFIG.EASY_BONUS;
+  } else {
+    target = easeFactor;
+  }
+
+  const spacingEffect = clamp(
+    (1 - retrievability) / (1 - SCHEDULER_CONFIG.TARGET_RETENTION),
+    0,
+    SCHEDULER_CONFIG.MAX_LATE_REVIEW_BONUS
+  );
+
+  return 1 + (target - 1) * spacingEffect;
+}
+
+/**
+ * Schedule the next review of a card after it was rated
+ *
+ * @param state - Current scheduling state (null for a card never seen before)
+ * @param rating - Confidence rating from 1 (not at all) to 5 (perfectly)
+ * @param reviewedAt - When the rating was given
+ * @param lastReviewedAt - When the card was previously reviewed (null if never)
+ */
+export function scheduleReview(
+  state: SchedulingState | null,
+  rating: number,
+  reviewedAt: Date = new Date(),
+  lastReviewedAt: Date | null = null
+): ScheduledReview {
+  const prior = state ?? INITIAL_SCHEDULING_STATE;
+  const easeFactor = updateEaseFactor(prior.easeFactor, rating);
+  const isLearned = prior.intervalDays >= 1;
+
+  let stability: number;
+  let intervalDays: number;
+  let lapses = prior.lapses;
+
+  if (rating < SCHEDULER_CONFIG.LAPSE_THRESHOLD) {
+    // Forgotten: keep a fraction of the memory and relearn soon
+    stability = Math.max(
+      SCHEDULER_CONFIG.RELEARN_INTERVAL_DAYS,
+      prior.stability * SCHEDULER_CONFIG.LAPSE_STABILITY_FACTOR
+    );
+    intervalDays = SCHEDULER_CONFIG.RELEARN_INTERVAL_DAYS;
+    if (isLearned) {
+      lapses += 1;
+    }
+  } else if (!isLearned) {
+    // New or relearning: graduate, resuming from any memory kept after a lapse
+    stability = Math.max(GRADUATING_INTERVALS[rating], prior.stability);
+    intervalDays = stability;
+  } else {
+    const elapsedDays = lastReviewedAt
+      ? (reviewedAt.getTime() - lastReviewedAt.getTime()) / DAY_MS
+      : prior.intervalDays;
+    const retrievability = getRetrievability(prior.stability, elapsedDays);
+
+    stability = prior.stability * getStabilityGrowth(rating, easeFactor, retrievability);
+    // A successful review never shortens the interval
+    intervalDays = Math.max(stability, prior.intervalDays);
+  }
+
+  intervalDays = roundDays(Math.min(intervalDays, SCHEDULER_CONFIG.MAX_INTERVAL_DAYS));
+  stability = roundDays(Math.min(stability, SCHEDULER_CONFIG.MAX_INTERVAL_DAYS));
+
+  return {
+    easeFactor,
+    stability,
+    intervalDays,
+    lastIntervalDays: prior.intervalDays,
+    lapses,
+    nextReviewDate: new Date(reviewedAt.getTime() + intervalDays * DAY_MS),
+  };
+}
+
+/**
+ * Replay a card's full rating history from a fresh state
+ */
+export function replayReviews(history: RatingEvent[]): ScheduledReview | null {
+  let result: ScheduledReview | null = null;
+  let lastReviewedAt: Date | null = null;
+
+  for (const event of history) {
+    result = scheduleReview(result, event.rating, event.reviewedAt, lastReviewedAt);
+    lastReviewedAt = event.reviewedAt;
+  }
+
+  return result;
+}
+
+/**
+ * Build a scheduling state from a user_card_progress row.
+ * Decimal columns come back from Postgres as strings.
+ */
+export function getSchedulingState(progress: {
+  easeFactor: string | number | null;
+  stability: string | number | null;
+  intervalDays: string | number | null;
+  lastIntervalDays: string | number | null;
+  lapses: number | null;
+}): SchedulingState {
+  return {
+    easeFactor: Number(progress.easeFactor ?? SCHEDULER_CONFIG.INITIAL_EASE),
+    stability: Number(progress.stability ?? 0),
+    intervalDays: Number(progress.intervalDays ?? 0),
+    lastIntervalDays: Number(progress.lastIntervalDays ?? 0),
+    lapses: progress.lapses ?? 0,
+  };
+}
+
+/**
+ * Convert a scheduled review into values for the user_card_progress row
+ */
+export function toProgressColumns(review: ScheduledReview) {
+  return {
+    easeFactor: review.easeFactor.toFixed(2),
+    stability: review.stability.toFixed(2),
+    intervalDays: review.intervalDays.toFixed(2),
+    lastIntervalDays: review.lastIntervalDays.toFixed(2),
+    lapses: review.lapses,
+    nextReviewDate: review.nextReviewDate,
+  };
+}
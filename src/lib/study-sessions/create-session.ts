@@ -0,0 +1,73 @@
+/**
+ * Study Session Creation
+ * Shared by /api/sessions/create and the "study the weak ones again" action.
+ */
+
+import { NextResponse } from 'next/server';
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { studySessions, studySessionDecks, decks } from '@/lib/db/schema';
+import { getDeckEntitlement, buildUpgradeRequired, upgradeRequiredResponse } from '@/lib/entitlements';
+
+/**
+ * Check that every deck exists, is published and is open to the current user
+ * Returns the error response to send, or null when the decks can be studied
+ */
+export async function getSessionDeckAccessError(deckIds: string[]): Promise<NextResponse | null> {
+  const selectedDecks = await db
+    .select({ id: decks.id, name: decks.name, isPremium: decks.isPremium })
+    .from(decks)
+    .where(and(inArray(decks.id, deckIds), eq(decks.isPublished, true)));
+
+  const foundIds = new Set(selectedDecks.map((deck) => deck.id));
+  const missingDeckIds = deckIds.filter((deckId) => !foundIds.has(deckId));
+
+  if (missingDeckIds.length > 0) {
+    return NextResponse.json(
+      { error: 'Deck not found', deckIds: missingDeckIds },
+      { status: 404 }
+    );
+  }
+
+  // Free users cannot start a session on premium decks
+  const entitlement = await getDeckEntitlement(selectedDecks);
+  const lockedDecks = selectedDecks.filter((deck) => entitlement.lockedDeckIds.has(deck.id));
+
+  if (lockedDecks.length > 0) {
+    return upgradeRequiredResponse(
+      buildUpgradeRequired(entitlement, lockedDecks.map(({ id, name }) => ({ id, name })))
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Create a session with a study_session_decks row for each deck
+ *
+ * @param focusFlashcardIds - Limit the session to these cards (null studies the whole decks)
+ */
+export async function insertStudySession(
+  userId: string,
+  deckIds: string[],
+  focusFlashcardIds: string[] | null = null
+) {
+  return db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(studySessions)
+      .values({
+        clerkUserId: userId,
+        deckId: deckIds[0], // Kept for single-deck queries; every deck is in study_session_decks
+        startedAt: new Date(),
+        cardsStudied: 0,
+        focusFlashcardIds,
+      })
+      .returning();
+
+    await tx.insert(studySessionDecks).values(
+      deckIds.map((deckId) => ({ sessionId: created.id, deckId }))
+    );
+
+    return created;
+  });
+}
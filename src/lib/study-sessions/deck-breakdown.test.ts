@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { buildDeckBreakdown } from './deck-breakdown';
+
+const START = new Date('2026-01-01T10:00:00Z');
+
+function at(seconds: number): Date {
+  return new Date(START.getTime() + seconds * 1000);
+}
+
+describe('buildDeckBreakdown', () => {
+  it('splits time between decks by the gaps between ratings', () => {
+    const result = buildDeckBreakdown(
+      ['d1', 'd2'],
+      [
+        { flashcardId: 'c3', deckId: 'd2', confidenceRating: 2, createdAt: at(50) },
+        { flashcardId: 'c1', deckId: 'd1', confidenceRating: 5, createdAt: at(20) },
+        { flashcardId: 'c2', deckId: 'd1', confidenceRating: 4, createdAt: at(30) },
+      ],
+      START,
+      at(70)
+    );
+
+    expect(result).toEqual([
+      { deckId: 'd1', cardsStudied: 2, studyDuration: 30, averageConfidence: '4.50' },
+      // 20s on its card plus the 20s left after the last rating
+      { deckId: 'd2', cardsStudied: 1, studyDuration: 40, averageConfidence: '2.00' },
+    ]);
+    expect(result.reduce((sum, deck) => sum + deck.studyDuration, 0)).toBe(70);
+  });
+
+  it('counts a re-rated card once but averages every rating', () => {
+    const [deck] = buildDeckBreakdown(
+      ['d1'],
+      [
+        { flashcardId: 'c1', deckId: 'd1', confidenceRating: 2, createdAt: at(10) },
+        { flashcardId: 'c1', deckId: 'd1', confidenceRating: 4, createdAt: at(20) },
+      ],
+      START,
+      at(20)
+    );
+
+    expect(deck.cardsStudied).toBe(1);
+    expect(deck.averageConfidence).toBe('3.00');
+  });
+
+  it('reports untouched decks and ignores cards from other decks', () => {
+    const result = buildDeckBreakdown(
+      ['d1', 'd2'],
+      [{ flashcardId: 'c9', deckId: 'other', confidenceRating: 5, createdAt: at(10) }],
+      START,
+      at(60)
+    );
+
+    expect(result).toEqual([
+      { deckId: 'd1', cardsStudied: 0, studyDuration: 0, averageConfidence: '0.00' },
+      { deckId: 'd2', cardsStudied: 0, studyDuration: 0, averageConfidence: '0.00' },
+    ]);
+  });
+});
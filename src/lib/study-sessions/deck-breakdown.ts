@@ -0,0 +1,90 @@
+/**
+ * Study Session Deck Breakdown
+ * Splits a multi-deck session's cards, time and confidence across its decks.
+ */
+
+export interface SessionCardRating {
+  flashcardId: string;
+  deckId: string;
+  confidenceRating: number;
+  createdAt: Date; // When the rating was recorded
+}
+
+export interface DeckSessionResult {
+  deckId: string;
+  cardsStudied: number; // Distinct cards rated
+  studyDuration: number; // in seconds
+  averageConfidence: string; // decimal(3,2) column value
+}
+
+/**
+ * Sort ratings by time and work out how long was spent on each one.
+ * Time spent on a card is the gap since the previous rating (or the session start),
+ * and the time after the last rating goes to that last card, so the
+ * durations add up to the whole session.
+ */
+export function splitSessionTime<T extends { createdAt: Date }>(
+  ratings: T[],
+  startedAt: Date,
+  endedAt: Date
+): Array<T & { durationMs: number }> {
+  const ordered = [...ratings].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  let previous = new Date(startedAt).getTime();
+  const timed = ordered.map((rating) => {
+    const at = new Date(rating.createdAt).getTime();
+    const durationMs = Math.max(0, at - previous);
+    previous = Math.max(previous, at);
+    return { ...rating, durationMs };
+  });
+
+  const last = timed[timed.length - 1];
+  if (last) {
+    last.durationMs += Math.max(0, new Date(endedAt).getTime() - previous);
+  }
+
+  return timed;
+}
+
+/**
+ * Attribute session results to each deck, splitting time with splitSessionTime
+ *
+ * @param deckIds - Decks in the session, in the order they were selected
+ * @param ratings - Session card ratings (any order)
+ */
+export function buildDeckBreakdown(
+  deckIds: string[],
+  ratings: SessionCardRating[],
+  startedAt: Date,
+  endedAt: Date
+): DeckSessionResult[] {
+  const totals = new Map(
+    deckIds.map((deckId) => [deckId, { cards: new Set<string>(), ms: 0, confidenceSum: 0, ratings: 0 }])
+  );
+
+  const timed = splitSessionTime(
+    ratings.filter((rating) => totals.has(rating.deckId)),
+    startedAt,
+    endedAt
+  );
+
+  for (const rating of timed) {
+    const deck = totals.get(rating.deckId)!;
+    deck.cards.add(rating.flashcardId);
+    deck.ms += rating.durationMs;
+    deck.confidenceSum += rating.confidenceRating;
+    deck.ratings += 1;
+  }
+
+  return deckIds.map((deckId) => {
+    const deck = totals.get(deckId)!;
+    return {
+      deckId,
+      cardsStudied: deck.cards.size,
+      studyDuration: Math.floor(deck.ms / 1000),
+      averageConfidence: (deck.ratings > 0 ? deck.confidenceSum / deck.ratings : 0).toFixed(2),
+    };
+  });
+}
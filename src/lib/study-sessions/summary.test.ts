@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { buildSessionSummary, type SummaryRating } from './summary';
+
+const START = new Date('2026-01-01T10:00:00Z');
+
+function rating(
+  flashcardId: string,
+  seconds: number,
+  confidenceRating: number,
+  previousConfidence: number | null
+): SummaryRating {
+  return {
+    flashcardId,
+    deckId: 'd1',
+    question: `Question ${flashcardId}`,
+    confidenceRating,
+    previousConfidence,
+    createdAt: new Date(START.getTime() + seconds * 1000),
+  };
+}
+
+describe('buildSessionSummary', () => {
+  it('counts cards by their last rating and times each card', () => {
+    const summary = buildSessionSummary(
+      [
+        rating('c1', 20, 2, null),
+        rating('c2', 30, 5, 3),
+        rating('c1', 60, 4, 2), // Re-rated later in the session
+      ],
+      START,
+      new Date(START.getTime() + 60_000)
+    );
+
+    expect(summary.cardsStudied).toBe(2);
+    expect(summary.totalRatings).toBe(3);
+    expect(summary.studyDuration).toBe(60);
+    expect(summary.averageSecondsPerCard).toBe(30);
+    expect(summary.averageConfidence).toBe(3.67);
+    expect(summary.confidenceCounts).toEqual([
+      { level: 1, count: 0 },
+      { level: 2, count: 0 },
+      { level: 3, count: 0 },
+      { level: 4, count: 1 },
+      { level: 5, count: 1 },
+    ]);
+    expect(summary.cards.find((card) => card.flashcardId === 'c1')).toMatchObject({
+      confidence: 4,
+      previousConfidence: null, // Confidence before the session, not before the re-rating
+      secondsSpent: 50,
+    });
+  });
+
+  it('finds newly mastered, regressed and weak cards', () => {
+    const summary = buildSessionSummary(
+      [
+        rating('new-mastered', 10, 5, null),
+        rating('promoted', 20, 4, 3),
+        rating('already-mastered', 30, 5, 4),
+        rating('slipped', 40, 2, 4),
+        rating('still-weak', 50, 1, 1),
+      ],
+      START,
+      null
+    );
+
+    expect(summary.newlyMastered.map((card) => card.flashcardId)).toEqual(['new-mastered', 'promoted']);
+    expect(summary.regressed.map((card) => card.flashcardId)).toEqual(['slipped']);
+    expect(summary.weakCards.map((card) => card.flashcardId)).toEqual(['slipped', 'still-weak']);
+    // Sessions still open end at the last rating
+    expect(summary.studyDuration).toBe(50);
+  });
+
+  it('summarises an empty session', () => {
+    const summary = buildSessionSummary([], START, new Date(START.getTime() + 5_000));
+
+    expect(summary.cardsStudied).toBe(0);
+    expect(summary.averageSecondsPerCard).toBe(0);
+    expect(summary.weakCards).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Study Session Summary
+ * Turns a session's card ratings into confidence counts, mastery changes and timing.
+ */
+
+import { SCHEDULER_CONFIG } from '@/lib/spaced-repetition/scheduler';
+import { splitSessionTime } from './deck-breakdown';
+
+// Mirrors calculateMasteryStatus in /api/progress/card
+const MASTERED_CONFIDENCE = 4;
+const LEARNING_CONFIDENCE = 3;
+
+export interface SummaryRating {
+  flashcardId: string;
+  deckId: string;
+  question: string;
+  confidenceRating: number;
+  previousConfidence: number | null; // Confidence before this rating (null if never rated)
+  createdAt: Date;
+}
+
+export interface SummaryCard {
+  flashcardId: string;
+  deckId: string;
+  question: string;
+  confidence: number; // Last rating in the session
+  previousConfidence: number | null; // Confidence before the session
+  secondsSpent: number;
+}
+
+export interface SessionSummary {
+  cardsStudied: number; // Distinct cards rated
+  totalRatings: number;
+  studyDuration: number; // in seconds
+  averageSecondsPerCard: number;
+  averageConfidence: number;
+  confidenceCounts: Array<{ level: number; count: number }>; // Cards by their last rating, levels 1-5
+  newlyMastered: SummaryCard[];
+  regressed: SummaryCard[];
+  weakCards: SummaryCard[]; // Rated below the lapse threshold; offered for another session
+  cards: SummaryCard[]; // In the order they were first rated
+}
+
+function getMasteryRank(confidence: number | null): number {
+  if (confidence === null) return -1;
+  if (confidence >= MASTERED_CONFIDENCE) return 2;
+  if (confidence >= LEARNING_CONFIDENCE) return 1;
+  return 0;
+}
+
+/**
+ * Build the summary of a session from its ratings
+ *
+ * @param endedAt - When the session ended (null while still open: the last rating is used)
+ */
+export function buildSessionSummary(
+  ratings: SummaryRating[],
+  startedAt: Date,
+  endedAt: Date | null
+): SessionSummary {
+  const timed = splitSessionTime(ratings, startedAt, endedAt ?? startedAt);
+  const lastRatedAt = timed.length > 0 ? new Date(timed[timed.length - 1].createdAt) : new Date(startedAt);
+  const end = endedAt && new Date(endedAt) > lastRatedAt ? new Date(endedAt) : lastRatedAt;
+
+  // First rating keeps the confidence before the session, later ones overwrite the result
+  const cardsById = new Map<string, SummaryCard & { ms: number }>();
+  for (const rating of timed) {
+    const existing = cardsById.get(rating.flashcardId);
+    if (existing) {
+      existing.confidence = rating.confidenceRating;
+      existing.ms += rating.durationMs;
+    } else {
+      cardsById.set(rating.flashcardId, {
+        flashcardId: rating.flashcardId,
+        deckId: rating.deckId,
+        question: rating.question,
+        confidence: rating.confidenceRating,
+        previousConfidence: rating.previousConfidence,
+        secondsSpent: 0,
+        ms: rating.durationMs,
+      });
+    }
+  }
+
+  const cards: SummaryCard[] = Array.from(cardsById.values()).map(({ ms, ...card }) => ({
+    ...card,
+    secondsSpent: Math.round(ms / 1000),
+  }));
+
+  const studyDuration = Math.max(0, Math.floor((end.getTime() - new Date(startedAt).getTime()) / 1000));
+  const confidenceSum = ratings.reduce((sum, rating) => sum + rating.confidenceRating, 0);
+
+  return {
+    cardsStudied: cards.length,
+    totalRatings: ratings.length,
+    studyDuration,
+    averageSecondsPerCard: cards.length > 0 ? Math.round(studyDuration / cards.length) : 0,
+    averageConfidence: ratings.length > 0 ? Math.round((confidenceSum / ratings.length) * 100) / 100 : 0,
+    confidenceCounts: [1, 2, 3, 4, 5].map((level) => ({
+      level,
+      count: cards.filter((card) => card.confidence === level).length,
+    })),
+    newlyMastered: cards.filter(
+      (card) => getMasteryRank(card.confidence) === 2 && getMasteryRank(card.previousConfidence) < 2
+    ),
+    regressed: cards.filter(
+      (card) => card.previousConfidence !== null && getMasteryRank(card.confidence) < getMasteryRank(card.previousConfidence)
+    ),
+    weakCards: cards.filter((card) => card.confidence < SCHEDULER_CONFIG.LAPSE_THRESHOLD),
+    cards,
+  };
+}
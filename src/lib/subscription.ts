@@ -56,6 +56,11 @@ export async function hasPaidAccess() {
     return false;
   }
 
+  // The free plan row created at sign-up is 'active' but grants no paid access
+  if (subscription.planType === 'free') {
+    return false;
+  }
+
   // Check if subscription is active or trialing
   const hasActiveStatus = subscription.status === 'active' ||
                           subscription.status === 'trialing' ||
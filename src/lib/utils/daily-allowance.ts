@@ -0,0 +1,57 @@
+/**
+ * Client helpers for the free tier daily card limit.
+ * The server resets the limit at midnight in the timezone sent here.
+ */
+
+export interface DailyAllowance {
+  limit: number;
+  remaining: number;
+  resetsAt: string | null; // ISO timestamp of the next reset
+}
+
+/**
+ * Headers carrying the browser's timezone, for requests that count days
+ */
+export function getTimeZoneHeaders(): Record<string, string> {
+  return { 'X-Timezone': Intl.DateTimeFormat().resolvedOptions().timeZone };
+}
+
+/**
+ * Headers for card rating requests, carrying the browser's timezone
+ */
+export function getRatingHeaders(): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...getTimeZoneHeaders(),
+  };
+}
+
+/**
+ * Read the remaining-allowance headers from a rating response (null for paid users)
+ */
+export function readDailyAllowance(response: Response): DailyAllowance | null {
+  const limit = response.headers.get('X-DailyCards-Limit');
+  const remaining = response.headers.get('X-DailyCards-Remaining');
+
+  if (limit === null || remaining === null) {
+    return null;
+  }
+
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetsAt: response.headers.get('X-DailyCards-Reset'),
+  };
+}
+
+/**
+ * Format the time left until the limit resets as H:MM:SS
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
@@ -20,7 +20,6 @@ export function shuffleArray<T>(array: T[]): T[] {
 
 interface QuizOption {
   text: string;
-  isCorrect: boolean;
 }
 
 /**
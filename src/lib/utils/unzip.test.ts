@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { unzipWithinLimits } from './unzip';
+
+const KB = 1024;
+
+describe('unzipWithinLimits', () => {
+  it('unzips only the selected entries', () => {
+    const zipped = zipSync({
+      'keep.txt': strToU8('kept'),
+      'stored.bin': [new Uint8Array([1, 2, 3]), { level: 0 }],
+      'skip.txt': strToU8('skipped'),
+    });
+
+    const result = unzipWithinLimits(zipped, (name) => (name === 'skip.txt' ? false : KB), 10 * KB);
+
+    expect(result).toMatchObject({ success: true, entries: ['keep.txt', 'stored.bin', 'skip.txt'], oversized: [] });
+    if (!result.success) return;
+    expect(Object.keys(result.files)).toEqual(['keep.txt', 'stored.bin']);
+    expect(result.files['stored.bin']).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('leaves out an entry that unzips past its own limit', () => {
+    const zipped = zipSync({ 'big.bin': new Uint8Array(64 * KB), 'small.txt': strToU8('small') });
+
+    const result = unzipWithinLimits(zipped, () => 4 * KB, 1024 * KB);
+
+    expect(result).toMatchObject({ success: true, oversized: ['big.bin'] });
+    if (!result.success) return;
+    expect(Object.keys(result.files)).toEqual(['small.txt']);
+  });
+
+  it('counts the bytes really unzipped rather than the size the zip declares', () => {
+    const zipped = zipSync({ 'bomb.bin': new Uint8Array(2048 * KB) });
+    // Forge the uncompressed size in the local file header
+    new DataView(zipped.buffer, zipped.byteOffset).setUint32(22, 1, true);
+
+    expect(unzipWithinLimits(zipped, () => 4096 * KB, 256 * KB)).toEqual({ success: false, error: 'too_large' });
+  });
+
+  it('rejects data that is not a zip archive', () => {
+    expect(unzipWithinLimits(strToU8('front,back'), () => KB, KB)).toMatchObject({ success: false });
+    expect(unzipWithinLimits(new Uint8Array(0), () => KB, KB)).toEqual({ success: false, error: 'invalid' });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Bounded Unzipping
+ * Zip entries are inflated in a stream that counts the bytes they really unzip to, since the
+ * sizes a zip declares can be forged to make a small upload expand without end.
+ */
+
+import { Unzip, UnzipInflate } from 'fflate';
+
+// Each push inflates at most this much input, so one step unzips to at most ~1000x as much
+const INPUT_CHUNK_SIZE = 16 * 1024;
+
+export type UnzipResult =
+  | {
+      success: true;
+      files: Record<string, Uint8Array>;
+      entries: string[]; // Names of every entry in the zip, unzipped or not
+      oversized: string[]; // Entries left out for unzipping past their own limit
+      size: number; // Bytes unzipped, including those of oversized entries
+    }
+  | { success: false; error: 'invalid' | 'too_large' };
+
+function joinChunks(chunks: Uint8Array[], size: number): Uint8Array {
+  const joined = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return joined;
+}
+
+/**
+ * Unzip the entries `select` gives a size limit for, leaving out the others unread
+ * An entry that unzips past its limit is left out, and the whole zip fails once the
+ * entries unzipped add up to more than `maxTotalSize`.
+ */
+export function unzipWithinLimits(
+  data: Uint8Array,
+  select: (name: string) => number | false,
+  maxTotalSize: number
+): UnzipResult {
+  const files: Record<string, Uint8Array> = {};
+  const entries: string[] = [];
+  const oversized: string[] = [];
+  let size = 0;
+  let failure: 'invalid' | 'too_large' | null = null;
+
+  const unzipper = new Unzip((file) => {
+    entries.push(file.name);
+    const maxSize = select(file.name);
+    if (maxSize === false) return;
+
+    const chunks: Uint8Array[] = [];
+    let fileSize = 0;
+    file.ondata = (error, chunk, final) => {
+      if (error) {
+        failure ??= 'invalid';
+        return;
+      }
+
+      fileSize += chunk.length;
+      size += chunk.length;
+      if (size > maxTotalSize) {
+        failure ??= 'too_large';
+        file.terminate();
+        return;
+      }
+      if (fileSize > maxSize) {
+        oversized.push(file.name);
+        file.terminate();
+        return;
+      }
+
+      chunks.push(chunk);
+      if (final) files[file.name] = joinChunks(chunks, fileSize);
+    };
+    file.start();
+  });
+  unzipper.register(UnzipInflate);
+
+  try {
+    for (let offset = 0; offset < data.length && !failure; offset += INPUT_CHUNK_SIZE) {
+      unzipper.push(data.subarray(offset, offset + INPUT_CHUNK_SIZE), offset + INPUT_CHUNK_SIZE >= data.length);
+    }
+  } catch {
+    failure ??= 'invalid';
+  }
+
+  if (failure) {
+    return { success: false, error: failure };
+  }
+
+  // Data without a single zip entry in it is not a zip archive
+  if (entries.length === 0) {
+    return { success: false, error: 'invalid' };
+  }
+
+  return { success: true, files, entries, oversized, size };
+}
@@ -0,0 +1,137 @@
+/**
+ * Validation schemas for class bundles
+ * A bundle manifest is checked against the same schemas the admin editors use, so a bundle
+ * can only bring in content that could have been entered by hand.
+ */
+
+import { z } from 'zod';
+import { commonValidators } from '@/lib/api/validate';
+import { createClassSchema } from './class';
+import { createDeckSchema } from './deck';
+import { createFlashcardSchema, flashcardMediaSchema } from './flashcard';
+import { quizQuestionSchema } from './quiz';
+import { CONTENT_STATUSES } from '@/lib/editorial/workflow';
+
+export const CLASS_BUNDLE_FORMAT = 'cissp-mastery-class-bundle';
+export const CLASS_BUNDLE_VERSION = 1;
+
+export const BUNDLE_CONFLICT_MODES = ['skip', 'overwrite', 'duplicate'] as const;
+
+/**
+ * Schema for an image of a bundled flashcard; file is its path inside the bundle
+ */
+export const bundleMediaSchema = flashcardMediaSchema
+  .pick({ fileName: true, mimeType: true, placement: true, order: true, altText: true })
+  .extend({
+    id: commonValidators.uuid,
+    file: z.string().min(1, 'Media file path is required'),
+  });
+
+/**
+ * Schema for a bundled quiz question, in the quiz upload format
+ */
+export const bundleQuizQuestionSchema = z
+  .object({
+    id: commonValidators.uuid,
+    order: commonValidators.order,
+  })
+  .and(quizQuestionSchema);
+
+/**
+ * Schema for a bundled deck quiz question; its topic mapping is given by topic_code and sub_topic_name
+ */
+export const bundleDeckQuizQuestionSchema = z
+  .object({
+    id: commonValidators.uuid,
+    order: commonValidators.order,
+    difficulty: z.number().int().min(1).max(5).nullable().optional(),
+    status: z.enum(CONTENT_STATUSES).optional(), // Status where it was exported; imports start as drafts
+  })
+  .and(quizQuestionSchema);
+
+/**
+ * Schema for a bundled flashcard with its images and quiz questions
+ */
+export const bundleFlashcardSchema = createFlashcardSchema
+  .pick({ question: true, answer: true, explanation: true, order: true })
+  .extend({
+    id: commonValidators.uuid,
+    difficulty: z.number().int().nullable().optional(),
+    status: z.enum(CONTENT_STATUSES).optional(), // Status where it was exported; imports start as drafts
+    media: z.array(bundleMediaSchema).max(10, 'Maximum 10 images per flashcard').default([]),
+    quizQuestions: z.array(bundleQuizQuestionSchema).default([]),
+  });
+
+/**
+ * Schema for a bundled deck with its flashcards and deck quiz questions
+ */
+export const bundleDeckSchema = createDeckSchema
+  .omit({ classId: true })
+  .extend({
+    id: commonValidators.uuid,
+    domainNumber: z.number().int().min(1).max(8).nullable().optional(),
+    flashcards: z.array(bundleFlashcardSchema).default([]),
+    deckQuizQuestions: z.array(bundleDeckQuizQuestionSchema).default([]),
+  });
+
+/**
+ * Schema for a topic, and the sub-topics of it, that deck quiz questions in the bundle are mapped to
+ */
+export const bundleTopicSchema = z.object({
+  topicCode: z.string().min(1, 'Topic code is required').max(20),
+  domainNumber: z.number().int().min(1),
+  topicName: z.string().min(1, 'Topic name is required'),
+  order: commonValidators.order,
+  subTopics: z
+    .array(
+      z.object({
+        subTopicName: z.string().min(1, 'Sub-topic name is required'),
+        order: commonValidators.order,
+      })
+    )
+    .default([]),
+});
+
+/**
+ * Schema for the manifest.json of a class bundle
+ */
+export const classBundleManifestSchema = z.object({
+  format: z.literal(CLASS_BUNDLE_FORMAT, { message: 'The file is not a class bundle' }),
+  version: z
+    .number()
+    .int()
+    .min(1)
+    .max(CLASS_BUNDLE_VERSION, 'This bundle was exported by a newer version of the app'),
+  exportedAt: commonValidators.isoDate,
+  class: createClassSchema.extend({ id: commonValidators.uuid }),
+  topics: z.array(bundleTopicSchema).default([]),
+  decks: z.array(bundleDeckSchema).default([]),
+});
+
+/**
+ * Schema for the form fields sent with a bundle file
+ */
+export const classBundleImportOptionsSchema = z.object({
+  mode: z
+    .enum(BUNDLE_CONFLICT_MODES, { message: 'Mode must be "skip", "overwrite" or "duplicate"' })
+    .optional()
+    .default('skip'),
+  dryRun: z
+    .enum(['true', 'false'])
+    .optional()
+    .default('true')
+    .transform((val) => val === 'true'),
+});
+
+/**
+ * Type exports
+ */
+export type BundleConflictMode = (typeof BUNDLE_CONFLICT_MODES)[number];
+export type BundleMedia = z.infer<typeof bundleMediaSchema>;
+export type BundleQuizQuestion = z.infer<typeof bundleQuizQuestionSchema>;
+export type BundleDeckQuizQuestion = z.infer<typeof bundleDeckQuizQuestionSchema>;
+export type BundleFlashcard = z.infer<typeof bundleFlashcardSchema>;
+export type BundleDeck = z.infer<typeof bundleDeckSchema>;
+export type BundleTopic = z.infer<typeof bundleTopicSchema>;
+export type ClassBundleManifest = z.infer<typeof classBundleManifestSchema>;
+export type ClassBundleImportOptions = z.infer<typeof classBundleImportOptionsSchema>;
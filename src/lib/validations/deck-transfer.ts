@@ -0,0 +1,62 @@
+/**
+ * Validation schemas for deck import and export
+ */
+
+import { z } from 'zod';
+
+const optionalColumn = z.string().max(255).optional().nullable();
+
+/**
+ * Schema for the columns an import maps onto card fields
+ */
+export const fieldMappingSchema = z.object({
+  question: z.string().min(1, 'Choose the column with the question').max(255),
+  answer: z.string().min(1, 'Choose the column with the answer').max(255),
+  explanation: optionalColumn,
+  questionImages: optionalColumn,
+  answerImages: optionalColumn,
+  quiz: optionalColumn,
+  rowType: optionalColumn,
+});
+
+/**
+ * Schema for the form fields sent with an import file
+ */
+export const deckImportOptionsSchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'])
+    .optional()
+    .default('true')
+    .transform((val) => val === 'true'),
+  hasHeader: z
+    .enum(['true', 'false'])
+    .optional()
+    .default('true')
+    .transform((val) => val === 'true'),
+  mapping: z
+    .string()
+    .optional()
+    .transform((val, ctx) => {
+      if (!val) return undefined;
+      try {
+        return JSON.parse(val) as unknown;
+      } catch {
+        ctx.addIssue({ code: 'custom', message: 'Field mapping must be valid JSON' });
+        return z.NEVER;
+      }
+    })
+    .pipe(fieldMappingSchema.optional()),
+});
+
+/**
+ * Schema for deck export query parameters
+ */
+export const deckExportQuerySchema = z.object({
+  format: z.enum(['csv', 'apkg'], { message: 'Format must be "csv" or "apkg"' }).optional().default('csv'),
+});
+
+/**
+ * Type exports
+ */
+export type FieldMappingInput = z.infer<typeof fieldMappingSchema>;
+export type DeckImportOptions = z.infer<typeof deckImportOptionsSchema>;
@@ -49,7 +49,6 @@ export const createFlashcardSchema = z.object({
     .optional()
     .nullable(),
   order: commonValidators.order,
-  isPublished: commonValidators.boolean,
   media: z
     .array(flashcardMediaSchema)
     .max(10, 'Maximum 10 images per flashcard')
@@ -0,0 +1,42 @@
+/**
+ * Validation schemas for the study history timeline
+ */
+
+import { z } from 'zod';
+
+// Study sessions, or quiz sessions of one quiz type
+export const HISTORY_SESSION_TYPES = ['study', 'deck', 'flashcard', 'exam', 'drill'] as const;
+
+export type HistorySessionType = (typeof HISTORY_SESSION_TYPES)[number];
+
+export const HISTORY_SESSION_TYPE_LABELS: Record<HistorySessionType, string> = {
+  study: 'Study Sessions',
+  deck: 'Deck Quizzes',
+  flashcard: 'Flashcard Quizzes',
+  exam: 'Exam Simulations',
+  drill: 'Topic Drills',
+};
+
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format');
+
+/**
+ * Schema for the timeline filters; dates are calendar days in the learner's timezone
+ */
+export const historyQuerySchema = z
+  .object({
+    type: z.enum(HISTORY_SESSION_TYPES).optional(),
+    classId: z.string().uuid().optional(),
+    deckId: z.string().uuid().optional(),
+    from: localDateSchema.optional(),
+    to: localDateSchema.optional(),
+    page: z.coerce.number().int().min(0).default(0),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must not be after to',
+    path: ['from'],
+  });
+
+/**
+ * Type exports
+ */
+export type HistoryQueryParams = z.infer<typeof historyQuerySchema>;
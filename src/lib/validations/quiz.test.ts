@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { chunkQuizFile, validateQuizFile, validateQuizQuestionUpdate } from './quiz';
+
+function makeQuestion(options: Array<{ id?: string; text: string; isCorrect: boolean }>) {
+  return { question: 'Which control is preventive?', options };
+}
+
+describe('quiz option ids', () => {
+  it('assigns a unique id to every option without one', () => {
+    const result = validateQuizFile({
+      questions: [
+        makeQuestion([
+          { text: 'Firewall', isCorrect: true },
+          { text: 'Audit log', isCorrect: false },
+          { text: 'CCTV', isCorrect: false },
+        ]),
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const ids = result.data.questions[0].options.map((o) => o.id);
+    expect(ids.every((id) => typeof id === 'string' && id.length > 0)).toBe(true);
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  it('keeps ids that are already present', () => {
+    const result = validateQuizQuestionUpdate({
+      questionText: 'Which control is preventive?',
+      options: [
+        { id: 'opt-a', text: 'Firewall', isCorrect: true },
+        { text: 'Audit log', isCorrect: false },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.options[0].id).toBe('opt-a');
+    expect(result.data.options[1].id).not.toBe('opt-a');
+  });
+
+  it('rejects duplicate option ids within a question', () => {
+    const result = validateQuizFile({
+      questions: [
+        makeQuestion([
+          { id: 'opt-a', text: 'Firewall', isCorrect: true },
+          { id: 'opt-a', text: 'Audit log', isCorrect: false },
+        ]),
+      ],
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('quiz question types', () => {
+  it('defaults uploaded questions to single choice', () => {
+    const result = validateQuizFile({
+      questions: [makeQuestion([
+        { text: 'Firewall', isCorrect: true },
+        { text: 'Audit log', isCorrect: false },
+      ])],
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.questions[0].question_type).toBe('single_choice');
+  });
+
+  it('accepts ordering items without correct flags', () => {
+    const result = validateQuizFile({
+      questions: [{
+        question_type: 'ordering',
+        question: 'Put the incident response phases in order',
+        options: [{ text: 'Detection' }, { text: 'Response' }, { text: 'Mitigation' }],
+      }],
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('requires a match for every matching item', () => {
+    const result = validateQuizFile({
+      questions: [{
+        question_type: 'matching',
+        question: 'Match each model to what it protects',
+        options: [{ text: 'Bell-LaPadula', match: 'Confidentiality' }, { text: 'Biba' }],
+      }],
+    });
+
+    expect(result).toEqual({ success: false, error: 'questions.0.options.1.match: Match text is required' });
+  });
+
+  it('requires an image for hotspot questions', () => {
+    const result = validateQuizQuestionUpdate({
+      questionType: 'hotspot',
+      questionText: 'Click the DMZ',
+      options: [{ text: 'DMZ', isCorrect: true, region: { x: 10, y: 10, width: 20, height: 20 } }],
+    });
+
+    expect(result).toEqual({ success: false, error: 'imageUrl: An image is required for hotspot questions' });
+  });
+});
+
+describe('chunkQuizFile', () => {
+  it('splits questions into upload-sized files', () => {
+    const questions = Array.from({ length: 120 }, (_, index) => index);
+
+    const chunks = chunkQuizFile({ questions });
+    expect(chunks.map((chunk) => chunk.questions.length)).toEqual([50, 50, 20]);
+    expect(chunks.flatMap((chunk) => chunk.questions)).toEqual(questions);
+    expect(chunkQuizFile({ questions }, 100)).toHaveLength(2);
+  });
+});
@@ -1,60 +1,147 @@
 import { z } from 'zod';
+import { QUIZ_OPTION_LIMITS, QUIZ_QUESTION_TYPES, type QuizQuestionType } from '@/lib/quiz/question-types';
+
+// Hotspot region, in percent of the image width and height
+export const hotspotRegionSchema = z
+  .object({
+    x: z.number().min(0).max(100),
+    y: z.number().min(0).max(100),
+    width: z.number().positive().max(100),
+    height: z.number().positive().max(100),
+  })
+  .refine((region) => region.x + region.width <= 100 && region.y + region.height <= 100, 'Region must fit inside the image');
 
 // Quiz option schema
+// id is optional on input; options without one get a persistent id once validated
+// Ordering items are stored in the correct order, matching items carry their match,
+// hotspot options are image regions
 export const quizOptionSchema = z.object({
+  id: z.string().min(1).max(64).optional(),
   text: z.string().min(1, 'Option text is required'),
-  isCorrect: z.boolean(),
+  isCorrect: z.boolean().default(false),
+  match: z.string().min(1, 'Match text is required').optional(),
+  region: hotspotRegionSchema.optional(),
 });
 
+// Generate a persistent option id so recorded answers survive shuffling and edits
+export function createOptionId(): string {
+  return crypto.randomUUID();
+}
+
+// Give every option a persistent id, keeping ids that already exist
+export function assignOptionIds<T extends { id?: string }>(options: T[]): Array<T & { id: string }> {
+  return options.map((option) => ({ ...option, id: option.id ?? createOptionId() }));
+}
+
+// Check that no two options of a question share an id
+function hasUniqueOptionIds(options: Array<{ id?: string }>): boolean {
+  const ids = options.flatMap((o) => (o.id ? [o.id] : []));
+  return new Set(ids).size === ids.length;
+}
+
+const quizOptionsSchema = z
+  .array(quizOptionSchema)
+  .min(1, 'At least one option is required')
+  .refine(hasUniqueOptionIds, 'Option ids must be unique')
+  .transform(assignOptionIds);
+
+/**
+ * Check the options of a question against the rules of its type
+ * Shared by the upload and update schemas, which name the image field differently
+ */
+function checkQuestionType(
+  question: { questionType: QuizQuestionType; options: Array<z.infer<typeof quizOptionSchema>>; imageUrl?: string | null },
+  imageUrlKey: string,
+  ctx: z.RefinementCtx
+) {
+  const { questionType, options, imageUrl } = question;
+  const { min, max } = QUIZ_OPTION_LIMITS[questionType];
+
+  if (options.length < min) {
+    ctx.addIssue({ code: 'custom', path: ['options'], message: `At least ${min} options are required` });
+  }
+  if (options.length > max) {
+    ctx.addIssue({ code: 'custom', path: ['options'], message: `Maximum ${max} options allowed` });
+  }
+
+  switch (questionType) {
+    case 'single_choice':
+    case 'multi_select':
+      if (!options.some((o) => o.isCorrect)) {
+        ctx.addIssue({ code: 'custom', path: ['options'], message: 'At least one correct answer is required' });
+      }
+      break;
+
+    case 'ordering':
+      break;
+
+    case 'matching':
+      options.forEach((o, index) => {
+        if (!o.match) {
+          ctx.addIssue({ code: 'custom', path: ['options', index, 'match'], message: 'Match text is required' });
+        }
+      });
+      break;
+
+    case 'hotspot':
+      if (!imageUrl) {
+        ctx.addIssue({ code: 'custom', path: [imageUrlKey], message: 'An image is required for hotspot questions' });
+      }
+      options.forEach((o, index) => {
+        if (!o.region) {
+          ctx.addIssue({ code: 'custom', path: ['options', index, 'region'], message: 'Region is required' });
+        }
+      });
+      if (!options.some((o) => o.isCorrect)) {
+        ctx.addIssue({ code: 'custom', path: ['options'], message: 'At least one correct region is required' });
+      }
+      break;
+  }
+}
+
 // Quiz question schema
-export const quizQuestionSchema = z.object({
-  question: z.string().min(1, 'Question text is required'),
-  options: z
-    .array(quizOptionSchema)
-    .min(2, 'At least 2 options are required')
-    .max(6, 'Maximum 6 options allowed')
-    .refine(
-      (options) => options.filter((o) => o.isCorrect).length >= 1,
-      'At least one correct answer is required'
-    )
-    .refine(
-      (options) => options.filter((o) => o.isCorrect).length <= options.length,
-      'Cannot have more correct answers than total options'
-    ),
-  explanation: z.string().optional(),
-  elimination_tactics: z.record(z.string(), z.string()).optional(), // Object with option text as key, elimination reason as value
-  correct_answer_with_justification: z.record(z.string(), z.string()).optional(), // Object with correct option as key, justification as value
-  compare_remaining_options_with_justification: z.record(z.string(), z.string()).optional(), // Object comparing remaining options after elimination
-  correct_options_justification: z.record(z.string(), z.string()).optional(), // Object with correct option as key, detailed justification as value
-  // Topic reference for categorization (e.g., "1.2.1" or "5 Pillars of Information Security")
-  topic_code: z.string().optional(), // e.g., "1.2" - references topics.topic_code
-  sub_topic_name: z.string().optional(), // e.g., "5 Pillars of Information Security" - references sub_topics.sub_topic_name
-});
+export const quizQuestionSchema = z
+  .object({
+    question_type: z.enum(QUIZ_QUESTION_TYPES).default('single_choice'),
+    question: z.string().min(1, 'Question text is required'),
+    image_url: z.string().url('Must be a valid URL').optional(), // Hotspot image
+    options: quizOptionsSchema,
+    explanation: z.string().optional(),
+    elimination_tactics: z.record(z.string(), z.string()).optional(), // Object with option text as key, elimination reason as value
+    correct_answer_with_justification: z.record(z.string(), z.string()).optional(), // Object with correct option as key, justification as value
+    compare_remaining_options_with_justification: z.record(z.string(), z.string()).optional(), // Object comparing remaining options after elimination
+    correct_options_justification: z.record(z.string(), z.string()).optional(), // Object with correct option as key, detailed justification as value
+    // Topic reference for categorization (e.g., "1.2.1" or "5 Pillars of Information Security")
+    topic_code: z.string().optional(), // e.g., "1.2" - references topics.topic_code
+    sub_topic_name: z.string().optional(), // e.g., "5 Pillars of Information Security" - references sub_topics.sub_topic_name
+  })
+  .superRefine((q, ctx) =>
+    checkQuestionType({ questionType: q.question_type, options: q.options, imageUrl: q.image_url }, 'image_url', ctx)
+  );
+
+// Questions per upload request; larger files are uploaded in chunks of this size
+export const QUIZ_UPLOAD_CHUNK_SIZE = 50;
 
 // Quiz file schema (for JSON upload)
 export const quizFileSchema = z.object({
   questions: z
     .array(quizQuestionSchema)
     .min(1, 'At least one question is required')
-    .max(50, 'Maximum 50 questions per upload'),
+    .max(QUIZ_UPLOAD_CHUNK_SIZE, `Maximum ${QUIZ_UPLOAD_CHUNK_SIZE} questions per upload`),
 });
 
 // TypeScript types
-export type QuizOption = z.infer<typeof quizOptionSchema>;
+export type QuizOption = z.infer<typeof quizOptionSchema> & { id: string };
+export type QuizOptionInput = z.input<typeof quizOptionSchema>;
 export type QuizQuestion = z.infer<typeof quizQuestionSchema>;
 export type QuizFile = z.infer<typeof quizFileSchema>;
 
-// Schema for updating a quiz question (excludes order - read-only field)
-export const quizQuestionUpdateSchema = z.object({
+// Fields for updating a quiz question (excludes order - read-only field)
+const quizQuestionUpdateFields = z.object({
+  questionType: z.enum(QUIZ_QUESTION_TYPES).default('single_choice'),
   questionText: z.string().min(1, 'Question text is required'),
-  options: z
-    .array(quizOptionSchema)
-    .min(2, 'At least 2 options are required')
-    .max(6, 'Maximum 6 options allowed')
-    .refine(
-      (options) => options.filter((o) => o.isCorrect).length >= 1,
-      'At least one correct answer is required'
-    ),
+  imageUrl: z.string().url('Must be a valid URL').optional().nullable(),
+  options: quizOptionsSchema,
   explanation: z.string().optional(),
   eliminationTactics: z.record(z.string(), z.string()).optional(),
   correctAnswerWithJustification: z.record(z.string(), z.string()).optional(),
@@ -62,14 +149,23 @@ export const quizQuestionUpdateSchema = z.object({
   correctOptionsJustification: z.record(z.string(), z.string()).optional(),
 });
 
+// Schema for updating a quiz question
+export const quizQuestionUpdateSchema = quizQuestionUpdateFields.superRefine((q, ctx) =>
+  checkQuestionType(q, 'imageUrl', ctx)
+);
+
 // Deck quiz update schema includes difficulty field
-export const deckQuizQuestionUpdateSchema = quizQuestionUpdateSchema.extend({
-  difficulty: z.number().min(1).max(5).optional().nullable(),
-});
+export const deckQuizQuestionUpdateSchema = quizQuestionUpdateFields
+  .extend({
+    difficulty: z.number().min(1).max(5).optional().nullable(),
+  })
+  .superRefine((q, ctx) => checkQuestionType(q, 'imageUrl', ctx));
 
 // TypeScript types for updates
 export type QuizQuestionUpdate = z.infer<typeof quizQuestionUpdateSchema>;
 export type DeckQuizQuestionUpdate = z.infer<typeof deckQuizQuestionUpdateSchema>;
+export type QuizQuestionUpdateInput = z.input<typeof quizQuestionUpdateSchema>;
+export type DeckQuizQuestionUpdateInput = z.input<typeof deckQuizQuestionUpdateSchema>;
 
 // Helper function to validate quiz JSON
 export function validateQuizFile(data: unknown): { success: true; data: QuizFile } | { success: false; error: string } {
@@ -88,6 +184,15 @@ export function validateQuizFile(data: unknown): { success: true; data: QuizFile
   }
 }
 
+// Split a quiz file into files small enough to upload one per request
+export function chunkQuizFile<T extends { questions: unknown[] }>(quiz: T, size = QUIZ_UPLOAD_CHUNK_SIZE): T[] {
+  const chunks: T[] = [];
+  for (let start = 0; start < quiz.questions.length; start += size) {
+    chunks.push({ ...quiz, questions: quiz.questions.slice(start, start + size) });
+  }
+  return chunks;
+}
+
 // Helper function to validate quiz question update
 export function validateQuizQuestionUpdate(
   data: unknown,
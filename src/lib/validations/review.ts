@@ -0,0 +1,57 @@
+/**
+ * Validation schemas for the editorial review workflow
+ */
+
+import { z } from 'zod';
+import { WORKFLOW_ACTIONS } from '@/lib/editorial/workflow';
+
+/**
+ * Schema for a workflow action on one flashcard or deck quiz question
+ */
+export const workflowActionSchema = z.object({
+  action: z.enum(WORKFLOW_ACTIONS, { message: 'Invalid workflow action' }),
+  reviewerId: z.string().min(1).max(255).optional(), // Required to submit
+  note: z.string().trim().max(2000, 'Note must be 2000 characters or less').optional(), // Reviewer's note with a decision
+});
+
+/**
+ * Schema for submitting or publishing every eligible item in a deck at once
+ */
+export const deckWorkflowSchema = z.object({
+  action: z.enum(['submit', 'publish'], { message: 'Action must be "submit" or "publish"' }),
+  reviewerId: z.string().min(1).max(255).optional(),
+});
+
+/**
+ * Schema for a review comment, optionally pointing at a passage of one field
+ */
+export const reviewCommentSchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, 'Comment is required')
+    .max(5000, 'Comment must be 5000 characters or less'),
+  field: z.string().max(50).optional().nullable(),
+  quote: z.string().max(1000, 'Quoted passage must be 1000 characters or less').optional().nullable(),
+});
+
+/**
+ * Schema for resolving or reopening a review comment
+ */
+export const resolveReviewCommentSchema = z.object({
+  resolved: z.boolean(),
+});
+
+/**
+ * Schema for the review queue filter
+ */
+export const reviewQueueQuerySchema = z.object({
+  scope: z.enum(['mine', 'all']).optional().default('mine'),
+});
+
+/**
+ * Type exports
+ */
+export type WorkflowActionInput = z.infer<typeof workflowActionSchema>;
+export type DeckWorkflowInput = z.infer<typeof deckWorkflowSchema>;
+export type ReviewCommentInput = z.infer<typeof reviewCommentSchema>;
@@ -0,0 +1,35 @@
+/**
+ * Validation schemas for the personal study planner
+ */
+
+import { z } from 'zod';
+import { STUDY_PLAN_CONFIG } from '@/lib/planner/study-plan';
+
+/**
+ * Schema for saving the planner settings
+ * The exam date is a calendar date in the learner's timezone; whether it lies ahead is checked by the route
+ */
+export const studyPlanSettingsSchema = z.object({
+  examDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Exam date must be in YYYY-MM-DD format')
+    .refine((value) => {
+      const parsed = Date.parse(`${value}T00:00:00Z`);
+      return !Number.isNaN(parsed) && new Date(parsed).toISOString().startsWith(value);
+    }, 'Exam date is not a valid date'),
+  weeklyMinutes: z
+    .number()
+    .int('Weekly minutes must be a whole number')
+    .min(STUDY_PLAN_CONFIG.MIN_WEEKLY_MINUTES, `Plan at least ${STUDY_PLAN_CONFIG.MIN_WEEKLY_MINUTES} minutes a week`)
+    .max(STUDY_PLAN_CONFIG.MAX_WEEKLY_MINUTES, `Plan at most ${STUDY_PLAN_CONFIG.MAX_WEEKLY_MINUTES / 60} hours a week`),
+  studyDays: z
+    .array(z.number().int().min(0).max(6))
+    .min(1, 'Pick at least one study day')
+    .max(7)
+    .transform((days) => Array.from(new Set(days)).sort((a, b) => a - b)),
+});
+
+/**
+ * Type exports
+ */
+export type StudyPlanSettingsInput = z.infer<typeof studyPlanSettingsSchema>;
@@ -3,7 +3,7 @@ import { defineConfig } from 'vitest/config';
 export default defineConfig({
   test: {
     environment: 'node',
-    include: ['src/app/api/**/*.test.ts'],
+    include: ['src/app/api/**/*.test.ts', 'src/lib/**/*.test.ts'],
     globals: true,
     setupFiles: ['./src/test/setup.ts'],
   },